@@ -5,7 +5,7 @@ export interface ICliConfig {
   dev: boolean;
   compiled: boolean;
   version: string;
-  command: 'serve' | 'canvas' | 'upgrade' | 'unknown';
+  command: 'serve' | 'canvas' | 'upgrade' | 'mcp' | 'backup' | 'unknown';
   subcommand?: string;
   rawArgv: string[];
   argv: string[];
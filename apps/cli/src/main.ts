@@ -6,6 +6,8 @@ import type { ICliConfig } from './config';
 import { bootCliRuntime, createCliHooks, shutdownCliRuntime } from './hooks';
 import { CliArgvError, parseCliArgv } from './parse-argv';
 import { createAutomergePlugin } from './plugins/automerge/AutomergePlugin';
+import { createBackupPlugin } from './plugins/backup/BackupPlugin';
+import { createCanvasSyncPlugin } from './plugins/canvas-sync/CanvasSyncPlugin';
 import { createCliPlugin } from './plugins/cli/CliPlugin';
 import { fnPrintCommandError } from './plugins/cli/core/fn.print-command-result';
 import { createFilesystemPlugin } from './plugins/filesystem/FilesystemPlugin';
@@ -42,7 +44,7 @@ try {
   throw error
 }
 
-if (config.command === 'canvas') {
+if (config.command === 'canvas' || config.command === 'mcp' || config.command === 'backup') {
   process.env.VIBECANVAS_SILENT_DB_MIGRATIONS = '1'
   process.env.VIBECANVAS_SILENT_AUTOMERGE_LOGS = '1'
 }
@@ -50,7 +52,7 @@ if (config.command === 'canvas') {
 const { services } = setupServices(config);
 
 const runtime = createRuntime<any, ICliConfig>({
-  plugins: [createFilesystemPlugin(), createCliPlugin(), createOrpcPlugin(), createPtyPlugin(), createAutomergePlugin(), createServerPlugin()],
+  plugins: [createFilesystemPlugin(), createCliPlugin(), createOrpcPlugin(), createPtyPlugin(), createAutomergePlugin(), createServerPlugin(), createBackupPlugin(), createCanvasSyncPlugin()],
   services,
   hooks: createCliHooks(),
   config,
@@ -1,7 +1,7 @@
 import { parseArgs } from 'util';
 import { CANVAS_SUBCOMMAND_SET } from './plugins/cli/core/constants';
 
-type TCliCommand = 'serve' | 'canvas' | 'upgrade' | 'unknown';
+type TCliCommand = 'serve' | 'canvas' | 'upgrade' | 'mcp' | 'backup' | 'unknown';
 
 type TCanvasSubcommandOptions = {
   json?: boolean;
@@ -19,6 +19,7 @@ type TCanvasSubcommandOptions = {
   styles?: string[];
   groupId?: string;
   subtree?: string;
+  frame?: string;
   bounds?: string;
   boundsMode?: string;
   where?: string;
@@ -38,12 +39,69 @@ type TCanvasSubcommandOptions = {
   texts?: string[];
   lines?: string[];
   arrows?: string[];
+  stickies?: string[];
+  markdowns?: string[];
+  notes?: string[];
+  color?: string;
+  author?: string;
 
   patch?: string;
   patchFile?: string;
   patchStdin?: boolean;
 
   action?: string;
+
+  from?: string;
+  to?: string;
+  connector?: string;
+  lineType?: string;
+  startCap?: string;
+  endCap?: string;
+
+  format?: string;
+  scale?: string;
+  background?: string;
+  padding?: string;
+  out?: string;
+
+  file?: string;
+  name?: string;
+  vault?: string;
+
+  diagram?: string;
+  diagramFile?: string;
+  diagramStdin?: boolean;
+
+  algorithm?: string;
+  direction?: string;
+  gap?: string;
+  columns?: string;
+
+  mode?: string;
+  axis?: string;
+
+  session?: string;
+
+  at?: string[];
+  limit?: string;
+  window?: string;
+
+  otherCanvasId?: string;
+  otherCanvasNameQuery?: string;
+
+  intoCanvasId?: string;
+  intoCanvasNameQuery?: string;
+
+  since?: string;
+
+  onConflict?: string;
+
+  path?: string;
+  filesystemId?: string;
+  keep?: string;
+  unbind?: boolean;
+
+  force?: boolean;
 };
 
 class CliArgvError extends Error {
@@ -72,6 +130,8 @@ type TCliParsedArgv = {
 function getDefaultCommand(commandToken: string | undefined): TCliCommand {
   if (commandToken === 'canvas') return 'canvas';
   if (commandToken === 'upgrade') return 'upgrade';
+  if (commandToken === 'mcp') return 'mcp';
+  if (commandToken === 'backup') return 'backup';
   if (commandToken === undefined || /^\d+$/.test(commandToken)) return 'serve';
   if (commandToken === 'serve') return 'serve';
   if (commandToken.startsWith('-')) return 'serve';
@@ -151,6 +211,7 @@ function parseCliArgv(rawArgv: readonly string[] = Bun.argv): TCliParsedArgv {
       style: { type: 'string', multiple: true },
       group: { type: 'string' },
       subtree: { type: 'string' },
+      frame: { type: 'string' },
       bounds: { type: 'string' },
       'bounds-mode': { type: 'string' },
       where: { type: 'string' },
@@ -170,12 +231,69 @@ function parseCliArgv(rawArgv: readonly string[] = Bun.argv): TCliParsedArgv {
       text: { type: 'string', multiple: true },
       line: { type: 'string', multiple: true },
       arrow: { type: 'string', multiple: true },
+      sticky: { type: 'string', multiple: true },
+      markdown: { type: 'string', multiple: true },
+      note: { type: 'string', multiple: true },
+      color: { type: 'string' },
+      author: { type: 'string' },
 
       patch: { type: 'string' },
       'patch-file': { type: 'string' },
       'patch-stdin': { type: 'boolean', default: false },
 
       action: { type: 'string' },
+
+      from: { type: 'string' },
+      to: { type: 'string' },
+      connector: { type: 'string' },
+      'line-type': { type: 'string' },
+      'start-cap': { type: 'string' },
+      'end-cap': { type: 'string' },
+
+      format: { type: 'string' },
+      scale: { type: 'string' },
+      background: { type: 'string' },
+      padding: { type: 'string' },
+      out: { type: 'string' },
+
+      file: { type: 'string' },
+      name: { type: 'string' },
+      vault: { type: 'string' },
+
+      diagram: { type: 'string' },
+      'diagram-file': { type: 'string' },
+      'diagram-stdin': { type: 'boolean', default: false },
+
+      algorithm: { type: 'string' },
+      direction: { type: 'string' },
+      gap: { type: 'string' },
+      columns: { type: 'string' },
+
+      mode: { type: 'string' },
+      axis: { type: 'string' },
+
+      session: { type: 'string' },
+
+      at: { type: 'string', multiple: true },
+      limit: { type: 'string' },
+      window: { type: 'string' },
+
+      'other-canvas': { type: 'string' },
+      'other-canvas-name': { type: 'string' },
+
+      into: { type: 'string' },
+      'into-name': { type: 'string' },
+
+      since: { type: 'string' },
+
+      'on-conflict': { type: 'string' },
+
+      path: { type: 'string' },
+      filesystem: { type: 'string' },
+      keep: { type: 'string' },
+      unbind: { type: 'boolean', default: false },
+
+      force: { type: 'boolean', default: false },
     },
   });
 
@@ -185,9 +303,11 @@ function parseCliArgv(rawArgv: readonly string[] = Bun.argv): TCliParsedArgv {
     ? commandToken === 'canvas'
       ? positionals[3]
       : commandToken
-    : command === 'unknown'
-      ? commandToken
-      : undefined;
+    : command === 'backup'
+      ? positionals[3]
+      : command === 'unknown'
+        ? commandToken
+        : undefined;
 
   const ids = normalizeMultiStringOption(values.id).flatMap((value) => value.split(','));
   const kinds = normalizeMultiStringOption(values.kind);
@@ -200,6 +320,10 @@ function parseCliArgv(rawArgv: readonly string[] = Bun.argv): TCliParsedArgv {
   const texts = normalizeMultiStringOption(values.text);
   const lines = normalizeMultiStringOption(values.line);
   const arrows = normalizeMultiStringOption(values.arrow);
+  const stickies = normalizeMultiStringOption(values.sticky);
+  const markdowns = normalizeMultiStringOption(values.markdown);
+  const notes = normalizeMultiStringOption(values.note);
+  const at = normalizeMultiStringOption(values.at).flatMap((value) => value.split(','));
 
   const schema = parseSchemaOption(argv);
 
@@ -228,6 +352,7 @@ function parseCliArgv(rawArgv: readonly string[] = Bun.argv): TCliParsedArgv {
       styles,
       groupId: typeof values.group === 'string' ? values.group : undefined,
       subtree: typeof values.subtree === 'string' ? values.subtree : undefined,
+      frame: typeof values.frame === 'string' ? values.frame : undefined,
       bounds: typeof values.bounds === 'string' ? values.bounds : undefined,
       boundsMode: typeof values['bounds-mode'] === 'string' ? values['bounds-mode'] : undefined,
       where: typeof values.where === 'string' ? values.where : undefined,
@@ -245,10 +370,53 @@ function parseCliArgv(rawArgv: readonly string[] = Bun.argv): TCliParsedArgv {
       texts,
       lines,
       arrows,
+      stickies,
+      markdowns,
+      notes,
+      color: typeof values.color === 'string' ? values.color : undefined,
+      author: typeof values.author === 'string' ? values.author : undefined,
       patch: typeof values.patch === 'string' ? values.patch : undefined,
       patchFile: typeof values['patch-file'] === 'string' ? values['patch-file'] : undefined,
       patchStdin: values['patch-stdin'] === true,
       action: typeof values.action === 'string' ? values.action : undefined,
+      from: typeof values.from === 'string' ? values.from : undefined,
+      to: typeof values.to === 'string' ? values.to : undefined,
+      connector: typeof values.connector === 'string' ? values.connector : undefined,
+      lineType: typeof values['line-type'] === 'string' ? values['line-type'] : undefined,
+      startCap: typeof values['start-cap'] === 'string' ? values['start-cap'] : undefined,
+      endCap: typeof values['end-cap'] === 'string' ? values['end-cap'] : undefined,
+      format: typeof values.format === 'string' ? values.format : undefined,
+      scale: typeof values.scale === 'string' ? values.scale : undefined,
+      background: typeof values.background === 'string' ? values.background : undefined,
+      padding: typeof values.padding === 'string' ? values.padding : undefined,
+      out: typeof values.out === 'string' ? values.out : undefined,
+      file: typeof values.file === 'string' ? values.file : undefined,
+      name: typeof values.name === 'string' ? values.name : undefined,
+      vault: typeof values.vault === 'string' ? values.vault : undefined,
+      diagram: typeof values.diagram === 'string' ? values.diagram : undefined,
+      diagramFile: typeof values['diagram-file'] === 'string' ? values['diagram-file'] : undefined,
+      diagramStdin: values['diagram-stdin'] === true,
+      algorithm: typeof values.algorithm === 'string' ? values.algorithm : undefined,
+      direction: typeof values.direction === 'string' ? values.direction : undefined,
+      gap: typeof values.gap === 'string' ? values.gap : undefined,
+      columns: typeof values.columns === 'string' ? values.columns : undefined,
+      mode: typeof values.mode === 'string' ? values.mode : undefined,
+      axis: typeof values.axis === 'string' ? values.axis : undefined,
+      session: typeof values.session === 'string' ? values.session : undefined,
+      at,
+      limit: typeof values.limit === 'string' ? values.limit : undefined,
+      window: typeof values.window === 'string' ? values.window : undefined,
+      otherCanvasId: typeof values['other-canvas'] === 'string' ? values['other-canvas'] : undefined,
+      otherCanvasNameQuery: typeof values['other-canvas-name'] === 'string' ? values['other-canvas-name'] : undefined,
+      intoCanvasId: typeof values.into === 'string' ? values.into : undefined,
+      intoCanvasNameQuery: typeof values['into-name'] === 'string' ? values['into-name'] : undefined,
+      since: typeof values.since === 'string' ? values.since : undefined,
+      onConflict: typeof values['on-conflict'] === 'string' ? values['on-conflict'] : undefined,
+      path: typeof values.path === 'string' ? values.path : undefined,
+      filesystemId: typeof values.filesystem === 'string' ? values.filesystem : undefined,
+      keep: typeof values.keep === 'string' ? values.keep : undefined,
+      unbind: values.unbind === true,
+      force: values.force === true,
     },
   };
 }
@@ -0,0 +1,79 @@
+import { fxExecuteWorkspaceBackup } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.backup';
+import type { IPlugin } from '@vibecanvas/runtime';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { mkdir, readdir, readFile, rm, stat } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { ICliConfig } from '../../config';
+import type { ICliHooks } from '../../hooks';
+import { fnBackupArchiveName, fxListBackupArchives, fxPruneBackupArchives, fxReadBackupSettings, fxWriteBackupArchive, type TBackupSettings } from './fx.backup-archive';
+
+const HOUR_MS = 60 * 60 * 1000;
+// setTimeout overflows past ~24.8 days; longer waits re-check when the timer fires.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const RETRY_MS = HOUR_MS;
+
+const fsPortal = { dirname, join, mkdir, readdir, readFile, rm, stat };
+
+function createBackupPlugin(): IPlugin<{ db: IDbService; automerge: IAutomergeService }, ICliHooks, ICliConfig> {
+  return {
+    name: 'backup',
+    apply(ctx) {
+      if (ctx.config.command !== 'serve' || ctx.config.helpRequested || ctx.config.versionRequested) {
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let stopped = false;
+
+      const runBackup = async (settings: TBackupSettings) => {
+        const path = join(settings.dir, fnBackupArchiveName(new Date(), true));
+        const result = await fxExecuteWorkspaceBackup({ dbService: ctx.services.require('db'), automergeService: ctx.services.require('automerge') }, { appVersion: ctx.config.version });
+        await fxWriteBackupArchive(fsPortal, path, result.entries);
+        const pruned = await fxPruneBackupArchives(fsPortal, settings.dir, settings.keep);
+        console.log(`[Backup] Saved ${result.canvasCount} canvases and ${result.fileCount} images to ${path}${pruned.length > 0 ? `, removed ${pruned.length} old archives` : ''}`);
+        for (const skipped of result.skipped) {
+          console.warn(`[Backup] Skipped canvas '${skipped.name}': ${skipped.reason}`);
+        }
+      };
+
+      // The newest scheduled archive on disk sets the next run, so restarts do not reset or double up the schedule.
+      const schedule = async (settings: TBackupSettings, retryAfterMs = 0) => {
+        if (stopped) return;
+        const [newest] = (await fxListBackupArchives(fsPortal, settings.dir)).filter((archive) => archive.scheduled);
+        const dueAt = newest ? Date.parse(newest.modifiedAt) + settings.intervalHours * HOUR_MS : Date.now();
+        const delay = Math.max(retryAfterMs, dueAt - Date.now());
+
+        timer = setTimeout(async () => {
+          timer = null;
+          if (delay > MAX_TIMER_MS) {
+            await schedule(settings);
+            return;
+          }
+          try {
+            await runBackup(settings);
+            await schedule(settings);
+          } catch (error) {
+            console.error(`[Backup] Scheduled backup failed: ${error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error)}`);
+            await schedule(settings, Math.min(settings.intervalHours * HOUR_MS, RETRY_MS));
+          }
+        }, Math.min(delay, MAX_TIMER_MS));
+      };
+
+      ctx.hooks.ready.tapPromise(async () => {
+        const settings = await fxReadBackupSettings(fsPortal, ctx.config);
+        if (!settings.enabled) return;
+        console.log(`[Backup] Scheduled backups every ${settings.intervalHours}h to ${settings.dir}, keeping ${settings.keep}`);
+        await schedule(settings);
+      });
+
+      ctx.hooks.shutdown.tapPromise(async () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+        timer = null;
+      });
+    },
+  };
+}
+
+export { createBackupPlugin };
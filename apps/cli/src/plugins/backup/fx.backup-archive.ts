@@ -0,0 +1,121 @@
+import type { TBackupEntries } from '@vibecanvas/canvas-cmds/core/fn.backup';
+import type { mkdir, readdir, readFile, rm, stat } from 'node:fs/promises';
+import type { dirname, join } from 'node:path';
+import type { ICliConfig } from '../../config';
+
+export type TBackupSettings = {
+  /** Run scheduled backups while `vibecanvas serve` is up. */
+  enabled: boolean;
+  intervalHours: number;
+  /** Scheduled archives to keep; older ones are deleted after each run. */
+  keep: number;
+  /** Archive directory; defaults to `<data dir>/backups`. */
+  dir: string;
+};
+
+export type TBackupArchiveInfo = {
+  name: string;
+  path: string;
+  bytes: number;
+  modifiedAt: string;
+  /** Written by the scheduler; only these count toward `keep`. */
+  scheduled: boolean;
+};
+
+const USER_CONFIG_FILE = 'config.json';
+const BACKUP_ARCHIVE_PREFIX = 'vibecanvas-backup-';
+const BACKUP_ARCHIVE_SUFFIX = '.tar.gz';
+const SCHEDULED_BACKUP_ARCHIVE_SUFFIX = `.scheduled${BACKUP_ARCHIVE_SUFFIX}`;
+const DEFAULT_INTERVAL_HOURS = 24;
+const DEFAULT_KEEP = 7;
+
+export type TBackupArchivePortal = {
+  dirname: typeof dirname;
+  join: typeof join;
+  mkdir: typeof mkdir;
+  readdir: typeof readdir;
+  readFile: typeof readFile;
+  rm: typeof rm;
+  stat: typeof stat;
+};
+
+export function fnBackupArchiveName(date: Date, scheduled = false): string {
+  return `${BACKUP_ARCHIVE_PREFIX}${date.toISOString().replace(/[:.]/g, '-')}${scheduled ? SCHEDULED_BACKUP_ARCHIVE_SUFFIX : BACKUP_ARCHIVE_SUFFIX}`;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Reads the `backups` section of `<config dir>/config.json`. A missing file or section means
+ * scheduled backups are off; invalid values fall back to the defaults.
+ */
+export async function fxReadBackupSettings(portal: Pick<TBackupArchivePortal, 'join' | 'readFile'>, config: Pick<ICliConfig, 'configPath' | 'dataPath'>): Promise<TBackupSettings> {
+  let section: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(await portal.readFile(portal.join(config.configPath, USER_CONFIG_FILE), 'utf8')) as { backups?: unknown };
+    if (typeof parsed?.backups === 'object' && parsed.backups !== null) section = parsed.backups as Record<string, unknown>;
+  } catch {
+    section = {};
+  }
+
+  return {
+    enabled: section.enabled === true,
+    intervalHours: isPositiveNumber(section.intervalHours) ? section.intervalHours : DEFAULT_INTERVAL_HOURS,
+    keep: isPositiveNumber(section.keep) ? Math.floor(section.keep) : DEFAULT_KEEP,
+    dir: typeof section.dir === 'string' && section.dir.trim().length > 0 ? section.dir : portal.join(config.dataPath, 'backups'),
+  };
+}
+
+export async function fxWriteBackupArchive(portal: Pick<TBackupArchivePortal, 'dirname' | 'mkdir'>, path: string, entries: TBackupEntries): Promise<number> {
+  await portal.mkdir(portal.dirname(path), { recursive: true });
+  const bytes = await new Bun.Archive(entries, { compress: 'gzip' }).bytes();
+  await Bun.write(path, bytes);
+  return bytes.byteLength;
+}
+
+export async function fxReadBackupArchive(path: string): Promise<TBackupEntries> {
+  const files = await new Bun.Archive(await Bun.file(path).bytes()).files();
+  const entries: TBackupEntries = {};
+  for (const [name, file] of files) {
+    entries[name] = await file.bytes();
+  }
+  return entries;
+}
+
+/**
+ * Archives in `dir` named like the ones `vibecanvas backup` writes, newest first. Other files in the
+ * directory are never listed, so pruning cannot touch them.
+ */
+export async function fxListBackupArchives(portal: Pick<TBackupArchivePortal, 'join' | 'readdir' | 'stat'>, dir: string): Promise<TBackupArchiveInfo[]> {
+  let names: string[];
+  try {
+    names = await portal.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const archives: TBackupArchiveInfo[] = [];
+  for (const name of names) {
+    if (!name.startsWith(BACKUP_ARCHIVE_PREFIX) || !name.endsWith(BACKUP_ARCHIVE_SUFFIX)) continue;
+    const path = portal.join(dir, name);
+    const info = await portal.stat(path);
+    if (!info.isFile()) continue;
+    archives.push({ name, path, bytes: info.size, modifiedAt: info.mtime.toISOString(), scheduled: name.endsWith(SCHEDULED_BACKUP_ARCHIVE_SUFFIX) });
+  }
+
+  return archives.sort((a, b) => b.name.localeCompare(a.name));
+}
+
+/**
+ * Deletes the oldest scheduled archives beyond `keep`. Archives written by `vibecanvas backup` are
+ * left alone.
+ */
+export async function fxPruneBackupArchives(portal: Pick<TBackupArchivePortal, 'join' | 'readdir' | 'stat' | 'rm'>, dir: string, keep: number): Promise<string[]> {
+  const stale = (await fxListBackupArchives(portal, dir)).filter((archive) => archive.scheduled).slice(keep);
+  for (const archive of stale) {
+    await portal.rm(archive.path, { force: true });
+  }
+  return stale.map((archive) => archive.path);
+}
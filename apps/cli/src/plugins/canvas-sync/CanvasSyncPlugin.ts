@@ -0,0 +1,186 @@
+import type { AutomergeUrl, DocHandle } from '@automerge/automerge-repo';
+import { txExecuteCanvasSync } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.sync';
+import type { IPlugin } from '@vibecanvas/runtime';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService, TCanvasFileSyncRecord } from '@vibecanvas/service-db/IDbService';
+import type { IFilesystemService } from '@vibecanvas/service-filesystem/IFilesystemService';
+import type { TFilesystemWatchEvent } from '@vibecanvas/service-filesystem/types';
+import { basename, dirname } from 'node:path';
+import type { ICliConfig } from '../../config';
+import type { ICliHooks } from '../../hooks';
+
+// Filesystem watches expire after 60s without a keepalive; refreshing also picks up new bindings.
+const REFRESH_MS = 20 * 1000;
+// Editors and the canvas emit bursts of changes; one sync per burst is enough.
+const DEBOUNCE_MS = 300;
+const SESSION = 'canvas-sync';
+
+type TSyncWatch = {
+  key: string;
+  filesystemId: string;
+  watchId: string;
+  handle: DocHandle<unknown> | null;
+  iterator: AsyncIterator<TFilesystemWatchEvent> | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: Promise<void>;
+  onChange: () => void;
+};
+
+function bindingKey(binding: TCanvasFileSyncRecord): string {
+  return `${binding.filesystem_id}:${binding.path}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : (error as { message?: string })?.message ?? String(error);
+}
+
+function createCanvasSyncPlugin(): IPlugin<{ db: IDbService; automerge: IAutomergeService; filesystem: IFilesystemService }, ICliHooks, ICliConfig> {
+  return {
+    name: 'canvas-sync',
+    apply(ctx) {
+      if (ctx.config.command !== 'serve' || ctx.config.helpRequested || ctx.config.versionRequested) {
+        return;
+      }
+
+      const watches = new Map<string, TSyncWatch>();
+      // Last conflict or error reported per canvas, so a stuck binding is logged once rather than on every change.
+      const lastReports = new Map<string, string>();
+      let refreshTimer: ReturnType<typeof setInterval> | null = null;
+      let stopped = false;
+
+      const portal = () => ({
+        dbService: ctx.services.require('db'),
+        automergeService: ctx.services.require('automerge'),
+        filesystemService: ctx.services.require('filesystem'),
+      });
+
+      const report = (canvasId: string, message: string, log: (message: string) => void) => {
+        if (lastReports.get(canvasId) === message) return;
+        lastReports.set(canvasId, message);
+        log(message);
+      };
+
+      const runSync = (canvasId: string, watch: TSyncWatch) => {
+        watch.running = watch.running.then(async () => {
+          if (stopped) return;
+          try {
+            const result = await txExecuteCanvasSync(portal(), { canvasId, session: SESSION });
+            if (result.action === 'conflict') {
+              report(canvasId, `[CanvasSync] Conflict on '${result.canvas.name}': the canvas and ${result.path} both changed (${result.changedIds.length} ids). Resolve with: vibecanvas canvas sync --canvas ${canvasId} --keep canvas|file`, console.warn);
+              return;
+            }
+            lastReports.delete(canvasId);
+            if (result.action === 'wrote-file') console.log(`[CanvasSync] Wrote '${result.canvas.name}' to ${result.path} (${result.changedIds.length} changed)`);
+            if (result.action === 'applied-file') console.log(`[CanvasSync] Applied ${result.path} to '${result.canvas.name}' (${result.changedIds.length} changed)`);
+          } catch (error) {
+            report(canvasId, `[CanvasSync] Sync failed for canvas ${canvasId}: ${errorMessage(error)}`, console.error);
+          }
+        });
+      };
+
+      const scheduleSync = (canvasId: string, watch: TSyncWatch) => {
+        if (watch.timer) clearTimeout(watch.timer);
+        watch.timer = setTimeout(() => {
+          watch.timer = null;
+          runSync(canvasId, watch);
+        }, DEBOUNCE_MS);
+      };
+
+      const stopWatch = (canvasId: string, watch: TSyncWatch) => {
+        watches.delete(canvasId);
+        if (watch.timer) clearTimeout(watch.timer);
+        watch.handle?.off('change', watch.onChange);
+        ctx.services.require('filesystem').unwatch(watch.filesystemId, watch.watchId);
+        void watch.iterator?.return?.();
+      };
+
+      const consumeFileEvents = async (binding: TCanvasFileSyncRecord, watch: TSyncWatch) => {
+        const fileName = basename(binding.path);
+        while (watch.iterator && watches.get(binding.canvas_id) === watch) {
+          const next = await watch.iterator.next();
+          if (next.done) return;
+          if (next.value.fileName === fileName) scheduleSync(binding.canvas_id, watch);
+        }
+      };
+
+      const startWatch = async (binding: TCanvasFileSyncRecord) => {
+        const watch: TSyncWatch = {
+          key: bindingKey(binding),
+          filesystemId: binding.filesystem_id,
+          watchId: `${SESSION}:${binding.canvas_id}:${crypto.randomUUID()}`,
+          handle: null,
+          iterator: null,
+          timer: null,
+          running: Promise.resolve(),
+          onChange: () => scheduleSync(binding.canvas_id, watch),
+        };
+        watches.set(binding.canvas_id, watch);
+
+        const canvas = ctx.services.require('db').getFullCanvas(binding.canvas_id)?.canvas;
+        if (!canvas) return;
+        watch.handle = await ctx.services.require('automerge').repo.find(canvas.automerge_url as AutomergeUrl);
+        if (watches.get(binding.canvas_id) !== watch) return;
+        watch.handle.on('change', watch.onChange);
+
+        // The directory is watched so editors that save by replacing the file are still seen.
+        try {
+          const events = ctx.services.require('filesystem').watch(binding.filesystem_id, dirname(binding.path), watch.watchId);
+          watch.iterator = events?.[Symbol.asyncIterator]() ?? null;
+        } catch (error) {
+          report(binding.canvas_id, `[CanvasSync] Cannot watch ${dirname(binding.path)}: ${errorMessage(error)}`, console.error);
+        }
+        if (watch.iterator) {
+          void consumeFileEvents(binding, watch).catch((error) => {
+            report(binding.canvas_id, `[CanvasSync] Stopped watching ${binding.path}: ${errorMessage(error)}`, console.error);
+          });
+        }
+
+        // Catches up on changes made to either side while the server was not running.
+        scheduleSync(binding.canvas_id, watch);
+      };
+
+      const refresh = async () => {
+        const filesystem = ctx.services.require('filesystem');
+        const bindings = new Map(ctx.services.require('db').canvasFileSync.listAll().map((binding) => [binding.canvas_id, binding]));
+
+        for (const [canvasId, watch] of watches) {
+          const binding = bindings.get(canvasId);
+          // A failed keepalive means the watch ended, e.g. the directory was removed; start over to retry.
+          if (!binding || bindingKey(binding) !== watch.key || !filesystem.keepalive(watch.filesystemId, watch.watchId)) {
+            stopWatch(canvasId, watch);
+          }
+        }
+
+        for (const binding of bindings.values()) {
+          if (stopped) return;
+          if (!watches.has(binding.canvas_id)) await startWatch(binding);
+        }
+      };
+
+      const safeRefresh = async () => {
+        try {
+          await refresh();
+        } catch (error) {
+          console.error(`[CanvasSync] Refresh failed: ${errorMessage(error)}`);
+        }
+      };
+
+      ctx.hooks.ready.tapPromise(async () => {
+        await safeRefresh();
+        if (watches.size > 0) console.log(`[CanvasSync] Syncing ${watches.size} canvas${watches.size === 1 ? '' : 'es'} with files`);
+        refreshTimer = setInterval(() => void safeRefresh(), REFRESH_MS);
+      });
+
+      ctx.hooks.shutdown.tapPromise(async () => {
+        stopped = true;
+        if (refreshTimer) clearInterval(refreshTimer);
+        refreshTimer = null;
+        const pending = [...watches.values()].map((watch) => watch.running);
+        for (const [canvasId, watch] of [...watches]) stopWatch(canvasId, watch);
+        await Promise.allSettled(pending);
+      });
+    },
+  };
+}
+
+export { createCanvasSyncPlugin };
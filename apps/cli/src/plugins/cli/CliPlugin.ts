@@ -1,11 +1,16 @@
 import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import type { IEventPublisherService } from '@vibecanvas/service-event-publisher/IEventPublisherService';
+import type { IFilesystemService } from '@vibecanvas/service-filesystem/IFilesystemService';
+import type { IPtyService } from '@vibecanvas/service-pty/IPtyService';
 import type { IPlugin } from '@vibecanvas/runtime';
 import type { ICliConfig } from '../../config';
 import type { ICliHooks } from '../../hooks';
+import { printBackupHelp, runBackupCommand } from './cmds/cmd.backup';
 import { runCanvasCommand, printCanvasCommandHelp, printCanvasHelp } from './cmds/cmd.canvas';
 import { printCanvasAddSchema } from './cmds/cmd.canvas.add';
 import { printCanvasPatchSchema } from './cmds/cmd.canvas.patch';
+import { printMcpHelp, runMcpCommand } from './cmds/cmd.mcp';
 import { txCmdUpgrade } from './cmds/cmd.upgrade';
 import { CANVAS_SUBCOMMAND_SET } from './core/constants';
 import { fnBuildUnknownCommandError, fnPrintCommandError } from './core/fn.print-command-result';
@@ -20,6 +25,8 @@ Commands:
   serve     Start the vibecanvas runtime (default when no command given)
   upgrade   Check for and install updates
   canvas    Canvas command surface
+  mcp       Serve canvas, filesystem, and terminal tools over MCP stdio
+  backup    Back up or restore all canvases and images as one archive
 
 Options:
   --port <number>      Port for server/runtime (default: 3000 dev, 7496 compiled)
@@ -34,6 +41,9 @@ Examples:
   vibecanvas serve --db ./tmp/dev.sqlite
   vibecanvas canvas --help
   vibecanvas query --help
+  vibecanvas mcp
+  vibecanvas backup
+  vibecanvas backup restore --file ./vibecanvas-backup.tar.gz
   vibecanvas upgrade
   vibecanvas upgrade --check
   vibecanvas --version
@@ -48,6 +58,28 @@ Canvas subcommands:
   ungroup   Ungroup a group
   delete    Permanently delete element/group ids (cascades groups to descendants)
   reorder   Change stacking order (front/back/forward/backward)
+  connect   Create an arrow/line bound to two elements
+  export    Render a canvas or selection to SVG, PNG, Excalidraw, or JSON Canvas
+  import    Import an Excalidraw or JSON Canvas file into a new or existing canvas
+  export-doc Export one canvas with history and images as a .vibecanvas file
+  import-doc Import a .vibecanvas file as a new canvas
+  diagram   Lay out Mermaid or DOT source as grouped shapes and arrows
+  layout    Arrange matched elements as a grid, row, column, tree, or layered graph
+  align     Align matched elements to an edge or center of their bounds
+  distribute Space matched elements with equal gaps horizontally or vertically
+  undo      Revert the latest change made by this CLI session
+  redo      Reapply the latest change this CLI session undid
+  history   List the canvas version history grouped by time and actor
+  restore   Restore a canvas or selected ids to a point in its history
+  diff      Compare two versions of a canvas, or a canvas with another canvas
+  create    Create a new, empty canvas
+  rename    Give a canvas a new name
+  remove    Delete a canvas with its history, after confirming
+  duplicate Copy a canvas, including its image files, into a new canvas
+  fork      Create a copy that shares history and can be merged back
+  merge     Merge a fork's changes back into the canvas it was forked from
+  watch     Stream canvas changes and selections as NDJSON events
+  sync      Keep a canvas in two-way sync with a JSON file
 
 Help ladder:
   1. vibecanvas --help
@@ -69,7 +101,7 @@ function isCanvasSchemaOnlyRequest(config: ICliConfig): boolean {
     && (config.subcommand === 'add' || config.subcommand === 'patch');
 }
 
-function createCliPlugin(): IPlugin<{ db: IDbService, automerge: IAutomergeService }, ICliHooks, ICliConfig> {
+function createCliPlugin(): IPlugin<{ db: IDbService, automerge: IAutomergeService, eventPublisher: IEventPublisherService, filesystem: IFilesystemService, pty: IPtyService }, ICliHooks, ICliConfig> {
   return {
     name: 'cli',
     apply(ctx) {
@@ -95,6 +127,18 @@ function createCliPlugin(): IPlugin<{ db: IDbService, automerge: IAutomergeServi
           return;
         }
 
+        if (ctx.config.helpRequested && ctx.config.command === 'mcp') {
+          printMcpHelp();
+          process.exitCode = 0;
+          return;
+        }
+
+        if (ctx.config.helpRequested && ctx.config.command === 'backup') {
+          printBackupHelp();
+          process.exitCode = 0;
+          return;
+        }
+
         if (ctx.config.helpRequested && ctx.config.command !== 'canvas') {
           printHelp();
           process.exitCode = 0;
@@ -142,7 +186,23 @@ function createCliPlugin(): IPlugin<{ db: IDbService, automerge: IAutomergeServi
         }
 
         if (ctx.config.command === 'canvas') {
-          await runCanvasCommand({ db: ctx.services.require('db'), automerge: ctx.services.require('automerge') }, ctx.config);
+          await runCanvasCommand({ db: ctx.services.require('db'), automerge: ctx.services.require('automerge'), filesystem: ctx.services.require('filesystem') }, ctx.config);
+          return;
+        }
+
+        if (ctx.config.command === 'backup') {
+          await runBackupCommand({ db: ctx.services.require('db'), automerge: ctx.services.require('automerge') }, ctx.config);
+          return;
+        }
+
+        if (ctx.config.command === 'mcp') {
+          await runMcpCommand({
+            automerge: ctx.services.require('automerge'),
+            db: ctx.services.require('db'),
+            eventPublisher: ctx.services.require('eventPublisher'),
+            filesystem: ctx.services.require('filesystem'),
+            pty: ctx.services.require('pty'),
+          }, ctx.config);
           return;
         }
       });
@@ -53,6 +53,9 @@ const CANVAS_ADD_HELP_EXAMPLES = {
   elementsFile: 'vibecanvas add --canvas <canvas-id> --elements-file ./elements.json --json',
   shorthandRect: 'vibecanvas add --canvas <canvas-id> --rect 40,20,160,90 --json',
   shorthandText: 'vibecanvas add --canvas <canvas-id> --text 240,32,hello --json',
+  shorthandSticky: 'vibecanvas add --canvas <canvas-id> --sticky 40,140,"Try a dark theme" --color pink --json',
+  shorthandMarkdown: 'vibecanvas add --canvas <canvas-id> --markdown 40,360,"**Ship** it, see [docs](https://example.com)" --json',
+  shorthandNote: 'vibecanvas add --canvas <canvas-id> --note 480,40,"$(cat summary.md)" --json',
 };
 
 const CANVAS_PATCH_HELP_EXAMPLES = {
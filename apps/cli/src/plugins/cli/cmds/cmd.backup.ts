@@ -0,0 +1,189 @@
+import { mkdir, readdir, readFile, rm, stat } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import { fxExecuteWorkspaceBackup } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.backup';
+import { txExecuteRestoreBackup, type TBackupConflictMode, type TRestoreBackupSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.restore-backup';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnBackupArchiveName, fxListBackupArchives, fxReadBackupArchive, fxReadBackupSettings, fxWriteBackupArchive } from '../../backup/fx.backup-archive';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDiscoverLocalCanvasServer } from '../core/fx.canvas.server-discovery';
+
+export const BACKUP_SUBCOMMANDS = ['create', 'restore', 'list'] as const;
+
+const fsPortal = { dirname, join, mkdir, readdir, readFile, rm, stat };
+
+export function printBackupHelp(): void {
+  console.log(`Usage: vibecanvas backup [create|restore|list] [options]
+
+Back up every canvas, with its full history, and every uploaded image to one portable archive,
+or restore such an archive into this or another data directory.
+
+Subcommands:
+  create                    Write a new archive (default)
+  restore                   Restore canvases and images from an archive
+  list                      List archives in the backup directory, newest first
+
+Create options:
+  --out <path>              Archive path (default: <backup dir>/vibecanvas-backup-<timestamp>.tar.gz)
+
+Restore options:
+  --file <path>             Archive to restore (required)
+  --on-conflict <mode>      skip | rename | replace | merge (default: skip)
+  --dry-run                 Report what would be restored without writing anything
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Conflicts:
+  An archived canvas conflicts with an existing one sharing its id, name, or document.
+  skip      keep the existing canvas and leave the archived one out
+  rename    restore the archived canvas next to it under a numbered name
+  replace   delete the existing canvas and restore the archived one in its place
+  merge     fold the archived history into the same canvas; conflicts with a different canvas are renamed
+
+Scheduled backups:
+  While 'vibecanvas serve' runs, archives can be written on a schedule. Configure them in
+  <config dir>/config.json. They are named vibecanvas-backup-<timestamp>.scheduled.tar.gz, and only
+  the oldest of those beyond 'keep' are deleted; archives written by create are never pruned:
+    { "backups": { "enabled": true, "intervalHours": 24, "keep": 7, "dir": "/path/to/backups" } }
+  'dir' defaults to <data dir>/backups, which is also where create writes and list looks.
+
+Notes:
+  - archives are .tar.gz files holding manifest.json, canvases/<id>.automerge, and files/<id>.<ext>.
+  - filesystem rows are machine-specific and are not backed up.
+  - restore refuses to run while a vibecanvas server is using the database; stop it or pass --db.
+
+Examples:
+  vibecanvas backup
+  vibecanvas backup create --out ./vibecanvas.tar.gz
+  vibecanvas backup restore --file ./vibecanvas.tar.gz --dry-run
+  vibecanvas backup restore --file ./vibecanvas.tar.gz --on-conflict rename --db ./fresh.sqlite
+  vibecanvas backup list --json
+`);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function printRestoreText(result: TRestoreBackupSuccess, path: string): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  const counts = new Map<string, number>();
+  for (const canvas of result.canvases) counts.set(canvas.action, (counts.get(canvas.action) ?? 0) + 1);
+  const summary = [...counts].map(([action, count]) => `${action}=${count}`).join(' ') || 'no canvases';
+  process.stdout.write(`Restored ${path} (${summary}, files created=${result.files.created} existing=${result.files.existing})\n`);
+  for (const canvas of result.canvases) {
+    const conflicts = canvas.conflicts.length > 0 ? ` conflicts=${canvas.conflicts.map((conflict) => JSON.stringify(conflict.name)).join(',')}` : '';
+    process.stdout.write(`- ${canvas.action} name=${JSON.stringify(canvas.name)} id=${canvas.id ?? '-'}${conflicts}\n`);
+  }
+  process.exitCode = 0;
+}
+
+async function runBackupCreate(services: { db: IDbService; automerge: IAutomergeService }, config: ICliConfig, wantsJson: boolean): Promise<void> {
+  const settings = await fxReadBackupSettings(fsPortal, config);
+  const path = config.subcommandOptions?.out ? resolve(config.subcommandOptions.out) : join(settings.dir, fnBackupArchiveName(new Date()));
+
+  const { entries, manifest, ...result } = await fxExecuteWorkspaceBackup({ dbService: services.db, automergeService: services.automerge }, { appVersion: config.version });
+  let bytes: number;
+  try {
+    bytes = await fxWriteBackupArchive(fsPortal, path, entries);
+  } catch (error) {
+    throw {
+      ok: false,
+      command: 'backup.create',
+      code: 'BACKUP_WRITE_FAILED',
+      message: `Failed to write backup to '${path}': ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  if (wantsJson) {
+    fnPrintCommandResult({ ...result, version: manifest.version, createdAt: manifest.createdAt }, true, { path, bytes });
+    return;
+  }
+
+  process.stdout.write(`Backed up ${result.canvasCount} canvases and ${result.fileCount} images to ${path} (${formatBytes(bytes)})\n`);
+  for (const skipped of result.skipped) {
+    process.stdout.write(`- skipped name=${JSON.stringify(skipped.name)} id=${skipped.id}: ${skipped.reason}\n`);
+  }
+  process.exitCode = 0;
+}
+
+async function runBackupRestore(services: { db: IDbService; automerge: IAutomergeService }, config: ICliConfig, wantsJson: boolean): Promise<void> {
+  const options = config.subcommandOptions;
+  if (!options?.file) {
+    throw { ok: false, command: 'backup.restore', code: 'BACKUP_FILE_REQUIRED', message: 'Pass the archive to restore with --file <path>.' };
+  }
+
+  // The server keeps canvas documents in memory, so restoring underneath it could be overwritten.
+  if (!config.rawArgv.includes('--db') && await fxDiscoverLocalCanvasServer({ bun: Bun }, { config })) {
+    throw { ok: false, command: 'backup.restore', code: 'BACKUP_SERVER_RUNNING', message: 'A vibecanvas server is running. Stop it before restoring, or pass --db to restore into another database.' };
+  }
+
+  const path = resolve(options.file);
+  let entries;
+  try {
+    entries = await fxReadBackupArchive(path);
+  } catch (error) {
+    throw {
+      ok: false,
+      command: 'backup.restore',
+      code: 'BACKUP_FILE_UNREADABLE',
+      message: `Failed to read backup archive '${path}': ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const result = await txExecuteRestoreBackup({ dbService: services.db, automergeService: services.automerge, crypto }, {
+    entries,
+    onConflict: options.onConflict as TBackupConflictMode | undefined,
+    dryRun: options.dryRun,
+  });
+
+  if (wantsJson) {
+    fnPrintCommandResult(result, true, { path });
+    return;
+  }
+  printRestoreText(result, path);
+}
+
+async function runBackupList(config: ICliConfig, wantsJson: boolean): Promise<void> {
+  const settings = await fxReadBackupSettings(fsPortal, config);
+  const archives = await fxListBackupArchives(fsPortal, settings.dir);
+
+  if (wantsJson) {
+    fnPrintCommandResult({ ok: true, command: 'backup.list', dir: settings.dir, scheduled: settings.enabled, archives }, true);
+    return;
+  }
+
+  process.stdout.write(`Backups in ${settings.dir} (scheduled: ${settings.enabled ? `every ${settings.intervalHours}h, keep ${settings.keep}` : 'off'})\n`);
+  if (archives.length === 0) process.stdout.write(`- none\n`);
+  for (const archive of archives) {
+    process.stdout.write(`- ${archive.name} ${formatBytes(archive.bytes)} ${archive.modifiedAt}\n`);
+  }
+  process.exitCode = 0;
+}
+
+export async function runBackupCommand(services: { db: IDbService; automerge: IAutomergeService }, config: ICliConfig): Promise<void> {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const subcommand = config.subcommand ?? 'create';
+    if (subcommand === 'create') return await runBackupCreate(services, config, wantsJson);
+    if (subcommand === 'restore') return await runBackupRestore(services, config, wantsJson);
+    if (subcommand === 'list') return await runBackupList(config, wantsJson);
+    throw {
+      ok: false,
+      command: 'backup',
+      code: 'BACKUP_SUBCOMMAND_UNKNOWN',
+      message: `Unknown backup command '${subcommand}'.`,
+      hint: `Available backup subcommands: ${BACKUP_SUBCOMMANDS.join(', ')}.`,
+      next: 'Try: vibecanvas backup --help',
+    };
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
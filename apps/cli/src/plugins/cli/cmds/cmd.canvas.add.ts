@@ -29,6 +29,13 @@ Element source (choose exactly one):
   --text <x,y,text>         Shorthand text element (repeatable)
   --line <x,y,x2,y2>        Shorthand line element (repeatable)
   --arrow <x,y,x2,y2>       Shorthand arrow element (repeatable)
+  --sticky <x,y,text>       Shorthand sticky note that grows to fit its text (repeatable)
+  --markdown <x,y,markdown> Shorthand rich text element from markdown (repeatable)
+  --note <x,y,markdown>     Shorthand markdown note widget with tables, task lists, and code blocks (repeatable)
+
+Sticky note options:
+  --color <name>            Palette color for --sticky notes: yellow | orange | pink | purple | blue | green
+  --author <name>           Author shown in the note footer (defaults to the session id)
 
 Notes on ids:
   - do not pass element ids from agents for add flows.
@@ -42,9 +49,12 @@ Examples:
   ${CANVAS_ADD_HELP_EXAMPLES.elementsFile}
   ${CANVAS_ADD_HELP_EXAMPLES.shorthandRect}
   ${CANVAS_ADD_HELP_EXAMPLES.shorthandText}
+  ${CANVAS_ADD_HELP_EXAMPLES.shorthandSticky}
+  ${CANVAS_ADD_HELP_EXAMPLES.shorthandMarkdown}
+  ${CANVAS_ADD_HELP_EXAMPLES.shorthandNote}
 
 Supported types:
-  rect | ellipse | diamond | text | line | arrow
+  rect | ellipse | diamond | text | line | arrow | sticky | note
 
 ${fxRenderCanvasAddContracts()}
 
@@ -64,6 +74,11 @@ Notes:
   - file/stdin sources must be a JSON array of element payload objects.
   - shorthand flags must use exact comma counts with no empty numeric segments.
   - --text shorthand must be exactly x,y,text.
+  - --sticky shorthand must be x,y,text; the text may contain commas and newlines.
+  - --markdown shorthand must be x,y,markdown; the markdown may contain commas and newlines.
+  - markdown supports **bold**, *italic*, \`code\`, ~~strike~~, [links](https://...), # headings, - bullets, and 1. numbered items.
+  - --note shorthand must be x,y,markdown; notes also render - [ ] task lists, | pipe | tables, and \`\`\`lang fenced code with highlighting.
+  - sticky notes without data.author get --author, else the session id, as their author.
   - shorthand flags can be mixed with each other, but not with --element/--elements-file/--elements-stdin.${args?.schema ? `
 
 ${renderCanvasCommandSchema({ doc: 'add', filter: args.schema })}` : ''}
@@ -172,6 +187,57 @@ function parseTextShorthands(values: string[], options: ICliConfig['subcommandOp
   });
 }
 
+function parseStickyShorthands(values: string[], options: ICliConfig['subcommandOptions']): TCanvasAddElementInput[] {
+  return values.map((value) => {
+    const firstComma = value.indexOf(',');
+    const secondComma = firstComma < 0 ? -1 : value.indexOf(',', firstComma + 1);
+    if (firstComma < 0 || secondComma < 0) {
+      throw buildAddSourceError(options, 'CANVAS_ADD_SHORTHAND_INVALID', '--sticky shorthand must be x,y,text.');
+    }
+    const x = Number(value.slice(0, firstComma).trim());
+    const y = Number(value.slice(firstComma + 1, secondComma).trim());
+    const text = value.slice(secondComma + 1);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || text.trim().length === 0) {
+      throw buildAddSourceError(options, 'CANVAS_ADD_SHORTHAND_INVALID', '--sticky shorthand must be exactly x,y,text with non-empty text.');
+    }
+    return { type: 'sticky', x, y, data: options?.color === undefined ? { text } : { text, color: options.color } };
+  });
+}
+
+function parseMarkdownShorthands(values: string[], options: ICliConfig['subcommandOptions']): TCanvasAddElementInput[] {
+  return values.map((value) => {
+    const firstComma = value.indexOf(',');
+    const secondComma = firstComma < 0 ? -1 : value.indexOf(',', firstComma + 1);
+    if (firstComma < 0 || secondComma < 0) {
+      throw buildAddSourceError(options, 'CANVAS_ADD_SHORTHAND_INVALID', '--markdown shorthand must be x,y,markdown.');
+    }
+    const x = Number(value.slice(0, firstComma).trim());
+    const y = Number(value.slice(firstComma + 1, secondComma).trim());
+    const markdown = value.slice(secondComma + 1);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || markdown.trim().length === 0) {
+      throw buildAddSourceError(options, 'CANVAS_ADD_SHORTHAND_INVALID', '--markdown shorthand must be exactly x,y,markdown with non-empty markdown.');
+    }
+    return { type: 'text', x, y, data: { markdown } };
+  });
+}
+
+function parseNoteShorthands(values: string[], options: ICliConfig['subcommandOptions']): TCanvasAddElementInput[] {
+  return values.map((value) => {
+    const firstComma = value.indexOf(',');
+    const secondComma = firstComma < 0 ? -1 : value.indexOf(',', firstComma + 1);
+    if (firstComma < 0 || secondComma < 0) {
+      throw buildAddSourceError(options, 'CANVAS_ADD_SHORTHAND_INVALID', '--note shorthand must be x,y,markdown.');
+    }
+    const x = Number(value.slice(0, firstComma).trim());
+    const y = Number(value.slice(firstComma + 1, secondComma).trim());
+    const markdown = value.slice(secondComma + 1);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || markdown.trim().length === 0) {
+      throw buildAddSourceError(options, 'CANVAS_ADD_SHORTHAND_INVALID', '--note shorthand must be exactly x,y,markdown with non-empty markdown.');
+    }
+    return { type: 'note', x, y, data: { markdown } };
+  });
+}
+
 function parseLineLikeShorthands(values: string[], options: ICliConfig['subcommandOptions'], type: 'line' | 'arrow'): TCanvasAddElementInput[] {
   return values.map((value) => {
     const [x, y, x2, y2] = parseCommaNumbers(value, 4, options, `--${type}`);
@@ -187,6 +253,9 @@ function readShorthandElements(options: ICliConfig['subcommandOptions']): TCanva
     ...parseTextShorthands(options?.texts ?? [], options),
     ...parseLineLikeShorthands(options?.lines ?? [], options, 'line'),
     ...parseLineLikeShorthands(options?.arrows ?? [], options, 'arrow'),
+    ...parseStickyShorthands(options?.stickies ?? [], options),
+    ...parseMarkdownShorthands(options?.markdowns ?? [], options),
+    ...parseNoteShorthands(options?.notes ?? [], options),
   ];
 }
 
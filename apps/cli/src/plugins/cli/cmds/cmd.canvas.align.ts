@@ -0,0 +1,91 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasAlign, type TCanvasAlignSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.align';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasAlignInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasAlignHelp(): void {
+  console.log(`Usage: vibecanvas canvas align [selector] <target selectors> --mode <mode> [options]
+
+Align the matched elements and groups of one canvas to an edge or center of their combined bounds.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Target selectors (required, same inputs as canvas query):
+  --id <id>                 Match exact element/group ids (repeatable)
+  --kind <kind>             element | group (repeatable)
+  --type <type>             Match persisted element types only (repeatable)
+  --style <key=value>       Match exact persisted element style values (repeatable)
+  --group <group-id>        Match direct children of one parent group
+  --subtree <group-id>      Match the root group plus all nested descendants
+  --frame <frame-id>        Match elements adopted by one frame
+  --bounds <x,y,w,h>        Match computed persisted bounds
+  --bounds-mode <mode>      intersects | contains (default: intersects)
+  --where <querystring>     Same selector fields encoded as query params
+  --query <json>            JSON object with { ids, kinds, types, style, group, subtree, frame, bounds, boundsMode }
+
+Align options:
+  --mode <mode>             left | center | right | top | middle | bottom (required)
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report proposed positions without writing them
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the align summary and one line per node with its old and new position.
+  JSON mode prints { ok, command, dryRun, canvas, mode, matchedCount, matchedIds, nodeCount, moves, changedCount, changedIds, bounds }.
+
+Notes:
+  - left/center/right move nodes horizontally; top/middle/bottom move them vertically.
+  - needs at least 2 nodes.
+  - a matched group moves as one node and its descendants move with it.
+  - ids nested inside another matched group follow that group instead of moving on their own.
+  - bound connectors and attached text are not nodes; they follow the shapes they are bound to.
+  - the whole change is applied as one document change; bound connectors are rerouted in the same change.
+
+Examples:
+  vibecanvas canvas align --canvas <id> --id a --id b --mode left
+  vibecanvas canvas align --canvas <id> --type rect --mode middle --dry-run
+  vibecanvas canvas align --canvas-name design --subtree group-root --mode top --json
+`);
+}
+
+function printCanvasAlignText(result: TCanvasAlignSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Align ${result.mode} matched=${result.matchedCount} nodes=${result.nodeCount} changed=${result.changedCount} canvas=${result.canvas.id}\n`);
+  for (const move of result.moves) {
+    process.stdout.write(`- ${move.kind} id=${move.id} ${move.from.x},${move.from.y} -> ${move.to.x},${move.to.y}\n`);
+  }
+  process.exitCode = 0;
+}
+
+export async function runCanvasAlignCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasAlignInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.align(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasAlign({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasAlignText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
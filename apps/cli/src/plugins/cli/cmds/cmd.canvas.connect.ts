@@ -0,0 +1,64 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { txExecuteCanvasConnect } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.connect';
+import { buildCanvasConnectInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasConnectHelp(): void {
+  console.log(`Usage: vibecanvas canvas connect [options]
+
+Create an arrow or line bound to two existing elements.
+
+Required canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Required endpoints:
+  --from <id>               Source element id (arrow start)
+  --to <id>                 Target element id (arrow end)
+
+Connector options:
+  --connector <type>        arrow | line (default: arrow)
+  --line-type <type>        straight | curved (default: straight)
+  --start-cap <cap>         none | arrow | dot | diamond (arrow only, default: none)
+  --end-cap <cap>           none | arrow | dot | diamond (arrow only, default: arrow)
+  --style <key=value>       Connector style override, e.g. strokeColor=#ef4444 (repeatable)
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Validate and preview the connector without mutating the canvas
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the connect summary.
+  JSON mode prints { ok, command, dryRun, canvas, sourceId, targetId, element }.
+
+Notes:
+  - anchors are picked from the element bounds: facing left/right edges when the elements are further apart horizontally, top/bottom edges otherwise.
+  - the connector stays bound: moving, resizing, rotating, or deleting either element re-routes it.
+  - rect, ellipse, diamond, frame, sticky, text, image, and widget elements can be connected; groups, pens, lines, and arrows cannot.
+`)
+}
+
+export async function runCanvasConnectCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasConnectInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.connect(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasConnect({ dbService: services.db, automergeService: services.automerge, crypto }, input),
+    });
+    fnPrintCommandResult(result, wantsJson);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,61 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasCreate, type TCanvasCreateSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.create';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasCreateInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasCreateHelp(): void {
+  console.log(`Usage: vibecanvas canvas create --name <name> [options]
+
+Create a new, empty canvas.
+
+Options:
+  --name <name>             Name of the canvas; must not be used by another canvas
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the new canvas id and name.
+  JSON mode prints { ok, command, canvas }.
+
+Notes:
+  - with a running server the canvas shows up in open sidebars right away.
+
+Examples:
+  vibecanvas canvas create --name scratch
+  vibecanvas canvas create --name "release plan" --json
+`);
+}
+
+function printCanvasCreateText(result: TCanvasCreateSuccess): void {
+  process.stdout.write(`Created canvas=${result.canvas.id} name=${JSON.stringify(result.canvas.name)}\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasCreateCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasCreateInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.create(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasCreate({ dbService: services.db, automergeService: services.automerge, crypto }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasCreateText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,121 @@
+import { readFile } from 'node:fs/promises';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasDiagram, type TCanvasDiagramSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.diagram';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasDiagramInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasDiagramHelp(): void {
+  console.log(`Usage: vibecanvas canvas diagram [selector] (--diagram <text> | --diagram-file <path> | --diagram-stdin) [options]
+
+Lay out a Mermaid flowchart or Graphviz DOT graph and add it to one canvas as a single group.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Diagram source (choose exactly one):
+  --diagram <text>          Inline Mermaid or DOT source
+  --diagram-file <path>     Read source from a file (.mmd/.mermaid or .dot/.gv set the format)
+  --diagram-stdin           Read source from stdin
+
+Diagram options:
+  --format <format>         mermaid | dot (default: inferred from the file extension or the source)
+  --x <number>              Left edge of the diagram (default: right of existing content)
+  --y <number>              Top edge of the diagram (default: top of existing content)
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Lay out and report generated elements without writing them
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the diagram summary and one line per generated element.
+  JSON mode prints { ok, command, dryRun, canvas, format, direction, nodeCount, edgeCount, addedCount, addedIds, groupId, bounds, elements }.
+
+Notes:
+  - Mermaid: flowchart/graph headers with TB, TD, BT, LR, or RL; [rect], (round), ((circle)), {diamond} nodes; -->, ---, -.->, ==>, ~~~ links with |labels|.
+  - DOT: graph/digraph with rankdir, node/edge defaults, label, shape, dir, arrowhead/arrowtail, and style=invis.
+  - styling statements (classDef, style, linkStyle, click) are ignored; subgraphs are flattened.
+  - each node becomes a rect, ellipse, or diamond with a bound text label; edges become arrows or lines bound to both nodes.
+  - element roles in output: node, label, edge, edge-label; keys are node ids or from->to for edges.
+
+Examples:
+  vibecanvas canvas diagram --canvas <id> --diagram 'flowchart LR; A[Request] --> B{Cached?}; B -->|yes| C[Return]'
+  vibecanvas canvas diagram --canvas <id> --diagram-file ./deps.dot --dry-run --json
+  cat flow.mmd | vibecanvas canvas diagram --canvas-name design --diagram-stdin --x 0 --y 600
+`);
+}
+
+function printCanvasDiagramText(result: TCanvasDiagramSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Diagram ${result.format} direction=${result.direction} nodes=${result.nodeCount} edges=${result.edgeCount} added=${result.addedCount} group=${result.groupId} canvas=${result.canvas.id}\n`);
+  for (const element of result.elements) {
+    process.stdout.write(`- ${element.role} key=${JSON.stringify(element.key)} id=${element.id} type=${element.type} x=${element.x} y=${element.y} w=${element.w} h=${element.h}\n`);
+  }
+  process.exitCode = 0;
+}
+
+function buildDiagramSourceError(options: ICliConfig['subcommandOptions'], code: string, message: string) {
+  return {
+    ok: false,
+    command: 'canvas.diagram',
+    code,
+    message,
+    canvasId: options?.canvasId ?? null,
+    canvasNameQuery: options?.canvasNameQuery ?? null,
+  };
+}
+
+async function readDiagramSource(config: ICliConfig): Promise<string> {
+  const options = config.subcommandOptions;
+  const sourceCount = Number(options?.diagram !== undefined) + Number(Boolean(options?.diagramFile)) + Number(Boolean(options?.diagramStdin));
+
+  if (sourceCount === 0) {
+    throw buildDiagramSourceError(options, 'CANVAS_DIAGRAM_SOURCE_REQUIRED', 'Diagram requires exactly one source: --diagram, --diagram-file, or --diagram-stdin.');
+  }
+
+  if (sourceCount > 1) {
+    throw buildDiagramSourceError(options, 'CANVAS_DIAGRAM_SOURCE_CONFLICT', 'Diagram accepts exactly one source: --diagram, --diagram-file, or --diagram-stdin.');
+  }
+
+  if (options?.diagram !== undefined) return options.diagram;
+
+  if (options?.diagramFile) {
+    try {
+      return await readFile(options.diagramFile, 'utf8');
+    } catch (readError) {
+      throw buildDiagramSourceError(options, 'CANVAS_DIAGRAM_FILE_UNREADABLE', `Failed to read '${options.diagramFile}': ${readError instanceof Error ? readError.message : String(readError)}`);
+    }
+  }
+
+  return new Response(Bun.stdin.stream()).text();
+}
+
+export async function runCanvasDiagramCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasDiagramInput(config.subcommandOptions, await readDiagramSource(config));
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.diagram(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasDiagram({ dbService: services.db, automergeService: services.automerge, crypto }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasDiagramText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,74 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fxExecuteCanvasDiff, type TCanvasDiffSuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.diff';
+import { fnFormatCanvasDiffEntry } from '@vibecanvas/canvas-cmds/core/fn.diff';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasDiffInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasDiffHelp(): void {
+  console.log(`Usage: vibecanvas canvas diff [selector] [options]
+
+Compare two versions of one canvas, or one canvas with another canvas.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --from <hash[,hash...]>   Heads of the version to compare from, as printed by canvas history
+  --to <hash[,hash...]>     Heads of the version to compare to (default: the current canvas)
+  --other-canvas <id>       Compare with the current state of another canvas instead
+  --other-canvas-name <query>
+                            Same, selecting the other canvas by unique name substring
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints one line per changed element or group: + added, - removed, ~ modified with its field changes.
+  JSON mode prints { ok, command, from, to, addedCount, removedCount, modifiedCount, addedIds, removedIds, modifiedIds, entries }.
+
+Notes:
+  - pass either --from (and optionally --to) or another canvas; with another canvas, --from picks the version of the selected canvas.
+  - ids are matched as-is, so comparing two canvases is most useful for copies of the same canvas.
+  - updatedAt is ignored; moving an element back and forth shows no change.
+
+Examples:
+  vibecanvas canvas diff --canvas <id> --from <hash>
+  vibecanvas canvas diff --canvas <id> --from <hash> --to <hash> --json
+  vibecanvas canvas diff --canvas-name draft --other-canvas-name final
+`);
+}
+
+function printCanvasDiffText(result: TCanvasDiffSuccess): void {
+  process.stdout.write(`Diff added=${result.addedCount} removed=${result.removedCount} modified=${result.modifiedCount} from=${result.from.canvas.id}@${result.from.heads.join(',')} to=${result.to.canvas.id}@${result.to.heads.join(',')}\n`);
+  for (const entry of result.entries) process.stdout.write(`${fnFormatCanvasDiffEntry(entry)}\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasDiffCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasDiffInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.diff(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => fxExecuteCanvasDiff({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasDiffText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
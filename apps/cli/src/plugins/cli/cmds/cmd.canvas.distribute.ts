@@ -0,0 +1,92 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasDistribute, type TCanvasDistributeSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.distribute';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasDistributeInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasDistributeHelp(): void {
+  console.log(`Usage: vibecanvas canvas distribute [selector] <target selectors> --axis <axis> [options]
+
+Spread the matched elements and groups of one canvas so the gaps between neighbours are equal.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Target selectors (required, same inputs as canvas query):
+  --id <id>                 Match exact element/group ids (repeatable)
+  --kind <kind>             element | group (repeatable)
+  --type <type>             Match persisted element types only (repeatable)
+  --style <key=value>       Match exact persisted element style values (repeatable)
+  --group <group-id>        Match direct children of one parent group
+  --subtree <group-id>      Match the root group plus all nested descendants
+  --frame <frame-id>        Match elements adopted by one frame
+  --bounds <x,y,w,h>        Match computed persisted bounds
+  --bounds-mode <mode>      intersects | contains (default: intersects)
+  --where <querystring>     Same selector fields encoded as query params
+  --query <json>            JSON object with { ids, kinds, types, style, group, subtree, frame, bounds, boundsMode }
+
+Distribute options:
+  --axis <axis>             horizontal | vertical (required)
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report proposed positions without writing them
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the distribute summary and one line per node with its old and new position.
+  JSON mode prints { ok, command, dryRun, canvas, axis, matchedCount, matchedIds, nodeCount, moves, changedCount, changedIds, bounds }.
+
+Notes:
+  - nodes are ordered by their centers; the first and last node keep their positions.
+  - the other axis is left untouched.
+  - needs at least 3 nodes.
+  - a matched group moves as one node and its descendants move with it.
+  - ids nested inside another matched group follow that group instead of moving on their own.
+  - bound connectors and attached text are not nodes; they follow the shapes they are bound to.
+  - the whole change is applied as one document change; bound connectors are rerouted in the same change.
+
+Examples:
+  vibecanvas canvas distribute --canvas <id> --id a --id b --id c --axis horizontal
+  vibecanvas canvas distribute --canvas <id> --type rect --axis vertical --dry-run
+  vibecanvas canvas distribute --canvas-name design --group group-root --axis horizontal --json
+`);
+}
+
+function printCanvasDistributeText(result: TCanvasDistributeSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Distribute ${result.axis} matched=${result.matchedCount} nodes=${result.nodeCount} changed=${result.changedCount} canvas=${result.canvas.id}\n`);
+  for (const move of result.moves) {
+    process.stdout.write(`- ${move.kind} id=${move.id} ${move.from.x},${move.from.y} -> ${move.to.x},${move.to.y}\n`);
+  }
+  process.exitCode = 0;
+}
+
+export async function runCanvasDistributeCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasDistributeInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.distribute(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasDistribute({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasDistributeText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
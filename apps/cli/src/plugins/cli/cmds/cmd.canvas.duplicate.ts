@@ -0,0 +1,66 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasDuplicate, type TCanvasDuplicateSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.duplicate';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasDuplicateInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasDuplicateHelp(): void {
+  console.log(`Usage: vibecanvas canvas duplicate [selector] [options]
+
+Copy one canvas into a new, independent canvas.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --name <name>             Name of the copy (default: '<name> copy', numbered when taken)
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the new canvas id and name with element, group, and image file counts.
+  JSON mode prints { ok, command, source, canvas, elementCount, groupCount, fileCount }.
+
+Notes:
+  - the copy starts a new history and cannot be merged back; use canvas fork for that.
+  - image files are copied, so deleting an image on one canvas leaves the other intact.
+
+Examples:
+  vibecanvas canvas duplicate --canvas <id>
+  vibecanvas canvas duplicate --canvas-name planning --name "planning v2" --json
+`);
+}
+
+function printCanvasDuplicateText(result: TCanvasDuplicateSuccess): void {
+  process.stdout.write(`Duplicated canvas=${result.canvas.id} name=${JSON.stringify(result.canvas.name)} from=${result.source.id} elements=${result.elementCount} groups=${result.groupCount} files=${result.fileCount}\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasDuplicateCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasDuplicateInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.duplicate(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasDuplicate({ dbService: services.db, automergeService: services.automerge, crypto }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasDuplicateText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,102 @@
+import { resolve } from 'node:path';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fxExecuteCanvasExportDoc, type TCanvasExportDocSuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export-doc';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasExportDocInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasExportDocHelp(): void {
+  console.log(`Usage: vibecanvas canvas export-doc [selector] [options]
+
+Export one canvas as a self-contained .vibecanvas file to mail, commit, or import elsewhere.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --out <path>              Write the file to this path instead of stdout
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  With --out, text mode prints a one-line summary and the file path.
+  Without --out, text mode writes the .vibecanvas JSON to stdout.
+  JSON mode prints { ok, command, canvas, fileName, mimeType, version, elementCount, groupCount, fileCount, missingFileUrls, path?, content? };
+  content is omitted when --out is given.
+
+Notes:
+  - the file holds the full Automerge document, history included, and every uploaded image the canvas uses.
+  - images whose file is no longer stored are listed in missingFileUrls and left out.
+  - import the file with: vibecanvas canvas import-doc --file <path>
+
+Examples:
+  vibecanvas canvas export-doc --canvas <id> --out ./roadmap.vibecanvas
+  vibecanvas canvas export-doc --canvas-name roadmap > roadmap.vibecanvas
+`);
+}
+
+function printCanvasExportDocText(result: TCanvasExportDocSuccess, path: string): void {
+  process.stdout.write(`Exported canvas ${JSON.stringify(result.canvas.name)} to ${path} (elements=${result.elementCount} groups=${result.groupCount} files=${result.fileCount})\n`);
+  for (const url of result.missingFileUrls) {
+    process.stdout.write(`- missing image file ${url}\n`);
+  }
+  process.exitCode = 0;
+}
+
+async function writeExportDocFile(result: TCanvasExportDocSuccess, path: string): Promise<void> {
+  try {
+    await Bun.write(path, result.content);
+  } catch (error) {
+    throw {
+      ok: false,
+      command: 'canvas.export-doc',
+      code: 'CANVAS_EXPORT_DOC_WRITE_FAILED',
+      message: `Failed to write canvas file to '${path}': ${error instanceof Error ? error.message : String(error)}`,
+      canvasId: result.canvas.id,
+      canvasNameQuery: null,
+    };
+  }
+}
+
+export async function runCanvasExportDocCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+  const outPath = config.subcommandOptions?.out ? resolve(config.subcommandOptions.out) : undefined;
+
+  try {
+    const input = buildCanvasExportDocInput(config.subcommandOptions, config.version);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.exportDoc(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => fxExecuteCanvasExportDoc({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (outPath) {
+      await writeExportDocFile(result, outPath);
+      if (wantsJson) {
+        const { content: _content, ...metadata } = result;
+        fnPrintCommandResult(metadata, true, { path: outPath });
+        return;
+      }
+      printCanvasExportDocText(result, outPath);
+      return;
+    }
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+
+    process.stdout.write(result.content);
+    process.exitCode = 0;
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
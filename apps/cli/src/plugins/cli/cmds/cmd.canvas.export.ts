@@ -0,0 +1,124 @@
+import { dirname, resolve } from 'node:path';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { fxExecuteCanvasExport, type TCanvasExportSuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export';
+import { buildCanvasExportInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasExportHelp(): void {
+  console.log(`Usage: vibecanvas canvas export [options]
+
+Render a canvas, or selected element/group ids, to a standalone SVG or PNG image, an Excalidraw file, or a JSON Canvas (Obsidian) file.
+
+Required canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Optional target selector:
+  --id <id>                 Export only this element/group id (repeatable); groups include their descendants,
+                            frames the elements dropped into them
+
+Export options:
+  --format <format>         svg | png | excalidraw | json-canvas (default: inferred from --out, else svg)
+  --scale <number>          Pixel scale, greater than 0 and at most 8 (default: 1; ignored for excalidraw)
+  --background <color>      Background color, or transparent (default: #ffffff; excalidraw: view background)
+  --padding <number>        Space around the exported content in canvas units (default: 16)
+  --out <path>              Write the image to a file instead of stdout
+  --vault <dir>             json-canvas: write file widget paths inside this folder relative to it (default: the --out folder)
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  With --out, text mode prints a one-line summary and the file path.
+  Without --out, text mode writes the SVG markup, Excalidraw JSON, or JSON Canvas JSON (or PNG bytes when stdout is not a terminal) to stdout.
+  JSON mode prints { ok, command, canvas, format, mimeType, elementIds, elementCount, bounds, width, height, encoding, path?, content? };
+  content is omitted when --out is given, otherwise it is utf8 SVG, utf8 Excalidraw or JSON Canvas JSON, or base64 PNG.
+
+Notes:
+  - export is readonly and renders headlessly from the stored canvas document.
+  - text attached to an exported shape is included automatically.
+  - frames export with their title; with clipChildren on, their contents are cut at the frame edge.
+  - uploaded images are embedded, so the SVG has no external references.
+  - widgets (terminal, file tree, file, browser) export as titled placeholder cards.
+  - PNG text uses fonts found in the system font directories.
+  - excalidraw output keeps element/group ids, groups, bound text, arrow bindings, and embedded images; widgets are left out.
+  - json-canvas output writes groups as group nodes, text and shapes as text nodes, file widgets as file nodes, browser widgets
+    as link nodes, and connectors bound on both ends as edges; images, pen strokes, and other widgets are left out.
+`)
+}
+
+function printCanvasExportText(result: TCanvasExportSuccess, path: string): void {
+  process.stdout.write(`Exported ${result.elementCount} elements from canvas ${JSON.stringify(result.canvas.name)} to ${path} (${result.format}, ${result.width}x${result.height})\n`);
+  process.exitCode = 0;
+}
+
+async function writeExportFile(result: TCanvasExportSuccess, path: string): Promise<void> {
+  try {
+    await Bun.write(path, result.encoding === 'base64' ? Buffer.from(result.content, 'base64') : result.content);
+  } catch (error) {
+    throw {
+      ok: false,
+      command: 'canvas.export',
+      code: 'CANVAS_EXPORT_WRITE_FAILED',
+      message: `Failed to write export to '${path}': ${error instanceof Error ? error.message : String(error)}`,
+      canvasId: result.canvas.id,
+      canvasNameQuery: null,
+    };
+  }
+}
+
+export async function runCanvasExportCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+  const outPath = config.subcommandOptions?.out ? resolve(config.subcommandOptions.out) : undefined;
+
+  try {
+    const vault = config.subcommandOptions?.vault;
+    const input = buildCanvasExportInput(config.subcommandOptions, vault ? resolve(vault) : outPath ? dirname(outPath) : undefined);
+
+    if (!wantsJson && !outPath && input.format === 'png' && process.stdout.isTTY) {
+      throw {
+        ok: false,
+        command: 'canvas.export',
+        code: 'CANVAS_EXPORT_OUT_REQUIRED',
+        message: 'PNG export needs --out <path> when stdout is a terminal.',
+        canvasId: input.canvasId ?? null,
+        canvasNameQuery: input.canvasNameQuery ?? null,
+      };
+    }
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.export(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => fxExecuteCanvasExport({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (outPath) {
+      await writeExportFile(result, outPath);
+      if (wantsJson) {
+        const { content: _content, ...metadata } = result;
+        fnPrintCommandResult(metadata, true, { path: outPath });
+        return;
+      }
+      printCanvasExportText(result, outPath);
+      return;
+    }
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+
+    process.stdout.write(result.encoding === 'base64' ? Buffer.from(result.content, 'base64') : `${result.content}\n`);
+    process.exitCode = 0;
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,67 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasFork, type TCanvasForkSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.fork';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasForkInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasForkHelp(): void {
+  console.log(`Usage: vibecanvas canvas fork [selector] [options]
+
+Fork one canvas: a new canvas that shares its history and can be merged back with canvas merge.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --name <name>             Name of the fork (default: '<name> fork', numbered when taken)
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the fork id and name, the canvas it was forked from, and element, group, and image file counts.
+  JSON mode prints { ok, command, source, canvas, forkedFromId, elementCount, groupCount, fileCount }.
+
+Notes:
+  - edit the fork with any canvas command, then review with canvas merge --dry-run before merging.
+  - image files are copied, so deleting an image on the fork leaves the original intact; merging keeps the
+    original's images on its own files.
+
+Examples:
+  vibecanvas canvas fork --canvas-name planning --name "planning experiment"
+  vibecanvas canvas fork --canvas <id> --json
+`);
+}
+
+function printCanvasForkText(result: TCanvasForkSuccess): void {
+  process.stdout.write(`Forked canvas=${result.canvas.id} name=${JSON.stringify(result.canvas.name)} from=${result.forkedFromId} elements=${result.elementCount} groups=${result.groupCount} files=${result.fileCount}\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasForkCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasForkInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.fork(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasFork({ dbService: services.db, automergeService: services.automerge, crypto }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasForkText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,72 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fxExecuteCanvasHistory, type TCanvasHistorySuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.history';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasHistoryInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasHistoryHelp(): void {
+  console.log(`Usage: vibecanvas canvas history [selector] [options]
+
+List the version history of one canvas, grouped by time and actor.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --limit <n>               Show only the newest n entries
+  --window <seconds>        Merge changes of one actor made within this many seconds (default: 300)
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints one line per entry, newest first, with its time range, actor, labels, and heads.
+  JSON mode prints { ok, command, canvas, heads, changeCount, groupCount, entries }.
+
+Notes:
+  - every entry ends with the heads of the canvas right after it; pass them to canvas restore --at.
+  - the actor is the change origin (cli:<session>, web:<client-id>) or, for untagged changes, the Automerge actor id.
+  - the oldest entry is the canvas creation.
+
+Examples:
+  vibecanvas canvas history --canvas <id>
+  vibecanvas canvas history --canvas-name design --limit 10 --json
+`);
+}
+
+function printCanvasHistoryText(result: TCanvasHistorySuccess): void {
+  process.stdout.write(`History changes=${result.changeCount} entries=${result.groupCount} shown=${result.entries.length} canvas=${result.canvas.id}\n`);
+  for (const entry of result.entries) {
+    const labels = entry.labels.length > 0 ? entry.labels.join(',') : '-';
+    process.stdout.write(`- ${entry.endTime} actor=${entry.origin ?? `actor:${entry.actor}`} changes=${entry.changeCount} labels=${labels} at=${entry.heads.join(',')}\n`);
+  }
+  process.exitCode = 0;
+}
+
+export async function runCanvasHistoryCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasHistoryInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.history(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => fxExecuteCanvasHistory({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasHistoryText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,89 @@
+import { readFile } from 'node:fs/promises';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasImportDoc, type TCanvasImportDocSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import-doc';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasImportDocInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasImportDocHelp(): void {
+  console.log(`Usage: vibecanvas canvas import-doc --file <path> [options]
+
+Import a .vibecanvas file written by canvas export-doc as a new canvas.
+
+Required source:
+  --file <path>             .vibecanvas file to import
+
+Options:
+  --name <name>             Name of the new canvas (default: the exported name, numbered when taken)
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Validate and report without creating the canvas or storing images
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the new canvas id and name with element, group, and image file counts.
+  JSON mode prints { ok, command, dryRun, canvas, source, renamed, elementCount, groupCount, fileCount }.
+
+Notes:
+  - the canvas keeps its full history; it gets a new id and document, so existing canvases are never touched.
+  - images are stored under new ids in the local file table.
+
+Examples:
+  vibecanvas canvas import-doc --file ./roadmap.vibecanvas
+  vibecanvas canvas import-doc --file ./roadmap.vibecanvas --name "roadmap v2" --json
+`);
+}
+
+function printCanvasImportDocText(result: TCanvasImportDocSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  const renamed = result.renamed ? ` (renamed from ${JSON.stringify(result.source.name)})` : '';
+  process.stdout.write(`Imported canvas=${result.canvas.id} name=${JSON.stringify(result.canvas.name)}${renamed} elements=${result.elementCount} groups=${result.groupCount} files=${result.fileCount}\n`);
+  process.exitCode = 0;
+}
+
+async function readImportDocContent(config: ICliConfig): Promise<string> {
+  const options = config.subcommandOptions;
+  const error = {
+    ok: false,
+    command: 'canvas.import-doc',
+    canvasId: null,
+    canvasNameQuery: null,
+  };
+
+  if (!options?.file) {
+    throw { ...error, code: 'CANVAS_IMPORT_DOC_FILE_REQUIRED', message: 'Import requires --file <path>.' };
+  }
+
+  try {
+    return await readFile(options.file, 'utf8');
+  } catch (readError) {
+    throw { ...error, code: 'CANVAS_IMPORT_DOC_FILE_UNREADABLE', message: `Failed to read '${options.file}': ${readError instanceof Error ? readError.message : String(readError)}` };
+  }
+}
+
+export async function runCanvasImportDocCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasImportDocInput(config.subcommandOptions, await readImportDocContent(config));
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.importDoc(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasImportDoc({ dbService: services.db, automergeService: services.automerge, crypto }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasImportDocText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
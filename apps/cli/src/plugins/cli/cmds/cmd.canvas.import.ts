@@ -0,0 +1,105 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { txExecuteCanvasImport, type TCanvasImportSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import';
+import { buildCanvasImportInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasImportHelp(): void {
+  console.log(`Usage: vibecanvas canvas import --file <path> [options]
+
+Import an Excalidraw .excalidraw file or a JSON Canvas (Obsidian) .canvas file into a new canvas or into an existing canvas.
+
+Required source:
+  --file <path>             .excalidraw or .canvas file to import
+
+Target (choose at most one; default: new canvas named after the file):
+  --name <name>             Create a new canvas with this name
+  --canvas <id>             Import into one canvas by exact canvas row id
+  --canvas-name <query>     Import into one canvas by unique case-insensitive name substring
+
+Import options:
+  --format <format>         excalidraw | json-canvas (default: json-canvas for .canvas files, else excalidraw)
+  --vault <dir>             json-canvas: folder that file node paths are relative to (default: the .canvas file's folder)
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Convert and report without creating the canvas or writing elements/files
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the import summary and any skipped elements, nodes, or edges.
+  JSON mode prints { ok, command, dryRun, format, created, canvas, importedCount, importedIds, groupIds, fileCount, skipped }.
+
+Notes:
+  - rectangles, diamonds, ellipses, text, lines, arrows, freedraw strokes, and images are imported; frames and embeds are skipped.
+  - imported elements get new ids and are stacked above existing canvas content.
+  - groups, text bound to containers, and arrow bindings are preserved.
+  - embedded PNG, JPEG, GIF, and WebP images are stored in the local file table.
+  - export back to Excalidraw with: vibecanvas canvas export --canvas <id> --out ./diagram.excalidraw
+  - json-canvas: text nodes become text, file nodes file widgets pointing at the same paths, link nodes browser widgets,
+    group nodes a group with a labelled frame around the nodes inside it, and edges bound arrows (labels become text at the midpoint).
+  - export back to JSON Canvas with: vibecanvas canvas export --canvas <id> --out ./vault/board.canvas
+`)
+}
+
+function printCanvasImportText(result: TCanvasImportSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  const target = result.created ? 'new canvas' : 'canvas';
+  process.stdout.write(`Imported ${result.importedCount} element${result.importedCount === 1 ? '' : 's'} into ${target}=${result.canvas.id} name=${JSON.stringify(result.canvas.name)} (groups=${result.groupIds.length} files=${result.fileCount})\n`);
+  for (const skipped of result.skipped) {
+    process.stdout.write(`- skipped id=${skipped.id} type=${skipped.type}: ${skipped.reason}\n`);
+  }
+  process.exitCode = 0;
+}
+
+async function readImportContent(config: ICliConfig): Promise<string> {
+  const options = config.subcommandOptions;
+  const error = {
+    ok: false,
+    command: 'canvas.import',
+    canvasId: options?.canvasId ?? null,
+    canvasNameQuery: options?.canvasNameQuery ?? null,
+  };
+
+  if (!options?.file) {
+    throw { ...error, code: 'CANVAS_IMPORT_FILE_REQUIRED', message: 'Import requires --file <path>.' };
+  }
+
+  try {
+    return await readFile(options.file, 'utf8');
+  } catch (readError) {
+    throw { ...error, code: 'CANVAS_IMPORT_FILE_UNREADABLE', message: `Failed to read '${options.file}': ${readError instanceof Error ? readError.message : String(readError)}` };
+  }
+}
+
+export async function runCanvasImportCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const options = config.subcommandOptions;
+    const baseDir = options?.vault ? resolve(options.vault) : options?.file ? dirname(resolve(options.file)) : undefined;
+    const input = buildCanvasImportInput(options, await readImportContent(config), baseDir);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.import(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasImport({ dbService: services.db, automergeService: services.automerge, crypto }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasImportText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
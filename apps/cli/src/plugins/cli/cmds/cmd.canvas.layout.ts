@@ -0,0 +1,95 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasLayout, type TCanvasLayoutSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.layout';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasLayoutInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasLayoutHelp(): void {
+  console.log(`Usage: vibecanvas canvas layout [selector] <target selectors> [options]
+
+Arrange the matched elements and groups of one canvas as a grid, row, column, tree, or layered graph.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Target selectors (required, same inputs as canvas query):
+  --id <id>                 Match exact element/group ids (repeatable)
+  --kind <kind>             element | group (repeatable)
+  --type <type>             Match persisted element types only (repeatable)
+  --style <key=value>       Match exact persisted element style values (repeatable)
+  --group <group-id>        Match direct children of one parent group
+  --subtree <group-id>      Match the root group plus all nested descendants
+  --frame <frame-id>        Match elements adopted by one frame
+  --bounds <x,y,w,h>        Match computed persisted bounds
+  --bounds-mode <mode>      intersects | contains (default: intersects)
+  --where <querystring>     Same selector fields encoded as query params
+  --query <json>            JSON object with { ids, kinds, types, style, group, subtree, frame, bounds, boundsMode }
+
+Layout options:
+  --algorithm <name>        grid | row | column | tree | layered (default: grid)
+  --direction <dir>         TB | BT | LR | RL for tree and layered (default: TB)
+  --gap <number>            Spacing between nodes (default: 40; tree/layered use 60, and 1.5x gap between ranks)
+  --columns <number>        Grid column count (default: square-ish grid)
+  --x <number>              Left edge of the arranged selection (default: current left edge)
+  --y <number>              Top edge of the arranged selection (default: current top edge)
+
+Options:
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report proposed positions without writing them
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the layout summary and one line per moved node with its old and new position.
+  JSON mode prints { ok, command, dryRun, canvas, algorithm, direction, matchedCount, matchedIds, nodeCount, edgeCount, moves, changedCount, changedIds, bounds }.
+
+Notes:
+  - a matched group is laid out as one node and its descendants move with it.
+  - ids nested inside another matched group follow that group instead of moving on their own.
+  - bound connectors and attached text are not nodes; they follow the shapes they are bound to.
+  - tree and layered use arrows/lines bound on both ends to matched nodes as edges.
+  - the whole layout is applied as one document change; bound connectors are rerouted in the same change.
+
+Examples:
+  vibecanvas canvas layout --canvas <id> --type rect --algorithm grid --columns 3
+  vibecanvas canvas layout --canvas <id> --id a --id b --id c --algorithm row --gap 20 --dry-run
+  vibecanvas canvas layout --canvas-name design --subtree group-root --algorithm layered --direction LR --json
+`);
+}
+
+function printCanvasLayoutText(result: TCanvasLayoutSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Layout ${result.algorithm} direction=${result.direction} matched=${result.matchedCount} nodes=${result.nodeCount} edges=${result.edgeCount} changed=${result.changedCount} canvas=${result.canvas.id}\n`);
+  for (const move of result.moves) {
+    process.stdout.write(`- ${move.kind} id=${move.id} ${move.from.x},${move.from.y} -> ${move.to.x},${move.to.y}\n`);
+  }
+  process.exitCode = 0;
+}
+
+export async function runCanvasLayoutCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasLayoutInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.layout(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasLayout({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasLayoutText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
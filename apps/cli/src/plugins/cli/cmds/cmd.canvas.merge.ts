@@ -0,0 +1,72 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasMerge, type TCanvasMergeSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.merge';
+import { fnFormatCanvasDiffEntry } from '@vibecanvas/canvas-cmds/core/fn.diff';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasMergeInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasMergeHelp(): void {
+  console.log(`Usage: vibecanvas canvas merge [selector] [options]
+
+Merge the changes made on a fork back into the canvas it was forked from.
+
+Canvas selector (choose exactly one; selects the fork):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --into <id>               Merge into this canvas instead of the one the fork was made from
+  --into-name <query>       Same, selecting the target by unique name substring
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report what the merge would change without writing it
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the merge summary, then one line per element or group the merge adds (+), removes (-), or changes (~).
+  JSON mode prints { ok, command, dryRun, fork, canvas, before, heads, mergedChangeCount, addedIds, removedIds, modifiedIds, entries }.
+
+Notes:
+  - Automerge merges both histories: edits made on the original since the fork are kept, and concurrent edits to the same field resolve deterministically.
+  - only canvases that share history merge; duplicates and unrelated canvases are rejected.
+  - merged changes keep their own sessions; to back a merge out, run canvas restore --at with the printed before= heads.
+
+Examples:
+  vibecanvas canvas merge --canvas-name "planning experiment" --dry-run
+  vibecanvas canvas merge --canvas <fork-id> --json
+`);
+}
+
+function printCanvasMergeText(result: TCanvasMergeSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Merged changes=${result.mergedChangeCount} added=${result.addedIds.length} removed=${result.removedIds.length} modified=${result.modifiedIds.length} fork=${result.fork.id} canvas=${result.canvas.id} before=${result.before.join(',')}\n`);
+  for (const entry of result.entries) process.stdout.write(`${fnFormatCanvasDiffEntry(entry)}\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasMergeCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasMergeInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.merge(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasMerge({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasMergeText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -39,6 +39,7 @@ Output:
 Notes:
   - repeated --id values move many targets while preserving relative positions.
   - group ids move their descendant elements; groups themselves do not store x/y positions.
+  - frame ids also move the elements dropped into the frame.
   - overlapping targets are normalized so each changed element moves at most once.
   - --absolute currently requires exactly one target id.
 `)
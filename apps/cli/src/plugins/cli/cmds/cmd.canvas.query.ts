@@ -23,13 +23,14 @@ Selector inputs (choose at most one style):
     --style <key=value>     Match exact persisted element style values (repeatable)
     --group <group-id>      Match direct children of one parent group
     --subtree <group-id>    Match the root group plus all nested descendants
+    --frame <frame-id>      Match elements adopted by one frame
     --bounds <x,y,w,h>      Match computed persisted bounds
     --bounds-mode <mode>    intersects | contains (default: intersects)
 
   --where <querystring>     Same selector fields encoded as query params
                              Example: "type=rect&style.backgroundColor=%23ff0000&subtree=group-root&bounds=0,0,500,400"
 
-  --query <json>            JSON object with { ids, kinds, types, style, group, subtree, bounds, boundsMode }
+  --query <json>            JSON object with { ids, kinds, types, style, group, subtree, frame, bounds, boundsMode }
 
 Options:
   --output <mode>           summary | focused | full (default: summary)
@@ -50,6 +51,7 @@ Notes:
   - pass at most one selector input style: structured flags, --where, or --query.
   - --group matches direct children only.
   - --subtree includes the root group and all nested descendants.
+  - --frame matches the elements dropped into the frame (not the frame itself) and groups made only of them.
   - group bounds are derived from descendant elements; empty groups do not match bounds filters.
   - when --db is omitted, query falls back to VIBECANVAS_DB, VIBECANVAS_CONFIG, then default dev/prod storage resolution.
 
@@ -57,6 +59,7 @@ Examples:
   vibecanvas canvas query --canvas 3d3f... --type rect --output summary
   vibecanvas canvas query --canvas-name design --where "subtree=group-root&type=text" --json
   vibecanvas canvas query --canvas 3d3f... --style backgroundColor=#ff0000 --json
+  vibecanvas canvas query --canvas-name design --frame frame-1 --output focused
   vibecanvas canvas query --canvas 3d3f... --query '{"bounds":{"x":0,"y":0,"w":800,"h":600}}' --json
 `)
 }
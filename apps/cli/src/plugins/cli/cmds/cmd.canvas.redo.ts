@@ -0,0 +1,70 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasRedo, type TCanvasRedoSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.redo';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasRedoInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasRedoHelp(): void {
+  console.log(`Usage: vibecanvas canvas redo [selector] [options]
+
+Reapply the latest change this CLI session or agent undid on one canvas.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --session <id>            Session whose undo is redone (default: $VIBECANVAS_SESSION, else 'default')
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report what would be reapplied without writing it
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the reapplied command and one line per changed or skipped id.
+  JSON mode prints { ok, command, dryRun, canvas, origin, entry, changedCount, changedIds, skippedCount, skippedIds, undoCount, redoCount }.
+
+Notes:
+  - redo is available only until the session makes a new change.
+  - values someone else changed after the undo are kept and reported as skipped.
+
+Examples:
+  vibecanvas canvas redo --canvas <id>
+  vibecanvas canvas redo --canvas-name design --session agent-1 --json
+`);
+}
+
+function printCanvasRedoText(result: TCanvasRedoSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Redo ${result.entry.label ?? 'change'} origin=${result.origin} changed=${result.changedCount} skipped=${result.skippedCount} undo=${result.undoCount} redo=${result.redoCount} canvas=${result.canvas.id}\n`);
+  for (const id of result.changedIds) process.stdout.write(`- reapplied id=${id}\n`);
+  for (const id of result.skippedIds) process.stdout.write(`- kept id=${id} (changed again since)\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasRedoCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasRedoInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.redo(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasRedo({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasRedoText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
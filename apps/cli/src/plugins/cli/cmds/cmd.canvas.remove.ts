@@ -0,0 +1,90 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnResolveCanvasSelection } from '@vibecanvas/canvas-cmds/core/fn.canvas';
+import { txExecuteCanvasRemove, type TCanvasRemoveInput, type TCanvasRemoveSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.remove';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasRemoveInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasRemoveHelp(): void {
+  console.log(`Usage: vibecanvas canvas remove [selector] [options]
+
+Delete one canvas with its history. This cannot be undone.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --force                   Remove without asking for confirmation
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the removed canvas id and name.
+  JSON mode prints { ok, command, canvas }.
+
+Notes:
+  - in a terminal you are asked to confirm; scripts and agents must pass --force.
+  - export the canvas first with canvas export-doc if you may want it back.
+
+Examples:
+  vibecanvas canvas remove --canvas-name scratch
+  vibecanvas canvas remove --canvas <id> --force --json
+`);
+}
+
+function printCanvasRemoveText(result: TCanvasRemoveSuccess): void {
+  process.stdout.write(`Removed canvas=${result.canvas.id} name=${JSON.stringify(result.canvas.name)}\n`);
+  process.exitCode = 0;
+}
+
+function confirmationError(code: string, message: string, input: TCanvasRemoveInput) {
+  return {
+    ok: false,
+    command: 'canvas.remove',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function fnConfirmRemove(db: IDbService, input: TCanvasRemoveInput): void {
+  if (!process.stdin.isTTY) {
+    throw confirmationError('CANVAS_REMOVE_CONFIRMATION_REQUIRED', 'Remove asks for confirmation, but stdin is not a terminal. Pass --force to remove without asking.', input);
+  }
+
+  const canvas = fnResolveCanvasSelection({ rows: db.canvas.listAll(), selector: input, command: 'canvas.remove', actionLabel: 'Remove' });
+  if (!confirm(`Remove canvas '${canvas.name}' (${canvas.id}) and its history?`)) {
+    throw confirmationError('CANVAS_REMOVE_CANCELED', 'Remove canceled; the canvas was kept.', input);
+  }
+}
+
+export async function runCanvasRemoveCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasRemoveInput(config.subcommandOptions);
+    if (config.subcommandOptions?.force !== true) fnConfirmRemove(services.db, input);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.remove(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasRemove({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasRemoveText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
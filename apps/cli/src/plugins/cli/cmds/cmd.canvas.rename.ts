@@ -0,0 +1,62 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasRename, type TCanvasRenameSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.rename';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasRenameInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasRenameHelp(): void {
+  console.log(`Usage: vibecanvas canvas rename [selector] --name <name> [options]
+
+Give one canvas a new name.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --name <name>             New name; must not be used by another canvas
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the canvas id with its old and new name.
+  JSON mode prints { ok, command, previousName, canvas }.
+
+Examples:
+  vibecanvas canvas rename --canvas <id> --name "release plan"
+  vibecanvas canvas rename --canvas-name scratch --name archive --json
+`);
+}
+
+function printCanvasRenameText(result: TCanvasRenameSuccess): void {
+  process.stdout.write(`Renamed canvas=${result.canvas.id} from=${JSON.stringify(result.previousName)} name=${JSON.stringify(result.canvas.name)}\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasRenameCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasRenameInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.rename(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasRename({ dbService: services.db }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasRenameText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,76 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasRestore, type TCanvasRestoreSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.restore';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasRestoreInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasRestoreHelp(): void {
+  console.log(`Usage: vibecanvas canvas restore [selector] --at <heads> [options]
+
+Bring one canvas, or selected ids, back to how they were at a point in its history.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Restore options:
+  --at <heads>              Heads of the restore point from canvas history (comma-separated or repeatable, required)
+  --id <id>                 Restore only these element/group ids (repeatable); groups include their descendants
+
+Options:
+  --session <id>            Session the restore is recorded under (default: $VIBECANVAS_SESSION, else 'default')
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report what would be restored without writing it
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the restore summary and one line per recreated, removed, or updated id.
+  JSON mode prints { ok, command, dryRun, canvas, at, changedCount, changedIds, recreatedIds, removedIds, updatedIds }.
+
+Notes:
+  - restoring writes one new change on top of the current history; nothing is rewritten, so canvas undo reverts it.
+  - without --id, elements and groups created after the restore point are removed.
+  - only values that differ from the restore point are written.
+
+Examples:
+  vibecanvas canvas restore --canvas <id> --at <hash> --dry-run
+  vibecanvas canvas restore --canvas <id> --at <hash-a>,<hash-b> --id rect-1 --json
+`);
+}
+
+function printCanvasRestoreText(result: TCanvasRestoreSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Restored changed=${result.changedCount} at=${result.at.join(',')} canvas=${result.canvas.id}\n`);
+  for (const id of result.recreatedIds) process.stdout.write(`- recreated id=${id}\n`);
+  for (const id of result.removedIds) process.stdout.write(`- removed id=${id}\n`);
+  for (const id of result.updatedIds) process.stdout.write(`- updated id=${id}\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasRestoreCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasRestoreInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.restore(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasRestore({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasRestoreText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
@@ -0,0 +1,80 @@
+import { resolve } from 'node:path';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import type { IFilesystemService } from '@vibecanvas/service-filesystem/IFilesystemService';
+import { txExecuteCanvasSync, type TCanvasSyncSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.sync';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasSyncInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasSyncHelp(): void {
+  console.log(`Usage: vibecanvas canvas sync [selector] [options]
+
+Keep a canvas in two-way sync with a JSON file, e.g. to version a board in git.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --path <file>             Bind the canvas to this JSON file (replaces an earlier binding)
+  --filesystem <id>         Registered filesystem holding the file (default: the local one)
+  --keep <canvas|file>      Resolve a conflict by keeping one side and overwriting the other
+  --unbind                  Stop syncing; the canvas and the file are left as they are
+  --session <id>            Session recorded on changes applied from the file
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report what the sync would do without writing either side
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the action, the file, and one line per element or group id that differs.
+  JSON mode prints { ok, command, dryRun, canvas, filesystemId, path, action, status, changedIds, elementCount, groupCount }.
+  action is unchanged, wrote-file, applied-file, conflict, or unbound. Exits 1 on conflict.
+
+Notes:
+  - each run syncs once; a running vibecanvas server keeps every bound canvas in sync, writing the file when the canvas changes and applying edits made to the file.
+  - the file holds elements and groups keyed by id with sorted keys and no timestamps, so diffs only show real changes.
+  - when both the canvas and the file changed since the last sync, nothing is written until you pick a side with --keep.
+
+Examples:
+  vibecanvas canvas sync --canvas-name architecture --path ./docs/architecture.canvas.json
+  vibecanvas canvas sync --canvas-name architecture --json
+  vibecanvas canvas sync --canvas-name architecture --keep file
+  vibecanvas canvas sync --canvas-name architecture --unbind
+`);
+}
+
+function printCanvasSyncText(result: TCanvasSyncSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Synced canvas=${result.canvas.id} action=${result.action} status=${result.status} path=${result.path} changed=${result.changedIds.length}\n`);
+  for (const id of result.changedIds) process.stdout.write(`~ ${id}\n`);
+  if (result.action === 'conflict') {
+    process.stdout.write(`Both the canvas and the file changed since the last sync. Re-run with --keep canvas or --keep file.\n`);
+  }
+}
+
+export async function runCanvasSyncCommand(services: { db: IDbService, automerge: IAutomergeService, filesystem: IFilesystemService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const path = config.subcommandOptions?.path ? resolve(config.subcommandOptions.path) : undefined;
+    const input = buildCanvasSyncInput(config.subcommandOptions, path);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.sync(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasSync({ dbService: services.db, automergeService: services.automerge, filesystemService: services.filesystem }, input),
+    });
+
+    if (wantsJson) fnPrintCommandResult(result, true);
+    else printCanvasSyncText(result);
+    process.exitCode = result.action === 'conflict' ? 1 : 0;
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
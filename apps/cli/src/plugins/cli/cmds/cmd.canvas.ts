@@ -1,8 +1,31 @@
 import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
 import type { ICliConfig } from '@vibecanvas/cli/config';
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import type { IFilesystemService } from '@vibecanvas/service-filesystem/IFilesystemService';
 import { runCanvasAddCommand, printCanvasAddHelp, printCanvasAddSchema } from './cmd.canvas.add';
+import { runCanvasConnectCommand, printCanvasConnectHelp } from './cmd.canvas.connect';
 import { runCanvasDeleteCommand, printCanvasDeleteHelp } from './cmd.canvas.delete';
+import { runCanvasDiagramCommand, printCanvasDiagramHelp } from './cmd.canvas.diagram';
+import { runCanvasLayoutCommand, printCanvasLayoutHelp } from './cmd.canvas.layout';
+import { runCanvasAlignCommand, printCanvasAlignHelp } from './cmd.canvas.align';
+import { runCanvasDistributeCommand, printCanvasDistributeHelp } from './cmd.canvas.distribute';
+import { runCanvasUndoCommand, printCanvasUndoHelp } from './cmd.canvas.undo';
+import { runCanvasRedoCommand, printCanvasRedoHelp } from './cmd.canvas.redo';
+import { runCanvasDiffCommand, printCanvasDiffHelp } from './cmd.canvas.diff';
+import { runCanvasWatchCommand, printCanvasWatchHelp } from './cmd.canvas.watch';
+import { runCanvasCreateCommand, printCanvasCreateHelp } from './cmd.canvas.create';
+import { runCanvasRenameCommand, printCanvasRenameHelp } from './cmd.canvas.rename';
+import { runCanvasRemoveCommand, printCanvasRemoveHelp } from './cmd.canvas.remove';
+import { runCanvasDuplicateCommand, printCanvasDuplicateHelp } from './cmd.canvas.duplicate';
+import { runCanvasForkCommand, printCanvasForkHelp } from './cmd.canvas.fork';
+import { runCanvasMergeCommand, printCanvasMergeHelp } from './cmd.canvas.merge';
+import { runCanvasHistoryCommand, printCanvasHistoryHelp } from './cmd.canvas.history';
+import { runCanvasRestoreCommand, printCanvasRestoreHelp } from './cmd.canvas.restore';
+import { runCanvasExportCommand, printCanvasExportHelp } from './cmd.canvas.export';
+import { runCanvasImportCommand, printCanvasImportHelp } from './cmd.canvas.import';
+import { runCanvasExportDocCommand, printCanvasExportDocHelp } from './cmd.canvas.export-doc';
+import { runCanvasImportDocCommand, printCanvasImportDocHelp } from './cmd.canvas.import-doc';
+import { runCanvasSyncCommand, printCanvasSyncHelp } from './cmd.canvas.sync';
 import { runCanvasGroupCommand, printCanvasGroupHelp } from './cmd.canvas.group';
 import { runCanvasListCommand, printCanvasListHelp } from './cmd.canvas.list';
 import { runCanvasMoveCommand, printCanvasMoveHelp } from './cmd.canvas.move';
@@ -76,6 +99,49 @@ Canvas commands:
                                                 Permanently delete elements/groups; deleting a group cascades to descendants
   reorder (--canvas <id> | --canvas-name <query>) --id <id>... --action <front|back|forward|backward>
                                                 Reorder sibling zIndex for explicit element/group ids
+  connect (--canvas <id> | --canvas-name <query>) --from <id> --to <id>
+                                                Create an arrow/line bound to two elements
+  export (--canvas <id> | --canvas-name <query>) [--id <id>...] [--format svg|png|excalidraw|json-canvas] [--out <path>]
+                                                Render the canvas or selected ids to SVG, PNG, Excalidraw, or JSON Canvas
+  import --file <path> [--name <name> | --canvas <id> | --canvas-name <query>]
+                                                Import an .excalidraw or JSON Canvas .canvas file into a new or existing canvas
+  export-doc (--canvas <id> | --canvas-name <query>) [--out <path>]
+                                                Export one canvas with its history and images as a .vibecanvas file
+  import-doc --file <path> [--name <name>]
+                                                Import a .vibecanvas file as a new canvas
+  diagram (--canvas <id> | --canvas-name <query>) (--diagram <text> | --diagram-file <path> | --diagram-stdin)
+                                                Lay out a Mermaid flowchart or DOT graph as grouped shapes and arrows
+  layout (--canvas <id> | --canvas-name <query>) [selectors] [--algorithm grid|row|column|tree|layered]
+                                                Arrange matched elements/groups as a grid, stack, tree, or layered graph
+  align (--canvas <id> | --canvas-name <query>) [selectors] --mode <left|center|right|top|middle|bottom>
+                                                Align matched elements/groups to an edge or center of their bounds
+  distribute (--canvas <id> | --canvas-name <query>) [selectors] --axis <horizontal|vertical>
+                                                Space matched elements/groups with equal gaps along one axis
+  undo (--canvas <id> | --canvas-name <query>) [--session <id>]
+                                                Revert the latest change this CLI session made, keeping everyone else's edits
+  redo (--canvas <id> | --canvas-name <query>) [--session <id>]
+                                                Reapply the latest change undone by this CLI session
+  history (--canvas <id> | --canvas-name <query>) [--limit <n>]
+                                                List the canvas version history grouped by time and actor
+  restore (--canvas <id> | --canvas-name <query>) --at <heads> [--id <id>...]
+                                                Restore the canvas or selected ids to a point in its history
+  diff (--canvas <id> | --canvas-name <query>) (--from <heads> [--to <heads>] | --other-canvas <id>)
+                                                Compare two versions of a canvas, or a canvas with another canvas
+  create --name <name>                         Create a new, empty canvas
+  rename (--canvas <id> | --canvas-name <query>) --name <name>
+                                                Give a canvas a new name
+  remove (--canvas <id> | --canvas-name <query>) [--force]
+                                                Delete a canvas with its history, after confirming
+  duplicate (--canvas <id> | --canvas-name <query>) [--name <name>]
+                                                Copy a canvas, including its image files, into a new canvas
+  fork (--canvas <id> | --canvas-name <query>) [--name <name>]
+                                                Create a copy that shares history and can be merged back
+  merge (--canvas <id> | --canvas-name <query>) [--into <id>] [--dry-run]
+                                                Merge a fork's changes back into the canvas it was forked from
+  watch (--canvas <id> | --canvas-name <query>) [selectors] [--since <heads>] [--limit <n>]
+                                                Stream element, group, and selection changes as they happen
+  sync (--canvas <id> | --canvas-name <query>) [--path <file>] [--keep canvas|file] [--unbind]
+                                                Keep the canvas in two-way sync with a diff-friendly JSON file
 
 Dispatch order:
   1. Try local API server first when --db is not passed
@@ -85,6 +151,7 @@ Dispatch order:
 Shared options:
   --db <path>   Optional explicit SQLite file override; otherwise falls back to configured/default storage
   --dry-run     Validate and preview mutation results without mutating the canvas
+  --session <id> Record mutations under this undo session (default: $VIBECANVAS_SESSION, else 'default')
   --json        Emit machine-readable errors/output
   --help, -h    Show this help message
 
@@ -159,10 +226,120 @@ export function printCanvasCommandHelp(subcommand?: string, args?: { schema?: bo
     return;
   }
 
+  if (subcommand === 'connect') {
+    printCanvasConnectHelp();
+    return;
+  }
+
+  if (subcommand === 'export') {
+    printCanvasExportHelp();
+    return;
+  }
+
+  if (subcommand === 'import') {
+    printCanvasImportHelp();
+    return;
+  }
+
+  if (subcommand === 'diagram') {
+    printCanvasDiagramHelp();
+    return;
+  }
+
+  if (subcommand === 'layout') {
+    printCanvasLayoutHelp();
+    return;
+  }
+
+  if (subcommand === 'align') {
+    printCanvasAlignHelp();
+    return;
+  }
+
+  if (subcommand === 'distribute') {
+    printCanvasDistributeHelp();
+    return;
+  }
+
+  if (subcommand === 'undo') {
+    printCanvasUndoHelp();
+    return;
+  }
+
+  if (subcommand === 'redo') {
+    printCanvasRedoHelp();
+    return;
+  }
+
+  if (subcommand === 'history') {
+    printCanvasHistoryHelp();
+    return;
+  }
+
+  if (subcommand === 'restore') {
+    printCanvasRestoreHelp();
+    return;
+  }
+
+  if (subcommand === 'diff') {
+    printCanvasDiffHelp();
+    return;
+  }
+
+  if (subcommand === 'create') {
+    printCanvasCreateHelp();
+    return;
+  }
+
+  if (subcommand === 'rename') {
+    printCanvasRenameHelp();
+    return;
+  }
+
+  if (subcommand === 'remove') {
+    printCanvasRemoveHelp();
+    return;
+  }
+
+  if (subcommand === 'duplicate') {
+    printCanvasDuplicateHelp();
+    return;
+  }
+
+  if (subcommand === 'fork') {
+    printCanvasForkHelp();
+    return;
+  }
+
+  if (subcommand === 'merge') {
+    printCanvasMergeHelp();
+    return;
+  }
+
+  if (subcommand === 'watch') {
+    printCanvasWatchHelp();
+    return;
+  }
+
+  if (subcommand === 'export-doc') {
+    printCanvasExportDocHelp();
+    return;
+  }
+
+  if (subcommand === 'import-doc') {
+    printCanvasImportDocHelp();
+    return;
+  }
+
+  if (subcommand === 'sync') {
+    printCanvasSyncHelp();
+    return;
+  }
+
   printCanvasHelp();
 }
 
-export async function runCanvasCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+export async function runCanvasCommand(services: { db: IDbService, automerge: IAutomergeService, filesystem: IFilesystemService }, config: ICliConfig) {
   if (!config.subcommand) {
     printCanvasHelp();
     return;
@@ -235,5 +412,115 @@ export async function runCanvasCommand(services: { db: IDbService, automerge: IA
 
   if (config.subcommand === 'reorder') {
     await runCanvasReorderCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'connect') {
+    await runCanvasConnectCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'export') {
+    await runCanvasExportCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'import') {
+    await runCanvasImportCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'diagram') {
+    await runCanvasDiagramCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'layout') {
+    await runCanvasLayoutCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'align') {
+    await runCanvasAlignCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'distribute') {
+    await runCanvasDistributeCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'undo') {
+    await runCanvasUndoCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'redo') {
+    await runCanvasRedoCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'history') {
+    await runCanvasHistoryCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'restore') {
+    await runCanvasRestoreCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'diff') {
+    await runCanvasDiffCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'create') {
+    await runCanvasCreateCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'rename') {
+    await runCanvasRenameCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'remove') {
+    await runCanvasRemoveCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'duplicate') {
+    await runCanvasDuplicateCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'fork') {
+    await runCanvasForkCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'merge') {
+    await runCanvasMergeCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'watch') {
+    await runCanvasWatchCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'export-doc') {
+    await runCanvasExportDocCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'import-doc') {
+    await runCanvasImportDocCommand(services, { ...config });
+    return;
+  }
+
+  if (config.subcommand === 'sync') {
+    await runCanvasSyncCommand(services, { ...config });
   }
 }
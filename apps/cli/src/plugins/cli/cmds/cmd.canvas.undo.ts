@@ -0,0 +1,74 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { txExecuteCanvasUndo, type TCanvasUndoSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.undo';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasUndoInput } from './fn.canvas-subcommand-inputs';
+
+export function printCanvasUndoHelp(): void {
+  console.log(`Usage: vibecanvas canvas undo [selector] [options]
+
+Revert the latest change made on one canvas by this CLI session or agent.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Options:
+  --session <id>            Session whose changes are undone (default: $VIBECANVAS_SESSION, else 'default')
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --dry-run                 Report what would be reverted without writing it
+  --json                    Emit machine-readable success/error payloads
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints the reverted command and one line per changed or skipped id.
+  JSON mode prints { ok, command, dryRun, canvas, origin, entry, changedCount, changedIds, skippedCount, skippedIds, undoCount, redoCount }.
+
+Notes:
+  - every mutating canvas command is recorded under its --session; undo only walks that session's changes.
+  - changes from the browser, other sessions, and other peers are never undone.
+  - a value someone else changed after this session's change is kept and its id is reported as skipped.
+  - undo history lives in the canvas document itself, so it survives restarts and syncs with the canvas.
+  - canvas diagram records one step, so a single undo removes the whole diagram.
+
+Examples:
+  vibecanvas canvas undo --canvas <id>
+  vibecanvas canvas undo --canvas-name design --session agent-1 --dry-run --json
+  VIBECANVAS_SESSION=agent-1 vibecanvas canvas undo --canvas <id>
+`);
+}
+
+function printCanvasUndoText(result: TCanvasUndoSuccess): void {
+  if (result.dryRun) process.stdout.write(`[dry-run] no mutation applied\n`);
+  process.stdout.write(`Undo ${result.entry.label ?? 'change'} origin=${result.origin} changed=${result.changedCount} skipped=${result.skippedCount} undo=${result.undoCount} redo=${result.redoCount} canvas=${result.canvas.id}\n`);
+  for (const id of result.changedIds) process.stdout.write(`- reverted id=${id}\n`);
+  for (const id of result.skippedIds) process.stdout.write(`- kept id=${id} (changed again since)\n`);
+  process.exitCode = 0;
+}
+
+export async function runCanvasUndoCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+
+  try {
+    const input = buildCanvasUndoInput(config.subcommandOptions);
+
+    const result = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.undo(input);
+        if (error) throw error;
+        return response;
+      },
+      local: async () => txExecuteCanvasUndo({ dbService: services.db, automergeService: services.automerge }, input),
+    });
+
+    if (wantsJson) {
+      fnPrintCommandResult(result, true);
+      return;
+    }
+    printCanvasUndoText(result);
+  } catch (error) {
+    fnPrintCommandError(error, wantsJson);
+  }
+}
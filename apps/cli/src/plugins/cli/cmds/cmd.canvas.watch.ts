@@ -0,0 +1,111 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fxExecuteCanvasWatch, type TCanvasWatchEvent } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.watch';
+import { fnFormatCanvasDiffEntry } from '@vibecanvas/canvas-cmds/core/fn.diff';
+import { fnPrintCommandError, fnPrintCommandResult } from '../core/fn.print-command-result';
+import { fxDispatchCanvasCommand } from '../core/fx.dispatch-canvas-command';
+import { buildCanvasWatchInput } from './fn.canvas-subcommand-inputs';
+
+/** How often direct database mode re-reads the canvas; other CLI runs write storage without notifying this process. */
+const LOCAL_POLL_INTERVAL_MS = 500;
+
+export function printCanvasWatchHelp(): void {
+  console.log(`Usage: vibecanvas canvas watch [selector] [target selectors] [options]
+
+Stream the changes of one canvas as they happen, one event per line.
+
+Canvas selector (choose exactly one):
+  --canvas <id>             Select one canvas by exact canvas row id
+  --canvas-name <query>     Select one canvas by unique case-insensitive name substring
+
+Target selectors (optional, same inputs as canvas query):
+  --id <id>                 Match exact element/group ids (repeatable)
+  --kind <kind>             element | group (repeatable)
+  --type <type>             Match persisted element types only (repeatable)
+  --style <key=value>       Match exact persisted element style values (repeatable)
+  --group <group-id>        Match direct children of one parent group
+  --subtree <group-id>      Match the root group plus all nested descendants
+  --frame <frame-id>        Match elements adopted by one frame
+  --bounds <x,y,w,h>        Match computed persisted bounds
+  --bounds-mode <mode>      intersects | contains (default: intersects)
+  --where <querystring>     Same selector fields encoded as query params
+  --query <json>            JSON object with { ids, kinds, types, style, group, subtree, frame, bounds, boundsMode }
+
+Options:
+  --since <heads>           First report the changes made after these comma-separated heads
+  --limit <n>               Exit after n change or selection events
+  --db <path>               Optional explicit SQLite file override for the opened db
+  --json                    Emit one JSON event per line (NDJSON)
+  --help, -h                Show this help message
+
+Output:
+  Text mode prints a Watching line, then one +/-/~ line per added, removed, or changed element or group and one line per selection.
+  JSON mode prints { event: 'ready', canvas, heads } first, then change events
+  { event: 'element.added'|'element.changed'|'element.removed'|'group.added'|'group.changed'|'group.removed', id, kind, status, type, fields, record, heads, origins, labels, at }
+  and selection events { event: 'selection', origin, ids, at }.
+
+Notes:
+  - runs until --limit is reached or the process is interrupted (Ctrl+C).
+  - selection events come from browsers connected to a running vibecanvas server; direct database mode only sees document changes.
+  - removed elements match target selectors as they were before the removal.
+  - pass the heads of a query or history read to --since so no change between that read and the watch is missed.
+
+Examples:
+  vibecanvas canvas watch --canvas <id> --json
+  vibecanvas canvas watch --canvas-name design --type rect --limit 1 --json
+  vibecanvas canvas watch --canvas <id> --since <heads> --json
+`);
+}
+
+function printCanvasWatchEventText(event: TCanvasWatchEvent): void {
+  if (event.event === 'ready') {
+    process.stdout.write(`Watching canvas=${event.canvas.id} name=${JSON.stringify(event.canvas.name)} heads=${event.heads.join(',')}\n`);
+    return;
+  }
+
+  if (event.event === 'selection') {
+    process.stdout.write(`* selection origin=${event.origin} ids=${event.ids.length > 0 ? event.ids.join(',') : '-'}\n`);
+    return;
+  }
+
+  const origins = event.origins.length > 0 ? event.origins.join(',') : '-';
+  const labels = event.labels.length > 0 ? event.labels.join(',') : '-';
+  process.stdout.write(`${fnFormatCanvasDiffEntry(event)} by=${origins} labels=${labels}\n`);
+}
+
+export async function runCanvasWatchCommand(services: { db: IDbService, automerge: IAutomergeService }, config: ICliConfig) {
+  const wantsJson = config.subcommandOptions?.json === true;
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  try {
+    const input = buildCanvasWatchInput(config.subcommandOptions);
+
+    const events = await fxDispatchCanvasCommand(services, config, {
+      client: async (safeClient) => {
+        const [error, response] = await safeClient.watch(input, { signal: controller.signal });
+        if (error) throw error;
+        return response;
+      },
+      local: async () => fxExecuteCanvasWatch({ dbService: services.db, automergeService: services.automerge }, input, { signal: controller.signal, pollIntervalMs: LOCAL_POLL_INTERVAL_MS }),
+    });
+
+    for await (const event of events) {
+      if (wantsJson) fnPrintCommandResult(event, true);
+      else printCanvasWatchEventText(event);
+    }
+    process.exitCode = 0;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      process.exitCode = 0;
+      return;
+    }
+    fnPrintCommandError(error, wantsJson);
+  } finally {
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+  }
+}
@@ -0,0 +1,56 @@
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import { fxLeaseMcpClients, type TMcpServices } from '../core/fx.mcp-clients';
+import { fxServeMcpStdio } from '../core/fx.mcp-stdio';
+import { MCP_TOOLS } from '../core/mcp.tools';
+
+const MCP_INSTRUCTIONS = `Tools for vibecanvas, an infinite canvas for agents.
+Start with canvas_list, then select one canvas per call with canvasId or canvasNameQuery.
+Use canvas_query to find element and group ids before patching, moving, grouping, reordering, or deleting them.
+Mutations accept dryRun to preview the result first.`;
+
+export function printMcpHelp(): void {
+  console.log(`Usage: vibecanvas mcp [options]
+
+Serve vibecanvas as a Model Context Protocol server over stdio.
+
+Register it with any MCP-capable agent as the command 'vibecanvas mcp'.
+Messages are newline-delimited JSON-RPC on stdin/stdout; logs go to stderr.
+The server runs until stdin closes.
+
+Options:
+  --db <path>               Always use this SQLite file instead of a running vibecanvas server
+  --session <id>            Undo session for canvas mutations (default: $VIBECANVAS_SESSION)
+  --help, -h                Show this help message
+
+Tools:
+  canvas_list, canvas_query, canvas_add, canvas_patch, canvas_move,
+  canvas_group, canvas_ungroup, canvas_delete, canvas_reorder
+  filesystem_home, filesystem_list, filesystem_files, filesystem_inspect,
+  filesystem_read, filesystem_write, filesystem_move
+  pty_list, pty_create, pty_get, pty_update, pty_remove
+
+Notes:
+  - tool input schemas are listed by the server's tools/list response.
+  - without --db, each call goes to a running vibecanvas server when one is found,
+    so open browsers update live; otherwise the default database is used directly.
+  - failed calls return the command's error payload with isError set.
+
+Example agent config:
+  { "mcpServers": { "vibecanvas": { "command": "vibecanvas", "args": ["mcp"] } } }
+`);
+}
+
+export async function runMcpCommand(services: TMcpServices, config: ICliConfig): Promise<void> {
+  // stdout carries the protocol, so anything logged while serving must not land there.
+  console.log = console.error;
+  console.info = console.error;
+
+  const session = config.subcommandOptions?.session ?? (process.env.VIBECANVAS_SESSION || undefined);
+
+  await fxServeMcpStdio({ stdin: process.stdin, stdout: process.stdout }, {
+    serverInfo: { name: 'vibecanvas', version: config.version },
+    instructions: MCP_INSTRUCTIONS,
+    tools: MCP_TOOLS,
+    leaseClients: () => fxLeaseMcpClients(services, config, session),
+  });
+}
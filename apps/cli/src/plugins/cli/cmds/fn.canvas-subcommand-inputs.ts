@@ -1,11 +1,33 @@
 import type { TCanvasSubcommandOptions } from '../../../parse-argv';
 import type { TCanvasAddElementInput, TCanvasAddInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.add';
+import type { TCanvasAlignInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.align';
+import type { TCanvasConnectInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.connect';
+import type { TCanvasDiagramInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.diagram';
+import type { TCanvasDistributeInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.distribute';
+import type { TCanvasCreateInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.create';
+import type { TCanvasDuplicateInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.duplicate';
+import type { TCanvasForkInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.fork';
+import type { TCanvasMergeInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.merge';
+import type { TCanvasExportInput } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export';
+import type { TCanvasExportDocInput } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export-doc';
+import type { TCanvasDiffInput } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.diff';
+import type { TCanvasHistoryInput } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.history';
+import type { TCanvasImportInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import';
+import type { TCanvasImportDocInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import-doc';
+import type { TCanvasLayoutInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.layout';
 import type { TCanvasMoveInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.move';
 import type { TCanvasGroupInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.group';
 import type { TCanvasUngroupInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.ungroup';
 import type { TCanvasReorderInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.reorder';
 import type { TCanvasPatchEnvelope, TCanvasPatchInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.patch';
 import type { TCanvasDeleteInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.delete';
+import type { TCanvasRedoInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.redo';
+import type { TCanvasRemoveInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.remove';
+import type { TCanvasRenameInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.rename';
+import type { TCanvasRestoreInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.restore';
+import type { TCanvasSyncInput, TCanvasSyncKeep } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.sync';
+import type { TCanvasUndoInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.undo';
+import type { TCanvasWatchInput } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.watch';
 import type { TCanvasQueryInput, TSceneBounds, TSceneSelector, TSceneSelectorEnvelope, TSceneSelectorScalar } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.query';
 
 function parseScalarString(value: string): TSceneSelectorScalar {
@@ -44,6 +66,7 @@ function parseWhereSelector(where: string): TSceneSelector {
     style: Object.fromEntries(Array.from(params.entries()).filter(([key]) => key.startsWith('style.')).map(([key, value]) => [key.slice('style.'.length), parseScalarString(value)])),
     group: params.get('group')?.trim() || null,
     subtree: params.get('subtree')?.trim() || null,
+    frame: params.get('frame')?.trim() || null,
     bounds: parseBounds(params.get('bounds') ?? undefined) ?? null,
     boundsMode: params.get('bounds-mode') === 'contains' ? 'contains' : 'intersects',
   };
@@ -56,7 +79,7 @@ function parseQuerySelector(queryJson: string): TSceneSelector {
       ok: false,
       command: 'canvas.query',
       code: 'CANVAS_QUERY_JSON_INVALID',
-      message: '--query must be a JSON object with fields like { ids, kinds, types, style, group, subtree, bounds, boundsMode }.',
+      message: '--query must be a JSON object with fields like { ids, kinds, types, style, group, subtree, frame, bounds, boundsMode }.',
     };
   }
 
@@ -115,6 +138,7 @@ function parseQuerySelector(queryJson: string): TSceneSelector {
     style,
     group: typeof parsed.group === 'string' && parsed.group.trim() ? parsed.group.trim() : null,
     subtree: typeof parsed.subtree === 'string' && parsed.subtree.trim() ? parsed.subtree.trim() : null,
+    frame: typeof parsed.frame === 'string' && parsed.frame.trim() ? parsed.frame.trim() : null,
     bounds,
     boundsMode: parsed.boundsMode === 'contains' ? 'contains' : 'intersects',
   };
@@ -134,6 +158,7 @@ export function buildCanvasQueryInput(options?: TCanvasSubcommandOptions): TCanv
     || (options?.styles?.length ?? 0) > 0
     || options?.groupId
     || options?.subtree
+    || options?.frame
     || options?.bounds
     || options?.boundsMode
   ));
@@ -160,6 +185,7 @@ export function buildCanvasQueryInput(options?: TCanvasSubcommandOptions): TCanv
       style: {},
       group: null,
       subtree: null,
+      frame: null,
       bounds: null,
       boundsMode: 'intersects',
     },
@@ -180,6 +206,7 @@ export function buildCanvasQueryInput(options?: TCanvasSubcommandOptions): TCanv
       || Object.keys(style).length > 0
       || options?.groupId
       || options?.subtree
+      || options?.frame
       || options?.bounds
       || options?.boundsMode,
     );
@@ -192,6 +219,7 @@ export function buildCanvasQueryInput(options?: TCanvasSubcommandOptions): TCanv
       style,
       group: options?.groupId ?? null,
       subtree: options?.subtree ?? null,
+      frame: options?.frame ?? null,
       bounds: parseBounds(options?.bounds) ?? null,
       boundsMode: options?.boundsMode === 'contains' ? 'contains' : 'intersects',
     };
@@ -222,12 +250,25 @@ function parseOptionalNumber(value: string | undefined): number | undefined {
   return Number.isFinite(numeric) ? numeric : undefined;
 }
 
+/** `--session` wins over `VIBECANVAS_SESSION` so one agent can still act under another session id. */
+function resolveSession(options?: TCanvasSubcommandOptions): string | undefined {
+  return options?.session ?? (process.env.VIBECANVAS_SESSION || undefined);
+}
+
+/** Sticky notes that do not name an author are signed with `--author`, else the session id. */
+function stampStickyAuthor(element: TCanvasAddElementInput, author: string | undefined): TCanvasAddElementInput {
+  if (element.type !== 'sticky' || !author || element.data?.author !== undefined) return element;
+  return { ...element, data: { ...element.data, author } };
+}
+
 export function buildCanvasAddInput(options: TCanvasSubcommandOptions | undefined, elements: TCanvasAddElementInput[]): TCanvasAddInput {
+  const session = resolveSession(options);
   return {
     canvasId: options?.canvasId,
     canvasNameQuery: options?.canvasNameQuery,
+    session,
     dryRun: options?.dryRun,
-    elements,
+    elements: elements.map((element) => stampStickyAuthor(element, options?.author ?? session)),
   };
 }
 
@@ -235,6 +276,7 @@ export function buildCanvasMoveInput(options?: TCanvasSubcommandOptions): TCanva
   return {
     canvasId: options?.canvasId,
     canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
     dryRun: options?.dryRun,
     ids: sortUnique(options?.ids),
     mode: options?.absolute ? 'absolute' : options?.relative ? 'relative' : undefined,
@@ -247,6 +289,7 @@ export function buildCanvasGroupInput(options?: TCanvasSubcommandOptions): TCanv
   return {
     canvasId: options?.canvasId,
     canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
     dryRun: options?.dryRun,
     ids: sortUnique(options?.ids),
   };
@@ -256,6 +299,7 @@ export function buildCanvasUngroupInput(options?: TCanvasSubcommandOptions): TCa
   return {
     canvasId: options?.canvasId,
     canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
     dryRun: options?.dryRun,
     ids: sortUnique(options?.ids),
   };
@@ -265,6 +309,7 @@ export function buildCanvasReorderInput(options?: TCanvasSubcommandOptions): TCa
   return {
     canvasId: options?.canvasId,
     canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
     ids: sortUnique(options?.ids),
     action: options?.action as TCanvasReorderInput['action'],
   };
@@ -279,6 +324,7 @@ export function buildCanvasPatchInput(options?: TCanvasSubcommandOptions, patch?
   return {
     canvasId: options?.canvasId,
     canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
     dryRun: options?.dryRun,
     ids: sortUnique(options?.ids),
     patch: patch ?? parsePatchEnvelope(options),
@@ -289,7 +335,285 @@ export function buildCanvasDeleteInput(options?: TCanvasSubcommandOptions): TCan
   return {
     canvasId: options?.canvasId,
     canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
     dryRun: options?.dryRun,
     ids: sortUnique(options?.ids),
   };
 }
+
+export function buildCanvasConnectInput(options?: TCanvasSubcommandOptions): TCanvasConnectInput {
+  const style = parseStyleAssignments(options?.styles);
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    dryRun: options?.dryRun,
+    sourceId: options?.from,
+    targetId: options?.to,
+    type: options?.connector as TCanvasConnectInput['type'],
+    lineType: options?.lineType as TCanvasConnectInput['lineType'],
+    startCap: options?.startCap as TCanvasConnectInput['startCap'],
+    endCap: options?.endCap as TCanvasConnectInput['endCap'],
+    style: Object.keys(style).length > 0 ? style : undefined,
+  };
+}
+
+function parseExportNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function inferExportFormat(options?: TCanvasSubcommandOptions): string | undefined {
+  if (options?.format !== undefined) return options.format.trim().toLowerCase();
+  const extension = options?.out?.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+  if (extension === 'canvas') return 'json-canvas';
+  return extension === 'png' || extension === 'svg' || extension === 'excalidraw' ? extension : undefined;
+}
+
+export function buildCanvasExportInput(options?: TCanvasSubcommandOptions, baseDir?: string): TCanvasExportInput {
+  const background = options?.background?.trim();
+  const format = inferExportFormat(options);
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    ids: sortUnique(options?.ids),
+    format: format as TCanvasExportInput['format'],
+    scale: parseExportNumber(options?.scale),
+    padding: parseExportNumber(options?.padding),
+    background: background === undefined ? undefined : background === 'transparent' || background === 'none' ? null : background,
+    baseDir: format === 'json-canvas' ? baseDir : undefined,
+  };
+}
+
+function inferImportFormat(options?: TCanvasSubcommandOptions): string | undefined {
+  if (options?.format !== undefined) return options.format.trim().toLowerCase();
+  return /\.canvas$/i.test(options?.file ?? '') ? 'json-canvas' : undefined;
+}
+
+export function buildCanvasImportInput(options: TCanvasSubcommandOptions | undefined, content: string, baseDir?: string): TCanvasImportInput {
+  const hasSelector = Boolean(options?.canvasId || options?.canvasNameQuery);
+  const fileName = options?.file?.split(/[\\/]/).pop()?.replace(/\.[^.]+$/, '');
+  const format = inferImportFormat(options);
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    name: options?.name ?? (hasSelector ? undefined : fileName),
+    format: format as TCanvasImportInput['format'],
+    content,
+    baseDir: format === 'json-canvas' ? baseDir : undefined,
+    dryRun: options?.dryRun,
+  };
+}
+
+function inferDiagramFormat(filePath: string | undefined): TCanvasDiagramInput['format'] {
+  const extension = filePath?.split('.').pop()?.toLowerCase();
+  if (extension === 'mmd' || extension === 'mermaid') return 'mermaid';
+  if (extension === 'dot' || extension === 'gv') return 'dot';
+  return undefined;
+}
+
+export function buildCanvasDiagramInput(options: TCanvasSubcommandOptions | undefined, source: string): TCanvasDiagramInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    dryRun: options?.dryRun,
+    source,
+    format: (options?.format?.trim().toLowerCase() as TCanvasDiagramInput['format']) ?? inferDiagramFormat(options?.diagramFile),
+    x: parseOptionalNumber(options?.x),
+    y: parseOptionalNumber(options?.y),
+  };
+}
+
+function parseLayoutNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function buildTargetSelector(options: TCanvasSubcommandOptions | undefined, command: string): TSceneSelector | undefined {
+  try {
+    const { selector } = buildCanvasQueryInput({ ...options, output: undefined });
+    return selector && selector.source !== 'none' ? selector.filters : undefined;
+  } catch (error) {
+    // Arrange commands accept the same selector inputs as query, so selector errors keep their query codes.
+    if (typeof error === 'object' && error !== null && 'code' in error) throw { ...error, command };
+    throw error;
+  }
+}
+
+export function buildCanvasLayoutInput(options?: TCanvasSubcommandOptions): TCanvasLayoutInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    dryRun: options?.dryRun,
+    selector: buildTargetSelector(options, 'canvas.layout'),
+    algorithm: options?.algorithm?.trim().toLowerCase() as TCanvasLayoutInput['algorithm'],
+    direction: options?.direction?.trim().toUpperCase() as TCanvasLayoutInput['direction'],
+    gap: parseLayoutNumber(options?.gap),
+    columns: parseLayoutNumber(options?.columns),
+    x: parseLayoutNumber(options?.x),
+    y: parseLayoutNumber(options?.y),
+  };
+}
+
+export function buildCanvasAlignInput(options?: TCanvasSubcommandOptions): TCanvasAlignInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    dryRun: options?.dryRun,
+    selector: buildTargetSelector(options, 'canvas.align'),
+    mode: options?.mode?.trim().toLowerCase() as TCanvasAlignInput['mode'],
+  };
+}
+
+export function buildCanvasDistributeInput(options?: TCanvasSubcommandOptions): TCanvasDistributeInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    dryRun: options?.dryRun,
+    selector: buildTargetSelector(options, 'canvas.distribute'),
+    axis: options?.axis?.trim().toLowerCase() as TCanvasDistributeInput['axis'],
+  };
+}
+
+export function buildCanvasUndoInput(options?: TCanvasSubcommandOptions): TCanvasUndoInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    dryRun: options?.dryRun,
+  };
+}
+
+export function buildCanvasRedoInput(options?: TCanvasSubcommandOptions): TCanvasRedoInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    dryRun: options?.dryRun,
+  };
+}
+
+export function buildCanvasHistoryInput(options?: TCanvasSubcommandOptions): TCanvasHistoryInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    limit: options?.limit === undefined ? undefined : Number(options.limit),
+    windowSeconds: options?.window === undefined ? undefined : Number(options.window),
+  };
+}
+
+export function buildCanvasRestoreInput(options?: TCanvasSubcommandOptions): TCanvasRestoreInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    at: (options?.at ?? []).map((value) => value.trim()).filter(Boolean),
+    ids: options?.ids,
+    dryRun: options?.dryRun,
+  };
+}
+
+function parseHeadsOption(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(',').map((hash) => hash.trim()).filter(Boolean);
+}
+
+export function buildCanvasDiffInput(options?: TCanvasSubcommandOptions): TCanvasDiffInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    from: parseHeadsOption(options?.from),
+    to: parseHeadsOption(options?.to),
+    otherCanvasId: options?.otherCanvasId,
+    otherCanvasNameQuery: options?.otherCanvasNameQuery,
+  };
+}
+
+export function buildCanvasCreateInput(options?: TCanvasSubcommandOptions): TCanvasCreateInput {
+  return {
+    name: options?.name,
+  };
+}
+
+export function buildCanvasRenameInput(options?: TCanvasSubcommandOptions): TCanvasRenameInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    name: options?.name,
+  };
+}
+
+export function buildCanvasRemoveInput(options?: TCanvasSubcommandOptions): TCanvasRemoveInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+  };
+}
+
+export function buildCanvasDuplicateInput(options?: TCanvasSubcommandOptions): TCanvasDuplicateInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    name: options?.name,
+  };
+}
+
+export function buildCanvasForkInput(options?: TCanvasSubcommandOptions): TCanvasForkInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    name: options?.name,
+  };
+}
+
+export function buildCanvasMergeInput(options?: TCanvasSubcommandOptions): TCanvasMergeInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    intoCanvasId: options?.intoCanvasId,
+    intoCanvasNameQuery: options?.intoCanvasNameQuery,
+    dryRun: options?.dryRun,
+  };
+}
+
+export function buildCanvasWatchInput(options?: TCanvasSubcommandOptions): TCanvasWatchInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    selector: buildTargetSelector(options, 'canvas.watch'),
+    since: parseHeadsOption(options?.since),
+    limit: options?.limit === undefined ? undefined : Number(options.limit),
+  };
+}
+
+export function buildCanvasExportDocInput(options: TCanvasSubcommandOptions | undefined, appVersion: string): TCanvasExportDocInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    appVersion,
+  };
+}
+
+export function buildCanvasImportDocInput(options: TCanvasSubcommandOptions | undefined, content: string): TCanvasImportDocInput {
+  return {
+    content,
+    name: options?.name,
+    dryRun: options?.dryRun,
+  };
+}
+
+export function buildCanvasSyncInput(options: TCanvasSubcommandOptions | undefined, path: string | undefined): TCanvasSyncInput {
+  return {
+    canvasId: options?.canvasId,
+    canvasNameQuery: options?.canvasNameQuery,
+    session: resolveSession(options),
+    path,
+    filesystemId: options?.filesystemId,
+    keep: options?.keep as TCanvasSyncKeep | undefined,
+    unbind: options?.unbind,
+    dryRun: options?.dryRun,
+  };
+}
@@ -7,7 +7,9 @@ import {
   zEllipseData,
   zGroup,
   zLineData,
+  zNoteData,
   zRectData,
+  zStickyData,
   zTextData,
 } from '@vibecanvas/service-automerge/types/canvas-doc.zod';
 
@@ -37,6 +39,8 @@ const SCHEMA_BLOCKS: Record<TSchemaDocKey, TSchemaBlock[]> = {
     { key: 'text', title: 'Text data', schemaName: 'zTextData', schema: zTextData },
     { key: 'line', title: 'Line data', schemaName: 'zLineData', schema: zLineData },
     { key: 'arrow', title: 'Arrow data', schemaName: 'zArrowData', schema: zArrowData },
+    { key: 'sticky', title: 'Sticky note data', schemaName: 'zStickyData', schema: zStickyData },
+    { key: 'note', title: 'Markdown note data', schemaName: 'zNoteData', schema: zNoteData },
   ],
   patch: [
     { key: 'base', title: 'Element patchable top-level fields come from', schemaName: 'zBaseElement', schema: zBaseElement },
@@ -47,6 +51,8 @@ const SCHEMA_BLOCKS: Record<TSchemaDocKey, TSchemaBlock[]> = {
     { key: 'text', title: 'Text data patch fields come from', schemaName: 'zTextData', schema: zTextData },
     { key: 'line', title: 'Line data patch fields come from', schemaName: 'zLineData', schema: zLineData },
     { key: 'arrow', title: 'Arrow data patch fields come from', schemaName: 'zArrowData', schema: zArrowData },
+    { key: 'sticky', title: 'Sticky note data patch fields come from', schemaName: 'zStickyData', schema: zStickyData },
+    { key: 'note', title: 'Markdown note data patch fields come from', schemaName: 'zNoteData', schema: zNoteData },
     { key: 'group', title: 'Group patch fields come from', schemaName: 'zGroup', schema: zGroup },
   ],
 };
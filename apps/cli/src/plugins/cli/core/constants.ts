@@ -1,3 +1,3 @@
-export const CANVAS_SUBCOMMANDS = ['list', 'query', 'add', 'patch', 'move', 'group', 'ungroup', 'delete', 'reorder'] as const
+export const CANVAS_SUBCOMMANDS = ['list', 'query', 'add', 'patch', 'move', 'group', 'ungroup', 'delete', 'reorder', 'connect', 'export', 'import', 'export-doc', 'import-doc', 'diagram', 'layout', 'align', 'distribute', 'undo', 'redo', 'history', 'restore', 'diff', 'create', 'rename', 'remove', 'duplicate', 'fork', 'merge', 'watch', 'sync'] as const
 
 export const CANVAS_SUBCOMMAND_SET = new Set<string>(CANVAS_SUBCOMMANDS)
@@ -61,7 +61,7 @@ function fnBuildPatchHint(message: string): Pick<TCliErrorPayload, 'hint' | 'nex
 }
 
 export function fnBuildUnknownCommandError(scope: 'root' | 'canvas', input: string | undefined): TCliErrorPayload {
-  const candidates = scope === 'canvas' ? [...CANVAS_SUBCOMMANDS] : ['serve', 'upgrade', 'canvas', ...CANVAS_SUBCOMMANDS];
+  const candidates = scope === 'canvas' ? [...CANVAS_SUBCOMMANDS] : ['serve', 'upgrade', 'canvas', 'backup', ...CANVAS_SUBCOMMANDS];
   const suggestion = fnFindClosestSuggestion(input, candidates);
 
   return {
@@ -108,7 +108,7 @@ function fnNormalizeCommandError(error: unknown): TCliErrorPayload {
   }
 
   if (!normalized.hint && normalized.command === 'canvas.add' && normalized.code === 'CANVAS_ADD_SHORTHAND_INVALID') {
-    normalized.hint = 'Use strict shorthand grammar only: rect x,y,w,h; ellipse x,y,rx,ry; diamond x,y,w,h; text x,y,text; line/arrow x,y,x2,y2.';
+    normalized.hint = 'Use strict shorthand grammar only: rect x,y,w,h; ellipse x,y,rx,ry; diamond x,y,w,h; text x,y,text; line/arrow x,y,x2,y2; sticky x,y,text; markdown x,y,markdown; note x,y,markdown.';
     normalized.next = 'Try: vibecanvas add --canvas <canvas-id> --text 40,20,hello --json';
   }
 
@@ -137,6 +137,156 @@ function fnNormalizeCommandError(error: unknown): TCliErrorPayload {
     normalized.next = 'Remove extra patch source flags and retry.';
   }
 
+  if (!normalized.hint && normalized.command === 'canvas.connect' && (normalized.code === 'CANVAS_CONNECT_SOURCE_REQUIRED' || normalized.code === 'CANVAS_CONNECT_TARGET_REQUIRED')) {
+    normalized.hint = 'Pass both endpoints: --from <source-id> and --to <target-id>.';
+    normalized.next = 'Try: vibecanvas connect --canvas <canvas-id> --from <source-id> --to <target-id> --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.connect' && (normalized.code === 'CANVAS_CONNECT_SOURCE_INVALID' || normalized.code === 'CANVAS_CONNECT_TARGET_INVALID' || normalized.code === 'CANVAS_CONNECT_SOURCE_NOT_FOUND' || normalized.code === 'CANVAS_CONNECT_TARGET_NOT_FOUND')) {
+    normalized.hint = 'Endpoints must be element ids of shapes, text, images, or widgets.';
+    normalized.next = 'Try: vibecanvas query --canvas <canvas-id> --kind element --output summary --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.export' && (normalized.code === 'CANVAS_EXPORT_FORMAT_INVALID' || normalized.code === 'CANVAS_EXPORT_SCALE_INVALID' || normalized.code === 'CANVAS_EXPORT_PADDING_INVALID')) {
+    normalized.hint = 'Use --format svg|png|excalidraw|json-canvas, a --scale between 0 and 8, and a --padding of 0 or more.';
+    normalized.next = 'Try: vibecanvas export --canvas <canvas-id> --format png --scale 2 --out ./canvas.png';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.export' && normalized.code === 'CANVAS_EXPORT_OUT_REQUIRED') {
+    normalized.hint = 'PNG bytes are not written to a terminal.';
+    normalized.next = 'Try: vibecanvas export --canvas <canvas-id> --format png --out ./canvas.png';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.export' && (normalized.code === 'CANVAS_EXPORT_TARGET_NOT_FOUND' || normalized.code === 'CANVAS_EXPORT_EMPTY')) {
+    normalized.hint = 'Export needs at least one existing element or group id on the selected canvas.';
+    normalized.next = 'Try: vibecanvas query --canvas <canvas-id> --output summary --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.import' && (normalized.code === 'CANVAS_IMPORT_FILE_REQUIRED' || normalized.code === 'CANVAS_IMPORT_FILE_UNREADABLE' || normalized.code === 'CANVAS_IMPORT_CONTENT_INVALID')) {
+    normalized.hint = 'Import reads one .excalidraw file saved from Excalidraw (File > Save to disk) or one JSON Canvas .canvas file from an Obsidian vault.';
+    normalized.next = 'Try: vibecanvas import --file ./diagram.excalidraw --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.import' && (normalized.code === 'CANVAS_IMPORT_TARGET_CONFLICT' || normalized.code === 'CANVAS_IMPORT_NAME_CONFLICT')) {
+    normalized.hint = 'Use --canvas/--canvas-name to import into an existing canvas, or --name with an unused name to create one.';
+    normalized.next = 'Try: vibecanvas import --file ./diagram.excalidraw --name "Imported diagram" --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.diagram' && (normalized.code === 'CANVAS_DIAGRAM_SOURCE_REQUIRED' || normalized.code === 'CANVAS_DIAGRAM_SOURCE_CONFLICT' || normalized.code === 'CANVAS_DIAGRAM_FILE_UNREADABLE')) {
+    normalized.hint = 'Pass exactly one diagram source: --diagram, --diagram-file, or --diagram-stdin.';
+    normalized.next = "Try: vibecanvas diagram --canvas <canvas-id> --diagram 'flowchart LR; A --> B' --dry-run --json";
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.diagram' && (normalized.code === 'CANVAS_DIAGRAM_PARSE_FAILED' || normalized.code === 'CANVAS_DIAGRAM_EMPTY' || normalized.code === 'CANVAS_DIAGRAM_FORMAT_INVALID')) {
+    normalized.hint = 'Diagram accepts Mermaid flowchart/graph source or Graphviz graph/digraph source with at least one node.';
+    normalized.next = 'Try: vibecanvas diagram --help';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.layout' && normalized.code === 'CANVAS_LAYOUT_SELECTOR_REQUIRED') {
+    normalized.hint = 'Layout needs target selectors such as --id, --type, --group, --subtree, --frame, --bounds, --where, or --query.';
+    normalized.next = 'Try: vibecanvas layout --canvas <canvas-id> --type rect --algorithm grid --dry-run --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.layout' && (normalized.code === 'CANVAS_LAYOUT_ALGORITHM_INVALID' || normalized.code === 'CANVAS_LAYOUT_OPTION_INVALID')) {
+    normalized.hint = 'Use --algorithm grid|row|column|tree|layered, --direction TB|BT|LR|RL, a --gap of 0 or more, a positive --columns, and --x with --y.';
+    normalized.next = 'Try: vibecanvas layout --help';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.layout' && normalized.code === 'CANVAS_LAYOUT_EMPTY') {
+    normalized.hint = 'Bound connectors and attached text follow their targets; select the shapes or groups they connect instead.';
+    normalized.next = 'Try: vibecanvas query --canvas <canvas-id> --output summary --json';
+  }
+
+  if (!normalized.hint && (normalized.command === 'canvas.align' || normalized.command === 'canvas.distribute') && (normalized.code === 'CANVAS_ALIGN_SELECTOR_REQUIRED' || normalized.code === 'CANVAS_DISTRIBUTE_SELECTOR_REQUIRED')) {
+    normalized.hint = 'Pass target selectors such as --id, --type, --group, --subtree, --frame, --bounds, --where, or --query.';
+    normalized.next = 'Try: vibecanvas align --canvas <canvas-id> --id <id> --id <id> --mode left --dry-run --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.align' && normalized.code === 'CANVAS_ALIGN_MODE_INVALID') {
+    normalized.hint = 'Use --mode left|center|right|top|middle|bottom.';
+    normalized.next = 'Try: vibecanvas align --help';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.distribute' && normalized.code === 'CANVAS_DISTRIBUTE_AXIS_INVALID') {
+    normalized.hint = 'Use --axis horizontal|vertical.';
+    normalized.next = 'Try: vibecanvas distribute --help';
+  }
+
+  if (!normalized.hint && (normalized.code === 'CANVAS_ALIGN_TOO_FEW' || normalized.code === 'CANVAS_DISTRIBUTE_TOO_FEW')) {
+    normalized.hint = 'Align needs 2 or more shapes or groups and distribute needs 3 or more; bound connectors and attached text do not count.';
+    normalized.next = 'Try: vibecanvas query --canvas <canvas-id> --output summary --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.undo' && normalized.code === 'CANVAS_UNDO_EMPTY') {
+    normalized.hint = 'Undo only reverts changes recorded under the same session; pass the --session (or VIBECANVAS_SESSION) the edits were made with.';
+    normalized.next = 'Try: vibecanvas canvas undo --canvas <canvas-id> --session <id> --dry-run --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.redo' && normalized.code === 'CANVAS_REDO_EMPTY') {
+    normalized.hint = 'Run canvas undo first; a new mutation from the same session clears the redo stack.';
+    normalized.next = 'Try: vibecanvas canvas undo --canvas <canvas-id> --session <id> --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.restore' && (normalized.code === 'CANVAS_RESTORE_AT_REQUIRED' || normalized.code === 'CANVAS_RESTORE_AT_INVALID' || normalized.code === 'CANVAS_RESTORE_AT_NOT_FOUND')) {
+    normalized.hint = 'Pass the at= heads of one canvas history entry of the same canvas to --at.';
+    normalized.next = 'Try: vibecanvas canvas history --canvas <canvas-id> --limit 10';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.diff' && (normalized.code === 'CANVAS_DIFF_FROM_REQUIRED' || normalized.code === 'CANVAS_DIFF_HEADS_INVALID' || normalized.code === 'CANVAS_DIFF_HEADS_NOT_FOUND')) {
+    normalized.hint = 'Pass the at= heads of canvas history entries of the same canvas to --from and --to, or compare with --other-canvas.';
+    normalized.next = 'Try: vibecanvas canvas history --canvas <canvas-id> --limit 10';
+  }
+
+  if (!normalized.hint && (normalized.code === 'CANVAS_DUPLICATE_NAME_CONFLICT' || normalized.code === 'CANVAS_FORK_NAME_CONFLICT' || normalized.code === 'CANVAS_IMPORT_DOC_NAME_CONFLICT')) {
+    normalized.hint = 'Pass a --name no other canvas uses, or omit it to get a numbered default name.';
+    normalized.next = 'Try: vibecanvas canvas list --json';
+  }
+
+  if (!normalized.hint && (normalized.code === 'CANVAS_CREATE_NAME_REQUIRED' || normalized.code === 'CANVAS_CREATE_NAME_CONFLICT' || normalized.code === 'CANVAS_RENAME_NAME_REQUIRED' || normalized.code === 'CANVAS_RENAME_NAME_CONFLICT')) {
+    normalized.hint = 'Canvas names are unique; pass a --name no other canvas uses.';
+    normalized.next = 'Try: vibecanvas canvas list --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.remove' && normalized.code === 'CANVAS_REMOVE_CONFIRMATION_REQUIRED') {
+    normalized.hint = 'Removing a canvas deletes it with its history; without a terminal to confirm, pass --force.';
+    normalized.next = 'Try: vibecanvas canvas remove --canvas <canvas-id> --force --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.import-doc' && (normalized.code === 'CANVAS_IMPORT_DOC_CONTENT_INVALID' || normalized.code === 'CANVAS_IMPORT_DOC_DOCUMENT_INVALID')) {
+    normalized.hint = 'import-doc reads one .vibecanvas file written by canvas export-doc; use canvas import for .excalidraw files.';
+    normalized.next = 'Try: vibecanvas canvas export-doc --canvas <canvas-id> --out ./canvas.vibecanvas';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.merge' && (normalized.code === 'CANVAS_MERGE_TARGET_REQUIRED' || normalized.code === 'CANVAS_MERGE_UNRELATED')) {
+    normalized.hint = 'Only forks merge: select a canvas made with canvas fork, or pass --into with a canvas that shares its history.';
+    normalized.next = 'Try: vibecanvas canvas fork --canvas <canvas-id> --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.sync' && normalized.code === 'CANVAS_SYNC_NOT_BOUND') {
+    normalized.hint = 'Bind the canvas to a JSON file first; later syncs reuse the binding.';
+    normalized.next = 'Try: vibecanvas canvas sync --canvas <canvas-id> --path ./boards/canvas.json';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.sync' && (normalized.code === 'CANVAS_SYNC_FILE_INVALID' || normalized.code === 'CANVAS_SYNC_KEEP_INVALID')) {
+    normalized.hint = 'Fix the file by hand, or pass --keep canvas to overwrite it with the canvas.';
+    normalized.next = 'Try: vibecanvas canvas sync --canvas <canvas-id> --keep canvas --dry-run';
+  }
+
+  if (!normalized.hint && normalized.command === 'canvas.watch' && (normalized.code === 'CANVAS_WATCH_SINCE_INVALID' || normalized.code === 'CANVAS_WATCH_SINCE_NOT_FOUND')) {
+    normalized.hint = 'Pass --since the comma-separated heads printed by canvas history or by an earlier watch ready event.';
+    normalized.next = 'Try: vibecanvas canvas history --canvas <canvas-id> --limit 1 --json';
+  }
+
+  if (!normalized.hint && normalized.command === 'backup.restore' && (normalized.code === 'BACKUP_FILE_REQUIRED' || normalized.code === 'BACKUP_FILE_UNREADABLE' || normalized.code === 'BACKUP_MANIFEST_MISSING' || normalized.code === 'BACKUP_MANIFEST_INVALID')) {
+    normalized.hint = 'Restore reads one .tar.gz archive written by vibecanvas backup.';
+    normalized.next = 'Try: vibecanvas backup list';
+  }
+
+  if (!normalized.hint && normalized.command === 'backup.restore' && normalized.code === 'BACKUP_CONFLICT_MODE_INVALID') {
+    normalized.hint = 'Use --on-conflict skip|rename|replace|merge.';
+    normalized.next = 'Try: vibecanvas backup restore --file <archive> --on-conflict rename --dry-run';
+  }
+
   if (!normalized.hint && normalized.code === 'DB_FLAG_MISSING_VALUE') {
     normalized.hint = 'Pass one SQLite file path right after --db.';
     normalized.next = 'Try: vibecanvas canvas list --db ./tmp/vibecanvas.sqlite --json';
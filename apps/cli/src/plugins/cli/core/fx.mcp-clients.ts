@@ -0,0 +1,68 @@
+import { createORPCClient } from '@orpc/client';
+import { RPCLink as FetchRPCLink } from '@orpc/client/fetch';
+import { RPCLink as WebSocketRPCLink } from '@orpc/client/websocket';
+import { createRouterClient } from '@orpc/server';
+import { baseCanvasCmdOs, canvasCmdHandlers } from '@vibecanvas/api-canvas-cmd/handlers';
+import type { ICliConfig } from '@vibecanvas/cli/config';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import type { IEventPublisherService } from '@vibecanvas/service-event-publisher/IEventPublisherService';
+import type { IFilesystemService } from '@vibecanvas/service-filesystem/IFilesystemService';
+import type { IPtyService } from '@vibecanvas/service-pty/IPtyService';
+import { baseOs } from '../../orpc/orpc.base';
+import { router } from '../../orpc/router';
+import type { TCanvasCmdClient } from './fn.build-rpc-link';
+import { fxDiscoverLocalCanvasServer } from './fx.canvas.server-discovery';
+import type { TApiClient, TMcpToolClients } from './mcp.tools';
+
+export type TMcpServices = {
+  automerge: IAutomergeService;
+  db: IDbService;
+  eventPublisher: IEventPublisherService;
+  filesystem: IFilesystemService;
+  pty: IPtyService;
+};
+
+export type TMcpClientsLease = {
+  clients: TMcpToolClients;
+  release: () => void;
+};
+
+/**
+ * Resolves clients for one tool call. Like the canvas commands, a running server is preferred so
+ * open browsers see the changes live and terminals outlive this process; `--db` always stays local.
+ */
+export async function fxLeaseMcpClients(services: TMcpServices, config: ICliConfig, session: string | undefined): Promise<TMcpClientsLease> {
+  const serverHealth = config.rawArgv.includes('--db') ? null : await fxDiscoverLocalCanvasServer({ bun: Bun }, { config });
+
+  if (!serverHealth) {
+    const context = { ...services, requestId: crypto.randomUUID() };
+    return {
+      clients: {
+        canvas: createRouterClient(baseCanvasCmdOs.router(canvasCmdHandlers), { context }) as TCanvasCmdClient,
+        api: (createRouterClient(baseOs.router(router), { context }) as TApiClient).api,
+        session,
+      },
+      release: () => {},
+    };
+  }
+
+  let websocket: WebSocket | null = null;
+  let api: TApiClient['api'] | null = null;
+
+  return {
+    clients: {
+      canvas: createORPCClient(new FetchRPCLink({ url: `http://localhost:${serverHealth.port}/rpc` })),
+      // Opened on first use so canvas-only calls do not pay for a socket.
+      get api() {
+        if (!api) {
+          websocket = new WebSocket(`ws://localhost:${serverHealth.port}/api`);
+          api = createORPCClient<TApiClient>(new WebSocketRPCLink({ websocket })).api;
+        }
+        return api;
+      },
+      session,
+    },
+    release: () => websocket?.close(),
+  };
+}
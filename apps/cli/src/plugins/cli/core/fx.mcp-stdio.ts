@@ -0,0 +1,185 @@
+import { isCanvasCmdErrorDetails } from '@vibecanvas/api-canvas-cmd/cmd.error';
+import { z } from 'zod';
+import type { TMcpClientsLease } from './fx.mcp-clients';
+import type { TMcpTool } from './mcp.tools';
+
+/** Newest first; a client asking for an unknown version is answered with the newest. */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const JSON_RPC_PARSE_ERROR = -32700;
+const JSON_RPC_INVALID_REQUEST = -32600;
+const JSON_RPC_METHOD_NOT_FOUND = -32601;
+const JSON_RPC_INVALID_PARAMS = -32602;
+const JSON_RPC_INTERNAL_ERROR = -32603;
+
+type TJsonRpcId = string | number | null;
+
+type TJsonRpcRequest = {
+  jsonrpc: '2.0';
+  id?: TJsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+export type TJsonRpcResponse =
+  | { jsonrpc: '2.0'; id: TJsonRpcId; result: Record<string, unknown> }
+  | { jsonrpc: '2.0'; id: TJsonRpcId; error: { code: number; message: string } };
+
+export type TMcpServerOptions = {
+  serverInfo: { name: string; version: string };
+  instructions?: string;
+  tools: TMcpTool[];
+  leaseClients: () => Promise<TMcpClientsLease>;
+};
+
+export type TMcpStdioPortal = {
+  stdin: AsyncIterable<Uint8Array | string>;
+  stdout: { write: (chunk: string) => unknown };
+};
+
+function isJsonRpcRequest(message: unknown): message is TJsonRpcRequest {
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) return false;
+  const candidate = message as Partial<TJsonRpcRequest>;
+  return candidate.jsonrpc === '2.0'
+    && typeof candidate.method === 'string'
+    && (candidate.params === undefined || (typeof candidate.params === 'object' && candidate.params !== null));
+}
+
+function readRequestId(message: unknown): TJsonRpcId {
+  if (typeof message !== 'object' || message === null || !('id' in message)) return null;
+  const id = (message as { id: unknown }).id;
+  return typeof id === 'string' || typeof id === 'number' ? id : null;
+}
+
+function errorResponse(id: TJsonRpcId, code: number, message: string): TJsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function toolResult(payload: unknown, isError: boolean): Record<string, unknown> {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(payload ?? null, null, 2) }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+function normalizeToolError(error: unknown): Record<string, unknown> {
+  if (isCanvasCmdErrorDetails(error)) return error;
+  if (typeof error === 'object' && error !== null) {
+    const { data, cause } = error as { data?: unknown; cause?: unknown };
+    if (isCanvasCmdErrorDetails(data)) return data;
+    if (isCanvasCmdErrorDetails(cause)) return cause;
+  }
+  return {
+    ok: false,
+    code: typeof (error as { code?: unknown })?.code === 'string' ? (error as { code: string }).code : 'MCP_TOOL_FAILED',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+async function callTool(options: TMcpServerOptions, tool: TMcpTool, args: unknown): Promise<Record<string, unknown>> {
+  const parsed = tool.inputSchema.safeParse(args ?? {});
+  if (!parsed.success) {
+    return toolResult({ ok: false, code: 'MCP_TOOL_INPUT_INVALID', message: z.prettifyError(parsed.error) }, true);
+  }
+
+  const lease = await options.leaseClients();
+  try {
+    return toolResult(await tool.call(lease.clients, parsed.data), false);
+  } catch (error) {
+    return toolResult(normalizeToolError(error), true);
+  } finally {
+    lease.release();
+  }
+}
+
+async function dispatch(options: TMcpServerOptions, request: TJsonRpcRequest): Promise<Record<string, unknown>> {
+  switch (request.method) {
+    case 'initialize': {
+      const requested = request.params?.protocolVersion;
+      return {
+        protocolVersion: typeof requested === 'string' && MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: options.serverInfo,
+        ...(options.instructions ? { instructions: options.instructions } : {}),
+      };
+    }
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return {
+        tools: options.tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: z.toJSONSchema(tool.inputSchema, { io: 'input', unrepresentable: 'any' }),
+        })),
+      };
+    case 'tools/call': {
+      const name = request.params?.name;
+      const tool = options.tools.find((candidate) => candidate.name === name);
+      if (!tool) throw errorResponse(request.id ?? null, JSON_RPC_INVALID_PARAMS, `Unknown tool '${String(name)}'.`);
+      return callTool(options, tool, request.params?.arguments);
+    }
+    default:
+      throw errorResponse(request.id ?? null, JSON_RPC_METHOD_NOT_FOUND, `Method '${request.method}' is not supported.`);
+  }
+}
+
+/**
+ * Answers one JSON-RPC message. Returns null for notifications, which get no response,
+ * including the `notifications/initialized` and `notifications/cancelled` clients send.
+ */
+export async function fxHandleMcpMessage(options: TMcpServerOptions, message: unknown): Promise<TJsonRpcResponse | null> {
+  if (!isJsonRpcRequest(message)) {
+    return errorResponse(readRequestId(message), JSON_RPC_INVALID_REQUEST, 'Expected a JSON-RPC 2.0 request object.');
+  }
+
+  const isNotification = message.id === undefined;
+  try {
+    const result = await dispatch(options, message);
+    return isNotification ? null : { jsonrpc: '2.0', id: message.id ?? null, result };
+  } catch (error) {
+    if (isNotification) return null;
+    if (typeof error === 'object' && error !== null && 'jsonrpc' in error) return error as TJsonRpcResponse;
+    return errorResponse(message.id ?? null, JSON_RPC_INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Serves MCP over newline-delimited JSON-RPC until stdin closes. Requests are answered as they
+ * finish, so a slow tool call does not hold up pings or other calls.
+ */
+export async function fxServeMcpStdio(portal: TMcpStdioPortal, options: TMcpServerOptions): Promise<void> {
+  const decoder = new TextDecoder();
+  const pending = new Set<Promise<void>>();
+  let buffered = '';
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      portal.stdout.write(`${JSON.stringify(errorResponse(null, JSON_RPC_PARSE_ERROR, 'Invalid JSON.'))}\n`);
+      return;
+    }
+
+    const task = fxHandleMcpMessage(options, message).then((response) => {
+      if (response) portal.stdout.write(`${JSON.stringify(response)}\n`);
+    });
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  };
+
+  for await (const chunk of portal.stdin) {
+    buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let newline = buffered.indexOf('\n');
+    while (newline !== -1) {
+      handleLine(buffered.slice(0, newline));
+      buffered = buffered.slice(newline + 1);
+      newline = buffered.indexOf('\n');
+    }
+  }
+  handleLine(buffered + decoder.decode());
+
+  await Promise.all(pending);
+}
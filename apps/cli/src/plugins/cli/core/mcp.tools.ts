@@ -0,0 +1,268 @@
+import type { ContractRouterClient } from '@orpc/contract';
+import { filesystemContract } from '@vibecanvas/api-filesystem/contract';
+import { ptyContract } from '@vibecanvas/api-pty/contract';
+import type { TCanvasAddInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.add';
+import type { TCanvasDeleteInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.delete';
+import type { TCanvasGroupInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.group';
+import type { TCanvasMoveInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.move';
+import type { TCanvasPatchInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.patch';
+import type { TCanvasQueryInput } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.query';
+import type { TCanvasReorderInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.reorder';
+import type { TCanvasUngroupInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.ungroup';
+import { z } from 'zod';
+import type { apiContract } from '../../orpc/orpc.base';
+import type { TCanvasCmdClient } from './fn.build-rpc-link';
+
+export type TApiClient = ContractRouterClient<typeof apiContract>;
+
+export type TMcpToolClients = {
+  canvas: TCanvasCmdClient;
+  api: TApiClient['api'];
+  /** Undo session recorded on canvas mutations that do not pass their own. */
+  session?: string;
+};
+
+export type TMcpTool = {
+  name: string;
+  description: string;
+  inputSchema: z.ZodType;
+  call: (clients: TMcpToolClients, input: unknown) => Promise<unknown>;
+};
+
+function defineTool<TSchema extends z.ZodType>(tool: {
+  name: string;
+  description: string;
+  inputSchema: TSchema;
+  call: (clients: TMcpToolClients, input: z.output<TSchema>) => Promise<unknown>;
+}): TMcpTool {
+  return tool as TMcpTool;
+}
+
+/** The filesystem and pty contracts already validate with zod, so their tools reuse those schemas. */
+function contractInputSchema<TSchema extends z.ZodType>(procedure: { '~orpc': { inputSchema?: TSchema } }): TSchema {
+  const schema = procedure['~orpc'].inputSchema;
+  if (!schema) throw new Error('Contract procedure has no input schema.');
+  return schema;
+}
+
+const zCanvasTarget = {
+  canvasId: z.string().nullable().optional().describe('Exact canvas id from canvas_list. Pass this or canvasNameQuery.'),
+  canvasNameQuery: z.string().nullable().optional().describe('Unique case-insensitive substring of the canvas name.'),
+};
+
+const zCanvasMutation = {
+  ...zCanvasTarget,
+  session: z.string().nullable().optional().describe('Undo session to record the change under.'),
+  dryRun: z.boolean().optional().describe('Validate and preview without changing the canvas.'),
+};
+
+const zTargetIds = z.array(z.string()).describe('Exact element or group ids.');
+const zFields = z.record(z.string(), z.unknown());
+
+const zCanvasQueryInput = z.object({
+  selector: z.object({
+    ...zCanvasTarget,
+    filters: z.object({
+      ids: z.array(z.string()).optional(),
+      kinds: z.array(z.enum(['element', 'group'])).optional(),
+      types: z.array(z.string()).optional().describe('Element types such as rect, text, arrow.'),
+      style: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])).optional().describe('Exact style field matches.'),
+      group: z.string().nullable().optional().describe('Direct children of this group id.'),
+      subtree: z.string().nullable().optional().describe('Every descendant of this group id.'),
+      frame: z.string().nullable().optional().describe('Elements adopted by this frame id.'),
+      bounds: z.object({ x: z.number(), y: z.number(), w: z.number(), h: z.number() }).nullable().optional(),
+      boundsMode: z.enum(['intersects', 'contains']).optional(),
+    }).optional().describe('All given filters must match; no filters matches everything.'),
+  }),
+  output: z.enum(['summary', 'focused', 'full']).optional(),
+  omitData: z.boolean().optional(),
+  omitStyle: z.boolean().optional(),
+}) satisfies z.ZodType<TCanvasQueryInput>;
+
+const zCanvasAddInput = z.object({
+  ...zCanvasMutation,
+  elements: z.array(z.object({
+    type: z.enum(['rect', 'ellipse', 'diamond', 'text', 'line', 'arrow', 'sticky', 'note']),
+    x: z.number().optional(),
+    y: z.number().optional(),
+    rotation: z.number().optional(),
+    parentGroupId: z.string().nullable().optional(),
+    locked: z.boolean().optional(),
+    data: zFields.optional().describe('Type-specific fields: rect/diamond {w,h}, ellipse {rx,ry}, text {text or markdown,fontSize}, note {markdown,w,h}, line/arrow {points}. Missing fields use defaults.'),
+    style: zFields.optional().describe('Style fields such as backgroundColor, strokeColor, strokeWidth, opacity.'),
+  })).min(1),
+}) satisfies z.ZodType<TCanvasAddInput>;
+
+const zCanvasPatchInput = z.object({
+  ...zCanvasMutation,
+  ids: zTargetIds,
+  patch: z.object({
+    element: z.object({
+      x: z.number().optional(),
+      y: z.number().optional(),
+      rotation: z.number().optional(),
+      zIndex: z.string().optional(),
+      parentGroupId: z.string().nullable().optional(),
+      locked: z.boolean().optional(),
+      data: zFields.optional(),
+      style: zFields.optional(),
+    }).optional(),
+    group: z.object({
+      parentGroupId: z.string().nullable().optional(),
+      zIndex: z.string().optional(),
+      locked: z.boolean().optional(),
+    }).optional(),
+  }).describe('Fields to set on matched elements and groups; data and style are merged into the existing values.'),
+}) satisfies z.ZodType<TCanvasPatchInput>;
+
+const zCanvasMoveInput = z.object({
+  ...zCanvasMutation,
+  ids: zTargetIds,
+  mode: z.enum(['relative', 'absolute']).describe('relative moves by x/y; absolute moves one target to x/y.'),
+  x: z.number(),
+  y: z.number(),
+}) satisfies z.ZodType<TCanvasMoveInput>;
+
+const zCanvasGroupInput = z.object({ ...zCanvasMutation, ids: zTargetIds }) satisfies z.ZodType<TCanvasGroupInput>;
+const zCanvasUngroupInput = z.object({ ...zCanvasMutation, ids: zTargetIds }) satisfies z.ZodType<TCanvasUngroupInput>;
+const zCanvasDeleteInput = z.object({ ...zCanvasMutation, ids: zTargetIds }) satisfies z.ZodType<TCanvasDeleteInput>;
+
+const zCanvasReorderInput = z.object({
+  ...zCanvasTarget,
+  session: zCanvasMutation.session,
+  ids: zTargetIds,
+  action: z.enum(['front', 'back', 'forward', 'backward']),
+}) satisfies z.ZodType<TCanvasReorderInput>;
+
+function withSession<TInput extends { session?: string | null }>(clients: TMcpToolClients, input: TInput): TInput {
+  return { ...input, session: input.session ?? clients.session };
+}
+
+export const MCP_TOOLS: TMcpTool[] = [
+  defineTool({
+    name: 'canvas_list',
+    description: 'List canvases with their ids, names, and creation times.',
+    inputSchema: z.object({}),
+    call: (clients) => clients.canvas.list(),
+  }),
+  defineTool({
+    name: 'canvas_query',
+    description: 'Find elements and groups on one canvas by id, kind, type, style, group, or bounds. Readonly.',
+    inputSchema: zCanvasQueryInput,
+    call: (clients, input) => clients.canvas.query(input),
+  }),
+  defineTool({
+    name: 'canvas_add',
+    description: 'Add rect, ellipse, diamond, text, line, arrow, sticky note, or markdown note elements to one canvas.',
+    inputSchema: zCanvasAddInput,
+    call: (clients, input) => clients.canvas.add(withSession(clients, input)),
+  }),
+  defineTool({
+    name: 'canvas_patch',
+    description: 'Update fields of explicit element and group ids.',
+    inputSchema: zCanvasPatchInput,
+    call: (clients, input) => clients.canvas.patch(withSession(clients, input)),
+  }),
+  defineTool({
+    name: 'canvas_move',
+    description: 'Move explicit element or group ids; groups move their descendant elements.',
+    inputSchema: zCanvasMoveInput,
+    call: (clients, input) => clients.canvas.move(withSession(clients, input)),
+  }),
+  defineTool({
+    name: 'canvas_group',
+    description: 'Group explicit element or group ids into a new group.',
+    inputSchema: zCanvasGroupInput,
+    call: (clients, input) => clients.canvas.group(withSession(clients, input)),
+  }),
+  defineTool({
+    name: 'canvas_ungroup',
+    description: 'Dissolve groups, keeping their children on the canvas.',
+    inputSchema: zCanvasUngroupInput,
+    call: (clients, input) => clients.canvas.ungroup(withSession(clients, input)),
+  }),
+  defineTool({
+    name: 'canvas_delete',
+    description: 'Permanently delete element or group ids; groups delete their descendants.',
+    inputSchema: zCanvasDeleteInput,
+    call: (clients, input) => clients.canvas.delete(withSession(clients, input)),
+  }),
+  defineTool({
+    name: 'canvas_reorder',
+    description: 'Change the stacking order of element or group ids.',
+    inputSchema: zCanvasReorderInput,
+    call: (clients, input) => clients.canvas.reorder(withSession(clients, input)),
+  }),
+  defineTool({
+    name: 'filesystem_home',
+    description: 'Return the home directory of a filesystem.',
+    inputSchema: contractInputSchema(filesystemContract.home),
+    call: (clients, input) => clients.api.filesystem.home(input),
+  }),
+  defineTool({
+    name: 'filesystem_list',
+    description: 'List the direct children of a directory.',
+    inputSchema: contractInputSchema(filesystemContract.list),
+    call: (clients, input) => clients.api.filesystem.list(input),
+  }),
+  defineTool({
+    name: 'filesystem_files',
+    description: 'Return the file tree below a directory, up to max_depth levels.',
+    inputSchema: contractInputSchema(filesystemContract.files),
+    call: (clients, input) => clients.api.filesystem.files(input),
+  }),
+  defineTool({
+    name: 'filesystem_inspect',
+    description: 'Return the kind, size, mime type, and permissions of a path.',
+    inputSchema: contractInputSchema(filesystemContract.inspect),
+    call: (clients, input) => clients.api.filesystem.inspect(input),
+  }),
+  defineTool({
+    name: 'filesystem_read',
+    description: 'Read a file as text or base64.',
+    inputSchema: contractInputSchema(filesystemContract.read),
+    call: (clients, input) => clients.api.filesystem.read(input),
+  }),
+  defineTool({
+    name: 'filesystem_write',
+    description: 'Write text content to a file, replacing it.',
+    inputSchema: contractInputSchema(filesystemContract.write),
+    call: (clients, input) => clients.api.filesystem.write(input),
+  }),
+  defineTool({
+    name: 'filesystem_move',
+    description: 'Move a file or directory into another directory.',
+    inputSchema: contractInputSchema(filesystemContract.move),
+    call: (clients, input) => clients.api.filesystem.move(input),
+  }),
+  defineTool({
+    name: 'pty_list',
+    description: 'List terminals running in a working directory.',
+    inputSchema: contractInputSchema(ptyContract.list),
+    call: (clients, input) => clients.api.pty.list(input),
+  }),
+  defineTool({
+    name: 'pty_create',
+    description: 'Start a terminal running a command in a working directory.',
+    inputSchema: contractInputSchema(ptyContract.create),
+    call: (clients, input) => clients.api.pty.create(input),
+  }),
+  defineTool({
+    name: 'pty_get',
+    description: 'Return one terminal, including its status and exit code.',
+    inputSchema: contractInputSchema(ptyContract.get),
+    call: (clients, input) => clients.api.pty.get(input),
+  }),
+  defineTool({
+    name: 'pty_update',
+    description: 'Rename or resize a terminal.',
+    inputSchema: contractInputSchema(ptyContract.update),
+    call: (clients, input) => clients.api.pty.update(input),
+  }),
+  defineTool({
+    name: 'pty_remove',
+    description: 'Stop and remove a terminal.',
+    inputSchema: contractInputSchema(ptyContract.remove),
+    call: (clients, input) => clients.api.pty.remove(input),
+  }),
+];
@@ -64,6 +64,8 @@ function createOrpcPlugin(): IPlugin<{ automerge: IAutomergeService; db: IDbServ
           context: {
             automerge,
             db,
+            eventPublisher,
+            filesystem,
             requestId: crypto.randomUUID(),
           },
         });
@@ -35,7 +35,7 @@ function setupServices(config: ICliConfig) {
 
   const shouldSetupStatefulServices = !config.helpRequested
     && !config.versionRequested
-    && (config.command === 'serve' || (config.command === 'canvas' && !isCanvasSchemaOnlyRequest(config)));
+    && (config.command === 'serve' || config.command === 'mcp' || config.command === 'backup' || (config.command === 'canvas' && !isCanvasSchemaOnlyRequest(config)));
 
   if (!shouldSetupStatefulServices) {
     return { services, eventPublisher };
@@ -33,6 +33,9 @@ describe('parseCliArgv command resolution', () => {
     expect(parseCliArgv(['bun', 'run', 'move'])).toMatchObject({ command: 'canvas', subcommand: 'move' });
     expect(parseCliArgv(['bun', 'run', 'list'])).toMatchObject({ command: 'canvas', subcommand: 'list' });
     expect(parseCliArgv(['bun', 'run', 'upgrade'])).toMatchObject({ command: 'upgrade', subcommand: undefined });
+    expect(parseCliArgv(['bun', 'run', 'mcp'])).toMatchObject({ command: 'mcp', subcommand: undefined });
+    expect(parseCliArgv(['bun', 'run', 'backup'])).toMatchObject({ command: 'backup', subcommand: undefined });
+    expect(parseCliArgv(['bun', 'run', 'backup', 'restore', '--on-conflict', 'rename'])).toMatchObject({ command: 'backup', subcommand: 'restore', subcommandOptions: { onConflict: 'rename' } });
   });
 
   test('treats leading flag as serve command', () => {
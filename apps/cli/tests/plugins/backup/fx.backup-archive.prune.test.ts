@@ -0,0 +1,30 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fnBackupArchiveName, fxListBackupArchives, fxPruneBackupArchives } from '../../../src/plugins/backup/fx.backup-archive';
+
+const fsPortal = { dirname, join, mkdir, readdir, readFile, rm, stat };
+
+describe('fxPruneBackupArchives', () => {
+  let dir!: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vibecanvas-backup-prune-'));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('deletes only the oldest scheduled archives beyond keep', async () => {
+    const names = [1, 2, 3].map((day) => fnBackupArchiveName(new Date(Date.UTC(2026, 0, day)), true));
+    const manual = fnBackupArchiveName(new Date(Date.UTC(2025, 11, 1)));
+    for (const name of [...names, manual]) await writeFile(join(dir, name), 'archive');
+
+    const pruned = await fxPruneBackupArchives(fsPortal, dir, 2);
+
+    expect(pruned).toEqual([join(dir, names[0]!)]);
+    const remaining = await fxListBackupArchives(fsPortal, dir);
+    expect(remaining.map((archive) => [archive.name, archive.scheduled])).toEqual([[names[2], true], [names[1], true], [manual, false]]);
+  });
+});
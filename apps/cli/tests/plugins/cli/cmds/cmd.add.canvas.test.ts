@@ -102,6 +102,64 @@ describe('canvas CLI add', () => {
     expect(textPayload.elements).toMatchObject([{ type: 'text' }]);
   });
 
+  test('adds sticky notes from shorthand signed with the author or session', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'add-sticky' });
+
+    const authored = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--sticky', '10,20,Ship it, then iterate', '--color', 'green', '--author', 'Planner', '--json']);
+    expectExitCode(authored, 0);
+    expectNoStderr(authored);
+    const authoredPayload = parseJsonStdout<TAddJson>(authored);
+    expect(authoredPayload.elements).toMatchObject([{ type: 'sticky' }]);
+
+    const session = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--sticky', '240,20,Ask the team', '--session', 'agent-7', '--json']);
+    expectExitCode(session, 0);
+    const sessionPayload = parseJsonStdout<TAddJson>(session);
+
+    const doc = await context.readCanvasDoc(seeded.automergeUrl);
+    expect(doc.elements[authoredPayload.addedIds[0]!]).toMatchObject({ x: 10, y: 20, data: { type: 'sticky', text: 'Ship it, then iterate', color: 'green', author: 'Planner', autoSize: 'grow' } });
+    expect(doc.elements[sessionPayload.addedIds[0]!]).toMatchObject({ data: { type: 'sticky', text: 'Ask the team', color: 'yellow', author: 'agent-7' } });
+
+    const badColor = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--sticky', '0,0,hi', '--color', 'teal', '--json']);
+    expectExitCode(badColor, 1);
+    expect(JSON.parse(badColor.stderr)).toMatchObject({ ok: false, command: 'canvas.add', code: 'CANVAS_ADD_STICKY_COLOR_INVALID' });
+  });
+
+  test('adds rich text from markdown shorthand with a plain-text fallback', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'add-markdown' });
+
+    const result = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--markdown', '10,20,## Plan\n- **ship**, then *iterate*', '--json']);
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    const payload = parseJsonStdout<TAddJson>(result);
+
+    const doc = await context.readCanvasDoc(seeded.automergeUrl);
+    expect(doc.elements[payload.addedIds[0]!]).toMatchObject({ x: 10, y: 20, data: { type: 'text', text: 'Plan\n• ship, then iterate', markdown: '## Plan\n- **ship**, then *iterate*' } });
+
+    const empty = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--markdown', '0,0, ', '--json']);
+    expectExitCode(empty, 1);
+    expect(JSON.parse(empty.stderr)).toMatchObject({ ok: false, command: 'canvas.add', code: 'CANVAS_ADD_SHORTHAND_INVALID' });
+  });
+
+  test('adds a markdown note widget from note shorthand', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'add-note' });
+    const markdown = '# Summary\n| Area | Status |\n|---|---|\n| cli, docs | done |\n\n```ts\nconst ok = true;\n```';
+
+    const result = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--note', `10,20,${markdown}`, '--json']);
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    const payload = parseJsonStdout<TAddJson>(result);
+
+    const doc = await context.readCanvasDoc(seeded.automergeUrl);
+    expect(doc.elements[payload.addedIds[0]!]).toMatchObject({ x: 10, y: 20, data: { type: 'note', markdown, isCollapsed: false, w: 420, h: 320 } });
+
+    const empty = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--note', '0,0', '--json']);
+    expectExitCode(empty, 1);
+    expect(JSON.parse(empty.stderr)).toMatchObject({ ok: false, command: 'canvas.add', code: 'CANVAS_ADD_SHORTHAND_INVALID' });
+  });
+
   test('rejects malformed shorthand payloads with tighter grammar', async () => {
     const context = await createContext();
     const seeded = await context.seedCanvasFixture({ name: 'add-bad-shorthand' });
@@ -113,7 +171,7 @@ describe('canvas CLI add', () => {
       ok: false,
       command: 'canvas.add',
       code: 'CANVAS_ADD_SHORTHAND_INVALID',
-      hint: 'Use strict shorthand grammar only: rect x,y,w,h; ellipse x,y,rx,ry; diamond x,y,w,h; text x,y,text; line/arrow x,y,x2,y2.',
+      hint: 'Use strict shorthand grammar only: rect x,y,w,h; ellipse x,y,rx,ry; diamond x,y,w,h; text x,y,text; line/arrow x,y,x2,y2; sticky x,y,text; markdown x,y,markdown; note x,y,markdown.',
     });
 
     const badText = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--text', '40,20,', '--json']);
@@ -83,6 +83,21 @@ describe('canvas add help examples stay executable', () => {
     expectNoStderr(shorthandText);
     expect(parseJsonStdout<TAddJson>(shorthandText)).toMatchObject({ ok: true, command: 'canvas.add', addedCount: 1 });
 
+    const shorthandSticky = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--sticky', '40,140,Try a dark theme', '--color', 'pink', '--json']);
+    expectExitCode(shorthandSticky, 0);
+    expectNoStderr(shorthandSticky);
+    expect(parseJsonStdout<TAddJson>(shorthandSticky)).toMatchObject({ ok: true, command: 'canvas.add', addedCount: 1 });
+
+    const shorthandMarkdown = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--markdown', '40,360,**Ship** it, see [docs](https://example.com)', '--json']);
+    expectExitCode(shorthandMarkdown, 0);
+    expectNoStderr(shorthandMarkdown);
+    expect(parseJsonStdout<TAddJson>(shorthandMarkdown)).toMatchObject({ ok: true, command: 'canvas.add', addedCount: 1 });
+
+    const shorthandNote = await context.runCanvasCli(['add', '--canvas', seeded.canvas.id, '--note', '480,40,# Summary\n- [x] importer', '--json']);
+    expectExitCode(shorthandNote, 0);
+    expectNoStderr(shorthandNote);
+    expect(parseJsonStdout<TAddJson>(shorthandNote)).toMatchObject({ ok: true, command: 'canvas.add', addedCount: 1, elements: [{ type: 'note' }] });
+
     const filePayload = parseJsonStdout<TAddJson>(fileResult);
     const shorthandRectPayload = parseJsonStdout<TAddJson>(shorthandRect);
     const shorthandTextPayload = parseJsonStdout<TAddJson>(shorthandText);
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createGroup, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TAlignJson = {
+  ok: true;
+  command: 'canvas.align';
+  dryRun: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  mode: 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+  matchedCount: number;
+  matchedIds: string[];
+  nodeCount: number;
+  moves: Array<{ id: string; kind: 'element' | 'group'; from: { x: number; y: number }; to: { x: number; y: number }; dx: number; dy: number }>;
+  changedCount: number;
+  changedIds: string[];
+  bounds: { x: number; y: number; w: number; h: number } | null;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI align', () => {
+  test('aligns matched shapes and groups to the selection edge in one change', async () => {
+    const context = await createContext();
+    const group = createGroup({ id: 'group-1' });
+    const elements = [
+      createRectElement({ id: 'a', x: 0, y: 0 }),
+      createRectElement({ id: 'b', x: 300, y: 40, data: { w: 60, h: 40 } }),
+      createRectElement({ id: 'g1', x: 500, y: 200, parentGroupId: group.id }),
+      createRectElement({ id: 'g2', x: 560, y: 260, parentGroupId: group.id }),
+    ];
+    const seeded = await context.seedCanvasFixture({ name: 'align-left', elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: { [group.id]: group } });
+
+    const result = await context.runCanvasCli(['align', '--canvas', seeded.canvas.id, '--id', 'a', '--id', 'b', '--id', 'group-1', '--mode', 'left', '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    expect(parseJsonStdout<TAlignJson>(result)).toMatchObject({ ok: true, command: 'canvas.align', dryRun: false, mode: 'left', matchedCount: 3, nodeCount: 3, changedIds: ['b', 'g1', 'g2'] });
+    const doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect(['a', 'b', 'g1', 'g2'].map((id) => [doc.elements[id]!.x, doc.elements[id]!.y])).toEqual([[0, 0], [0, 40], [0, 200], [60, 260]]);
+  });
+
+  test('previews centered positions on --dry-run and rejects unknown modes', async () => {
+    const context = await createContext();
+    const elements = [createRectElement({ id: 'a', x: 0, y: 0 }), createRectElement({ id: 'b', x: 300, y: 100, data: { w: 60, h: 40 } })];
+    const seeded = await context.seedCanvasFixture({ name: 'align-preview', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+
+    const preview = await context.runCanvasCli(['align', '--canvas', seeded.canvas.id, '--type', 'rect', '--mode', 'center', '--dry-run']);
+    expectExitCode(preview, 0);
+    expect(preview.stdout).toContain('[dry-run] no mutation applied');
+    expect(preview.stdout).toContain(`Align center matched=2 nodes=2 changed=2 canvas=${seeded.canvas.id}`);
+    expect(preview.stdout).toContain('- element id=a 0,0 -> 120,0');
+    expect(preview.stdout).toContain('- element id=b 300,100 -> 150,100');
+    expect((await context.readCanvasDoc(seeded.canvas.automerge_url)).elements.a).toMatchObject({ x: 0, y: 0 });
+
+    const invalid = await context.runCanvasCli(['align', '--canvas', seeded.canvas.id, '--type', 'rect', '--mode', 'diagonal', '--json']);
+    expectExitCode(invalid, 1);
+    expect(JSON.parse(invalid.stderr)).toMatchObject({ ok: false, command: 'canvas.align', code: 'CANVAS_ALIGN_MODE_INVALID' });
+  });
+});
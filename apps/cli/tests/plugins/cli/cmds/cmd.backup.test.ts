@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TBackupCreateJson = { ok: true; command: 'backup.create'; path: string; bytes: number; canvasCount: number; fileCount: number; version: number };
+type TBackupRestoreJson = { ok: true; command: 'backup.restore'; dryRun: boolean; canvases: Array<{ archivedId: string; name: string; action: string; id: string | null }> };
+type TBackupListJson = { ok: true; command: 'backup.list'; dir: string; scheduled: boolean; archives: Array<{ name: string; path: string }> };
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('vibecanvas backup', () => {
+  test('writes an archive and restores it into a fresh database', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'roadmap', elements: { a: createRectElement({ id: 'a', x: 10, y: 20 }) } });
+    const archivePath = join(context.tempRoot, 'workspace.tar.gz');
+    const freshDbPath = join(context.tempRoot, 'fresh.sqlite');
+
+    const created = await context.runVibecanvasCli(['backup', 'create', '--out', archivePath, '--db', context.dbPath, '--json']);
+    expectExitCode(created, 0);
+    expectNoStderr(created);
+    expect(parseJsonStdout<TBackupCreateJson>(created)).toMatchObject({ ok: true, command: 'backup.create', path: archivePath, canvasCount: 1, fileCount: 0, version: 1 });
+
+    const restored = await context.runVibecanvasCli(['backup', 'restore', '--file', archivePath, '--db', freshDbPath, '--json']);
+    expectExitCode(restored, 0);
+    expect(parseJsonStdout<TBackupRestoreJson>(restored).canvases).toEqual([expect.objectContaining({ archivedId: seeded.canvas.id, name: 'roadmap', action: 'created', id: seeded.canvas.id })]);
+
+    const again = await context.runVibecanvasCli(['backup', 'restore', '--file', archivePath, '--db', freshDbPath, '--on-conflict', 'rename']);
+    expectExitCode(again, 0);
+    expect(again.stdout).toContain('renamed=1');
+    expect(again.stdout).toContain('- renamed name="roadmap (2)"');
+
+    const listed = await context.runVibecanvasCli(['canvas', 'list', '--db', freshDbPath, '--json']);
+    expectExitCode(listed, 0);
+    expect(listed.stdout).toContain('roadmap (2)');
+  });
+
+  test('lists archives in the configured backup directory and rejects bad archives', async () => {
+    const context = await createContext();
+    await context.seedCanvasFixture({ name: 'notes' });
+    const backupDir = join(context.tempRoot, 'scheduled');
+    await writeFile(join(context.configDir, 'config.json'), JSON.stringify({ backups: { enabled: true, intervalHours: 12, keep: 3, dir: backupDir } }));
+    await writeFile(join(context.tempRoot, 'not-a-backup.tar.gz'), 'nope');
+
+    const created = await context.runVibecanvasCli(['backup', '--db', context.dbPath]);
+    expectExitCode(created, 0);
+    expect(created.stdout).toContain(`Backed up 1 canvases and 0 images to ${backupDir}/vibecanvas-backup-`);
+
+    const listed = await context.runVibecanvasCli(['backup', 'list', '--json']);
+    expectExitCode(listed, 0);
+    const payload = parseJsonStdout<TBackupListJson>(listed);
+    expect(payload).toMatchObject({ ok: true, command: 'backup.list', dir: backupDir, scheduled: true });
+    expect(payload.archives).toHaveLength(1);
+
+    const invalid = await context.runVibecanvasCli(['backup', 'restore', '--file', join(context.tempRoot, 'not-a-backup.tar.gz'), '--db', context.dbPath, '--json']);
+    expectExitCode(invalid, 1);
+    expect(JSON.parse(invalid.stderr)).toMatchObject({ ok: false, command: 'backup.restore', code: 'BACKUP_FILE_UNREADABLE' });
+  });
+});
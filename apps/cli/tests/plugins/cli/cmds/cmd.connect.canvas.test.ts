@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TConnectJson = {
+  ok: true;
+  command: 'canvas.connect';
+  dryRun: boolean;
+  sourceId: string;
+  targetId: string;
+  element: {
+    id: string;
+    type: 'arrow' | 'line';
+    zIndex: string;
+    x: number;
+    y: number;
+    points: Array<[number, number]>;
+    startBinding: { targetId: string; anchor: { x: number; y: number } };
+    endBinding: { targetId: string; anchor: { x: number; y: number } };
+  };
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI connect', () => {
+  test('creates a bound arrow between two elements and reports stable json output', async () => {
+    const context = await createContext();
+    const left = createRectElement({ id: 'rect-left', x: 0, y: 0, data: { w: 100, h: 60 } });
+    const right = createRectElement({ id: 'rect-right', x: 300, y: 0, data: { w: 100, h: 60 } });
+    const seeded = await context.seedCanvasFixture({ name: 'connect-canvas', elements: { [left.id]: left, [right.id]: right } });
+
+    const result = await context.runCanvasCli(['connect', '--canvas', seeded.canvas.id, '--from', left.id, '--to', right.id, '--start-cap', 'dot', '--style', 'strokeColor=#ef4444', '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    const json = parseJsonStdout<TConnectJson>(result);
+    expect(json).toMatchObject({
+      ok: true,
+      command: 'canvas.connect',
+      dryRun: false,
+      sourceId: 'rect-left',
+      targetId: 'rect-right',
+      element: {
+        type: 'arrow',
+        x: 100,
+        y: 30,
+        points: [[0, 0], [200, 0]],
+        startBinding: { targetId: 'rect-left', anchor: { x: 1, y: 0.5 } },
+        endBinding: { targetId: 'rect-right', anchor: { x: 0, y: 0.5 } },
+      },
+    });
+
+    const doc = await context.readCanvasDoc(seeded.automergeUrl);
+    expect(doc.elements[json.element.id]?.data).toMatchObject({ type: 'arrow', startCap: 'dot', endCap: 'arrow' });
+    expect(doc.elements[json.element.id]?.style.strokeColor).toBe('#ef4444');
+    expect(doc.elements[left.id]?.bindings).toEqual([{ targetId: json.element.id, anchor: { x: 1, y: 0.5 } }]);
+  });
+
+  test('previews a line with --dry-run without mutating the canvas', async () => {
+    const context = await createContext();
+    const top = createRectElement({ id: 'rect-top', x: 0, y: 0 });
+    const bottom = createRectElement({ id: 'rect-bottom', x: 0, y: 400 });
+    const seeded = await context.seedCanvasFixture({ name: 'connect-dry-run-canvas', elements: { [top.id]: top, [bottom.id]: bottom } });
+
+    const result = await context.runCanvasCli(['connect', '--canvas', seeded.canvas.id, '--from', top.id, '--to', bottom.id, '--connector', 'line', '--line-type', 'curved', '--dry-run', '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    expect(parseJsonStdout<TConnectJson>(result)).toMatchObject({
+      ok: true,
+      dryRun: true,
+      element: { type: 'line', startBinding: { anchor: { x: 0.5, y: 1 } }, endBinding: { anchor: { x: 0.5, y: 0 } } },
+    });
+
+    const doc = await context.readCanvasDoc(seeded.automergeUrl);
+    expect(Object.keys(doc.elements).sort()).toEqual(['rect-bottom', 'rect-top']);
+  });
+
+  test('fails clearly on missing endpoints, unknown ids, and invalid caps', async () => {
+    const context = await createContext();
+    const rect = createRectElement({ id: 'rect-only' });
+    const seeded = await context.seedCanvasFixture({ name: 'connect-errors-canvas', elements: { [rect.id]: rect } });
+
+    const missingTarget = await context.runCanvasCli(['connect', '--canvas', seeded.canvas.id, '--from', rect.id, '--json']);
+    expectExitCode(missingTarget, 1);
+    expect(JSON.parse(missingTarget.stderr)).toMatchObject({
+      ok: false,
+      command: 'canvas.connect',
+      code: 'CANVAS_CONNECT_TARGET_REQUIRED',
+    });
+
+    const unknownTarget = await context.runCanvasCli(['connect', '--canvas', seeded.canvas.id, '--from', rect.id, '--to', 'does-not-exist', '--json']);
+    expectExitCode(unknownTarget, 1);
+    expect(JSON.parse(unknownTarget.stderr)).toMatchObject({
+      ok: false,
+      command: 'canvas.connect',
+      code: 'CANVAS_CONNECT_TARGET_NOT_FOUND',
+      canvasId: seeded.canvas.id,
+    });
+
+    const invalidCap = await context.runCanvasCli(['connect', '--canvas', seeded.canvas.id, '--from', rect.id, '--to', 'does-not-exist', '--end-cap', 'star', '--json']);
+    expectExitCode(invalidCap, 1);
+    expect(JSON.parse(invalidCap.stderr)).toMatchObject({
+      ok: false,
+      command: 'canvas.connect',
+      code: 'CANVAS_CONNECT_PAYLOAD_INVALID',
+    });
+  });
+});
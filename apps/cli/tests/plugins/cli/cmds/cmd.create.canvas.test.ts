@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TCanvasSummaryJson = { id: string; name: string; automergeUrl: string; createdAt: string };
+
+type TCreateJson = { ok: true; command: 'canvas.create'; canvas: TCanvasSummaryJson };
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI create, rename, and remove', () => {
+  test('creates, renames, and removes a canvas', async () => {
+    const context = await createContext();
+
+    const createResult = await context.runCanvasCli(['create', '--name', 'scratch', '--json']);
+    expectExitCode(createResult, 0);
+    expectNoStderr(createResult);
+    const created = parseJsonStdout<TCreateJson>(createResult);
+    expect(created).toMatchObject({ ok: true, command: 'canvas.create', canvas: { name: 'scratch' } });
+
+    const conflict = await context.runCanvasCli(['create', '--name', 'scratch', '--json']);
+    expectExitCode(conflict, 1);
+    expect(JSON.parse(conflict.stderr)).toMatchObject({ ok: false, command: 'canvas.create', code: 'CANVAS_CREATE_NAME_CONFLICT' });
+
+    const renamed = await context.runCanvasCli(['rename', '--canvas-name', 'scratch', '--name', 'release plan']);
+    expectExitCode(renamed, 0);
+    expect(renamed.stdout).toContain(`Renamed canvas=${created.canvas.id} from="scratch" name="release plan"`);
+
+    const unconfirmed = await context.runCanvasCli(['remove', '--canvas', created.canvas.id, '--json']);
+    expectExitCode(unconfirmed, 1);
+    expect(JSON.parse(unconfirmed.stderr)).toMatchObject({ ok: false, command: 'canvas.remove', code: 'CANVAS_REMOVE_CONFIRMATION_REQUIRED' });
+    expect((await context.listCanvases()).map((row) => row.name)).toEqual(['release plan']);
+
+    const removed = await context.runCanvasCli(['remove', '--canvas', created.canvas.id, '--force']);
+    expectExitCode(removed, 0);
+    expect(removed.stdout).toContain(`Removed canvas=${created.canvas.id} name="release plan"`);
+    expect(await context.listCanvases()).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TDiagramJson = {
+  ok: true;
+  command: 'canvas.diagram';
+  dryRun: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  format: 'mermaid' | 'dot';
+  direction: 'TB' | 'BT' | 'LR' | 'RL';
+  nodeCount: number;
+  edgeCount: number;
+  addedCount: number;
+  addedIds: string[];
+  groupId: string;
+  bounds: { x: number; y: number; w: number; h: number };
+  elements: Array<{ id: string; type: string; role: 'node' | 'label' | 'edge' | 'edge-label'; key: string; zIndex: string; x: number; y: number; w: number; h: number }>;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI diagram', () => {
+  test('lays out inline mermaid as one group of bound shapes and arrows', async () => {
+    const context = await createContext();
+    const existing = createRectElement({ id: 'existing' });
+    const seeded = await context.seedCanvasFixture({ name: 'diagram-target', elements: { [existing.id]: existing } });
+
+    const result = await context.runCanvasCli(['diagram', '--canvas', seeded.canvas.id, '--diagram', 'flowchart LR; A[Request] --> B{Cached?}; B -->|yes| C[Return]', '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    const json = parseJsonStdout<TDiagramJson>(result);
+    expect(json).toMatchObject({ ok: true, command: 'canvas.diagram', dryRun: false, format: 'mermaid', direction: 'LR', nodeCount: 3, edgeCount: 2, addedCount: 9 });
+
+    const doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect(Object.keys(doc.groups)).toEqual([json.groupId]);
+    expect(json.addedIds.every((id) => doc.elements[id]?.parentGroupId === json.groupId)).toBe(true);
+    const nodeId = (key: string) => json.elements.find((element) => element.role === 'node' && element.key === key)!.id;
+    const edge = doc.elements[json.elements.find((element) => element.role === 'edge' && element.key === 'A->B')!.id]!;
+    expect(edge.data).toMatchObject({ type: 'arrow', startBinding: { targetId: nodeId('A') }, endBinding: { targetId: nodeId('B') } });
+    expect(doc.elements[nodeId('B')]!.data.type).toBe('diamond');
+  });
+
+  test('previews a dot file on --dry-run and reads sources from stdin', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'diagram-preview' });
+    const path = join(context.tempRoot, 'deps.gv');
+    await writeFile(path, 'digraph deps {\n  app -> db [label="reads"];\n}\n');
+
+    const preview = await context.runCanvasCli(['diagram', '--canvas', seeded.canvas.id, '--diagram-file', path, '--x', '0', '--y', '0', '--dry-run']);
+    expectExitCode(preview, 0);
+    expect(preview.stdout).toContain('[dry-run] no mutation applied');
+    expect(preview.stdout).toContain('Diagram dot direction=TB nodes=2 edges=1 added=6 group=PLACEHOLDER-NO');
+    expect(preview.stdout).toContain('- edge-label key="app->db" id=PLACEHOLDER-NO type=text');
+    expect(Object.keys((await context.readCanvasDoc(seeded.canvas.automerge_url)).elements)).toHaveLength(0);
+
+    const piped = await context.runProcess({
+      cmd: ['bun', 'run', 'apps/cli/src/main.ts', 'canvas', 'diagram', '--canvas-name', 'diagram-preview', '--diagram-stdin', '--json', '--db', context.dbPath],
+      stdinText: 'graph TD\n  x --- y\n',
+    });
+    expectExitCode(piped, 0);
+    expect(parseJsonStdout<TDiagramJson>(piped)).toMatchObject({ format: 'mermaid', nodeCount: 2, edgeCount: 1, addedCount: 5 });
+  });
+
+  test('fails clearly on missing or conflicting sources and unparseable diagrams', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'diagram-errors' });
+
+    const missing = await context.runCanvasCli(['diagram', '--canvas', seeded.canvas.id, '--json']);
+    expectExitCode(missing, 1);
+    expect(JSON.parse(missing.stderr)).toMatchObject({ ok: false, command: 'canvas.diagram', code: 'CANVAS_DIAGRAM_SOURCE_REQUIRED' });
+
+    const conflict = await context.runCanvasCli(['diagram', '--canvas', seeded.canvas.id, '--diagram', 'graph TD; a-->b', '--diagram-stdin', '--json']);
+    expectExitCode(conflict, 1);
+    expect(JSON.parse(conflict.stderr)).toMatchObject({ code: 'CANVAS_DIAGRAM_SOURCE_CONFLICT' });
+
+    const invalid = await context.runCanvasCli(['diagram', '--canvas', seeded.canvas.id, '--diagram', 'digraph { a -- b }', '--json']);
+    expectExitCode(invalid, 1);
+    expect(JSON.parse(invalid.stderr)).toMatchObject({ code: 'CANVAS_DIAGRAM_PARSE_FAILED', message: "Failed to parse dot source at line 1: Use '->' for edges in a digraph." });
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type THistoryJson = {
+  ok: true;
+  command: 'canvas.history';
+  heads: string[];
+  entries: Array<{ heads: string[] }>;
+};
+
+type TDiffJson = {
+  ok: true;
+  command: 'canvas.diff';
+  from: { canvas: { id: string }; heads: string[] };
+  to: { canvas: { id: string }; heads: string[] };
+  addedCount: number;
+  removedCount: number;
+  modifiedCount: number;
+  addedIds: string[];
+  removedIds: string[];
+  modifiedIds: string[];
+  entries: Array<{ id: string; kind: 'element' | 'group'; status: 'added' | 'removed' | 'modified'; type: string | null; fields: Array<{ path: string; before?: unknown; after?: unknown }> }>;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI diff', () => {
+  test('compares a past version with the current canvas', async () => {
+    const context = await createContext();
+    const elements = [createRectElement({ id: 'a', x: 0, y: 0 }), createRectElement({ id: 'b', x: 200, y: 0 })];
+    const seeded = await context.seedCanvasFixture({ name: 'diff-versions', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+
+    const before = parseJsonStdout<THistoryJson>(await context.runCanvasCli(['history', '--canvas', seeded.canvas.id, '--json']));
+    expectExitCode(await context.runCanvasCli(['move', '--canvas', seeded.canvas.id, '--id', 'a', '--relative', '--x', '10', '--y', '0', '--json']), 0);
+    expectExitCode(await context.runCanvasCli(['delete', '--canvas', seeded.canvas.id, '--id', 'b', '--json']), 0);
+
+    const result = await context.runCanvasCli(['diff', '--canvas', seeded.canvas.id, '--from', before.heads.join(','), '--json']);
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    expect(parseJsonStdout<TDiffJson>(result)).toMatchObject({
+      ok: true,
+      command: 'canvas.diff',
+      from: { heads: before.heads },
+      addedIds: [],
+      removedIds: ['b'],
+      modifiedIds: ['a'],
+      entries: [
+        { id: 'b', status: 'removed', type: 'rect' },
+        { id: 'a', status: 'modified', fields: [{ path: 'x', before: 0, after: 10 }] },
+      ],
+    });
+
+    const text = await context.runCanvasCli(['diff', '--canvas', seeded.canvas.id, '--from', before.heads.join(',')]);
+    expectExitCode(text, 0);
+    expect(text.stdout).toContain('Diff added=0 removed=1 modified=1');
+    expect(text.stdout).toContain('- element rect id=b');
+    expect(text.stdout).toContain('~ element rect id=a x: 0 -> 10');
+  });
+
+  test('compares two canvases and requires a version or another canvas', async () => {
+    const context = await createContext();
+    const left = await context.seedCanvasFixture({ name: 'diff-left', elements: { a: createRectElement({ id: 'a' }) } });
+    const right = await context.seedCanvasFixture({ name: 'diff-right', elements: { a: createRectElement({ id: 'a', x: 50 }), c: createRectElement({ id: 'c' }) } });
+
+    const result = await context.runCanvasCli(['diff', '--canvas', left.canvas.id, '--other-canvas', right.canvas.id, '--json']);
+    expectExitCode(result, 0);
+    expect(parseJsonStdout<TDiffJson>(result)).toMatchObject({ from: { canvas: { id: left.canvas.id } }, to: { canvas: { id: right.canvas.id } }, addedIds: ['c'], removedIds: [], modifiedIds: ['a'] });
+
+    const missing = await context.runCanvasCli(['diff', '--canvas', left.canvas.id, '--json']);
+    expectExitCode(missing, 1);
+    expect(JSON.parse(missing.stderr)).toMatchObject({ ok: false, command: 'canvas.diff', code: 'CANVAS_DIFF_FROM_REQUIRED' });
+  });
+});
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TDistributeJson = {
+  ok: true;
+  command: 'canvas.distribute';
+  dryRun: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  axis: 'horizontal' | 'vertical';
+  matchedCount: number;
+  matchedIds: string[];
+  nodeCount: number;
+  moves: Array<{ id: string; kind: 'element' | 'group'; from: { x: number; y: number }; to: { x: number; y: number }; dx: number; dy: number }>;
+  changedCount: number;
+  changedIds: string[];
+  bounds: { x: number; y: number; w: number; h: number } | null;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI distribute', () => {
+  test('spaces matched shapes with equal gaps and keeps the outer ones in place', async () => {
+    const context = await createContext();
+    const elements = [
+      createRectElement({ id: 'a', x: 0, y: 0 }),
+      createRectElement({ id: 'b', x: 150, y: 30, data: { w: 60, h: 40 } }),
+      createRectElement({ id: 'c', x: 500, y: 60 }),
+    ];
+    const seeded = await context.seedCanvasFixture({ name: 'distribute', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+
+    const result = await context.runCanvasCli(['distribute', '--canvas', seeded.canvas.id, '--where', 'type=rect', '--axis', 'horizontal', '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    expect(parseJsonStdout<TDistributeJson>(result)).toMatchObject({ ok: true, command: 'canvas.distribute', axis: 'horizontal', nodeCount: 3, changedIds: ['b'] });
+    const doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect(['a', 'b', 'c'].map((id) => [doc.elements[id]!.x, doc.elements[id]!.y])).toEqual([[0, 0], [280, 30], [500, 60]]);
+  });
+
+  test('fails clearly without an axis or with fewer than three targets', async () => {
+    const context = await createContext();
+    const elements = [createRectElement({ id: 'a' }), createRectElement({ id: 'b', x: 200 })];
+    const seeded = await context.seedCanvasFixture({ name: 'distribute-errors', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+
+    const missingAxis = await context.runCanvasCli(['distribute', '--canvas', seeded.canvas.id, '--id', 'a', '--id', 'b', '--json']);
+    expectExitCode(missingAxis, 1);
+    expect(JSON.parse(missingAxis.stderr)).toMatchObject({ ok: false, command: 'canvas.distribute', code: 'CANVAS_DISTRIBUTE_AXIS_INVALID' });
+
+    const tooFew = await context.runCanvasCli(['distribute', '--canvas', seeded.canvas.id, '--id', 'a', '--id', 'b', '--axis', 'vertical', '--json']);
+    expectExitCode(tooFew, 1);
+    expect(JSON.parse(tooFew.stderr)).toMatchObject({ code: 'CANVAS_DISTRIBUTE_TOO_FEW' });
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TCanvasSummaryJson = { id: string; name: string; automergeUrl: string; createdAt: string };
+
+type TExportDocJson = {
+  ok: true;
+  command: 'canvas.export-doc';
+  canvas: TCanvasSummaryJson;
+  fileName: string;
+  version: number;
+  elementCount: number;
+  fileCount: number;
+  path: string;
+  content?: string;
+};
+
+type TImportDocJson = {
+  ok: true;
+  command: 'canvas.import-doc';
+  dryRun: boolean;
+  canvas: TCanvasSummaryJson;
+  source: { id: string; name: string };
+  renamed: boolean;
+  elementCount: number;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI export-doc and import-doc', () => {
+  test('exports a canvas to a .vibecanvas file and imports it under a free name', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'roadmap', elements: { a: createRectElement({ id: 'a', x: 10, y: 20 }) } });
+    const filePath = join(context.tempRoot, 'roadmap.vibecanvas');
+
+    const exported = await context.runCanvasCli(['export-doc', '--canvas', seeded.canvas.id, '--out', filePath, '--json']);
+    expectExitCode(exported, 0);
+    expectNoStderr(exported);
+    const exportPayload = parseJsonStdout<TExportDocJson>(exported);
+    expect(exportPayload).toMatchObject({ ok: true, command: 'canvas.export-doc', canvas: { id: seeded.canvas.id }, fileName: 'roadmap.vibecanvas', version: 1, elementCount: 1, fileCount: 0, path: filePath });
+    expect(exportPayload.content).toBeUndefined();
+
+    const preview = await context.runCanvasCli(['import-doc', '--file', filePath, '--dry-run']);
+    expectExitCode(preview, 0);
+    expect(preview.stdout).toContain('[dry-run] no mutation applied');
+    expect(preview.stdout).toContain('name="roadmap (2)" (renamed from "roadmap")');
+
+    const imported = await context.runCanvasCli(['import-doc', '--file', filePath, '--json']);
+    expectExitCode(imported, 0);
+    const payload = parseJsonStdout<TImportDocJson>(imported);
+    expect(payload).toMatchObject({ ok: true, command: 'canvas.import-doc', dryRun: false, canvas: { name: 'roadmap (2)' }, source: { id: seeded.canvas.id, name: 'roadmap' }, renamed: true, elementCount: 1 });
+
+    const doc = await context.readCanvasDoc(payload.canvas.automergeUrl);
+    expect(doc).toMatchObject({ id: payload.canvas.id, name: 'roadmap (2)' });
+    expect(doc.elements.a).toMatchObject({ x: 10, y: 20 });
+  });
+
+  test('rejects files that are not .vibecanvas exports', async () => {
+    const context = await createContext();
+    const filePath = join(context.tempRoot, 'scene.excalidraw');
+    await writeFile(filePath, JSON.stringify({ type: 'excalidraw', elements: [] }));
+
+    const result = await context.runCanvasCli(['import-doc', '--file', filePath, '--json']);
+    expectExitCode(result, 1);
+    expect(JSON.parse(result.stderr)).toMatchObject({ ok: false, command: 'canvas.import-doc', code: 'CANVAS_IMPORT_DOC_CONTENT_INVALID' });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createCliTestContext, createRectElement, createTextElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TExportJson = {
+  ok: true;
+  command: 'canvas.export';
+  format: 'svg' | 'png';
+  mimeType: string;
+  elementIds: string[];
+  elementCount: number;
+  bounds: { x: number; y: number; w: number; h: number };
+  width: number;
+  height: number;
+  encoding: 'utf8' | 'base64';
+  content?: string;
+  path?: string;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI export', () => {
+  test('writes standalone svg markup to stdout', async () => {
+    const context = await createContext();
+    const rect = createRectElement({ id: 'rect-1', x: 0, y: 0 });
+    const label = createTextElement({ id: 'label-1', zIndex: 'a1', data: { text: 'Hello & bye', containerId: 'rect-1' } });
+    const seeded = await context.seedCanvasFixture({ name: 'export-canvas', elements: { [rect.id]: rect, [label.id]: label } });
+
+    const result = await context.runCanvasCli(['export', '--canvas', seeded.canvas.id]);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    expect(result.stdout.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="153" height="113" viewBox="-17 -17 153 113">')).toBe(true);
+    expect(result.stdout).toContain('data-id="rect-1"');
+    expect(result.stdout).toContain('Hello &amp; bye');
+  });
+
+  test('writes a scaled png selection to --out and reports json metadata', async () => {
+    const context = await createContext();
+    const left = createRectElement({ id: 'rect-left', x: 0, y: 0 });
+    const right = createRectElement({ id: 'rect-right', x: 500, y: 0 });
+    const seeded = await context.seedCanvasFixture({ name: 'export-png-canvas', elements: { [left.id]: left, [right.id]: right } });
+    const outPath = join(context.tempRoot, 'selection.png');
+
+    const result = await context.runCanvasCli(['export', '--canvas', seeded.canvas.id, '--id', right.id, '--scale', '2', '--padding', '0', '--background', 'transparent', '--out', outPath, '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    const json = parseJsonStdout<TExportJson>(result);
+    expect(json).toMatchObject({ ok: true, command: 'canvas.export', format: 'png', mimeType: 'image/png', elementIds: ['rect-right'], width: 242, height: 162, path: outPath });
+    expect(json.content).toBeUndefined();
+
+    const bytes = await readFile(outPath);
+    expect([...bytes.subarray(1, 4)]).toEqual([0x50, 0x4e, 0x47]);
+    expect(bytes.readUInt32BE(16)).toBe(242);
+  });
+
+  test('fails clearly on invalid formats and unknown ids', async () => {
+    const context = await createContext();
+    const rect = createRectElement({ id: 'rect-only' });
+    const seeded = await context.seedCanvasFixture({ name: 'export-errors-canvas', elements: { [rect.id]: rect } });
+
+    const invalidFormat = await context.runCanvasCli(['export', '--canvas', seeded.canvas.id, '--format', 'gif', '--json']);
+    expectExitCode(invalidFormat, 1);
+    expect(JSON.parse(invalidFormat.stderr)).toMatchObject({ ok: false, command: 'canvas.export', code: 'CANVAS_EXPORT_FORMAT_INVALID' });
+
+    const unknownId = await context.runCanvasCli(['export', '--canvas', seeded.canvas.id, '--id', 'does-not-exist', '--json']);
+    expectExitCode(unknownId, 1);
+    expect(JSON.parse(unknownId.stderr)).toMatchObject({ ok: false, command: 'canvas.export', code: 'CANVAS_EXPORT_TARGET_NOT_FOUND', canvasId: seeded.canvas.id });
+  });
+});
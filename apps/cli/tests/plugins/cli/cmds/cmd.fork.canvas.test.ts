@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TCanvasSummaryJson = { id: string; name: string; automergeUrl: string; createdAt: string };
+
+type TForkJson = {
+  ok: true;
+  command: 'canvas.fork';
+  source: TCanvasSummaryJson;
+  canvas: TCanvasSummaryJson;
+  forkedFromId: string;
+  elementCount: number;
+  groupCount: number;
+  fileCount: number;
+};
+
+type TMergeJson = {
+  ok: true;
+  command: 'canvas.merge';
+  dryRun: boolean;
+  fork: TCanvasSummaryJson;
+  canvas: TCanvasSummaryJson;
+  before: string[];
+  heads: string[];
+  mergedChangeCount: number;
+  addedIds: string[];
+  removedIds: string[];
+  modifiedIds: string[];
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI duplicate, fork, and merge', () => {
+  test('forks a canvas, edits the fork, and merges it back', async () => {
+    const context = await createContext();
+    const elements = [createRectElement({ id: 'a', x: 0, y: 0 }), createRectElement({ id: 'b', x: 200, y: 0 })];
+    const seeded = await context.seedCanvasFixture({ name: 'planning', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+
+    const forkResult = await context.runCanvasCli(['fork', '--canvas', seeded.canvas.id, '--name', 'planning experiment', '--json']);
+    expectExitCode(forkResult, 0);
+    expectNoStderr(forkResult);
+    const fork = parseJsonStdout<TForkJson>(forkResult);
+    expect(fork).toMatchObject({ ok: true, command: 'canvas.fork', canvas: { name: 'planning experiment' }, forkedFromId: seeded.canvas.id, elementCount: 2 });
+
+    expectExitCode(await context.runCanvasCli(['move', '--canvas', fork.canvas.id, '--id', 'a', '--relative', '--x', '10', '--y', '0', '--json']), 0);
+
+    const preview = await context.runCanvasCli(['merge', '--canvas', fork.canvas.id, '--dry-run']);
+    expectExitCode(preview, 0);
+    expect(preview.stdout).toContain('[dry-run] no mutation applied');
+    expect(preview.stdout).toContain(`Merged changes=1 added=0 removed=0 modified=1 fork=${fork.canvas.id} canvas=${seeded.canvas.id}`);
+    expect(preview.stdout).toContain('~ element rect id=a x: 0 -> 10');
+
+    const merge = await context.runCanvasCli(['merge', '--canvas', fork.canvas.id, '--json']);
+    expectExitCode(merge, 0);
+    expect(parseJsonStdout<TMergeJson>(merge)).toMatchObject({ ok: true, command: 'canvas.merge', dryRun: false, mergedChangeCount: 1, modifiedIds: ['a'] });
+    const doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect([doc.elements.a!.x, doc.elements.b!.x]).toEqual([10, 200]);
+  });
+
+  test('duplicates a canvas that cannot be merged back', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'board', elements: { a: createRectElement({ id: 'a' }) } });
+
+    const duplicate = await context.runCanvasCli(['duplicate', '--canvas', seeded.canvas.id]);
+    expectExitCode(duplicate, 0);
+    expect(duplicate.stdout).toContain(`name="board copy" from=${seeded.canvas.id} elements=1 groups=0 files=0`);
+
+    const merge = await context.runCanvasCli(['merge', '--canvas-name', 'board copy', '--json']);
+    expectExitCode(merge, 1);
+    expect(JSON.parse(merge.stderr)).toMatchObject({ ok: false, command: 'canvas.merge', code: 'CANVAS_MERGE_TARGET_REQUIRED' });
+  });
+});
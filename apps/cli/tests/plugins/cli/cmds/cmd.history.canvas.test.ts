@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type THistoryJson = {
+  ok: true;
+  command: 'canvas.history';
+  canvas: { id: string; name: string; automergeUrl: string };
+  heads: string[];
+  changeCount: number;
+  groupCount: number;
+  entries: Array<{ heads: string[]; actor: string; origin: string | null; startTime: string; endTime: string; changeCount: number; labels: string[] }>;
+};
+
+type TRestoreJson = {
+  ok: true;
+  command: 'canvas.restore';
+  dryRun: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  at: string[];
+  changedCount: number;
+  changedIds: string[];
+  recreatedIds: string[];
+  removedIds: string[];
+  updatedIds: string[];
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI history and restore', () => {
+  test('lists history entries and restores the canvas to one of them', async () => {
+    const context = await createContext();
+    const elements = [createRectElement({ id: 'a', x: 0, y: 0 }), createRectElement({ id: 'b', x: 200, y: 0 })];
+    const seeded = await context.seedCanvasFixture({ name: 'history-restore', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+
+    expectExitCode(await context.runCanvasCli(['move', '--canvas', seeded.canvas.id, '--id', 'a', '--relative', '--x', '10', '--y', '0', '--session', 'agent-1', '--json']), 0);
+    expectExitCode(await context.runCanvasCli(['delete', '--canvas', seeded.canvas.id, '--id', 'b', '--session', 'agent-1', '--json']), 0);
+
+    const history = await context.runCanvasCli(['history', '--canvas', seeded.canvas.id, '--json']);
+    expectExitCode(history, 0);
+    expectNoStderr(history);
+    const payload = parseJsonStdout<THistoryJson>(history);
+    expect(payload).toMatchObject({ ok: true, command: 'canvas.history', heads: payload.entries[0]!.heads });
+    expect(payload.entries[0]).toMatchObject({ origin: 'cli:agent-1', changeCount: 2, labels: ['canvas.move', 'canvas.delete'] });
+    const created = payload.entries.at(-1)!;
+
+    const text = await context.runCanvasCli(['history', '--canvas', seeded.canvas.id, '--limit', '1']);
+    expectExitCode(text, 0);
+    expect(text.stdout).toContain(`History changes=${payload.changeCount} entries=${payload.groupCount} shown=1 canvas=${seeded.canvas.id}`);
+    expect(text.stdout).toContain('actor=cli:agent-1 changes=2 labels=canvas.move,canvas.delete');
+
+    const restore = await context.runCanvasCli(['restore', '--canvas', seeded.canvas.id, '--at', created.heads.join(','), '--json']);
+    expectExitCode(restore, 0);
+    expect(parseJsonStdout<TRestoreJson>(restore)).toMatchObject({ ok: true, command: 'canvas.restore', dryRun: false, changedIds: ['a', 'b'], recreatedIds: ['b'], updatedIds: ['a'] });
+    const doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect([doc.elements.a!.x, doc.elements.b!.x]).toEqual([0, 200]);
+  });
+
+  test('rejects unknown restore heads with a hint', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'restore-invalid', elements: { a: createRectElement({ id: 'a' }) } });
+
+    const result = await context.runCanvasCli(['restore', '--canvas', seeded.canvas.id, '--at', '0'.repeat(64), '--json']);
+    expectExitCode(result, 1);
+    expect(JSON.parse(result.stderr)).toMatchObject({ ok: false, command: 'canvas.restore', code: 'CANVAS_RESTORE_AT_NOT_FOUND' });
+  });
+});
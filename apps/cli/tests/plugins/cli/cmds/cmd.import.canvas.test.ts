@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TImportJson = {
+  ok: true;
+  command: 'canvas.import';
+  dryRun: boolean;
+  format: 'excalidraw' | 'json-canvas';
+  created: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  importedCount: number;
+  importedIds: string[];
+  groupIds: string[];
+  fileCount: number;
+  skipped: Array<{ id: string; type: string; reason: string }>;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+function createExcalidrawElement(overrides: Record<string, unknown>) {
+  return { x: 0, y: 0, width: 120, height: 80, angle: 0, strokeColor: '#1e1e1e', backgroundColor: 'transparent', strokeWidth: 2, opacity: 100, groupIds: [], isDeleted: false, boundElements: null, ...overrides };
+}
+
+async function writeScene(context: TCliTestContext, fileName: string): Promise<string> {
+  const path = join(context.tempRoot, fileName);
+  await writeFile(path, JSON.stringify({
+    type: 'excalidraw',
+    version: 2,
+    source: 'https://excalidraw.com',
+    elements: [
+      createExcalidrawElement({ id: 'a', type: 'rectangle', groupIds: ['g'], boundElements: [{ id: 'arrow', type: 'arrow' }] }),
+      createExcalidrawElement({ id: 'b', type: 'diamond', x: 300, groupIds: ['g'], boundElements: [{ id: 'arrow', type: 'arrow' }] }),
+      createExcalidrawElement({ id: 'arrow', type: 'arrow', x: 120, y: 40, width: 180, height: 0, points: [[0, 0], [180, 0]], startBinding: { elementId: 'a', focus: 0, gap: 0 }, endBinding: { elementId: 'b', focus: 0, gap: 0 }, endArrowhead: 'arrow' }),
+      createExcalidrawElement({ id: 'frame', type: 'frame' }),
+    ],
+    appState: {},
+    files: {},
+  }));
+  return path;
+}
+
+describe('canvas CLI import', () => {
+  test('creates a canvas named after the file with groups and bound arrows', async () => {
+    const context = await createContext();
+    const path = await writeScene(context, 'flow chart.excalidraw');
+
+    const result = await context.runCanvasCli(['import', '--file', path, '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    const json = parseJsonStdout<TImportJson>(result);
+    expect(json).toMatchObject({ ok: true, command: 'canvas.import', dryRun: false, created: true, canvas: { name: 'flow chart' }, importedCount: 3, fileCount: 0 });
+    expect(json.groupIds).toHaveLength(1);
+    expect(json.skipped).toEqual([{ id: 'frame', type: 'frame', reason: "unsupported element type 'frame'" }]);
+
+    const doc = await context.readCanvasDoc(json.canvas.automergeUrl);
+    const arrow = Object.values(doc.elements).find((element) => element.data.type === 'arrow')!;
+    const rect = Object.values(doc.elements).find((element) => element.data.type === 'rect')!;
+    expect(rect.parentGroupId).toBe(json.groupIds[0]!);
+    expect(arrow.data).toMatchObject({ startBinding: { targetId: rect.id, anchor: { x: 1, y: 0.5 } }, endCap: 'arrow' });
+  });
+
+  test('imports into an existing canvas with --dry-run preview and exports back to .excalidraw', async () => {
+    const context = await createContext();
+    const path = await writeScene(context, 'diagram.excalidraw');
+    const existing = createRectElement({ id: 'existing' });
+    const seeded = await context.seedCanvasFixture({ name: 'import-target', elements: { [existing.id]: existing } });
+
+    const preview = await context.runCanvasCli(['import', '--file', path, '--canvas', seeded.canvas.id, '--dry-run']);
+    expectExitCode(preview, 0);
+    expect(preview.stdout).toContain('[dry-run] no mutation applied');
+    expect(preview.stdout).toContain(`Imported 3 elements into canvas=${seeded.canvas.id}`);
+    expect(preview.stdout).toContain('- skipped id=frame type=frame');
+    expect(Object.keys((await context.readCanvasDoc(seeded.canvas.automerge_url)).elements)).toEqual(['existing']);
+
+    const imported = await context.runCanvasCli(['import', '--file', path, '--canvas-name', 'import-target', '--json']);
+    expectExitCode(imported, 0);
+    expect(parseJsonStdout<TImportJson>(imported)).toMatchObject({ created: false, importedCount: 3 });
+    expect(Object.keys((await context.readCanvasDoc(seeded.canvas.automerge_url)).elements)).toHaveLength(4);
+
+    const outPath = join(context.tempRoot, 'out.excalidraw');
+    const exported = await context.runCanvasCli(['export', '--canvas', seeded.canvas.id, '--out', outPath]);
+    expectExitCode(exported, 0);
+    expectNoStderr(exported);
+    expect(exported.stdout).toContain('(excalidraw,');
+    const scene = JSON.parse(await readFile(outPath, 'utf8'));
+    expect(scene.type).toBe('excalidraw');
+    expect(scene.elements.map((element: { type: string }) => element.type)).toEqual(['rectangle', 'rectangle', 'diamond', 'arrow']);
+  });
+
+  test('fails clearly on missing files, invalid content, and conflicting targets', async () => {
+    const context = await createContext();
+    const path = await writeScene(context, 'diagram.excalidraw');
+    const invalidPath = join(context.tempRoot, 'invalid.excalidraw');
+    await writeFile(invalidPath, '{"type":"not-excalidraw"}');
+
+    const missingFile = await context.runCanvasCli(['import', '--json']);
+    expectExitCode(missingFile, 1);
+    expect(JSON.parse(missingFile.stderr)).toMatchObject({ ok: false, command: 'canvas.import', code: 'CANVAS_IMPORT_FILE_REQUIRED' });
+
+    const invalid = await context.runCanvasCli(['import', '--file', invalidPath, '--json']);
+    expectExitCode(invalid, 1);
+    expect(JSON.parse(invalid.stderr)).toMatchObject({ code: 'CANVAS_IMPORT_CONTENT_INVALID' });
+
+    const conflict = await context.runCanvasCli(['import', '--file', path, '--name', 'x', '--canvas-name', 'y', '--json']);
+    expectExitCode(conflict, 1);
+    expect(JSON.parse(conflict.stderr)).toMatchObject({ code: 'CANVAS_IMPORT_TARGET_CONFLICT' });
+  });
+
+  test('infers JSON Canvas from .canvas files and resolves file nodes against the vault', async () => {
+    const context = await createContext();
+    const vault = join(context.tempRoot, 'vault');
+    const path = join(vault, 'boards', 'plan.canvas');
+    await mkdir(join(vault, 'boards'), { recursive: true });
+    await writeFile(path, JSON.stringify({
+      nodes: [
+        { id: 'n1', type: 'text', x: 0, y: 0, width: 200, height: 80, text: 'Plan' },
+        { id: 'n2', type: 'file', x: 300, y: 0, width: 200, height: 200, file: 'notes/todo.md' },
+      ],
+      edges: [{ id: 'e1', fromNode: 'n1', toNode: 'n2' }],
+    }));
+
+    const imported = await context.runCanvasCli(['import', '--file', path, '--vault', vault, '--json']);
+    expectExitCode(imported, 0);
+    const json = parseJsonStdout<TImportJson>(imported);
+    expect(json).toMatchObject({ format: 'json-canvas', canvas: { name: 'plan' }, importedCount: 3, skipped: [] });
+    const doc = await context.readCanvasDoc(json.canvas.automergeUrl);
+    expect(Object.values(doc.elements).find((element) => element.data.type === 'file')!.data).toMatchObject({ path: join(vault, 'notes', 'todo.md'), renderer: 'markdown' });
+
+    const outPath = join(vault, 'boards', 'plan-copy.canvas');
+    const exported = await context.runCanvasCli(['export', '--canvas', json.canvas.id, '--out', outPath, '--vault', vault]);
+    expectExitCode(exported, 0);
+    expect(exported.stdout).toContain('(json-canvas,');
+    const canvas = JSON.parse(await readFile(outPath, 'utf8'));
+    expect(canvas.nodes.map((node: { type: string }) => node.type)).toEqual(['text', 'file']);
+    expect(canvas.nodes[1].file).toBe('notes/todo.md');
+    expect(canvas.edges).toEqual([expect.objectContaining({ fromNode: canvas.nodes[0].id, fromSide: 'right', toNode: canvas.nodes[1].id, toSide: 'left', toEnd: 'arrow' })]);
+  });
+});
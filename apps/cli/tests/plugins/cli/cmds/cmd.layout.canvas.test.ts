@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createGroup, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TLayoutJson = {
+  ok: true;
+  command: 'canvas.layout';
+  dryRun: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  algorithm: 'grid' | 'row' | 'column' | 'tree' | 'layered';
+  direction: 'TB' | 'BT' | 'LR' | 'RL';
+  matchedCount: number;
+  matchedIds: string[];
+  nodeCount: number;
+  edgeCount: number;
+  moves: Array<{ id: string; kind: 'element' | 'group'; from: { x: number; y: number }; to: { x: number; y: number }; dx: number; dy: number }>;
+  changedCount: number;
+  changedIds: string[];
+  bounds: { x: number; y: number; w: number; h: number } | null;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI layout', () => {
+  test('arranges selected rects in a grid and keeps matched groups together', async () => {
+    const context = await createContext();
+    const group = createGroup({ id: 'group-1' });
+    const elements = [
+      createRectElement({ id: 'a', x: 500, y: 500 }),
+      createRectElement({ id: 'b', x: 10, y: 300 }),
+      createRectElement({ id: 'c', x: 900, y: 20 }),
+      createRectElement({ id: 'd', x: 40, y: 40 }),
+      createRectElement({ id: 'g1', x: 1200, y: 0, parentGroupId: group.id }),
+    ];
+    const seeded = await context.seedCanvasFixture({ name: 'layout-grid', elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: { [group.id]: group } });
+
+    const result = await context.runCanvasCli(['layout', '--canvas', seeded.canvas.id, '--id', 'a', '--id', 'b', '--id', 'c', '--id', 'd', '--algorithm', 'grid', '--gap', '10', '--x', '0', '--y', '0', '--json']);
+
+    expectExitCode(result, 0);
+    expectNoStderr(result);
+    const json = parseJsonStdout<TLayoutJson>(result);
+    expect(json).toMatchObject({ ok: true, command: 'canvas.layout', dryRun: false, algorithm: 'grid', matchedCount: 4, nodeCount: 4, edgeCount: 0, bounds: { x: 0, y: 0, w: 250, h: 170 } });
+
+    const doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect(['c', 'd', 'b', 'a'].map((id) => [doc.elements[id]!.x, doc.elements[id]!.y])).toEqual([[0, 0], [130, 0], [0, 90], [130, 90]]);
+
+    const grouped = await context.runCanvasCli(['layout', '--canvas', seeded.canvas.id, '--where', 'kind=group', '--algorithm', 'column', '--x', '0', '--y', '400', '--json']);
+    expectExitCode(grouped, 0);
+    expect(parseJsonStdout<TLayoutJson>(grouped).moves).toEqual([{ id: 'group-1', kind: 'group', from: { x: 1200, y: 0 }, to: { x: 0, y: 400 }, dx: -1200, dy: 400 }]);
+    expect((await context.readCanvasDoc(seeded.canvas.automerge_url)).elements.g1).toMatchObject({ x: 0, y: 400 });
+  });
+
+  test('previews a tree over connected shapes on --dry-run before applying it', async () => {
+    const context = await createContext();
+    const elements = [
+      createRectElement({ id: 'root', x: 300, y: 300 }),
+      createRectElement({ id: 'left', x: 0, y: 0 }),
+      createRectElement({ id: 'right', x: 700, y: 0 }),
+    ];
+    const seeded = await context.seedCanvasFixture({ name: 'layout-tree', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+    for (const target of ['left', 'right']) {
+      expectExitCode(await context.runCanvasCli(['connect', '--canvas', seeded.canvas.id, '--from', 'root', '--to', target, '--json']), 0);
+    }
+
+    const preview = await context.runCanvasCli(['layout', '--canvas', seeded.canvas.id, '--type', 'rect', '--algorithm', 'tree', '--x', '0', '--y', '0', '--dry-run']);
+    expectExitCode(preview, 0);
+    expect(preview.stdout).toContain('[dry-run] no mutation applied');
+    expect(preview.stdout).toContain(`Layout tree direction=TB matched=3 nodes=3 edges=2 changed=3 canvas=${seeded.canvas.id}`);
+    expect(preview.stdout).toContain('- element id=root 300,300 -> 90,0');
+    expect(preview.stdout).toContain('- element id=right 700,0 -> 180,170');
+    expect((await context.readCanvasDoc(seeded.canvas.automerge_url)).elements.root).toMatchObject({ x: 300, y: 300 });
+
+    const applied = await context.runCanvasCli(['layout', '--canvas', seeded.canvas.id, '--type', 'rect', '--algorithm', 'tree', '--direction', 'lr', '--x', '0', '--y', '0', '--json']);
+    expectExitCode(applied, 0);
+    expect(parseJsonStdout<TLayoutJson>(applied)).toMatchObject({ direction: 'LR', edgeCount: 2 });
+    const doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect([doc.elements.root, doc.elements.left, doc.elements.right].map((element) => [element!.x, element!.y])).toEqual([[0, 70], [210, 0], [210, 140]]);
+  });
+
+  test('fails clearly without target selectors or with invalid layout options', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'layout-errors', elements: { a: createRectElement({ id: 'a' }) } });
+
+    const missing = await context.runCanvasCli(['layout', '--canvas', seeded.canvas.id, '--json']);
+    expectExitCode(missing, 1);
+    expect(JSON.parse(missing.stderr)).toMatchObject({ ok: false, command: 'canvas.layout', code: 'CANVAS_LAYOUT_SELECTOR_REQUIRED' });
+
+    const algorithm = await context.runCanvasCli(['layout', '--canvas', seeded.canvas.id, '--id', 'a', '--algorithm', 'spiral', '--json']);
+    expectExitCode(algorithm, 1);
+    expect(JSON.parse(algorithm.stderr)).toMatchObject({ code: 'CANVAS_LAYOUT_ALGORITHM_INVALID' });
+
+    const conflict = await context.runCanvasCli(['layout', '--canvas', seeded.canvas.id, '--id', 'a', '--where', 'type=rect', '--json']);
+    expectExitCode(conflict, 1);
+    expect(JSON.parse(conflict.stderr)).toMatchObject({ command: 'canvas.layout', code: 'CANVAS_QUERY_SELECTOR_CONFLICT' });
+  });
+});
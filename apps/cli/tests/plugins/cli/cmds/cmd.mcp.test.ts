@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, type TCliTestContext } from '../harness';
+
+type TJsonRpcResponse = {
+  id: number | null;
+  result?: { tools?: Array<{ name: string; inputSchema: Record<string, unknown> }>; content?: Array<{ type: string; text: string }>; isError?: boolean; protocolVersion?: string };
+  error?: { code: number; message: string };
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+async function runMcp(context: TCliTestContext, messages: unknown[]): Promise<Map<number | null, TJsonRpcResponse>> {
+  const result = await context.runProcess({
+    cmd: ['bun', 'run', 'apps/cli/src/main.ts', 'mcp', '--db', context.dbPath],
+    env: { ...process.env, VIBECANVAS_CONFIG: context.configDir },
+    stdinText: messages.map((message) => JSON.stringify(message)).join('\n') + '\n',
+  });
+  expectExitCode(result, 0);
+  const responses = result.stdout.trim().split('\n').map((line) => JSON.parse(line) as TJsonRpcResponse);
+  return new Map(responses.map((response) => [response.id, response]));
+}
+
+function call(id: number, name: string, args: unknown) {
+  return { jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: args } };
+}
+
+function readToolPayload(response: TJsonRpcResponse | undefined): Record<string, unknown> {
+  return JSON.parse(response?.result?.content?.[0]?.text ?? 'null') as Record<string, unknown>;
+}
+
+describe('vibecanvas mcp', () => {
+  test('lists typed tools and runs canvas commands over stdio', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'mcp board', elements: { a: createRectElement({ id: 'a', x: 0, y: 0 }) } });
+
+    const responses = await runMcp(context, [
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1' } } },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      call(3, 'canvas_move', { canvasNameQuery: 'mcp board', ids: ['a'], mode: 'relative', x: 15, y: 5 }),
+      call(4, 'canvas_query', { selector: { canvasId: seeded.canvas.id, filters: { ids: ['a'] } }, output: 'summary' }),
+    ]);
+
+    expect(responses.size).toBe(4);
+    expect(responses.get(1)?.result?.protocolVersion).toBe('2025-06-18');
+
+    const tools = responses.get(2)?.result?.tools ?? [];
+    expect(tools.map((tool) => tool.name)).toEqual(expect.arrayContaining([
+      'canvas_list', 'canvas_query', 'canvas_add', 'canvas_patch', 'canvas_move', 'canvas_group', 'canvas_ungroup', 'canvas_delete', 'canvas_reorder',
+      'filesystem_read', 'filesystem_write', 'pty_create', 'pty_list',
+    ]));
+    expect(tools.find((tool) => tool.name === 'canvas_move')?.inputSchema).toMatchObject({
+      type: 'object',
+      properties: { mode: { enum: ['relative', 'absolute'] }, ids: { type: 'array' } },
+      required: ['ids', 'mode', 'x', 'y'],
+    });
+    expect(tools.find((tool) => tool.name === 'pty_create')?.inputSchema).toMatchObject({ required: ['workingDirectory'] });
+
+    expect(responses.get(3)?.result?.isError).toBeUndefined();
+    expect(readToolPayload(responses.get(3))).toMatchObject({ ok: true, command: 'canvas.move', changedIds: ['a'] });
+    expect(readToolPayload(responses.get(4))).toMatchObject({ ok: true, count: 1 });
+
+    const doc = await context.readCanvasDoc(seeded.automergeUrl);
+    expect([doc.elements.a?.x, doc.elements.a?.y]).toEqual([15, 5]);
+  });
+
+  test('reports invalid input, command errors, and unknown tools', async () => {
+    const context = await createContext();
+
+    const responses = await runMcp(context, [
+      call(1, 'canvas_move', { ids: 'a' }),
+      call(2, 'canvas_delete', { canvasId: 'missing', ids: ['a'] }),
+      call(3, 'canvas_explode', {}),
+      { jsonrpc: '2.0', id: 4, method: 'resources/list' },
+    ]);
+
+    expect(responses.get(1)?.result?.isError).toBe(true);
+    expect(readToolPayload(responses.get(1))).toMatchObject({ ok: false, code: 'MCP_TOOL_INPUT_INVALID' });
+    expect(responses.get(2)?.result?.isError).toBe(true);
+    expect(readToolPayload(responses.get(2))).toMatchObject({ ok: false, command: 'canvas.delete', code: 'CANVAS_SELECTOR_NOT_FOUND' });
+    expect(responses.get(3)?.error?.code).toBe(-32602);
+    expect(responses.get(4)?.error?.code).toBe(-32601);
+  });
+});
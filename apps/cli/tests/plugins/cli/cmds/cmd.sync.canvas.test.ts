@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type TSyncJson = {
+  ok: true;
+  command: 'canvas.sync';
+  dryRun: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  path: string;
+  action: 'unchanged' | 'wrote-file' | 'applied-file' | 'conflict' | 'unbound';
+  status: 'synced' | 'conflict' | 'unbound';
+  changedIds: string[];
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI sync', () => {
+  test('binds a canvas to a JSON file and applies edits made to the file', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'architecture', elements: { a: createRectElement({ id: 'a', x: 10, y: 20 }) } });
+    const filePath = join(context.tempRoot, 'architecture.json');
+
+    const bound = await context.runCanvasCli(['sync', '--canvas', seeded.canvas.id, '--path', filePath, '--json']);
+    expectExitCode(bound, 0);
+    expectNoStderr(bound);
+    expect(parseJsonStdout<TSyncJson>(bound)).toMatchObject({ ok: true, command: 'canvas.sync', path: filePath, action: 'wrote-file', status: 'synced', changedIds: ['a'] });
+
+    const file = JSON.parse(await readFile(filePath, 'utf8'));
+    expect(file).toMatchObject({ format: 'vibecanvas-canvas-code', version: 1, elements: { a: { id: 'a', x: 10, y: 20 } }, groups: {} });
+    file.elements.a.x = 400;
+    await writeFile(filePath, JSON.stringify(file, null, 2));
+
+    const applied = await context.runCanvasCli(['sync', '--canvas', seeded.canvas.id]);
+    expectExitCode(applied, 0);
+    expect(applied.stdout).toContain('action=applied-file status=synced');
+    expect(applied.stdout).toContain('~ a');
+
+    const doc = await context.readCanvasDoc(seeded.automergeUrl);
+    expect(doc.elements.a).toMatchObject({ x: 400, y: 20 });
+  });
+
+  test('exits 1 on conflicts until one side is kept', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'flows', elements: { a: createRectElement({ id: 'a', x: 10, y: 20 }) } });
+    const filePath = join(context.tempRoot, 'flows.json');
+    expectExitCode(await context.runCanvasCli(['sync', '--canvas', seeded.canvas.id, '--path', filePath]), 0);
+
+    const file = JSON.parse(await readFile(filePath, 'utf8'));
+    file.elements.a.y = 999;
+    await writeFile(filePath, JSON.stringify(file));
+    expectExitCode(await context.runCanvasCli(['move', '--canvas', seeded.canvas.id, '--id', 'a', '--absolute', '--x', '50', '--y', '50']), 0);
+
+    const conflict = await context.runCanvasCli(['sync', '--canvas', seeded.canvas.id, '--json']);
+    expectExitCode(conflict, 1);
+    expect(parseJsonStdout<TSyncJson>(conflict)).toMatchObject({ action: 'conflict', status: 'conflict', changedIds: ['a'] });
+
+    const kept = await context.runCanvasCli(['sync', '--canvas', seeded.canvas.id, '--keep', 'canvas', '--json']);
+    expectExitCode(kept, 0);
+    expect(parseJsonStdout<TSyncJson>(kept)).toMatchObject({ action: 'wrote-file', status: 'synced' });
+    expect(JSON.parse(await readFile(filePath, 'utf8')).elements.a).toMatchObject({ x: 50, y: 50 });
+
+    const unbound = await context.runCanvasCli(['sync', '--canvas', seeded.canvas.id, '--unbind', '--json']);
+    expect(parseJsonStdout<TSyncJson>(unbound)).toMatchObject({ action: 'unbound', status: 'unbound' });
+    const missing = await context.runCanvasCli(['sync', '--canvas', seeded.canvas.id, '--json']);
+    expectExitCode(missing, 1);
+    expect(JSON.parse(missing.stderr)).toMatchObject({ ok: false, command: 'canvas.sync', code: 'CANVAS_SYNC_NOT_BOUND' });
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type THistoryStepJson = {
+  ok: true;
+  command: 'canvas.undo' | 'canvas.redo';
+  dryRun: boolean;
+  canvas: { id: string; name: string; automergeUrl: string };
+  origin: string;
+  entry: { hash: string; label: string | null; time: string };
+  changedCount: number;
+  changedIds: string[];
+  skippedCount: number;
+  skippedIds: string[];
+  undoCount: number;
+  redoCount: number;
+};
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+describe('canvas CLI undo and redo', () => {
+  test('undoes and redoes one session without touching another session', async () => {
+    const context = await createContext();
+    const elements = [createRectElement({ id: 'a', x: 0, y: 0 }), createRectElement({ id: 'b', x: 200, y: 0 })];
+    const seeded = await context.seedCanvasFixture({ name: 'undo-sessions', elements: Object.fromEntries(elements.map((element) => [element.id, element])) });
+
+    expectExitCode(await context.runCanvasCli(['move', '--canvas', seeded.canvas.id, '--id', 'a', '--relative', '--x', '10', '--y', '0', '--session', 'agent-1', '--json']), 0);
+    expectExitCode(await context.runCanvasCli(['move', '--canvas', seeded.canvas.id, '--id', 'b', '--relative', '--x', '0', '--y', '30', '--session', 'agent-2', '--json']), 0);
+
+    const undo = await context.runCanvasCli(['undo', '--canvas', seeded.canvas.id, '--session', 'agent-1', '--json']);
+    expectExitCode(undo, 0);
+    expectNoStderr(undo);
+    expect(parseJsonStdout<THistoryStepJson>(undo)).toMatchObject({ ok: true, command: 'canvas.undo', dryRun: false, origin: 'cli:agent-1', entry: { label: 'canvas.move' }, changedIds: ['a'], skippedIds: [], undoCount: 0, redoCount: 1 });
+    let doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect([doc.elements.a!.x, doc.elements.b!.y]).toEqual([0, 30]);
+
+    const redo = await context.runCanvasCli(['redo', '--canvas', seeded.canvas.id, '--session', 'agent-1']);
+    expectExitCode(redo, 0);
+    expect(redo.stdout).toContain(`Redo canvas.move origin=cli:agent-1 changed=1 skipped=0 undo=1 redo=0 canvas=${seeded.canvas.id}`);
+    expect(redo.stdout).toContain('- reapplied id=a');
+    doc = await context.readCanvasDoc(seeded.canvas.automerge_url);
+    expect([doc.elements.a!.x, doc.elements.b!.y]).toEqual([10, 30]);
+  });
+
+  test('reports empty stacks with a hint', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'undo-empty', elements: { a: createRectElement({ id: 'a' }) } });
+
+    const undo = await context.runCanvasCli(['undo', '--canvas', seeded.canvas.id, '--json']);
+    expectExitCode(undo, 1);
+    expect(JSON.parse(undo.stderr)).toMatchObject({ ok: false, command: 'canvas.undo', code: 'CANVAS_UNDO_EMPTY' });
+
+    const redo = await context.runCanvasCli(['redo', '--canvas', seeded.canvas.id, '--json']);
+    expectExitCode(redo, 1);
+    expect(JSON.parse(redo.stderr)).toMatchObject({ ok: false, command: 'canvas.redo', code: 'CANVAS_REDO_EMPTY' });
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { createCliTestContext, createRectElement, expectExitCode, expectNoStderr, parseJsonStdout, type TCliTestContext } from '../harness';
+
+type THistoryJson = { heads: string[] };
+
+const contexts: TCliTestContext[] = [];
+
+afterEach(async () => {
+  while (contexts.length > 0) {
+    await contexts.pop()?.cleanup();
+  }
+});
+
+async function createContext(): Promise<TCliTestContext> {
+  const context = await createCliTestContext();
+  contexts.push(context);
+  return context;
+}
+
+function parseNdjson(stdout: string): Array<Record<string, unknown>> {
+  return stdout.trim().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>);
+}
+
+describe('canvas CLI watch', () => {
+  test('streams a change made by another CLI run as NDJSON and text', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'watch', elements: { a: createRectElement({ id: 'a', x: 0, y: 0 }) } });
+    const { heads } = parseJsonStdout<THistoryJson>(await context.runCanvasCli(['history', '--canvas', seeded.canvas.id, '--json']));
+
+    // --since covers the move whether it lands before or after the watch starts.
+    const [watch, move] = await Promise.all([
+      context.runCanvasCli(['watch', '--canvas', seeded.canvas.id, '--since', heads.join(','), '--limit', '1', '--json']),
+      context.runCanvasCli(['move', '--canvas', seeded.canvas.id, '--id', 'a', '--relative', '--x', '10', '--y', '0', '--session', 'agent-1', '--json']),
+    ]);
+    expectExitCode(move, 0);
+    expectExitCode(watch, 0);
+    expectNoStderr(watch);
+    const events = parseNdjson(watch.stdout);
+    expect(events.map((event) => event.event)).toEqual(['ready', 'element.changed']);
+    expect(events[1]).toMatchObject({ id: 'a', kind: 'element', type: 'rect', fields: [{ path: 'x', before: 0, after: 10 }], origins: ['cli:agent-1'], labels: ['canvas.move'] });
+
+    const text = await context.runCanvasCli(['watch', '--canvas', seeded.canvas.id, '--since', heads.join(','), '--id', 'a', '--limit', '1']);
+    expectExitCode(text, 0);
+    expect(text.stdout).toContain(`Watching canvas=${seeded.canvas.id} name="watch"`);
+    expect(text.stdout).toContain('~ element rect id=a x: 0 -> 10 by=cli:agent-1 labels=canvas.move');
+  });
+
+  test('rejects unknown --since heads with a hint', async () => {
+    const context = await createContext();
+    const seeded = await context.seedCanvasFixture({ name: 'watch-invalid', elements: { a: createRectElement({ id: 'a' }) } });
+
+    const result = await context.runCanvasCli(['watch', '--canvas', seeded.canvas.id, '--since', '0'.repeat(64), '--json']);
+    expectExitCode(result, 1);
+    expect(JSON.parse(result.stderr)).toMatchObject({ ok: false, command: 'canvas.watch', code: 'CANVAS_WATCH_SINCE_NOT_FOUND' });
+  });
+});
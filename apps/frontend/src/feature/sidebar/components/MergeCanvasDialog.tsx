@@ -0,0 +1,78 @@
+import type { Component } from "solid-js";
+import { Show } from "solid-js";
+import { Dialog } from "@kobalte/core/dialog";
+import { Button } from "@kobalte/core/button";
+import type { TBackendCanvas } from "../../../types/backend.types";
+
+export type TMergeCanvasPreview = {
+  mergedChangeCount: number;
+  addedCount: number;
+  removedCount: number;
+  modifiedCount: number;
+};
+
+export type MergeCanvasDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fork: TBackendCanvas | null;
+  targetName: string | null;
+  /** Dry-run result; null while it loads. */
+  preview: TMergeCanvasPreview | null;
+  onMerge: () => void;
+};
+
+export const MergeCanvasDialog: Component<MergeCanvasDialogProps> = (props) => {
+  const handleMerge = () => {
+    props.onMerge();
+    props.onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay class="fixed inset-0 bg-black/50 z-40" />
+        <Dialog.Content class="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-popover text-popover-foreground border border-border shadow-md p-6 z-50 w-100 max-w-[90vw]">
+          <Dialog.Title class="font-display text-base text-foreground mb-1">
+            Merge Fork
+          </Dialog.Title>
+          <Dialog.Description class="text-xs text-muted-foreground mb-4">
+            Merge the changes made on "{props.fork?.name}" into "{props.targetName ?? "the original canvas"}". Edits made on both canvases are kept.
+          </Dialog.Description>
+
+          <div class="mb-6 border border-border bg-card px-3 py-2 text-xs text-foreground">
+            <Show when={props.preview} fallback={<span class="text-muted-foreground">Checking changes…</span>}>
+              {(preview) => (
+                <Show when={preview().mergedChangeCount > 0} fallback={<span class="text-muted-foreground">Nothing to merge; the original already has every change.</span>}>
+                  <div>{preview().mergedChangeCount} {preview().mergedChangeCount === 1 ? "change" : "changes"} to merge</div>
+                  <div class="mt-1 flex gap-3 text-muted-foreground">
+                    <span class="text-green-600">+{preview().addedCount} added</span>
+                    <span class="text-amber-600">~{preview().modifiedCount} changed</span>
+                    <span class="text-red-600">-{preview().removedCount} removed</span>
+                  </div>
+                </Show>
+              )}
+            </Show>
+          </div>
+
+          <div class="flex justify-end gap-2">
+            <Button
+              class="px-4 py-2 text-xs font-medium bg-secondary text-secondary-foreground border border-border hover:bg-stone-300 dark:hover:bg-stone-700 transition-colors"
+              onClick={() => props.onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              class="px-4 py-2 text-xs font-medium bg-primary text-primary-foreground hover:bg-amber-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!props.preview || props.preview.mergedChangeCount === 0}
+              onClick={handleMerge}
+            >
+              Merge
+            </Button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog>
+  );
+};
+
+export default MergeCanvasDialog;
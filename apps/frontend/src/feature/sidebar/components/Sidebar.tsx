@@ -1,17 +1,23 @@
 import { Button } from "@kobalte/core/button";
 import { useLocation, useNavigate } from "@solidjs/router";
+import FileUp from "lucide-solid/icons/file-up";
 import Plus from "lucide-solid/icons/plus";
+import Upload from "lucide-solid/icons/upload";
 import type { Component } from "solid-js";
 import { For, createSignal } from "solid-js";
 import { orpcWebsocketService } from "../../../services/orpc-websocket";
 import type { TBackendCanvas } from "../../../types/backend.types";
 import { CreateCanvasDialog } from "./CreateCanvasDialog";
 import { DeleteCanvasDialog } from "./DeleteCanvasDialog";
+import { MergeCanvasDialog, type TMergeCanvasPreview } from "./MergeCanvasDialog";
 import { RenameDialog } from "./RenameDialog";
 import SidebarItem from "./SidebarItem";
-import { showErrorToast } from "@/components/ui/Toast";
+import { exportExcalidrawFile, importExcalidrawFile } from "../excalidraw";
+import { exportCanvasFile, importCanvasFile } from "../vibecanvas-file";
+import { CANVAS_FILE_EXTENSION } from "@vibecanvas/canvas-cmds/core/fn.canvas-file";
+import { showErrorToast, showSuccessToast, showToast } from "@/components/ui/Toast";
 import { removeFromCache } from "@/services/automerge";
-import { store, setStore } from "@/store";
+import { store, setStore, upsertCanvas } from "@/store";
 
 export type SidebarProps = {
   visible?: boolean;
@@ -40,6 +46,14 @@ const Sidebar: Component<SidebarProps> = (props) => {
   // Create dialog state
   const [createDialogOpen, setCreateDialogOpen] = createSignal(false);
 
+  // Merge dialog state
+  const [mergeDialogOpen, setMergeDialogOpen] = createSignal(false);
+  const [forkToMerge, setForkToMerge] = createSignal<TBackendCanvas | null>(null);
+  const [mergePreview, setMergePreview] = createSignal<TMergeCanvasPreview | null>(null);
+
+  let importInputRef: HTMLInputElement | undefined;
+  let importCanvasFileInputRef: HTMLInputElement | undefined;
+
   const handleOpenRenameDialog = (canvasId: string, canvasName: string) => {
     setCanvasToRename({ id: canvasId, name: canvasName });
     setRenameDialogOpen(true);
@@ -50,13 +64,33 @@ const Sidebar: Component<SidebarProps> = (props) => {
     setDeleteDialogOpen(true);
   };
 
+  const handleOpenMergeDialog = async (fork: TBackendCanvas) => {
+    setForkToMerge(fork);
+    setMergePreview(null);
+    setMergeDialogOpen(true);
+
+    const [err, data] = await orpcWebsocketService.apiService.api.canvas.merge({ params: { id: fork.id }, body: { dryRun: true } })
+    if (err) {
+      setMergeDialogOpen(false);
+      showErrorToast("Merge check failed", err.message);
+      return;
+    }
+    if (forkToMerge()?.id !== fork.id) return;
+    setMergePreview({
+      mergedChangeCount: data.mergedChangeCount,
+      addedCount: data.addedIds.length,
+      removedCount: data.removedIds.length,
+      modifiedCount: data.modifiedIds.length,
+    });
+  };
+
   const handleRename = async (newName: string) => {
     const canvas = canvasToRename();
     if (canvas) {
       const [err, data] = await orpcWebsocketService.apiService.api.canvas.update({ params: { id: canvas.id }, body: { name: newName } })
       if (err) showErrorToast(err.message)
       if (data) {
-        setStore("canvases", c => c.id === canvas.id, data)
+        upsertCanvas(data)
       }
     }
   };
@@ -79,11 +113,76 @@ const Sidebar: Component<SidebarProps> = (props) => {
     const [err, data] = await orpcWebsocketService.apiService.api.canvas.create({ name: title })
     if (err) showErrorToast(err.message)
     if (data) {
-      setStore("canvases", prev => [...prev, data])
+      upsertCanvas(data)
+      navigate(`/c/${data.id}`)
+    }
+  };
+
+  const handleCopyCanvas = async (canvas: TBackendCanvas, mode: "duplicate" | "fork") => {
+    const [err, data] = await orpcWebsocketService.apiService.api.canvas[mode]({ params: { id: canvas.id }, body: {} })
+    if (err) showErrorToast(mode === "fork" ? "Fork failed" : "Duplicate failed", err.message)
+    if (data) {
+      upsertCanvas(data)
       navigate(`/c/${data.id}`)
     }
   };
 
+  const handleMerge = async () => {
+    const fork = forkToMerge();
+    if (!fork) return;
+    const [err, data] = await orpcWebsocketService.apiService.api.canvas.merge({ params: { id: fork.id }, body: {} })
+    if (err) {
+      showErrorToast("Merge failed", err.message)
+      return;
+    }
+    showSuccessToast(`Merged ${data.mergedChangeCount} ${data.mergedChangeCount === 1 ? "change" : "changes"}`)
+    navigate(`/c/${data.targetId}`)
+  };
+
+  const getCanvasName = (id: string | null | undefined) => store.canvases.find(c => c.id === id)?.name ?? null;
+
+  const handleImportExcalidraw = async (file: File) => {
+    try {
+      const result = await importExcalidrawFile(file, store.canvases.map(c => c.name))
+      upsertCanvas(result.canvas)
+      navigate(`/c/${result.canvas.id}`)
+      if (result.skippedCount > 0) {
+        showToast(`Imported ${result.importedCount} elements`, `${result.skippedCount} unsupported elements were skipped`)
+      } else {
+        showSuccessToast(`Imported ${result.importedCount} elements`)
+      }
+    } catch (error) {
+      showErrorToast("Excalidraw import failed", error instanceof Error ? error.message : String(error))
+    }
+  };
+
+  const handleExportExcalidraw = async (canvas: TBackendCanvas) => {
+    try {
+      await exportExcalidrawFile(canvas)
+    } catch (error) {
+      showErrorToast("Excalidraw export failed", error instanceof Error ? error.message : String(error))
+    }
+  };
+
+  const handleImportCanvasFile = async (file: File) => {
+    try {
+      const canvas = await importCanvasFile(file)
+      upsertCanvas(canvas)
+      navigate(`/c/${canvas.id}`)
+      showSuccessToast(`Imported ${canvas.name}`)
+    } catch (error) {
+      showErrorToast("Canvas import failed", error instanceof Error ? error.message : String(error))
+    }
+  };
+
+  const handleExportCanvasFile = async (canvas: TBackendCanvas) => {
+    try {
+      await exportCanvasFile(canvas)
+    } catch (error) {
+      showErrorToast("Canvas export failed", error instanceof Error ? error.message : String(error))
+    }
+  };
+
   return (
     <>
       <aside
@@ -106,6 +205,11 @@ const Sidebar: Component<SidebarProps> = (props) => {
                 selected={activeCanvasId() === canvas.id}
                 onClick={() => navigate(`/c/${canvas.id}`)}
                 onRename={() => handleOpenRenameDialog(canvas.id, canvas.name)}
+                onExportExcalidraw={() => handleExportExcalidraw(canvas)}
+                onExportFile={() => handleExportCanvasFile(canvas)}
+                onDuplicate={() => handleCopyCanvas(canvas, "duplicate")}
+                onFork={() => handleCopyCanvas(canvas, "fork")}
+                onMerge={canvas.forked_from_id && getCanvasName(canvas.forked_from_id) ? () => handleOpenMergeDialog(canvas) : undefined}
                 onDelete={() => handleOpenDeleteDialog(canvas)}
               />
             )}
@@ -119,6 +223,46 @@ const Sidebar: Component<SidebarProps> = (props) => {
             <Plus size={14} class="text-muted-foreground" />
             <span class="font-medium text-xs text-foreground">New Canvas</span>
           </Button>
+
+          {/* Import Excalidraw Button */}
+          <Button
+            class="w-full text-left px-3 py-1.5 flex items-center gap-2 hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors"
+            onClick={() => importInputRef?.click()}
+          >
+            <Upload size={14} class="text-muted-foreground" />
+            <span class="font-medium text-xs text-foreground">Import Excalidraw</span>
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".excalidraw,application/json"
+            class="hidden"
+            onChange={(e) => {
+              const file = e.currentTarget.files?.[0];
+              e.currentTarget.value = "";
+              if (file) void handleImportExcalidraw(file);
+            }}
+          />
+
+          {/* Import .vibecanvas Button */}
+          <Button
+            class="w-full text-left px-3 py-1.5 flex items-center gap-2 hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors"
+            onClick={() => importCanvasFileInputRef?.click()}
+          >
+            <FileUp size={14} class="text-muted-foreground" />
+            <span class="font-medium text-xs text-foreground">Import {CANVAS_FILE_EXTENSION} file</span>
+          </Button>
+          <input
+            ref={importCanvasFileInputRef}
+            type="file"
+            accept={CANVAS_FILE_EXTENSION}
+            class="hidden"
+            onChange={(e) => {
+              const file = e.currentTarget.files?.[0];
+              e.currentTarget.value = "";
+              if (file) void handleImportCanvasFile(file);
+            }}
+          />
         </div>
 
         {/* TODO: Settings footer — uncomment when implemented
@@ -150,6 +294,16 @@ const Sidebar: Component<SidebarProps> = (props) => {
         onDelete={handleDelete}
       />
 
+      {/* Merge Fork Dialog */}
+      <MergeCanvasDialog
+        open={mergeDialogOpen()}
+        onOpenChange={setMergeDialogOpen}
+        fork={forkToMerge()}
+        targetName={getCanvasName(forkToMerge()?.forked_from_id)}
+        preview={mergePreview()}
+        onMerge={handleMerge}
+      />
+
       {/* Create Canvas Dialog */}
       <CreateCanvasDialog
         open={createDialogOpen()}
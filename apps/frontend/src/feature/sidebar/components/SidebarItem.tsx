@@ -1,5 +1,11 @@
 import type { Component } from "solid-js";
+import { Show } from "solid-js";
 import { DropdownMenu } from "@kobalte/core/dropdown-menu";
+import Copy from "lucide-solid/icons/copy";
+import Download from "lucide-solid/icons/download";
+import FileDown from "lucide-solid/icons/file-down";
+import GitFork from "lucide-solid/icons/git-fork";
+import GitMerge from "lucide-solid/icons/git-merge";
 import MoreHorizontal from "lucide-solid/icons/more-horizontal";
 import Pencil from "lucide-solid/icons/pencil";
 import Trash2 from "lucide-solid/icons/trash-2";
@@ -9,6 +15,13 @@ export type SidebarItemProps = {
   selected?: boolean;
   onClick?: () => void;
   onRename?: () => void;
+  onExportExcalidraw?: () => void;
+  /** Downloads the canvas as a self-contained `.vibecanvas` file. */
+  onExportFile?: () => void;
+  onDuplicate?: () => void;
+  onFork?: () => void;
+  /** Only set for forks; merges the fork back into the canvas it was forked from. */
+  onMerge?: () => void;
   onDelete?: () => void;
 };
 
@@ -43,6 +56,43 @@ const SidebarItem: Component<SidebarItemProps> = (props) => {
               <Pencil size={12} />
               <DropdownMenu.ItemLabel>Rename</DropdownMenu.ItemLabel>
             </DropdownMenu.Item>
+            <DropdownMenu.Item
+              class="flex items-center gap-2 px-3 py-1.5 text-xs text-foreground data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground cursor-pointer outline-none"
+              onSelect={() => props.onExportExcalidraw?.()}
+            >
+              <Download size={12} />
+              <DropdownMenu.ItemLabel>Export to Excalidraw</DropdownMenu.ItemLabel>
+            </DropdownMenu.Item>
+            <DropdownMenu.Item
+              class="flex items-center gap-2 px-3 py-1.5 text-xs text-foreground data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground cursor-pointer outline-none"
+              onSelect={() => props.onExportFile?.()}
+            >
+              <FileDown size={12} />
+              <DropdownMenu.ItemLabel>Export .vibecanvas file</DropdownMenu.ItemLabel>
+            </DropdownMenu.Item>
+            <DropdownMenu.Item
+              class="flex items-center gap-2 px-3 py-1.5 text-xs text-foreground data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground cursor-pointer outline-none"
+              onSelect={() => props.onDuplicate?.()}
+            >
+              <Copy size={12} />
+              <DropdownMenu.ItemLabel>Duplicate</DropdownMenu.ItemLabel>
+            </DropdownMenu.Item>
+            <DropdownMenu.Item
+              class="flex items-center gap-2 px-3 py-1.5 text-xs text-foreground data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground cursor-pointer outline-none"
+              onSelect={() => props.onFork?.()}
+            >
+              <GitFork size={12} />
+              <DropdownMenu.ItemLabel>Fork</DropdownMenu.ItemLabel>
+            </DropdownMenu.Item>
+            <Show when={props.onMerge}>
+              <DropdownMenu.Item
+                class="flex items-center gap-2 px-3 py-1.5 text-xs text-foreground data-[highlighted]:bg-accent data-[highlighted]:text-accent-foreground cursor-pointer outline-none"
+                onSelect={() => props.onMerge?.()}
+              >
+                <GitMerge size={12} />
+                <DropdownMenu.ItemLabel>Merge into original</DropdownMenu.ItemLabel>
+              </DropdownMenu.Item>
+            </Show>
             <DropdownMenu.Item
               class="flex items-center gap-2 px-3 py-1.5 text-xs text-destructive data-[highlighted]:bg-destructive data-[highlighted]:text-destructive-foreground cursor-pointer outline-none"
               onSelect={() => props.onDelete?.()}
@@ -3,8 +3,10 @@ export { default as SidebarItem } from "./SidebarItem";
 export { RenameDialog } from "./RenameDialog";
 export { DeleteCanvasDialog } from "./DeleteCanvasDialog";
 export { CreateCanvasDialog } from "./CreateCanvasDialog";
+export { MergeCanvasDialog } from "./MergeCanvasDialog";
 export type { SidebarProps } from "./Sidebar";
 export type { SidebarItemProps } from "./SidebarItem";
 export type { RenameDialogProps } from "./RenameDialog";
 export type { DeleteCanvasDialogProps } from "./DeleteCanvasDialog";
 export type { CreateCanvasDialogProps } from "./CreateCanvasDialog";
+export type { MergeCanvasDialogProps, TMergeCanvasPreview } from "./MergeCanvasDialog";
@@ -0,0 +1,133 @@
+/**
+ * Excalidraw Import/Export
+ *
+ * Converts `.excalidraw` files to and from canvas documents in the browser,
+ * using the same converter as the `vibecanvas canvas import/export` commands.
+ */
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from "@vibecanvas/canvas-cmds/core/fn.connector"
+import { fnCanvasToExcalidraw, fnExcalidrawToCanvas, fnParseExcalidrawScene, type TExcalidrawImportFile, type TExcalidrawScene } from "@vibecanvas/canvas-cmds/core/fn.excalidraw"
+import { fnIsImageFileFormat, fnParseDataUrl, fnReadImageSize } from "@vibecanvas/canvas-cmds/core/fn.image-file"
+import type { TCanvasDoc } from "@vibecanvas/service-automerge/types/canvas-doc"
+import type { AutomergeUrl } from "@automerge/automerge-repo"
+import { findDocument } from "@/services/automerge"
+import { orpcWebsocketService } from "@/services/orpc-websocket"
+import type { TBackendCanvas } from "@/types/backend.types"
+
+export type TExcalidrawImportSummary = {
+  canvas: TBackendCanvas
+  importedCount: number
+  skippedCount: number
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read image blob"))
+    reader.readAsDataURL(blob)
+  })
+}
+
+function getUniqueCanvasName(baseName: string, existingNames: readonly string[]): string {
+  const names = new Set(existingNames)
+  if (!names.has(baseName)) return baseName
+  let index = 2
+  while (names.has(`${baseName} (${index})`)) index += 1
+  return `${baseName} (${index})`
+}
+
+/**
+ * Uploads every raster image referenced by the scene through the file api.
+ * Images that cannot be stored are left out, so their elements are skipped by the converter.
+ */
+async function uploadSceneFiles(scene: TExcalidrawScene): Promise<Record<string, TExcalidrawImportFile>> {
+  const usedFileIds = new Set(scene.elements.filter((element) => element.type === "image" && !element.isDeleted).map((element) => element.fileId))
+  const files: Record<string, TExcalidrawImportFile> = {}
+
+  for (const [fileId, file] of Object.entries(scene.files)) {
+    if (!usedFileIds.has(fileId) || typeof file?.dataURL !== "string") continue
+
+    const payload = fnParseDataUrl(file.dataURL)
+    if (!payload || !fnIsImageFileFormat(payload.mimeType)) continue
+
+    const size = fnReadImageSize(base64ToBytes(payload.base64), payload.mimeType)
+    if (!size) continue
+
+    const [error, result] = await orpcWebsocketService.apiService.api.file.put({ body: { base64: payload.base64, format: payload.mimeType } })
+    if (error || !result) continue
+    files[fileId] = { url: result.url, naturalWidth: size.width, naturalHeight: size.height }
+  }
+
+  return files
+}
+
+/**
+ * Creates a new canvas named after the file and fills it with the converted scene.
+ */
+export async function importExcalidrawFile(file: File, existingNames: readonly string[]): Promise<TExcalidrawImportSummary> {
+  const scene = fnParseExcalidrawScene(await file.text())
+  if (!scene) throw new Error(`${file.name} is not an Excalidraw file`)
+
+  const files = await uploadSceneFiles(scene)
+  const now = Date.now()
+  const imported = fnExcalidrawToCanvas(scene, { zIndexStart: 0, now, files, createId: () => crypto.randomUUID() })
+  if (Object.keys(imported.elements).length === 0) throw new Error(`${file.name} has no importable elements`)
+
+  const baseName = file.name.replace(/\.[^.]+$/, "").trim() || "Excalidraw import"
+  const [error, canvas] = await orpcWebsocketService.apiService.api.canvas.create({ name: getUniqueCanvasName(baseName, existingNames) })
+  if (error || !canvas) throw new Error(error?.message ?? "Failed to create canvas")
+
+  const handle = await findDocument(canvas.automerge_url as AutomergeUrl)
+  handle.change((doc) => {
+    for (const group of Object.values(imported.groups)) doc.groups[group.id] = structuredClone(group)
+    for (const element of Object.values(imported.elements)) doc.elements[element.id] = structuredClone(element)
+    fnApplyConnectorPatches(doc, fnRouteBoundConnectors(doc, now))
+  })
+
+  return { canvas, importedCount: Object.keys(imported.elements).length, skippedCount: imported.skipped.length }
+}
+
+/**
+ * Inlines uploaded images so the exported file stands alone.
+ */
+async function resolveImageDataUrls(doc: TCanvasDoc): Promise<Record<string, string>> {
+  const entries = await Promise.all(Object.values(doc.elements).map(async (element) => {
+    if (element.data.type !== "image" || element.data.base64 || !element.data.url) return null
+
+    try {
+      const response = await fetch(element.data.url)
+      if (!response.ok) return null
+      return [element.id, await blobToDataUrl(await response.blob())] as const
+    } catch {
+      return null
+    }
+  }))
+
+  return Object.fromEntries(entries.filter((entry) => entry !== null))
+}
+
+/**
+ * Downloads the canvas as `<canvas name>.excalidraw`.
+ */
+export async function exportExcalidrawFile(canvas: TBackendCanvas): Promise<void> {
+  const handle = await findDocument(canvas.automerge_url as AutomergeUrl)
+  const current = handle.doc()
+  if (!current) throw new Error("Canvas document is unavailable")
+
+  const doc = structuredClone(current) as TCanvasDoc
+  const { scene } = fnCanvasToExcalidraw(doc, { imageDataUrls: await resolveImageDataUrls(doc), now: Date.now() })
+  if (scene.elements.length === 0) throw new Error(`${canvas.name} has nothing to export`)
+
+  const href = URL.createObjectURL(new Blob([JSON.stringify(scene, null, 2)], { type: "application/json" }))
+  const anchor = document.createElement("a")
+  anchor.href = href
+  anchor.download = `${canvas.name.trim().replace(/[\\/:*?"<>|]+/g, "-") || "canvas"}.excalidraw`
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  URL.revokeObjectURL(href)
+}
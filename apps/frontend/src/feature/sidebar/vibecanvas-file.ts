@@ -0,0 +1,35 @@
+/**
+ * .vibecanvas Import/Export
+ *
+ * One canvas as a single file with its history and images, produced and read by the server
+ * through the same commands as `vibecanvas canvas export-doc/import-doc`.
+ */
+import { CANVAS_FILE_MIME_TYPE } from "@vibecanvas/canvas-cmds/core/fn.canvas-file"
+import { orpcWebsocketService } from "@/services/orpc-websocket"
+import type { TBackendCanvas } from "@/types/backend.types"
+
+/**
+ * Creates a new canvas from the file; a taken name gets a numbered suffix.
+ */
+export async function importCanvasFile(file: File): Promise<TBackendCanvas> {
+  const [error, canvas] = await orpcWebsocketService.apiService.api.canvas.importDoc({ content: await file.text() })
+  if (error || !canvas) throw new Error(error?.message ?? `Failed to import ${file.name}`)
+  return canvas
+}
+
+/**
+ * Downloads the canvas as `<canvas name>.vibecanvas`.
+ */
+export async function exportCanvasFile(canvas: TBackendCanvas): Promise<void> {
+  const [error, result] = await orpcWebsocketService.apiService.api.canvas.exportDoc({ params: { id: canvas.id } })
+  if (error || !result) throw new Error(error?.message ?? `Failed to export ${canvas.name}`)
+
+  const href = URL.createObjectURL(new Blob([result.content], { type: CANVAS_FILE_MIME_TYPE }))
+  const anchor = document.createElement("a")
+  anchor.href = href
+  anchor.download = result.fileName
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  URL.revokeObjectURL(href)
+}
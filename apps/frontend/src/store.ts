@@ -22,4 +22,22 @@ orpcWebsocketService.apiService.api.canvas.list()
     setStore("canvases", result);
   });
 
-export { init, setStore, store };
+/** Adds the canvas to the list, or replaces it when it is already there, e.g. after a live event. */
+function upsertCanvas(canvas: TBackendCanvas) {
+  setStore("canvases", prev => prev.some(c => c.id === canvas.id)
+    ? prev.map(c => c.id === canvas.id ? canvas : c)
+    : [...prev, canvas]);
+}
+
+// Follow canvases created, renamed, or removed elsewhere: other tabs, the CLI, or agents
+orpcWebsocketService.apiService.api.db.canvasEvents({})
+  .then(async ([err, it]) => {
+    if (err || !it) return;
+    for await (const { data } of it) {
+      if (data.table !== "canvas") continue;
+      if (data.change === "delete") setStore("canvases", prev => prev.filter(c => c.id !== data.id));
+      else upsertCanvas(data.record as TBackendCanvas);
+    }
+  });
+
+export { init, setStore, store, upsertCanvas };
@@ -0,0 +1,14 @@
+import { txExecuteCanvasAlign } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.align';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdAlignCanvas = baseCanvasCmdOs.align.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasAlign(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdAlignCanvas };
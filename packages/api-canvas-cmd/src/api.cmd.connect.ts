@@ -0,0 +1,19 @@
+import { txExecuteCanvasConnect, type TCanvasConnectInput } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.connect';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+function fnDropClientElementId(input: TCanvasConnectInput): TCanvasConnectInput {
+  const { id: _ignoredId, ...rest } = input;
+  return rest;
+}
+
+const apiCmdConnectCanvas = baseCanvasCmdOs.connect.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasConnect(createCanvasCmdContext(context), fnDropClientElementId(input));
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdConnectCanvas };
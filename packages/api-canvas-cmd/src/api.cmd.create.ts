@@ -0,0 +1,17 @@
+import { txExecuteCanvasCreate } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.create';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { publishCanvasRowEvent } from './cmd.events';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdCreateCanvas = baseCanvasCmdOs.create.handler(async ({ input, context }) => {
+  try {
+    const result = await txExecuteCanvasCreate(createCanvasCmdContext(context), input);
+    publishCanvasRowEvent(context, 'insert', result.canvas.id);
+    return result;
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdCreateCanvas };
@@ -0,0 +1,14 @@
+import { txExecuteCanvasDiagram } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.diagram';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdDiagramCanvas = baseCanvasCmdOs.diagram.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasDiagram(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdDiagramCanvas };
@@ -0,0 +1,14 @@
+import { fxExecuteCanvasDiff } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.diff';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdDiffCanvas = baseCanvasCmdOs.diff.handler(async ({ input, context }) => {
+  try {
+    return await fxExecuteCanvasDiff(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdDiffCanvas };
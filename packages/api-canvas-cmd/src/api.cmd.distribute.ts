@@ -0,0 +1,14 @@
+import { txExecuteCanvasDistribute } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.distribute';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdDistributeCanvas = baseCanvasCmdOs.distribute.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasDistribute(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdDistributeCanvas };
@@ -0,0 +1,17 @@
+import { txExecuteCanvasDuplicate } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.duplicate';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { publishCanvasRowEvent } from './cmd.events';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdDuplicateCanvas = baseCanvasCmdOs.duplicate.handler(async ({ input, context }) => {
+  try {
+    const result = await txExecuteCanvasDuplicate(createCanvasCmdContext(context), input);
+    publishCanvasRowEvent(context, 'insert', result.canvas.id);
+    return result;
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdDuplicateCanvas };
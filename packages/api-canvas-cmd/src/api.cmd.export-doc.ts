@@ -0,0 +1,14 @@
+import { fxExecuteCanvasExportDoc } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export-doc';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdExportDocCanvas = baseCanvasCmdOs.exportDoc.handler(async ({ input, context }) => {
+  try {
+    return await fxExecuteCanvasExportDoc(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdExportDocCanvas };
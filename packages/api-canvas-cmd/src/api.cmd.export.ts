@@ -0,0 +1,14 @@
+import { fxExecuteCanvasExport } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdExportCanvas = baseCanvasCmdOs.export.handler(async ({ input, context }) => {
+  try {
+    return await fxExecuteCanvasExport(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdExportCanvas };
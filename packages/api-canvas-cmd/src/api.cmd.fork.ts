@@ -0,0 +1,17 @@
+import { txExecuteCanvasFork } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.fork';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { publishCanvasRowEvent } from './cmd.events';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdForkCanvas = baseCanvasCmdOs.fork.handler(async ({ input, context }) => {
+  try {
+    const result = await txExecuteCanvasFork(createCanvasCmdContext(context), input);
+    publishCanvasRowEvent(context, 'insert', result.canvas.id);
+    return result;
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdForkCanvas };
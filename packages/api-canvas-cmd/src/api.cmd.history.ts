@@ -0,0 +1,14 @@
+import { fxExecuteCanvasHistory } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.history';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdHistoryCanvas = baseCanvasCmdOs.history.handler(async ({ input, context }) => {
+  try {
+    return await fxExecuteCanvasHistory(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdHistoryCanvas };
@@ -0,0 +1,17 @@
+import { txExecuteCanvasImportDoc } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import-doc';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { publishCanvasRowEvent } from './cmd.events';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdImportDocCanvas = baseCanvasCmdOs.importDoc.handler(async ({ input, context }) => {
+  try {
+    const result = await txExecuteCanvasImportDoc(createCanvasCmdContext(context), input);
+    publishCanvasRowEvent(context, 'insert', result.canvas.id);
+    return result;
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdImportDocCanvas };
@@ -0,0 +1,17 @@
+import { txExecuteCanvasImport } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { publishCanvasRowEvent } from './cmd.events';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdImportCanvas = baseCanvasCmdOs.import.handler(async ({ input, context }) => {
+  try {
+    const result = await txExecuteCanvasImport(createCanvasCmdContext(context), input);
+    if (result.created) publishCanvasRowEvent(context, 'insert', result.canvas.id);
+    return result;
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdImportCanvas };
@@ -0,0 +1,14 @@
+import { txExecuteCanvasLayout } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.layout';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdLayoutCanvas = baseCanvasCmdOs.layout.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasLayout(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdLayoutCanvas };
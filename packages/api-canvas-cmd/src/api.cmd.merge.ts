@@ -0,0 +1,14 @@
+import { txExecuteCanvasMerge } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.merge';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdMergeCanvas = baseCanvasCmdOs.merge.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasMerge(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdMergeCanvas };
@@ -0,0 +1,14 @@
+import { txExecuteCanvasRedo } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.redo';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdRedoCanvas = baseCanvasCmdOs.redo.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasRedo(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdRedoCanvas };
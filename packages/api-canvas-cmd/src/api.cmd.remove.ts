@@ -0,0 +1,17 @@
+import { txExecuteCanvasRemove } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.remove';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { publishCanvasRowEvent } from './cmd.events';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdRemoveCanvas = baseCanvasCmdOs.remove.handler(async ({ input, context }) => {
+  try {
+    const result = await txExecuteCanvasRemove(createCanvasCmdContext(context), input);
+    publishCanvasRowEvent(context, 'delete', result.canvas.id);
+    return result;
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdRemoveCanvas };
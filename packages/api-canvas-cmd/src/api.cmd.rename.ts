@@ -0,0 +1,17 @@
+import { txExecuteCanvasRename } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.rename';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { publishCanvasRowEvent } from './cmd.events';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdRenameCanvas = baseCanvasCmdOs.rename.handler(async ({ input, context }) => {
+  try {
+    const result = await txExecuteCanvasRename(createCanvasCmdContext(context), input);
+    publishCanvasRowEvent(context, 'update', result.canvas.id);
+    return result;
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdRenameCanvas };
@@ -0,0 +1,14 @@
+import { txExecuteCanvasRestore } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.restore';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdRestoreCanvas = baseCanvasCmdOs.restore.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasRestore(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdRestoreCanvas };
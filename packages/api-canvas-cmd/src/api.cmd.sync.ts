@@ -0,0 +1,14 @@
+import { txExecuteCanvasSync } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.sync';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdSyncCanvas = baseCanvasCmdOs.sync.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasSync(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdSyncCanvas };
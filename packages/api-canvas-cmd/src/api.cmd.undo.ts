@@ -0,0 +1,14 @@
+import { txExecuteCanvasUndo } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.undo';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdUndoCanvas = baseCanvasCmdOs.undo.handler(async ({ input, context }) => {
+  try {
+    return await txExecuteCanvasUndo(createCanvasCmdContext(context), input);
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdUndoCanvas };
@@ -0,0 +1,14 @@
+import { fxExecuteCanvasWatch } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.watch';
+import { createCanvasCmdContext } from './cmd.context';
+import { rethrowCanvasCmdAsOrpcError } from './cmd.error';
+import { baseCanvasCmdOs } from './orpc';
+
+const apiCmdWatchCanvas = baseCanvasCmdOs.watch.handler(async function* ({ input, context, signal }) {
+  try {
+    yield* fxExecuteCanvasWatch(createCanvasCmdContext(context), input, { signal });
+  } catch (error) {
+    rethrowCanvasCmdAsOrpcError(error);
+  }
+});
+
+export { apiCmdWatchCanvas };
@@ -1,12 +1,34 @@
 import type { TPortal as TCanvasAddPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.add';
+import type { TPortal as TCanvasAlignPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.align';
+import type { TPortal as TCanvasConnectPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.connect';
+import type { TPortal as TCanvasCreatePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.create';
 import type { TPortal as TCanvasDeletePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.delete';
+import type { TPortal as TCanvasDiagramPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.diagram';
+import type { TPortal as TCanvasDistributePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.distribute';
+import type { TPortal as TCanvasExportPortal } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export';
+import type { TPortal as TCanvasExportDocPortal } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export-doc';
+import type { TPortal as TCanvasHistoryPortal } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.history';
+import type { TPortal as TCanvasDiffPortal } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.diff';
+import type { TPortal as TCanvasDuplicatePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.duplicate';
+import type { TPortal as TCanvasForkPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.fork';
+import type { TPortal as TCanvasMergePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.merge';
 import type { TPortal as TCanvasGroupPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.group';
+import type { TPortal as TCanvasImportPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import';
+import type { TPortal as TCanvasImportDocPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import-doc';
+import type { TPortal as TCanvasLayoutPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.layout';
 import type { TPortal as TCanvasListPortal } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.list';
 import type { TPortal as TCanvasMovePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.move';
 import type { TPortal as TCanvasPatchPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.patch';
 import type { TPortal as TCanvasQueryPortal } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.query';
+import type { TPortal as TCanvasRedoPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.redo';
+import type { TPortal as TCanvasRemovePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.remove';
+import type { TPortal as TCanvasRenamePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.rename';
 import type { TPortal as TCanvasReorderPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.reorder';
+import type { TPortal as TCanvasRestorePortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.restore';
+import type { TPortal as TCanvasSyncPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.sync';
+import type { TPortal as TCanvasUndoPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.undo';
 import type { TPortal as TCanvasUngroupPortal } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.ungroup';
+import type { TPortal as TCanvasWatchPortal } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.watch';
 import type { TCanvasCmdApiContext } from './types';
 
 type TCanvasCmdPortal =
@@ -18,12 +40,35 @@ type TCanvasCmdPortal =
   & TCanvasUngroupPortal
   & TCanvasDeletePortal
   & TCanvasReorderPortal
-  & TCanvasAddPortal;
+  & TCanvasAddPortal
+  & TCanvasConnectPortal
+  & TCanvasExportPortal
+  & TCanvasImportPortal
+  & TCanvasDiagramPortal
+  & TCanvasLayoutPortal
+  & TCanvasAlignPortal
+  & TCanvasDistributePortal
+  & TCanvasUndoPortal
+  & TCanvasRedoPortal
+  & TCanvasHistoryPortal
+  & TCanvasDiffPortal
+  & TCanvasCreatePortal
+  & TCanvasRenamePortal
+  & TCanvasRemovePortal
+  & TCanvasDuplicatePortal
+  & TCanvasForkPortal
+  & TCanvasMergePortal
+  & TCanvasRestorePortal
+  & TCanvasExportDocPortal
+  & TCanvasImportDocPortal
+  & TCanvasSyncPortal
+  & TCanvasWatchPortal;
 
 function createCanvasCmdContext(context: TCanvasCmdApiContext): TCanvasCmdPortal {
   return {
     dbService: context.db,
     automergeService: context.automerge,
+    filesystemService: context.filesystem,
     crypto,
   };
 }
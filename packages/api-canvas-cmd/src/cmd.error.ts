@@ -13,8 +13,10 @@ function resolveCanvasCmdErrorCode(code: string): 'BAD_REQUEST' | 'NOT_FOUND' |
 
 function rethrowCanvasCmdAsOrpcError(error: unknown): never {
   if (isCanvasCmdErrorDetails(error)) {
+    // `data` is serialized to remote callers, so they keep the command's own error code.
     throw new ORPCError(resolveCanvasCmdErrorCode(error.code), {
       message: error.message,
+      data: error,
       cause: error,
     });
   }
@@ -25,4 +27,4 @@ function rethrowCanvasCmdAsOrpcError(error: unknown): never {
   });
 }
 
-export { rethrowCanvasCmdAsOrpcError };
+export { isCanvasCmdErrorDetails, rethrowCanvasCmdAsOrpcError };
@@ -0,0 +1,18 @@
+import type { TCanvasCmdApiContext } from './types';
+
+/**
+ * Tells every open sidebar about a canvas row that was created, renamed, or removed, so canvases
+ * managed from the CLI or MCP show up without a reload. Rows that do not exist (dry runs) are skipped.
+ */
+function publishCanvasRowEvent(context: TCanvasCmdApiContext, change: 'insert' | 'update' | 'delete', canvasId: string): void {
+  if (change === 'delete') {
+    context.eventPublisher.publishCanvasEvent({ data: { change, table: 'canvas', id: canvasId } });
+    return;
+  }
+
+  const record = context.db.getFullCanvas(canvasId)?.canvas;
+  if (!record) return;
+  context.eventPublisher.publishCanvasEvent({ data: { change, table: 'canvas', id: canvasId, record } });
+}
+
+export { publishCanvasRowEvent };
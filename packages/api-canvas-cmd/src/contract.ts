@@ -1,13 +1,35 @@
-import { oc, populateContractRouterPaths, type as orpcType } from '@orpc/contract';
+import { eventIterator, oc, populateContractRouterPaths, type as orpcType } from '@orpc/contract';
 import type { TCanvasAddInput, TCanvasAddSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.add';
+import type { TCanvasAlignInput, TCanvasAlignSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.align';
+import type { TCanvasCreateInput, TCanvasCreateSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.create';
+import type { TCanvasConnectInput, TCanvasConnectSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.connect';
+import type { TCanvasDiagramInput, TCanvasDiagramSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.diagram';
 import type { TCanvasDeleteInput, TCanvasDeleteSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.delete';
+import type { TCanvasDistributeInput, TCanvasDistributeSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.distribute';
+import type { TCanvasExportInput, TCanvasExportSuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export';
+import type { TCanvasExportDocInput, TCanvasExportDocSuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export-doc';
+import type { TCanvasHistoryInput, TCanvasHistorySuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.history';
+import type { TCanvasDiffInput, TCanvasDiffSuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.diff';
+import type { TCanvasDuplicateInput, TCanvasDuplicateSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.duplicate';
+import type { TCanvasForkInput, TCanvasForkSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.fork';
+import type { TCanvasMergeInput, TCanvasMergeSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.merge';
+import type { TCanvasImportInput, TCanvasImportSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import';
+import type { TCanvasImportDocInput, TCanvasImportDocSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import-doc';
+import type { TCanvasSyncInput, TCanvasSyncSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.sync';
+import type { TCanvasLayoutInput, TCanvasLayoutSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.layout';
 import type { TCanvasGroupInput, TCanvasGroupSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.group';
 import type { TCanvasListSuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.list';
 import type { TCanvasMoveInput, TCanvasMoveSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.move';
 import type { TCanvasPatchInput, TCanvasPatchSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.patch';
 import type { TCanvasQueryInput, TCanvasQuerySuccess } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.query';
+import type { TCanvasRedoInput, TCanvasRedoSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.redo';
+import type { TCanvasRemoveInput, TCanvasRemoveSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.remove';
+import type { TCanvasRenameInput, TCanvasRenameSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.rename';
 import type { TCanvasReorderInput, TCanvasReorderSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.reorder';
+import type { TCanvasRestoreInput, TCanvasRestoreSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.restore';
+import type { TCanvasUndoInput, TCanvasUndoSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.undo';
 import type { TCanvasUngroupInput, TCanvasUngroupSuccess } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.ungroup';
+import type { TCanvasWatchEvent, TCanvasWatchInput } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.watch';
 
 const canvasCmdContract = oc.router({
   list: oc.output(orpcType<TCanvasListSuccess>()),
@@ -19,6 +41,28 @@ const canvasCmdContract = oc.router({
   delete: oc.input(orpcType<TCanvasDeleteInput>()).output(orpcType<TCanvasDeleteSuccess>()),
   reorder: oc.input(orpcType<TCanvasReorderInput>()).output(orpcType<TCanvasReorderSuccess>()),
   add: oc.input(orpcType<TCanvasAddInput>()).output(orpcType<TCanvasAddSuccess>()),
+  connect: oc.input(orpcType<TCanvasConnectInput>()).output(orpcType<TCanvasConnectSuccess>()),
+  export: oc.input(orpcType<TCanvasExportInput>()).output(orpcType<TCanvasExportSuccess>()),
+  import: oc.input(orpcType<TCanvasImportInput>()).output(orpcType<TCanvasImportSuccess>()),
+  diagram: oc.input(orpcType<TCanvasDiagramInput>()).output(orpcType<TCanvasDiagramSuccess>()),
+  layout: oc.input(orpcType<TCanvasLayoutInput>()).output(orpcType<TCanvasLayoutSuccess>()),
+  align: oc.input(orpcType<TCanvasAlignInput>()).output(orpcType<TCanvasAlignSuccess>()),
+  distribute: oc.input(orpcType<TCanvasDistributeInput>()).output(orpcType<TCanvasDistributeSuccess>()),
+  undo: oc.input(orpcType<TCanvasUndoInput>()).output(orpcType<TCanvasUndoSuccess>()),
+  redo: oc.input(orpcType<TCanvasRedoInput>()).output(orpcType<TCanvasRedoSuccess>()),
+  history: oc.input(orpcType<TCanvasHistoryInput>()).output(orpcType<TCanvasHistorySuccess>()),
+  diff: oc.input(orpcType<TCanvasDiffInput>()).output(orpcType<TCanvasDiffSuccess>()),
+  create: oc.input(orpcType<TCanvasCreateInput>()).output(orpcType<TCanvasCreateSuccess>()),
+  rename: oc.input(orpcType<TCanvasRenameInput>()).output(orpcType<TCanvasRenameSuccess>()),
+  remove: oc.input(orpcType<TCanvasRemoveInput>()).output(orpcType<TCanvasRemoveSuccess>()),
+  duplicate: oc.input(orpcType<TCanvasDuplicateInput>()).output(orpcType<TCanvasDuplicateSuccess>()),
+  fork: oc.input(orpcType<TCanvasForkInput>()).output(orpcType<TCanvasForkSuccess>()),
+  merge: oc.input(orpcType<TCanvasMergeInput>()).output(orpcType<TCanvasMergeSuccess>()),
+  restore: oc.input(orpcType<TCanvasRestoreInput>()).output(orpcType<TCanvasRestoreSuccess>()),
+  exportDoc: oc.input(orpcType<TCanvasExportDocInput>()).output(orpcType<TCanvasExportDocSuccess>()),
+  importDoc: oc.input(orpcType<TCanvasImportDocInput>()).output(orpcType<TCanvasImportDocSuccess>()),
+  sync: oc.input(orpcType<TCanvasSyncInput>()).output(orpcType<TCanvasSyncSuccess>()),
+  watch: oc.input(orpcType<TCanvasWatchInput>()).output(eventIterator(orpcType<TCanvasWatchEvent>())),
 });
 
 const canvasCmdApiContract = populateContractRouterPaths(
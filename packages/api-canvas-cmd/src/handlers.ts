@@ -1,12 +1,34 @@
 import { apiCmdAddCanvas } from './api.cmd.add';
+import { apiCmdAlignCanvas } from './api.cmd.align';
+import { apiCmdConnectCanvas } from './api.cmd.connect';
+import { apiCmdCreateCanvas } from './api.cmd.create';
 import { apiCmdDeleteCanvas } from './api.cmd.delete';
+import { apiCmdDiagramCanvas } from './api.cmd.diagram';
+import { apiCmdDistributeCanvas } from './api.cmd.distribute';
+import { apiCmdExportCanvas } from './api.cmd.export';
+import { apiCmdExportDocCanvas } from './api.cmd.export-doc';
 import { apiCmdGroupCanvas } from './api.cmd.group';
+import { apiCmdHistoryCanvas } from './api.cmd.history';
+import { apiCmdDiffCanvas } from './api.cmd.diff';
+import { apiCmdDuplicateCanvas } from './api.cmd.duplicate';
+import { apiCmdForkCanvas } from './api.cmd.fork';
+import { apiCmdMergeCanvas } from './api.cmd.merge';
+import { apiCmdImportCanvas } from './api.cmd.import';
+import { apiCmdImportDocCanvas } from './api.cmd.import-doc';
+import { apiCmdSyncCanvas } from './api.cmd.sync';
+import { apiCmdLayoutCanvas } from './api.cmd.layout';
 import { apiCmdListCanvas } from './api.cmd.list';
 import { apiCmdMoveCanvas } from './api.cmd.move';
 import { apiCmdPatchCanvas } from './api.cmd.patch';
 import { apiCmdQueryCanvas } from './api.cmd.query';
+import { apiCmdRedoCanvas } from './api.cmd.redo';
+import { apiCmdRemoveCanvas } from './api.cmd.remove';
+import { apiCmdRenameCanvas } from './api.cmd.rename';
 import { apiCmdReorderCanvas } from './api.cmd.reorder';
+import { apiCmdRestoreCanvas } from './api.cmd.restore';
+import { apiCmdUndoCanvas } from './api.cmd.undo';
 import { apiCmdUngroupCanvas } from './api.cmd.ungroup';
+import { apiCmdWatchCanvas } from './api.cmd.watch';
 import { baseCanvasCmdOs } from './orpc';
 
 const canvasCmdHandlers = {
@@ -19,6 +41,28 @@ const canvasCmdHandlers = {
   delete: apiCmdDeleteCanvas,
   reorder: apiCmdReorderCanvas,
   add: apiCmdAddCanvas,
+  connect: apiCmdConnectCanvas,
+  export: apiCmdExportCanvas,
+  import: apiCmdImportCanvas,
+  diagram: apiCmdDiagramCanvas,
+  layout: apiCmdLayoutCanvas,
+  align: apiCmdAlignCanvas,
+  distribute: apiCmdDistributeCanvas,
+  undo: apiCmdUndoCanvas,
+  redo: apiCmdRedoCanvas,
+  history: apiCmdHistoryCanvas,
+  diff: apiCmdDiffCanvas,
+  create: apiCmdCreateCanvas,
+  rename: apiCmdRenameCanvas,
+  remove: apiCmdRemoveCanvas,
+  duplicate: apiCmdDuplicateCanvas,
+  fork: apiCmdForkCanvas,
+  merge: apiCmdMergeCanvas,
+  restore: apiCmdRestoreCanvas,
+  exportDoc: apiCmdExportDocCanvas,
+  importDoc: apiCmdImportDocCanvas,
+  sync: apiCmdSyncCanvas,
+  watch: apiCmdWatchCanvas,
 };
 
 export { baseCanvasCmdOs, canvasCmdHandlers };
@@ -1,9 +1,13 @@
 import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import type { IEventPublisherService } from '@vibecanvas/service-event-publisher/IEventPublisherService';
+import type { IFilesystemService } from '@vibecanvas/service-filesystem/IFilesystemService';
 
 type TCanvasCmdApiContext = {
   db: IDbService;
   automerge: IAutomergeService;
+  eventPublisher: IEventPublisherService;
+  filesystem: IFilesystemService;
   requestId?: string;
 };
 
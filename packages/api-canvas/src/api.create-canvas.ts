@@ -1,4 +1,5 @@
 import { ORPCError } from '@orpc/contract';
+import { publishCanvasRowEvent } from './fn.canvas-events';
 import { baseCanvasOs } from './orpc';
 
 const apiCreateCanvas = baseCanvasOs.create.handler(async ({ context, input }) => {
@@ -16,6 +17,7 @@ const apiCreateCanvas = baseCanvasOs.create.handler(async ({ context, input }) =
 
   const canvas = { id: crypto.randomUUID(), name: input.name, created_at: new Date(), automerge_url: handle.url };
   const result = context.db.canvas.create(canvas);
+  publishCanvasRowEvent(context.eventPublisher, 'insert', result);
   return result;
 });
 
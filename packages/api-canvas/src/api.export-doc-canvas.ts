@@ -0,0 +1,14 @@
+import { fxExecuteCanvasExportDoc } from '@vibecanvas/canvas-cmds/cmds/fx.cmd.export-doc';
+import { toCanvasCmdOrpcError } from './fn.canvas-cmd-error';
+import { baseCanvasOs } from './orpc';
+
+const apiExportDocCanvas = baseCanvasOs.exportDoc.handler(async ({ context, input }) => {
+  try {
+    const result = await fxExecuteCanvasExportDoc({ dbService: context.db, automergeService: context.automerge }, { canvasId: input.params.id });
+    return { fileName: result.fileName, content: result.content };
+  } catch (error) {
+    throw toCanvasCmdOrpcError(error);
+  }
+});
+
+export { apiExportDocCanvas };
@@ -0,0 +1,22 @@
+import { ORPCError } from '@orpc/contract';
+import { txExecuteCanvasImportDoc } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.import-doc';
+import { toCanvasCmdOrpcError } from './fn.canvas-cmd-error';
+import { publishCanvasRowEvent } from './fn.canvas-events';
+import { baseCanvasOs } from './orpc';
+
+const apiImportDocCanvas = baseCanvasOs.importDoc.handler(async ({ context, input }) => {
+  let canvasId: string;
+  try {
+    const result = await txExecuteCanvasImportDoc({ dbService: context.db, automergeService: context.automerge, crypto }, { content: input.content, name: input.name });
+    canvasId = result.canvas.id;
+  } catch (error) {
+    throw toCanvasCmdOrpcError(error);
+  }
+
+  const full = context.db.getFullCanvas(canvasId);
+  if (!full) throw new ORPCError('NOT_FOUND', { message: 'Canvas not found' });
+  publishCanvasRowEvent(context.eventPublisher, 'insert', full.canvas);
+  return full.canvas;
+});
+
+export { apiImportDocCanvas };
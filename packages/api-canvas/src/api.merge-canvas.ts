@@ -0,0 +1,21 @@
+import { txExecuteCanvasMerge } from '@vibecanvas/canvas-cmds/cmds/tx.cmd.merge';
+import { toCanvasCmdOrpcError } from './fn.canvas-cmd-error';
+import { baseCanvasOs } from './orpc';
+
+const apiMergeCanvas = baseCanvasOs.merge.handler(async ({ context, input }) => {
+  try {
+    const result = await txExecuteCanvasMerge({ dbService: context.db, automergeService: context.automerge }, { canvasId: input.params.id, dryRun: input.body.dryRun });
+    return {
+      dryRun: result.dryRun,
+      targetId: result.canvas.id,
+      mergedChangeCount: result.mergedChangeCount,
+      addedIds: result.addedIds,
+      removedIds: result.removedIds,
+      modifiedIds: result.modifiedIds,
+    };
+  } catch (error) {
+    throw toCanvasCmdOrpcError(error);
+  }
+});
+
+export { apiMergeCanvas };
@@ -1,4 +1,5 @@
 import { ORPCError } from '@orpc/contract';
+import { publishCanvasRowEvent } from './fn.canvas-events';
 import { baseCanvasOs } from './orpc';
 
 type AutomergeUrl = string & { __documentUrl: true } // for opening / linking
@@ -11,6 +12,7 @@ const apiRemoveCanvas = baseCanvasOs.remove.handler(async ({ context, input }) =
   }
 
   context.automerge.repo.delete(result[0].automerge_url as AutomergeUrl)
+  publishCanvasRowEvent(context.eventPublisher, 'delete', result[0]);
   return result[0];
 });
 
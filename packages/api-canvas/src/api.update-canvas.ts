@@ -1,4 +1,5 @@
 import { ORPCError } from '@orpc/server';
+import { publishCanvasRowEvent } from './fn.canvas-events';
 import { baseCanvasOs } from './orpc';
 
 const apiUpdateCanvas = baseCanvasOs.update.handler(async ({ input, context }) => {
@@ -20,6 +21,7 @@ const apiUpdateCanvas = baseCanvasOs.update.handler(async ({ input, context }) =
     throw new ORPCError('NOT_FOUND', { message: 'Canvas not found' });
   }
 
+  publishCanvasRowEvent(context.eventPublisher, 'update', canvas);
   return canvas;
 });
 
@@ -14,6 +14,33 @@ const updateCanvasInputSchema = z.object({
   name: z.string().optional(),
 });
 
+const copyCanvasInputSchema = z.object({
+  name: z.string().optional(),
+});
+
+const mergeCanvasInputSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+const mergeCanvasResponseSchema = z.object({
+  dryRun: z.boolean(),
+  targetId: z.string(),
+  mergedChangeCount: z.number(),
+  addedIds: z.string().array(),
+  removedIds: z.string().array(),
+  modifiedIds: z.string().array(),
+});
+
+const importDocCanvasInputSchema = z.object({
+  content: z.string(),
+  name: z.string().optional(),
+});
+
+const exportDocCanvasResponseSchema = z.object({
+  fileName: z.string(),
+  content: z.string(),
+});
+
 const canvasContract = oc.router({
   list: oc.output(ZCanvasSelect.array()),
 
@@ -32,6 +59,26 @@ const canvasContract = oc.router({
   remove: oc
     .input(z.object({ params: z.object({ id: z.string() }) }))
     .output(ZCanvasSelect),
+
+  duplicate: oc
+    .input(z.object({ params: z.object({ id: z.string() }), body: copyCanvasInputSchema }))
+    .output(ZCanvasSelect),
+
+  fork: oc
+    .input(z.object({ params: z.object({ id: z.string() }), body: copyCanvasInputSchema }))
+    .output(ZCanvasSelect),
+
+  merge: oc
+    .input(z.object({ params: z.object({ id: z.string() }), body: mergeCanvasInputSchema }))
+    .output(mergeCanvasResponseSchema),
+
+  exportDoc: oc
+    .input(z.object({ params: z.object({ id: z.string() }) }))
+    .output(exportDocCanvasResponseSchema),
+
+  importDoc: oc
+    .input(importDocCanvasInputSchema)
+    .output(ZCanvasSelect),
 });
 
 export { canvasContract };
@@ -0,0 +1,16 @@
+import { ORPCError } from '@orpc/server';
+
+/** Maps a canvas command error payload (`{ ok: false, code, message }`) to the matching oRPC error. */
+function toCanvasCmdOrpcError(error: unknown): ORPCError<string, unknown> {
+  if (typeof error === 'object' && error !== null && 'code' in error && 'message' in error && typeof error.code === 'string') {
+    const message = String(error.message);
+    if (error.code.endsWith('NAME_CONFLICT')) return new ORPCError('ALREADY_EXISTS', { message });
+    if (error.code.includes('NOT_FOUND')) return new ORPCError('NOT_FOUND', { message });
+    if (error.code.endsWith('FAILED')) return new ORPCError('INTERNAL_SERVER_ERROR', { message });
+    return new ORPCError('BAD_REQUEST', { message });
+  }
+
+  return new ORPCError('INTERNAL_SERVER_ERROR', { message: error instanceof Error ? error.message : String(error) });
+}
+
+export { toCanvasCmdOrpcError };
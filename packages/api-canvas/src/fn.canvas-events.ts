@@ -0,0 +1,13 @@
+import type { IEventPublisherService } from '@vibecanvas/service-event-publisher/IEventPublisherService';
+import type { TCanvasRecord } from '@vibecanvas/service-db/IDbService';
+
+/** Tells every open sidebar about a canvas row that was created, renamed, or removed. */
+function publishCanvasRowEvent(eventPublisher: IEventPublisherService, change: 'insert' | 'update' | 'delete', canvas: TCanvasRecord): void {
+  eventPublisher.publishCanvasEvent({
+    data: change === 'delete'
+      ? { change, table: 'canvas', id: canvas.id }
+      : { change, table: 'canvas', id: canvas.id, record: canvas },
+  });
+}
+
+export { publishCanvasRowEvent };
@@ -1,6 +1,11 @@
 import { apiCreateCanvas } from './api.create-canvas';
+import { apiDuplicateCanvas } from './api.duplicate-canvas';
+import { apiExportDocCanvas } from './api.export-doc-canvas';
+import { apiForkCanvas } from './api.fork-canvas';
 import { apiGetCanvas } from './api.get-canvas';
+import { apiImportDocCanvas } from './api.import-doc-canvas';
 import { apiListCanvas } from './api.list-canvas';
+import { apiMergeCanvas } from './api.merge-canvas';
 import { apiRemoveCanvas } from './api.remove-canvas';
 import { apiUpdateCanvas } from './api.update-canvas';
 import { baseCanvasOs } from './orpc';
@@ -11,6 +16,11 @@ const canvasHandlers = {
   create: apiCreateCanvas,
   update: apiUpdateCanvas,
   remove: apiRemoveCanvas,
+  duplicate: apiDuplicateCanvas,
+  fork: apiForkCanvas,
+  merge: apiMergeCanvas,
+  exportDoc: apiExportDocCanvas,
+  importDoc: apiImportDocCanvas,
 };
 
 export { baseCanvasOs, canvasHandlers };
@@ -0,0 +1,9 @@
+import { baseDbOs } from './orpc';
+
+const apiDbCanvasEvents = baseDbOs.canvasEvents.handler(async function* ({ context }) {
+  for await (const event of context.eventPublisher.subscribeCanvasEvents()) {
+    yield event;
+  }
+});
+
+export { apiDbCanvasEvents };
@@ -28,6 +28,10 @@ const dbContract = oc.router({
     .input(z.object({ canvasId: z.string() }))
     .route({ method: 'GET' })
     .output(eventIterator(ZDbEventSchema)),
+  canvasEvents: oc
+    .input(z.object({}))
+    .route({ method: 'GET' })
+    .output(eventIterator(ZDbEventSchema)),
 });
 
 export { dbContract };
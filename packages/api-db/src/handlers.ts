@@ -1,8 +1,10 @@
+import { apiDbCanvasEvents } from './api.db-canvas-events';
 import { apiDbEvents } from './api.db-events';
 import { baseDbOs } from './orpc';
 
 const dbHandlers = {
   events: apiDbEvents,
+  canvasEvents: apiDbCanvasEvents,
 };
 
 export { baseDbOs, dbHandlers };
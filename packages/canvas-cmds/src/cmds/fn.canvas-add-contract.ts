@@ -1,4 +1,7 @@
-import type { TArrowData, TDiamondData, TEllipseData, TElementData, TElementStyle, TLineData, TRectData, TTextData } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { TArrowData, TDiamondData, TEllipseData, TElementData, TElementStyle, TLineData, TNoteData, TRectData, TStickyData, TTextData } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { STICKY_DEFAULT_COLOR, STICKY_DEFAULT_FONT_SIZE, STICKY_DEFAULT_SIZE, fnEstimateStickyTextWidth, fnLayoutSticky } from '../core/fn.sticky';
+import { NOTE_DEFAULT_HEIGHT, NOTE_DEFAULT_WIDTH, NOTE_WIDGET_STYLE } from '../core/fn.note';
+import { fnBuildRichTextFields, fnEstimateRichTextWidth, fnLayoutRichText } from '../core/fn.rich-text';
 import type { TAddPrimitiveType, TCanvasAddElementInput } from './tx.cmd.add';
 
 export type TCanvasAddFieldDefault = {
@@ -84,6 +87,7 @@ const TYPE_CONTRACTS: TCanvasAddTypeContract[] = [
       { path: 'data.link', defaultValue: 'null' },
       { path: 'data.containerId', defaultValue: 'null' },
       { path: 'data.autoResize', defaultValue: 'false' },
+      { path: 'data.markdown', defaultValue: 'null (when set, data.text is derived from it)' },
     ],
     minimalJson: { type: 'text' },
   },
@@ -113,10 +117,45 @@ const TYPE_CONTRACTS: TCanvasAddTypeContract[] = [
     ],
     minimalJson: { type: 'arrow' },
   },
+  {
+    type: 'sticky',
+    required: ['type'],
+    optionalDefaults: [
+      ...COMMON_OPTIONAL_DEFAULTS,
+      { path: 'data.w', defaultValue: String(STICKY_DEFAULT_SIZE) },
+      { path: 'data.h', defaultValue: 'fits the text when data.autoSize is "grow"' },
+      { path: 'data.text', defaultValue: JSON.stringify('') },
+      { path: 'data.color', defaultValue: JSON.stringify(STICKY_DEFAULT_COLOR) },
+      { path: 'data.fontSize', defaultValue: String(STICKY_DEFAULT_FONT_SIZE) },
+      { path: 'data.autoSize', defaultValue: JSON.stringify('grow') },
+      { path: 'data.author', defaultValue: 'null' },
+    ],
+    minimalJson: { type: 'sticky', data: { text: 'idea' } },
+  },
+  {
+    type: 'note',
+    required: ['type'],
+    optionalDefaults: [
+      { path: 'x', defaultValue: '0' },
+      { path: 'y', defaultValue: '0' },
+      { path: 'rotation', defaultValue: '0' },
+      { path: 'parentGroupId', defaultValue: 'null' },
+      { path: 'locked', defaultValue: 'false' },
+      { path: 'style.backgroundColor', defaultValue: JSON.stringify(NOTE_WIDGET_STYLE.backgroundColor) },
+      { path: 'style.borderColor', defaultValue: JSON.stringify(NOTE_WIDGET_STYLE.borderColor) },
+      { path: 'style.headerColor', defaultValue: JSON.stringify(NOTE_WIDGET_STYLE.headerColor) },
+      { path: 'data.w', defaultValue: String(NOTE_DEFAULT_WIDTH) },
+      { path: 'data.h', defaultValue: String(NOTE_DEFAULT_HEIGHT) },
+      { path: 'data.markdown', defaultValue: JSON.stringify('') },
+      { path: 'data.isCollapsed', defaultValue: 'false' },
+    ],
+    minimalJson: { type: 'note', data: { markdown: '# Summary' } },
+  },
 ];
 
-export function fxDefaultCanvasAddStyle(): TElementStyle {
-  return fxCloneDefaults(DEFAULT_STYLE);
+/** Notes are hosted widgets and take widget chrome colors instead of shape colors. */
+export function fxDefaultCanvasAddStyle(type?: TAddPrimitiveType): TElementStyle {
+  return fxCloneDefaults(type === 'note' ? NOTE_WIDGET_STYLE : DEFAULT_STYLE);
 }
 
 export function fxListCanvasAddTypeContracts(): TCanvasAddTypeContract[] {
@@ -136,7 +175,8 @@ export function fxBuildCanvasAddData(type: TAddPrimitiveType, raw: Record<string
     const input = raw as Partial<TTextData>;
     const text = typeof input.text === 'string' ? input.text : typeof input.originalText === 'string' ? input.originalText : 'hello';
     const originalText = typeof input.originalText === 'string' ? input.originalText : text;
-    return {
+    const richText = typeof input.markdown === 'string' ? fnBuildRichTextFields(input.markdown) : null;
+    const data: TTextData = {
       type: 'text',
       w: 120,
       h: 40,
@@ -151,8 +191,29 @@ export function fxBuildCanvasAddData(type: TAddPrimitiveType, raw: Record<string
       containerId: null,
       autoResize: false,
       ...input,
+      ...richText,
+    };
+    if (!data.markdown || input.w !== undefined || input.h !== undefined) return data;
+    // Unsized markdown gets a box around its estimated layout; the canvas re-measures with real fonts.
+    const layout = fnLayoutRichText(data.markdown, { ...data, maxWidth: null }, fnEstimateRichTextWidth);
+    return { ...data, w: Math.ceil(layout.width), h: Math.ceil(layout.height) };
+  }
+  if (type === 'sticky') {
+    const data: TStickyData = {
+      type: 'sticky',
+      w: STICKY_DEFAULT_SIZE,
+      h: STICKY_DEFAULT_SIZE,
+      text: '',
+      color: STICKY_DEFAULT_COLOR,
+      fontSize: STICKY_DEFAULT_FONT_SIZE,
+      autoSize: 'grow',
+      author: null,
+      ...(raw as Partial<TStickyData>),
     };
+    // Growing notes are sized by their text; the canvas re-measures with real font metrics.
+    return data.autoSize === 'grow' ? { ...data, h: fnLayoutSticky(data, fnEstimateStickyTextWidth).h } : data;
   }
+  if (type === 'note') return { type: 'note', w: NOTE_DEFAULT_WIDTH, h: NOTE_DEFAULT_HEIGHT, isCollapsed: false, markdown: '', ...(raw as Partial<TNoteData>) };
   if (type === 'line') return { type: 'line', lineType: 'straight', points: [[0, 0], [120, 0]], startBinding: null, endBinding: null, ...(raw as Partial<TLineData>) };
   return { type: 'arrow', lineType: 'straight', points: [[0, 0], [120, 0]], startBinding: null, endBinding: null, startCap: 'none', endCap: 'arrow', ...(raw as Partial<TArrowData>) };
 }
@@ -0,0 +1,99 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { BACKUP_FORMAT, BACKUP_FORMAT_VERSION, BACKUP_MANIFEST_PATH, fnBackupCanvasPath, fnBackupFilePath, type TBackupEntries, type TBackupManifest } from '../core/fn.backup';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TWorkspaceBackupInput = {
+  /** Version of the app writing the archive, recorded in the manifest. */
+  appVersion?: string | null;
+};
+
+export type TWorkspaceBackupSuccess = {
+  ok: true;
+  command: 'backup.create';
+  manifest: TBackupManifest;
+  /** Archive entries by path, `manifest.json` included. */
+  entries: TBackupEntries;
+  canvasCount: number;
+  fileCount: number;
+  /** Canvases left out because their document could not be loaded. */
+  skipped: Array<{ id: string; name: string; reason: string }>;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'backup.create',
+    code,
+    message,
+  };
+}
+
+/**
+ * Collects every canvas with its full Automerge history and every stored image file. Filesystem
+ * rows are left out since they only make sense on the machine that recorded them.
+ */
+export async function fxExecuteWorkspaceBackup(portal: TPortal, input: TWorkspaceBackupInput): Promise<TWorkspaceBackupSuccess> {
+  try {
+    const entries: TBackupEntries = {};
+    const manifest: TBackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      appVersion: input.appVersion ?? null,
+      createdAt: new Date().toISOString(),
+      canvases: [],
+      files: [],
+    };
+    const skipped: TWorkspaceBackupSuccess['skipped'] = [];
+
+    for (const row of portal.dbService.canvas.listAll()) {
+      let binary: Uint8Array;
+      try {
+        const { handle } = await fxLoadCanvasHandleDoc(portal, row);
+        binary = Automerge.save(handle.doc()!);
+      } catch (error) {
+        skipped.push({ id: row.id, name: row.name, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+
+      const path = fnBackupCanvasPath(row.id);
+      entries[path] = binary;
+      manifest.canvases.push({
+        id: row.id,
+        name: row.name,
+        createdAt: row.created_at.toISOString(),
+        automergeUrl: row.automerge_url,
+        forkedFromId: row.forked_from_id ?? null,
+        path,
+      });
+    }
+
+    for (const file of portal.dbService.file.listAll()) {
+      const path = fnBackupFilePath(file.id, file.format);
+      entries[path] = new Uint8Array(Buffer.from(file.base64, 'base64'));
+      manifest.files.push({ id: file.id, hash: file.hash, format: file.format, createdAt: file.created_at.toISOString(), path });
+    }
+
+    entries[BACKUP_MANIFEST_PATH] = new TextEncoder().encode(`${JSON.stringify(manifest, null, 2)}\n`);
+
+    return {
+      ok: true,
+      command: 'backup.create',
+      manifest,
+      entries,
+      canvasCount: manifest.canvases.length,
+      fileCount: manifest.files.length,
+      skipped,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('BACKUP_CREATE_FAILED', error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,127 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnDiffCanvasDocs, type TCanvasDiffEntry } from '../core/fn.diff';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasDiffInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Heads of the canvas to compare from; required unless another canvas is given. */
+  from?: string[];
+  /** Heads of the canvas to compare to; defaults to its current state. */
+  to?: string[];
+  /** Compare the canvas against another canvas's current state instead of its own history. */
+  otherCanvasId?: string | null;
+  otherCanvasNameQuery?: string | null;
+};
+
+export type TCanvasDiffSideSummary = {
+  canvas: TCanvasSummary;
+  heads: string[];
+};
+
+export type TCanvasDiffSuccess = {
+  ok: true;
+  command: 'canvas.diff';
+  from: TCanvasDiffSideSummary;
+  to: TCanvasDiffSideSummary;
+  addedCount: number;
+  removedCount: number;
+  modifiedCount: number;
+  addedIds: string[];
+  removedIds: string[];
+  modifiedIds: string[];
+  entries: TCanvasDiffEntry[];
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+/** Bumped by every write, so it would mark nearly everything as modified. */
+const IGNORED_FIELDS = ['updatedAt'];
+
+function exitError(code: string, message: string, input: TCanvasDiffInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.diff',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function normalizeHeads(heads: string[] | undefined, flag: string, input: TCanvasDiffInput): string[] | null {
+  const values = [...new Set((heads ?? []).map((value) => value.trim()).filter(Boolean))].sort();
+  if (values.length === 0) return null;
+
+  const invalid = values.filter((hash) => !HASH_PATTERN.test(hash));
+  if (invalid.length > 0) {
+    throw exitError('CANVAS_DIFF_HEADS_INVALID', `Invalid ${flag} heads: ${invalid.join(', ')}. Expected 64-character hex change hashes.`, input);
+  }
+  return values;
+}
+
+function readSide(doc: Automerge.Doc<TCanvasDoc>, heads: string[] | null, flag: string, canvasName: string, input: TCanvasDiffInput): { state: TCanvasDoc; heads: string[] } {
+  if (heads && !Automerge.hasHeads(doc, heads)) {
+    throw exitError('CANVAS_DIFF_HEADS_NOT_FOUND', `Canvas '${canvasName}' has no history at ${flag} ${heads.join(',')}.`, input);
+  }
+
+  const state = heads ? Automerge.view(doc, heads) : doc;
+  return { state: JSON.parse(JSON.stringify(state)) as TCanvasDoc, heads: heads ?? [...Automerge.getHeads(doc)].sort() };
+}
+
+export async function fxExecuteCanvasDiff(portal: TPortal, input: TCanvasDiffInput): Promise<TCanvasDiffSuccess> {
+  try {
+    const from = normalizeHeads(input.from, '--from', input);
+    const to = normalizeHeads(input.to, '--to', input);
+    const comparesCanvases = Boolean(input.otherCanvasId || input.otherCanvasNameQuery?.trim());
+    if (comparesCanvases && (from || to)) {
+      throw exitError('CANVAS_DIFF_OPTION_CONFLICT', 'Pass either --from/--to heads of one canvas or another canvas to compare with, not both.', input);
+    }
+    if (!comparesCanvases && !from) {
+      throw exitError('CANVAS_DIFF_FROM_REQUIRED', 'Diff requires --from heads, or another canvas to compare with.', input);
+    }
+
+    const rows = portal.dbService.canvas.listAll();
+    const selectedCanvas = fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.diff', actionLabel: 'Diff' });
+    const { handle } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const fromSide = readSide(handle.doc()!, from, '--from', selectedCanvas.name, input);
+
+    let toCanvas = selectedCanvas;
+    let toSide: { state: TCanvasDoc; heads: string[] };
+    if (comparesCanvases) {
+      toCanvas = fnResolveCanvasSelection({ rows, selector: { canvasId: input.otherCanvasId, canvasNameQuery: input.otherCanvasNameQuery }, command: 'canvas.diff', actionLabel: 'Diff against' });
+      const other = await fxLoadCanvasHandleDoc(portal, toCanvas);
+      toSide = readSide(other.handle.doc()!, null, '--to', toCanvas.name, input);
+    } else {
+      toSide = readSide(handle.doc()!, to, '--to', selectedCanvas.name, input);
+    }
+
+    const diff = fnDiffCanvasDocs(fromSide.state, toSide.state, { ignoreFields: IGNORED_FIELDS });
+
+    return {
+      ok: true,
+      command: 'canvas.diff',
+      from: { canvas: fnNormalizeCanvas(selectedCanvas), heads: fromSide.heads },
+      to: { canvas: fnNormalizeCanvas(toCanvas), heads: toSide.heads },
+      addedCount: diff.addedIds.length,
+      removedCount: diff.removedIds.length,
+      modifiedCount: diff.modifiedIds.length,
+      addedIds: diff.addedIds,
+      removedIds: diff.removedIds,
+      modifiedIds: diff.modifiedIds,
+      entries: diff.entries,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_DIFF_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -0,0 +1,105 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { toIsoString } from '../core/fn.conversion';
+import { CANVAS_FILE_FORMAT, CANVAS_FILE_MIME_TYPE, CANVAS_FILE_VERSION, fnCanvasFileName, type TCanvasFile } from '../core/fn.canvas-file';
+import { fnParseFileUrl } from '../core/fn.image-file';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasExportDocInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Version of the app writing the file, recorded in it. */
+  appVersion?: string | null;
+};
+
+export type TCanvasExportDocSuccess = {
+  ok: true;
+  command: 'canvas.export-doc';
+  canvas: TCanvasSummary;
+  /** Suggested file name, `<canvas name>.vibecanvas`. */
+  fileName: string;
+  mimeType: typeof CANVAS_FILE_MIME_TYPE;
+  version: number;
+  elementCount: number;
+  groupCount: number;
+  fileCount: number;
+  /** Image urls whose file is no longer stored; their elements import without an image. */
+  missingFileUrls: string[];
+  /** The `.vibecanvas` file as utf8 JSON. */
+  content: string;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasExportDocInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.export-doc',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function fxExecuteCanvasExportDoc(portal: TPortal, input: TCanvasExportDocInput): Promise<TCanvasExportDocSuccess> {
+  try {
+    const rows = portal.dbService.canvas.listAll();
+    const selectedCanvas = fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.export-doc', actionLabel: 'Export' });
+    const { handle, doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+
+    const files: TCanvasFile['files'] = [];
+    const seenUrls = new Set<string>();
+    const missingFileUrls: string[] = [];
+    for (const element of Object.values(doc.elements)) {
+      if (element.data.type !== 'image' || !element.data.url || seenUrls.has(element.data.url)) continue;
+      seenUrls.add(element.data.url);
+
+      const file = fnParseFileUrl(element.data.url);
+      if (!file) continue;
+      const record = portal.dbService.file.get(file);
+      if (!record) {
+        missingFileUrls.push(element.data.url);
+        continue;
+      }
+      files.push({ id: record.id, hash: record.hash, format: record.format, base64: record.base64 });
+    }
+
+    const canvasFile: TCanvasFile = {
+      format: CANVAS_FILE_FORMAT,
+      version: CANVAS_FILE_VERSION,
+      appVersion: input.appVersion ?? null,
+      exportedAt: new Date().toISOString(),
+      canvas: {
+        id: selectedCanvas.id,
+        name: selectedCanvas.name,
+        createdAt: toIsoString(selectedCanvas.created_at),
+      },
+      document: Buffer.from(Automerge.save(handle.doc()!)).toString('base64'),
+      files,
+    };
+
+    return {
+      ok: true,
+      command: 'canvas.export-doc',
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      fileName: fnCanvasFileName(selectedCanvas.name),
+      mimeType: CANVAS_FILE_MIME_TYPE,
+      version: CANVAS_FILE_VERSION,
+      elementCount: Object.keys(doc.elements).length,
+      groupCount: Object.keys(doc.groups).length,
+      fileCount: files.length,
+      missingFileUrls,
+      content: `${JSON.stringify(canvasFile, null, 2)}\n`,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_EXPORT_DOC_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
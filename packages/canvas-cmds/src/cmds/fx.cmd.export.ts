@@ -0,0 +1,129 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { EXCALIDRAW_MIME_TYPE, fnCanvasToExcalidraw } from '../core/fn.excalidraw';
+import { fnCanvasToJsonCanvas, JSON_CANVAS_MIME_TYPE } from '../core/fn.json-canvas';
+import { fnRenderCanvasSvg, SVG_EXPORT_DEFAULT_BACKGROUND, SVG_EXPORT_DEFAULT_PADDING, type TSvgExportBounds } from '../core/fn.svg-export';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fxResolveImageDataUrls } from '../core/fx.image-file';
+import { fxRasterizeSvgToPng } from '../core/fx.rasterize-svg';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasExportFormat = 'svg' | 'png' | 'excalidraw' | 'json-canvas';
+
+export type TCanvasExportInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  ids?: string[];
+  format?: TCanvasExportFormat;
+  scale?: number;
+  background?: string | null;
+  padding?: number;
+  /** Vault root for json-canvas; file widget paths inside it are written relative to it. */
+  baseDir?: string | null;
+};
+
+export type TCanvasExportSuccess = {
+  ok: true;
+  command: 'canvas.export';
+  canvas: TCanvasSummary;
+  format: TCanvasExportFormat;
+  mimeType: 'image/svg+xml' | 'image/png' | typeof EXCALIDRAW_MIME_TYPE | typeof JSON_CANVAS_MIME_TYPE;
+  elementIds: string[];
+  elementCount: number;
+  bounds: TSvgExportBounds;
+  width: number;
+  height: number;
+  encoding: 'utf8' | 'base64';
+  content: string;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+const EXPORT_FORMATS = new Set<TCanvasExportFormat>(['svg', 'png', 'excalidraw', 'json-canvas']);
+const MAX_EXPORT_SCALE = 8;
+
+function exitError(code: string, message: string, input: TCanvasExportInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.export',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function fxExecuteCanvasExport(portal: TPortal, input: TCanvasExportInput): Promise<TCanvasExportSuccess> {
+  try {
+    const format = input.format ?? 'svg';
+    if (!EXPORT_FORMATS.has(format)) {
+      throw exitError('CANVAS_EXPORT_FORMAT_INVALID', `Invalid export format '${String(format)}'. Expected one of: svg, png, excalidraw, json-canvas.`, input);
+    }
+
+    const scale = input.scale ?? 1;
+    if (!Number.isFinite(scale) || scale <= 0 || scale > MAX_EXPORT_SCALE) {
+      throw exitError('CANVAS_EXPORT_SCALE_INVALID', `Invalid export scale '${String(input.scale)}'. Expected a number greater than 0 and at most ${MAX_EXPORT_SCALE}.`, input);
+    }
+
+    const padding = input.padding ?? SVG_EXPORT_DEFAULT_PADDING;
+    if (!Number.isFinite(padding) || padding < 0) {
+      throw exitError('CANVAS_EXPORT_PADDING_INVALID', `Invalid export padding '${String(input.padding)}'. Expected a number greater than or equal to 0.`, input);
+    }
+
+    const rows = portal.dbService.canvas.listAll();
+    const selectedCanvas = fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.export', actionLabel: 'Export' });
+    const { doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+
+    const ids = input.ids && input.ids.length > 0 ? [...new Set(input.ids)] : null;
+    const missingIds = (ids ?? []).filter((id) => !doc.elements[id] && !doc.groups[id]);
+    if (missingIds.length > 0) {
+      throw {
+        ...exitError('CANVAS_EXPORT_TARGET_NOT_FOUND', `Target ids were not found in canvas '${selectedCanvas.name}': ${missingIds.join(', ')}.`, input),
+        canvasId: selectedCanvas.id,
+      } satisfies TCanvasCmdErrorDetails;
+    }
+
+    const background = input.background === undefined ? SVG_EXPORT_DEFAULT_BACKGROUND : input.background;
+    const imageHrefs = fxResolveImageDataUrls(portal, doc);
+    const rendered = fnRenderCanvasSvg(doc, { ids, scale, padding, background, imageHrefs });
+    const excalidraw = format === 'excalidraw' ? fnCanvasToExcalidraw(doc, { ids, background, imageDataUrls: imageHrefs, now: Date.now() }) : null;
+    const jsonCanvas = format === 'json-canvas' ? fnCanvasToJsonCanvas(doc, { ids, baseDir: input.baseDir }) : null;
+    if (!rendered || excalidraw?.elementIds.length === 0 || jsonCanvas?.elementIds.length === 0) {
+      throw {
+        ...exitError('CANVAS_EXPORT_EMPTY', `Canvas '${selectedCanvas.name}' has nothing to export${ids ? ' for the selected ids' : ''}.`, input),
+        canvasId: selectedCanvas.id,
+      } satisfies TCanvasCmdErrorDetails;
+    }
+
+    const elementIds = excalidraw ? excalidraw.elementIds : jsonCanvas ? jsonCanvas.elementIds : rendered.elementIds;
+    const content = format === 'png'
+      ? Buffer.from(await fxRasterizeSvgToPng(rendered.svg)).toString('base64')
+      : excalidraw ? JSON.stringify(excalidraw.scene, null, 2)
+        : jsonCanvas ? JSON.stringify(jsonCanvas.canvas, null, 2) : rendered.svg;
+
+    return {
+      ok: true,
+      command: 'canvas.export',
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      format,
+      mimeType: format === 'png' ? 'image/png' : format === 'excalidraw' ? EXCALIDRAW_MIME_TYPE : format === 'json-canvas' ? JSON_CANVAS_MIME_TYPE : 'image/svg+xml',
+      elementIds,
+      elementCount: elementIds.length,
+      bounds: rendered.bounds,
+      width: rendered.width,
+      height: rendered.height,
+      encoding: format === 'png' ? 'base64' : 'utf8',
+      content,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) {
+      throw error;
+    }
+
+    throw exitError('CANVAS_EXPORT_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -0,0 +1,99 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { CANVAS_HISTORY_DEFAULT_WINDOW_SECONDS, fnGroupCanvasHistory, fnReadCanvasHistory } from '../core/fn.history';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasHistoryInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Newest groups to return; all groups when omitted. */
+  limit?: number;
+  /** Seconds between changes of one origin that still count as one group. */
+  windowSeconds?: number;
+};
+
+export type TCanvasHistoryEntry = {
+  heads: string[];
+  actor: string;
+  origin: string | null;
+  startTime: string;
+  endTime: string;
+  changeCount: number;
+  labels: string[];
+};
+
+export type TCanvasHistorySuccess = {
+  ok: true;
+  command: 'canvas.history';
+  canvas: TCanvasSummary;
+  /** Current doc heads. */
+  heads: string[];
+  changeCount: number;
+  groupCount: number;
+  /** Newest first. */
+  entries: TCanvasHistoryEntry[];
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasHistoryInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.history',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function toIsoTime(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+export async function fxExecuteCanvasHistory(portal: TPortal, input: TCanvasHistoryInput): Promise<TCanvasHistorySuccess> {
+  try {
+    if (input.limit !== undefined && (!Number.isInteger(input.limit) || input.limit <= 0)) {
+      throw exitError('CANVAS_HISTORY_LIMIT_INVALID', `Invalid history limit '${String(input.limit)}'. Expected a positive integer.`, input);
+    }
+
+    const windowSeconds = input.windowSeconds ?? CANVAS_HISTORY_DEFAULT_WINDOW_SECONDS;
+    if (!Number.isFinite(windowSeconds) || windowSeconds < 0) {
+      throw exitError('CANVAS_HISTORY_WINDOW_INVALID', `Invalid history window '${String(input.windowSeconds)}'. Expected a number of seconds greater than or equal to 0.`, input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.history', actionLabel: 'History' });
+    const { handle } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const doc = handle.doc();
+    const changes = fnReadCanvasHistory(doc);
+    const groups = fnGroupCanvasHistory(changes, windowSeconds).reverse();
+    const entries = input.limit === undefined ? groups : groups.slice(0, input.limit);
+
+    return {
+      ok: true,
+      command: 'canvas.history',
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      heads: [...Automerge.getHeads(doc)].sort(),
+      changeCount: changes.length,
+      groupCount: groups.length,
+      entries: entries.map((group) => ({
+        heads: group.heads,
+        actor: group.actor,
+        origin: group.origin,
+        startTime: toIsoTime(group.startTime),
+        endTime: toIsoTime(group.endTime),
+        changeCount: group.changeCount,
+        labels: group.labels,
+      })),
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_HISTORY_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -23,6 +23,8 @@ export type TSceneSelector = {
   style?: TSceneStyleFilter;
   group?: string | null;
   subtree?: string | null;
+  /** Elements adopted by this frame, and groups made only of them. */
+  frame?: string | null;
   bounds?: TSceneBounds | null;
   boundsMode?: 'intersects' | 'contains';
 };
@@ -83,6 +85,7 @@ type TResolvedSceneSelector = {
   style: TSceneStyleFilter;
   group: string | null;
   subtree: string | null;
+  frame: string | null;
   bounds: TSceneBounds | null;
   boundsMode: 'intersects' | 'contains';
 };
@@ -94,6 +97,19 @@ type TResolvedSceneSelectorEnvelope = {
   filters: TResolvedSceneSelector;
 };
 
+/** True when the selector narrows the scene at all; mutating commands refuse to act on everything implicitly. */
+export function fnHasSceneSelectorFilters(selector: TSceneSelector | undefined): boolean {
+  if (!selector) return false;
+  return (selector.ids?.length ?? 0) > 0
+    || (selector.kinds?.length ?? 0) > 0
+    || (selector.types?.length ?? 0) > 0
+    || Object.keys(selector.style ?? {}).length > 0
+    || Boolean(selector.group)
+    || Boolean(selector.subtree)
+    || Boolean(selector.frame)
+    || Boolean(selector.bounds);
+}
+
 function normalizeSceneSelector(input?: TSceneSelectorEnvelope): TResolvedSceneSelectorEnvelope {
   const filters = input?.filters;
   return {
@@ -107,6 +123,7 @@ function normalizeSceneSelector(input?: TSceneSelectorEnvelope): TResolvedSceneS
       style: filters?.style ?? {},
       group: filters?.group ?? null,
       subtree: filters?.subtree ?? null,
+      frame: filters?.frame ?? null,
       bounds: filters?.bounds ?? null,
       boundsMode: filters?.boundsMode ?? 'intersects',
     },
@@ -154,7 +171,7 @@ function getPointBounds(element: TElement, points: Array<[number, number]>): TSc
 }
 
 function getElementBounds(element: TElement): TSceneBounds {
-  if (element.data.type === 'rect' || element.data.type === 'diamond' || element.data.type === 'text' || element.data.type === 'image' || element.data.type === 'filetree' || element.data.type === 'terminal' || element.data.type === 'file' || element.data.type === 'iframe-browser') {
+  if (element.data.type === 'rect' || element.data.type === 'diamond' || element.data.type === 'text' || element.data.type === 'image' || element.data.type === 'filetree' || element.data.type === 'terminal' || element.data.type === 'file' || element.data.type === 'note' || element.data.type === 'iframe-browser' || element.data.type === 'frame' || element.data.type === 'sticky') {
     return createBounds(element.x, element.y, element.data.w, element.data.h);
   }
 
@@ -271,6 +288,17 @@ function validateSelector(doc: TCanvasDoc, selector: TResolvedSceneSelectorEnvel
       canvasNameQuery: selector.canvasNameQuery,
     } satisfies TCanvasCmdErrorDetails;
   }
+
+  if (selector.filters.frame && doc.elements[selector.filters.frame]?.data.type !== 'frame') {
+    throw {
+      ok: false,
+      command: 'canvas.query',
+      code: 'CANVAS_QUERY_FRAME_NOT_FOUND',
+      message: `Frame '${selector.filters.frame}' was not found in canvas '${doc.name}'.`,
+      canvasId: selector.canvasId,
+      canvasNameQuery: selector.canvasNameQuery,
+    } satisfies TCanvasCmdErrorDetails;
+  }
 }
 
 function intersectsBounds(filter: TSceneBounds, candidate: TSceneBounds): boolean {
@@ -288,6 +316,11 @@ function matchesStyleSelector(target: TSceneTarget, styleFilter: TSceneStyleFilt
   return styleEntries.every(([key, value]) => target.element.style[key as keyof typeof target.element.style] === value);
 }
 
+function isGroupInFrame(doc: TCanvasDoc, groupId: string, frameId: string): boolean {
+  const members = Object.values(doc.elements).filter((element) => element.parentGroupId && isGroupInSubtree(doc, element.parentGroupId, groupId));
+  return members.length > 0 && members.every((element) => element.frameId === frameId);
+}
+
 function matchesSceneSelector(target: TSceneTarget, doc: TCanvasDoc, selector: TResolvedSceneSelector): boolean {
   const id = target.kind === 'element' ? target.element.id : target.group.id;
   const kind = target.kind;
@@ -309,6 +342,10 @@ function matchesSceneSelector(target: TSceneTarget, doc: TCanvasDoc, selector: T
     }
   }
 
+  if (selector.frame !== null) {
+    if (target.kind === 'element' ? target.element.frameId !== selector.frame : !isGroupInFrame(doc, target.group.id, selector.frame)) return false;
+  }
+
   if (selector.bounds !== null) {
     if (!bounds) return false;
     if (selector.boundsMode === 'intersects' && !intersectsBounds(selector.bounds, bounds)) return false;
@@ -318,6 +355,15 @@ function matchesSceneSelector(target: TSceneTarget, doc: TCanvasDoc, selector: T
   return true;
 }
 
+/** Whether the element or group `id` of `doc` matches `selector`; an empty or missing selector matches everything. */
+export function fnMatchesSceneSelector(doc: TCanvasDoc, kind: 'element' | 'group', id: string, selector: TSceneSelector | undefined): boolean {
+  const target: TSceneTarget | null = kind === 'element'
+    ? doc.elements[id] ? { kind, element: doc.elements[id] } : null
+    : doc.groups[id] ? { kind, group: doc.groups[id] } : null;
+  if (!target) return false;
+  return matchesSceneSelector(target, doc, normalizeSceneSelector({ filters: selector }).filters);
+}
+
 function buildGroupRelations(doc: TCanvasDoc, groupId: string): {
   directChildElementIds: string[];
   directChildGroupIds: string[];
@@ -357,6 +403,7 @@ function buildElementPayload(element: TElement, mode: TSceneOutputMode): Record<
     id: element.id,
     type: element.data.type,
     parentGroupId: element.parentGroupId,
+    frameId: element.frameId ?? null,
     zIndex: element.zIndex,
     locked: element.locked,
     position: { x: element.x, y: element.y },
@@ -0,0 +1,214 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { DocHandleChangePayload, DocHandleEphemeralMessagePayload } from '@automerge/automerge-repo';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnDiffCanvasDocs, type TCanvasDiffEntry } from '../core/fn.diff';
+import { fnParseCanvasChangeMessage } from '../core/fn.history';
+import { fnParseCanvasSelectionMessage } from '../core/fn.selection';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+import { fnMatchesSceneSelector, type TSceneSelector } from './fx.cmd.query';
+
+export type TCanvasWatchInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Only report elements and groups matching this selector; removed ones are matched as they were. */
+  selector?: TSceneSelector;
+  /** Report the changes made after these heads first, so nothing is missed between a read and the watch. */
+  since?: string[];
+  /** Stop after this many change and selection events. */
+  limit?: number;
+};
+
+export type TCanvasWatchReadyEvent = {
+  event: 'ready';
+  canvas: TCanvasSummary;
+  heads: string[];
+};
+
+export type TCanvasWatchChangeEvent = TCanvasDiffEntry & {
+  event: 'element.added' | 'element.changed' | 'element.removed' | 'group.added' | 'group.changed' | 'group.removed';
+  /** Current state of the element or group; absent when it was removed. */
+  record?: TElement | TGroup;
+  /** Heads of the canvas after the change. */
+  heads: string[];
+  /** Origins of the changes, e.g. `cli:<session>` or `web:<client-id>`; empty for untagged changes. */
+  origins: string[];
+  labels: string[];
+  at: string;
+};
+
+export type TCanvasWatchSelectionEvent = {
+  event: 'selection';
+  origin: string;
+  ids: string[];
+  at: string;
+};
+
+export type TCanvasWatchEvent = TCanvasWatchReadyEvent | TCanvasWatchChangeEvent | TCanvasWatchSelectionEvent;
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+export type TCanvasWatchOptions = {
+  signal?: AbortSignal;
+  /**
+   * Also re-read the canvas from storage this often. Needed when the doc is written by another
+   * process that does not sync with this repo, such as other CLI runs against the same database.
+   */
+  pollIntervalMs?: number;
+};
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+/** Bumped by every write, so it would turn every event into a change of this field. */
+const IGNORED_FIELDS = ['updatedAt'];
+const STATUS_EVENTS = { added: 'added', removed: 'removed', modified: 'changed' } as const;
+
+function exitError(code: string, message: string, input: TCanvasWatchInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.watch',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function toPlainDoc(doc: Automerge.Doc<TCanvasDoc>): TCanvasDoc {
+  return JSON.parse(JSON.stringify(doc)) as TCanvasDoc;
+}
+
+function readChangeTags(doc: Automerge.Doc<TCanvasDoc>, sinceHeads: string[]): { origins: string[]; labels: string[] } {
+  const origins = new Set<string>();
+  const labels = new Set<string>();
+  for (const change of Automerge.getChangesMetaSince(doc, sinceHeads)) {
+    const message = fnParseCanvasChangeMessage(change.message);
+    if (!message) continue;
+    origins.add(message.origin);
+    if (message.label) labels.add(message.label);
+  }
+  return { origins: [...origins], labels: [...labels] };
+}
+
+function buildChangeEvents(before: Automerge.Doc<TCanvasDoc>, after: Automerge.Doc<TCanvasDoc>, selector: TSceneSelector | undefined): TCanvasWatchChangeEvent[] {
+  const beforeState = toPlainDoc(before);
+  const afterState = toPlainDoc(after);
+  const diff = fnDiffCanvasDocs(beforeState, afterState, { ignoreFields: IGNORED_FIELDS });
+  const heads = [...Automerge.getHeads(after)].sort();
+  const tags = readChangeTags(after, Automerge.getHeads(before));
+  const at = new Date().toISOString();
+
+  return diff.entries
+    .filter((entry) => fnMatchesSceneSelector(entry.status === 'removed' ? beforeState : afterState, entry.kind, entry.id, selector))
+    .map((entry) => {
+      const record = entry.kind === 'element' ? afterState.elements[entry.id] : afterState.groups[entry.id];
+      return {
+        event: `${entry.kind}.${STATUS_EVENTS[entry.status]}` as const,
+        ...entry,
+        ...(record ? { record } : {}),
+        heads,
+        ...tags,
+        at,
+      };
+    });
+}
+
+/**
+ * Streams changes of one canvas: a `ready` event with the current heads, then one event per added,
+ * changed, or removed element or group, and the selections browsers broadcast while connected.
+ * Runs until `limit` events were emitted or the signal aborts.
+ */
+export async function* fxExecuteCanvasWatch(portal: TPortal, input: TCanvasWatchInput, options: TCanvasWatchOptions = {}): AsyncGenerator<TCanvasWatchEvent> {
+  const queue: TCanvasWatchEvent[] = [];
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+  let cleanup = () => {};
+
+  try {
+    if (input.limit !== undefined && (!Number.isInteger(input.limit) || input.limit < 1)) {
+      throw exitError('CANVAS_WATCH_LIMIT_INVALID', `Invalid limit '${input.limit}'. Expected a positive integer.`, input);
+    }
+    const since = [...new Set((input.since ?? []).map((value) => value.trim()).filter(Boolean))].sort();
+    const invalid = since.filter((hash) => !HASH_PATTERN.test(hash));
+    if (invalid.length > 0) {
+      throw exitError('CANVAS_WATCH_SINCE_INVALID', `Invalid --since heads: ${invalid.join(', ')}. Expected 64-character hex change hashes.`, input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.watch', actionLabel: 'Watch' });
+    const { handle } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    let latest = Automerge.clone(handle.doc()!);
+    if (since.length > 0 && !Automerge.hasHeads(latest, since)) {
+      throw exitError('CANVAS_WATCH_SINCE_NOT_FOUND', `Canvas '${selectedCanvas.name}' has no history at --since ${since.join(',')}.`, input);
+    }
+    if (since.length > 0) {
+      queue.push(...buildChangeEvents(Automerge.view(latest, since), latest, input.selector));
+    }
+
+    // Merging instead of replacing keeps the state complete when the handle and storage each hold changes the other lacks.
+    const receive = (incoming: Automerge.Doc<TCanvasDoc>) => {
+      if (Automerge.hasHeads(latest, Automerge.getHeads(incoming))) return;
+      const next = Automerge.merge(Automerge.clone(latest), incoming);
+      queue.push(...buildChangeEvents(latest, next, input.selector));
+      latest = next;
+      notify();
+    };
+
+    const lastSelections = new Map<string, string>();
+    const onChange = ({ doc }: DocHandleChangePayload<TCanvasDoc>) => receive(doc);
+    const onMessage = ({ message }: DocHandleEphemeralMessagePayload<TCanvasDoc>) => {
+      const selection = fnParseCanvasSelectionMessage(message);
+      if (!selection) return;
+      const state = toPlainDoc(latest);
+      const ids = selection.ids.filter((id) => fnMatchesSceneSelector(state, state.elements[id] ? 'element' : 'group', id, input.selector));
+      const key = ids.join(',');
+      if ((lastSelections.get(selection.origin) ?? '') === key) return;
+      lastSelections.set(selection.origin, key);
+      queue.push({ event: 'selection', origin: selection.origin, ids, at: new Date().toISOString() });
+      notify();
+    };
+
+    handle.on('change', onChange);
+    handle.on('ephemeral-message', onMessage);
+    options.signal?.addEventListener('abort', notify);
+    const storage = portal.automergeService.repo.storageSubsystem;
+    const timer = options.pollIntervalMs && storage
+      ? setInterval(() => {
+        void storage.loadDocData(handle.documentId)
+          .then((binary) => binary && receive(Automerge.loadIncremental(Automerge.init<TCanvasDoc>(), binary)))
+          .catch(() => {});
+      }, options.pollIntervalMs)
+      : null;
+    cleanup = () => {
+      handle.off('change', onChange);
+      handle.off('ephemeral-message', onMessage);
+      options.signal?.removeEventListener('abort', notify);
+      if (timer) clearInterval(timer);
+    };
+
+    yield { event: 'ready', canvas: fnNormalizeCanvas(selectedCanvas), heads: [...Automerge.getHeads(latest)].sort() };
+
+    let emitted = 0;
+    while (!options.signal?.aborted) {
+      while (queue.length > 0) {
+        yield queue.shift()!;
+        emitted += 1;
+        if (input.limit !== undefined && emitted >= input.limit) return;
+        if (options.signal?.aborted) return;
+      }
+      await new Promise<void>((resolve) => { wake = resolve; });
+    }
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_WATCH_FAILED', error instanceof Error ? error.message : String(error), input);
+  } finally {
+    cleanup();
+  }
+}
@@ -2,12 +2,15 @@ import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomerge
 import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
 import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
 import { fnIsPlainObject } from '../core/fn.guard';
 import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { STICKY_COLOR_NAMES, fnIsStickyColor } from '../core/fn.sticky';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
 import { fxBuildCanvasAddData, fxDefaultCanvasAddStyle } from './fn.canvas-add-contract';
 import type { TCanvasCmdErrorDetails } from '../types';
 
-export type TAddPrimitiveType = 'rect' | 'ellipse' | 'diamond' | 'text' | 'line' | 'arrow';
+export type TAddPrimitiveType = 'rect' | 'ellipse' | 'diamond' | 'text' | 'line' | 'arrow' | 'sticky' | 'note';
 
 export type TCanvasAddElementInput = {
   id?: string;
@@ -24,6 +27,7 @@ export type TCanvasAddElementInput = {
 export type TArgsCanvasAddInput = {
   canvasId?: string | null;
   canvasNameQuery?: string | null;
+  session?: string | null;
   dryRun?: boolean;
   elements?: TCanvasAddElementInput[];
 };
@@ -69,11 +73,20 @@ function fnValidateElementPayload(element: TCanvasAddElementInput, doc: TCanvasD
   if (typeof element.type !== 'string' || element.type.trim().length === 0) {
     throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_TYPE_REQUIRED', message: 'Element payload must include a supported type.' } satisfies TCanvasCmdErrorDetails;
   }
-  if (!['rect', 'ellipse', 'diamond', 'text', 'line', 'arrow'].includes(element.type)) {
+  if (!['rect', 'ellipse', 'diamond', 'text', 'line', 'arrow', 'sticky', 'note'].includes(element.type)) {
     throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_TYPE_INVALID', message: `Unsupported element type '${String(element.type)}'.` } satisfies TCanvasCmdErrorDetails;
   }
   if (element.data !== undefined && !fnIsPlainObject(element.data)) throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_PAYLOAD_INVALID', message: 'Element data must be an object.' } satisfies TCanvasCmdErrorDetails;
   if (element.style !== undefined && !fnIsPlainObject(element.style)) throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_PAYLOAD_INVALID', message: 'Element style must be an object.' } satisfies TCanvasCmdErrorDetails;
+  if (element.type === 'sticky' && element.data?.color !== undefined && !fnIsStickyColor(element.data.color)) {
+    throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_STICKY_COLOR_INVALID', message: `Sticky color must be one of: ${STICKY_COLOR_NAMES.join(', ')}.` } satisfies TCanvasCmdErrorDetails;
+  }
+  if (element.type === 'text' && element.data?.markdown !== undefined && element.data.markdown !== null && typeof element.data.markdown !== 'string') {
+    throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_PAYLOAD_INVALID', message: 'Text markdown must be a string or null.' } satisfies TCanvasCmdErrorDetails;
+  }
+  if (element.type === 'note' && element.data?.markdown !== undefined && typeof element.data.markdown !== 'string') {
+    throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_PAYLOAD_INVALID', message: 'Note markdown must be a string.' } satisfies TCanvasCmdErrorDetails;
+  }
   if (element.parentGroupId !== undefined && element.parentGroupId !== null && !doc.groups[element.parentGroupId]) {
     throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_PARENT_GROUP_NOT_FOUND', message: `Parent group '${element.parentGroupId}' was not found.` } satisfies TCanvasCmdErrorDetails;
   }
@@ -96,36 +109,48 @@ function fnBuildElement(args: { input: TCanvasAddElementInput; zIndex: string; r
     createdAt: now,
     updatedAt: now,
     data: fxBuildCanvasAddData(args.input.type, args.input.data ?? {}),
-    style: { ...fxDefaultCanvasAddStyle(), ...(args.input.style ?? {}) },
+    style: { ...fxDefaultCanvasAddStyle(args.input.type), ...(args.input.style ?? {}) },
   };
 }
 
+/**
+ * Validates element payloads against `doc` and builds them stacked above its content, for commands
+ * that add elements inside their own change. Dry runs get placeholder ids.
+ */
+export function fnBuildCanvasAddElements(doc: TCanvasDoc, elements: readonly TCanvasAddElementInput[], args: { dryRun: boolean; randomUUID: () => string }): TElement[] {
+  for (const element of elements) fnValidateElementPayload(element, doc, args.dryRun);
+
+  const maxExistingIndex = Math.max(-1, ...Object.values(doc.elements).map((element) => fnExtractZIndexNumber(element.zIndex)), ...Object.values(doc.groups).map((group) => fnExtractZIndexNumber(group.zIndex)));
+  const builtElements = elements.map((element, index) => fnBuildElement({
+    input: args.dryRun ? { ...element, id: CANVAS_ADD_DRY_RUN_PLACEHOLDER_ID } : element,
+    zIndex: fnCreateOrderedZIndex(maxExistingIndex + index + 1),
+    randomUUID: () => args.dryRun ? CANVAS_ADD_DRY_RUN_PLACEHOLDER_ID : args.randomUUID(),
+  }));
+
+  if (!args.dryRun) {
+    const builtIds = new Set<string>();
+    for (const element of builtElements) {
+      if (builtIds.has(element.id)) throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_ID_CONFLICT', message: `Element id '${element.id}' already exists.` } satisfies TCanvasCmdErrorDetails;
+      builtIds.add(element.id);
+    }
+  }
+
+  return builtElements;
+}
+
 export async function txExecuteCanvasAdd(portal: TPortalCanvasAdd, args: TArgsCanvasAddInput): Promise<TCanvasAddSuccess> {
   try {
     const requestedElements = fnValidateInput(args);
     const dryRun = args.dryRun === true;
     const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: args, command: 'canvas.add', actionLabel: 'Add' });
     const { handle, doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
-
-    for (const element of requestedElements) fnValidateElementPayload(element, doc, dryRun);
-
-    const maxExistingIndex = Math.max(-1, ...Object.values(doc.elements).map((element) => fnExtractZIndexNumber(element.zIndex)), ...Object.values(doc.groups).map((group) => fnExtractZIndexNumber(group.zIndex)));
-    const builtElements = requestedElements.map((element, index) => fnBuildElement({
-      input: dryRun ? { ...element, id: CANVAS_ADD_DRY_RUN_PLACEHOLDER_ID } : element,
-      zIndex: fnCreateOrderedZIndex(maxExistingIndex + index + 1),
-      randomUUID: () => dryRun ? CANVAS_ADD_DRY_RUN_PLACEHOLDER_ID : portal.crypto.randomUUID(),
-    }));
+    const builtElements = fnBuildCanvasAddElements(doc, requestedElements, { dryRun, randomUUID: () => portal.crypto.randomUUID() });
 
     if (!dryRun) {
-      const builtIds = new Set<string>();
-      for (const element of builtElements) {
-        if (builtIds.has(element.id)) throw { ok: false, command: 'canvas.add', code: 'CANVAS_ADD_ID_CONFLICT', message: `Element id '${element.id}' already exists.` } satisfies TCanvasCmdErrorDetails;
-        builtIds.add(element.id);
-      }
-
       handle.change((nextDoc) => {
         for (const element of builtElements) nextDoc.elements[element.id] = structuredClone(element);
-      });
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, Date.now()));
+      }, fnBuildCanvasEditChangeOptions(args.session, 'canvas.add'));
     }
 
     return {
@@ -0,0 +1,109 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { ALIGN_MODES, fnPlanCanvasAlign, type TAlignMode } from '../core/fn.align';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
+import type { TDiagramBox } from '../core/fn.diagram-layout';
+import { fnApplyCanvasLayout, type TLayoutMove } from '../core/fn.layout';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
+import { fnHasSceneSelectorFilters, fxExecuteCanvasQuery, type TSceneSelector } from './fx.cmd.query';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasAlignInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  dryRun?: boolean;
+  /** Same filters as `canvas.query`; every match is aligned. */
+  selector?: TSceneSelector;
+  mode?: TAlignMode;
+};
+
+export type TCanvasAlignSuccess = {
+  ok: true;
+  command: 'canvas.align';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  mode: TAlignMode;
+  matchedCount: number;
+  matchedIds: string[];
+  nodeCount: number;
+  moves: TLayoutMove[];
+  changedCount: number;
+  changedIds: string[];
+  bounds: TDiagramBox | null;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasAlignInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.align',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasAlign(portal: TPortal, input: TCanvasAlignInput): Promise<TCanvasAlignSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    if (input.mode === undefined || !ALIGN_MODES.includes(input.mode)) {
+      throw exitError('CANVAS_ALIGN_MODE_INVALID', `${input.mode === undefined ? 'Align requires a mode' : `Invalid align mode '${String(input.mode)}'`}. Expected one of: ${ALIGN_MODES.join(', ')}.`, input);
+    }
+    if (!fnHasSceneSelectorFilters(input.selector)) {
+      throw exitError('CANVAS_ALIGN_SELECTOR_REQUIRED', 'Align requires a selector such as ids, types, group, subtree, or bounds.', input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.align', actionLabel: 'Align' });
+    const query = await fxExecuteCanvasQuery(portal, {
+      selector: { source: 'query', canvasId: selectedCanvas.id, filters: input.selector },
+      output: 'summary',
+      omitData: true,
+      omitStyle: true,
+    });
+    const matchedIds = query.matches.map((match) => match.metadata.id);
+
+    const { handle, doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const plan = fnPlanCanvasAlign(doc, matchedIds, input.mode);
+    if (plan.nodes.length < 2) {
+      throw exitError('CANVAS_ALIGN_TOO_FEW', `Align needs at least 2 movable targets; selector resolved to ${plan.nodes.length}. Bound connectors and attached text follow their targets.`, input);
+    }
+
+    const changedIds = fnSortIds(plan.elementDeltas.map((delta) => delta.id));
+    const now = Date.now();
+
+    if (!dryRun && changedIds.length > 0) {
+      handle.change((nextDoc) => {
+        fnApplyCanvasLayout(nextDoc, plan, now);
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, now));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.align'));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.align',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      mode: input.mode,
+      matchedCount: matchedIds.length,
+      matchedIds: fnSortIds(matchedIds),
+      nodeCount: plan.nodes.length,
+      moves: plan.moves,
+      changedCount: changedIds.length,
+      changedIds,
+      bounds: plan.bounds,
+    };
+  } catch (error) {
+    // Selector errors raised by the query are reported as part of this command.
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw { ...error, command: 'canvas.align' };
+    throw exitError('CANVAS_ALIGN_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -0,0 +1,199 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TArrowData, TBinding, TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnGetConnectorBox, fnResolveBindingPoint, fnRouteBoundConnectors } from '../core/fn.connector';
+import { fnIsPlainObject } from '../core/fn.guard';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
+import { fxBuildCanvasAddData, fxDefaultCanvasAddStyle } from './fn.canvas-add-contract';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasConnectType = 'arrow' | 'line';
+export type TCanvasConnectCap = TArrowData['startCap'];
+export type TCanvasConnectLineType = TArrowData['lineType'];
+
+export type TCanvasConnectInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  dryRun?: boolean;
+  sourceId?: string;
+  targetId?: string;
+  id?: string;
+  type?: TCanvasConnectType;
+  lineType?: TCanvasConnectLineType;
+  startCap?: TCanvasConnectCap;
+  endCap?: TCanvasConnectCap;
+  style?: Record<string, unknown>;
+};
+
+export type TCanvasConnectSuccess = {
+  ok: true;
+  command: 'canvas.connect';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  sourceId: string;
+  targetId: string;
+  element: {
+    id: string;
+    type: TCanvasConnectType;
+    zIndex: string;
+    x: number;
+    y: number;
+    points: Array<[number, number]>;
+    startBinding: TBinding;
+    endBinding: TBinding;
+  };
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+const CANVAS_CONNECT_DRY_RUN_PLACEHOLDER_ID = 'PLACEHOLDER-NO';
+const CAP_VALUES: TCanvasConnectCap[] = ['none', 'arrow', 'dot', 'diamond'];
+const LINE_TYPE_VALUES: TCanvasConnectLineType[] = ['straight', 'curved'];
+
+function fnCreateOrderedZIndex(index: number): string {
+  return `z${String(index).padStart(8, '0')}`;
+}
+
+function fnExtractZIndexNumber(zIndex: string): number {
+  const match = /^z(\d+)$/.exec(zIndex);
+  return match ? Number(match[1]) : -1;
+}
+
+function validateInput(input: TCanvasConnectInput): { sourceId: string; targetId: string } {
+  const selector = { canvasId: input.canvasId ?? null, canvasNameQuery: input.canvasNameQuery ?? null };
+  const sourceId = input.sourceId?.trim();
+  const targetId = input.targetId?.trim();
+  if (!sourceId) throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_SOURCE_REQUIRED', message: 'Connect requires a source element id.', ...selector } satisfies TCanvasCmdErrorDetails;
+  if (!targetId) throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_TARGET_REQUIRED', message: 'Connect requires a target element id.', ...selector } satisfies TCanvasCmdErrorDetails;
+  if (sourceId === targetId) throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_SAME_ELEMENT', message: `Source and target must be different elements, got '${sourceId}' twice.`, ...selector } satisfies TCanvasCmdErrorDetails;
+  if (input.type !== undefined && input.type !== 'arrow' && input.type !== 'line') throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_PAYLOAD_INVALID', message: `Connector type must be 'arrow' or 'line', got '${String(input.type)}'.`, ...selector } satisfies TCanvasCmdErrorDetails;
+  if (input.lineType !== undefined && !LINE_TYPE_VALUES.includes(input.lineType)) throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_PAYLOAD_INVALID', message: `Line type must be one of ${LINE_TYPE_VALUES.join(', ')}, got '${String(input.lineType)}'.`, ...selector } satisfies TCanvasCmdErrorDetails;
+  for (const [key, value] of [['startCap', input.startCap], ['endCap', input.endCap]] as const) {
+    if (value !== undefined && !CAP_VALUES.includes(value)) throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_PAYLOAD_INVALID', message: `${key} must be one of ${CAP_VALUES.join(', ')}, got '${String(value)}'.`, ...selector } satisfies TCanvasCmdErrorDetails;
+  }
+  if (input.type === 'line' && (input.startCap !== undefined || input.endCap !== undefined)) throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_PAYLOAD_INVALID', message: 'Caps are only supported for arrow connectors.', ...selector } satisfies TCanvasCmdErrorDetails;
+  if (input.style !== undefined && !fnIsPlainObject(input.style)) throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_PAYLOAD_INVALID', message: 'Connector style must be an object.', ...selector } satisfies TCanvasCmdErrorDetails;
+  return { sourceId, targetId };
+}
+
+function resolveEndpoint(doc: TCanvasDoc, id: string, role: 'source' | 'target', canvasId: string, canvasNameQuery: string | null): TElement {
+  const code = role === 'source' ? 'SOURCE' : 'TARGET';
+  const element = doc.elements[id];
+  if (!element) {
+    const hint = doc.groups[id] ? ` '${id}' is a group; connect its elements instead.` : '';
+    throw { ok: false, command: 'canvas.connect', code: `CANVAS_CONNECT_${code}_NOT_FOUND`, message: `The ${role} element '${id}' was not found in canvas '${doc.name}'.${hint}`, canvasId, canvasNameQuery } satisfies TCanvasCmdErrorDetails;
+  }
+  if (!fnGetConnectorBox(element)) {
+    throw { ok: false, command: 'canvas.connect', code: `CANVAS_CONNECT_${code}_INVALID`, message: `The ${role} element '${id}' has type '${element.data.type}', which cannot be connected.`, canvasId, canvasNameQuery } satisfies TCanvasCmdErrorDetails;
+  }
+  return element;
+}
+
+/**
+ * Picks facing edge midpoints from the element bounds: left/right when the boxes are
+ * further apart horizontally, top/bottom otherwise.
+ */
+function pickAnchors(source: TElement, target: TElement): { start: TBinding['anchor']; end: TBinding['anchor'] } {
+  const sourceBox = fnGetConnectorBox(source)!;
+  const targetBox = fnGetConnectorBox(target)!;
+  const dx = (targetBox.x + targetBox.w / 2) - (sourceBox.x + sourceBox.w / 2);
+  const dy = (targetBox.y + targetBox.h / 2) - (sourceBox.y + sourceBox.h / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? { start: { x: 1, y: 0.5 }, end: { x: 0, y: 0.5 } } : { start: { x: 0, y: 0.5 }, end: { x: 1, y: 0.5 } };
+  }
+  return dy >= 0 ? { start: { x: 0.5, y: 1 }, end: { x: 0.5, y: 0 } } : { start: { x: 0.5, y: 0 }, end: { x: 0.5, y: 1 } };
+}
+
+function buildConnectorElement(args: { id: string; input: TCanvasConnectInput; source: TElement; target: TElement; zIndex: string }): TElement {
+  const anchors = pickAnchors(args.source, args.target);
+  const startBinding: TBinding = { targetId: args.source.id, anchor: anchors.start };
+  const endBinding: TBinding = { targetId: args.target.id, anchor: anchors.end };
+  const start = fnResolveBindingPoint(args.source, anchors.start)!;
+  const end = fnResolveBindingPoint(args.target, anchors.end)!;
+  const type = args.input.type ?? 'arrow';
+  const now = Date.now();
+  const raw: Record<string, unknown> = { lineType: args.input.lineType ?? 'straight', points: [[0, 0], [end.x - start.x, end.y - start.y]], startBinding, endBinding };
+  if (type === 'arrow') {
+    if (args.input.startCap !== undefined) raw.startCap = args.input.startCap;
+    if (args.input.endCap !== undefined) raw.endCap = args.input.endCap;
+  }
+  return {
+    id: args.id,
+    x: start.x,
+    y: start.y,
+    rotation: 0,
+    zIndex: args.zIndex,
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: now,
+    updatedAt: now,
+    data: fxBuildCanvasAddData(type, raw),
+    style: { ...fxDefaultCanvasAddStyle(), ...(args.input.style ?? {}) },
+  };
+}
+
+export async function txExecuteCanvasConnect(portal: TPortal, input: TCanvasConnectInput): Promise<TCanvasConnectSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const { sourceId, targetId } = validateInput(input);
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.connect', actionLabel: 'Connect' });
+    const { handle, doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const canvasNameQuery = input.canvasNameQuery ?? null;
+    const source = resolveEndpoint(doc, sourceId, 'source', selectedCanvas.id, canvasNameQuery);
+    const target = resolveEndpoint(doc, targetId, 'target', selectedCanvas.id, canvasNameQuery);
+
+    const id = dryRun ? CANVAS_CONNECT_DRY_RUN_PLACEHOLDER_ID : input.id ?? portal.crypto.randomUUID();
+    if (!dryRun && (doc.elements[id] || doc.groups[id])) {
+      throw { ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_ID_CONFLICT', message: `Element id '${id}' already exists.`, canvasId: selectedCanvas.id, canvasNameQuery } satisfies TCanvasCmdErrorDetails;
+    }
+
+    const maxExistingIndex = Math.max(-1, ...Object.values(doc.elements).map((element) => fnExtractZIndexNumber(element.zIndex)), ...Object.values(doc.groups).map((group) => fnExtractZIndexNumber(group.zIndex)));
+    const element = buildConnectorElement({ id, input, source, target, zIndex: fnCreateOrderedZIndex(maxExistingIndex + 1) });
+
+    if (!dryRun) {
+      handle.change((nextDoc) => {
+        nextDoc.elements[element.id] = structuredClone(element);
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, element.updatedAt));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.connect'));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    const data = element.data as TArrowData;
+    return {
+      ok: true,
+      command: 'canvas.connect',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      sourceId,
+      targetId,
+      element: {
+        id: element.id,
+        type: data.type,
+        zIndex: element.zIndex,
+        x: element.x,
+        y: element.y,
+        points: data.points,
+        startBinding: data.startBinding!,
+        endBinding: data.endBinding!,
+      },
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw {
+      ok: false,
+      command: 'canvas.connect',
+      code: 'CANVAS_CONNECT_FAILED',
+      message: error instanceof Error ? error.message : String(error),
+      canvasId: input.canvasId,
+      canvasNameQuery: input.canvasNameQuery ?? null,
+    } satisfies TCanvasCmdErrorDetails;
+  }
+}
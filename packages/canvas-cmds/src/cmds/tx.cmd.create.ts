@@ -0,0 +1,52 @@
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, type TCanvasSummary } from '../core/fn.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasCreateInput = {
+  name?: string | null;
+};
+
+export type TCanvasCreateSuccess = {
+  ok: true;
+  command: 'canvas.create';
+  canvas: TCanvasSummary;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+function exitError(code: string, message: string): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.create',
+    code,
+    message,
+    canvasId: null,
+    canvasNameQuery: null,
+  };
+}
+
+export async function txExecuteCanvasCreate(portal: TPortal, input: TCanvasCreateInput): Promise<TCanvasCreateSuccess> {
+  try {
+    const name = input.name?.trim() || null;
+    if (!name) throw exitError('CANVAS_CREATE_NAME_REQUIRED', 'Create requires a canvas name.');
+    if (portal.dbService.canvas.findByName(name)) {
+      throw exitError('CANVAS_CREATE_NAME_CONFLICT', `Canvas '${name}' already exists. Choose another name.`);
+    }
+
+    const id = portal.crypto.randomUUID();
+    const handle = portal.automergeService.repo.create<TCanvasDoc>({ id, name, elements: {}, groups: {} });
+    await handle.whenReady();
+    const row = portal.dbService.canvas.create({ id, name, created_at: new Date(), automerge_url: handle.url });
+
+    return { ok: true, command: 'canvas.create', canvas: fnNormalizeCanvas(row) };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_CREATE_FAILED', error instanceof Error ? error.message : String(error));
+  }
+}
@@ -2,13 +2,16 @@ import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomerge
 import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
 import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
 import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
 import { fnCollectGroupCascade } from '../core/fn.group';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
 import type { TCanvasCmdErrorDetails } from '../types';
 
 export type TCanvasDeleteInput = {
   canvasId?: string | null;
   canvasNameQuery?: string | null;
+  session?: string | null;
   dryRun?: boolean;
   ids?: string[];
 };
@@ -83,7 +86,12 @@ export async function txExecuteCanvasDelete(portal: TPortal, input: TCanvasDelet
       handle.change((nextDoc) => {
         for (const elementId of plan.deletedElementIds) delete nextDoc.elements[elementId];
         for (const groupId of plan.deletedGroupIds) delete nextDoc.groups[groupId];
-      });
+        // Members of a deleted frame are released rather than left pointing at it.
+        for (const element of Object.values(nextDoc.elements)) {
+          if (element.frameId && !nextDoc.elements[element.frameId]) element.frameId = null;
+        }
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, Date.now()));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.delete'));
       await portal.automergeService.repo.flush([handle.documentId]);
     }
 
@@ -0,0 +1,187 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
+import { fnDetectDiagramFormat, fnParseDiagram, type TDiagramDirection, type TDiagramFormat } from '../core/fn.diagram';
+import { DIAGRAM_EDGE_FONT_SIZE, DIAGRAM_FONT_SIZE, DIAGRAM_LINE_HEIGHT, fnLayoutDiagram, type TDiagramBox, type TDiagramLayout } from '../core/fn.diagram-layout';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
+import { fnGetExportElementBounds } from '../core/fn.svg-export';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasAddElements, type TAddPrimitiveType, type TCanvasAddElementInput } from './tx.cmd.add';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasDiagramInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  dryRun?: boolean;
+  source?: string;
+  /** Defaults to detecting DOT (`graph`/`digraph` with braces) and otherwise Mermaid. */
+  format?: TDiagramFormat;
+  /** Top-left of the diagram. Defaults to the right of the existing canvas content. */
+  x?: number;
+  y?: number;
+};
+
+export type TCanvasDiagramElementRole = 'node' | 'label' | 'edge' | 'edge-label';
+
+export type TCanvasDiagramSuccess = {
+  ok: true;
+  command: 'canvas.diagram';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  format: TDiagramFormat;
+  direction: TDiagramDirection;
+  nodeCount: number;
+  edgeCount: number;
+  addedCount: number;
+  addedIds: string[];
+  groupId: string;
+  bounds: TDiagramBox;
+  elements: Array<{ id: string; type: TAddPrimitiveType; role: TCanvasDiagramElementRole; key: string; zIndex: string } & TDiagramBox>;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+type TDiagramElementPlan = { input: TCanvasAddElementInput & { id: string; type: TAddPrimitiveType }; role: TCanvasDiagramElementRole; key: string; box: TDiagramBox };
+
+const CANVAS_DIAGRAM_DRY_RUN_PLACEHOLDER_ID = 'PLACEHOLDER-NO';
+const DIAGRAM_FORMATS: TDiagramFormat[] = ['mermaid', 'dot'];
+const DIAGRAM_CONTENT_GAP = 120;
+
+function exitError(code: string, message: string, input: TCanvasDiagramInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.diagram',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function resolveOrigin(doc: TCanvasDoc, input: TCanvasDiagramInput): { x: number; y: number } {
+  for (const [key, value] of [['x', input.x], ['y', input.y]] as const) {
+    if (value !== undefined && !Number.isFinite(value)) throw exitError('CANVAS_DIAGRAM_POSITION_INVALID', `Diagram ${key} must be a finite number.`, input);
+  }
+
+  const bounds = Object.values(doc.elements).map((element) => fnGetExportElementBounds(element));
+  const fallback = bounds.length === 0
+    ? { x: 0, y: 0 }
+    : { x: Math.round(Math.max(...bounds.map((box) => box.x + box.w)) + DIAGRAM_CONTENT_GAP), y: Math.round(Math.min(...bounds.map((box) => box.y))) };
+  return { x: input.x ?? fallback.x, y: input.y ?? fallback.y };
+}
+
+function buildTextData(text: string, box: TDiagramBox, fontSize: number, containerId: string | null): Record<string, unknown> {
+  return { w: box.w, h: box.h, text, originalText: text, fontSize, textAlign: 'center', verticalAlign: 'middle', lineHeight: DIAGRAM_LINE_HEIGHT, containerId };
+}
+
+/**
+ * Node shapes come first with their bound labels, then connectors and their labels, so the
+ * stacking order matches the order `canvas.add` assigns zIndex values in.
+ */
+function planDiagramElements(layout: TDiagramLayout, randomUUID: () => string): TDiagramElementPlan[] {
+  const plans: TDiagramElementPlan[] = [];
+  const shapeIds = new Map<string, string>();
+
+  for (const node of layout.nodes) {
+    const id = randomUUID();
+    const box = { x: node.x, y: node.y, w: node.w, h: node.h };
+    shapeIds.set(node.key, id);
+    const data = node.shape === 'ellipse' ? { rx: node.w / 2, ry: node.h / 2 } : { w: node.w, h: node.h };
+    plans.push({ input: { id, type: node.shape, x: node.x, y: node.y, data }, role: 'node', key: node.key, box });
+    plans.push({ input: { id: randomUUID(), type: 'text', x: node.x, y: node.y, data: buildTextData(node.label, box, DIAGRAM_FONT_SIZE, id) }, role: 'label', key: node.key, box });
+  }
+
+  const edges = layout.edges.filter((edge) => !edge.hidden);
+  const edgeKeys = edges.map((edge) => `${edge.from}->${edge.to}`);
+  edges.forEach((edge, index) => {
+    const type = edge.startCap === 'none' && edge.endCap === 'none' ? 'line' : 'arrow';
+    const data: Record<string, unknown> = {
+      lineType: 'straight',
+      points: [[0, 0], [edge.end.x - edge.start.x, edge.end.y - edge.start.y]],
+      startBinding: { targetId: shapeIds.get(edge.from)!, anchor: edge.startAnchor },
+      endBinding: { targetId: shapeIds.get(edge.to)!, anchor: edge.endAnchor },
+    };
+    if (type === 'arrow') Object.assign(data, { startCap: edge.startCap, endCap: edge.endCap });
+    const box = {
+      x: Math.min(edge.start.x, edge.end.x),
+      y: Math.min(edge.start.y, edge.end.y),
+      w: Math.abs(edge.end.x - edge.start.x),
+      h: Math.abs(edge.end.y - edge.start.y),
+    };
+    plans.push({ input: { id: randomUUID(), type, x: edge.start.x, y: edge.start.y, data, style: edge.thick ? { strokeWidth: 2 } : undefined }, role: 'edge', key: edgeKeys[index]!, box });
+  });
+
+  edges.forEach((edge, index) => {
+    if (!edge.label || !edge.labelBox) return;
+    const box = edge.labelBox;
+    plans.push({ input: { id: randomUUID(), type: 'text', x: box.x, y: box.y, data: buildTextData(edge.label, box, DIAGRAM_EDGE_FONT_SIZE, null) }, role: 'edge-label', key: edgeKeys[index]!, box });
+  });
+
+  return plans;
+}
+
+export async function txExecuteCanvasDiagram(portal: TPortal, input: TCanvasDiagramInput): Promise<TCanvasDiagramSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    if (typeof input.source !== 'string' || input.source.trim().length === 0) {
+      throw exitError('CANVAS_DIAGRAM_SOURCE_REQUIRED', 'Diagram requires Mermaid flowchart or Graphviz DOT source text.', input);
+    }
+    if (input.format !== undefined && !DIAGRAM_FORMATS.includes(input.format)) {
+      throw exitError('CANVAS_DIAGRAM_FORMAT_INVALID', `Invalid diagram format '${String(input.format)}'. Expected one of: ${DIAGRAM_FORMATS.join(', ')}.`, input);
+    }
+
+    const format = input.format ?? fnDetectDiagramFormat(input.source);
+    const parsed = fnParseDiagram(input.source, format);
+    if (!parsed.ok) {
+      throw exitError('CANVAS_DIAGRAM_PARSE_FAILED', `Failed to parse ${format} source at line ${parsed.line}: ${parsed.message}`, input);
+    }
+    if (parsed.graph.nodes.length === 0) {
+      throw exitError('CANVAS_DIAGRAM_EMPTY', `The ${parsed.graph.format} source declares no nodes.`, input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.diagram', actionLabel: 'Diagram' });
+    const { handle, doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const layout = fnLayoutDiagram(parsed.graph, resolveOrigin(doc, input));
+    const plans = planDiagramElements(layout, () => portal.crypto.randomUUID());
+    const elements = fnBuildCanvasAddElements(doc, plans.map((plan) => plan.input), { dryRun, randomUUID: () => portal.crypto.randomUUID() });
+
+    // The elements and their group are one change, so one undo takes the whole diagram back out.
+    const createdAt = Math.max(Date.now(), ...elements.map((element) => element.createdAt + 1));
+    const group: TGroup = { id: dryRun ? CANVAS_DIAGRAM_DRY_RUN_PLACEHOLDER_ID : portal.crypto.randomUUID(), parentGroupId: null, zIndex: elements[0]!.zIndex, locked: false, createdAt };
+    if (!dryRun) {
+      handle.change((nextDoc) => {
+        nextDoc.groups[group.id] = structuredClone(group);
+        for (const element of elements) nextDoc.elements[element.id] = structuredClone({ ...element, parentGroupId: group.id });
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, Date.now()));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.diagram'));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.diagram',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      format: parsed.graph.format,
+      direction: layout.direction,
+      nodeCount: layout.nodes.length,
+      edgeCount: layout.edges.filter((edge) => !edge.hidden).length,
+      addedCount: elements.length,
+      addedIds: elements.map((element) => element.id),
+      groupId: group.id,
+      bounds: layout.bounds,
+      elements: plans.map((plan, index) => ({ id: elements[index]!.id, type: plan.input.type, role: plan.role, key: plan.key, zIndex: elements[index]!.zIndex, ...plan.box })),
+    };
+  } catch (error) {
+    // Element payload errors raised while building are reported as part of this command.
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw { ...error, command: 'canvas.diagram' };
+    throw exitError('CANVAS_DIAGRAM_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
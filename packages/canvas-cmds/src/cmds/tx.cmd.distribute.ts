@@ -0,0 +1,109 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { DISTRIBUTE_AXES, fnPlanCanvasDistribute, type TDistributeAxis } from '../core/fn.align';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
+import type { TDiagramBox } from '../core/fn.diagram-layout';
+import { fnApplyCanvasLayout, type TLayoutMove } from '../core/fn.layout';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
+import { fnHasSceneSelectorFilters, fxExecuteCanvasQuery, type TSceneSelector } from './fx.cmd.query';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasDistributeInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  dryRun?: boolean;
+  /** Same filters as `canvas.query`; every match is distributed. */
+  selector?: TSceneSelector;
+  axis?: TDistributeAxis;
+};
+
+export type TCanvasDistributeSuccess = {
+  ok: true;
+  command: 'canvas.distribute';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  axis: TDistributeAxis;
+  matchedCount: number;
+  matchedIds: string[];
+  nodeCount: number;
+  moves: TLayoutMove[];
+  changedCount: number;
+  changedIds: string[];
+  bounds: TDiagramBox | null;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasDistributeInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.distribute',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasDistribute(portal: TPortal, input: TCanvasDistributeInput): Promise<TCanvasDistributeSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    if (input.axis === undefined || !DISTRIBUTE_AXES.includes(input.axis)) {
+      throw exitError('CANVAS_DISTRIBUTE_AXIS_INVALID', `${input.axis === undefined ? 'Distribute requires an axis' : `Invalid distribute axis '${String(input.axis)}'`}. Expected one of: ${DISTRIBUTE_AXES.join(', ')}.`, input);
+    }
+    if (!fnHasSceneSelectorFilters(input.selector)) {
+      throw exitError('CANVAS_DISTRIBUTE_SELECTOR_REQUIRED', 'Distribute requires a selector such as ids, types, group, subtree, or bounds.', input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.distribute', actionLabel: 'Distribute' });
+    const query = await fxExecuteCanvasQuery(portal, {
+      selector: { source: 'query', canvasId: selectedCanvas.id, filters: input.selector },
+      output: 'summary',
+      omitData: true,
+      omitStyle: true,
+    });
+    const matchedIds = query.matches.map((match) => match.metadata.id);
+
+    const { handle, doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const plan = fnPlanCanvasDistribute(doc, matchedIds, input.axis);
+    if (plan.nodes.length < 3) {
+      throw exitError('CANVAS_DISTRIBUTE_TOO_FEW', `Distribute needs at least 3 movable targets; selector resolved to ${plan.nodes.length}. Bound connectors and attached text follow their targets.`, input);
+    }
+
+    const changedIds = fnSortIds(plan.elementDeltas.map((delta) => delta.id));
+    const now = Date.now();
+
+    if (!dryRun && changedIds.length > 0) {
+      handle.change((nextDoc) => {
+        fnApplyCanvasLayout(nextDoc, plan, now);
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, now));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.distribute'));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.distribute',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      axis: input.axis,
+      matchedCount: matchedIds.length,
+      matchedIds: fnSortIds(matchedIds),
+      nodeCount: plan.nodes.length,
+      moves: plan.moves,
+      changedCount: changedIds.length,
+      changedIds,
+      bounds: plan.bounds,
+    };
+  } catch (error) {
+    // Selector errors raised by the query are reported as part of this command.
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw { ...error, command: 'canvas.distribute' };
+    throw exitError('CANVAS_DISTRIBUTE_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -0,0 +1,68 @@
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, fnUniqueCanvasName, type TCanvasSummary } from '../core/fn.canvas';
+import { fxCreateCanvasCopy } from '../core/fx.canvas-copy';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasDuplicateInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Name of the copy; defaults to `<source name> copy`, numbered when taken. */
+  name?: string | null;
+};
+
+export type TCanvasDuplicateSuccess = {
+  ok: true;
+  command: 'canvas.duplicate';
+  source: TCanvasSummary;
+  canvas: TCanvasSummary;
+  elementCount: number;
+  groupCount: number;
+  fileCount: number;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+function exitError(code: string, message: string, input: TCanvasDuplicateInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.duplicate',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasDuplicate(portal: TPortal, input: TCanvasDuplicateInput): Promise<TCanvasDuplicateSuccess> {
+  try {
+    const rows = portal.dbService.canvas.listAll();
+    const source = fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.duplicate', actionLabel: 'Duplicate' });
+
+    const requestedName = input.name?.trim() || null;
+    if (requestedName && rows.some((row) => row.name === requestedName)) {
+      throw exitError('CANVAS_DUPLICATE_NAME_CONFLICT', `Canvas '${requestedName}' already exists. Choose another name.`, input);
+    }
+
+    const copy = await fxCreateCanvasCopy(portal, { source, name: requestedName ?? fnUniqueCanvasName(`${source.name} copy`, rows), fork: false });
+    const doc = copy.handle.doc() as TCanvasDoc;
+
+    return {
+      ok: true,
+      command: 'canvas.duplicate',
+      source: fnNormalizeCanvas(source),
+      canvas: fnNormalizeCanvas(copy.row),
+      elementCount: Object.keys(doc.elements).length,
+      groupCount: Object.keys(doc.groups).length,
+      fileCount: copy.fileCount,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_DUPLICATE_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -0,0 +1,71 @@
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, fnUniqueCanvasName, type TCanvasSummary } from '../core/fn.canvas';
+import { fxCreateCanvasCopy } from '../core/fx.canvas-copy';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasForkInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Name of the fork; defaults to `<source name> fork`, numbered when taken. */
+  name?: string | null;
+};
+
+export type TCanvasForkSuccess = {
+  ok: true;
+  command: 'canvas.fork';
+  source: TCanvasSummary;
+  canvas: TCanvasSummary;
+  /** Id of the source canvas; `canvas merge` merges the fork back into it by default. */
+  forkedFromId: string;
+  elementCount: number;
+  groupCount: number;
+  fileCount: number;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+function exitError(code: string, message: string, input: TCanvasForkInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.fork',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasFork(portal: TPortal, input: TCanvasForkInput): Promise<TCanvasForkSuccess> {
+  try {
+    const rows = portal.dbService.canvas.listAll();
+    const source = fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.fork', actionLabel: 'Fork' });
+
+    const requestedName = input.name?.trim() || null;
+    if (requestedName && rows.some((row) => row.name === requestedName)) {
+      throw exitError('CANVAS_FORK_NAME_CONFLICT', `Canvas '${requestedName}' already exists. Choose another name.`, input);
+    }
+
+    const copy = await fxCreateCanvasCopy(portal, { source, name: requestedName ?? fnUniqueCanvasName(`${source.name} fork`, rows), fork: true });
+    const doc = copy.handle.doc() as TCanvasDoc;
+
+    return {
+      ok: true,
+      command: 'canvas.fork',
+      source: fnNormalizeCanvas(source),
+      canvas: fnNormalizeCanvas(copy.row),
+      forkedFromId: source.id,
+      elementCount: Object.keys(doc.elements).length,
+      groupCount: Object.keys(doc.groups).length,
+      fileCount: copy.fileCount,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_FORK_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -3,11 +3,13 @@ import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
 import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
 import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
 import type { TCanvasCmdErrorDetails } from '../types';
 
 export type TCanvasGroupInput = {
   canvasId?: string | null;
   canvasNameQuery?: string | null;
+  session?: string | null;
   dryRun?: boolean;
   ids?: string[];
 };
@@ -112,7 +114,7 @@ export async function txExecuteCanvasGroup(portal: TPortal, input: TCanvasGroupI
           element.parentGroupId = groupId;
           element.updatedAt = now;
         }
-      });
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.group'));
       await portal.automergeService.repo.flush([handle.documentId]);
     }
 
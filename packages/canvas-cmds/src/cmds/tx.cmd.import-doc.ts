@@ -0,0 +1,148 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnUniqueCanvasName, type TCanvasSummary } from '../core/fn.canvas';
+import { CANVAS_FILE_VERSION, fnParseCanvasFile, type TCanvasFile } from '../core/fn.canvas-file';
+import { fnToFileUrl } from '../core/fn.image-file';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasImportDocInput = {
+  /** Content of a `.vibecanvas` file. */
+  content: string;
+  /** Name of the new canvas; defaults to the exported name, numbered when taken. */
+  name?: string | null;
+  dryRun?: boolean;
+};
+
+export type TCanvasImportDocSuccess = {
+  ok: true;
+  command: 'canvas.import-doc';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  /** The canvas as recorded in the file. */
+  source: { id: string; name: string; appVersion: string | null; exportedAt: string };
+  /** True when the exported name was taken and a numbered one was used. */
+  renamed: boolean;
+  elementCount: number;
+  groupCount: number;
+  fileCount: number;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+function exitError(code: string, message: string): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.import-doc',
+    code,
+    message,
+    canvasId: null,
+    canvasNameQuery: null,
+  };
+}
+
+function readCanvasFile(content: unknown): TCanvasFile {
+  let file: TCanvasFile | null = null;
+  try {
+    file = typeof content === 'string' ? fnParseCanvasFile(JSON.parse(content)) : null;
+  } catch {
+    file = null;
+  }
+  if (!file) throw exitError('CANVAS_IMPORT_DOC_CONTENT_INVALID', 'Import content is not a .vibecanvas file. Expected JSON written by canvas export-doc.');
+  if (file.version > CANVAS_FILE_VERSION) {
+    throw exitError('CANVAS_IMPORT_DOC_VERSION_UNSUPPORTED', `Canvas file version ${file.version} was written by a newer vibecanvas (${file.appVersion ?? 'unknown version'}). This version reads up to ${CANVAS_FILE_VERSION}.`);
+  }
+  return file;
+}
+
+/**
+ * Creates a new canvas from a `.vibecanvas` file. The document keeps its history but gets a new
+ * document url, and the images are stored under new ids, so importing the same file twice, or into
+ * the database it came from, never touches an existing canvas.
+ */
+export async function txExecuteCanvasImportDoc(portal: TPortal, input: TCanvasImportDocInput): Promise<TCanvasImportDocSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const file = readCanvasFile(input.content);
+    const binary = new Uint8Array(Buffer.from(file.document, 'base64'));
+
+    let doc: Automerge.Doc<TCanvasDoc>;
+    try {
+      doc = Automerge.load<TCanvasDoc>(binary);
+    } catch (error) {
+      throw exitError('CANVAS_IMPORT_DOC_DOCUMENT_INVALID', `Canvas file holds no readable Automerge document: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (typeof doc.elements !== 'object' || doc.elements === null || typeof doc.groups !== 'object' || doc.groups === null) {
+      throw exitError('CANVAS_IMPORT_DOC_DOCUMENT_INVALID', 'Canvas file document is not a canvas. Expected elements and groups maps.');
+    }
+
+    const rows = portal.dbService.canvas.listAll();
+    const requestedName = input.name?.trim() || null;
+    if (requestedName && rows.some((row) => row.name === requestedName)) {
+      throw exitError('CANVAS_IMPORT_DOC_NAME_CONFLICT', `Canvas '${requestedName}' already exists. Choose another name.`);
+    }
+    const name = requestedName ?? fnUniqueCanvasName(file.canvas.name, rows);
+    const id = portal.crypto.randomUUID();
+    const source = { id: file.canvas.id, name: file.canvas.name, appVersion: file.appVersion, exportedAt: file.exportedAt };
+    const counts = { elementCount: Object.keys(doc.elements).length, groupCount: Object.keys(doc.groups).length, fileCount: file.files.length };
+
+    if (dryRun) {
+      return {
+        ok: true,
+        command: 'canvas.import-doc',
+        dryRun,
+        canvas: { id, name, automergeUrl: '', createdAt: new Date().toISOString() },
+        source,
+        renamed: !requestedName && name !== file.canvas.name,
+        ...counts,
+      };
+    }
+
+    const fileUrls = new Map<string, string>();
+    for (const image of file.files) {
+      const fileId = portal.crypto.randomUUID();
+      portal.dbService.file.create({ id: fileId, hash: image.hash, format: image.format, base64: image.base64 });
+      fileUrls.set(fnToFileUrl(image.id, image.format), fnToFileUrl(fileId, image.format));
+    }
+
+    const handle = portal.automergeService.repo.import<TCanvasDoc>(binary);
+    await handle.whenReady();
+    // Untagged, so undo never points the canvas back at the exporter's file ids.
+    handle.change((next) => {
+      next.id = id;
+      next.name = name;
+      for (const element of Object.values(next.elements)) {
+        if (element.data.type !== 'image' || !element.data.url) continue;
+        const url = fileUrls.get(element.data.url);
+        if (url) element.data.url = url;
+      }
+    }, { message: 'canvas.import-doc' });
+    await portal.automergeService.repo.flush([handle.documentId]);
+
+    const row = portal.dbService.canvas.create({
+      id,
+      name,
+      created_at: new Date(),
+      automerge_url: handle.url,
+      forked_from_id: null,
+    });
+
+    return {
+      ok: true,
+      command: 'canvas.import-doc',
+      dryRun,
+      canvas: fnNormalizeCanvas(row),
+      source,
+      renamed: !requestedName && name !== file.canvas.name,
+      ...counts,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_IMPORT_DOC_FAILED', error instanceof Error ? error.message : String(error));
+  }
+}
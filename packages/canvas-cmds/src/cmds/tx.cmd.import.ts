@@ -0,0 +1,189 @@
+import type { DocHandle } from '@automerge/automerge-repo';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService, TCanvasRecord } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
+import { fnExcalidrawToCanvas, fnParseExcalidrawScene, type TExcalidrawImportFile, type TExcalidrawScene, type TExcalidrawSkippedElement } from '../core/fn.excalidraw';
+import { fnJsonCanvasToCanvas, fnParseJsonCanvas } from '../core/fn.json-canvas';
+import { fnIsImageFileFormat, fnParseDataUrl, fnReadImageSize } from '../core/fn.image-file';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fxStoreImageFile } from '../core/fx.image-file';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasImportFormat = 'excalidraw' | 'json-canvas';
+
+export type TCanvasImportInput = {
+  /** Import into this existing canvas. Omit both selectors to create a new canvas named `name`. */
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  name?: string | null;
+  format?: TCanvasImportFormat;
+  content: string;
+  /** Vault root that relative JSON Canvas file node paths resolve against. */
+  baseDir?: string | null;
+  dryRun?: boolean;
+};
+
+export type TCanvasImportSuccess = {
+  ok: true;
+  command: 'canvas.import';
+  dryRun: boolean;
+  format: TCanvasImportFormat;
+  created: boolean;
+  canvas: TCanvasSummary;
+  importedCount: number;
+  importedIds: string[];
+  groupIds: string[];
+  fileCount: number;
+  skipped: TExcalidrawSkippedElement[];
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+const IMPORT_FORMATS = new Set<TCanvasImportFormat>(['excalidraw', 'json-canvas']);
+const CANVAS_IMPORT_DRY_RUN_PLACEHOLDER_ID = 'PLACEHOLDER-NO';
+const CANVAS_IMPORT_DRY_RUN_FILE_URL = '/files/PLACEHOLDER-NO';
+
+function exitError(code: string, message: string, input: TCanvasImportInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.import',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function fnExtractZIndexNumber(zIndex: string): number {
+  const match = /^z(\d+)$/.exec(zIndex);
+  return match ? Number(match[1]) : -1;
+}
+
+/**
+ * Stores every referenced raster image in the file table. SVG and unknown payloads stay unresolved,
+ * so their image elements are reported as skipped.
+ */
+function fxImportSceneFiles(portal: TPortal, scene: TExcalidrawScene, dryRun: boolean): Record<string, TExcalidrawImportFile> {
+  const usedFileIds = new Set(scene.elements.filter((element) => element.type === 'image' && !element.isDeleted).map((element) => element.fileId));
+  const files: Record<string, TExcalidrawImportFile> = {};
+
+  for (const [fileId, file] of Object.entries(scene.files)) {
+    if (!usedFileIds.has(fileId) || typeof file?.dataURL !== 'string') continue;
+
+    const payload = fnParseDataUrl(file.dataURL);
+    if (!payload || !fnIsImageFileFormat(payload.mimeType)) continue;
+
+    const bytes = Buffer.from(payload.base64, 'base64');
+    const size = fnReadImageSize(bytes, payload.mimeType);
+    if (!size) continue;
+
+    const url = dryRun ? CANVAS_IMPORT_DRY_RUN_FILE_URL : fxStoreImageFile(portal, { format: payload.mimeType, base64: payload.base64, bytes });
+    files[fileId] = { url, naturalWidth: size.width, naturalHeight: size.height };
+  }
+
+  return files;
+}
+
+async function fxCreateImportCanvas(portal: TPortal, name: string): Promise<{ row: TCanvasRecord; handle: DocHandle<TCanvasDoc> }> {
+  const id = portal.crypto.randomUUID();
+  const handle = portal.automergeService.repo.create<TCanvasDoc>({ id, name, elements: {}, groups: {} });
+  await handle.whenReady();
+  const row = portal.dbService.canvas.create({ id, name, created_at: new Date(), automerge_url: handle.url });
+  return { row, handle };
+}
+
+export async function txExecuteCanvasImport(portal: TPortal, input: TCanvasImportInput): Promise<TCanvasImportSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const format = input.format ?? 'excalidraw';
+    if (!IMPORT_FORMATS.has(format)) {
+      throw exitError('CANVAS_IMPORT_FORMAT_INVALID', `Invalid import format '${String(format)}'. Expected one of: excalidraw, json-canvas.`, input);
+    }
+
+    const scene = format === 'excalidraw' && typeof input.content === 'string' ? fnParseExcalidrawScene(input.content) : null;
+    if (format === 'excalidraw' && !scene) {
+      throw exitError('CANVAS_IMPORT_CONTENT_INVALID', 'Import content is not a valid Excalidraw scene. Expected JSON with type "excalidraw" and an elements array.', input);
+    }
+
+    const jsonCanvas = format === 'json-canvas' && typeof input.content === 'string' ? fnParseJsonCanvas(input.content) : null;
+    if (format === 'json-canvas' && !jsonCanvas) {
+      throw exitError('CANVAS_IMPORT_CONTENT_INVALID', 'Import content is not a valid JSON Canvas document. Expected JSON with nodes and/or edges arrays.', input);
+    }
+
+    const hasSelector = Boolean(input.canvasId || input.canvasNameQuery?.trim());
+    const name = input.name?.trim() || null;
+    if (hasSelector && name) {
+      throw exitError('CANVAS_IMPORT_TARGET_CONFLICT', 'Pass either a canvas selector to import into an existing canvas, or a name to create a new canvas, not both.', input);
+    }
+    if (!hasSelector && !name) {
+      throw exitError('CANVAS_IMPORT_TARGET_REQUIRED', 'Import requires a target. Pass canvasId or canvasNameQuery for an existing canvas, or name for a new canvas.', input);
+    }
+
+    const rows = portal.dbService.canvas.listAll();
+    if (name && rows.some((row) => row.name === name)) {
+      throw exitError('CANVAS_IMPORT_NAME_CONFLICT', `Canvas '${name}' already exists. Choose another name or import into it with a canvas selector.`, input);
+    }
+
+    const existing = hasSelector ? fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.import', actionLabel: 'Import' }) : null;
+    const loaded = existing ? await fxLoadCanvasHandleDoc(portal, existing) : null;
+    const maxExistingIndex = Math.max(
+      -1,
+      ...Object.values(loaded?.doc.elements ?? {}).map((element) => fnExtractZIndexNumber(element.zIndex)),
+      ...Object.values(loaded?.doc.groups ?? {}).map((group) => fnExtractZIndexNumber(group.zIndex)),
+    );
+
+    const files = scene ? fxImportSceneFiles(portal, scene, dryRun) : {};
+    const now = Date.now();
+    const convertOptions = { zIndexStart: maxExistingIndex + 1, now, createId: () => portal.crypto.randomUUID() };
+    const imported = scene
+      ? fnExcalidrawToCanvas(scene, { ...convertOptions, files })
+      : fnJsonCanvasToCanvas(jsonCanvas!, { ...convertOptions, baseDir: input.baseDir });
+    if (Object.keys(imported.elements).length === 0) {
+      throw exitError('CANVAS_IMPORT_EMPTY', `${scene ? 'Excalidraw scene' : 'JSON Canvas document'} has no importable elements${imported.skipped.length > 0 ? ` (${imported.skipped.length} skipped)` : ''}.`, input);
+    }
+
+    let canvas: TCanvasSummary;
+    if (dryRun) {
+      canvas = existing
+        ? fnNormalizeCanvas(existing)
+        : { id: CANVAS_IMPORT_DRY_RUN_PLACEHOLDER_ID, name: name!, automergeUrl: CANVAS_IMPORT_DRY_RUN_PLACEHOLDER_ID, createdAt: new Date(now).toISOString() };
+    } else {
+      const target = existing
+        ? { row: existing, handle: loaded!.handle }
+        : await fxCreateImportCanvas(portal, name!);
+
+      target.handle.change((nextDoc) => {
+        for (const group of Object.values(imported.groups)) nextDoc.groups[group.id] = structuredClone(group);
+        for (const element of Object.values(imported.elements)) nextDoc.elements[element.id] = structuredClone(element);
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, now));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.import'));
+      await portal.automergeService.repo.flush([target.handle.documentId]);
+      canvas = fnNormalizeCanvas(target.row);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.import',
+      dryRun,
+      format,
+      created: !existing,
+      canvas,
+      importedCount: Object.keys(imported.elements).length,
+      importedIds: Object.keys(imported.elements),
+      groupIds: Object.keys(imported.groups),
+      fileCount: Object.keys(files).length,
+      skipped: imported.skipped,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_IMPORT_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -0,0 +1,142 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
+import type { TDiagramDirection } from '../core/fn.diagram';
+import type { TDiagramBox } from '../core/fn.diagram-layout';
+import { fnApplyCanvasLayout, fnPlanCanvasLayout, LAYOUT_ALGORITHMS, LAYOUT_DIRECTIONS, type TLayoutAlgorithm, type TLayoutMove } from '../core/fn.layout';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
+import { fnHasSceneSelectorFilters, fxExecuteCanvasQuery, type TSceneSelector } from './fx.cmd.query';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasLayoutInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  dryRun?: boolean;
+  /** Same filters as `canvas.query`; every match is laid out. */
+  selector?: TSceneSelector;
+  algorithm?: TLayoutAlgorithm;
+  direction?: TDiagramDirection;
+  gap?: number;
+  columns?: number;
+  /** Top-left of the arranged selection. Defaults to its current top-left. */
+  x?: number;
+  y?: number;
+};
+
+export type TCanvasLayoutSuccess = {
+  ok: true;
+  command: 'canvas.layout';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  algorithm: TLayoutAlgorithm;
+  direction: TDiagramDirection;
+  matchedCount: number;
+  matchedIds: string[];
+  nodeCount: number;
+  edgeCount: number;
+  moves: TLayoutMove[];
+  changedCount: number;
+  changedIds: string[];
+  bounds: TDiagramBox | null;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasLayoutInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.layout',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function validateLayoutOptions(input: TCanvasLayoutInput): void {
+  if (input.algorithm !== undefined && !LAYOUT_ALGORITHMS.includes(input.algorithm)) {
+    throw exitError('CANVAS_LAYOUT_ALGORITHM_INVALID', `Invalid layout algorithm '${String(input.algorithm)}'. Expected one of: ${LAYOUT_ALGORITHMS.join(', ')}.`, input);
+  }
+  if (input.direction !== undefined && !LAYOUT_DIRECTIONS.includes(input.direction)) {
+    throw exitError('CANVAS_LAYOUT_OPTION_INVALID', `Invalid layout direction '${String(input.direction)}'. Expected one of: ${LAYOUT_DIRECTIONS.join(', ')}.`, input);
+  }
+  if (input.gap !== undefined && (!Number.isFinite(input.gap) || input.gap < 0)) {
+    throw exitError('CANVAS_LAYOUT_OPTION_INVALID', 'Layout gap must be a finite number greater than or equal to 0.', input);
+  }
+  if (input.columns !== undefined && (!Number.isInteger(input.columns) || input.columns < 1)) {
+    throw exitError('CANVAS_LAYOUT_OPTION_INVALID', 'Layout columns must be a positive integer.', input);
+  }
+  if ((input.x === undefined) !== (input.y === undefined) || (input.x !== undefined && (!Number.isFinite(input.x) || !Number.isFinite(input.y)))) {
+    throw exitError('CANVAS_LAYOUT_OPTION_INVALID', 'Layout origin needs both x and y as finite numbers.', input);
+  }
+}
+
+export async function txExecuteCanvasLayout(portal: TPortal, input: TCanvasLayoutInput): Promise<TCanvasLayoutSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    validateLayoutOptions(input);
+    if (!fnHasSceneSelectorFilters(input.selector)) {
+      throw exitError('CANVAS_LAYOUT_SELECTOR_REQUIRED', 'Layout requires a selector such as ids, types, group, subtree, or bounds.', input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.layout', actionLabel: 'Layout' });
+    const query = await fxExecuteCanvasQuery(portal, {
+      selector: { source: 'query', canvasId: selectedCanvas.id, filters: input.selector },
+      output: 'summary',
+      omitData: true,
+      omitStyle: true,
+    });
+    const matchedIds = query.matches.map((match) => match.metadata.id);
+
+    const { handle, doc } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const algorithm = input.algorithm ?? 'grid';
+    const plan = fnPlanCanvasLayout(doc, matchedIds, {
+      algorithm,
+      direction: input.direction,
+      gap: input.gap,
+      columns: input.columns,
+      origin: input.x !== undefined && input.y !== undefined ? { x: input.x, y: input.y } : undefined,
+    });
+    if (plan.nodes.length === 0) {
+      throw exitError('CANVAS_LAYOUT_EMPTY', `Selector matched ${matchedIds.length} target${matchedIds.length === 1 ? '' : 's'} but none can be laid out; bound connectors and attached text follow their targets.`, input);
+    }
+
+    const changedIds = fnSortIds(plan.elementDeltas.map((delta) => delta.id));
+    const now = Date.now();
+
+    if (!dryRun && changedIds.length > 0) {
+      handle.change((nextDoc) => {
+        fnApplyCanvasLayout(nextDoc, plan, now);
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, now));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.layout'));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.layout',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      algorithm,
+      direction: plan.direction,
+      matchedCount: matchedIds.length,
+      matchedIds: fnSortIds(matchedIds),
+      nodeCount: plan.nodes.length,
+      edgeCount: plan.edges.length,
+      moves: plan.moves,
+      changedCount: changedIds.length,
+      changedIds,
+      bounds: plan.bounds,
+    };
+  } catch (error) {
+    // Selector errors raised by the query are reported as part of this command.
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw { ...error, command: 'canvas.layout' };
+    throw exitError('CANVAS_LAYOUT_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
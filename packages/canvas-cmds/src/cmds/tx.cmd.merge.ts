@@ -0,0 +1,139 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnDiffCanvasDocs, type TCanvasDiffEntry } from '../core/fn.diff';
+import { fnReadCanvasForkFileUrls, fnReadCanvasHistory } from '../core/fn.history';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasMergeInput = {
+  /** The fork whose changes are merged. */
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Canvas that receives the changes; defaults to the canvas the fork was made from. */
+  intoCanvasId?: string | null;
+  intoCanvasNameQuery?: string | null;
+  dryRun?: boolean;
+};
+
+export type TCanvasMergeSuccess = {
+  ok: true;
+  command: 'canvas.merge';
+  dryRun: boolean;
+  fork: TCanvasSummary;
+  canvas: TCanvasSummary;
+  /** Heads of the target before the merge; pass them to canvas restore --at to back the merge out. */
+  before: string[];
+  heads: string[];
+  mergedChangeCount: number;
+  addedIds: string[];
+  removedIds: string[];
+  modifiedIds: string[];
+  entries: TCanvasDiffEntry[];
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasMergeInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.merge',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function toSnapshot(doc: Automerge.Doc<TCanvasDoc>): TCanvasDoc {
+  return JSON.parse(JSON.stringify(doc)) as TCanvasDoc;
+}
+
+/**
+ * Points images the fork moved onto its own file copies back at the target's files, so deleting an
+ * image on the fork never releases a file the target uses. Elements the target already had get the
+ * url they had there.
+ */
+function restoreTargetImageUrls(doc: TCanvasDoc, target: TCanvasDoc, forkFileUrls: Map<string, string>): void {
+  for (const [id, element] of Object.entries(doc.elements)) {
+    if (element.data.type !== 'image' || !element.data.url) continue;
+    const sourceUrl = forkFileUrls.get(element.data.url);
+    if (!sourceUrl) continue;
+    const previous = target.elements[id]?.data;
+    element.data.url = previous?.type === 'image' && previous.url ? previous.url : sourceUrl;
+  }
+}
+
+export async function txExecuteCanvasMerge(portal: TPortal, input: TCanvasMergeInput): Promise<TCanvasMergeSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const rows = portal.dbService.canvas.listAll();
+    const fork = fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.merge', actionLabel: 'Merge' });
+
+    const hasIntoSelector = Boolean(input.intoCanvasId || input.intoCanvasNameQuery?.trim());
+    if (!hasIntoSelector && !fork.forked_from_id) {
+      throw exitError('CANVAS_MERGE_TARGET_REQUIRED', `Canvas '${fork.name}' is not a fork. Pass the canvas to merge into.`, input);
+    }
+    const target = hasIntoSelector
+      ? fnResolveCanvasSelection({ rows, selector: { canvasId: input.intoCanvasId, canvasNameQuery: input.intoCanvasNameQuery }, command: 'canvas.merge', actionLabel: 'Merge into' })
+      : rows.find((row) => row.id === fork.forked_from_id);
+    if (!target) {
+      throw exitError('CANVAS_MERGE_TARGET_NOT_FOUND', `Canvas '${fork.name}' was forked from canvas '${fork.forked_from_id}', which no longer exists.`, input);
+    }
+    if (target.id === fork.id) {
+      throw exitError('CANVAS_MERGE_SAME_CANVAS', `Cannot merge canvas '${fork.name}' into itself.`, input);
+    }
+
+    const { handle: forkHandle } = await fxLoadCanvasHandleDoc(portal, fork);
+    const { handle: targetHandle } = await fxLoadCanvasHandleDoc(portal, target);
+    const forkDoc = forkHandle.doc()!;
+    const targetDoc = targetHandle.doc()!;
+
+    // Canvases only merge sensibly when they grew from the same document.
+    const rootHash = fnReadCanvasHistory(targetDoc)[0]?.hash;
+    if (!rootHash || !Automerge.hasHeads(forkDoc, [rootHash])) {
+      throw exitError('CANVAS_MERGE_UNRELATED', `Canvas '${fork.name}' does not share history with '${target.name}'. Only forks can be merged; duplicates start a new history.`, input);
+    }
+
+    const before = [...Automerge.getHeads(targetDoc)].sort();
+    const targetSnapshot = toSnapshot(targetDoc);
+    const forkFileUrls = fnReadCanvasForkFileUrls(forkDoc, targetDoc);
+    const merged = Automerge.merge(Automerge.clone(targetDoc), forkDoc);
+    const reviewed = forkFileUrls.size > 0
+      ? Automerge.change(Automerge.clone(merged), { message: 'canvas.merge' }, (doc) => restoreTargetImageUrls(doc, targetSnapshot, forkFileUrls))
+      : merged;
+    const diff = fnDiffCanvasDocs(targetSnapshot, toSnapshot(reviewed), { ignoreFields: ['updatedAt'] });
+    const mergedChangeCount = fnReadCanvasHistory(merged).length - fnReadCanvasHistory(targetDoc).length;
+
+    if (!dryRun && mergedChangeCount > 0) {
+      targetHandle.merge(forkHandle);
+      if (forkFileUrls.size > 0) {
+        targetHandle.change((doc) => restoreTargetImageUrls(doc, targetSnapshot, forkFileUrls), { message: 'canvas.merge' });
+      }
+      await portal.automergeService.repo.flush([targetHandle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.merge',
+      dryRun,
+      fork: fnNormalizeCanvas(fork),
+      canvas: fnNormalizeCanvas(target),
+      before,
+      heads: [...Automerge.getHeads(dryRun ? merged : targetHandle.doc()!)].sort(),
+      mergedChangeCount,
+      addedIds: diff.addedIds,
+      removedIds: diff.removedIds,
+      modifiedIds: diff.modifiedIds,
+      entries: diff.entries,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_MERGE_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -2,8 +2,10 @@ import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomerge
 import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
 import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
 import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
 import { fnCollectGroupCascade } from '../core/fn.group';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
 import type { TCanvasCmdErrorDetails } from '../types';
 
 export type TMoveMode = 'relative' | 'absolute';
@@ -11,6 +13,7 @@ export type TMoveMode = 'relative' | 'absolute';
 export type TCanvasMoveInput = {
   canvasId?: string | null;
   canvasNameQuery?: string | null;
+  session?: string | null;
   dryRun?: boolean;
   ids?: string[];
   mode?: TMoveMode;
@@ -68,6 +71,10 @@ function collectChangedElementIds(doc: TCanvasDoc, targets: readonly TMoveTarget
   for (const target of targets) {
     if (target.kind === 'element') {
       changedIds.add(target.element.id);
+      if (target.element.data.type !== 'frame') continue;
+      for (const element of Object.values(doc.elements)) {
+        if (element.frameId === target.element.id) changedIds.add(element.id);
+      }
       continue;
     }
 
@@ -117,7 +124,7 @@ function getPointBounds(element: TElement, points: Array<[number, number]>): TSc
 }
 
 function getElementBounds(element: TElement): TSceneBounds {
-  if (element.data.type === 'rect' || element.data.type === 'diamond' || element.data.type === 'text' || element.data.type === 'image' || element.data.type === 'filetree' || element.data.type === 'terminal' || element.data.type === 'file' || element.data.type === 'iframe-browser') return createBounds(element.x, element.y, element.data.w, element.data.h);
+  if (element.data.type === 'rect' || element.data.type === 'diamond' || element.data.type === 'text' || element.data.type === 'image' || element.data.type === 'filetree' || element.data.type === 'terminal' || element.data.type === 'file' || element.data.type === 'note' || element.data.type === 'iframe-browser' || element.data.type === 'frame' || element.data.type === 'sticky') return createBounds(element.x, element.y, element.data.w, element.data.h);
   if (element.data.type === 'ellipse') return createBounds(element.x, element.y, element.data.rx * 2, element.data.ry * 2);
   if (element.data.type === 'line' || element.data.type === 'arrow' || element.data.type === 'pen') return getPointBounds(element, element.data.points);
   return createBounds(element.x, element.y, 0, 0);
@@ -189,7 +196,8 @@ export async function txExecuteCanvasMove(portal: TPortal, input: TCanvasMoveInp
           element.y += delta.dy;
           element.updatedAt = now;
         }
-      });
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, now));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.move'));
       await portal.automergeService.repo.flush([handle.documentId]);
     }
 
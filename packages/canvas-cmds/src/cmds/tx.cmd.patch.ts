@@ -2,8 +2,11 @@ import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomerge
 import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
 import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
 import { fnIsPlainObject } from '../core/fn.guard';
+import { fnBuildRichTextFields } from '../core/fn.rich-text';
 import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
 import type { TCanvasCmdErrorDetails } from '../types';
 
 export type TCanvasElementPatch = {
@@ -31,6 +34,7 @@ export type TCanvasPatchEnvelope = {
 export type TCanvasPatchInput = {
   canvasId?: string | null;
   canvasNameQuery?: string | null;
+  session?: string | null;
   dryRun?: boolean;
   ids?: string[];
   patch?: TCanvasPatchEnvelope;
@@ -96,7 +100,10 @@ function assertIds(input: TCanvasPatchInput): string[] {
 }
 
 function getAllowedDataKeys(element: TElement): Set<string> {
-  return new Set(Object.keys(element.data));
+  const keys = new Set(Object.keys(element.data));
+  // Text written before rich text support has no markdown key yet.
+  if (element.data.type === 'text') keys.add('markdown');
+  return keys;
 }
 
 function validateElementPatchForTarget(element: TElement, patch: TCanvasElementPatch): void {
@@ -112,6 +119,22 @@ function validateElementPatchForTarget(element: TElement, patch: TCanvasElementP
       } satisfies TCanvasCmdErrorDetails;
     }
   }
+  if (element.data.type === 'text' && 'markdown' in patch.data && patch.data.markdown !== null && typeof patch.data.markdown !== 'string') {
+    throw {
+      ok: false,
+      command: 'canvas.patch',
+      code: 'CANVAS_PATCH_PAYLOAD_INVALID',
+      message: `Patch field 'element.data.markdown' must be a string or null for element '${element.id}'.`,
+    } satisfies TCanvasCmdErrorDetails;
+  }
+  if (element.data.type === 'note' && 'markdown' in patch.data && typeof patch.data.markdown !== 'string') {
+    throw {
+      ok: false,
+      command: 'canvas.patch',
+      code: 'CANVAS_PATCH_PAYLOAD_INVALID',
+      message: `Patch field 'element.data.markdown' must be a string for element '${element.id}'.`,
+    } satisfies TCanvasCmdErrorDetails;
+  }
   if ('type' in patch.data && patch.data.type !== element.data.type) {
     throw {
       ok: false,
@@ -145,6 +168,14 @@ function wouldCreateGroupCycle(doc: TCanvasDoc, groupId: string, parentGroupId:
   return false;
 }
 
+/** Keeps text consistent: markdown rewrites the plain text, and new plain text drops the markdown. */
+function resolveDataPatch(element: TElement, data: Record<string, unknown>): Record<string, unknown> {
+  if (element.data.type !== 'text') return data;
+  if (typeof data.markdown === 'string') return { ...data, ...fnBuildRichTextFields(data.markdown) };
+  if (typeof data.text === 'string' && data.markdown === undefined && typeof element.data.markdown === 'string') return { ...data, markdown: null };
+  return data;
+}
+
 function applyElementPatch(next: TElement, patch: TCanvasElementPatch, now: number): boolean {
   let changed = false;
   const assign = <K extends keyof TElement>(key: K, value: TElement[K] | undefined) => {
@@ -161,7 +192,7 @@ function applyElementPatch(next: TElement, patch: TCanvasElementPatch, now: numb
   assign('locked', patch.locked);
 
   if (patch.data) {
-    for (const [key, value] of Object.entries(patch.data)) {
+    for (const [key, value] of Object.entries(resolveDataPatch(next, patch.data))) {
       if ((next.data as Record<string, unknown>)[key] === value) continue;
       (next.data as Record<string, unknown>)[key] = structuredClone(value);
       changed = true;
@@ -270,7 +301,8 @@ export async function txExecuteCanvasPatch(portal: TPortal, input: TCanvasPatchI
             if (applyGroupPatch(nextGroup, patch.group)) changedIds.add(id);
           }
         }
-      });
+        fnApplyConnectorPatches(nextDoc, fnRouteBoundConnectors(nextDoc, now));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.patch'));
       await portal.automergeService.repo.flush([handle.documentId]);
     }
 
@@ -0,0 +1,85 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnBuildCanvasChangeOptions, fnBuildCanvasUndoStacks, fnPlanCanvasRevert, fnReadCanvasChangeLog, fnResolveCanvasChangeOrigin } from '../core/fn.history';
+import { fxCommitCanvasRevert, fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+import type { TCanvasHistoryStepEntry } from './tx.cmd.undo';
+
+export type TCanvasRedoInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  dryRun?: boolean;
+};
+
+export type TCanvasRedoSuccess = {
+  ok: true;
+  command: 'canvas.redo';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  origin: string;
+  /** The undo change being reverted; its label is the command that was undone. */
+  entry: TCanvasHistoryStepEntry;
+  changedCount: number;
+  changedIds: string[];
+  skippedCount: number;
+  skippedIds: string[];
+  undoCount: number;
+  redoCount: number;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasRedoInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.redo',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasRedo(portal: TPortal, input: TCanvasRedoInput): Promise<TCanvasRedoSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const origin = fnResolveCanvasChangeOrigin(input.session);
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.redo', actionLabel: 'Redo' });
+    const { handle } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const stacks = fnBuildCanvasUndoStacks(fnReadCanvasChangeLog(handle.doc()), origin);
+
+    const entry = stacks.redo.at(-1);
+    if (!entry) {
+      throw exitError('CANVAS_REDO_EMPTY', `Nothing to redo for '${origin}' on canvas '${selectedCanvas.name}'. Redo is only available right after canvas undo; any new change clears it.`, input);
+    }
+
+    const plan = fnPlanCanvasRevert(handle.doc(), [entry.hash]);
+    if (!dryRun) {
+      fxCommitCanvasRevert(handle, plan, fnBuildCanvasChangeOptions({ origin, action: 'redo', label: entry.message.label, target: entry.hash }));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.redo',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      origin,
+      entry: { hash: entry.hash, label: entry.message.label ?? null, time: new Date(entry.time * 1000).toISOString() },
+      changedCount: plan.changedIds.length,
+      changedIds: plan.changedIds,
+      skippedCount: plan.skippedIds.length,
+      skippedIds: plan.skippedIds,
+      undoCount: stacks.undo.length + 1,
+      redoCount: stacks.redo.length - 1,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_REDO_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
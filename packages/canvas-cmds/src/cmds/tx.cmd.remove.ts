@@ -0,0 +1,46 @@
+import type { AutomergeUrl } from '@automerge/automerge-repo';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasRemoveInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+};
+
+export type TCanvasRemoveSuccess = {
+  ok: true;
+  command: 'canvas.remove';
+  canvas: TCanvasSummary;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasRemoveInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.remove',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasRemove(portal: TPortal, input: TCanvasRemoveInput): Promise<TCanvasRemoveSuccess> {
+  try {
+    const target = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.remove', actionLabel: 'Remove' });
+    const [row] = portal.dbService.canvas.deleteById({ id: target.id });
+    if (!row) throw exitError('CANVAS_SELECTOR_NOT_FOUND', `Canvas '${target.id}' was not found.`, input);
+
+    portal.automergeService.repo.delete(row.automerge_url as AutomergeUrl);
+    return { ok: true, command: 'canvas.remove', canvas: fnNormalizeCanvas(row) };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_REMOVE_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
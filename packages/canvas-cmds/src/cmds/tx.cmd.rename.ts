@@ -0,0 +1,50 @@
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasRenameInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  name?: string | null;
+};
+
+export type TCanvasRenameSuccess = {
+  ok: true;
+  command: 'canvas.rename';
+  previousName: string;
+  canvas: TCanvasSummary;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+};
+
+function exitError(code: string, message: string, input: TCanvasRenameInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.rename',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasRename(portal: TPortal, input: TCanvasRenameInput): Promise<TCanvasRenameSuccess> {
+  try {
+    const rows = portal.dbService.canvas.listAll();
+    const target = fnResolveCanvasSelection({ rows, selector: input, command: 'canvas.rename', actionLabel: 'Rename' });
+
+    const name = input.name?.trim() || null;
+    if (!name) throw exitError('CANVAS_RENAME_NAME_REQUIRED', 'Rename requires a new canvas name.', input);
+    if (rows.some((row) => row.id !== target.id && row.name === name)) {
+      throw exitError('CANVAS_RENAME_NAME_CONFLICT', `Canvas '${name}' already exists. Choose another name.`, input);
+    }
+
+    const row = portal.dbService.canvas.renameById({ id: target.id, name });
+    return { ok: true, command: 'canvas.rename', previousName: target.name, canvas: fnNormalizeCanvas(row) };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_RENAME_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
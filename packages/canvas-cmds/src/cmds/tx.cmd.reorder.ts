@@ -3,6 +3,7 @@ import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge
 import type { IDbService } from '@vibecanvas/service-db/IDbService';
 import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
 import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
 import type { TCanvasCmdErrorDetails } from '../types';
 
 const REORDER_ACTIONS = ['front', 'back', 'forward', 'backward'] as const;
@@ -14,6 +15,7 @@ export type TOrderEntry = { id: string; zIndex: string; kind: 'element' | 'group
 export type TCanvasReorderInput = {
   canvasId?: string | null;
   canvasNameQuery?: string | null;
+  session?: string | null;
   ids?: string[];
   action?: TReorderAction;
 };
@@ -130,7 +132,7 @@ export async function txExecuteCanvasReorder(portal: TPortal, input: TCanvasReor
         const element = nextDoc.elements[entry.id];
         if (element) element.zIndex = entry.zIndex;
       }
-    });
+    }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.reorder'));
     await portal.automergeService.repo.flush([handle.documentId]);
 
     return {
@@ -0,0 +1,248 @@
+import * as Automerge from '@automerge/automerge/slim';
+import { parseAutomergeUrl, type DocHandle } from '@automerge/automerge-repo';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService, TCanvasRecord } from '@vibecanvas/service-db/IDbService';
+import { BACKUP_FORMAT_VERSION, BACKUP_MANIFEST_PATH, fnParseBackupManifest, type TBackupCanvasEntry, type TBackupEntries, type TBackupManifest } from '../core/fn.backup';
+import { fnUniqueCanvasName } from '../core/fn.canvas';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import { fnToFileUrl } from '../core/fn.image-file';
+import { fxCloneImageFiles } from '../core/fx.image-file';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TBackupConflictMode = 'skip' | 'rename' | 'replace' | 'merge';
+
+export type TRestoreBackupInput = {
+  entries: TBackupEntries;
+  /** What to do with an archived canvas whose id, name, or document already exists. Defaults to skip. */
+  onConflict?: TBackupConflictMode;
+  dryRun?: boolean;
+};
+
+export type TRestoredCanvas = {
+  /** Id of the canvas in the archive. */
+  archivedId: string;
+  name: string;
+  action: 'created' | 'skipped' | 'renamed' | 'replaced' | 'merged';
+  /** Id after restore; for skipped canvases the id already in place, if any. */
+  id: string | null;
+  /** Existing canvases the archived one collided with. */
+  conflicts: Array<{ id: string; name: string }>;
+};
+
+export type TRestoreBackupSuccess = {
+  ok: true;
+  command: 'backup.restore';
+  dryRun: boolean;
+  onConflict: TBackupConflictMode;
+  manifest: Pick<TBackupManifest, 'version' | 'appVersion' | 'createdAt'>;
+  canvases: TRestoredCanvas[];
+  files: { created: number; existing: number };
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+const CONFLICT_MODES = new Set<TBackupConflictMode>(['skip', 'rename', 'replace', 'merge']);
+
+function exitError(code: string, message: string): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'backup.restore',
+    code,
+    message,
+  };
+}
+
+function readManifest(entries: TBackupEntries): TBackupManifest {
+  const raw = entries[BACKUP_MANIFEST_PATH];
+  if (!raw) throw exitError('BACKUP_MANIFEST_MISSING', `Archive has no ${BACKUP_MANIFEST_PATH}. Is this a vibecanvas backup?`);
+
+  let manifest: TBackupManifest | null = null;
+  try {
+    manifest = fnParseBackupManifest(JSON.parse(new TextDecoder().decode(raw)));
+  } catch {
+    manifest = null;
+  }
+  if (!manifest) throw exitError('BACKUP_MANIFEST_INVALID', `Archive ${BACKUP_MANIFEST_PATH} is not a valid vibecanvas backup manifest.`);
+  if (manifest.version > BACKUP_FORMAT_VERSION) {
+    throw exitError('BACKUP_VERSION_UNSUPPORTED', `Backup format version ${manifest.version} was written by a newer vibecanvas (${manifest.appVersion ?? 'unknown version'}). This version reads up to ${BACKUP_FORMAT_VERSION}.`);
+  }
+
+  const missing = [...manifest.canvases, ...manifest.files].map((entry) => entry.path).filter((path) => !entries[path]);
+  if (missing.length > 0) throw exitError('BACKUP_ENTRY_MISSING', `Archive is missing entries listed in its manifest: ${missing.join(', ')}.`);
+
+  return manifest;
+}
+
+function findConflicts(rows: TCanvasRecord[], canvas: TBackupCanvasEntry): TCanvasRecord[] {
+  return rows.filter((row) => row.id === canvas.id || row.name === canvas.name || row.automerge_url === canvas.automergeUrl);
+}
+
+function changeImageUrls(handle: DocHandle<TCanvasDoc>, urls: Map<string, string>): void {
+  if (urls.size === 0) return;
+  handle.change((doc) => {
+    for (const element of Object.values(doc.elements)) {
+      if (element.data.type !== 'image' || !element.data.url) continue;
+      const url = urls.get(element.data.url);
+      if (url) element.data.url = url;
+    }
+  }, { message: 'backup.restore' });
+}
+
+/**
+ * Loads the archived document as a new Automerge document, keeping its history, and points it at
+ * its new id, name, and image files.
+ */
+async function importAsNewDoc(portal: TPortal, binary: Uint8Array, args: { id: string; name: string; fileUrls: Map<string, string> }): Promise<DocHandle<TCanvasDoc>> {
+  const handle = portal.automergeService.repo.import<TCanvasDoc>(binary);
+  await handle.whenReady();
+  handle.change((doc) => {
+    if (doc.id !== args.id) doc.id = args.id;
+    if (doc.name !== args.name) doc.name = args.name;
+  }, { message: 'backup.restore' });
+  changeImageUrls(handle, args.fileUrls);
+  return handle;
+}
+
+/**
+ * Restores a workspace archive. Image files are restored first and keep their ids; a canvas with no
+ * conflict is restored as-is, with the same id, name, and document url. On conflict, `skip` keeps
+ * the existing canvas, `rename` adds the archived one under a free name, `replace` deletes the
+ * existing ones first, and `merge` folds the archived history into the same canvas, falling back to
+ * rename when the conflict is with a different canvas.
+ */
+export async function txExecuteRestoreBackup(portal: TPortal, input: TRestoreBackupInput): Promise<TRestoreBackupSuccess> {
+  try {
+    const onConflict = input.onConflict ?? 'skip';
+    if (!CONFLICT_MODES.has(onConflict)) {
+      throw exitError('BACKUP_CONFLICT_MODE_INVALID', `Invalid conflict mode '${String(onConflict)}'. Expected one of: skip, rename, replace, merge.`);
+    }
+    const dryRun = input.dryRun === true;
+    const manifest = readManifest(input.entries);
+
+    // A file id already in use by different bytes gets a new id, and restored canvases follow it.
+    const fileUrls = new Map<string, string>();
+    const files = { created: 0, existing: 0 };
+    for (const file of manifest.files) {
+      const existing = portal.dbService.file.get({ id: file.id, format: file.format });
+      if (existing?.hash === file.hash) {
+        files.existing += 1;
+        continue;
+      }
+
+      const id = existing ? portal.crypto.randomUUID() : file.id;
+      if (!dryRun) {
+        portal.dbService.file.create({ id, hash: file.hash, format: file.format, base64: Buffer.from(input.entries[file.path]!).toString('base64') });
+      }
+      if (id !== file.id) fileUrls.set(fnToFileUrl(file.id, file.format), fnToFileUrl(id, file.format));
+      files.created += 1;
+    }
+
+    let rows = portal.dbService.canvas.listAll();
+    const restoredIds = new Map<string, string>();
+    const canvases: TRestoredCanvas[] = [];
+
+    // Sources predate their forks, so restoring oldest first lets forks find their restored source.
+    const ordered = [...manifest.canvases].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const canvas of ordered) {
+      const binary = input.entries[canvas.path]!;
+      const conflicts = findConflicts(rows, canvas);
+      const forkedFromId = canvas.forkedFromId ? (restoredIds.get(canvas.forkedFromId) ?? (rows.some((row) => row.id === canvas.forkedFromId) ? canvas.forkedFromId : null)) : null;
+      const report = (action: TRestoredCanvas['action'], id: string | null, name = canvas.name) => {
+        canvases.push({ archivedId: canvas.id, name, action, id, conflicts: conflicts.map((row) => ({ id: row.id, name: row.name })) });
+        if (id) restoredIds.set(canvas.id, id);
+      };
+      const createRow = (args: { id: string; name: string; automergeUrl: string }) => {
+        const row = portal.dbService.canvas.create({
+          id: args.id,
+          name: args.name,
+          created_at: new Date(canvas.createdAt),
+          automerge_url: args.automergeUrl,
+          forked_from_id: forkedFromId,
+        });
+        rows = [...rows, row];
+      };
+
+      if (conflicts.length === 0) {
+        if (!dryRun) {
+          const handle = portal.automergeService.repo.import<TCanvasDoc>(binary, { docId: parseAutomergeUrl(canvas.automergeUrl as never).documentId });
+          await handle.whenReady();
+          changeImageUrls(handle, fileUrls);
+          await portal.automergeService.repo.flush([handle.documentId]);
+          createRow({ id: canvas.id, name: canvas.name, automergeUrl: handle.url });
+        } else {
+          rows = [...rows, { id: canvas.id, name: canvas.name, automerge_url: canvas.automergeUrl } as TCanvasRecord];
+        }
+        report('created', canvas.id);
+        continue;
+      }
+
+      if (onConflict === 'skip') {
+        report('skipped', conflicts.find((row) => row.id === canvas.id)?.id ?? null);
+        continue;
+      }
+
+      const sameCanvas = conflicts.length === 1 && conflicts[0]!.id === canvas.id && conflicts[0]!.automerge_url === canvas.automergeUrl ? conflicts[0]! : null;
+      if (onConflict === 'merge' && sameCanvas) {
+        if (!dryRun) {
+          const { handle } = await fxLoadCanvasHandleDoc(portal, sameCanvas);
+          handle.update((doc) => Automerge.loadIncremental(doc, binary));
+          changeImageUrls(handle, fileUrls);
+          await portal.automergeService.repo.flush([handle.documentId]);
+        }
+        report('merged', sameCanvas.id);
+        continue;
+      }
+
+      if (onConflict === 'replace') {
+        if (!dryRun) {
+          for (const row of conflicts) {
+            portal.dbService.canvas.deleteById({ id: row.id });
+            portal.automergeService.repo.delete(row.automerge_url as never);
+          }
+        }
+        rows = rows.filter((row) => !conflicts.includes(row));
+        if (!dryRun) {
+          // The old document was just deleted under this url, so the restored one gets a fresh one.
+          const handle = await importAsNewDoc(portal, binary, { id: canvas.id, name: canvas.name, fileUrls });
+          await portal.automergeService.repo.flush([handle.documentId]);
+          createRow({ id: canvas.id, name: canvas.name, automergeUrl: handle.url });
+        } else {
+          rows = [...rows, { id: canvas.id, name: canvas.name, automerge_url: canvas.automergeUrl } as TCanvasRecord];
+        }
+        report('replaced', canvas.id);
+        continue;
+      }
+
+      const id = portal.crypto.randomUUID();
+      const name = fnUniqueCanvasName(canvas.name, rows);
+      if (!dryRun) {
+        const handle = await importAsNewDoc(portal, binary, { id, name, fileUrls });
+        // The renamed copy sits next to the existing canvas, so it gets its own image files.
+        changeImageUrls(handle, fxCloneImageFiles(portal, handle.doc()!));
+        await portal.automergeService.repo.flush([handle.documentId]);
+        createRow({ id, name, automergeUrl: handle.url });
+      } else {
+        rows = [...rows, { id, name, automerge_url: '' } as TCanvasRecord];
+      }
+      report('renamed', id, name);
+    }
+
+    return {
+      ok: true,
+      command: 'backup.restore',
+      dryRun,
+      onConflict,
+      manifest: { version: manifest.version, appVersion: manifest.appVersion, createdAt: manifest.createdAt },
+      canvases,
+      files,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('BACKUP_RESTORE_FAILED', error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,97 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnApplyCanvasRevert, fnBuildCanvasEditChangeOptions, fnPlanCanvasRestore } from '../core/fn.history';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasRestoreInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  /** Heads of the restore point, as listed by `canvas history`. */
+  at: string[];
+  /** Restore only these element/group ids (and the descendants of listed groups). */
+  ids?: string[];
+  dryRun?: boolean;
+};
+
+export type TCanvasRestoreSuccess = {
+  ok: true;
+  command: 'canvas.restore';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  at: string[];
+  changedCount: number;
+  changedIds: string[];
+  recreatedIds: string[];
+  removedIds: string[];
+  updatedIds: string[];
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+function exitError(code: string, message: string, input: TCanvasRestoreInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.restore',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasRestore(portal: TPortal, input: TCanvasRestoreInput): Promise<TCanvasRestoreSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const at = [...new Set(input.at ?? [])].sort();
+    if (at.length === 0) {
+      throw exitError('CANVAS_RESTORE_AT_REQUIRED', 'Restore requires --at with the heads of a history entry.', input);
+    }
+
+    const invalid = at.filter((hash) => !HASH_PATTERN.test(hash));
+    if (invalid.length > 0) {
+      throw exitError('CANVAS_RESTORE_AT_INVALID', `Invalid heads: ${invalid.join(', ')}. Expected 64-character hex change hashes.`, input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.restore', actionLabel: 'Restore' });
+    const { handle } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const doc = handle.doc();
+    if (!Automerge.hasHeads(doc, at)) {
+      throw exitError('CANVAS_RESTORE_AT_NOT_FOUND', `Canvas '${selectedCanvas.name}' has no history at ${at.join(',')}.`, input);
+    }
+
+    const plan = fnPlanCanvasRestore(doc, at, input.ids);
+    if (plan.missingIds.length > 0) {
+      throw exitError('CANVAS_RESTORE_TARGET_NOT_FOUND', `Ids not found now or at the restore point: ${plan.missingIds.join(', ')}.`, input);
+    }
+
+    if (!dryRun && plan.ops.length > 0) {
+      handle.change((draft) => fnApplyCanvasRevert(draft, plan), fnBuildCanvasEditChangeOptions(input.session, 'canvas.restore'));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.restore',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      at,
+      changedCount: plan.changedIds.length,
+      changedIds: plan.changedIds,
+      recreatedIds: plan.recreatedIds,
+      removedIds: plan.removedIds,
+      updatedIds: plan.updatedIds,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_RESTORE_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
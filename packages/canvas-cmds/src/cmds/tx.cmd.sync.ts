@@ -0,0 +1,213 @@
+import { isAbsolute } from 'path';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService, TCanvasFileSyncRecord, TCanvasRecord } from '@vibecanvas/service-db/IDbService';
+import type { IFilesystemService } from '@vibecanvas/service-filesystem/IFilesystemService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnCanvasCodeFromDoc, fnCanvasCodeHash, fnParseCanvasCode, fnPlanCanvasCodeApply, fnStringifyCanvasCode, type TCanvasCode } from '../core/fn.canvas-code';
+import { fnApplyConnectorPatches, fnRouteBoundConnectors } from '../core/fn.connector';
+import { fnApplyCanvasRevert, fnBuildCanvasEditChangeOptions } from '../core/fn.history';
+import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasSyncKeep = 'canvas' | 'file';
+
+export type TCanvasSyncInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  session?: string | null;
+  /** Absolute path of the JSON file; binds the canvas to it, replacing an earlier binding. */
+  path?: string | null;
+  /** Registered filesystem holding the file; defaults to the local one. */
+  filesystemId?: string | null;
+  /** Side that wins when both changed since the last sync. */
+  keep?: TCanvasSyncKeep | null;
+  /** Remove the binding; neither the canvas nor the file is touched. */
+  unbind?: boolean;
+  dryRun?: boolean;
+};
+
+/**
+ * - `unchanged`: canvas and file already match.
+ * - `wrote-file`: the canvas changed (or the file is new) and was written to the file.
+ * - `applied-file`: the file changed and its contents were applied to the canvas.
+ * - `conflict`: both changed since the last sync; nothing was written until one side is kept.
+ * - `unbound`: the binding was removed.
+ */
+export type TCanvasSyncAction = 'unchanged' | 'wrote-file' | 'applied-file' | 'conflict' | 'unbound';
+
+export type TCanvasSyncSuccess = {
+  ok: true;
+  command: 'canvas.sync';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  filesystemId: string;
+  path: string;
+  action: TCanvasSyncAction;
+  status: TCanvasFileSyncRecord['status'] | 'unbound';
+  /** Element and group ids that differ between the canvas and the file before this sync. */
+  changedIds: string[];
+  elementCount: number;
+  groupCount: number;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  filesystemService: IFilesystemService;
+};
+
+type TBinding = {
+  filesystemId: string;
+  path: string;
+  syncedHash: string | null;
+};
+
+function exitError(code: string, message: string, input: TCanvasSyncInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.sync',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+function resolveBinding(portal: TPortal, input: TCanvasSyncInput, canvas: TCanvasRecord, existing: TCanvasFileSyncRecord | null): TBinding {
+  if (!input.path) {
+    if (existing) return { filesystemId: existing.filesystem_id, path: existing.path, syncedHash: existing.synced_hash };
+    throw exitError('CANVAS_SYNC_NOT_BOUND', `Canvas '${canvas.name}' is not synced to a file. Bind it with --path <file>.`, input);
+  }
+
+  if (!isAbsolute(input.path)) {
+    throw exitError('CANVAS_SYNC_PATH_INVALID', `Sync path must be absolute, got '${input.path}'.`, input);
+  }
+
+  const filesystem = input.filesystemId
+    ? portal.dbService.filesystem.findById(input.filesystemId)
+    : portal.dbService.filesystem.listAll().find((entry) => entry.kind === 'local') ?? null;
+  if (!filesystem) {
+    throw exitError('CANVAS_SYNC_FILESYSTEM_NOT_FOUND', input.filesystemId ? `Filesystem '${input.filesystemId}' is not registered.` : 'No local filesystem registered.', input);
+  }
+
+  const taken = portal.dbService.canvasFileSync.findByPath({ filesystem_id: filesystem.id, path: input.path });
+  if (taken && taken.canvas_id !== canvas.id) {
+    throw exitError('CANVAS_SYNC_PATH_TAKEN', `'${input.path}' is already synced with canvas ${taken.canvas_id}.`, input);
+  }
+
+  const unchanged = existing?.filesystem_id === filesystem.id && existing.path === input.path;
+  return { filesystemId: filesystem.id, path: input.path, syncedHash: unchanged ? existing.synced_hash : null };
+}
+
+function readFileCode(portal: TPortal, binding: TBinding, input: TCanvasSyncInput): TCanvasCode | null {
+  if (!portal.filesystemService.exists(binding.filesystemId, binding.path)) return null;
+
+  const [content, readError] = portal.filesystemService.readFile(binding.filesystemId, binding.path);
+  if (readError) {
+    throw exitError('CANVAS_SYNC_FILE_UNREADABLE', `Failed to read '${binding.path}': ${readError.externalMessage?.en ?? readError.code}`, input);
+  }
+
+  const parsed = fnParseCanvasCode(content.toString('utf8'));
+  if (parsed.ok) return parsed.code;
+  // Keeping the canvas overwrites the file, so a broken file is no reason to stop.
+  if (input.keep === 'canvas') return null;
+  throw exitError(`CANVAS_SYNC_FILE_${parsed.code}`, `'${binding.path}' is not a canvas file: ${parsed.message} Fix it, or overwrite it with --keep canvas.`, input);
+}
+
+function writeFileCode(portal: TPortal, binding: TBinding, code: TCanvasCode, input: TCanvasSyncInput): void {
+  const [, writeError] = portal.filesystemService.writeFile(binding.filesystemId, binding.path, fnStringifyCanvasCode(code));
+  if (writeError) {
+    throw exitError('CANVAS_SYNC_WRITE_FAILED', `Failed to write '${binding.path}': ${writeError.externalMessage?.en ?? writeError.code}`, input);
+  }
+}
+
+/** Three-way decision against the hash both sides last agreed on. */
+function decideAction(args: { keep: TCanvasSyncKeep | null; canvasHash: string; fileHash: string | null; syncedHash: string | null }): Exclude<TCanvasSyncAction, 'unbound'> {
+  if (args.fileHash === args.canvasHash) return 'unchanged';
+  if (args.keep === 'canvas' || args.fileHash === null) return 'wrote-file';
+  if (args.keep === 'file') return 'applied-file';
+  if (args.fileHash === args.syncedHash) return 'wrote-file';
+  if (args.canvasHash === args.syncedHash) return 'applied-file';
+  return 'conflict';
+}
+
+export async function txExecuteCanvasSync(portal: TPortal, input: TCanvasSyncInput): Promise<TCanvasSyncSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const keep = input.keep ?? null;
+    if (keep !== null && keep !== 'canvas' && keep !== 'file') {
+      throw exitError('CANVAS_SYNC_KEEP_INVALID', `Invalid --keep '${String(keep)}'. Expected canvas or file.`, input);
+    }
+
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.sync', actionLabel: 'Sync' });
+    const existing = portal.dbService.canvasFileSync.findByCanvasId(selectedCanvas.id);
+    const { handle } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const doc = handle.doc();
+    const result = {
+      ok: true as const,
+      command: 'canvas.sync' as const,
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      elementCount: Object.keys(doc.elements ?? {}).length,
+      groupCount: Object.keys(doc.groups ?? {}).length,
+    };
+
+    if (input.unbind) {
+      if (!existing) {
+        throw exitError('CANVAS_SYNC_NOT_BOUND', `Canvas '${selectedCanvas.name}' is not synced to a file.`, input);
+      }
+      if (!dryRun) portal.dbService.canvasFileSync.deleteByCanvasId({ canvas_id: selectedCanvas.id });
+      return { ...result, filesystemId: existing.filesystem_id, path: existing.path, action: 'unbound', status: 'unbound', changedIds: [] };
+    }
+
+    const binding = resolveBinding(portal, input, selectedCanvas, existing);
+    const canvasCode = fnCanvasCodeFromDoc(doc);
+    const canvasHash = fnCanvasCodeHash(canvasCode);
+    const fileCode = readFileCode(portal, binding, input);
+    if (keep === 'file' && !fileCode) {
+      throw exitError('CANVAS_SYNC_FILE_NOT_FOUND', `'${binding.path}' does not exist; there is no file to keep.`, input);
+    }
+
+    const fileHash = fileCode ? fnCanvasCodeHash(fileCode) : null;
+    const action = decideAction({ keep, canvasHash, fileHash, syncedHash: binding.syncedHash });
+    const plan = fileCode ? fnPlanCanvasCodeApply(doc, fileCode, Date.now()) : null;
+    const changedIds = plan ? plan.changedIds : [...Object.keys(canvasCode.elements), ...Object.keys(canvasCode.groups)].sort();
+    let syncedHash = action === 'conflict' ? binding.syncedHash : canvasHash;
+
+    if (!dryRun && action === 'wrote-file') {
+      writeFileCode(portal, binding, canvasCode, input);
+    }
+
+    if (!dryRun && action === 'applied-file' && plan) {
+      handle.change((draft) => {
+        fnApplyCanvasRevert(draft, plan);
+        fnApplyConnectorPatches(draft, fnRouteBoundConnectors(draft, Date.now()));
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.sync'));
+      await portal.automergeService.repo.flush([handle.documentId]);
+      const appliedCode = fnCanvasCodeFromDoc(handle.doc());
+      syncedHash = fnCanvasCodeHash(appliedCode);
+      // Rerouted connectors go back to the file, or the next sync would apply its stale points again.
+      if (syncedHash !== fileHash) writeFileCode(portal, binding, appliedCode, input);
+    }
+
+    const status = action === 'conflict' ? 'conflict' : 'synced';
+    if (!dryRun) {
+      portal.dbService.canvasFileSync.upsert({ canvas_id: selectedCanvas.id, filesystem_id: binding.filesystemId, path: binding.path, synced_hash: syncedHash, status });
+    }
+
+    const next = !dryRun && action === 'applied-file' ? handle.doc() : doc;
+    return {
+      ...result,
+      filesystemId: binding.filesystemId,
+      path: binding.path,
+      action,
+      status,
+      changedIds,
+      elementCount: Object.keys(next.elements ?? {}).length,
+      groupCount: Object.keys(next.groups ?? {}).length,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_SYNC_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -0,0 +1,93 @@
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnNormalizeCanvas, fnResolveCanvasSelection, type TCanvasSummary } from '../core/fn.canvas';
+import { fnBuildCanvasChangeOptions, fnBuildCanvasUndoStacks, fnPlanCanvasRevert, fnReadCanvasChangeLog, fnResolveCanvasChangeOrigin } from '../core/fn.history';
+import { fxCommitCanvasRevert, fxLoadCanvasHandleDoc } from '../core/fx.canvas';
+import type { TCanvasCmdErrorDetails } from '../types';
+
+export type TCanvasUndoInput = {
+  canvasId?: string | null;
+  canvasNameQuery?: string | null;
+  /** Session whose changes are undone; the same id the mutating commands were run with. */
+  session?: string | null;
+  dryRun?: boolean;
+};
+
+export type TCanvasHistoryStepEntry = {
+  /** Hash of the Automerge change being reverted. */
+  hash: string;
+  /** Command that made the original change, e.g. `canvas.move`. */
+  label: string | null;
+  time: string;
+};
+
+export type TCanvasUndoSuccess = {
+  ok: true;
+  command: 'canvas.undo';
+  dryRun: boolean;
+  canvas: TCanvasSummary;
+  origin: string;
+  entry: TCanvasHistoryStepEntry;
+  changedCount: number;
+  changedIds: string[];
+  skippedCount: number;
+  skippedIds: string[];
+  /** Steps left on each stack after this one. */
+  undoCount: number;
+  redoCount: number;
+};
+
+export type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+};
+
+function exitError(code: string, message: string, input: TCanvasUndoInput): TCanvasCmdErrorDetails {
+  return {
+    ok: false,
+    command: 'canvas.undo',
+    code,
+    message,
+    canvasId: input.canvasId ?? null,
+    canvasNameQuery: input.canvasNameQuery ?? null,
+  };
+}
+
+export async function txExecuteCanvasUndo(portal: TPortal, input: TCanvasUndoInput): Promise<TCanvasUndoSuccess> {
+  try {
+    const dryRun = input.dryRun === true;
+    const origin = fnResolveCanvasChangeOrigin(input.session);
+    const selectedCanvas = fnResolveCanvasSelection({ rows: portal.dbService.canvas.listAll(), selector: input, command: 'canvas.undo', actionLabel: 'Undo' });
+    const { handle } = await fxLoadCanvasHandleDoc(portal, selectedCanvas);
+    const stacks = fnBuildCanvasUndoStacks(fnReadCanvasChangeLog(handle.doc()), origin);
+
+    const entry = stacks.undo.at(-1);
+    if (!entry) {
+      throw exitError('CANVAS_UNDO_EMPTY', `Nothing to undo for '${origin}' on canvas '${selectedCanvas.name}'. Only changes made with the same --session can be undone.`, input);
+    }
+
+    const plan = fnPlanCanvasRevert(handle.doc(), [entry.hash]);
+    if (!dryRun) {
+      fxCommitCanvasRevert(handle, plan, fnBuildCanvasChangeOptions({ origin, action: 'undo', label: entry.message.label, target: entry.hash }));
+      await portal.automergeService.repo.flush([handle.documentId]);
+    }
+
+    return {
+      ok: true,
+      command: 'canvas.undo',
+      dryRun,
+      canvas: fnNormalizeCanvas(selectedCanvas),
+      origin,
+      entry: { hash: entry.hash, label: entry.message.label ?? null, time: new Date(entry.time * 1000).toISOString() },
+      changedCount: plan.changedIds.length,
+      changedIds: plan.changedIds,
+      skippedCount: plan.skippedIds.length,
+      skippedIds: plan.skippedIds,
+      undoCount: stacks.undo.length - 1,
+      redoCount: stacks.redo.length + 1,
+    };
+  } catch (error) {
+    if (typeof error === 'object' && error !== null && 'ok' in error && 'code' in error) throw error;
+    throw exitError('CANVAS_UNDO_FAILED', error instanceof Error ? error.message : String(error), input);
+  }
+}
@@ -4,11 +4,13 @@ import type { IDbService } from '@vibecanvas/service-db/IDbService';
 import { fnNormalizeCanvas, fnResolveCanvasSelection, fnSortIds, type TCanvasSummary } from '../core/fn.canvas';
 import { fxLoadCanvasHandleDoc } from '../core/fx.canvas';
 import { fnCollectDirectChildIds } from '../core/fn.group';
+import { fnBuildCanvasEditChangeOptions } from '../core/fn.history';
 import type { TCanvasCmdErrorDetails } from '../types';
 
 export type TCanvasUngroupInput = {
   canvasId?: string | null;
   canvasNameQuery?: string | null;
+  session?: string | null;
   dryRun?: boolean;
   ids?: string[];
 };
@@ -118,7 +120,7 @@ export async function txExecuteCanvasUngroup(portal: TPortal, input: TCanvasUngr
 
           delete nextDoc.groups[removedGroupId];
         }
-      });
+      }, fnBuildCanvasEditChangeOptions(input.session, 'canvas.ungroup'));
       await portal.automergeService.repo.flush([handle.documentId]);
     }
 
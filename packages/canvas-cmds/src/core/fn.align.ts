@@ -0,0 +1,61 @@
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { fnCollectLayoutNodes, fnResolveLayoutMoves, fnUnionLayoutBoxes, type TLayoutNode, type TLayoutPlan } from './fn.layout';
+
+export type TAlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type TDistributeAxis = 'horizontal' | 'vertical';
+
+export type TArrangePlan = Pick<TLayoutPlan, 'nodes' | 'moves' | 'elementDeltas' | 'bounds'>;
+
+export const ALIGN_MODES: TAlignMode[] = ['left', 'center', 'right', 'top', 'middle', 'bottom'];
+export const DISTRIBUTE_AXES: TDistributeAxis[] = ['horizontal', 'vertical'];
+
+function alignPlacement(node: TLayoutNode, mode: TAlignMode, bounds: TLayoutNode['box']): { x: number; y: number } {
+  const { box } = node;
+  if (mode === 'left') return { x: bounds.x, y: box.y };
+  if (mode === 'center') return { x: bounds.x + (bounds.w - box.w) / 2, y: box.y };
+  if (mode === 'right') return { x: bounds.x + bounds.w - box.w, y: box.y };
+  if (mode === 'top') return { x: box.x, y: bounds.y };
+  if (mode === 'middle') return { x: box.x, y: bounds.y + (bounds.h - box.h) / 2 };
+  return { x: box.x, y: bounds.y + bounds.h - box.h };
+}
+
+/**
+ * Aligns every node's edge or center to the matching edge or center of the selection bounds.
+ * Uses the same nodes as layout, so groups and attached text move as one unit.
+ */
+export function fnPlanCanvasAlign(doc: TCanvasDoc, ids: readonly string[], mode: TAlignMode): TArrangePlan {
+  const nodes = fnCollectLayoutNodes(doc, ids);
+  const bounds = fnUnionLayoutBoxes(nodes.map((node) => node.box));
+  if (!bounds) return { nodes, moves: [], elementDeltas: [], bounds: null };
+
+  const placements = new Map(nodes.map((node) => [node.id, alignPlacement(node, mode, bounds)]));
+  return { nodes, ...fnResolveLayoutMoves(nodes, placements) };
+}
+
+/**
+ * Spreads nodes along one axis so the gaps between neighbours are equal. Nodes are ordered by
+ * their centers; the outermost nodes keep their positions and the cross axis is untouched.
+ */
+export function fnPlanCanvasDistribute(doc: TCanvasDoc, ids: readonly string[], axis: TDistributeAxis): TArrangePlan {
+  const nodes = fnCollectLayoutNodes(doc, ids);
+  const bounds = fnUnionLayoutBoxes(nodes.map((node) => node.box));
+  if (!bounds || nodes.length < 3) return { nodes, ...fnResolveLayoutMoves(nodes, new Map()) };
+
+  const horizontal = axis === 'horizontal';
+  const start = (node: TLayoutNode) => horizontal ? node.box.x : node.box.y;
+  const size = (node: TLayoutNode) => horizontal ? node.box.w : node.box.h;
+  const ordered = [...nodes].sort((left, right) => start(left) + size(left) / 2 - (start(right) + size(right) / 2) || left.id.localeCompare(right.id));
+
+  const first = ordered[0]!;
+  const last = ordered.at(-1)!;
+  const span = start(last) + size(last) - start(first);
+  const gap = (span - ordered.reduce((sum, node) => sum + size(node), 0)) / (ordered.length - 1);
+
+  const placements = new Map<string, { x: number; y: number }>();
+  let cursor = start(first);
+  for (const node of ordered.slice(0, -1)) {
+    placements.set(node.id, horizontal ? { x: cursor, y: node.box.y } : { x: node.box.x, y: cursor });
+    cursor += size(node) + gap;
+  }
+  return { nodes, ...fnResolveLayoutMoves(nodes, placements) };
+}
@@ -0,0 +1,100 @@
+import { fnIsImageFileFormat, IMAGE_FILE_EXTENSIONS, type TImageFileFormat } from './fn.image-file';
+
+export const BACKUP_FORMAT = 'vibecanvas-backup';
+/** Bumped on breaking changes to the archive layout; restore refuses newer versions. */
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_MANIFEST_PATH = 'manifest.json';
+
+export type TBackupCanvasEntry = {
+  id: string;
+  name: string;
+  createdAt: string;
+  automergeUrl: string;
+  forkedFromId: string | null;
+  /** Archive path of the saved Automerge document, history included. */
+  path: string;
+};
+
+export type TBackupFileEntry = {
+  id: string;
+  hash: string;
+  format: TImageFileFormat;
+  createdAt: string;
+  /** Archive path of the raw image bytes. */
+  path: string;
+};
+
+export type TBackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  appVersion: string | null;
+  createdAt: string;
+  canvases: TBackupCanvasEntry[];
+  files: TBackupFileEntry[];
+};
+
+/** Archive entries by path, as written to or read from the tarball. */
+export type TBackupEntries = Record<string, Uint8Array>;
+
+export function fnBackupCanvasPath(id: string): string {
+  return `canvases/${id}.automerge`;
+}
+
+export function fnBackupFilePath(id: string, format: TImageFileFormat): string {
+  return `files/${id}.${IMAGE_FILE_EXTENSIONS[format]}`;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function parseCanvasEntry(value: unknown): TBackupCanvasEntry | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const entry = value as Record<string, unknown>;
+  if (!isString(entry.id) || !isString(entry.name) || !isString(entry.automergeUrl) || !isString(entry.path)) return null;
+  return {
+    id: entry.id,
+    name: entry.name,
+    createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : new Date(0).toISOString(),
+    automergeUrl: entry.automergeUrl,
+    forkedFromId: isString(entry.forkedFromId) ? entry.forkedFromId : null,
+    path: entry.path,
+  };
+}
+
+function parseFileEntry(value: unknown): TBackupFileEntry | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const entry = value as Record<string, unknown>;
+  if (!isString(entry.id) || !isString(entry.hash) || !fnIsImageFileFormat(entry.format) || !isString(entry.path)) return null;
+  return {
+    id: entry.id,
+    hash: entry.hash,
+    format: entry.format,
+    createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : new Date(0).toISOString(),
+    path: entry.path,
+  };
+}
+
+/**
+ * Reads `manifest.json`. Returns null when it is not a vibecanvas backup manifest; the version is
+ * returned as found so callers can reject archives from newer releases with a clear message.
+ */
+export function fnParseBackupManifest(value: unknown): TBackupManifest | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const manifest = value as Record<string, unknown>;
+  if (manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') return null;
+  if (!Array.isArray(manifest.canvases) || !Array.isArray(manifest.files)) return null;
+
+  const canvases = manifest.canvases.map(parseCanvasEntry);
+  const files = manifest.files.map(parseFileEntry);
+  if (canvases.some((entry) => !entry) || files.some((entry) => !entry)) return null;
+
+  return {
+    format: BACKUP_FORMAT,
+    version: manifest.version,
+    appVersion: typeof manifest.appVersion === 'string' ? manifest.appVersion : null,
+    createdAt: typeof manifest.createdAt === 'string' ? manifest.createdAt : new Date(0).toISOString(),
+    canvases: canvases as TBackupCanvasEntry[],
+    files: files as TBackupFileEntry[],
+  };
+}
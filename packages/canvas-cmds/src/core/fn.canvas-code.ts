@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { zElement, zGroup } from '@vibecanvas/service-automerge/types/canvas-doc.zod';
+import { fnIsPlainObject } from './fn.guard';
+import { fnCollectLeafChanges, type TCanvasRevertOp } from './fn.history';
+
+export const CANVAS_CODE_FORMAT = 'vibecanvas-canvas-code';
+/** Bumped on breaking changes to the layout; sync refuses files from newer versions. */
+export const CANVAS_CODE_VERSION = 1;
+
+type TCollection = 'elements' | 'groups';
+
+const COLLECTIONS: TCollection[] = ['elements', 'groups'];
+
+/** Keys that change on every edit and would only add noise to diffs; sync fills them in from the doc. */
+const VOLATILE_KEYS = new Set(['createdAt', 'updatedAt']);
+
+/**
+ * The canvas contents as committed to a repository: elements and groups keyed by id, without
+ * timestamps. Object keys are sorted at every level so equal canvases serialize to equal text.
+ */
+export type TCanvasCode = {
+  format: typeof CANVAS_CODE_FORMAT;
+  version: number;
+  elements: Record<string, Record<string, unknown>>;
+  groups: Record<string, Record<string, unknown>>;
+};
+
+export type TCanvasCodeParseResult =
+  | { ok: true; code: TCanvasCode }
+  | { ok: false; code: 'INVALID' | 'VERSION_UNSUPPORTED'; message: string };
+
+export type TCanvasCodeApplyPlan = {
+  ops: TCanvasRevertOp[];
+  changedIds: string[];
+  createdIds: string[];
+  removedIds: string[];
+  updatedIds: string[];
+};
+
+function sortKeysDeep(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeysDeep);
+  if (!fnIsPlainObject(value)) return value;
+  return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeysDeep(value[key])]));
+}
+
+function withoutVolatileKeys(entity: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(entity).filter(([key, value]) => !VOLATILE_KEYS.has(key) && value !== undefined));
+}
+
+function toCanvasCodeCollection(items: Record<string, unknown> | undefined): Record<string, Record<string, unknown>> {
+  const entries = Object.entries(items ?? {}).filter((entry): entry is [string, Record<string, unknown>] => fnIsPlainObject(entry[1]));
+  return Object.fromEntries(entries.map(([id, entity]) => [id, withoutVolatileKeys(JSON.parse(JSON.stringify(entity)))]));
+}
+
+/** Stable, diff-friendly JSON of the canvas; the same contents always give the same text. */
+export function fnStringifyCanvasCode(code: TCanvasCode): string {
+  const ordered = {
+    format: code.format,
+    version: code.version,
+    elements: sortKeysDeep(code.elements),
+    groups: sortKeysDeep(code.groups),
+  };
+  return `${JSON.stringify(ordered, null, 2)}\n`;
+}
+
+export function fnCanvasCodeFromDoc(doc: Pick<TCanvasDoc, 'elements' | 'groups'>): TCanvasCode {
+  return {
+    format: CANVAS_CODE_FORMAT,
+    version: CANVAS_CODE_VERSION,
+    elements: toCanvasCodeCollection(doc.elements),
+    groups: toCanvasCodeCollection(doc.groups),
+  };
+}
+
+/** Hash of the normalized serialization, so reformatting a file by hand does not count as a change. */
+export function fnCanvasCodeHash(code: TCanvasCode): string {
+  return createHash('sha256').update(fnStringifyCanvasCode(code)).digest('hex');
+}
+
+function parseCollection(collection: TCollection, value: unknown): { items: Record<string, Record<string, unknown>> } | { message: string } {
+  if (value === undefined) return { items: {} };
+  if (!fnIsPlainObject(value)) return { message: `'${collection}' must be an object keyed by id.` };
+
+  const schema = collection === 'elements' ? zElement : zGroup;
+  const items: Record<string, Record<string, unknown>> = {};
+  for (const [id, entity] of Object.entries(value)) {
+    if (!fnIsPlainObject(entity)) return { message: `${collection}.${id} must be an object.` };
+    if (entity.id !== undefined && entity.id !== id) return { message: `${collection}.${id} has id '${String(entity.id)}'; ids must match their keys.` };
+
+    const candidate = withoutVolatileKeys({ ...entity, id });
+    const parsed = schema.safeParse({ ...candidate, createdAt: 0, updatedAt: 0 });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return { message: `${collection}.${id}${issue?.path.length ? `.${issue.path.join('.')}` : ''}: ${issue?.message ?? 'invalid value'}` };
+    }
+    items[id] = candidate;
+  }
+  return { items };
+}
+
+/** Reads a canvas-code file; schema problems are reported with the path of the first bad value. */
+export function fnParseCanvasCode(content: string): TCanvasCodeParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch (error) {
+    return { ok: false, code: 'INVALID', message: `Not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (!fnIsPlainObject(value) || value.format !== CANVAS_CODE_FORMAT || typeof value.version !== 'number') {
+    return { ok: false, code: 'INVALID', message: `Expected a JSON object with format '${CANVAS_CODE_FORMAT}' and a numeric version.` };
+  }
+  if (value.version > CANVAS_CODE_VERSION) {
+    return { ok: false, code: 'VERSION_UNSUPPORTED', message: `File version ${value.version} is newer than the supported version ${CANVAS_CODE_VERSION}. Upgrade vibecanvas.` };
+  }
+
+  const elements = parseCollection('elements', value.elements);
+  if ('message' in elements) return { ok: false, code: 'INVALID', message: elements.message };
+  const groups = parseCollection('groups', value.groups);
+  if ('message' in groups) return { ok: false, code: 'INVALID', message: groups.message };
+
+  return { ok: true, code: { format: CANVAS_CODE_FORMAT, version: CANVAS_CODE_VERSION, elements: elements.items, groups: groups.items } };
+}
+
+/**
+ * Plans turning the doc into the file contents with the fewest writes: whole entities for created
+ * and removed ids, changed leaf values otherwise. Timestamps are kept from the doc and bumped to
+ * `now` where something changed. Apply the ops with `fnApplyCanvasRevert`.
+ */
+export function fnPlanCanvasCodeApply(doc: Pick<TCanvasDoc, 'elements' | 'groups'>, code: TCanvasCode, now: number): TCanvasCodeApplyPlan {
+  const current = fnCanvasCodeFromDoc(doc);
+  const ops: TCanvasRevertOp[] = [];
+  const createdIds = new Set<string>();
+  const removedIds = new Set<string>();
+  const updatedIds = new Set<string>();
+
+  for (const collection of COLLECTIONS) {
+    const currentItems = current[collection];
+    const nextItems = code[collection];
+    const timestamps = collection === 'elements' ? { createdAt: now, updatedAt: now } : { createdAt: now };
+
+    for (const id of [...new Set([...Object.keys(currentItems), ...Object.keys(nextItems)])].sort()) {
+      if (!nextItems[id]) {
+        ops.push({ collection, id, path: [], value: undefined });
+        removedIds.add(id);
+        continue;
+      }
+      if (!currentItems[id]) {
+        ops.push({ collection, id, path: [], value: { ...nextItems[id], ...timestamps } });
+        createdIds.add(id);
+        continue;
+      }
+
+      const changes: Array<{ path: string[]; before: unknown; after: unknown }> = [];
+      fnCollectLeafChanges(currentItems[id], nextItems[id], [], changes);
+      if (changes.length === 0) continue;
+      for (const change of changes) ops.push({ collection, id, path: change.path, value: change.after });
+      if (collection === 'elements') ops.push({ collection, id, path: ['updatedAt'], value: now });
+      updatedIds.add(id);
+    }
+  }
+
+  return {
+    ops,
+    changedIds: [...new Set([...createdIds, ...removedIds, ...updatedIds])].sort(),
+    createdIds: [...createdIds].sort(),
+    removedIds: [...removedIds].sort(),
+    updatedIds: [...updatedIds].sort(),
+  };
+}
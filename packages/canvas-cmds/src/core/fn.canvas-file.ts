@@ -0,0 +1,81 @@
+import { fnIsImageFileFormat, type TImageFileFormat } from './fn.image-file';
+
+export const CANVAS_FILE_FORMAT = 'vibecanvas-canvas';
+/** Bumped on breaking changes to the file layout; import refuses newer versions. */
+export const CANVAS_FILE_VERSION = 1;
+export const CANVAS_FILE_EXTENSION = '.vibecanvas';
+export const CANVAS_FILE_MIME_TYPE = 'application/vnd.vibecanvas+json';
+
+export type TCanvasFileImage = {
+  /** Id in the exporting database; imports store the bytes under a new id. */
+  id: string;
+  hash: string;
+  format: TImageFileFormat;
+  base64: string;
+};
+
+/**
+ * A single canvas as one JSON file: the saved Automerge document, history included, plus every
+ * image file it references, so the board can be mailed or committed and opened elsewhere.
+ */
+export type TCanvasFile = {
+  format: typeof CANVAS_FILE_FORMAT;
+  version: number;
+  appVersion: string | null;
+  exportedAt: string;
+  canvas: {
+    id: string;
+    name: string;
+    createdAt: string;
+  };
+  /** Base64 of `Automerge.save(doc)`. */
+  document: string;
+  files: TCanvasFileImage[];
+};
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function parseImage(value: unknown): TCanvasFileImage | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const image = value as Record<string, unknown>;
+  if (!isString(image.id) || !isString(image.hash) || !fnIsImageFileFormat(image.format) || !isString(image.base64)) return null;
+  return { id: image.id, hash: image.hash, format: image.format, base64: image.base64 };
+}
+
+/** File name for a canvas export, with characters file systems reject replaced. */
+export function fnCanvasFileName(name: string): string {
+  return `${name.trim().replace(/[\\/:*?"<>|]+/g, '-') || 'canvas'}${CANVAS_FILE_EXTENSION}`;
+}
+
+/**
+ * Reads a `.vibecanvas` file. Returns null when it is not one; the version is returned as found so
+ * callers can reject files from newer releases with a clear message.
+ */
+export function fnParseCanvasFile(value: unknown): TCanvasFile | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const file = value as Record<string, unknown>;
+  if (file.format !== CANVAS_FILE_FORMAT || typeof file.version !== 'number') return null;
+  if (typeof file.canvas !== 'object' || file.canvas === null || !isString(file.document) || !Array.isArray(file.files)) return null;
+
+  const canvas = file.canvas as Record<string, unknown>;
+  if (!isString(canvas.id) || !isString(canvas.name)) return null;
+
+  const images = file.files.map(parseImage);
+  if (images.some((image) => !image)) return null;
+
+  return {
+    format: CANVAS_FILE_FORMAT,
+    version: file.version,
+    appVersion: typeof file.appVersion === 'string' ? file.appVersion : null,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : new Date(0).toISOString(),
+    canvas: {
+      id: canvas.id,
+      name: canvas.name,
+      createdAt: typeof canvas.createdAt === 'string' ? canvas.createdAt : new Date(0).toISOString(),
+    },
+    document: file.document,
+    files: images as TCanvasFileImage[],
+  };
+}
@@ -26,6 +26,15 @@ export function fnNormalizeCanvas(row: TCanvasRecord): TCanvasSummary {
   };
 }
 
+/** First free name of the form `base`, `base (2)`, `base (3)`, ... */
+export function fnUniqueCanvasName(baseName: string, rows: readonly Pick<TCanvasRecord, 'name'>[]): string {
+  const names = new Set(rows.map((row) => row.name));
+  if (!names.has(baseName)) return baseName;
+  let index = 2;
+  while (names.has(`${baseName} (${index})`)) index += 1;
+  return `${baseName} (${index})`;
+}
+
 export function fnResolveCanvasSelection(args: {
   rows: TCanvasRecord[];
   selector: TCanvasSelectorInput;
@@ -0,0 +1,274 @@
+import type { TArrowData, TBinding, TCanvasDoc, TElement, TLineData } from '@vibecanvas/service-automerge/types/canvas-doc';
+
+export type TConnectorElement = TElement & { data: TLineData | TArrowData };
+
+export type TConnectorPoint = { x: number; y: number };
+
+export type TConnectorBox = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rotation: number;
+  outline: 'rect' | 'ellipse' | 'diamond';
+};
+
+export type TConnectorPatch = {
+  id: string;
+  x?: number;
+  y?: number;
+  rotation?: number;
+  bindings?: TBinding[];
+  data?: Pick<TLineData, 'points' | 'startBinding' | 'endBinding'>;
+  updatedAt: number;
+};
+
+const EPSILON = 1e-6;
+const ANCHOR_CENTER_SNAP = 0.1;
+
+export const CONNECTOR_BINDING_PADDING = 12;
+
+export function fnIsConnectorElement(element: TElement | null | undefined): element is TConnectorElement {
+  return !!element && (element.data.type === 'line' || element.data.type === 'arrow');
+}
+
+export function fnIsBindableElement(element: TElement | null | undefined): boolean {
+  return fnGetConnectorBox(element) !== null;
+}
+
+/**
+ * Unrotated box of a bindable element in world space.
+ * Ellipses rotate around their center, every other bindable type around its top-left corner.
+ */
+export function fnGetConnectorBox(element: TElement | null | undefined): TConnectorBox | null {
+  if (!element) return null;
+  const data = element.data;
+  if (data.type === 'ellipse') return { x: element.x, y: element.y, w: data.rx * 2, h: data.ry * 2, rotation: element.rotation, outline: 'ellipse' };
+  if (data.type === 'diamond') return { x: element.x, y: element.y, w: data.w, h: data.h, rotation: element.rotation, outline: 'diamond' };
+  if (data.type === 'text' && data.containerId) return null;
+  if (data.type === 'rect' || data.type === 'text' || data.type === 'image' || data.type === 'filetree' || data.type === 'terminal' || data.type === 'file' || data.type === 'note' || data.type === 'iframe-browser' || data.type === 'frame' || data.type === 'sticky') {
+    return { x: element.x, y: element.y, w: data.w, h: data.h, rotation: element.rotation, outline: 'rect' };
+  }
+  return null;
+}
+
+function rotatePoint(point: TConnectorPoint, origin: TConnectorPoint, degrees: number): TConnectorPoint {
+  if (!degrees) return point;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  return { x: origin.x + dx * cos - dy * sin, y: origin.y + dx * sin + dy * cos };
+}
+
+function getRotationOrigin(box: TConnectorBox): TConnectorPoint {
+  return box.outline === 'ellipse' ? { x: box.x + box.w / 2, y: box.y + box.h / 2 } : { x: box.x, y: box.y };
+}
+
+function projectOntoOutline(box: TConnectorBox, point: TConnectorPoint): TConnectorPoint {
+  if (box.outline === 'rect') return point;
+  const cx = box.x + box.w / 2;
+  const cy = box.y + box.h / 2;
+  const dx = point.x - cx;
+  const dy = point.y - cy;
+  const rx = box.w / 2;
+  const ry = box.h / 2;
+  if ((Math.abs(dx) < EPSILON && Math.abs(dy) < EPSILON) || rx < EPSILON || ry < EPSILON) return point;
+  const scale = box.outline === 'ellipse' ? 1 / Math.sqrt((dx / rx) ** 2 + (dy / ry) ** 2) : 1 / (Math.abs(dx) / rx + Math.abs(dy) / ry);
+  return { x: cx + dx * scale, y: cy + dy * scale };
+}
+
+/**
+ * World point for a binding anchor. Anchors are normalized to the element box (0..1 on both axes);
+ * anchors on the box border are projected onto the ellipse/diamond outline.
+ */
+export function fnResolveBindingPoint(element: TElement, anchor: TBinding['anchor']): TConnectorPoint | null {
+  const box = fnGetConnectorBox(element);
+  if (!box) return null;
+  const boxPoint = { x: box.x + anchor.x * box.w, y: box.y + anchor.y * box.h };
+  const onBorder = Math.max(Math.abs(anchor.x - 0.5), Math.abs(anchor.y - 0.5)) >= 0.5 - EPSILON;
+  const outlinePoint = onBorder ? projectOntoOutline(box, boxPoint) : boxPoint;
+  return rotatePoint(outlinePoint, getRotationOrigin(box), box.rotation);
+}
+
+/**
+ * Snaps a box-local normalized point to the nearest box edge.
+ * Points close to an edge midpoint snap to the midpoint.
+ */
+export function fnSnapAnchorToEdge(anchor: TBinding['anchor']): TBinding['anchor'] {
+  const x = Math.min(1, Math.max(0, anchor.x));
+  const y = Math.min(1, Math.max(0, anchor.y));
+  const distances = [
+    { edge: 'left', distance: x },
+    { edge: 'right', distance: 1 - x },
+    { edge: 'top', distance: y },
+    { edge: 'bottom', distance: 1 - y },
+  ] as const;
+  const nearest = distances.reduce((best, candidate) => (candidate.distance < best.distance ? candidate : best));
+  const snapMid = (value: number) => (Math.abs(value - 0.5) <= ANCHOR_CENTER_SNAP ? 0.5 : value);
+  if (nearest.edge === 'left') return { x: 0, y: snapMid(y) };
+  if (nearest.edge === 'right') return { x: 1, y: snapMid(y) };
+  if (nearest.edge === 'top') return { x: snapMid(x), y: 0 };
+  return { x: snapMid(x), y: 1 };
+}
+
+/**
+ * Topmost bindable element under a world point, with the anchor snapped to its nearest edge.
+ */
+export function fnFindBindingTarget(args: { elements: Iterable<TElement>; point: TConnectorPoint; excludeIds?: readonly string[]; padding?: number }): TBinding | null {
+  const padding = args.padding ?? CONNECTOR_BINDING_PADDING;
+  const candidates = [...args.elements]
+    .filter((element) => !args.excludeIds?.includes(element.id))
+    .sort((left, right) => right.zIndex.localeCompare(left.zIndex));
+
+  for (const element of candidates) {
+    const box = fnGetConnectorBox(element);
+    if (!box) continue;
+    const local = rotatePoint(args.point, getRotationOrigin(box), -box.rotation);
+    if (local.x < box.x - padding || local.x > box.x + box.w + padding || local.y < box.y - padding || local.y > box.y + box.h + padding) continue;
+    const anchor = {
+      x: box.w > 0 ? (local.x - box.x) / box.w : 0.5,
+      y: box.h > 0 ? (local.y - box.y) / box.h : 0.5,
+    };
+    return { targetId: element.id, anchor: fnSnapAnchorToEdge(anchor) };
+  }
+
+  return null;
+}
+
+function connectorPointToWorld(connector: TElement, point: [number, number]): TConnectorPoint {
+  return rotatePoint({ x: connector.x + point[0], y: connector.y + point[1] }, { x: connector.x, y: connector.y }, connector.rotation);
+}
+
+function isSameNumber(left: number, right: number) {
+  return Math.abs(left - right) < EPSILON;
+}
+
+function cloneBinding(binding: TBinding | null): TBinding | null {
+  return binding ? { targetId: binding.targetId, anchor: { x: binding.anchor.x, y: binding.anchor.y } } : null;
+}
+
+function isSameBinding(left: TBinding | null, right: TBinding | null) {
+  if (!left || !right) return left === right;
+  return left.targetId === right.targetId && isSameNumber(left.anchor.x, right.anchor.x) && isSameNumber(left.anchor.y, right.anchor.y);
+}
+
+function resolveBoundTarget(connector: TConnectorElement, binding: TBinding | null, elementsById: Record<string, TElement>): TElement | null {
+  if (!binding || binding.targetId === connector.id) return null;
+  const target = elementsById[binding.targetId];
+  return fnIsBindableElement(target) ? target! : null;
+}
+
+/**
+ * Re-routes one connector so its bound endpoints sit on their targets.
+ * Bindings to missing or non-bindable targets are released; unbound points keep their world position.
+ * Returns null when the connector is already up to date.
+ */
+export function fnRouteConnector(connector: TConnectorElement, elementsById: Record<string, TElement>, now: number): TConnectorPatch | null {
+  const points = connector.data.points;
+  const startBinding = connector.data.startBinding ?? null;
+  const endBinding = connector.data.endBinding ?? null;
+  if (!startBinding && !endBinding) return null;
+
+  const startTarget = resolveBoundTarget(connector, startBinding, elementsById);
+  const endTarget = resolveBoundTarget(connector, endBinding, elementsById);
+  const nextStartBinding = startTarget ? cloneBinding(startBinding) : null;
+  const nextEndBinding = endTarget ? cloneBinding(endBinding) : null;
+
+  if (points.length < 2) {
+    if (isSameBinding(startBinding, nextStartBinding) && isSameBinding(endBinding, nextEndBinding)) return null;
+    return { id: connector.id, data: { points: points.map(([x, y]) => [x, y] as [number, number]), startBinding: nextStartBinding, endBinding: nextEndBinding }, updatedAt: now };
+  }
+
+  const worldPoints = points.map((point) => connectorPointToWorld(connector, point));
+  const startPoint = startTarget && nextStartBinding ? fnResolveBindingPoint(startTarget, nextStartBinding.anchor) : null;
+  const endPoint = endTarget && nextEndBinding ? fnResolveBindingPoint(endTarget, nextEndBinding.anchor) : null;
+  if (startPoint) worldPoints[0] = startPoint;
+  if (endPoint) worldPoints[worldPoints.length - 1] = endPoint;
+
+  const origin = worldPoints[0]!;
+  const nextPoints = worldPoints.map((point) => [point.x - origin.x, point.y - origin.y] as [number, number]);
+  const unchanged = isSameNumber(connector.x, origin.x)
+    && isSameNumber(connector.y, origin.y)
+    && isSameNumber(connector.rotation, 0)
+    && nextPoints.every((point, index) => isSameNumber(point[0], points[index]![0]) && isSameNumber(point[1], points[index]![1]))
+    && isSameBinding(startBinding, nextStartBinding)
+    && isSameBinding(endBinding, nextEndBinding);
+  if (unchanged) return null;
+
+  return {
+    id: connector.id,
+    x: origin.x,
+    y: origin.y,
+    rotation: 0,
+    data: { points: nextPoints, startBinding: nextStartBinding, endBinding: nextEndBinding },
+    updatedAt: now,
+  };
+}
+
+function collectBackReferences(doc: TCanvasDoc): Map<string, TBinding[]> {
+  const references = new Map<string, TBinding[]>();
+  const connectors = Object.values(doc.elements).filter(fnIsConnectorElement).sort((left, right) => left.id.localeCompare(right.id));
+  for (const connector of connectors) {
+    for (const binding of [connector.data.startBinding, connector.data.endBinding]) {
+      if (!binding || !resolveBoundTarget(connector, binding, doc.elements)) continue;
+      const list = references.get(binding.targetId) ?? [];
+      list.push({ targetId: connector.id, anchor: cloneBinding(binding)!.anchor });
+      references.set(binding.targetId, list);
+    }
+  }
+  return references;
+}
+
+function isSameBindingList(left: readonly TBinding[], right: readonly TBinding[]) {
+  return left.length === right.length && left.every((binding, index) => isSameBinding(binding, right[index] ?? null));
+}
+
+/**
+ * Computes every patch needed to keep connectors attached to their targets.
+ * Connector geometry follows bound targets, and each target's `bindings` lists the connector
+ * endpoints attached to it (`targetId` is the connector id on that side).
+ */
+export function fnRouteBoundConnectors(doc: TCanvasDoc, now: number): TConnectorPatch[] {
+  const patches = new Map<string, TConnectorPatch>();
+
+  for (const element of Object.values(doc.elements)) {
+    if (!fnIsConnectorElement(element)) continue;
+    const patch = fnRouteConnector(element, doc.elements, now);
+    if (patch) patches.set(element.id, patch);
+  }
+
+  const references = collectBackReferences(doc);
+  for (const element of Object.values(doc.elements)) {
+    if (fnIsConnectorElement(element)) continue;
+    const expected = fnIsBindableElement(element) ? references.get(element.id) ?? [] : [];
+    if (isSameBindingList(element.bindings ?? [], expected)) continue;
+    patches.set(element.id, { id: element.id, bindings: expected, updatedAt: now });
+  }
+
+  return [...patches.values()].sort((left, right) => left.id.localeCompare(right.id));
+}
+
+/**
+ * Applies connector patches in place. Patches are plain data, so this is safe inside an Automerge `handle.change` callback.
+ */
+export function fnApplyConnectorPatches(doc: TCanvasDoc, patches: readonly TConnectorPatch[]): string[] {
+  const changedIds: string[] = [];
+  for (const patch of patches) {
+    const element = doc.elements[patch.id];
+    if (!element) continue;
+    if (patch.x !== undefined) element.x = patch.x;
+    if (patch.y !== undefined) element.y = patch.y;
+    if (patch.rotation !== undefined) element.rotation = patch.rotation;
+    if (patch.bindings !== undefined) element.bindings = patch.bindings.map((binding) => cloneBinding(binding)!);
+    if (patch.data && fnIsConnectorElement(element)) {
+      element.data.points = patch.data.points.map(([x, y]) => [x, y] as [number, number]);
+      element.data.startBinding = cloneBinding(patch.data.startBinding);
+      element.data.endBinding = cloneBinding(patch.data.endBinding);
+    }
+    element.updatedAt = patch.updatedAt;
+    changedIds.push(patch.id);
+  }
+  return changedIds;
+}
@@ -0,0 +1,317 @@
+import type { TBinding } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { TDiagramDirection, TDiagramEdge, TDiagramGraph, TDiagramNode } from './fn.diagram';
+
+export type TDiagramBox = { x: number; y: number; w: number; h: number };
+
+export type TDiagramLayoutNode = TDiagramNode & TDiagramBox & {
+  rank: number;
+  order: number;
+};
+
+export type TDiagramLayoutEdge = TDiagramEdge & {
+  startAnchor: TBinding['anchor'];
+  endAnchor: TBinding['anchor'];
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  labelBox: TDiagramBox | null;
+};
+
+export type TDiagramLayout = {
+  direction: TDiagramDirection;
+  nodes: TDiagramLayoutNode[];
+  edges: TDiagramLayoutEdge[];
+  bounds: TDiagramBox;
+};
+
+/** Sized boxes and directed edges between their keys, independent of how they are drawn. */
+export type TLayeredGraph = {
+  direction: TDiagramDirection;
+  nodes: Array<{ key: string; w: number; h: number }>;
+  edges: Array<{ from: string; to: string }>;
+};
+
+export type TLayeredPlacement = TDiagramBox & { rank: number; order: number };
+
+export type TLayeredGaps = { nodeGap?: number; rankGap?: number };
+
+export const DIAGRAM_FONT_SIZE = 16;
+export const DIAGRAM_EDGE_FONT_SIZE = 14;
+export const DIAGRAM_LINE_HEIGHT = 1.25;
+
+const CHAR_WIDTH_RATIO = 0.6;
+const NODE_PADDING_X = 32;
+const NODE_PADDING_Y = 24;
+const MIN_NODE_WIDTH = 120;
+const MIN_NODE_HEIGHT = 60;
+const NODE_GAP = 60;
+const RANK_GAP = 90;
+const SWEEP_ITERATIONS = 8;
+
+const ANCHORS = {
+  top: { x: 0.5, y: 0 },
+  bottom: { x: 0.5, y: 1 },
+  left: { x: 0, y: 0.5 },
+  right: { x: 1, y: 0.5 },
+} as const;
+
+type TOrderingVertex = { id: string; rank: number; order: number; up: string[]; down: string[] };
+
+export function fnMeasureDiagramText(text: string, fontSize: number): { w: number; h: number } {
+  const lines = text.split('\n');
+  const longest = Math.max(1, ...lines.map((line) => line.length));
+  return { w: Math.ceil(longest * fontSize * CHAR_WIDTH_RATIO), h: Math.ceil(lines.length * fontSize * DIAGRAM_LINE_HEIGHT) };
+}
+
+/**
+ * Box sizes leave room for the label inside the visible shape: ellipses and diamonds only
+ * contain a fraction of their bounding box.
+ */
+function fnMeasureNode(node: TDiagramNode): { w: number; h: number } {
+  const text = fnMeasureDiagramText(node.label, DIAGRAM_FONT_SIZE);
+  const scale = node.shape === 'diamond' ? 1.8 : node.shape === 'ellipse' ? 1.45 : 1;
+  return {
+    w: Math.max(MIN_NODE_WIDTH, Math.ceil(text.w * scale + NODE_PADDING_X)),
+    h: Math.max(MIN_NODE_HEIGHT, Math.ceil(text.h * scale + NODE_PADDING_Y)),
+  };
+}
+
+/**
+ * Depth-first search in declaration order; edges that close a cycle are reversed so ranking
+ * sees a DAG. Self loops never influence ranks.
+ */
+function fnAcyclicEdges(graph: TLayeredGraph): Array<[string, string]> {
+  const outgoing = new Map<string, string[]>(graph.nodes.map((node) => [node.key, []]));
+  for (const edge of graph.edges) {
+    if (edge.from !== edge.to) outgoing.get(edge.from)!.push(edge.to);
+  }
+
+  const state = new Map<string, 'active' | 'done'>();
+  const edges: Array<[string, string]> = [];
+  const visit = (key: string) => {
+    state.set(key, 'active');
+    for (const next of outgoing.get(key)!) {
+      const nextState = state.get(next);
+      if (nextState === 'active') {
+        edges.push([next, key]);
+        continue;
+      }
+      edges.push([key, next]);
+      if (!nextState) visit(next);
+    }
+    state.set(key, 'done');
+  };
+  for (const node of graph.nodes) {
+    if (!state.has(node.key)) visit(node.key);
+  }
+  return edges;
+}
+
+/** Longest-path ranking over the acyclic edge set. */
+function fnAssignRanks(graph: TLayeredGraph, edges: Array<[string, string]>): Map<string, number> {
+  const ranks = new Map(graph.nodes.map((node) => [node.key, 0]));
+  const incoming = new Map(graph.nodes.map((node) => [node.key, 0]));
+  for (const [, to] of edges) incoming.set(to, incoming.get(to)! + 1);
+
+  const queue = graph.nodes.map((node) => node.key).filter((key) => incoming.get(key) === 0);
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    for (const [from, to] of edges) {
+      if (from !== key) continue;
+      ranks.set(to, Math.max(ranks.get(to)!, ranks.get(key)! + 1));
+      incoming.set(to, incoming.get(to)! - 1);
+      if (incoming.get(to) === 0) queue.push(to);
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Orders every rank with barycenter sweeps. Edges spanning several ranks get virtual vertices
+ * so long edges pull their endpoints towards each other like short ones.
+ */
+function fnOrderRanks(graph: TLayeredGraph, edges: Array<[string, string]>, ranks: Map<string, number>): string[][] {
+  const vertices = new Map<string, TOrderingVertex>();
+  const addVertex = (id: string, rank: number) => {
+    const vertex: TOrderingVertex = { id, rank, order: 0, up: [], down: [] };
+    vertices.set(id, vertex);
+    return vertex;
+  };
+  for (const node of graph.nodes) addVertex(node.key, ranks.get(node.key)!);
+
+  edges.forEach(([from, to], edgeIndex) => {
+    let previous = vertices.get(from)!;
+    const target = vertices.get(to)!;
+    for (let rank = previous.rank + 1; rank < target.rank; rank += 1) {
+      const virtual = addVertex(`\u0000${edgeIndex}:${rank}`, rank);
+      previous.down.push(virtual.id);
+      virtual.up.push(previous.id);
+      previous = virtual;
+    }
+    previous.down.push(target.id);
+    target.up.push(previous.id);
+  });
+
+  const rankCount = Math.max(0, ...[...vertices.values()].map((vertex) => vertex.rank)) + 1;
+  const layers: TOrderingVertex[][] = Array.from({ length: rankCount }, () => []);
+  for (const vertex of vertices.values()) layers[vertex.rank]!.push(vertex);
+  for (const layer of layers) layer.forEach((vertex, order) => { vertex.order = order; });
+
+  for (let iteration = 0; iteration < SWEEP_ITERATIONS; iteration += 1) {
+    const downward = iteration % 2 === 0;
+    const sequence = downward ? layers.slice(1) : layers.slice(0, -1).reverse();
+    for (const layer of sequence) {
+      const barycenters = new Map(layer.map((vertex) => {
+        const neighbors = (downward ? vertex.up : vertex.down).map((id) => vertices.get(id)!.order);
+        return [vertex.id, neighbors.length > 0 ? neighbors.reduce((sum, order) => sum + order, 0) / neighbors.length : vertex.order] as const;
+      }));
+      layer.sort((left, right) => barycenters.get(left.id)! - barycenters.get(right.id)! || left.order - right.order);
+      layer.forEach((vertex, order) => { vertex.order = order; });
+    }
+  }
+
+  return layers.map((layer) => layer.filter((vertex) => !vertex.id.startsWith('\u0000')).map((vertex) => vertex.id));
+}
+
+/**
+ * Places nodes along the cross axis: each node starts centered under its already placed
+ * neighbors, then overlaps are pushed apart and the rank is re-centered on its targets.
+ */
+function fnAssignCrossPositions(layers: string[][], crossSize: Map<string, number>, neighbors: Map<string, string[]>, nodeGap: number): Map<string, number> {
+  const centers = new Map<string, number>();
+
+  for (const layer of layers) {
+    const packed: number[] = [];
+    let cursor = 0;
+    for (const key of layer) {
+      const size = crossSize.get(key)!;
+      packed.push(cursor + size / 2);
+      cursor += size + nodeGap;
+    }
+    const packedOffset = (cursor - nodeGap) / 2;
+
+    const desired = layer.map((key, index) => {
+      const placed = (neighbors.get(key) ?? []).filter((neighbor) => centers.has(neighbor)).map((neighbor) => centers.get(neighbor)!);
+      return placed.length > 0 ? placed.reduce((sum, value) => sum + value, 0) / placed.length : packed[index]! - packedOffset;
+    });
+
+    const positions = [...desired];
+    for (let index = 1; index < layer.length; index += 1) {
+      const minimum = positions[index - 1]! + crossSize.get(layer[index - 1]!)! / 2 + nodeGap + crossSize.get(layer[index]!)! / 2;
+      positions[index] = Math.max(positions[index]!, minimum);
+    }
+    const shift = layer.length > 0 ? desired.reduce((sum, value, index) => sum + value - positions[index]!, 0) / layer.length : 0;
+    layer.forEach((key, index) => centers.set(key, positions[index]! + shift));
+  }
+
+  return centers;
+}
+
+function fnPickAnchors(direction: TDiagramDirection, from: TDiagramLayoutNode, to: TDiagramLayoutNode): { start: TBinding['anchor']; end: TBinding['anchor'] } {
+  if (from === to) {
+    return direction === 'LR' || direction === 'RL' ? { start: ANCHORS.bottom, end: ANCHORS.left } : { start: ANCHORS.right, end: ANCHORS.top };
+  }
+
+  if (to.rank > from.rank) {
+    if (direction === 'TB') return { start: ANCHORS.bottom, end: ANCHORS.top };
+    if (direction === 'BT') return { start: ANCHORS.top, end: ANCHORS.bottom };
+    if (direction === 'LR') return { start: ANCHORS.right, end: ANCHORS.left };
+    return { start: ANCHORS.left, end: ANCHORS.right };
+  }
+
+  const dx = (to.x + to.w / 2) - (from.x + from.w / 2);
+  const dy = (to.y + to.h / 2) - (from.y + from.h / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? { start: ANCHORS.right, end: ANCHORS.left } : { start: ANCHORS.left, end: ANCHORS.right };
+  }
+  return dy >= 0 ? { start: ANCHORS.bottom, end: ANCHORS.top } : { start: ANCHORS.top, end: ANCHORS.bottom };
+}
+
+function fnAnchorPoint(box: TDiagramBox, anchor: TBinding['anchor']): { x: number; y: number } {
+  return { x: box.x + box.w * anchor.x, y: box.y + box.h * anchor.y };
+}
+
+/**
+ * Layered (Sugiyama-style) layout: break cycles, rank by longest path, reduce crossings with
+ * barycenter sweeps, then assign coordinates. The top-left of the placed boxes is `origin`.
+ */
+export function fnLayoutLayeredGraph(graph: TLayeredGraph, origin: { x: number; y: number }, gaps: TLayeredGaps = {}): Map<string, TLayeredPlacement> {
+  const acyclic = fnAcyclicEdges(graph);
+  const ranks = fnAssignRanks(graph, acyclic);
+  const layers = fnOrderRanks(graph, acyclic, ranks);
+  const horizontal = graph.direction === 'LR' || graph.direction === 'RL';
+  const sizes = new Map(graph.nodes.map((node) => [node.key, { w: node.w, h: node.h }]));
+  const crossSize = new Map([...sizes].map(([key, size]) => [key, horizontal ? size.h : size.w]));
+  const mainSize = new Map([...sizes].map(([key, size]) => [key, horizontal ? size.w : size.h]));
+  const rankGap = gaps.rankGap ?? RANK_GAP;
+
+  const neighbors = new Map<string, string[]>();
+  for (const [from, to] of acyclic) {
+    if (ranks.get(from)! < ranks.get(to)!) neighbors.set(to, [...(neighbors.get(to) ?? []), from]);
+  }
+  const crossCenters = fnAssignCrossPositions(layers, crossSize, neighbors, gaps.nodeGap ?? NODE_GAP);
+
+  const rankStarts: number[] = [];
+  let mainCursor = 0;
+  for (const layer of layers) {
+    rankStarts.push(mainCursor);
+    mainCursor += Math.max(0, ...layer.map((key) => mainSize.get(key)!)) + rankGap;
+  }
+  const rankDepths = layers.map((layer) => Math.max(0, ...layer.map((key) => mainSize.get(key)!)));
+
+  const placed = new Map<string, TLayeredPlacement>();
+  layers.forEach((layer, rank) => layer.forEach((key, order) => {
+    const size = sizes.get(key)!;
+    const mainCenter = rankStarts[rank]! + rankDepths[rank]! / 2;
+    const reversed = graph.direction === 'BT' || graph.direction === 'RL';
+    const main = reversed ? -mainCenter : mainCenter;
+    const cross = crossCenters.get(key)!;
+    const centerX = horizontal ? main : cross;
+    const centerY = horizontal ? cross : main;
+    placed.set(key, { rank, order, x: centerX - size.w / 2, y: centerY - size.h / 2, w: size.w, h: size.h });
+  }));
+
+  const boxes = [...placed.values()];
+  const minX = Math.min(...boxes.map((box) => box.x));
+  const minY = Math.min(...boxes.map((box) => box.y));
+  for (const box of boxes) {
+    box.x = Math.round(box.x - minX + origin.x);
+    box.y = Math.round(box.y - minY + origin.y);
+  }
+
+  return new Map(graph.nodes.map((node) => [node.key, placed.get(node.key)!]));
+}
+
+/** Lays out a parsed diagram with label-sized nodes and routes each edge between facing anchors. */
+export function fnLayoutDiagram(graph: TDiagramGraph, origin: { x: number; y: number }): TDiagramLayout {
+  const placements = fnLayoutLayeredGraph({
+    direction: graph.direction,
+    nodes: graph.nodes.map((node) => ({ key: node.key, ...fnMeasureNode(node) })),
+    edges: graph.edges,
+  }, origin);
+  const nodes = graph.nodes.map((node): TDiagramLayoutNode => ({ ...node, ...placements.get(node.key)! }));
+  const placed = new Map(nodes.map((node) => [node.key, node]));
+
+  const edges = graph.edges.map((edge): TDiagramLayoutEdge => {
+    const from = placed.get(edge.from)!;
+    const to = placed.get(edge.to)!;
+    const anchors = fnPickAnchors(graph.direction, from, to);
+    const start = fnAnchorPoint(from, anchors.start);
+    const end = fnAnchorPoint(to, anchors.end);
+    let labelBox: TDiagramBox | null = null;
+    if (edge.label) {
+      const text = fnMeasureDiagramText(edge.label, DIAGRAM_EDGE_FONT_SIZE);
+      const w = text.w + 8;
+      const h = text.h + 4;
+      labelBox = { x: Math.round((start.x + end.x) / 2 - w / 2), y: Math.round((start.y + end.y) / 2 - h / 2), w, h };
+    }
+    return { ...edge, startAnchor: anchors.start, endAnchor: anchors.end, start, end, labelBox };
+  });
+
+  const boxes: TDiagramBox[] = [...nodes, ...edges.flatMap((edge) => edge.labelBox ? [edge.labelBox] : [])];
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.w));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.h));
+
+  return { direction: graph.direction, nodes, edges, bounds: { x: left, y: top, w: right - left, h: bottom - top } };
+}
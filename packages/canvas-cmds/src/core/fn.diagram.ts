@@ -0,0 +1,576 @@
+import type { TArrowData } from '@vibecanvas/service-automerge/types/canvas-doc';
+
+export type TDiagramFormat = 'mermaid' | 'dot';
+export type TDiagramDirection = 'TB' | 'BT' | 'LR' | 'RL';
+export type TDiagramNodeShape = 'rect' | 'ellipse' | 'diamond';
+export type TDiagramCap = TArrowData['startCap'];
+
+export type TDiagramNode = {
+  key: string;
+  label: string;
+  shape: TDiagramNodeShape;
+};
+
+export type TDiagramEdge = {
+  from: string;
+  to: string;
+  label: string | null;
+  startCap: TDiagramCap;
+  endCap: TDiagramCap;
+  thick: boolean;
+  /** Hidden edges only influence the layout and are never materialized. */
+  hidden: boolean;
+};
+
+export type TDiagramGraph = {
+  format: TDiagramFormat;
+  direction: TDiagramDirection;
+  nodes: TDiagramNode[];
+  edges: TDiagramEdge[];
+};
+
+export type TDiagramParseResult =
+  | { ok: true; graph: TDiagramGraph }
+  | { ok: false; line: number; message: string };
+
+type TDiagramSyntaxError = { line: number; message: string };
+
+class DiagramGraphBuilder {
+  readonly nodes = new Map<string, TDiagramNode>();
+  readonly edges: TDiagramEdge[] = [];
+
+  constructor(private readonly defaultShape: TDiagramNodeShape) {}
+
+  node(key: string, patch?: { label?: string | null; shape?: TDiagramNodeShape | null }): TDiagramNode {
+    let node = this.nodes.get(key);
+    if (!node) {
+      node = { key, label: key, shape: this.defaultShape };
+      this.nodes.set(key, node);
+    }
+    if (patch?.label !== undefined && patch.label !== null) node.label = patch.label;
+    if (patch?.shape) node.shape = patch.shape;
+    return node;
+  }
+
+  build(format: TDiagramFormat, direction: TDiagramDirection): TDiagramGraph {
+    return { format, direction, nodes: [...this.nodes.values()], edges: this.edges };
+  }
+}
+
+function fnSyntaxError(line: number, message: string): TDiagramSyntaxError {
+  return { line, message };
+}
+
+function fnIsSyntaxError(value: unknown): value is TDiagramSyntaxError {
+  return typeof value === 'object' && value !== null && 'line' in value && 'message' in value;
+}
+
+function fnNormalizeDirection(value: string | undefined): TDiagramDirection | null {
+  const upper = value?.trim().toUpperCase();
+  if (upper === 'TB' || upper === 'TD') return 'TB';
+  if (upper === 'BT' || upper === 'LR' || upper === 'RL') return upper;
+  return null;
+}
+
+/**
+ * Guesses the source language: DOT always opens with `[strict] graph|digraph [id] {`,
+ * everything else is treated as a Mermaid flowchart.
+ */
+export function fnDetectDiagramFormat(source: string): TDiagramFormat {
+  const body = source.split(/\r?\n/).filter((line) => !/^\s*(%%|\/\/|#)/.test(line)).join('\n').replace(/\/\*[\s\S]*?\*\//g, '');
+  return /^\s*(?:strict\s+)?(?:di)?graph(?:\s+(?:"[^"]*"|[\w.]+))?\s*\{/i.test(body) ? 'dot' : 'mermaid';
+}
+
+export function fnParseDiagram(source: string, format: TDiagramFormat = fnDetectDiagramFormat(source)): TDiagramParseResult {
+  try {
+    const graph = format === 'dot' ? fnParseDot(source) : fnParseMermaid(source);
+    return { ok: true, graph };
+  } catch (error) {
+    if (fnIsSyntaxError(error)) return { ok: false, line: error.line, message: error.message };
+    throw error;
+  }
+}
+
+// Mermaid flowcharts
+
+const MERMAID_HEADER = /^(?:flowchart|graph)(?:\s+(\w+))?\s*$/i;
+const MERMAID_IGNORED = /^(?:classDef|class|style|linkStyle|click|direction|accTitle|accDescr|subgraph|end)\b/;
+const MERMAID_NODE_ID = /^[\p{L}\p{N}_]+/u;
+const MERMAID_INLINE_LABEL_EDGE = /^([<ox]?)(--|==|-\.)\s+(.+?)\s+(-{2,}|={2,}|\.+-)(>|[ox](?=[\s|]|$))?/;
+const MERMAID_EDGE = /^([<ox]?)(-{2,}|={2,}|-\.+-|~~~)(>|[ox](?=[\s|]|$))?/;
+const MERMAID_EDGE_LABEL = /^\s*\|([^|]*)\|/;
+
+/** Ordered so that longer delimiters win over their prefixes. */
+const MERMAID_SHAPES: Array<{ open: string; close: string[]; shape: TDiagramNodeShape }> = [
+  { open: '(((', close: [')))'], shape: 'ellipse' },
+  { open: '((', close: ['))'], shape: 'ellipse' },
+  { open: '([', close: ['])'], shape: 'rect' },
+  { open: '[[', close: [']]'], shape: 'rect' },
+  { open: '[(', close: [')]'], shape: 'rect' },
+  { open: '[/', close: ['/]', '\\]'], shape: 'rect' },
+  { open: '[\\', close: ['\\]', '/]'], shape: 'rect' },
+  { open: '{{', close: ['}}'], shape: 'rect' },
+  { open: '{', close: ['}'], shape: 'diamond' },
+  { open: '(', close: [')'], shape: 'rect' },
+  { open: '[', close: [']'], shape: 'rect' },
+  { open: '>', close: [']'], shape: 'rect' },
+];
+
+type TMermaidEdgeToken = Omit<TDiagramEdge, 'from' | 'to'>;
+
+function fnMermaidCap(token: string | undefined, side: 'start' | 'end'): TDiagramCap {
+  if (token === 'o') return 'dot';
+  if (token === 'x' || token === '>' || (side === 'start' && token === '<')) return 'arrow';
+  return 'none';
+}
+
+function fnCleanMermaidLabel(raw: string): string {
+  const trimmed = raw.trim();
+  const unquoted = trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+  const unwrapped = unquoted.startsWith('`') && unquoted.endsWith('`') ? unquoted.slice(1, -1) : unquoted;
+  return unwrapped.replace(/<br\s*\/?>/gi, '\n').replace(/#quot;/g, '"').trim();
+}
+
+/** Splits a line on `;` that are not inside quotes or node label brackets. */
+function fnSplitMermaidStatements(line: string): string[] {
+  const statements: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && '[({'.includes(char)) depth += 1;
+    else if (!quoted && '])}'.includes(char)) depth = Math.max(0, depth - 1);
+    if (char === ';' && !quoted && depth === 0) {
+      statements.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  statements.push(current);
+  return statements.map((statement) => statement.trim()).filter(Boolean);
+}
+
+function fnStripMermaidClass(text: string): string {
+  return text.replace(/^:::[\w-]+/, '');
+}
+
+function fnReadMermaidNode(builder: DiagramGraphBuilder, text: string, line: number): { key: string; rest: string } | null {
+  const idMatch = MERMAID_NODE_ID.exec(text);
+  if (!idMatch) return null;
+  const key = idMatch[0];
+  let rest = text.slice(key.length);
+
+  const shape = MERMAID_SHAPES.find((candidate) => rest.startsWith(candidate.open));
+  if (!shape) {
+    builder.node(key);
+    return { key, rest: fnStripMermaidClass(rest) };
+  }
+
+  rest = rest.slice(shape.open.length);
+  let labelEnd = 0;
+  const leading = rest.length - rest.trimStart().length;
+  if (rest.trimStart().startsWith('"')) {
+    const closingQuote = rest.indexOf('"', leading + 1);
+    if (closingQuote < 0) throw fnSyntaxError(line, `Unterminated quoted label for node '${key}'.`);
+    labelEnd = closingQuote + 1;
+  }
+
+  const closeIndex = Math.min(...shape.close.map((close) => {
+    const index = rest.indexOf(close, labelEnd);
+    return index < 0 ? Number.POSITIVE_INFINITY : index;
+  }));
+  if (!Number.isFinite(closeIndex)) throw fnSyntaxError(line, `Missing '${shape.close[0]}' after the label of node '${key}'.`);
+
+  const closeToken = shape.close.find((close) => rest.startsWith(close, closeIndex))!;
+  builder.node(key, { label: fnCleanMermaidLabel(rest.slice(0, closeIndex)), shape: shape.shape });
+  return { key, rest: fnStripMermaidClass(rest.slice(closeIndex + closeToken.length)) };
+}
+
+function fnReadMermaidNodeGroup(builder: DiagramGraphBuilder, text: string, line: number): { keys: string[]; rest: string } | null {
+  const keys: string[] = [];
+  let rest = text;
+  while (true) {
+    const node = fnReadMermaidNode(builder, rest.trimStart(), line);
+    if (!node) return keys.length > 0 ? { keys, rest } : null;
+    keys.push(node.key);
+    rest = node.rest;
+    const ampersand = /^\s*&\s*/.exec(rest);
+    if (!ampersand) return { keys, rest };
+    rest = rest.slice(ampersand[0].length);
+  }
+}
+
+function fnReadMermaidEdge(text: string): { edge: TMermaidEdgeToken; rest: string } | null {
+  const inline = MERMAID_INLINE_LABEL_EDGE.exec(text);
+  const plain = inline ? null : MERMAID_EDGE.exec(text);
+  const match = inline ?? plain;
+  if (!match) return null;
+
+  const body = inline ? `${inline[2]}${inline[4]}` : plain![2]!;
+  const endToken = inline ? inline[5] : plain![3];
+  let rest = text.slice(match[0].length);
+  let label = inline ? fnCleanMermaidLabel(inline[3]!) : null;
+
+  const pipeLabel = MERMAID_EDGE_LABEL.exec(rest);
+  if (pipeLabel) {
+    label = fnCleanMermaidLabel(pipeLabel[1]!);
+    rest = rest.slice(pipeLabel[0].length);
+  }
+
+  return {
+    edge: {
+      label: label || null,
+      startCap: fnMermaidCap(match[1] || undefined, 'start'),
+      endCap: fnMermaidCap(endToken, 'end'),
+      thick: body.startsWith('='),
+      hidden: body === '~~~',
+    },
+    rest,
+  };
+}
+
+function fnParseMermaidStatement(builder: DiagramGraphBuilder, statement: string, line: number): void {
+  let rest = statement;
+  let previous: string[] | null = null;
+  let pendingEdge: TMermaidEdgeToken | null = null;
+
+  while (true) {
+    const group = fnReadMermaidNodeGroup(builder, rest, line);
+    if (!group) throw fnSyntaxError(line, rest.trim() ? `Expected a node id near '${rest.trim().slice(0, 24)}'.` : 'Expected a node id after the link.');
+    if (previous && pendingEdge) {
+      for (const from of previous) {
+        for (const to of group.keys) builder.edges.push({ from, to, ...pendingEdge });
+      }
+    }
+
+    previous = group.keys;
+    rest = group.rest.trimStart();
+    if (rest.length === 0) return;
+
+    const edge = fnReadMermaidEdge(rest);
+    if (!edge) throw fnSyntaxError(line, `Unexpected '${rest.slice(0, 24)}'. Expected a link such as -->, ---, -.->, or ==>.`);
+    pendingEdge = edge.edge;
+    rest = edge.rest.trimStart();
+  }
+}
+
+function fnParseMermaid(source: string): TDiagramGraph {
+  const lines = source.split(/\r?\n/);
+  const builder = new DiagramGraphBuilder('rect');
+  let direction: TDiagramDirection | null = null;
+  let inFrontmatter = false;
+
+  for (const [index, rawLine] of lines.entries()) {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/%%.*$/, '').trim();
+    if (line === '---' && direction === null) {
+      inFrontmatter = !inFrontmatter;
+      continue;
+    }
+    if (inFrontmatter || line.length === 0) continue;
+
+    if (direction === null) {
+      const [headerText, ...inlineStatements] = fnSplitMermaidStatements(line);
+      const header = MERMAID_HEADER.exec(headerText ?? '');
+      if (!header) throw fnSyntaxError(lineNumber, `Expected a 'flowchart' or 'graph' header, got '${line.slice(0, 24)}'. Only Mermaid flowcharts are supported.`);
+      direction = header[1] ? fnNormalizeDirection(header[1]) : 'TB';
+      if (!direction) throw fnSyntaxError(lineNumber, `Unknown flowchart direction '${header[1]}'. Expected TB, TD, BT, LR, or RL.`);
+      for (const statement of inlineStatements) fnParseMermaidStatement(builder, statement, lineNumber);
+      continue;
+    }
+
+    for (const statement of fnSplitMermaidStatements(line)) {
+      if (MERMAID_IGNORED.test(statement)) continue;
+      fnParseMermaidStatement(builder, statement, lineNumber);
+    }
+  }
+
+  if (direction === null) throw fnSyntaxError(1, "Mermaid source is missing a 'flowchart' or 'graph' header.");
+  return builder.build('mermaid', direction);
+}
+
+// Graphviz DOT
+
+type TDotToken = { value: string; kind: 'id' | 'punct' | 'edgeop'; line: number };
+type TDotAttributes = Record<string, string>;
+type TDotScope = { node: TDotAttributes; edge: TDotAttributes };
+
+const DOT_KEYWORDS = new Set(['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph']);
+
+function fnTokenizeDot(source: string): TDotToken[] {
+  const tokens: TDotToken[] = [];
+  let index = 0;
+  let line = 1;
+
+  while (index < source.length) {
+    const char = source[index]!;
+    if (char === '\n') {
+      line += 1;
+      index += 1;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if (source.startsWith('//', index) || (char === '#' && (index === 0 || source[index - 1] === '\n'))) {
+      while (index < source.length && source[index] !== '\n') index += 1;
+      continue;
+    }
+    if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      if (end < 0) throw fnSyntaxError(line, 'Unterminated block comment.');
+      line += source.slice(index, end).split('\n').length - 1;
+      index = end + 2;
+      continue;
+    }
+    if (source.startsWith('->', index) || source.startsWith('--', index)) {
+      tokens.push({ value: source.slice(index, index + 2), kind: 'edgeop', line });
+      index += 2;
+      continue;
+    }
+    if ('{}[]=;,:'.includes(char)) {
+      tokens.push({ value: char, kind: 'punct', line });
+      index += 1;
+      continue;
+    }
+    if (char === '"') {
+      const startLine = line;
+      let value = '';
+      index += 1;
+      while (index < source.length && source[index] !== '"') {
+        if (source[index] === '\\' && source[index + 1] === '"') {
+          value += '"';
+          index += 2;
+          continue;
+        }
+        if (source[index] === '\\' && source[index + 1] === '\n') {
+          line += 1;
+          index += 2;
+          continue;
+        }
+        if (source[index] === '\n') line += 1;
+        value += source[index];
+        index += 1;
+      }
+      if (index >= source.length) throw fnSyntaxError(startLine, 'Unterminated quoted string.');
+      index += 1;
+      tokens.push({ value, kind: 'id', line: startLine });
+      continue;
+    }
+    if (char === '<') {
+      const startLine = line;
+      let depth = 0;
+      let end = index;
+      for (; end < source.length; end += 1) {
+        if (source[end] === '<') depth += 1;
+        if (source[end] === '>') depth -= 1;
+        if (source[end] === '\n') line += 1;
+        if (depth === 0) break;
+      }
+      if (depth !== 0) throw fnSyntaxError(startLine, 'Unterminated HTML label.');
+      tokens.push({ value: source.slice(index + 1, end).replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, ''), kind: 'id', line: startLine });
+      index = end + 1;
+      continue;
+    }
+
+    const word = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(source.slice(index));
+    if (!word) throw fnSyntaxError(line, `Unexpected character '${char}'.`);
+    tokens.push({ value: word[0], kind: 'id', line });
+    index += word[0].length;
+  }
+
+  return tokens;
+}
+
+function fnDotShape(value: string | undefined): TDiagramNodeShape | null {
+  if (value === undefined) return null;
+  const shape = value.toLowerCase();
+  if (['ellipse', 'oval', 'circle', 'doublecircle', 'point', 'egg'].includes(shape)) return 'ellipse';
+  if (['diamond', 'mdiamond'].includes(shape)) return 'diamond';
+  return 'rect';
+}
+
+function fnDotCap(value: string | undefined): TDiagramCap {
+  const arrow = value?.toLowerCase().replace(/^[lr]?o?/, '') ?? 'normal';
+  if (arrow === 'none') return 'none';
+  if (arrow === 'dot') return 'dot';
+  if (arrow.includes('diamond')) return 'diamond';
+  return 'arrow';
+}
+
+function fnDotLabel(value: string | undefined, key: string): string | null {
+  if (value === undefined) return null;
+  return value.replace(/\\N/g, key).replace(/\\[nlr]/g, '\n').replace(/\n+$/, '').trim();
+}
+
+class DotParser {
+  private index = 0;
+  private directed = false;
+  private direction: TDiagramDirection = 'TB';
+  private readonly builder = new DiagramGraphBuilder('ellipse');
+
+  constructor(private readonly tokens: TDotToken[]) {}
+
+  parse(): TDiagramGraph {
+    if (this.peek()?.value.toLowerCase() === 'strict') this.index += 1;
+    const kind = this.next('graph or digraph').value.toLowerCase();
+    if (kind !== 'graph' && kind !== 'digraph') throw fnSyntaxError(this.tokens[this.index - 1]!.line, `Expected 'graph' or 'digraph', got '${kind}'.`);
+    this.directed = kind === 'digraph';
+    if (this.peek()?.kind === 'id') this.index += 1;
+    this.expect('{');
+    this.parseStatements({ node: {}, edge: {} });
+    this.expect('}');
+    const trailing = this.peek();
+    if (trailing) throw fnSyntaxError(trailing.line, `Unexpected '${trailing.value}' after the closing '}'.`);
+    return this.builder.build('dot', this.direction);
+  }
+
+  private peek(offset = 0): TDotToken | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private next(expected: string): TDotToken {
+    const token = this.tokens[this.index];
+    if (!token) throw fnSyntaxError(this.tokens.at(-1)?.line ?? 1, `Unexpected end of input, expected ${expected}.`);
+    this.index += 1;
+    return token;
+  }
+
+  private expect(value: string): TDotToken {
+    const token = this.next(`'${value}'`);
+    if (token.value !== value || token.kind === 'id') throw fnSyntaxError(token.line, `Expected '${value}', got '${token.value}'.`);
+    return token;
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token !== undefined && token.kind === 'punct' && token.value === value;
+  }
+
+  private readId(what: string): string {
+    const token = this.next(what);
+    if (token.kind !== 'id') throw fnSyntaxError(token.line, `Expected ${what}, got '${token.value}'.`);
+    return token.value;
+  }
+
+  private parseStatements(scope: TDotScope): string[] {
+    const nodeKeys: string[] = [];
+    while (this.peek() && !this.isPunct('}')) {
+      nodeKeys.push(...this.parseStatement(scope));
+      while (this.isPunct(';') || this.isPunct(',')) this.index += 1;
+    }
+    return nodeKeys;
+  }
+
+  private parseAttributes(): TDotAttributes {
+    const attributes: TDotAttributes = {};
+    while (this.isPunct('[')) {
+      this.index += 1;
+      while (!this.isPunct(']')) {
+        const key = this.readId('an attribute name');
+        this.expect('=');
+        attributes[key.toLowerCase()] = this.readId(`a value for '${key}'`);
+        while (this.isPunct(';') || this.isPunct(',')) this.index += 1;
+      }
+      this.expect(']');
+    }
+    return attributes;
+  }
+
+  private applyGraphAttributes(attributes: TDotAttributes): void {
+    const direction = fnNormalizeDirection(attributes.rankdir);
+    if (direction) this.direction = direction;
+  }
+
+  /** Returns the node keys the statement mentions so subgraphs can be used as edge operands. */
+  private parseStatement(scope: TDotScope): string[] {
+    const token = this.peek()!;
+    const keyword = token.kind === 'id' ? token.value.toLowerCase() : null;
+
+    if ((keyword === 'graph' || keyword === 'node' || keyword === 'edge') && this.isPunct('[', 1)) {
+      this.index += 1;
+      const attributes = this.parseAttributes();
+      if (keyword === 'graph') this.applyGraphAttributes(attributes);
+      else Object.assign(scope[keyword], attributes);
+      return [];
+    }
+
+    if (token.kind === 'id' && !DOT_KEYWORDS.has(keyword!) && this.isPunct('=', 1)) {
+      this.index += 2;
+      this.applyGraphAttributes({ [token.value.toLowerCase()]: this.readId(`a value for '${token.value}'`) });
+      return [];
+    }
+
+    const operands: string[][] = [this.parseOperand(scope)];
+    while (this.peek()?.kind === 'edgeop') {
+      const op = this.next('an edge operator');
+      if (op.value !== (this.directed ? '->' : '--')) {
+        throw fnSyntaxError(op.line, `Use '${this.directed ? '->' : '--'}' for edges in a ${this.directed ? 'digraph' : 'graph'}.`);
+      }
+      operands.push(this.parseOperand(scope));
+    }
+
+    const attributes = this.parseAttributes();
+    if (operands.length === 1) {
+      for (const key of operands[0]!) {
+        this.builder.node(key, { label: fnDotLabel(attributes.label, key), shape: fnDotShape(attributes.shape) });
+      }
+      return operands[0]!;
+    }
+
+    const edgeAttributes = { ...scope.edge, ...attributes };
+    const dir = edgeAttributes.dir?.toLowerCase() ?? (this.directed ? 'forward' : 'none');
+    for (let position = 1; position < operands.length; position += 1) {
+      for (const from of operands[position - 1]!) {
+        for (const to of operands[position]!) {
+          this.builder.edges.push({
+            from,
+            to,
+            label: fnDotLabel(edgeAttributes.label, `${from}->${to}`) || null,
+            startCap: dir === 'back' || dir === 'both' ? fnDotCap(edgeAttributes.arrowtail) : 'none',
+            endCap: dir === 'forward' || dir === 'both' ? fnDotCap(edgeAttributes.arrowhead) : 'none',
+            thick: Number(edgeAttributes.penwidth ?? 1) >= 2 || (edgeAttributes.style ?? '').includes('bold'),
+            hidden: (edgeAttributes.style ?? '').includes('invis'),
+          });
+        }
+      }
+    }
+    return operands.flat();
+  }
+
+  private parseOperand(scope: TDotScope): string[] {
+    const token = this.peek();
+    if (token && (this.isPunct('{') || (token.kind === 'id' && token.value.toLowerCase() === 'subgraph'))) {
+      if (!this.isPunct('{')) {
+        this.index += 1;
+        if (this.peek()?.kind === 'id') this.index += 1;
+      }
+      this.expect('{');
+      const keys = this.parseStatements({ node: { ...scope.node }, edge: { ...scope.edge } });
+      this.expect('}');
+      return [...new Set(keys)];
+    }
+
+    const key = this.readId('a node id');
+    if (this.isPunct(':')) {
+      this.index += 1;
+      this.readId('a port');
+      if (this.isPunct(':')) {
+        this.index += 1;
+        this.readId('a compass point');
+      }
+    }
+
+    if (!this.builder.nodes.has(key)) {
+      this.builder.node(key, { label: fnDotLabel(scope.node.label, key), shape: fnDotShape(scope.node.shape) });
+    }
+    return [key];
+  }
+}
+
+function fnParseDot(source: string): TDiagramGraph {
+  return new DotParser(fnTokenizeDot(source)).parse();
+}
@@ -0,0 +1,96 @@
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { fnCollectLeafChanges } from './fn.history';
+
+export type TCanvasDiffStatus = 'added' | 'removed' | 'modified';
+
+export type TCanvasDiffFieldChange = {
+  /** Dotted path inside the element or group, e.g. `x` or `style.strokeColor`. */
+  path: string;
+  /** `undefined` when the field did not exist on that side. */
+  before?: unknown;
+  after?: unknown;
+};
+
+export type TCanvasDiffEntry = {
+  id: string;
+  kind: 'element' | 'group';
+  status: TCanvasDiffStatus;
+  /** Element data type on the side it exists (the after side when both do); null for groups. */
+  type: string | null;
+  /** Field-level changes of modified entries; empty for added and removed ones. */
+  fields: TCanvasDiffFieldChange[];
+};
+
+export type TCanvasDiff = {
+  entries: TCanvasDiffEntry[];
+  addedIds: string[];
+  removedIds: string[];
+  modifiedIds: string[];
+};
+
+type TCanvasDiffSide = Pick<TCanvasDoc, 'elements' | 'groups'>;
+
+const STATUS_ORDER: Record<TCanvasDiffStatus, number> = { added: 0, removed: 1, modified: 2 };
+
+/**
+ * Compares two canvas states entity by entity. Nested objects are compared field by field; arrays
+ * such as points or bindings are compared as one value.
+ */
+export function fnDiffCanvasDocs(before: TCanvasDiffSide, after: TCanvasDiffSide, options?: { ignoreFields?: readonly string[] }): TCanvasDiff {
+  const ignored = new Set(options?.ignoreFields ?? []);
+  const entries: TCanvasDiffEntry[] = [];
+
+  for (const kind of ['element', 'group'] as const) {
+    const collection = kind === 'element' ? 'elements' : 'groups';
+    const beforeItems = (before[collection] ?? {}) as Record<string, unknown>;
+    const afterItems = (after[collection] ?? {}) as Record<string, unknown>;
+    const ids = new Set([...Object.keys(beforeItems), ...Object.keys(afterItems)]);
+
+    for (const id of ids) {
+      const beforeItem = beforeItems[id];
+      const afterItem = afterItems[id];
+      const type = kind === 'element' ? ((afterItem ?? beforeItem) as TCanvasDoc['elements'][string]).data?.type ?? null : null;
+
+      if (beforeItem === undefined || afterItem === undefined) {
+        entries.push({ id, kind, status: beforeItem === undefined ? 'added' : 'removed', type, fields: [] });
+        continue;
+      }
+
+      const changes: Array<{ path: string[]; before: unknown; after: unknown }> = [];
+      fnCollectLeafChanges(beforeItem, afterItem, [], changes);
+      const fields = changes
+        .map((change) => ({ path: change.path.join('.'), before: change.before, after: change.after }))
+        .filter((change) => !ignored.has(change.path));
+      if (fields.length > 0) entries.push({ id, kind, status: 'modified', type, fields });
+    }
+  }
+
+  entries.sort((left, right) => STATUS_ORDER[left.status] - STATUS_ORDER[right.status] || left.id.localeCompare(right.id));
+  const idsWith = (status: TCanvasDiffStatus) => entries.filter((entry) => entry.status === status).map((entry) => entry.id);
+
+  return {
+    entries,
+    addedIds: idsWith('added'),
+    removedIds: idsWith('removed'),
+    modifiedIds: idsWith('modified'),
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/** One line per field change, e.g. `x: 0 -> 10`. */
+export function fnFormatCanvasDiffField(change: TCanvasDiffFieldChange): string {
+  return `${change.path}: ${formatValue(change.before)} -> ${formatValue(change.after)}`;
+}
+
+/** Summary line of one entry: `+` added, `-` removed, `~` modified with its field changes. */
+export function fnFormatCanvasDiffEntry(entry: TCanvasDiffEntry): string {
+  const marker = entry.status === 'added' ? '+' : entry.status === 'removed' ? '-' : '~';
+  const subject = entry.type ? `${entry.kind} ${entry.type}` : entry.kind;
+  const fields = entry.fields.map(fnFormatCanvasDiffField).join(', ');
+  return `${marker} ${subject} id=${entry.id}${fields ? ` ${fields}` : ''}`;
+}
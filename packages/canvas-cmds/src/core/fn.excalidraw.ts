@@ -0,0 +1,645 @@
+import type { TArrowData, TBinding, TCanvasDoc, TElement, TElementStyle, TGroup, TLineData, TPoint2D, TTextData } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { fnFindBindingTarget, fnSnapAnchorToEdge, type TConnectorPoint } from './fn.connector';
+import { fnIsPlainObject } from './fn.guard';
+import { fnCollectExportElements } from './fn.svg-export';
+
+/**
+ * Subset of the Excalidraw element schema read by the importer and written by the exporter.
+ * See https://docs.excalidraw.com/docs/codebase/json-schema.
+ */
+export type TExcalidrawElement = {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+  strokeColor: string;
+  backgroundColor: string;
+  fillStyle: string;
+  strokeWidth: number;
+  strokeStyle: string;
+  roughness: number;
+  opacity: number;
+  groupIds: string[];
+  frameId: string | null;
+  roundness: { type: number; value?: number } | null;
+  seed: number;
+  version: number;
+  versionNonce: number;
+  isDeleted: boolean;
+  boundElements: Array<{ id: string; type: 'arrow' | 'text' }> | null;
+  updated: number;
+  link: string | null;
+  locked: boolean;
+  [key: string]: unknown;
+};
+
+export type TExcalidrawBinding = {
+  elementId: string;
+  focus: number;
+  gap: number;
+  fixedPoint?: [number, number] | null;
+};
+
+export type TExcalidrawFile = {
+  id: string;
+  mimeType: string;
+  dataURL: string;
+  created: number;
+  lastRetrieved?: number;
+};
+
+export type TExcalidrawScene = {
+  type: 'excalidraw';
+  version: number;
+  source: string;
+  elements: TExcalidrawElement[];
+  appState: { viewBackgroundColor?: string; gridSize?: number | null; [key: string]: unknown };
+  files: Record<string, TExcalidrawFile>;
+};
+
+/** Image file referenced by an Excalidraw `fileId`, already stored where the canvas can load it. */
+export type TExcalidrawImportFile = {
+  url: string;
+  naturalWidth: number;
+  naturalHeight: number;
+};
+
+export type TExcalidrawImportOptions = {
+  /** First ordered zIndex number to assign, usually one above the highest index already in the canvas. */
+  zIndexStart: number;
+  now: number;
+  createId: () => string;
+  files?: Readonly<Record<string, TExcalidrawImportFile>>;
+};
+
+export type TExcalidrawSkippedElement = {
+  id: string;
+  type: string;
+  reason: string;
+};
+
+export type TExcalidrawImportResult = {
+  elements: Record<string, TElement>;
+  groups: Record<string, TGroup>;
+  /** Excalidraw element/group id to the canvas id it was imported as. */
+  idMap: Record<string, string>;
+  skipped: TExcalidrawSkippedElement[];
+};
+
+export type TExcalidrawExportOptions = {
+  ids?: readonly string[] | null;
+  /** CSS color written to `appState.viewBackgroundColor`. */
+  background?: string | null;
+  /** Image data URLs by element id, e.g. resolved from `/files/...` urls. */
+  imageDataUrls?: Readonly<Record<string, string>>;
+  now: number;
+};
+
+export type TExcalidrawExportResult = {
+  scene: TExcalidrawScene;
+  elementIds: string[];
+  skippedIds: string[];
+};
+
+export const EXCALIDRAW_MIME_TYPE = 'application/vnd.excalidraw+json';
+
+const EXCALIDRAW_SOURCE = 'vibecanvas';
+const EXCALIDRAW_DEFAULT_BACKGROUND = '#ffffff';
+const EXCALIDRAW_DEFAULT_LINE_HEIGHT = 1.25;
+const EXCALIDRAW_FREEDRAW_SIZE_RATIO = 4.25;
+const EXCALIDRAW_FONT_NORMAL = 2;
+const EXCALIDRAW_FONT_CODE = 3;
+const EXCALIDRAW_MONOSPACE_FONTS = new Set([3, 8]);
+const CANVAS_SANS_FONT = 'Arial, sans-serif';
+const CANVAS_MONO_FONT = 'monospace';
+const SHAPE1D_DEFAULT_STROKE_COLOR = '#0f172a';
+const SHAPE1D_DEFAULT_STROKE_WIDTH = 4;
+const SHAPE2D_DEFAULT_STROKE_WIDTH = 2;
+const PEN_DEFAULT_STROKE_WIDTH = 7;
+const TEXT_DEFAULT_COLOR = '#000000';
+
+function createOrderedZIndex(index: number): string {
+  return `z${String(index).padStart(8, '0')}`;
+}
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number) {
+  return (radians * 180) / Math.PI;
+}
+
+function rotate(point: TConnectorPoint, origin: TConnectorPoint, radians: number): TConnectorPoint {
+  if (!radians) return point;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  return { x: origin.x + dx * cos - dy * sin, y: origin.y + dx * sin + dy * cos };
+}
+
+function readNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function readPoints(value: unknown): TPoint2D[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((point): point is [number, number] => Array.isArray(point) && typeof point[0] === 'number' && typeof point[1] === 'number')
+    .map(([x, y]) => [x, y]);
+}
+
+/**
+ * Parses `.excalidraw` file content (or an Excalidraw clipboard payload).
+ * Returns null when the content is not an Excalidraw scene.
+ */
+export function fnParseExcalidrawScene(content: string): TExcalidrawScene | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (!fnIsPlainObject(parsed) || (parsed.type !== 'excalidraw' && parsed.type !== 'excalidraw/clipboard') || !Array.isArray(parsed.elements)) return null;
+
+  const elements = parsed.elements.filter((element): element is TExcalidrawElement => fnIsPlainObject(element) && typeof element.id === 'string' && typeof element.type === 'string');
+  const files = fnIsPlainObject(parsed.files) ? parsed.files as Record<string, TExcalidrawFile> : {};
+
+  return {
+    type: 'excalidraw',
+    version: readNumber(parsed.version, 2),
+    source: readString(parsed.source) ?? '',
+    elements,
+    appState: fnIsPlainObject(parsed.appState) ? parsed.appState : {},
+    files,
+  };
+}
+
+function importStyle(element: TExcalidrawElement, kind: 'shape2d' | 'shape1d' | 'pen' | 'text' | 'image'): TElementStyle {
+  const style: TElementStyle = {};
+  const strokeColor = readString(element.strokeColor);
+  const backgroundColor = readString(element.backgroundColor);
+  const strokeWidth = readNumber(element.strokeWidth, 1);
+
+  if (strokeColor && strokeColor !== 'transparent' && kind !== 'image') style.strokeColor = strokeColor;
+  if (backgroundColor && backgroundColor !== 'transparent' && kind === 'shape2d') style.backgroundColor = backgroundColor;
+  if (kind === 'shape2d' || kind === 'shape1d') style.strokeWidth = strokeWidth;
+  if (kind === 'pen') style.strokeWidth = Math.round(strokeWidth * EXCALIDRAW_FREEDRAW_SIZE_RATIO * 100) / 100;
+  style.opacity = Math.min(1, Math.max(0, readNumber(element.opacity, 100) / 100));
+  return style;
+}
+
+function importFontFamily(value: unknown): string {
+  return typeof value === 'number' && EXCALIDRAW_MONOSPACE_FONTS.has(value) ? CANVAS_MONO_FONT : CANVAS_SANS_FONT;
+}
+
+function importCap(value: unknown): TArrowData['startCap'] {
+  if (typeof value !== 'string') return 'none';
+  if (value === 'arrow' || value.startsWith('triangle')) return 'arrow';
+  if (value === 'dot' || value.startsWith('circle')) return 'dot';
+  if (value.startsWith('diamond')) return 'diamond';
+  return 'none';
+}
+
+/**
+ * Excalidraw rotates every element around its center; boxes here rotate around their top-left corner.
+ */
+function importBoxPosition(element: TExcalidrawElement, w: number, h: number): { x: number; y: number } {
+  const angle = readNumber(element.angle, 0);
+  const center = { x: element.x + w / 2, y: element.y + h / 2 };
+  const corner = rotate({ x: element.x, y: element.y }, center, angle);
+  return { x: corner.x, y: corner.y };
+}
+
+/**
+ * Bakes the rotation of a point based element into its points, anchored at the first point.
+ */
+function importWorldPoints(element: TExcalidrawElement): TConnectorPoint[] {
+  const points = readPoints(element.points);
+  if (points.length === 0) return [];
+  const angle = readNumber(element.angle, 0);
+  const xs = points.map((point) => point[0]);
+  const ys = points.map((point) => point[1]);
+  const center = { x: element.x + (Math.min(...xs) + Math.max(...xs)) / 2, y: element.y + (Math.min(...ys) + Math.max(...ys)) / 2 };
+  return points.map(([x, y]) => rotate({ x: element.x + x, y: element.y + y }, center, angle));
+}
+
+function toRelativePoints(points: readonly TConnectorPoint[]): TPoint2D[] {
+  const origin = points[0]!;
+  return points.map((point) => [point.x - origin.x, point.y - origin.y]);
+}
+
+function importData(element: TExcalidrawElement, files: Readonly<Record<string, TExcalidrawImportFile>>): { data: TElement['data']; style: TElementStyle; x: number; y: number; rotation: number } | string {
+  const w = Math.max(0, readNumber(element.width, 0));
+  const h = Math.max(0, readNumber(element.height, 0));
+  const rotation = toDegrees(readNumber(element.angle, 0));
+
+  if (element.type === 'rectangle' || element.type === 'diamond') {
+    const data = element.type === 'rectangle' ? { type: 'rect' as const, w, h } : { type: 'diamond' as const, w, h };
+    return { data, style: importStyle(element, 'shape2d'), ...importBoxPosition(element, w, h), rotation };
+  }
+
+  if (element.type === 'ellipse') {
+    return { data: { type: 'ellipse', rx: w / 2, ry: h / 2 }, style: importStyle(element, 'shape2d'), x: element.x, y: element.y, rotation };
+  }
+
+  if (element.type === 'text') {
+    const text = readString(element.text) ?? '';
+    const textAlign = element.textAlign === 'center' || element.textAlign === 'right' ? element.textAlign : 'left';
+    const verticalAlign = element.verticalAlign === 'middle' || element.verticalAlign === 'bottom' ? element.verticalAlign : 'top';
+    const data: TTextData = {
+      type: 'text',
+      w,
+      h,
+      text,
+      originalText: readString(element.originalText) ?? text,
+      fontSize: readNumber(element.fontSize, 20),
+      fontFamily: importFontFamily(element.fontFamily),
+      textAlign,
+      verticalAlign,
+      lineHeight: readNumber(element.lineHeight, EXCALIDRAW_DEFAULT_LINE_HEIGHT),
+      link: readString(element.link),
+      containerId: null,
+      autoResize: typeof element.autoResize === 'boolean' ? element.autoResize : true,
+    };
+    return { data, style: importStyle(element, 'text'), ...importBoxPosition(element, w, h), rotation };
+  }
+
+  if (element.type === 'image') {
+    const file = typeof element.fileId === 'string' ? files[element.fileId] : undefined;
+    if (!file) return 'image file is missing or unsupported';
+    const crop = fnIsPlainObject(element.crop) ? element.crop : null;
+    return {
+      data: {
+        type: 'image',
+        url: file.url,
+        base64: null,
+        w,
+        h,
+        crop: {
+          x: readNumber(crop?.x, 0),
+          y: readNumber(crop?.y, 0),
+          width: readNumber(crop?.width, file.naturalWidth),
+          height: readNumber(crop?.height, file.naturalHeight),
+          naturalWidth: file.naturalWidth,
+          naturalHeight: file.naturalHeight,
+        },
+      },
+      style: importStyle(element, 'image'),
+      ...importBoxPosition(element, w, h),
+      rotation,
+    };
+  }
+
+  if (element.type === 'line' || element.type === 'arrow') {
+    const worldPoints = importWorldPoints(element);
+    if (worldPoints.length < 2) return 'line has fewer than two points';
+    const base = {
+      lineType: element.roundness && !element.elbowed ? 'curved' as const : 'straight' as const,
+      points: toRelativePoints(worldPoints),
+      startBinding: null,
+      endBinding: null,
+    };
+    const data: TLineData | TArrowData = element.type === 'line'
+      ? { type: 'line', ...base }
+      : { type: 'arrow', ...base, startCap: importCap(element.startArrowhead), endCap: importCap(element.endArrowhead) };
+    return { data, style: importStyle(element, 'shape1d'), x: worldPoints[0]!.x, y: worldPoints[0]!.y, rotation: 0 };
+  }
+
+  if (element.type === 'freedraw') {
+    const worldPoints = importWorldPoints(element);
+    if (worldPoints.length === 0) return 'freedraw has no points';
+    const pressures = Array.isArray(element.pressures) ? element.pressures.filter((value): value is number => typeof value === 'number') : [];
+    return {
+      data: { type: 'pen', points: toRelativePoints(worldPoints), pressures, simulatePressure: element.simulatePressure !== false || pressures.length === 0 },
+      style: importStyle(element, 'pen'),
+      x: worldPoints[0]!.x,
+      y: worldPoints[0]!.y,
+      rotation: 0,
+    };
+  }
+
+  return `unsupported element type '${element.type}'`;
+}
+
+function importBinding(value: unknown, endpoint: TConnectorPoint, elements: Readonly<Record<string, TElement>>, idMap: Readonly<Record<string, string>>): TBinding | null {
+  if (!fnIsPlainObject(value) || typeof value.elementId !== 'string') return null;
+  const targetId = idMap[value.elementId];
+  const target = targetId ? elements[targetId] : undefined;
+  if (!target) return null;
+
+  const fixedPoint = value.fixedPoint;
+  if (Array.isArray(fixedPoint) && typeof fixedPoint[0] === 'number' && typeof fixedPoint[1] === 'number') {
+    return { targetId: target.id, anchor: fnSnapAnchorToEdge({ x: fixedPoint[0], y: fixedPoint[1] }) };
+  }
+
+  return fnFindBindingTarget({ elements: [target], point: endpoint, padding: Number.POSITIVE_INFINITY });
+}
+
+/**
+ * Converts an Excalidraw scene into canvas elements and groups with fresh ids.
+ * Paint order follows the scene order, arrow bindings and bound text containers are preserved,
+ * and nested `groupIds` become a group hierarchy. Image elements need their `fileId` resolved in `options.files`.
+ */
+export function fnExcalidrawToCanvas(scene: TExcalidrawScene, options: TExcalidrawImportOptions): TExcalidrawImportResult {
+  const files = options.files ?? {};
+  const elements: Record<string, TElement> = {};
+  const groups: Record<string, TGroup> = {};
+  const idMap: Record<string, string> = {};
+  const skipped: TExcalidrawSkippedElement[] = [];
+  const sources: Array<{ source: TExcalidrawElement; element: TElement }> = [];
+  let zIndex = options.zIndexStart;
+
+  for (const source of scene.elements) {
+    if (source.isDeleted === true) continue;
+
+    const converted = importData(source, files);
+    if (typeof converted === 'string') {
+      skipped.push({ id: source.id, type: source.type, reason: converted });
+      continue;
+    }
+
+    const element: TElement = {
+      id: options.createId(),
+      x: converted.x,
+      y: converted.y,
+      rotation: converted.rotation,
+      zIndex: createOrderedZIndex(zIndex),
+      parentGroupId: null,
+      bindings: [],
+      locked: source.locked === true,
+      createdAt: options.now,
+      updatedAt: options.now,
+      data: converted.data,
+      style: converted.style,
+    };
+    zIndex += 1;
+    idMap[source.id] = element.id;
+    elements[element.id] = element;
+    sources.push({ source, element });
+  }
+
+  for (const { source, element } of sources) {
+    const groupIds = Array.isArray(source.groupIds) ? source.groupIds.filter((groupId): groupId is string => typeof groupId === 'string') : [];
+    groupIds.forEach((groupId, index) => {
+      idMap[groupId] ??= options.createId();
+      const id = idMap[groupId]!;
+      const parentGroupId = groupIds[index + 1];
+      if (parentGroupId) idMap[parentGroupId] ??= options.createId();
+      const existing = groups[id];
+      if (existing) {
+        if (element.zIndex < existing.zIndex) existing.zIndex = element.zIndex;
+        return;
+      }
+      groups[id] = { id, parentGroupId: parentGroupId ? idMap[parentGroupId]! : null, zIndex: element.zIndex, locked: false, createdAt: options.now };
+    });
+    element.parentGroupId = groupIds[0] ? idMap[groupIds[0]]! : null;
+
+    if (element.data.type === 'text' && typeof source.containerId === 'string') {
+      const containerId = idMap[source.containerId];
+      element.data.containerId = containerId && elements[containerId] ? containerId : null;
+    }
+
+    if (element.data.type === 'line' || element.data.type === 'arrow') {
+      const first = element.data.points[0]!;
+      const last = element.data.points[element.data.points.length - 1]!;
+      element.data.startBinding = importBinding(source.startBinding, { x: element.x + first[0], y: element.y + first[1] }, elements, idMap);
+      element.data.endBinding = importBinding(source.endBinding, { x: element.x + last[0], y: element.y + last[1] }, elements, idMap);
+    }
+  }
+
+  return { elements, groups, idMap, skipped };
+}
+
+/** Stable pseudo-random seed so repeated exports of the same element stay identical. */
+function seedFromId(id: string): number {
+  let hash = 2166136261;
+  for (let index = 0; index < id.length; index += 1) {
+    hash ^= id.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) % 2147483647;
+}
+
+function getGroupIds(doc: TCanvasDoc, element: TElement): string[] {
+  const groupIds: string[] = [];
+  let groupId = element.parentGroupId;
+  while (groupId && doc.groups[groupId] && !groupIds.includes(groupId)) {
+    groupIds.push(groupId);
+    groupId = doc.groups[groupId]!.parentGroupId;
+  }
+  return groupIds;
+}
+
+function exportBase(doc: TCanvasDoc, element: TElement, box: { x: number; y: number; width: number; height: number; angle: number }): TExcalidrawElement {
+  const style = element.style;
+  return {
+    id: element.id,
+    type: '',
+    ...box,
+    strokeColor: style.strokeColor ?? 'transparent',
+    backgroundColor: style.backgroundColor ?? 'transparent',
+    fillStyle: 'solid',
+    strokeWidth: style.strokeWidth ?? SHAPE2D_DEFAULT_STROKE_WIDTH,
+    strokeStyle: 'solid',
+    roughness: 0,
+    opacity: Math.round((style.opacity ?? 1) * 100),
+    groupIds: getGroupIds(doc, element),
+    frameId: null,
+    roundness: null,
+    seed: seedFromId(element.id),
+    version: 1,
+    versionNonce: seedFromId(`${element.id}:${element.updatedAt}`),
+    isDeleted: false,
+    boundElements: null,
+    updated: element.updatedAt,
+    link: null,
+    locked: element.locked,
+  };
+}
+
+/**
+ * Boxes rotate around their top-left corner here; Excalidraw expects the unrotated box of a center rotation.
+ */
+function exportBox(element: TElement, w: number, h: number) {
+  const radians = toRadians(element.rotation);
+  const center = rotate({ x: element.x + w / 2, y: element.y + h / 2 }, { x: element.x, y: element.y }, radians);
+  return { x: center.x - w / 2, y: center.y - h / 2, width: w, height: h, angle: radians };
+}
+
+function exportPoints(element: TElement, points: readonly TPoint2D[]) {
+  const radians = toRadians(element.rotation);
+  const origin = { x: element.x, y: element.y };
+  const world = points.map(([x, y]) => rotate({ x: element.x + x, y: element.y + y }, origin, radians));
+  const first = world[0] ?? origin;
+  const relative = world.map((point) => [point.x - first.x, point.y - first.y] as [number, number]);
+  const xs = relative.map((point) => point[0]);
+  const ys = relative.map((point) => point[1]);
+  return {
+    box: { x: first.x, y: first.y, width: Math.max(0, ...xs) - Math.min(0, ...xs), height: Math.max(0, ...ys) - Math.min(0, ...ys), angle: 0 },
+    points: relative,
+  };
+}
+
+function exportCap(cap: TArrowData['startCap']): string | null {
+  return cap === 'none' ? null : cap;
+}
+
+function exportBinding(binding: TBinding | null, exportedIds: ReadonlySet<string>): TExcalidrawBinding | null {
+  if (!binding || !exportedIds.has(binding.targetId)) return null;
+  return { elementId: binding.targetId, focus: 0, gap: 0, fixedPoint: [binding.anchor.x, binding.anchor.y] };
+}
+
+function exportElement(doc: TCanvasDoc, element: TElement, exportedIds: ReadonlySet<string>, imageFileIds: Readonly<Record<string, string>>): TExcalidrawElement | null {
+  const data = element.data;
+
+  if (data.type === 'rect' || data.type === 'diamond') {
+    return { ...exportBase(doc, element, exportBox(element, data.w, data.h)), type: data.type === 'rect' ? 'rectangle' : 'diamond' };
+  }
+
+  if (data.type === 'ellipse') {
+    return { ...exportBase(doc, element, { x: element.x, y: element.y, width: data.rx * 2, height: data.ry * 2, angle: toRadians(element.rotation) }), type: 'ellipse' };
+  }
+
+  if (data.type === 'text') {
+    const base = exportBase(doc, element, exportBox(element, data.w, data.h));
+    return {
+      ...base,
+      type: 'text',
+      strokeColor: element.style.strokeColor ?? TEXT_DEFAULT_COLOR,
+      text: data.text,
+      originalText: data.originalText,
+      fontSize: data.fontSize,
+      fontFamily: data.fontFamily.includes('mono') ? EXCALIDRAW_FONT_CODE : EXCALIDRAW_FONT_NORMAL,
+      textAlign: data.textAlign,
+      verticalAlign: data.verticalAlign,
+      lineHeight: data.lineHeight,
+      containerId: data.containerId && exportedIds.has(data.containerId) ? data.containerId : null,
+      autoResize: data.autoResize,
+      link: data.link,
+    };
+  }
+
+  if (data.type === 'image') {
+    const fileId = imageFileIds[element.id];
+    if (!fileId) return null;
+    const isCropped = data.crop.naturalWidth > 0 && data.crop.naturalHeight > 0
+      && (data.crop.x !== 0 || data.crop.y !== 0 || data.crop.width !== data.crop.naturalWidth || data.crop.height !== data.crop.naturalHeight);
+    return {
+      ...exportBase(doc, element, exportBox(element, data.w, data.h)),
+      type: 'image',
+      fileId,
+      status: 'saved',
+      scale: [1, 1],
+      crop: isCropped ? { ...data.crop } : null,
+    };
+  }
+
+  if (data.type === 'line' || data.type === 'arrow') {
+    const { box, points } = exportPoints(element, data.points);
+    const base = exportBase(doc, element, box);
+    const line = {
+      ...base,
+      type: data.type,
+      strokeColor: element.style.strokeColor ?? element.style.backgroundColor ?? SHAPE1D_DEFAULT_STROKE_COLOR,
+      backgroundColor: 'transparent',
+      strokeWidth: element.style.strokeWidth ?? SHAPE1D_DEFAULT_STROKE_WIDTH,
+      roundness: data.lineType === 'curved' ? { type: 2 } : null,
+      points,
+      lastCommittedPoint: null,
+      startBinding: exportBinding(data.startBinding, exportedIds),
+      endBinding: exportBinding(data.endBinding, exportedIds),
+    };
+    if (data.type === 'line') return { ...line, startArrowhead: null, endArrowhead: null };
+    return { ...line, startArrowhead: exportCap(data.startCap), endArrowhead: exportCap(data.endCap), elbowed: false };
+  }
+
+  if (data.type === 'pen') {
+    const { box, points } = exportPoints(element, data.points);
+    return {
+      ...exportBase(doc, element, box),
+      type: 'freedraw',
+      strokeColor: element.style.backgroundColor ?? element.style.strokeColor ?? SHAPE1D_DEFAULT_STROKE_COLOR,
+      backgroundColor: 'transparent',
+      strokeWidth: Math.max(1, Math.round(((element.style.strokeWidth ?? PEN_DEFAULT_STROKE_WIDTH) / EXCALIDRAW_FREEDRAW_SIZE_RATIO) * 100) / 100),
+      points,
+      pressures: [...data.pressures],
+      simulatePressure: data.simulatePressure,
+      lastCommittedPoint: null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Converts a canvas, or the selected element/group ids, into an Excalidraw scene.
+ * Element and group ids are kept so bindings and containers line up; widgets have no Excalidraw
+ * counterpart and are reported in `skippedIds`.
+ */
+export function fnCanvasToExcalidraw(doc: TCanvasDoc, options: TExcalidrawExportOptions): TExcalidrawExportResult {
+  const candidates = fnCollectExportElements(doc, options.ids);
+  const imageDataUrls = options.imageDataUrls ?? {};
+  const files: Record<string, TExcalidrawFile> = {};
+  const imageFileIds: Record<string, string> = {};
+  const fileIdsByDataUrl = new Map<string, string>();
+
+  for (const element of candidates) {
+    if (element.data.type !== 'image') continue;
+    const dataUrl = imageDataUrls[element.id] ?? (element.data.base64?.startsWith('data:') ? element.data.base64 : element.data.base64 ? `data:image/png;base64,${element.data.base64}` : null);
+    const mimeType = dataUrl?.match(/^data:([^;,]+)/)?.[1];
+    if (!dataUrl || !mimeType) continue;
+
+    const fileId = fileIdsByDataUrl.get(dataUrl) ?? element.id;
+    fileIdsByDataUrl.set(dataUrl, fileId);
+    imageFileIds[element.id] = fileId;
+    files[fileId] ??= { id: fileId, mimeType, dataURL: dataUrl, created: options.now, lastRetrieved: options.now };
+  }
+
+  const exportable = candidates.filter((element) => element.data.type !== 'image' || imageFileIds[element.id]);
+  const exportedIds = new Set(exportable.map((element) => element.id));
+  const exported: TExcalidrawElement[] = [];
+  const skippedIds: string[] = [];
+
+  for (const element of exportable) {
+    const converted = exportElement(doc, element, exportedIds, imageFileIds);
+    if (converted) exported.push(converted);
+    else skippedIds.push(element.id);
+  }
+  skippedIds.push(...candidates.filter((element) => !exportedIds.has(element.id)).map((element) => element.id));
+
+  const exportedById = new Map(exported.map((element) => [element.id, element]));
+  const addBoundElement = (targetId: string, bound: { id: string; type: 'arrow' | 'text' }) => {
+    const target = exportedById.get(targetId);
+    if (!target) return;
+    target.boundElements = [...(target.boundElements ?? []), bound];
+  };
+  for (const element of exported) {
+    if (element.type === 'text' && typeof element.containerId === 'string') addBoundElement(element.containerId, { id: element.id, type: 'text' });
+    for (const binding of [element.startBinding, element.endBinding] as Array<TExcalidrawBinding | null | undefined>) {
+      if (binding && !exportedById.get(binding.elementId)?.boundElements?.some((bound) => bound.id === element.id)) addBoundElement(binding.elementId, { id: element.id, type: 'arrow' });
+    }
+  }
+
+  return {
+    scene: {
+      type: 'excalidraw',
+      version: 2,
+      source: EXCALIDRAW_SOURCE,
+      elements: exported,
+      appState: { viewBackgroundColor: options.background ?? EXCALIDRAW_DEFAULT_BACKGROUND, gridSize: null },
+      files,
+    },
+    elementIds: exported.map((element) => element.id),
+    skippedIds,
+  };
+}
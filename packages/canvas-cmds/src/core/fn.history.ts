@@ -0,0 +1,456 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { TCanvasDoc, TPresentationSlide } from '@vibecanvas/service-automerge/types/canvas-doc';
+
+export type TCanvasChangeAction = 'edit' | 'undo' | 'redo';
+
+/** JSON payload stored as the Automerge change message of every tagged canvas change. */
+export type TCanvasChangeMessage = {
+  /** Who made the change, e.g. `cli:<session>` or `web:<client-id>`. */
+  origin: string;
+  action: TCanvasChangeAction;
+  /** Command or tool that made the change, e.g. `canvas.move`. */
+  label?: string | null;
+  /** Hash of the change an undo or redo reverted. */
+  target?: string | null;
+};
+
+export type TCanvasChangeLogEntry = {
+  hash: string;
+  time: number;
+  message: TCanvasChangeMessage;
+};
+
+export type TCanvasUndoStacks = {
+  undo: TCanvasChangeLogEntry[];
+  redo: TCanvasChangeLogEntry[];
+};
+
+type TCollection = 'elements' | 'groups';
+
+/**
+ * One value to restore; `path` is relative to the entity and an empty path replaces the whole entity.
+ * The presentation's slide list is restored as a whole, under collection `presentation` and id `slides`.
+ */
+export type TCanvasRevertOp = {
+  collection: TCollection | 'presentation';
+  id: string;
+  path: string[];
+  /** `undefined` removes the key (or the entity). */
+  value: unknown;
+};
+
+export type TCanvasRevertPlan = {
+  ops: TCanvasRevertOp[];
+  changedIds: string[];
+  /** Entities with at least one value changed again after the reverted changes; those values are left alone. */
+  skippedIds: string[];
+};
+
+/** One Automerge change of a canvas doc, tagged or not. */
+export type TCanvasHistoryChange = {
+  hash: string;
+  actor: string;
+  /** Seconds since the epoch, as stored by Automerge. */
+  time: number;
+  deps: string[];
+  origin: string | null;
+  action: TCanvasChangeAction | null;
+  label: string | null;
+};
+
+/** Consecutive changes of one origin (or untagged actor) made close together. */
+export type TCanvasHistoryGroup = {
+  /** Doc heads right after the group's last change; preview or restore this state with them. */
+  heads: string[];
+  actor: string;
+  origin: string | null;
+  startTime: number;
+  endTime: number;
+  changeCount: number;
+  /** Distinct labels of the group's tagged changes, oldest first. */
+  labels: string[];
+  hashes: string[];
+};
+
+export type TCanvasRestorePlan = TCanvasRevertPlan & {
+  /** Ids that exist at the restore point but not now. */
+  recreatedIds: string[];
+  /** Ids that exist now but not at the restore point. */
+  removedIds: string[];
+  updatedIds: string[];
+  /** Requested ids found neither now nor at the restore point. */
+  missingIds: string[];
+};
+
+const COLLECTIONS: TCollection[] = ['elements', 'groups'];
+const PRESENTATION_SLIDES_ID = 'slides';
+export const CANVAS_HISTORY_DEFAULT_WINDOW_SECONDS = 300;
+const CLI_DEFAULT_SESSION = 'default';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDeepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((value, index) => isDeepEqual(value, right[index]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every((key) => isDeepEqual(left[key], right[key]));
+  }
+  return false;
+}
+
+function toPlain<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value)) as T;
+}
+
+function readPath(root: unknown, path: string[]): unknown {
+  let current = root;
+  for (const key of path) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function writePath(root: Record<string, unknown>, path: string[], value: unknown): void {
+  let current = root;
+  for (const key of path.slice(0, -1)) {
+    if (!isPlainObject(current[key])) current[key] = {};
+    current = current[key] as Record<string, unknown>;
+  }
+  const last = path.at(-1)!;
+  if (value === undefined) delete current[last];
+  else current[last] = toPlain(value);
+}
+
+/** Leaf values that differ between two states. Objects are walked; arrays and scalars are leaves. */
+export function fnCollectLeafChanges(before: unknown, after: unknown, path: string[], out: Array<{ path: string[]; before: unknown; after: unknown }>): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) fnCollectLeafChanges(before[key], after[key], [...path, key], out);
+    return;
+  }
+  if (!isDeepEqual(before, after)) out.push({ path, before, after });
+}
+
+/** Origin of changes made by one CLI session or agent; sessions without an id share `cli:default`. */
+export function fnResolveCanvasChangeOrigin(session?: string | null): string {
+  return `cli:${session?.trim() || CLI_DEFAULT_SESSION}`;
+}
+
+export function fnEncodeCanvasChangeMessage(message: TCanvasChangeMessage): string {
+  return JSON.stringify(message);
+}
+
+export function fnParseCanvasChangeMessage(raw: string | null | undefined): TCanvasChangeMessage | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<TCanvasChangeMessage> | null;
+    if (!isPlainObject(parsed) || typeof parsed.origin !== 'string') return null;
+    if (parsed.action !== 'edit' && parsed.action !== 'undo' && parsed.action !== 'redo') return null;
+    return {
+      origin: parsed.origin,
+      action: parsed.action,
+      label: typeof parsed.label === 'string' ? parsed.label : null,
+      target: typeof parsed.target === 'string' ? parsed.target : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Change options for `handle.change` so the change shows up in its origin's undo log. */
+export function fnBuildCanvasChangeOptions(message: TCanvasChangeMessage): { message: string } {
+  return { message: fnEncodeCanvasChangeMessage(message) };
+}
+
+/** Options for a CLI command's single `handle.change`. */
+export function fnBuildCanvasEditChangeOptions(session: string | null | undefined, label: string): { message: string } {
+  return fnBuildCanvasChangeOptions({ origin: fnResolveCanvasChangeOrigin(session), action: 'edit', label });
+}
+
+/** Every tagged change of the doc in causal order. Untagged changes (older clients, sync merges) are skipped. */
+export function fnReadCanvasChangeLog(doc: Automerge.Doc<TCanvasDoc>): TCanvasChangeLogEntry[] {
+  return Automerge.getChangesMetaSince(doc, []).flatMap((change) => {
+    const message = fnParseCanvasChangeMessage(change.message);
+    return message ? [{ hash: change.hash, time: change.time, message }] : [];
+  });
+}
+
+/**
+ * Replays one origin's change log into undo and redo stacks. Edits push onto the undo stack and
+ * clear redo; an undo moves its target to the redo stack as the undo change itself, so redoing
+ * reverts the undo, and a redo moves back the other way.
+ */
+export function fnBuildCanvasUndoStacks(log: readonly TCanvasChangeLogEntry[], origin: string): TCanvasUndoStacks {
+  const undo: TCanvasChangeLogEntry[] = [];
+  const redo: TCanvasChangeLogEntry[] = [];
+  const removeTarget = (stack: TCanvasChangeLogEntry[], target: string | null | undefined) => {
+    const index = stack.findLastIndex((entry) => entry.hash === target);
+    if (index >= 0) stack.splice(index, 1);
+  };
+
+  for (const entry of log) {
+    if (entry.message.origin !== origin) continue;
+    if (entry.message.action === 'edit') {
+      undo.push(entry);
+      redo.length = 0;
+    } else if (entry.message.action === 'undo') {
+      removeTarget(undo, entry.message.target);
+      redo.push(entry);
+    } else {
+      removeTarget(redo, entry.message.target);
+      undo.push(entry);
+    }
+  }
+
+  return { undo, redo };
+}
+
+/**
+ * Plans how to revert changes using the doc's own history: for every change, the state before
+ * (its deps) and after it is diffed, and each changed value is restored only while the current
+ * doc still holds the value that change wrote. Values someone else changed since are skipped, so
+ * only the reverted changes' own edits are undone. Hashes are reverted newest first.
+ */
+export function fnPlanCanvasRevert(doc: Automerge.Doc<TCanvasDoc>, hashes: readonly string[]): TCanvasRevertPlan {
+  const working: Record<TCollection, Record<string, unknown>> = {
+    elements: toPlain(doc.elements ?? {}) as Record<string, unknown>,
+    groups: toPlain(doc.groups ?? {}) as Record<string, unknown>,
+  };
+  let workingSlides = toPlain(doc.presentation?.slides);
+  const ops: TCanvasRevertOp[] = [];
+  const changedIds = new Set<string>();
+  const skippedIds = new Set<string>();
+  const metas = Automerge.getChangesMetaSince(doc, []);
+
+  for (const hash of [...hashes].reverse()) {
+    const meta = metas.find((change) => change.hash === hash);
+    if (!meta) continue;
+    const before = Automerge.view(doc, meta.deps);
+    const after = Automerge.view(doc, [hash]);
+
+    for (const collection of COLLECTIONS) {
+      const beforeItems = toPlain(before[collection] ?? {}) as Record<string, unknown>;
+      const afterItems = toPlain(after[collection] ?? {}) as Record<string, unknown>;
+      const ids = new Set([...Object.keys(beforeItems), ...Object.keys(afterItems)]);
+
+      for (const id of [...ids].sort()) {
+        const changes: Array<{ path: string[]; before: unknown; after: unknown }> = [];
+        if (beforeItems[id] === undefined || afterItems[id] === undefined) {
+          if (!isDeepEqual(beforeItems[id], afterItems[id])) changes.push({ path: [], before: beforeItems[id], after: afterItems[id] });
+        } else {
+          fnCollectLeafChanges(beforeItems[id], afterItems[id], [], changes);
+        }
+
+        for (const change of changes) {
+          const current = change.path.length === 0 ? working[collection][id] : readPath(working[collection][id], change.path);
+          if (!isDeepEqual(current, change.after) || (change.path.length > 0 && working[collection][id] === undefined)) {
+            skippedIds.add(id);
+            continue;
+          }
+
+          if (change.path.length === 0) {
+            if (change.before === undefined) delete working[collection][id];
+            else working[collection][id] = toPlain(change.before);
+          } else {
+            writePath(working[collection][id] as Record<string, unknown>, change.path, change.before);
+          }
+          ops.push({ collection, id, path: change.path, value: toPlain(change.before) });
+          changedIds.add(id);
+        }
+      }
+    }
+
+    // Slides have no ids of their own, so the list is only reverted while nobody changed it since.
+    const beforeSlides = toPlain(before.presentation?.slides);
+    const afterSlides = toPlain(after.presentation?.slides);
+    if (!isDeepEqual(beforeSlides, afterSlides) && isDeepEqual(workingSlides, afterSlides)) {
+      workingSlides = beforeSlides;
+      ops.push({ collection: 'presentation', id: PRESENTATION_SLIDES_ID, path: [], value: beforeSlides });
+    }
+  }
+
+  return {
+    ops,
+    changedIds: [...changedIds].sort(),
+    skippedIds: [...skippedIds].sort(),
+  };
+}
+
+/** Applies a revert plan inside `handle.change`. */
+export function fnApplyCanvasRevert(doc: TCanvasDoc, plan: Pick<TCanvasRevertPlan, 'ops'>): void {
+  for (const op of plan.ops) {
+    if (op.collection === 'presentation') {
+      if (op.value === undefined) delete doc.presentation;
+      else doc.presentation = { slides: toPlain(op.value) as TPresentationSlide[] };
+      continue;
+    }
+    const items = doc[op.collection] as Record<string, unknown>;
+    if (op.path.length === 0) {
+      if (op.value === undefined) delete items[op.id];
+      else items[op.id] = toPlain(op.value);
+      continue;
+    }
+    const entity = items[op.id];
+    if (!isPlainObject(entity)) continue;
+    writePath(entity, op.path, op.value);
+  }
+}
+
+/** Message of the untagged change that points a new fork at its own copies of the image files. */
+export const CANVAS_FORK_FILES_MESSAGE = 'canvas.fork.files';
+
+/**
+ * Image urls rewritten by the fork file changes of `doc` that `target` does not have yet, as fork url
+ * to the url it replaced. Merging a fork maps them back so the target keeps its own image files.
+ */
+export function fnReadCanvasForkFileUrls(doc: Automerge.Doc<TCanvasDoc>, target: Automerge.Doc<TCanvasDoc>): Map<string, string> {
+  const urls = new Map<string, string>();
+
+  for (const change of Automerge.getChangesMetaSince(doc, [])) {
+    if (change.message !== CANVAS_FORK_FILES_MESSAGE || Automerge.hasHeads(target, [change.hash])) continue;
+    const before = Automerge.view(doc, change.deps).elements ?? {};
+    const after = Automerge.view(doc, [change.hash]).elements ?? {};
+    for (const [id, element] of Object.entries(after)) {
+      const previous = before[id]?.data;
+      if (element.data.type !== 'image' || previous?.type !== 'image') continue;
+      if (element.data.url && previous.url && element.data.url !== previous.url) urls.set(element.data.url, previous.url);
+    }
+  }
+
+  return urls;
+}
+
+/** Every change of the doc in causal order, with its tag when it has one. */
+export function fnReadCanvasHistory(doc: Automerge.Doc<TCanvasDoc>): TCanvasHistoryChange[] {
+  return Automerge.getChangesMetaSince(doc, []).map((change) => {
+    const message = fnParseCanvasChangeMessage(change.message);
+    return {
+      hash: change.hash,
+      actor: change.actor,
+      time: change.time,
+      deps: [...change.deps],
+      origin: message?.origin ?? null,
+      action: message?.action ?? null,
+      label: message?.label ?? null,
+    };
+  });
+}
+
+/**
+ * Groups a causal change list into timeline entries. A change joins the previous group when it has
+ * the same origin (or, untagged, the same actor) and was made within `windowSeconds` of it. Each
+ * group's heads are the doc heads once every change up to its last one is applied, so concurrent
+ * changes listed earlier are part of the state it points at.
+ */
+export function fnGroupCanvasHistory(changes: readonly TCanvasHistoryChange[], windowSeconds = CANVAS_HISTORY_DEFAULT_WINDOW_SECONDS): TCanvasHistoryGroup[] {
+  const groups: TCanvasHistoryGroup[] = [];
+  const heads = new Set<string>();
+  let previousKey: string | null = null;
+
+  for (const change of changes) {
+    for (const dep of change.deps) heads.delete(dep);
+    heads.add(change.hash);
+
+    const key = change.origin ?? `actor:${change.actor}`;
+    const current = groups.at(-1);
+    if (current && key === previousKey && change.time - current.endTime <= windowSeconds) {
+      current.endTime = Math.max(current.endTime, change.time);
+      current.changeCount += 1;
+      current.hashes.push(change.hash);
+      if (change.label && !current.labels.includes(change.label)) current.labels.push(change.label);
+      current.heads = [...heads].sort();
+    } else {
+      groups.push({
+        heads: [...heads].sort(),
+        actor: change.actor,
+        origin: change.origin,
+        startTime: change.time,
+        endTime: change.time,
+        changeCount: 1,
+        labels: change.label ? [change.label] : [],
+        hashes: [change.hash],
+      });
+    }
+    previousKey = key;
+  }
+
+  return groups;
+}
+
+/** Ids plus every element and group nested under the listed groups, in either state. */
+function expandRestoreIds(states: readonly Pick<TCanvasDoc, 'elements' | 'groups'>[], ids: readonly string[]): Set<string> {
+  const expanded = new Set(ids);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const state of states) {
+      for (const collection of COLLECTIONS) {
+        for (const [id, item] of Object.entries(state[collection] ?? {})) {
+          if (expanded.has(id) || !item.parentGroupId || !expanded.has(item.parentGroupId)) continue;
+          expanded.add(id);
+          grew = true;
+        }
+      }
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Plans bringing the doc back to its state at `heads`, for the whole canvas or for `ids` and their
+ * group descendants. Only values that differ are written, so restoring is one ordinary change that
+ * can itself be undone. A whole-canvas restore brings back the presentation slides too.
+ */
+export function fnPlanCanvasRestore(doc: Automerge.Doc<TCanvasDoc>, heads: readonly string[], ids?: readonly string[] | null): TCanvasRestorePlan {
+  const past = toPlain(Automerge.view(doc, [...heads]));
+  const current = toPlain({ elements: doc.elements ?? {}, groups: doc.groups ?? {} });
+  const requested = ids && ids.length > 0 ? [...new Set(ids)] : null;
+  const scope = requested ? expandRestoreIds([past, current], requested) : null;
+  const missingIds = (requested ?? []).filter((id) => COLLECTIONS.every((collection) => !past[collection]?.[id] && !current[collection]?.[id]));
+
+  const ops: TCanvasRevertOp[] = [];
+  const recreatedIds = new Set<string>();
+  const removedIds = new Set<string>();
+  const updatedIds = new Set<string>();
+
+  for (const collection of COLLECTIONS) {
+    const pastItems = (past[collection] ?? {}) as Record<string, unknown>;
+    const currentItems = (current[collection] ?? {}) as Record<string, unknown>;
+    const itemIds = new Set([...Object.keys(pastItems), ...Object.keys(currentItems)]);
+
+    for (const id of [...itemIds].sort()) {
+      if (scope && !scope.has(id)) continue;
+      if (pastItems[id] === undefined || currentItems[id] === undefined) {
+        ops.push({ collection, id, path: [], value: pastItems[id] });
+        (pastItems[id] === undefined ? removedIds : recreatedIds).add(id);
+        continue;
+      }
+
+      const changes: Array<{ path: string[]; before: unknown; after: unknown }> = [];
+      fnCollectLeafChanges(currentItems[id], pastItems[id], [], changes);
+      for (const change of changes) ops.push({ collection, id, path: change.path, value: toPlain(change.after) });
+      if (changes.length > 0) updatedIds.add(id);
+    }
+  }
+
+  const pastSlides = past.presentation?.slides;
+  if (!scope && !isDeepEqual(pastSlides, toPlain(doc.presentation?.slides))) {
+    ops.push({ collection: 'presentation', id: PRESENTATION_SLIDES_ID, path: [], value: pastSlides });
+  }
+
+  return {
+    ops,
+    changedIds: [...new Set([...recreatedIds, ...removedIds, ...updatedIds])].sort(),
+    skippedIds: [],
+    recreatedIds: [...recreatedIds].sort(),
+    removedIds: [...removedIds].sort(),
+    updatedIds: [...updatedIds].sort(),
+    missingIds,
+  };
+}
@@ -0,0 +1,106 @@
+export type TImageFileFormat = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+export type TImageSize = { width: number; height: number };
+
+export const IMAGE_FILE_EXTENSIONS: Record<TImageFileFormat, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+const FILE_URL_PATTERN = /^\/files\/([a-f0-9-]{36})\.(jpg|jpeg|png|gif|webp)$/i;
+const FILE_EXTENSION_FORMATS: Record<string, TImageFileFormat> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+export function fnIsImageFileFormat(value: unknown): value is TImageFileFormat {
+  return typeof value === 'string' && value in IMAGE_FILE_EXTENSIONS;
+}
+
+export function fnToFileUrl(id: string, format: TImageFileFormat): string {
+  return `/files/${id}.${IMAGE_FILE_EXTENSIONS[format]}`;
+}
+
+/**
+ * Parses a `/files/<uuid>.<ext>` url served from the local file table.
+ */
+export function fnParseFileUrl(url: string): { id: string; format: TImageFileFormat } | null {
+  const match = url.match(FILE_URL_PATTERN);
+  if (!match?.[1] || !match[2]) return null;
+  return { id: match[1], format: FILE_EXTENSION_FORMATS[match[2].toLowerCase()]! };
+}
+
+export function fnParseDataUrl(dataUrl: string): { mimeType: string; base64: string } | null {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s);
+  if (!match?.[1] || match[2] === undefined) return null;
+  return { mimeType: match[1].toLowerCase(), base64: match[2].trim() };
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number) {
+  return (bytes[offset]! << 8) | bytes[offset + 1]!;
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number) {
+  return bytes[offset]! | (bytes[offset + 1]! << 8);
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number) {
+  return bytes[offset]! | (bytes[offset + 1]! << 8) | (bytes[offset + 2]! << 16);
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number) {
+  return ((bytes[offset]! << 24) >>> 0) + (bytes[offset + 1]! << 16) + (bytes[offset + 2]! << 8) + bytes[offset + 3]!;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function readJpegSize(bytes: Uint8Array): TImageSize | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1]!;
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    const length = readUint16BE(bytes, offset + 2);
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) return { width: readUint16BE(bytes, offset + 7), height: readUint16BE(bytes, offset + 5) };
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readWebpSize(bytes: Uint8Array): TImageSize | null {
+  const chunk = readAscii(bytes, 12, 4);
+  if (chunk === 'VP8X' && bytes.length >= 30) return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 };
+  if (chunk === 'VP8L' && bytes.length >= 25) {
+    const bits = (bytes[21]! | (bytes[22]! << 8) | (bytes[23]! << 16) | (bytes[24]! << 24)) >>> 0;
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8 ' && bytes.length >= 30) return { width: readUint16LE(bytes, 26) & 0x3fff, height: readUint16LE(bytes, 28) & 0x3fff };
+  return null;
+}
+
+/**
+ * Pixel size from the image header, so imported images get a correct natural size without decoding.
+ */
+export function fnReadImageSize(bytes: Uint8Array, format: TImageFileFormat): TImageSize | null {
+  if (format === 'image/png') {
+    return bytes.length >= 24 && readAscii(bytes, 12, 4) === 'IHDR' ? { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20) } : null;
+  }
+  if (format === 'image/gif') {
+    return bytes.length >= 10 && readAscii(bytes, 0, 3) === 'GIF' ? { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8) } : null;
+  }
+  if (format === 'image/jpeg') {
+    return bytes[0] === 0xff && bytes[1] === 0xd8 ? readJpegSize(bytes) : null;
+  }
+  return bytes.length >= 16 && readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP' ? readWebpSize(bytes) : null;
+}
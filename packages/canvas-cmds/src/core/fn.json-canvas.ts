@@ -0,0 +1,554 @@
+import { isAbsolute, join, relative } from 'path';
+import type { TArrowData, TBinding, TCanvasDoc, TElement, TElementStyle, TFileData, TGroup, TTextData } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { fnGetConnectorBox, fnResolveBindingPoint, fnSnapAnchorToEdge } from './fn.connector';
+import { fnIsPlainObject } from './fn.guard';
+import { fnBuildRichTextFields, fnGetTextMarkdown } from './fn.rich-text';
+import { STICKY_COLORS } from './fn.sticky';
+import { fnCollectExportElements, fnGetExportElementBounds } from './fn.svg-export';
+
+/**
+ * JSON Canvas 1.0, the `.canvas` format used by Obsidian.
+ * See https://jsoncanvas.org/spec/1.0/.
+ */
+export type TJsonCanvasSide = 'top' | 'right' | 'bottom' | 'left';
+
+export type TJsonCanvasEnd = 'none' | 'arrow';
+
+export type TJsonCanvasNode = {
+  id: string;
+  type: 'text' | 'file' | 'link' | 'group';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Preset `1`-`6` or a hex color. */
+  color?: string;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+  [key: string]: unknown;
+};
+
+export type TJsonCanvasEdge = {
+  id: string;
+  fromNode: string;
+  fromSide?: TJsonCanvasSide;
+  fromEnd?: TJsonCanvasEnd;
+  toNode: string;
+  toSide?: TJsonCanvasSide;
+  toEnd?: TJsonCanvasEnd;
+  color?: string;
+  label?: string;
+  [key: string]: unknown;
+};
+
+export type TJsonCanvas = {
+  nodes: TJsonCanvasNode[];
+  edges: TJsonCanvasEdge[];
+};
+
+export type TJsonCanvasImportOptions = {
+  /** First ordered zIndex number to assign, usually one above the highest index already in the canvas. */
+  zIndexStart: number;
+  now: number;
+  createId: () => string;
+  /** Vault root that relative file node paths resolve against. Relative paths are kept as-is without it. */
+  baseDir?: string | null;
+};
+
+export type TJsonCanvasSkippedItem = {
+  id: string;
+  type: string;
+  reason: string;
+};
+
+export type TJsonCanvasImportResult = {
+  elements: Record<string, TElement>;
+  groups: Record<string, TGroup>;
+  /** JSON Canvas node/edge id to the canvas id it was imported as. Group nodes map to their frame rect. */
+  idMap: Record<string, string>;
+  skipped: TJsonCanvasSkippedItem[];
+};
+
+export type TJsonCanvasExportOptions = {
+  ids?: readonly string[] | null;
+  /** Vault root; file widget paths inside it are written relative to it. */
+  baseDir?: string | null;
+};
+
+export type TJsonCanvasExportResult = {
+  canvas: TJsonCanvas;
+  /** Canvas element ids written as nodes, node text, or edges. */
+  elementIds: string[];
+  skippedIds: string[];
+};
+
+export const JSON_CANVAS_MIME_TYPE = 'application/json';
+
+const JSON_CANVAS_PRESET_COLORS: Readonly<Record<string, string>> = {
+  '1': '#fb464c',
+  '2': '#e9973f',
+  '3': '#e0de71',
+  '4': '#44cf6e',
+  '5': '#53dfdd',
+  '6': '#a882ff',
+};
+const JSON_CANVAS_SIDE_ANCHORS: Readonly<Record<TJsonCanvasSide, TBinding['anchor']>> = {
+  top: { x: 0.5, y: 0 },
+  right: { x: 1, y: 0.5 },
+  bottom: { x: 0.5, y: 1 },
+  left: { x: 0, y: 0.5 },
+};
+const JSON_CANVAS_GROUP_PADDING = 20;
+const TEXT_FONT_SIZE = 16;
+const TEXT_LINE_HEIGHT = 1.25;
+const TEXT_FONT_FAMILY = 'Arial, sans-serif';
+const EDGE_LABEL_CHAR_WIDTH = 0.6;
+const EDGE_STROKE_COLOR = '#0f172a';
+const EDGE_STROKE_WIDTH = 2;
+const GROUP_STROKE_COLOR = '#94a3b8';
+const GROUP_STROKE_WIDTH = 2;
+// Matches the defaults the canvas uses for newly placed file and browser widgets.
+const FILE_WIDGET_STYLE: TElementStyle = { backgroundColor: '#f8fafc', borderColor: '#cbd5e1', headerColor: '#e2e8f0', opacity: 1 };
+const BROWSER_WIDGET_STYLE: TElementStyle = { backgroundColor: '#ffffff', borderColor: '#d1d5db', headerColor: '#f3f4f6', opacity: 1 };
+const FILE_RENDERER_EXTENSIONS: ReadonlyArray<[TFileData['renderer'], readonly string[]]> = [
+  ['pdf', ['pdf']],
+  ['image', ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'ico', 'bmp']],
+  ['video', ['mp4', 'webm', 'mov', 'avi', 'mkv']],
+  ['audio', ['mp3', 'wav', 'ogg', 'flac', 'aac']],
+  ['markdown', ['md', 'mdx']],
+  ['code', ['ts', 'tsx', 'js', 'jsx', 'json', 'css', 'html', 'py', 'rs', 'go', 'java', 'c', 'cpp', 'h', 'rb', 'sh', 'yaml', 'yml', 'toml', 'xml', 'sql', 'graphql', 'vue', 'svelte', 'astro', 'zig', 'lua', 'swift', 'kt']],
+  ['text', ['txt', 'log', 'csv', 'env', 'gitignore', 'editorconfig']],
+];
+
+type TBox = { x: number; y: number; w: number; h: number };
+
+function createOrderedZIndex(index: number): string {
+  return `z${String(index).padStart(8, '0')}`;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function readSide(value: unknown): TJsonCanvasSide | null {
+  return value === 'top' || value === 'right' || value === 'bottom' || value === 'left' ? value : null;
+}
+
+function importColor(color: unknown): string | null {
+  if (typeof color !== 'string' || color.length === 0) return null;
+  return JSON_CANVAS_PRESET_COLORS[color] ?? color;
+}
+
+function getFileRenderer(path: string): TFileData['renderer'] {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  return FILE_RENDERER_EXTENSIONS.find(([, extensions]) => extensions.includes(extension))?.[0] ?? 'unknown';
+}
+
+function containsBox(outer: TBox, inner: TBox): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.w <= outer.x + outer.w && inner.y + inner.h <= outer.y + outer.h;
+}
+
+function area(box: TBox): number {
+  return box.w * box.h;
+}
+
+function nodeBox(node: TJsonCanvasNode): TBox {
+  return { x: node.x, y: node.y, w: node.width, h: node.height };
+}
+
+/**
+ * Parses `.canvas` file content. Returns null when the content is not a JSON Canvas document.
+ * Nodes and edges missing their required fields are dropped.
+ */
+export function fnParseJsonCanvas(content: string): TJsonCanvas | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (!fnIsPlainObject(parsed) || 'type' in parsed) return null;
+  if (!Array.isArray(parsed.nodes ?? []) || !Array.isArray(parsed.edges ?? [])) return null;
+  if (parsed.nodes === undefined && parsed.edges === undefined) return null;
+
+  const nodes = ((parsed.nodes ?? []) as unknown[]).filter((node): node is TJsonCanvasNode => fnIsPlainObject(node)
+    && typeof node.id === 'string'
+    && typeof node.type === 'string'
+    && isFiniteNumber(node.x)
+    && isFiniteNumber(node.y)
+    && isFiniteNumber(node.width)
+    && isFiniteNumber(node.height));
+  const edges = ((parsed.edges ?? []) as unknown[]).filter((edge): edge is TJsonCanvasEdge => fnIsPlainObject(edge)
+    && typeof edge.id === 'string'
+    && typeof edge.fromNode === 'string'
+    && typeof edge.toNode === 'string');
+
+  return { nodes, edges };
+}
+
+function createTextData(text: string, box: TBox, options: { align: TTextData['textAlign']; containerId: string | null }): TTextData {
+  return {
+    type: 'text',
+    w: box.w,
+    h: box.h,
+    text,
+    originalText: text,
+    fontSize: TEXT_FONT_SIZE,
+    fontFamily: TEXT_FONT_FAMILY,
+    textAlign: options.align,
+    verticalAlign: 'top',
+    lineHeight: TEXT_LINE_HEIGHT,
+    link: null,
+    containerId: options.containerId,
+    autoResize: false,
+  };
+}
+
+function importNodeData(node: TJsonCanvasNode, options: TJsonCanvasImportOptions): { data: TElement['data']; style: TElementStyle } | string {
+  const w = Math.max(0, node.width);
+  const h = Math.max(0, node.height);
+  const color = importColor(node.color);
+
+  if (node.type === 'text') {
+    // JSON Canvas text is markdown; formatting-free notes stay plain text.
+    const source = readString(node.text) ?? '';
+    const data = createTextData(source, { x: node.x, y: node.y, w, h }, { align: 'left', containerId: null });
+    return { data: { ...data, ...fnBuildRichTextFields(source) }, style: { opacity: 1 } };
+  }
+
+  if (node.type === 'file') {
+    const file = readString(node.file);
+    if (!file) return 'file node has no file path';
+    const path = options.baseDir && !isAbsolute(file) ? join(options.baseDir, file) : file;
+    return {
+      data: { type: 'file', w, h, isCollapsed: false, path, renderer: getFileRenderer(path) },
+      style: { ...FILE_WIDGET_STYLE, ...(color ? { borderColor: color } : {}) },
+    };
+  }
+
+  if (node.type === 'link') {
+    const url = readString(node.url);
+    if (!url) return 'link node has no url';
+    const tabId = options.createId();
+    return {
+      data: { type: 'iframe-browser', w, h, isCollapsed: false, tabs: [{ id: tabId, url, title: url }], activeTabId: tabId },
+      style: { ...BROWSER_WIDGET_STYLE, ...(color ? { borderColor: color } : {}) },
+    };
+  }
+
+  if (node.type === 'group') {
+    return { data: { type: 'rect', w, h }, style: { strokeColor: color ?? GROUP_STROKE_COLOR, strokeWidth: GROUP_STROKE_WIDTH, opacity: 1 } };
+  }
+
+  return `unsupported node type '${node.type}'`;
+}
+
+/**
+ * Smallest group node that fully contains the box, ignoring the node itself.
+ */
+function findParentGroupNode(groupNodes: readonly TJsonCanvasNode[], box: TBox, selfId: string | null): TJsonCanvasNode | null {
+  let parent: TJsonCanvasNode | null = null;
+  for (const group of groupNodes) {
+    if (group.id === selfId || !containsBox(nodeBox(group), box)) continue;
+    if (selfId !== null && area(nodeBox(group)) <= area(box)) continue;
+    if (!parent || area(nodeBox(group)) < area(nodeBox(parent))) parent = group;
+  }
+  return parent;
+}
+
+function pickFacingAnchors(source: TElement, target: TElement): { start: TBinding['anchor']; end: TBinding['anchor'] } {
+  const sourceBox = fnGetConnectorBox(source)!;
+  const targetBox = fnGetConnectorBox(target)!;
+  const dx = (targetBox.x + targetBox.w / 2) - (sourceBox.x + sourceBox.w / 2);
+  const dy = (targetBox.y + targetBox.h / 2) - (sourceBox.y + sourceBox.h / 2);
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? { start: JSON_CANVAS_SIDE_ANCHORS.right, end: JSON_CANVAS_SIDE_ANCHORS.left } : { start: JSON_CANVAS_SIDE_ANCHORS.left, end: JSON_CANVAS_SIDE_ANCHORS.right };
+  }
+  return dy >= 0 ? { start: JSON_CANVAS_SIDE_ANCHORS.bottom, end: JSON_CANVAS_SIDE_ANCHORS.top } : { start: JSON_CANVAS_SIDE_ANCHORS.top, end: JSON_CANVAS_SIDE_ANCHORS.bottom };
+}
+
+function importEdgeLabel(label: string, start: { x: number; y: number }, end: { x: number; y: number }): TBox {
+  const lines = label.split('\n');
+  const w = Math.max(...lines.map((line) => line.length)) * TEXT_FONT_SIZE * EDGE_LABEL_CHAR_WIDTH + TEXT_FONT_SIZE;
+  const h = lines.length * TEXT_FONT_SIZE * TEXT_LINE_HEIGHT;
+  return { x: (start.x + end.x) / 2 - w / 2, y: (start.y + end.y) / 2 - h / 2, w, h };
+}
+
+/**
+ * Converts a JSON Canvas document into canvas elements and groups with fresh ids.
+ * Text nodes become text, file nodes `file` widgets, link nodes `iframe-browser` widgets, and group nodes
+ * a group holding a frame rect (with the label attached to it) and every node inside its bounds.
+ * Edges become connectors bound to the matching sides, stacked above the nodes; edge labels become text at the edge midpoint.
+ */
+export function fnJsonCanvasToCanvas(source: TJsonCanvas, options: TJsonCanvasImportOptions): TJsonCanvasImportResult {
+  const elements: Record<string, TElement> = {};
+  const groups: Record<string, TGroup> = {};
+  const idMap: Record<string, string> = {};
+  const skipped: TJsonCanvasSkippedItem[] = [];
+  const groupNodes = source.nodes.filter((node) => node.type === 'group');
+  const groupIds = new Map(groupNodes.map((node) => [node.id, options.createId()]));
+  let zIndex = options.zIndexStart;
+
+  const createElement = (args: { x: number; y: number; parentGroupId: string | null; data: TElement['data']; style: TElementStyle }): TElement => {
+    const element: TElement = {
+      id: options.createId(),
+      x: args.x,
+      y: args.y,
+      rotation: 0,
+      zIndex: createOrderedZIndex(zIndex),
+      parentGroupId: args.parentGroupId,
+      bindings: [],
+      locked: false,
+      createdAt: options.now,
+      updatedAt: options.now,
+      data: args.data,
+      style: args.style,
+    };
+    zIndex += 1;
+    elements[element.id] = element;
+    return element;
+  };
+
+  for (const node of source.nodes) {
+    const converted = importNodeData(node, options);
+    if (typeof converted === 'string') {
+      skipped.push({ id: node.id, type: node.type, reason: converted });
+      continue;
+    }
+
+    const parentNode = findParentGroupNode(groupNodes, nodeBox(node), node.type === 'group' ? node.id : null);
+    const parentGroupId = parentNode ? groupIds.get(parentNode.id)! : null;
+    const ownGroupId = node.type === 'group' ? groupIds.get(node.id)! : null;
+    const element = createElement({ x: node.x, y: node.y, parentGroupId: ownGroupId ?? parentGroupId, data: converted.data, style: converted.style });
+    idMap[node.id] = element.id;
+
+    if (ownGroupId) {
+      groups[ownGroupId] = { id: ownGroupId, parentGroupId, zIndex: element.zIndex, locked: false, createdAt: options.now };
+      const label = readString(node.label);
+      if (label) {
+        createElement({ x: node.x, y: node.y, parentGroupId: ownGroupId, data: createTextData(label, nodeBox(node), { align: 'left', containerId: element.id }), style: { opacity: 1 } });
+      }
+    }
+  }
+
+  for (const edge of source.edges) {
+    const sourceElement = elements[idMap[edge.fromNode] ?? ''];
+    const targetElement = elements[idMap[edge.toNode] ?? ''];
+    if (!sourceElement || !targetElement) {
+      skipped.push({ id: edge.id, type: 'edge', reason: `edge endpoint '${sourceElement ? edge.toNode : edge.fromNode}' was not imported` });
+      continue;
+    }
+
+    const facing = pickFacingAnchors(sourceElement, targetElement);
+    const fromSide = readSide(edge.fromSide);
+    const toSide = readSide(edge.toSide);
+    const startBinding: TBinding = { targetId: sourceElement.id, anchor: { ...(fromSide ? JSON_CANVAS_SIDE_ANCHORS[fromSide] : facing.start) } };
+    const endBinding: TBinding = { targetId: targetElement.id, anchor: { ...(toSide ? JSON_CANVAS_SIDE_ANCHORS[toSide] : facing.end) } };
+    const start = fnResolveBindingPoint(sourceElement, startBinding.anchor)!;
+    const end = fnResolveBindingPoint(targetElement, endBinding.anchor)!;
+    const startCap: TArrowData['startCap'] = edge.fromEnd === 'arrow' ? 'arrow' : 'none';
+    const endCap: TArrowData['endCap'] = edge.toEnd === 'none' ? 'none' : 'arrow';
+    const base = { lineType: 'straight' as const, points: [[0, 0], [end.x - start.x, end.y - start.y]] as Array<[number, number]>, startBinding, endBinding };
+    const data: TElement['data'] = startCap === 'none' && endCap === 'none' ? { type: 'line', ...base } : { type: 'arrow', ...base, startCap, endCap };
+    const connector = createElement({ x: start.x, y: start.y, parentGroupId: null, data, style: { strokeColor: importColor(edge.color) ?? EDGE_STROKE_COLOR, strokeWidth: EDGE_STROKE_WIDTH, opacity: 1 } });
+    idMap[edge.id] = connector.id;
+
+    const label = readString(edge.label);
+    if (label) {
+      const box = importEdgeLabel(label, start, end);
+      createElement({ x: box.x, y: box.y, parentGroupId: null, data: createTextData(label, box, { align: 'center', containerId: null }), style: { opacity: 1 } });
+    }
+  }
+
+  return { elements, groups, idMap, skipped };
+}
+
+function exportColor(color: string | undefined, fallback: string | null): string | undefined {
+  if (!color || color === fallback) return undefined;
+  return Object.entries(JSON_CANVAS_PRESET_COLORS).find(([, preset]) => preset === color.toLowerCase())?.[0] ?? color;
+}
+
+function exportSide(anchor: TBinding['anchor']): TJsonCanvasSide {
+  const snapped = fnSnapAnchorToEdge(anchor);
+  if (snapped.x === 0) return 'left';
+  if (snapped.x === 1) return 'right';
+  return snapped.y === 0 ? 'top' : 'bottom';
+}
+
+function exportPath(path: string, baseDir: string | null | undefined): string {
+  if (!baseDir) return path;
+  const inside = relative(baseDir, path);
+  return inside && !inside.startsWith('..') && !isAbsolute(inside) ? inside.split('\\').join('/') : path;
+}
+
+function roundBox(box: TBox): Pick<TJsonCanvasNode, 'x' | 'y' | 'width' | 'height'> {
+  const x = Math.round(box.x);
+  const y = Math.round(box.y);
+  return { x, y, width: Math.round(box.x + box.w) - x, height: Math.round(box.y + box.h) - y };
+}
+
+function getGroupDepth(doc: TCanvasDoc, groupId: string): number {
+  let depth = 0;
+  const seen = new Set<string>();
+  let current = doc.groups[groupId]?.parentGroupId ?? null;
+  while (current && doc.groups[current] && !seen.has(current)) {
+    seen.add(current);
+    depth += 1;
+    current = doc.groups[current]!.parentGroupId;
+  }
+  return depth;
+}
+
+function isInsideGroup(doc: TCanvasDoc, element: TElement, groupId: string): boolean {
+  const seen = new Set<string>();
+  let current = element.parentGroupId;
+  while (current && !seen.has(current)) {
+    if (current === groupId) return true;
+    seen.add(current);
+    current = doc.groups[current]?.parentGroupId ?? null;
+  }
+  return false;
+}
+
+function unionBox(boxes: readonly TBox[]): TBox {
+  const x = Math.min(...boxes.map((box) => box.x));
+  const y = Math.min(...boxes.map((box) => box.y));
+  return { x, y, w: Math.max(...boxes.map((box) => box.x + box.w)) - x, h: Math.max(...boxes.map((box) => box.y + box.h)) - y };
+}
+
+/**
+ * A group's frame is the rect painted first among its direct children when it contains everything else
+ * in the group, which is how imported group nodes are laid out.
+ */
+function findGroupFrame(doc: TCanvasDoc, groupId: string, members: readonly TElement[]): TElement | null {
+  const direct = members.filter((element) => element.parentGroupId === groupId).sort((left, right) => left.zIndex.localeCompare(right.zIndex));
+  const frame = direct[0];
+  if (!frame || frame.data.type !== 'rect' || frame.rotation !== 0) return null;
+  const box = { x: frame.x, y: frame.y, w: frame.data.w, h: frame.data.h };
+  const others = members.filter((element) => element.id !== frame.id && !(element.data.type === 'text' && element.data.containerId === frame.id));
+  return others.every((element) => containsBox(box, fnGetExportElementBounds(element))) ? frame : null;
+}
+
+/**
+ * Converts a canvas, or the selected element/group ids, into a JSON Canvas document.
+ * Groups become group nodes (listed first, outermost first), text and shapes become text nodes carrying their
+ * attached text, `file` widgets file nodes, and `iframe-browser` widgets link nodes to the active tab.
+ * Connectors bound on both ends to exported nodes become edges; everything else is reported in `skippedIds`.
+ */
+export function fnCanvasToJsonCanvas(doc: TCanvasDoc, options: TJsonCanvasExportOptions = {}): TJsonCanvasExportResult {
+  const candidates = fnCollectExportElements(doc, options.ids);
+  const candidateIds = new Set(candidates.map((element) => element.id));
+  const attachedText = new Map<string, TElement>();
+  for (const element of candidates) {
+    if (element.data.type === 'text' && element.data.containerId && candidateIds.has(element.data.containerId)) attachedText.set(element.data.containerId, element);
+  }
+
+  const groupNodes: Array<{ depth: number; node: TJsonCanvasNode }> = [];
+  const nodeIdByElementId = new Map<string, string>();
+  const consumedIds = new Set<string>();
+  const groupIds = Object.keys(doc.groups).sort((left, right) => doc.groups[left]!.zIndex.localeCompare(doc.groups[right]!.zIndex) || left.localeCompare(right));
+  for (const groupId of groupIds) {
+    const members = candidates.filter((element) => isInsideGroup(doc, element, groupId));
+    if (members.length === 0) continue;
+    const frame = findGroupFrame(doc, groupId, members);
+    const label = frame ? attachedText.get(frame.id) : undefined;
+    const box = frame && frame.data.type === 'rect'
+      ? { x: frame.x, y: frame.y, w: frame.data.w, h: frame.data.h }
+      : (() => {
+        const bounds = unionBox(members.map((element) => fnGetExportElementBounds(element)));
+        return { x: bounds.x - JSON_CANVAS_GROUP_PADDING, y: bounds.y - JSON_CANVAS_GROUP_PADDING, w: bounds.w + JSON_CANVAS_GROUP_PADDING * 2, h: bounds.h + JSON_CANVAS_GROUP_PADDING * 2 };
+      })();
+    const node: TJsonCanvasNode = { id: groupId, type: 'group', ...roundBox(box) };
+    const color = frame ? exportColor(frame.style.strokeColor, GROUP_STROKE_COLOR) : undefined;
+    if (color) node.color = color;
+    if (label?.data.type === 'text' && label.data.text) node.label = label.data.text;
+    if (frame) {
+      nodeIdByElementId.set(frame.id, groupId);
+      consumedIds.add(frame.id);
+      if (label) consumedIds.add(label.id);
+    }
+    groupNodes.push({ depth: getGroupDepth(doc, groupId), node });
+  }
+
+  const nodes: TJsonCanvasNode[] = [];
+  const connectors: TElement[] = [];
+  for (const element of candidates) {
+    if (consumedIds.has(element.id)) continue;
+    const data = element.data;
+    if (data.type === 'line' || data.type === 'arrow') {
+      connectors.push(element);
+      continue;
+    }
+    if (data.type === 'text' && data.containerId && candidateIds.has(data.containerId)) continue;
+
+    const box = fnGetExportElementBounds(element);
+    let node: TJsonCanvasNode | null = null;
+    if (data.type === 'text' || data.type === 'rect' || data.type === 'diamond' || data.type === 'ellipse') {
+      const attached = attachedText.get(element.id);
+      const textData = data.type === 'text' ? data : attached?.data.type === 'text' ? attached.data : null;
+      const text = textData ? fnGetTextMarkdown(textData) ?? textData.text : '';
+      node = { id: element.id, type: 'text', ...roundBox(box), text };
+      const color = data.type === 'text' ? undefined : exportColor(element.style.strokeColor ?? element.style.backgroundColor, null);
+      if (color) node.color = color;
+      if (attached) consumedIds.add(attached.id);
+    } else if (data.type === 'sticky') {
+      node = { id: element.id, type: 'text', ...roundBox(box), text: data.text, color: exportColor(STICKY_COLORS[data.color], null) };
+    } else if (data.type === 'note') {
+      node = { id: element.id, type: 'text', ...roundBox(box), text: data.markdown };
+    } else if (data.type === 'file') {
+      node = { id: element.id, type: 'file', ...roundBox(box), file: exportPath(data.path, options.baseDir) };
+      const color = exportColor(element.style.borderColor, FILE_WIDGET_STYLE.borderColor!);
+      if (color) node.color = color;
+    } else if (data.type === 'iframe-browser') {
+      const url = (data.tabs.find((tab) => tab.id === data.activeTabId) ?? data.tabs[0])?.url;
+      if (url) {
+        node = { id: element.id, type: 'link', ...roundBox(box), url };
+        const color = exportColor(element.style.borderColor, BROWSER_WIDGET_STYLE.borderColor!);
+        if (color) node.color = color;
+      }
+    }
+
+    if (!node) continue;
+    nodes.push(node);
+    nodeIdByElementId.set(element.id, node.id);
+    consumedIds.add(element.id);
+  }
+
+  const edges: TJsonCanvasEdge[] = [];
+  for (const connector of connectors) {
+    if (connector.data.type !== 'line' && connector.data.type !== 'arrow') continue;
+    const { startBinding, endBinding } = connector.data;
+    const fromNode = startBinding ? nodeIdByElementId.get(startBinding.targetId) : undefined;
+    const toNode = endBinding ? nodeIdByElementId.get(endBinding.targetId) : undefined;
+    if (!startBinding || !endBinding || !fromNode || !toNode) continue;
+
+    const edge: TJsonCanvasEdge = {
+      id: connector.id,
+      fromNode,
+      fromSide: exportSide(startBinding.anchor),
+      fromEnd: connector.data.type === 'arrow' && connector.data.startCap !== 'none' ? 'arrow' : 'none',
+      toNode,
+      toSide: exportSide(endBinding.anchor),
+      toEnd: connector.data.type === 'arrow' && connector.data.endCap !== 'none' ? 'arrow' : 'none',
+    };
+    const color = exportColor(connector.style.strokeColor, EDGE_STROKE_COLOR);
+    if (color) edge.color = color;
+    edges.push(edge);
+    consumedIds.add(connector.id);
+  }
+
+  groupNodes.sort((left, right) => left.depth - right.depth);
+  return {
+    canvas: { nodes: [...groupNodes.map((entry) => entry.node), ...nodes], edges },
+    elementIds: candidates.filter((element) => consumedIds.has(element.id)).map((element) => element.id),
+    skippedIds: candidates.filter((element) => !consumedIds.has(element.id)).map((element) => element.id),
+  };
+}
@@ -0,0 +1,349 @@
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { fnGetConnectorBox, fnIsConnectorElement } from './fn.connector';
+import type { TDiagramDirection } from './fn.diagram';
+import { fnLayoutLayeredGraph, type TDiagramBox } from './fn.diagram-layout';
+import { fnCollectGroupCascade } from './fn.group';
+import { fnGetExportElementBounds } from './fn.svg-export';
+
+export type TLayoutAlgorithm = 'grid' | 'row' | 'column' | 'tree' | 'layered';
+
+export type TLayoutOptions = {
+  algorithm: TLayoutAlgorithm;
+  /** Flow direction for tree and layered layouts. Defaults to TB. */
+  direction?: TDiagramDirection;
+  /** Space between neighbouring nodes. Tree and layered layouts leave 1.5x this between ranks. */
+  gap?: number;
+  /** Grid column count. Defaults to the smallest near-square grid. */
+  columns?: number;
+  /** Top-left of the arranged nodes. Defaults to the top-left of the current selection. */
+  origin?: { x: number; y: number };
+};
+
+/** One box that moves as a unit: an element with its attached text, or a whole group. */
+export type TLayoutNode = {
+  id: string;
+  kind: 'element' | 'group';
+  elementIds: string[];
+  box: TDiagramBox;
+};
+
+export type TLayoutEdge = { id: string; from: string; to: string };
+
+export type TLayoutMove = {
+  id: string;
+  kind: 'element' | 'group';
+  from: { x: number; y: number };
+  to: { x: number; y: number };
+  dx: number;
+  dy: number;
+};
+
+export type TLayoutPlan = {
+  algorithm: TLayoutAlgorithm;
+  direction: TDiagramDirection;
+  nodes: TLayoutNode[];
+  edges: TLayoutEdge[];
+  moves: TLayoutMove[];
+  /** Every element whose position changes. Bound connectors are left to connector routing. */
+  elementDeltas: Array<{ id: string; dx: number; dy: number }>;
+  bounds: TDiagramBox | null;
+};
+
+export const LAYOUT_ALGORITHMS: TLayoutAlgorithm[] = ['grid', 'row', 'column', 'tree', 'layered'];
+export const LAYOUT_DIRECTIONS: TDiagramDirection[] = ['TB', 'BT', 'LR', 'RL'];
+
+const STACK_GAP = 40;
+const GRAPH_NODE_GAP = 60;
+const GRAPH_RANK_GAP = 90;
+
+type TPlacement = { x: number; y: number };
+
+export function fnUnionLayoutBoxes(boxes: readonly TDiagramBox[]): TDiagramBox | null {
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map((box) => box.x));
+  const minY = Math.min(...boxes.map((box) => box.y));
+  const maxX = Math.max(...boxes.map((box) => box.x + box.w));
+  const maxY = Math.max(...boxes.map((box) => box.y + box.h));
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+/** Shape geometry for unrotated boxes so arranged edges line up exactly; painted bounds otherwise. */
+function getLayoutBox(element: TElement): TDiagramBox {
+  const box = element.rotation === 0 ? fnGetConnectorBox(element) : null;
+  return box ? { x: box.x, y: box.y, w: box.w, h: box.h } : fnGetExportElementBounds(element);
+}
+
+function isBoundConnector(element: TElement): boolean {
+  return fnIsConnectorElement(element) && Boolean(element.data.startBinding || element.data.endBinding);
+}
+
+function hasSelectedAncestor(doc: TCanvasDoc, groupId: string | null, selected: ReadonlySet<string>): boolean {
+  const visited = new Set<string>();
+  let current = groupId;
+  while (current && !visited.has(current)) {
+    if (selected.has(current)) return true;
+    visited.add(current);
+    current = doc.groups[current]?.parentGroupId ?? null;
+  }
+  return false;
+}
+
+function collectAttachedTextIds(doc: TCanvasDoc, containerIds: readonly string[]): string[] {
+  const containers = new Set(containerIds);
+  return Object.values(doc.elements)
+    .filter((element) => element.data.type === 'text' && element.data.containerId !== null && containers.has(element.data.containerId))
+    .map((element) => element.id);
+}
+
+/**
+ * Turns selected ids into layout nodes. Ids nested in another selected group move with that
+ * group, text bound to a container moves with the container, and bound connectors are skipped
+ * because routing re-attaches them after their targets move.
+ */
+export function fnCollectLayoutNodes(doc: TCanvasDoc, ids: readonly string[]): TLayoutNode[] {
+  const selected = new Set(ids);
+  const nodes: TLayoutNode[] = [];
+
+  for (const id of [...selected]) {
+    const group = doc.groups[id];
+    if (group) {
+      if (hasSelectedAncestor(doc, group.parentGroupId, selected)) continue;
+      const cascade = fnCollectGroupCascade(doc, id).elementIds;
+      const box = fnUnionLayoutBoxes(cascade.map((elementId) => getLayoutBox(doc.elements[elementId]!)));
+      if (!box) continue;
+      nodes.push({ id, kind: 'group', elementIds: [...new Set([...cascade, ...collectAttachedTextIds(doc, cascade)])], box });
+      continue;
+    }
+
+    const element = doc.elements[id];
+    if (!element || hasSelectedAncestor(doc, element.parentGroupId, selected) || isBoundConnector(element)) continue;
+    if (element.data.type === 'text' && element.data.containerId && doc.elements[element.data.containerId]) continue;
+    nodes.push({ id, kind: 'element', elementIds: [id, ...collectAttachedTextIds(doc, [id])], box: getLayoutBox(element) });
+  }
+
+  return nodes;
+}
+
+/**
+ * Connectors bound on both ends to elements owned by two different nodes become edges.
+ * Arrows that only point backwards (start cap without end cap) are read in their visual direction.
+ */
+export function fnCollectLayoutEdges(doc: TCanvasDoc, nodes: readonly TLayoutNode[]): TLayoutEdge[] {
+  const owners = new Map<string, string>();
+  for (const node of nodes) {
+    for (const elementId of node.elementIds) {
+      if (!owners.has(elementId)) owners.set(elementId, node.id);
+    }
+  }
+
+  const connectors = Object.values(doc.elements)
+    .filter(fnIsConnectorElement)
+    .sort((left, right) => left.zIndex.localeCompare(right.zIndex) || left.id.localeCompare(right.id));
+  const seen = new Set<string>();
+  const edges: TLayoutEdge[] = [];
+  for (const connector of connectors) {
+    const start = connector.data.startBinding ? owners.get(connector.data.startBinding.targetId) : undefined;
+    const end = connector.data.endBinding ? owners.get(connector.data.endBinding.targetId) : undefined;
+    if (!start || !end || start === end) continue;
+    const reversed = connector.data.type === 'arrow' && connector.data.startCap !== 'none' && connector.data.endCap === 'none';
+    const [from, to] = reversed ? [end, start] : [start, end];
+    const key = `${from}\u0000${to}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    edges.push({ id: connector.id, from, to });
+  }
+  return edges;
+}
+
+function byReadingOrder(left: TLayoutNode, right: TLayoutNode): number {
+  return left.box.y - right.box.y || left.box.x - right.box.x || left.id.localeCompare(right.id);
+}
+
+function layoutGrid(nodes: readonly TLayoutNode[], origin: TPlacement, gap: number, columnsOption: number | undefined): Map<string, TPlacement> {
+  const ordered = [...nodes].sort(byReadingOrder);
+  const columns = Math.max(1, Math.min(ordered.length, columnsOption ?? Math.ceil(Math.sqrt(ordered.length))));
+  const columnWidths: number[] = Array.from({ length: columns }, () => 0);
+  const rowHeights: number[] = [];
+  ordered.forEach((node, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    columnWidths[column] = Math.max(columnWidths[column]!, node.box.w);
+    rowHeights[row] = Math.max(rowHeights[row] ?? 0, node.box.h);
+  });
+
+  const columnStarts = columnWidths.map((_, column) => origin.x + columnWidths.slice(0, column).reduce((sum, width) => sum + width + gap, 0));
+  const rowStarts = rowHeights.map((_, row) => origin.y + rowHeights.slice(0, row).reduce((sum, height) => sum + height + gap, 0));
+  return new Map(ordered.map((node, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    return [node.id, {
+      x: columnStarts[column]! + (columnWidths[column]! - node.box.w) / 2,
+      y: rowStarts[row]! + (rowHeights[row]! - node.box.h) / 2,
+    }];
+  }));
+}
+
+/** Row and column stacks keep the current order along the stacking axis and center the cross axis. */
+function layoutStack(nodes: readonly TLayoutNode[], origin: TPlacement, gap: number, horizontal: boolean): Map<string, TPlacement> {
+  const center = (node: TLayoutNode) => horizontal ? node.box.x + node.box.w / 2 : node.box.y + node.box.h / 2;
+  const ordered = [...nodes].sort((left, right) => center(left) - center(right) || byReadingOrder(left, right));
+  const crossSize = Math.max(...ordered.map((node) => horizontal ? node.box.h : node.box.w));
+  const placements = new Map<string, TPlacement>();
+  let cursor = horizontal ? origin.x : origin.y;
+  for (const node of ordered) {
+    placements.set(node.id, horizontal
+      ? { x: cursor, y: origin.y + (crossSize - node.box.h) / 2 }
+      : { x: origin.x + (crossSize - node.box.w) / 2, y: cursor });
+    cursor += (horizontal ? node.box.w : node.box.h) + gap;
+  }
+  return placements;
+}
+
+/**
+ * Tidy tree: every node keeps the first edge that reaches it as its parent, subtrees are packed
+ * side by side along the cross axis, and parents are centered over their children.
+ */
+function layoutTree(nodes: readonly TLayoutNode[], edges: readonly TLayoutEdge[], direction: TDiagramDirection, nodeGap: number, rankGap: number): Map<string, TPlacement> {
+  const ordered = [...nodes].sort(byReadingOrder);
+  const byId = new Map(ordered.map((node) => [node.id, node]));
+  const parents = new Map<string, string>();
+  const children = new Map<string, string[]>(ordered.map((node) => [node.id, []]));
+  const isAncestor = (candidate: string, of: string) => {
+    for (let current: string | undefined = of; current; current = parents.get(current)) {
+      if (current === candidate) return true;
+    }
+    return false;
+  };
+  for (const edge of edges) {
+    if (parents.has(edge.to) || isAncestor(edge.to, edge.from)) continue;
+    parents.set(edge.to, edge.from);
+    children.get(edge.from)!.push(edge.to);
+  }
+
+  const horizontal = direction === 'LR' || direction === 'RL';
+  const crossSize = (id: string) => horizontal ? byId.get(id)!.box.h : byId.get(id)!.box.w;
+  const mainSize = (id: string) => horizontal ? byId.get(id)!.box.w : byId.get(id)!.box.h;
+  const crossPosition = (id: string) => horizontal ? byId.get(id)!.box.y : byId.get(id)!.box.x;
+  for (const list of children.values()) list.sort((left, right) => crossPosition(left) - crossPosition(right) || left.localeCompare(right));
+
+  const depths = new Map<string, number>();
+  const breadths = new Map<string, number>();
+  const measure = (id: string, depth: number): number => {
+    depths.set(id, depth);
+    const kids = children.get(id)!;
+    const span = kids.reduce((sum, child) => sum + measure(child, depth + 1), 0) + nodeGap * Math.max(0, kids.length - 1);
+    const breadth = Math.max(crossSize(id), span);
+    breadths.set(id, breadth);
+    return breadth;
+  };
+  const roots = ordered.filter((node) => !parents.has(node.id)).map((node) => node.id);
+  for (const root of roots) measure(root, 0);
+
+  const depthCount = Math.max(...depths.values()) + 1;
+  const depthSizes = Array.from({ length: depthCount }, (_, depth) => Math.max(...[...depths].filter(([, value]) => value === depth).map(([id]) => mainSize(id))));
+  const depthCenters = depthSizes.map((size, depth) => depthSizes.slice(0, depth).reduce((sum, previous) => sum + previous + rankGap, 0) + size / 2);
+  const reversed = direction === 'BT' || direction === 'RL';
+
+  const placements = new Map<string, TPlacement>();
+  const place = (id: string, crossStart: number) => {
+    const node = byId.get(id)!;
+    const breadth = breadths.get(id)!;
+    const crossCenter = crossStart + breadth / 2;
+    const mainCenter = (reversed ? -1 : 1) * depthCenters[depths.get(id)!]!;
+    placements.set(id, horizontal
+      ? { x: mainCenter - node.box.w / 2, y: crossCenter - node.box.h / 2 }
+      : { x: crossCenter - node.box.w / 2, y: mainCenter - node.box.h / 2 });
+
+    const kids = children.get(id)!;
+    const span = kids.reduce((sum, child) => sum + breadths.get(child)!, 0) + nodeGap * Math.max(0, kids.length - 1);
+    let cursor = crossStart + (breadth - span) / 2;
+    for (const child of kids) {
+      place(child, cursor);
+      cursor += breadths.get(child)! + nodeGap;
+    }
+  };
+  let cursor = 0;
+  for (const root of roots) {
+    place(root, cursor);
+    cursor += breadths.get(root)! + nodeGap;
+  }
+  return placements;
+}
+
+function shiftToOrigin(nodes: readonly TLayoutNode[], placements: Map<string, TPlacement>, origin: TPlacement): Map<string, TPlacement> {
+  const minX = Math.min(...nodes.map((node) => placements.get(node.id)!.x));
+  const minY = Math.min(...nodes.map((node) => placements.get(node.id)!.y));
+  return new Map(nodes.map((node) => {
+    const placement = placements.get(node.id)!;
+    return [node.id, { x: placement.x - minX + origin.x, y: placement.y - minY + origin.y }];
+  }));
+}
+
+/**
+ * Plans new positions for the selected ids without touching the document. Positions refer to
+ * the top-left of each node's visual bounds and are rounded to whole canvas units.
+ */
+export function fnPlanCanvasLayout(doc: TCanvasDoc, ids: readonly string[], options: TLayoutOptions): TLayoutPlan {
+  const direction = options.direction ?? 'TB';
+  const nodes = fnCollectLayoutNodes(doc, ids);
+  const edges = fnCollectLayoutEdges(doc, nodes);
+  const current = fnUnionLayoutBoxes(nodes.map((node) => node.box));
+  if (!current) return { algorithm: options.algorithm, direction, nodes, edges, moves: [], elementDeltas: [], bounds: null };
+
+  const origin = options.origin ?? { x: current.x, y: current.y };
+  const nodeGap = options.gap ?? (options.algorithm === 'tree' || options.algorithm === 'layered' ? GRAPH_NODE_GAP : STACK_GAP);
+  const rankGap = options.gap === undefined ? GRAPH_RANK_GAP : Math.round(options.gap * 1.5);
+
+  let placements: Map<string, TPlacement>;
+  if (options.algorithm === 'grid') placements = layoutGrid(nodes, origin, nodeGap, options.columns);
+  else if (options.algorithm === 'row' || options.algorithm === 'column') placements = layoutStack(nodes, origin, nodeGap, options.algorithm === 'row');
+  else if (options.algorithm === 'tree') placements = shiftToOrigin(nodes, layoutTree(nodes, edges, direction, nodeGap, rankGap), origin);
+  else {
+    const ordered = [...nodes].sort(byReadingOrder);
+    placements = fnLayoutLayeredGraph({
+      direction,
+      nodes: ordered.map((node) => ({ key: node.id, w: node.box.w, h: node.box.h })),
+      edges,
+    }, origin, { nodeGap, rankGap });
+  }
+
+  const rounded = new Map([...placements].map(([id, placement]) => [id, { x: Math.round(placement.x), y: Math.round(placement.y) }]));
+  return { algorithm: options.algorithm, direction, nodes, edges, ...fnResolveLayoutMoves(nodes, rounded) };
+}
+
+/** Turns target top-left positions per node into moves and per-element offsets. */
+export function fnResolveLayoutMoves(nodes: readonly TLayoutNode[], placements: ReadonlyMap<string, TPlacement>): Pick<TLayoutPlan, 'moves' | 'elementDeltas' | 'bounds'> {
+  const moves = nodes.map((node): TLayoutMove => {
+    const to = placements.get(node.id) ?? { x: node.box.x, y: node.box.y };
+    return { id: node.id, kind: node.kind, from: { x: node.box.x, y: node.box.y }, to: { x: to.x, y: to.y }, dx: to.x - node.box.x, dy: to.y - node.box.y };
+  });
+
+  const elementDeltas = new Map<string, { id: string; dx: number; dy: number }>();
+  nodes.forEach((node, index) => {
+    const move = moves[index]!;
+    if (move.dx === 0 && move.dy === 0) return;
+    for (const elementId of node.elementIds) {
+      if (!elementDeltas.has(elementId)) elementDeltas.set(elementId, { id: elementId, dx: move.dx, dy: move.dy });
+    }
+  });
+
+  return {
+    moves,
+    elementDeltas: [...elementDeltas.values()],
+    bounds: fnUnionLayoutBoxes(nodes.map((node, index) => ({ ...node.box, ...moves[index]!.to }))),
+  };
+}
+
+/** Applies planned offsets in place; safe inside an Automerge `handle.change` callback. */
+export function fnApplyCanvasLayout(doc: TCanvasDoc, plan: Pick<TLayoutPlan, 'elementDeltas'>, now: number): string[] {
+  const changedIds: string[] = [];
+  for (const delta of plan.elementDeltas) {
+    const element = doc.elements[delta.id];
+    if (!element) continue;
+    element.x += delta.dx;
+    element.y += delta.dy;
+    element.updatedAt = now;
+    changedIds.push(delta.id);
+  }
+  return changedIds;
+}
@@ -0,0 +1,166 @@
+import type { TElementStyle, TNoteData } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { fnParseRichTextInline, type TRichTextRun } from './fn.rich-text';
+
+export type TNoteTableAlign = 'left' | 'center' | 'right' | null;
+
+export type TNoteListItem = {
+  runs: TRichTextRun[];
+  /** Task state for `- [ ]` / `- [x]` items, null for plain items. */
+  checked: boolean | null;
+  /** Zero-based source line, so a rendered checkbox can toggle its item. */
+  line: number;
+};
+
+export type TNoteBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; runs: TRichTextRun[] }
+  | { kind: 'paragraph'; runs: TRichTextRun[] }
+  | { kind: 'quote'; runs: TRichTextRun[] }
+  | { kind: 'list'; ordered: boolean; start: number; items: TNoteListItem[] }
+  | { kind: 'code'; lang: string; code: string }
+  | { kind: 'table'; align: TNoteTableAlign[]; header: TRichTextRun[][]; rows: TRichTextRun[][][] }
+  | { kind: 'rule' };
+
+export const NOTE_DEFAULT_WIDTH = 420;
+export const NOTE_DEFAULT_HEIGHT = 320;
+export const NOTE_WIDGET_STYLE: TElementStyle = { backgroundColor: '#ffffff', borderColor: '#d6d3d1', headerColor: '#f5f5f4', opacity: 1 };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function getTableAlign(cell: string): TNoteTableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : null;
+}
+
+function isBlockStart(line: string, nextLine: string | undefined): boolean {
+  return HEADING.test(line) || FENCE.test(line) || LIST_ITEM.test(line) || RULE.test(line) || line.startsWith('>')
+    || (line.includes('|') && nextLine !== undefined && TABLE_DIVIDER.test(nextLine));
+}
+
+/**
+ * Block markdown for note widgets: ATX headings, paragraphs, quotes, bullet/numbered/task lists,
+ * fenced code, pipe tables and rules. Inline formatting matches rich text elements.
+ */
+export function fnParseNoteMarkdown(markdown: string): TNoteBlock[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: TNoteBlock[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index]!;
+    if (line.trim() === '') {
+      index += 1;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index]!.trimStart().startsWith(fence[1]!)) {
+        code.push(lines[index]!);
+        index += 1;
+      }
+      blocks.push({ kind: 'code', lang: fence[2]!.toLowerCase(), code: code.join('\n') });
+      index += 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ kind: 'heading', level: heading[1]!.length as 1 | 2 | 3 | 4 | 5 | 6, runs: fnParseRichTextInline(heading[2]!) });
+      index += 1;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ kind: 'rule' });
+      index += 1;
+      continue;
+    }
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_DIVIDER.test(lines[index + 1]!)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[index + 1]!).map(getTableAlign);
+      const rows: TRichTextRun[][][] = [];
+      index += 2;
+      while (index < lines.length && lines[index]!.includes('|') && lines[index]!.trim() !== '') {
+        const cells = splitTableRow(lines[index]!);
+        rows.push(header.map((_, column) => fnParseRichTextInline(cells[column] ?? '')));
+        index += 1;
+      }
+      blocks.push({ kind: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map((cell) => fnParseRichTextInline(cell)), rows });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const ordered = listItem[2] !== undefined;
+      const items: TNoteListItem[] = [];
+      while (index < lines.length) {
+        const item = LIST_ITEM.exec(lines[index]!);
+        if (!item || (item[2] !== undefined) !== ordered) break;
+        const task = TASK.exec(item[3]!);
+        items.push({
+          runs: fnParseRichTextInline(task ? item[3]!.slice(task[0].length) : item[3]!),
+          checked: task ? task[1] !== ' ' : null,
+          line: index,
+        });
+        index += 1;
+      }
+      blocks.push({ kind: 'list', ordered, start: ordered ? Number(listItem[2]) : 1, items });
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      while (index < lines.length && lines[index]!.startsWith('>')) {
+        quote.push(lines[index]!.replace(/^>\s?/, ''));
+        index += 1;
+      }
+      blocks.push({ kind: 'quote', runs: fnParseRichTextInline(quote.join(' ')) });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    index += 1;
+    while (index < lines.length && lines[index]!.trim() !== '' && !isBlockStart(lines[index]!, lines[index + 1])) {
+      paragraph.push(lines[index]!.trim());
+      index += 1;
+    }
+    blocks.push({ kind: 'paragraph', runs: fnParseRichTextInline(paragraph.join(' ')) });
+  }
+
+  return blocks;
+}
+
+/** The first heading, or the first paragraph, as plain text. Empty when the note has neither. */
+export function fnGetNoteTitle(data: Pick<TNoteData, 'markdown'>): string {
+  const blocks = fnParseNoteMarkdown(data.markdown);
+  const first = blocks.find((block) => block.kind === 'heading') ?? blocks.find((block) => block.kind === 'paragraph');
+  return first && 'runs' in first ? first.runs.map((run) => run.text).join('') : '';
+}
+
+/** Flips the task checkbox on `line`. Lines that are not task items are returned unchanged. */
+export function fnToggleNoteTask(markdown: string, line: number): string {
+  const lines = markdown.split('\n');
+  const source = lines[line];
+  if (source === undefined) return markdown;
+
+  const match = /^(\s*(?:[-*+]|\d{1,9}[.)])\s+\[)([ xX])(\]\s)/.exec(source);
+  if (!match) return markdown;
+  lines[line] = match[1] + (match[2] === ' ' ? 'x' : ' ') + match[3] + source.slice(match[0].length);
+  return lines.join('\n');
+}
@@ -0,0 +1,305 @@
+import type { TTextData } from '@vibecanvas/service-automerge/types/canvas-doc';
+
+export type TRichTextMarks = {
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  strike: boolean;
+  link: string | null;
+};
+
+export type TRichTextRun = TRichTextMarks & { text: string };
+
+export type TRichTextBlock =
+  | { kind: 'paragraph'; runs: TRichTextRun[] }
+  | { kind: 'heading'; level: 1 | 2 | 3; runs: TRichTextRun[] }
+  | { kind: 'bullet'; runs: TRichTextRun[] }
+  | { kind: 'numbered'; number: number; runs: TRichTextRun[] };
+
+/** Width of `text` set in the CSS `font`, whose pixel size is `size`. */
+export type TRichTextMeasure = (text: string, size: number, font: string) => number;
+
+export type TRichTextSegment = TRichTextRun & {
+  /** Offset from the start of the line's text, after the list indent. */
+  x: number;
+  width: number;
+  size: number;
+  font: string;
+};
+
+export type TRichTextLine = {
+  y: number;
+  height: number;
+  /** Full line width including the list indent. */
+  width: number;
+  indent: number;
+  /** List bullet or number, drawn in the indent of an item's first line. */
+  marker: string;
+  markerFont: string;
+  segments: TRichTextSegment[];
+};
+
+export type TRichTextLayout = { lines: TRichTextLine[]; width: number; height: number };
+
+export const RICH_TEXT_HEADING_SCALE: Record<1 | 2 | 3, number> = { 1: 1.6, 2: 1.35, 3: 1.15 };
+export const RICH_TEXT_LIST_INDENT = 1.5;
+export const RICH_TEXT_CODE_FONT_FAMILY = 'monospace';
+export const RICH_TEXT_CODE_BACKGROUND = 'rgba(120, 113, 108, 0.18)';
+export const RICH_TEXT_LINK_COLOR = '#2563eb';
+
+const RICH_TEXT_CHAR_WIDTH_RATIO = 0.55;
+
+/** Average glyph width, for headless callers without font metrics. */
+export const fnEstimateRichTextWidth: TRichTextMeasure = (text, size) => text.length * size * RICH_TEXT_CHAR_WIDTH_RATIO;
+
+const PLAIN_MARKS: TRichTextMarks = { bold: false, italic: false, code: false, strike: false, link: null };
+const ESCAPABLE = new Set(['\\', '`', '*', '_', '~', '[', ']', '#', '-', '+', '.', ')']);
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+function pushRun(runs: TRichTextRun[], run: TRichTextRun) {
+  if (!run.text) return;
+  const last = runs.at(-1);
+  if (last && last.bold === run.bold && last.italic === run.italic && last.code === run.code && last.strike === run.strike && last.link === run.link) {
+    last.text += run.text;
+    return;
+  }
+  runs.push(run);
+}
+
+/**
+ * Inline markdown: `**bold**`, `*italic*` or `_italic_`, `~~strike~~`, `` `code` `` and
+ * `[label](url)`. A marker only opens when it is closed later on the line and hugs the text, so
+ * stray asterisks stay literal, and `_` only counts at word boundaries so snake_case is left alone.
+ */
+function parseInline(source: string, base: TRichTextMarks): TRichTextRun[] {
+  const runs: TRichTextRun[] = [];
+  const marks = { ...base };
+  let italicMarker: string | null = null;
+  let buffer = '';
+  const flush = () => {
+    pushRun(runs, { ...marks, text: buffer });
+    buffer = '';
+  };
+
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index]!;
+    const next = source[index + 1];
+
+    if (char === '\\' && next !== undefined && ESCAPABLE.has(next)) {
+      buffer += next;
+      index += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = source.indexOf('`', index + 1);
+      if (end > index + 1) {
+        flush();
+        pushRun(runs, { ...marks, code: true, text: source.slice(index + 1, end) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const match = /^\[([^\]]+)\]\(([^)\s]+)\)/.exec(source.slice(index));
+      if (match) {
+        flush();
+        parseInline(match[1]!, { ...marks, link: match[2]! }).forEach((run) => pushRun(runs, run));
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    const pair = source.startsWith('**', index) ? '**' : source.startsWith('~~', index) ? '~~' : null;
+    if (pair) {
+      const key = pair === '**' ? 'bold' : 'strike';
+      if (marks[key] || source.indexOf(pair, index + 2) > index + 2) {
+        flush();
+        marks[key] = !marks[key];
+        index += 2;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const previous = source[index - 1];
+      const closing: boolean = italicMarker === char
+        && previous !== undefined && previous.trim() !== ''
+        && (char === '*' || next === undefined || !WORD_CHAR.test(next));
+      const opening: boolean = italicMarker === null
+        && next !== undefined && next.trim() !== ''
+        && (char === '*' || previous === undefined || !WORD_CHAR.test(previous))
+        && source.indexOf(char, index + 2) > index + 1;
+      if (closing || opening) {
+        flush();
+        marks.italic = opening;
+        italicMarker = opening ? char : null;
+        index += 1;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index += 1;
+  }
+  flush();
+  return runs;
+}
+
+/** Inline runs of a single line of markdown, for callers that do their own block parsing. */
+export function fnParseRichTextInline(source: string): TRichTextRun[] {
+  return parseInline(source, PLAIN_MARKS);
+}
+
+/** Splits markdown into one block per line: `#`–`###` headings, `-` bullets, `1.` numbered items, paragraphs. */
+export function fnParseRichText(markdown: string): TRichTextBlock[] {
+  return markdown.split('\n').map((line): TRichTextBlock => {
+    const heading = /^(#{1,3}) (.*)$/.exec(line);
+    if (heading) return { kind: 'heading', level: heading[1]!.length as 1 | 2 | 3, runs: parseInline(heading[2]!, PLAIN_MARKS) };
+
+    const bullet = /^[-*+] (.*)$/.exec(line);
+    if (bullet) return { kind: 'bullet', runs: parseInline(bullet[1]!, PLAIN_MARKS) };
+
+    const numbered = /^(\d{1,9})[.)] (.*)$/.exec(line);
+    if (numbered) return { kind: 'numbered', number: Number(numbered[1]), runs: parseInline(numbered[2]!, PLAIN_MARKS) };
+
+    return { kind: 'paragraph', runs: parseInline(line, PLAIN_MARKS) };
+  });
+}
+
+export function fnGetRichTextMarker(block: TRichTextBlock): string {
+  if (block.kind === 'bullet') return '•';
+  if (block.kind === 'numbered') return `${block.number}.`;
+  return '';
+}
+
+/** Plain-text rendering of markdown, as stored in `text` for clients without rich text. */
+export function fnRichTextToPlain(markdown: string): string {
+  return fnParseRichText(markdown)
+    .map((block) => {
+      const marker = fnGetRichTextMarker(block);
+      const text = block.runs.map((run) => run.text).join('');
+      return marker ? `${marker} ${text}` : text;
+    })
+    .join('\n');
+}
+
+/** Escapes plain text so it reads back unchanged as markdown. */
+export function fnEscapeRichText(plain: string): string {
+  return plain
+    .split('\n')
+    .map((line) => line
+      .replace(/[\\`*_~[\]]/g, '\\$&')
+      .replace(/^(#{1,3}) /, '\\$1 ')
+      .replace(/^([-+]) /, '\\$1 ')
+      .replace(/^(\d{1,9})([.)]) /, '$1\\$2 '))
+    .join('\n');
+}
+
+/**
+ * The element's markdown, or null for plain text. Markdown whose plain rendering no longer matches
+ * `text` was overwritten by a client without rich text support, so the plain text wins.
+ */
+export function fnGetTextMarkdown(data: Pick<TTextData, 'text' | 'markdown'>): string | null {
+  if (typeof data.markdown !== 'string') return null;
+  return fnRichTextToPlain(data.markdown) === data.text ? data.markdown : null;
+}
+
+/** The markdown source to edit for a text element. */
+export function fnGetTextSource(data: Pick<TTextData, 'text' | 'markdown'>): string {
+  return fnGetTextMarkdown(data) ?? fnEscapeRichText(data.text);
+}
+
+/** Text fields for edited markdown. Input without any formatting is stored as plain text only. */
+export function fnBuildRichTextFields(source: string): { text: string; originalText: string; markdown: string | null } {
+  const text = fnRichTextToPlain(source);
+  return { text, originalText: text, markdown: text === source ? null : source };
+}
+
+/** Links that may be opened or exported as anchors; anything else renders as styled text only. */
+export function fnIsSafeRichTextLink(link: string): boolean {
+  return /^(https?:|mailto:)/i.test(link);
+}
+
+export function fnGetRichTextFont(marks: Pick<TRichTextMarks, 'bold' | 'italic' | 'code'>, size: number, fontFamily: string): string {
+  return `${marks.italic ? 'italic ' : ''}${marks.bold ? 'bold ' : ''}${size}px ${marks.code ? RICH_TEXT_CODE_FONT_FAMILY : fontFamily}`;
+}
+
+/** Horizontal offset of a line inside a box of `boxWidth`. */
+export function fnGetRichTextLineOffset(lineWidth: number, align: TTextData['textAlign'], boxWidth: number): number {
+  if (align === 'center') return (boxWidth - lineWidth) / 2;
+  if (align === 'right') return boxWidth - lineWidth;
+  return 0;
+}
+
+function wrapRuns(runs: TRichTextRun[], size: number, fontFamily: string, maxWidth: number, measure: TRichTextMeasure): TRichTextSegment[][] {
+  const lines: TRichTextSegment[][] = [[]];
+  let x = 0;
+
+  for (const run of runs) {
+    const font = fnGetRichTextFont(run, size, fontFamily);
+    for (const token of run.text.split(/( +)/)) {
+      if (!token) continue;
+      const isSpace = token.trim() === '';
+      const width = measure(token, size, font);
+      let line = lines.at(-1)!;
+      if (!isSpace && x > 0 && x + width > maxWidth) {
+        line = [];
+        lines.push(line);
+        x = 0;
+      }
+      if (isSpace && x === 0 && lines.length > 1) continue;
+
+      const last = line.at(-1);
+      if (last && last.font === font && last.link === run.link && last.strike === run.strike) {
+        last.text += token;
+        last.width += width;
+      } else {
+        line.push({ ...run, text: token, x, width, size, font });
+      }
+      x += width;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Lays markdown out line by line. Headings are larger and bold, list items are indented with their
+ * marker in the indent. With a `maxWidth`, lines wrap between words.
+ */
+export function fnLayoutRichText(
+  markdown: string,
+  style: { fontSize: number; fontFamily: string; lineHeight: number; maxWidth: number | null },
+  measure: TRichTextMeasure,
+): TRichTextLayout {
+  const lines: TRichTextLine[] = [];
+  let y = 0;
+  let width = 0;
+
+  for (const block of fnParseRichText(markdown)) {
+    const size = block.kind === 'heading' ? style.fontSize * RICH_TEXT_HEADING_SCALE[block.level] : style.fontSize;
+    const indent = block.kind === 'bullet' || block.kind === 'numbered' ? style.fontSize * RICH_TEXT_LIST_INDENT : 0;
+    const runs = block.kind === 'heading' ? block.runs.map((run) => ({ ...run, bold: true })) : block.runs;
+    const height = size * style.lineHeight;
+    const maxWidth = style.maxWidth === null ? Infinity : Math.max(1, style.maxWidth - indent);
+
+    wrapRuns(runs, size, style.fontFamily, maxWidth, measure).forEach((segments, index) => {
+      const textWidth = segments.reduce((sum, segment) => sum + segment.width, 0);
+      lines.push({
+        y,
+        height,
+        width: indent + textWidth,
+        indent,
+        marker: index === 0 ? fnGetRichTextMarker(block) : '',
+        markerFont: fnGetRichTextFont(PLAIN_MARKS, size, style.fontFamily),
+        segments,
+      });
+      y += height;
+      width = Math.max(width, indent + textWidth);
+    });
+  }
+
+  return { lines, width, height: y };
+}
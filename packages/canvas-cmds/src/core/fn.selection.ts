@@ -0,0 +1,25 @@
+import { fnSortIds } from './fn.canvas';
+
+export const CANVAS_SELECTION_MESSAGE_TYPE = 'vibecanvas.selection';
+
+/**
+ * Ephemeral message a browser broadcasts on the canvas doc handle when its selection changes.
+ * It is never stored in the document; only peers connected at the time receive it.
+ */
+export type TCanvasSelectionMessage = {
+  type: typeof CANVAS_SELECTION_MESSAGE_TYPE;
+  /** Change origin of the sender, e.g. `web:<client-id>`. */
+  origin: string;
+  ids: string[];
+};
+
+export function fnBuildCanvasSelectionMessage(origin: string, ids: readonly string[]): TCanvasSelectionMessage {
+  return { type: CANVAS_SELECTION_MESSAGE_TYPE, origin, ids: fnSortIds([...new Set(ids)]) };
+}
+
+export function fnParseCanvasSelectionMessage(message: unknown): TCanvasSelectionMessage | null {
+  if (typeof message !== 'object' || message === null) return null;
+  const candidate = message as Partial<TCanvasSelectionMessage>;
+  if (candidate.type !== CANVAS_SELECTION_MESSAGE_TYPE || typeof candidate.origin !== 'string' || !Array.isArray(candidate.ids)) return null;
+  return fnBuildCanvasSelectionMessage(candidate.origin, candidate.ids.filter((id): id is string => typeof id === 'string'));
+}
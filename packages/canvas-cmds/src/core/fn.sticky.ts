@@ -0,0 +1,121 @@
+import type { TStickyColor, TStickyData } from '@vibecanvas/service-automerge/types/canvas-doc';
+
+/** Width of `text` set at `fontSize`, in world units. */
+export type TStickyMeasure = (text: string, fontSize: number) => number;
+
+export type TStickyLayout = {
+  fontSize: number;
+  lines: string[];
+  /** Height the note is drawn at. Only differs from `data.h` for growing notes. */
+  h: number;
+};
+
+export const STICKY_COLORS: Record<TStickyColor, string> = {
+  yellow: '#fef08a',
+  orange: '#fed7aa',
+  pink: '#fbcfe8',
+  purple: '#e9d5ff',
+  blue: '#bfdbfe',
+  green: '#bbf7d0',
+};
+export const STICKY_COLOR_NAMES = Object.keys(STICKY_COLORS) as TStickyColor[];
+export const STICKY_DEFAULT_COLOR: TStickyColor = 'yellow';
+export const STICKY_DEFAULT_SIZE = 200;
+export const STICKY_DEFAULT_FONT_SIZE = 20;
+export const STICKY_MIN_FONT_SIZE = 8;
+export const STICKY_PADDING = 14;
+export const STICKY_LINE_HEIGHT = 1.25;
+export const STICKY_FONT_FAMILY = 'sans-serif';
+export const STICKY_TEXT_COLOR = '#1c1917';
+export const STICKY_FOOTER_HEIGHT = 22;
+export const STICKY_FOOTER_FONT_SIZE = 11;
+export const STICKY_FOOTER_COLOR = '#78716c';
+
+const STICKY_CHAR_WIDTH_RATIO = 0.55;
+
+/** Average glyph width, for headless callers without font metrics. */
+export const fnEstimateStickyTextWidth: TStickyMeasure = (text, fontSize) => text.length * fontSize * STICKY_CHAR_WIDTH_RATIO;
+
+export function fnIsStickyColor(value: unknown): value is TStickyColor {
+  return typeof value === 'string' && Object.hasOwn(STICKY_COLORS, value);
+}
+
+function breakWord(word: string, maxWidth: number, fontSize: number, measure: TStickyMeasure): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  for (const char of word) {
+    if (current && measure(current + char, fontSize) > maxWidth) {
+      pieces.push(current);
+      current = char;
+      continue;
+    }
+    current += char;
+  }
+  pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Greedy word wrap. Words wider than a whole line are broken between characters, so every line
+ * fits `maxWidth` and only the line count depends on the font size.
+ */
+export function fnWrapStickyText(text: string, maxWidth: number, fontSize: number, measure: TStickyMeasure): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measure(candidate, fontSize) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      const pieces = breakWord(word, maxWidth, fontSize, measure);
+      lines.push(...pieces.slice(0, -1));
+      current = pieces.at(-1)!;
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Lays out a note's text. `fit` notes keep their size and shrink the font (down to
+ * STICKY_MIN_FONT_SIZE) until the text fits above the footer. `grow` notes keep the font and stay
+ * square until the text needs more room, then grow downwards.
+ */
+export function fnLayoutSticky(data: Pick<TStickyData, 'w' | 'h' | 'text' | 'fontSize' | 'autoSize'>, measure: TStickyMeasure): TStickyLayout {
+  const textWidth = Math.max(1, data.w - STICKY_PADDING * 2);
+  const chrome = STICKY_PADDING * 2 + STICKY_FOOTER_HEIGHT;
+
+  if (data.autoSize === 'grow') {
+    const lines = fnWrapStickyText(data.text, textWidth, data.fontSize, measure);
+    return { fontSize: data.fontSize, lines, h: Math.max(data.w, lines.length * data.fontSize * STICKY_LINE_HEIGHT + chrome) };
+  }
+
+  const available = data.h - chrome;
+  for (let fontSize = data.fontSize; fontSize > STICKY_MIN_FONT_SIZE; fontSize -= 1) {
+    const lines = fnWrapStickyText(data.text, textWidth, fontSize, measure);
+    if (lines.length * fontSize * STICKY_LINE_HEIGHT <= available) return { fontSize, lines, h: data.h };
+  }
+  return { fontSize: STICKY_MIN_FONT_SIZE, lines: fnWrapStickyText(data.text, textWidth, STICKY_MIN_FONT_SIZE, measure), h: data.h };
+}
+
+/** Vertical center of the footer line in note-local coordinates. */
+export function fnGetStickyFooterY(h: number): number {
+  return h - STICKY_PADDING / 2 - STICKY_FOOTER_HEIGHT / 2;
+}
+
+/** Footer line: the author, when known, and the day the note was created. */
+export function fnFormatStickyFooter(author: string | null, createdAt: number): string {
+  const day = new Date(createdAt).toISOString().slice(0, 10);
+  return author ? `${author} · ${day}` : day;
+}
+
+/** Cuts `text` to `maxWidth` with a trailing ellipsis. */
+export function fnTruncateStickyLine(text: string, maxWidth: number, fontSize: number, measure: TStickyMeasure): string {
+  if (measure(text, fontSize) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && measure(`${text.slice(0, end)}…`, fontSize) > maxWidth) end -= 1;
+  return `${text.slice(0, end)}…`;
+}
@@ -0,0 +1,705 @@
+import { getStroke, type StrokeOptions } from 'perfect-freehand';
+import type { TArrowData, TCanvasDoc, TElement, TElementStyle, TFrameData, TGroup, TLineData, TPoint2D, TStickyData, TTextData } from '@vibecanvas/service-automerge/types/canvas-doc';
+import {
+  STICKY_COLORS,
+  STICKY_FONT_FAMILY,
+  STICKY_FOOTER_COLOR,
+  STICKY_FOOTER_FONT_SIZE,
+  STICKY_LINE_HEIGHT,
+  STICKY_PADDING,
+  STICKY_TEXT_COLOR,
+  fnEstimateStickyTextWidth,
+  fnFormatStickyFooter,
+  fnGetStickyFooterY,
+  fnLayoutSticky,
+  fnTruncateStickyLine,
+} from './fn.sticky';
+import {
+  RICH_TEXT_CODE_BACKGROUND,
+  RICH_TEXT_LINK_COLOR,
+  fnEstimateRichTextWidth,
+  fnGetRichTextLineOffset,
+  fnGetTextMarkdown,
+  fnIsSafeRichTextLink,
+  fnLayoutRichText,
+} from './fn.rich-text';
+import { fnGetNoteTitle } from './fn.note';
+
+export type TSvgExportBounds = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+export type TSvgExportOptions = {
+  /** Export only these element/group ids. Groups expand to their subtree, frames to their contents, containers pull in their attached text. */
+  ids?: readonly string[] | null;
+  padding?: number;
+  scale?: number;
+  /** CSS color painted behind the scene. `null` keeps the background transparent. */
+  background?: string | null;
+  /** Resolved image sources by element id, e.g. data URIs for `/files/...` urls. */
+  imageHrefs?: Readonly<Record<string, string>>;
+};
+
+export type TSvgExportResult = {
+  svg: string;
+  bounds: TSvgExportBounds;
+  width: number;
+  height: number;
+  elementIds: string[];
+};
+
+export const SVG_EXPORT_DEFAULT_PADDING = 16;
+export const SVG_EXPORT_DEFAULT_BACKGROUND = '#ffffff';
+
+const SHAPE2D_DEFAULT_STROKE_WIDTH = 2;
+const SHAPE1D_DEFAULT_STROKE_COLOR = '#0f172a';
+const SHAPE1D_DEFAULT_STROKE_WIDTH = 4;
+const SHAPE1D_DEFAULT_OPACITY = 0.92;
+const PEN_DEFAULT_COLOR = '#0f172a';
+const PEN_DEFAULT_STROKE_WIDTH = 7;
+const PEN_DEFAULT_OPACITY = 0.92;
+const TEXT_DEFAULT_COLOR = '#000000';
+const TEXT_CHAR_WIDTH_RATIO = 0.55;
+const WIDGET_HEADER_HEIGHT = 28;
+const FRAME_TITLE_HEIGHT = 24;
+const FRAME_TITLE_FONT_SIZE = 12;
+const FRAME_DEFAULT_STROKE_COLOR = '#d4d4d8';
+const FRAME_DEFAULT_STROKE_WIDTH = 1;
+const FRAME_TITLE_COLOR = '#71717a';
+
+const PEN_STROKE_OPTIONS: StrokeOptions = {
+  size: PEN_DEFAULT_STROKE_WIDTH,
+  thinning: 0.6,
+  smoothing: 0.5,
+  streamline: 0.35,
+  simulatePressure: true,
+  last: true,
+  start: { cap: true },
+  end: { cap: true },
+};
+
+type TLocalBox = { x: number; y: number; w: number; h: number };
+
+function fmt(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+export function fnEscapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function attrs(values: Record<string, string | number | null | undefined>): string {
+  return Object.entries(values)
+    .filter((entry): entry is [string, string | number] => entry[1] !== null && entry[1] !== undefined)
+    .map(([key, value]) => `${key}="${typeof value === 'number' ? fmt(value) : fnEscapeXml(value)}"`)
+    .join(' ');
+}
+
+function compareByZIndex(left: { id: string; zIndex: string }, right: { id: string; zIndex: string }): number {
+  if (left.zIndex !== right.zIndex) return left.zIndex < right.zIndex ? -1 : 1;
+  return left.id.localeCompare(right.id);
+}
+
+/**
+ * Elements in paint order: siblings sorted by zIndex, groups painted in place with their subtree.
+ * With `ids`, the export is narrowed to those elements, the subtrees of those groups,
+ * the contents of those frames, and text attached to any exported container.
+ */
+export function fnCollectExportElements(doc: TCanvasDoc, ids?: readonly string[] | null): TElement[] {
+  const included = ids ? collectIncludedElementIds(doc, ids) : null;
+  const ordered: TElement[] = [];
+
+  const visit = (parentGroupId: string | null, visitedGroups: Set<string>) => {
+    const children: Array<{ id: string; zIndex: string; kind: 'element' | 'group' }> = [
+      ...Object.values(doc.groups).filter((group) => group.parentGroupId === parentGroupId).map((group) => ({ id: group.id, zIndex: group.zIndex, kind: 'group' as const })),
+      ...Object.values(doc.elements).filter((element) => element.parentGroupId === parentGroupId).map((element) => ({ id: element.id, zIndex: element.zIndex, kind: 'element' as const })),
+    ];
+
+    for (const child of children.sort(compareByZIndex)) {
+      if (child.kind === 'group') {
+        if (visitedGroups.has(child.id)) continue;
+        visitedGroups.add(child.id);
+        visit(child.id, visitedGroups);
+        continue;
+      }
+
+      const element = doc.elements[child.id];
+      if (element && (!included || included.has(element.id))) ordered.push(element);
+    }
+  };
+
+  visit(null, new Set());
+
+  // Elements whose parent group no longer exists would never be reached from the root.
+  const reached = new Set(ordered.map((element) => element.id));
+  const orphans = Object.values(doc.elements)
+    .filter((element) => !reached.has(element.id) && element.parentGroupId !== null && !doc.groups[element.parentGroupId])
+    .filter((element) => !included || included.has(element.id))
+    .sort(compareByZIndex);
+
+  return [...ordered, ...orphans];
+}
+
+function collectIncludedElementIds(doc: TCanvasDoc, ids: readonly string[]): Set<string> {
+  const included = new Set<string>();
+  const pendingGroups: string[] = [];
+
+  for (const id of ids) {
+    if (doc.elements[id]) included.add(id);
+    if (doc.groups[id]) pendingGroups.push(id);
+  }
+
+  const visitedGroups = new Set<string>();
+  while (pendingGroups.length > 0) {
+    const groupId = pendingGroups.pop()!;
+    if (visitedGroups.has(groupId)) continue;
+    visitedGroups.add(groupId);
+
+    for (const element of Object.values(doc.elements)) {
+      if (element.parentGroupId === groupId) included.add(element.id);
+    }
+    for (const group of Object.values(doc.groups) as TGroup[]) {
+      if (group.parentGroupId === groupId) pendingGroups.push(group.id);
+    }
+  }
+
+  for (const element of Object.values(doc.elements)) {
+    if (element.frameId && included.has(element.frameId) && doc.elements[element.frameId]?.data.type === 'frame') {
+      included.add(element.id);
+    }
+  }
+
+  for (const element of Object.values(doc.elements)) {
+    if (element.data.type === 'text' && element.data.containerId && included.has(element.data.containerId)) {
+      included.add(element.id);
+    }
+  }
+
+  return included;
+}
+
+function getShape1dStrokeWidth(style: TElementStyle): number {
+  return style.strokeWidth ?? SHAPE1D_DEFAULT_STROKE_WIDTH;
+}
+
+function getPenSize(style: TElementStyle): number {
+  return style.strokeWidth ?? PEN_DEFAULT_STROKE_WIDTH;
+}
+
+function getPointsBox(points: readonly TPoint2D[], pad: number): TLocalBox {
+  if (points.length === 0) return { x: -pad, y: -pad, w: pad * 2, h: pad * 2 };
+  const xs = points.map((point) => point[0]);
+  const ys = points.map((point) => point[1]);
+  const minX = Math.min(...xs) - pad;
+  const minY = Math.min(...ys) - pad;
+  return { x: minX, y: minY, w: Math.max(...xs) + pad - minX, h: Math.max(...ys) + pad - minY };
+}
+
+/**
+ * Unrotated box in the element's own coordinate space, padded for strokes and caps.
+ * The origin is the element position, except for ellipses which rotate about their center.
+ */
+function getLocalBox(element: TElement): TLocalBox {
+  const data = element.data;
+
+  if (data.type === 'ellipse') {
+    const half = (element.style.strokeColor ? element.style.strokeWidth ?? SHAPE2D_DEFAULT_STROKE_WIDTH : 0) / 2;
+    return { x: -data.rx - half, y: -data.ry - half, w: data.rx * 2 + half * 2, h: data.ry * 2 + half * 2 };
+  }
+
+  if (data.type === 'line' || data.type === 'arrow') {
+    const strokeWidth = getShape1dStrokeWidth(element.style);
+    const base = strokeWidth / 2;
+    const pad = data.type === 'arrow' && (data.startCap !== 'none' || data.endCap !== 'none')
+      ? Math.max(base, Math.max(12, strokeWidth * 4), Math.max(4, strokeWidth * 1.6) + strokeWidth / 2)
+      : base;
+    return getPointsBox(data.points, pad);
+  }
+
+  if (data.type === 'pen') {
+    return getPointsBox(data.points, getPenSize(element.style) / 2);
+  }
+
+  if (data.type === 'frame') {
+    const half = (element.style.strokeWidth ?? FRAME_DEFAULT_STROKE_WIDTH) / 2;
+    return { x: -half, y: -FRAME_TITLE_HEIGHT, w: data.w + half * 2, h: data.h + FRAME_TITLE_HEIGHT + half };
+  }
+
+  const half = (data.type === 'rect' || data.type === 'diamond') && element.style.strokeColor
+    ? (element.style.strokeWidth ?? SHAPE2D_DEFAULT_STROKE_WIDTH) / 2
+    : 0;
+  return { x: -half, y: -half, w: data.w + half * 2, h: data.h + half * 2 };
+}
+
+function getElementOrigin(element: TElement): { x: number; y: number } {
+  if (element.data.type === 'ellipse') return { x: element.x + element.data.rx, y: element.y + element.data.ry };
+  return { x: element.x, y: element.y };
+}
+
+/**
+ * World-space bounds of the painted element, including rotation, stroke width, and connector caps.
+ */
+export function fnGetExportElementBounds(element: TElement): TSvgExportBounds {
+  const box = getLocalBox(element);
+  const origin = getElementOrigin(element);
+  const radians = (element.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const corners = [
+    [box.x, box.y],
+    [box.x + box.w, box.y],
+    [box.x + box.w, box.y + box.h],
+    [box.x, box.y + box.h],
+  ].map(([x, y]) => [origin.x + x! * cos - y! * sin, origin.y + x! * sin + y! * cos] as const);
+
+  const minX = Math.min(...corners.map((corner) => corner[0]));
+  const minY = Math.min(...corners.map((corner) => corner[1]));
+  const maxX = Math.max(...corners.map((corner) => corner[0]));
+  const maxY = Math.max(...corners.map((corner) => corner[1]));
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+function unionBounds(bounds: TSvgExportBounds[]): TSvgExportBounds | null {
+  if (bounds.length === 0) return null;
+  const minX = Math.min(...bounds.map((entry) => entry.x));
+  const minY = Math.min(...bounds.map((entry) => entry.y));
+  const maxX = Math.max(...bounds.map((entry) => entry.x + entry.w));
+  const maxY = Math.max(...bounds.map((entry) => entry.y + entry.h));
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+function getTransform(element: TElement): string {
+  const origin = getElementOrigin(element);
+  const translate = `translate(${fmt(origin.x)} ${fmt(origin.y)})`;
+  return element.rotation ? `${translate} rotate(${fmt(element.rotation)})` : translate;
+}
+
+function getShape2dPaint(style: TElementStyle) {
+  return {
+    fill: style.backgroundColor ?? 'none',
+    stroke: style.strokeColor ?? null,
+    'stroke-width': style.strokeColor ? style.strokeWidth ?? SHAPE2D_DEFAULT_STROKE_WIDTH : null,
+  };
+}
+
+function getLinePath(data: TLineData | TArrowData): string {
+  const [first, ...rest] = data.points;
+  if (!first) return '';
+
+  let path = `M${fmt(first[0])} ${fmt(first[1])}`;
+  if (data.lineType === 'curved' && data.points.length > 2) {
+    for (let index = 0; index < data.points.length - 1; index += 1) {
+      const p0 = data.points[index - 1] ?? data.points[index]!;
+      const p1 = data.points[index]!;
+      const p2 = data.points[index + 1]!;
+      const p3 = data.points[index + 2] ?? p2;
+      const cp1 = [p1[0] + (p2[0] - p0[0]) / 6, p1[1] + (p2[1] - p0[1]) / 6];
+      const cp2 = [p2[0] - (p3[0] - p1[0]) / 6, p2[1] - (p3[1] - p1[1]) / 6];
+      path += ` C${fmt(cp1[0]!)} ${fmt(cp1[1]!)} ${fmt(cp2[0]!)} ${fmt(cp2[1]!)} ${fmt(p2[0])} ${fmt(p2[1])}`;
+    }
+    return path;
+  }
+
+  for (const point of rest) path += ` L${fmt(point[0])} ${fmt(point[1])}`;
+  return path;
+}
+
+function getCapPath(data: TArrowData, edge: 'start' | 'end', strokeWidth: number): string {
+  const capType = edge === 'start' ? data.startCap : data.endCap;
+  if (capType === 'none') return '';
+
+  const anchor = edge === 'start' ? data.points[0] : data.points[data.points.length - 1];
+  const adjacent = edge === 'start' ? data.points[1] : data.points[data.points.length - 2];
+  if (!anchor || !adjacent) return '';
+
+  const dx = anchor[0] - adjacent[0];
+  const dy = anchor[1] - adjacent[1];
+  const length = Math.hypot(dx, dy) || 1;
+  const ux = dx / length;
+  const uy = dy / length;
+  const px = -uy;
+  const py = ux;
+  const capLength = Math.max(12, strokeWidth * 4);
+  const capWidth = Math.max(8, strokeWidth * 2.5);
+  const [tipX, tipY] = anchor;
+  const baseX = tipX - ux * capLength;
+  const baseY = tipY - uy * capLength;
+
+  if (capType === 'dot') {
+    const radius = Math.max(4, strokeWidth * 1.6);
+    return `M${fmt(tipX + radius)} ${fmt(tipY)} A${fmt(radius)} ${fmt(radius)} 0 1 1 ${fmt(tipX - radius)} ${fmt(tipY)} A${fmt(radius)} ${fmt(radius)} 0 1 1 ${fmt(tipX + radius)} ${fmt(tipY)} Z`;
+  }
+
+  if (capType === 'arrow') {
+    return `M${fmt(tipX)} ${fmt(tipY)} L${fmt(baseX + px * (capWidth / 2))} ${fmt(baseY + py * (capWidth / 2))} L${fmt(baseX - px * (capWidth / 2))} ${fmt(baseY - py * (capWidth / 2))} Z`;
+  }
+
+  const middleX = tipX - ux * (capLength / 2);
+  const middleY = tipY - uy * (capLength / 2);
+  return `M${fmt(tipX)} ${fmt(tipY)} L${fmt(middleX + px * (capWidth / 2))} ${fmt(middleY + py * (capWidth / 2))} L${fmt(baseX)} ${fmt(baseY)} L${fmt(middleX - px * (capWidth / 2))} ${fmt(middleY - py * (capWidth / 2))} Z`;
+}
+
+function getPenPath(element: TElement): string {
+  if (element.data.type !== 'pen' || element.data.points.length < 2) return '';
+  const data = element.data;
+
+  const outline = getStroke(
+    data.points.map((point, index) => [point[0], point[1], data.pressures[index] ?? 0.5]),
+    { ...PEN_STROKE_OPTIONS, size: getPenSize(element.style), simulatePressure: data.simulatePressure },
+  );
+  if (outline.length < 4) return '';
+
+  const average = (a: number, b: number) => (a + b) / 2;
+  let a = outline[0]!;
+  let b = outline[1]!;
+  const c = outline[2]!;
+  let path = `M${fmt(a[0]!)},${fmt(a[1]!)} Q${fmt(b[0]!)},${fmt(b[1]!)} ${fmt(average(b[0]!, c[0]!))},${fmt(average(b[1]!, c[1]!))} T`;
+  for (let index = 2; index < outline.length - 1; index += 1) {
+    a = outline[index]!;
+    b = outline[index + 1]!;
+    path += `${fmt(average(a[0]!, b[0]!))},${fmt(average(a[1]!, b[1]!))} `;
+  }
+  return `${path}Z`;
+}
+
+/**
+ * Greedy word wrap with an average glyph width. Headless exports have no font metrics,
+ * so wrapped lines are close to, but not exactly, what the canvas shows.
+ */
+function wrapTextLines(data: TTextData, wrap: boolean): string[] {
+  const paragraphs = data.text.split('\n');
+  if (!wrap || data.w <= 0) return paragraphs;
+
+  const maxChars = Math.max(1, Math.floor(data.w / (data.fontSize * TEXT_CHAR_WIDTH_RATIO)));
+  const lines: string[] = [];
+  for (const paragraph of paragraphs) {
+    let current = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (candidate.length <= maxChars || !current) {
+        current = candidate;
+        continue;
+      }
+      lines.push(current);
+      current = word;
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Rich text is positioned segment by segment from the shared layout, with the same estimated glyph
+ * widths as plain text.
+ */
+function renderRichText(element: TElement & { data: TTextData }, markdown: string): string {
+  const data = element.data;
+  const fill = element.style.strokeColor ?? TEXT_DEFAULT_COLOR;
+  const layout = fnLayoutRichText(
+    markdown,
+    { fontSize: data.fontSize, fontFamily: data.fontFamily, lineHeight: data.lineHeight, maxWidth: data.containerId !== null ? data.w : null },
+    fnEstimateRichTextWidth,
+  );
+  const top = data.verticalAlign === 'middle' ? (data.h - layout.height) / 2 : data.verticalAlign === 'bottom' ? data.h - layout.height : 0;
+
+  const backgrounds: string[] = [];
+  const tspans: string[] = [];
+  for (const line of layout.lines) {
+    const left = fnGetRichTextLineOffset(line.width, data.textAlign, data.w);
+    const y = top + line.y + line.height / 2;
+    if (line.marker) {
+      tspans.push(`<tspan ${attrs({ x: left, y, 'font-size': line.segments[0]?.size ?? data.fontSize })}>${fnEscapeXml(line.marker)}</tspan>`);
+    }
+    for (const segment of line.segments) {
+      const x = left + line.indent + segment.x;
+      if (segment.code) {
+        backgrounds.push(`<rect ${attrs({ x, y: y - segment.size * 0.65, width: segment.width, height: segment.size * 1.3, rx: 2, fill: RICH_TEXT_CODE_BACKGROUND })}/>`);
+      }
+      const decoration = [segment.link ? 'underline' : null, segment.strike ? 'line-through' : null].filter(Boolean).join(' ');
+      const tspan = `<tspan ${attrs({
+        x,
+        y,
+        'font-size': segment.size,
+        'font-weight': segment.bold ? 'bold' : null,
+        'font-style': segment.italic ? 'italic' : null,
+        'font-family': segment.code ? 'monospace' : null,
+        'text-decoration': decoration || null,
+        fill: segment.link ? RICH_TEXT_LINK_COLOR : null,
+      })}>${fnEscapeXml(segment.text)}</tspan>`;
+      tspans.push(segment.link && fnIsSafeRichTextLink(segment.link) ? `<a ${attrs({ href: segment.link })}>${tspan}</a>` : tspan);
+    }
+  }
+
+  const text = `<text ${attrs({
+    'font-family': `${data.fontFamily}, sans-serif`,
+    'font-size': data.fontSize,
+    fill,
+    'dominant-baseline': 'central',
+    'xml:space': 'preserve',
+  })}>${tspans.join('')}</text>`;
+  return backgrounds.join('') + text;
+}
+
+function renderText(element: TElement & { data: TTextData }): string {
+  const data = element.data;
+  const markdown = fnGetTextMarkdown(data);
+  if (markdown !== null) return renderRichText(element, markdown);
+  const lines = wrapTextLines(data, data.containerId !== null);
+  const lineHeight = data.fontSize * data.lineHeight;
+  const textHeight = lines.length * lineHeight;
+  const top = data.verticalAlign === 'middle' ? (data.h - textHeight) / 2 : data.verticalAlign === 'bottom' ? data.h - textHeight : 0;
+  const x = data.textAlign === 'center' ? data.w / 2 : data.textAlign === 'right' ? data.w : 0;
+  const anchor = data.textAlign === 'center' ? 'middle' : data.textAlign === 'right' ? 'end' : 'start';
+
+  const tspans = lines
+    .map((line, index) => `<tspan ${attrs({ x, y: top + index * lineHeight + lineHeight / 2 })}>${fnEscapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<text ${attrs({
+    'font-family': `${data.fontFamily}, sans-serif`,
+    'font-size': data.fontSize,
+    fill: element.style.strokeColor ?? TEXT_DEFAULT_COLOR,
+    'text-anchor': anchor,
+    'dominant-baseline': 'central',
+    'xml:space': 'preserve',
+  })}>${tspans}</text>`;
+}
+
+function getWidgetLabel(element: TElement): string {
+  const data = element.data;
+  if (data.type === 'filetree') return `File tree · ${data.path}`;
+  if (data.type === 'terminal') return `Terminal · ${data.workingDirectory}`;
+  if (data.type === 'file') return `File · ${data.path}`;
+  if (data.type === 'note') return `Note · ${fnGetNoteTitle(data)}`;
+  if (data.type === 'iframe-browser') {
+    const activeTab = data.tabs.find((tab) => tab.id === data.activeTabId) ?? data.tabs[0];
+    return `Browser · ${activeTab?.title || activeTab?.url || ''}`;
+  }
+  return element.data.type;
+}
+
+/**
+ * Live widgets cannot be rendered headlessly, so they export as a titled placeholder card.
+ */
+function renderWidget(element: TElement & { data: { w: number; h: number } }): string {
+  const { w, h } = element.data;
+  const headerHeight = Math.min(WIDGET_HEADER_HEIGHT, h);
+  return [
+    `<rect ${attrs({ width: w, height: h, rx: 8, fill: '#ffffff', stroke: element.style.borderColor ?? '#d4d4d8', 'stroke-width': 1 })}/>`,
+    `<path ${attrs({ d: `M0 ${fmt(headerHeight)} V8 A8 8 0 0 1 8 0 H${fmt(w - 8)} A8 8 0 0 1 ${fmt(w)} 8 V${fmt(headerHeight)} Z`, fill: element.style.headerColor ?? '#f4f4f5' })}/>`,
+    `<text ${attrs({ x: 10, y: headerHeight / 2, 'font-family': 'sans-serif', 'font-size': 12, fill: '#3f3f46', 'dominant-baseline': 'central', 'xml:space': 'preserve' })}>${fnEscapeXml(getWidgetLabel(element))}</text>`,
+  ].join('');
+}
+
+/**
+ * Frames paint their body with the title above the top-left corner, like the canvas does.
+ */
+function renderFrame(element: TElement & { data: TFrameData }): string {
+  const { w, h, title } = element.data;
+  return [
+    `<rect ${attrs({
+      width: w,
+      height: h,
+      fill: element.style.backgroundColor ?? 'none',
+      stroke: element.style.strokeColor ?? FRAME_DEFAULT_STROKE_COLOR,
+      'stroke-width': element.style.strokeWidth ?? FRAME_DEFAULT_STROKE_WIDTH,
+    })}/>`,
+    title ? `<text ${attrs({ y: -FRAME_TITLE_HEIGHT / 2, 'font-family': 'sans-serif', 'font-size': FRAME_TITLE_FONT_SIZE, fill: FRAME_TITLE_COLOR, 'dominant-baseline': 'central', 'xml:space': 'preserve' })}>${fnEscapeXml(title)}</text>` : '',
+  ].join('');
+}
+
+/**
+ * Sticky notes lay their text out with estimated glyph widths, like plain text does.
+ */
+function renderSticky(element: TElement & { data: TStickyData }): string {
+  const { w, h, author } = element.data;
+  const layout = fnLayoutSticky(element.data, fnEstimateStickyTextWidth);
+  const lineHeight = layout.fontSize * STICKY_LINE_HEIGHT;
+  const footer = fnTruncateStickyLine(fnFormatStickyFooter(author, element.createdAt), w - STICKY_PADDING * 2, STICKY_FOOTER_FONT_SIZE, fnEstimateStickyTextWidth);
+  const tspans = layout.lines
+    .map((line, index) => `<tspan ${attrs({ x: STICKY_PADDING, y: STICKY_PADDING + index * lineHeight + lineHeight / 2 })}>${fnEscapeXml(line)}</tspan>`)
+    .join('');
+
+  return [
+    `<rect ${attrs({ width: w, height: h, rx: 2, fill: STICKY_COLORS[element.data.color] ?? STICKY_COLORS.yellow })}/>`,
+    `<text ${attrs({ 'font-family': STICKY_FONT_FAMILY, 'font-size': layout.fontSize, fill: STICKY_TEXT_COLOR, 'dominant-baseline': 'central', 'xml:space': 'preserve' })}>${tspans}</text>`,
+    `<text ${attrs({ x: STICKY_PADDING, y: fnGetStickyFooterY(h), 'font-family': STICKY_FONT_FAMILY, 'font-size': STICKY_FOOTER_FONT_SIZE, fill: STICKY_FOOTER_COLOR, 'dominant-baseline': 'central', 'xml:space': 'preserve' })}>${fnEscapeXml(footer)}</text>`,
+  ].join('');
+}
+
+function renderImage(element: TElement, href: string | null): string {
+  if (element.data.type !== 'image' || !href) return '';
+  const { w, h, crop } = element.data;
+  const hasCrop = crop.width > 0 && crop.height > 0 && crop.naturalWidth > 0 && crop.naturalHeight > 0;
+  const image = `<image ${attrs({
+    href,
+    width: hasCrop ? crop.naturalWidth : w,
+    height: hasCrop ? crop.naturalHeight : h,
+    preserveAspectRatio: 'none',
+  })}/>`;
+  if (!hasCrop) return image;
+
+  return `<svg ${attrs({ width: w, height: h, viewBox: `${fmt(crop.x)} ${fmt(crop.y)} ${fmt(crop.width)} ${fmt(crop.height)}`, preserveAspectRatio: 'none', overflow: 'hidden' })}>${image}</svg>`;
+}
+
+export function fnGetImageExportHref(element: TElement): string | null {
+  if (element.data.type !== 'image') return null;
+  if (element.data.base64) {
+    return element.data.base64.startsWith('data:') ? element.data.base64 : `data:image/png;base64,${element.data.base64}`;
+  }
+  return element.data.url;
+}
+
+function renderElementBody(element: TElement, imageHrefs: Readonly<Record<string, string>>): string {
+  const data = element.data;
+
+  if (data.type === 'rect') {
+    return `<rect ${attrs({ width: data.w, height: data.h, ...getShape2dPaint(element.style) })}/>`;
+  }
+
+  if (data.type === 'diamond') {
+    const points = [[data.w / 2, 0], [data.w, data.h / 2], [data.w / 2, data.h], [0, data.h / 2]].map(([x, y]) => `${fmt(x!)},${fmt(y!)}`).join(' ');
+    return `<polygon ${attrs({ points, ...getShape2dPaint(element.style) })}/>`;
+  }
+
+  if (data.type === 'ellipse') {
+    return `<ellipse ${attrs({ rx: data.rx, ry: data.ry, ...getShape2dPaint(element.style) })}/>`;
+  }
+
+  if (data.type === 'line' || data.type === 'arrow') {
+    if (data.points.length < 2) return '';
+    const color = element.style.strokeColor ?? element.style.backgroundColor ?? SHAPE1D_DEFAULT_STROKE_COLOR;
+    const strokeWidth = getShape1dStrokeWidth(element.style);
+    const stroke = { stroke: color, 'stroke-width': strokeWidth, 'stroke-linecap': 'round', 'stroke-linejoin': 'round' };
+    const line = `<path ${attrs({ d: getLinePath(data), fill: 'none', ...stroke })}/>`;
+    if (data.type !== 'arrow') return line;
+
+    const caps = [getCapPath(data, 'start', strokeWidth), getCapPath(data, 'end', strokeWidth)].filter(Boolean).join(' ');
+    return caps ? `${line}<path ${attrs({ d: caps, fill: color, ...stroke })}/>` : line;
+  }
+
+  if (data.type === 'pen') {
+    const path = getPenPath(element);
+    return path ? `<path ${attrs({ d: path, fill: element.style.backgroundColor ?? element.style.strokeColor ?? PEN_DEFAULT_COLOR })}/>` : '';
+  }
+
+  if (data.type === 'text') {
+    return renderText(element as TElement & { data: TTextData });
+  }
+
+  if (data.type === 'image') {
+    return renderImage(element, imageHrefs[element.id] ?? fnGetImageExportHref(element));
+  }
+
+  if (data.type === 'frame') {
+    return renderFrame(element as TElement & { data: TFrameData });
+  }
+
+  if (data.type === 'sticky') {
+    return renderSticky(element as TElement & { data: TStickyData });
+  }
+
+  return renderWidget(element as TElement & { data: { w: number; h: number } });
+}
+
+function getElementOpacity(element: TElement): number {
+  const type = element.data.type;
+  if (type === 'line' || type === 'arrow') return element.style.opacity ?? SHAPE1D_DEFAULT_OPACITY;
+  if (type === 'pen') return element.style.opacity ?? PEN_DEFAULT_OPACITY;
+  return element.style.opacity ?? 1;
+}
+
+function renderElement(element: TElement, imageHrefs: Readonly<Record<string, string>>, clipFrameId: string | null): string {
+  const body = renderElementBody(element, imageHrefs);
+  if (!body) return '';
+
+  const opacity = getElementOpacity(element);
+  const rendered = `<g ${attrs({ 'data-id': element.id, transform: getTransform(element), opacity: opacity === 1 ? null : opacity })}>${body}</g>`;
+  return clipFrameId ? `<g ${attrs({ 'clip-path': `url(#${getFrameClipId(clipFrameId)})` })}>${rendered}</g>` : rendered;
+}
+
+function getFrameClipId(frameId: string): string {
+  return `vc-frame-clip-${frameId}`;
+}
+
+/** Exported frame that clips `element`, if any. */
+function getClippingFrame(element: TElement, framesById: ReadonlyMap<string, TElement>): TElement | null {
+  if (!element.frameId) return null;
+  const frame = framesById.get(element.frameId);
+  return frame?.data.type === 'frame' && frame.data.clipChildren ? frame : null;
+}
+
+function getFrameBodyBounds(frame: TElement): TSvgExportBounds {
+  const { w, h } = frame.data as TFrameData;
+  return fnGetExportElementBounds({ ...frame, style: {}, data: { type: 'rect', w, h } });
+}
+
+function intersectBounds(left: TSvgExportBounds, right: TSvgExportBounds): TSvgExportBounds | null {
+  const minX = Math.max(left.x, right.x);
+  const minY = Math.max(left.y, right.y);
+  const maxX = Math.min(left.x + left.w, right.x + right.w);
+  const maxY = Math.min(left.y + left.h, right.y + right.h);
+  if (maxX <= minX || maxY <= minY) return null;
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+/**
+ * Renders the canvas (or the `ids` subset) to a standalone SVG document cropped to the painted bounds.
+ * Contents of frames with `clipChildren` are cut at the frame edge.
+ * Returns null when nothing is left to export.
+ */
+export function fnRenderCanvasSvg(doc: TCanvasDoc, options: TSvgExportOptions = {}): TSvgExportResult | null {
+  const elements = fnCollectExportElements(doc, options.ids);
+  const framesById = new Map(elements.filter((element) => element.data.type === 'frame').map((element) => [element.id, element]));
+  const clipFrames = new Map(elements.map((element) => [element.id, getClippingFrame(element, framesById)]));
+  const contentBounds = unionBounds(elements.flatMap((element) => {
+    const bounds = fnGetExportElementBounds(element);
+    const frame = clipFrames.get(element.id);
+    const clipped = frame ? intersectBounds(bounds, getFrameBodyBounds(frame)) : bounds;
+    return clipped ? [clipped] : [];
+  }));
+  if (!contentBounds) return null;
+
+  const padding = options.padding ?? SVG_EXPORT_DEFAULT_PADDING;
+  const scale = options.scale ?? 1;
+  const background = options.background === undefined ? SVG_EXPORT_DEFAULT_BACKGROUND : options.background;
+  const bounds = {
+    x: Math.floor(contentBounds.x - padding),
+    y: Math.floor(contentBounds.y - padding),
+    w: Math.ceil(contentBounds.w + padding * 2),
+    h: Math.ceil(contentBounds.h + padding * 2),
+  };
+  const width = Math.max(1, Math.ceil(bounds.w * scale));
+  const height = Math.max(1, Math.ceil(bounds.h * scale));
+  const imageHrefs = options.imageHrefs ?? {};
+
+  const usedClipFrames = [...new Set([...clipFrames.values()].filter((frame): frame is TElement => frame !== null))];
+  const clipPaths = usedClipFrames.map((frame) => {
+    const { w, h } = frame.data as TFrameData;
+    return `<clipPath ${attrs({ id: getFrameClipId(frame.id) })}><rect ${attrs({ transform: getTransform(frame), width: w, height: h })}/></clipPath>`;
+  });
+
+  const body = [
+    clipPaths.length > 0 ? `<defs>${clipPaths.join('')}</defs>` : '',
+    background ? `<rect ${attrs({ x: bounds.x, y: bounds.y, width: bounds.w, height: bounds.h, fill: background })}/>` : '',
+    ...elements.map((element) => renderElement(element, imageHrefs, clipFrames.get(element.id)?.id ?? null)),
+  ].join('');
+
+  const svg = `<svg ${attrs({
+    xmlns: 'http://www.w3.org/2000/svg',
+    width,
+    height,
+    viewBox: `${fmt(bounds.x)} ${fmt(bounds.y)} ${fmt(bounds.w)} ${fmt(bounds.h)}`,
+  })}>${body}</svg>`;
+
+  return { svg, bounds, width, height, elementIds: elements.map((element) => element.id) };
+}
@@ -0,0 +1,66 @@
+import type { DocHandle } from '@automerge/automerge-repo';
+import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService, TCanvasRecord } from '@vibecanvas/service-db/IDbService';
+import { CANVAS_FORK_FILES_MESSAGE } from './fn.history';
+import { fxLoadCanvasHandleDoc } from './fx.canvas';
+import { fxCloneImageFiles } from './fx.image-file';
+
+type TPortal = {
+  dbService: IDbService;
+  automergeService: IAutomergeService;
+  crypto: typeof crypto;
+};
+
+export type TCanvasCopyResult = {
+  row: TCanvasRecord;
+  handle: DocHandle<TCanvasDoc>;
+  /** Image files copied for the new canvas. */
+  fileCount: number;
+};
+
+/**
+ * Creates a new canvas from `source`. A duplicate starts a fresh document from the current state; a
+ * fork clones the Automerge document with its history, so it can later be merged back into the
+ * source. Either way the copy owns its own image files; a fork points at them in an untagged change
+ * that undo never targets and merge maps back.
+ */
+export async function fxCreateCanvasCopy(portal: TPortal, args: { source: TCanvasRecord; name: string; fork: boolean }): Promise<TCanvasCopyResult> {
+  const { handle: sourceHandle, doc: sourceDoc } = await fxLoadCanvasHandleDoc(portal, args.source);
+  const clonedUrls = fxCloneImageFiles(portal, sourceDoc);
+  const id = portal.crypto.randomUUID();
+
+  let handle: DocHandle<TCanvasDoc>;
+  if (args.fork) {
+    handle = portal.automergeService.repo.clone(sourceHandle);
+    await handle.whenReady();
+    if (clonedUrls.size > 0) {
+      handle.change((doc) => {
+        for (const element of Object.values(doc.elements)) {
+          if (element.data.type !== 'image' || !element.data.url) continue;
+          const url = clonedUrls.get(element.data.url);
+          if (url) element.data.url = url;
+        }
+      }, { message: CANVAS_FORK_FILES_MESSAGE });
+    }
+  } else {
+    const snapshot = JSON.parse(JSON.stringify(sourceDoc)) as TCanvasDoc;
+    for (const element of Object.values(snapshot.elements)) {
+      if (element.data.type !== 'image' || !element.data.url) continue;
+      element.data.url = clonedUrls.get(element.data.url) ?? element.data.url;
+    }
+    handle = portal.automergeService.repo.create<TCanvasDoc>({ ...snapshot, id, name: args.name });
+    await handle.whenReady();
+  }
+
+  await portal.automergeService.repo.flush([handle.documentId]);
+  const row = portal.dbService.canvas.create({
+    id,
+    name: args.name,
+    created_at: new Date(),
+    automerge_url: handle.url,
+    forked_from_id: args.fork ? args.source.id : null,
+  });
+
+  return { row, handle, fileCount: clonedUrls.size };
+}
@@ -1,7 +1,9 @@
+import * as Automerge from '@automerge/automerge/slim';
 import type { DocHandle } from '@automerge/automerge-repo';
 import type { IAutomergeService } from '@vibecanvas/service-automerge/IAutomergeService';
 import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
 import type { TCanvasRecord } from '@vibecanvas/service-db/IDbService';
+import { fnApplyCanvasRevert, type TCanvasRevertPlan } from './fn.history';
 
 type TPortal = {
   automergeService: IAutomergeService;
@@ -27,3 +29,16 @@ export async function fxLoadCanvasHandleDoc(portal: TPortal, row: TCanvasRecord)
     doc: structuredClone(currentDoc),
   };
 }
+
+/**
+ * Commits a revert plan as one tagged change. A plan with nothing left to restore still records an
+ * empty change, so the undo log moves on instead of offering the same entry again.
+ */
+export function fxCommitCanvasRevert(handle: DocHandle<TCanvasDoc>, plan: Pick<TCanvasRevertPlan, 'ops'>, options: { message: string }): void {
+  if (plan.ops.length === 0) {
+    handle.update((doc) => Automerge.emptyChange(doc, options));
+    return;
+  }
+
+  handle.change((doc) => fnApplyCanvasRevert(doc, plan), options);
+}
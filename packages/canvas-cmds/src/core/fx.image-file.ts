@@ -0,0 +1,64 @@
+import { createHash } from 'crypto';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import type { IDbService } from '@vibecanvas/service-db/IDbService';
+import { fnParseFileUrl, fnToFileUrl, type TImageFileFormat } from './fn.image-file';
+
+type TPortal = {
+  dbService: IDbService;
+};
+
+/**
+ * Images uploaded to the canvas live in the local file table behind `/files/...` urls.
+ * Resolves them to data URIs by element id so exports stand alone.
+ */
+export function fxResolveImageDataUrls(portal: TPortal, doc: TCanvasDoc): Record<string, string> {
+  const dataUrls: Record<string, string> = {};
+
+  for (const element of Object.values(doc.elements)) {
+    if (element.data.type !== 'image' || element.data.base64 || !element.data.url) continue;
+
+    const file = fnParseFileUrl(element.data.url);
+    if (!file) continue;
+
+    const record = portal.dbService.file.get(file);
+    if (record) dataUrls[element.id] = `data:${record.format};base64,${record.base64}`;
+  }
+
+  return dataUrls;
+}
+
+/**
+ * Stores raw base64 image bytes in the file table, mirroring the file api upload.
+ */
+export function fxStoreImageFile(portal: TPortal, args: { format: TImageFileFormat; base64: string; bytes: Uint8Array }): string {
+  const id = crypto.randomUUID();
+  portal.dbService.file.create({
+    id,
+    hash: createHash('sha256').update(args.bytes).digest('hex'),
+    format: args.format,
+    base64: args.base64,
+  });
+  return fnToFileUrl(id, args.format);
+}
+
+/**
+ * Copies every image file the doc references, since deleting an image element releases its file.
+ * Returns the new url per old url; urls whose file is missing are left out.
+ */
+export function fxCloneImageFiles(portal: TPortal, doc: TCanvasDoc): Map<string, string> {
+  const clonedUrls = new Map<string, string>();
+
+  for (const element of Object.values(doc.elements)) {
+    if (element.data.type !== 'image' || !element.data.url || clonedUrls.has(element.data.url)) continue;
+
+    const file = fnParseFileUrl(element.data.url);
+    const record = file ? portal.dbService.file.get(file) : null;
+    if (!record) continue;
+
+    const id = crypto.randomUUID();
+    portal.dbService.file.create({ id, hash: record.hash, format: record.format, base64: record.base64 });
+    clonedUrls.set(element.data.url, fnToFileUrl(id, record.format));
+  }
+
+  return clonedUrls;
+}
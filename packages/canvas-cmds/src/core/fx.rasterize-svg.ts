@@ -0,0 +1,63 @@
+/// <reference path="./assets.d.ts" />
+import { readdir } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+import resvgWasmPath from '@resvg/resvg-wasm/index_bg.wasm' with { type: 'file' };
+
+const FONT_FILE_PATTERN = /\.(ttf|otf)$/i;
+const PREFERRED_FONT_PATTERN = /(arial|helvetica|inter|dejavusans|liberationsans|notosans-|segoeui|sfns|roboto)/i;
+const MAX_FONT_FILES = 24;
+
+let wasmReady: Promise<void> | null = null;
+let fontBuffers: Promise<Uint8Array[]> | null = null;
+
+function getSystemFontDirs(): string[] {
+  if (process.platform === 'darwin') return ['/System/Library/Fonts', '/Library/Fonts', join(homedir(), 'Library/Fonts')];
+  if (process.platform === 'win32') return [join(process.env.WINDIR ?? 'C:\\Windows', 'Fonts')];
+  return ['/usr/share/fonts', '/usr/local/share/fonts', join(homedir(), '.fonts'), join(homedir(), '.local/share/fonts')];
+}
+
+async function listFontFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { recursive: true });
+    return entries.filter((entry) => FONT_FILE_PATTERN.test(entry)).map((entry) => join(dir, entry));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Wasm cannot read the file system, so a bounded set of system fonts is loaded up front,
+ * preferring common sans-serif families. Without any font, text is left out of the PNG.
+ */
+async function loadFontBuffers(): Promise<Uint8Array[]> {
+  const files = (await Promise.all(getSystemFontDirs().map((dir) => listFontFiles(dir)))).flat();
+  const preferred = files.filter((file) => PREFERRED_FONT_PATTERN.test(file));
+  const selected = [...preferred, ...files.filter((file) => !PREFERRED_FONT_PATTERN.test(file))].slice(0, MAX_FONT_FILES);
+
+  const buffers = await Promise.all(selected.map(async (file) => {
+    try {
+      return [new Uint8Array(await Bun.file(file).arrayBuffer())];
+    } catch {
+      return [];
+    }
+  }));
+  return buffers.flat();
+}
+
+export async function fxRasterizeSvgToPng(svg: string): Promise<Uint8Array> {
+  wasmReady ??= Bun.file(resvgWasmPath).arrayBuffer().then((buffer) => initWasm(buffer));
+  fontBuffers ??= loadFontBuffers();
+  await wasmReady;
+
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'original' },
+    font: { fontBuffers: await fontBuffers },
+  });
+  try {
+    return resvg.render().asPng();
+  } finally {
+    resvg.free();
+  }
+}
@@ -0,0 +1,78 @@
+import * as Automerge from '@automerge/automerge/slim';
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fxExecuteCanvasDiff } from 'packages/canvas-cmds/src/cmds/fx.cmd.diff';
+import { txExecuteCanvasAdd } from 'packages/canvas-cmds/src/cmds/tx.cmd.add';
+import { txExecuteCanvasDelete } from 'packages/canvas-cmds/src/cmds/tx.cmd.delete';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+
+describe('canvas diff command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-diff-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('reports added, removed, and modified elements between two versions', async () => {
+    const { handle, row } = await createCanvas('diff-versions', [createRectElement({ id: 'a', x: 0 }), createRectElement({ id: 'b' })]);
+    const portal = { dbService, automergeService, crypto };
+    const from = [...Automerge.getHeads(handle.doc()!)];
+
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['a'], mode: 'relative', x: 10, y: 0 });
+    await txExecuteCanvasDelete(portal, { canvasId: row.id, ids: ['b'] });
+    const added = await txExecuteCanvasAdd(portal, { canvasId: row.id, elements: [{ id: 'c', type: 'rect', x: 300, y: 0 }] });
+
+    const diff = await fxExecuteCanvasDiff(portal, { canvasId: row.id, from });
+    expect(diff).toMatchObject({ ok: true, command: 'canvas.diff', addedIds: added.addedIds, removedIds: ['b'], modifiedIds: ['a'], addedCount: 1, removedCount: 1, modifiedCount: 1 });
+    expect(diff.from.heads).toEqual(from);
+    expect(diff.to.heads).toEqual([...Automerge.getHeads(handle.doc()!)].sort());
+    expect(diff.entries.find((entry) => entry.id === 'a')).toEqual({ id: 'a', kind: 'element', status: 'modified', type: 'rect', fields: [{ path: 'x', before: 0, after: 10 }] });
+
+    const reversed = await fxExecuteCanvasDiff(portal, { canvasId: row.id, from: diff.to.heads, to: from });
+    expect(reversed).toMatchObject({ addedIds: ['b'], removedIds: added.addedIds, modifiedIds: ['a'] });
+
+    await expect(fxExecuteCanvasDiff(portal, { canvasId: row.id })).rejects.toMatchObject({ ok: false, command: 'canvas.diff', code: 'CANVAS_DIFF_FROM_REQUIRED' });
+    await expect(fxExecuteCanvasDiff(portal, { canvasId: row.id, from: ['abc'] })).rejects.toMatchObject({ code: 'CANVAS_DIFF_HEADS_INVALID' });
+    await expect(fxExecuteCanvasDiff(portal, { canvasId: row.id, from: ['0'.repeat(64)] })).rejects.toMatchObject({ code: 'CANVAS_DIFF_HEADS_NOT_FOUND' });
+  });
+
+  test('compares a canvas with another canvas', async () => {
+    const { row } = await createCanvas('diff-left', [createRectElement({ id: 'a' }), createRectElement({ id: 'b' })]);
+    const { row: other } = await createCanvas('diff-right', [createRectElement({ id: 'a', style: { backgroundColor: '#ff0000', strokeColor: '#111111', strokeWidth: 1, opacity: 1 } })]);
+    const portal = { dbService, automergeService };
+
+    const diff = await fxExecuteCanvasDiff(portal, { canvasId: row.id, otherCanvasNameQuery: 'diff-right' });
+    expect(diff.from.canvas.id).toBe(row.id);
+    expect(diff.to.canvas.id).toBe(other.id);
+    expect(diff.entries).toEqual([
+      { id: 'b', kind: 'element', status: 'removed', type: 'rect', fields: [] },
+      { id: 'a', kind: 'element', status: 'modified', type: 'rect', fields: [{ path: 'style.backgroundColor', before: '#ffffff', after: '#ff0000' }] },
+    ]);
+
+    await expect(fxExecuteCanvasDiff(portal, { canvasId: row.id, otherCanvasId: other.id, to: ['0'.repeat(64)] })).rejects.toMatchObject({ code: 'CANVAS_DIFF_OPTION_CONFLICT' });
+  });
+});
@@ -0,0 +1,165 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fxExecuteCanvasExport } from 'packages/canvas-cmds/src/cmds/fx.cmd.export';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'z00000001', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 2, opacity: 1 }, ...overrides };
+}
+function createGroup(overrides?: Partial<TGroup>): TGroup {
+  return { id: 'group-1', parentGroupId: null, zIndex: 'z00000000', locked: false, createdAt: 1, ...overrides };
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe('export canvas command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-export-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function seedCanvas(name: string, elements: Record<string, TElement>, groups: Record<string, TGroup> = {}) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements, groups });
+    await handle.whenReady();
+    return dbService.canvas.create({ id, automerge_url: handle.url, name });
+  }
+
+  test('renders every element in paint order into a standalone svg cropped to the content', async () => {
+    const rect = createRectElement({ id: 'rect-1', x: 0, y: 0, zIndex: 'z00000002' });
+    const ellipse = createRectElement({ id: 'ellipse-1', x: 200, y: 0, zIndex: 'z00000001', data: { type: 'ellipse', rx: 40, ry: 20 } });
+    const arrow = createRectElement({
+      id: 'arrow-1',
+      x: 120,
+      y: 40,
+      zIndex: 'z00000003',
+      style: { strokeColor: '#ef4444', strokeWidth: 2 },
+      data: { type: 'arrow', lineType: 'straight', points: [[0, 0], [80, 0]], startBinding: null, endBinding: null, startCap: 'none', endCap: 'arrow' },
+    });
+    const text = createRectElement({
+      id: 'text-1',
+      x: 0,
+      y: 100,
+      zIndex: 'z00000004',
+      style: { strokeColor: '#0f172a' },
+      data: { type: 'text', w: 120, h: 24, text: 'A < B & "C"', originalText: 'A < B & "C"', fontSize: 16, fontFamily: 'Arial', textAlign: 'left', verticalAlign: 'top', lineHeight: 1.2, link: null, containerId: null, autoResize: true },
+    });
+    const row = await seedCanvas('export-canvas', { [rect.id]: rect, [ellipse.id]: ellipse, [arrow.id]: arrow, [text.id]: text });
+
+    const result = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, padding: 10 });
+
+    expect(result).toMatchObject({
+      ok: true,
+      command: 'canvas.export',
+      format: 'svg',
+      mimeType: 'image/svg+xml',
+      encoding: 'utf8',
+      elementIds: ['ellipse-1', 'rect-1', 'arrow-1', 'text-1'],
+      elementCount: 4,
+      bounds: { x: -11, y: -11, w: 302, h: 145 },
+      width: 302,
+      height: 145,
+    });
+    expect(result.content.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="302" height="145" viewBox="-11 -11 302 145">')).toBe(true);
+    expect(result.content).toContain('<rect x="-11" y="-11" width="302" height="145" fill="#ffffff"/>');
+    expect(result.content).toContain('<ellipse rx="40" ry="20"');
+    expect(result.content).toContain('A &lt; B &amp; &quot;C&quot;');
+    expect(result.content).toContain('fill="#ef4444"');
+  });
+
+  test('exports only the selected group subtree and attached text as a scaled transparent png', async () => {
+    const group = createGroup({ id: 'group-1' });
+    const inside = createRectElement({ id: 'rect-inside', x: 0, y: 0, parentGroupId: 'group-1' });
+    const label = createRectElement({
+      id: 'label-1',
+      x: 0,
+      y: 0,
+      zIndex: 'z00000009',
+      style: {},
+      data: { type: 'text', w: 120, h: 80, text: 'label', originalText: 'label', fontSize: 16, fontFamily: 'Arial', textAlign: 'center', verticalAlign: 'middle', lineHeight: 1.2, link: null, containerId: 'rect-inside', autoResize: false },
+    });
+    const outside = createRectElement({ id: 'rect-outside', x: 1000, y: 1000 });
+    const row = await seedCanvas('export-selection-canvas', { [inside.id]: inside, [label.id]: label, [outside.id]: outside }, { [group.id]: group });
+
+    const result = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasNameQuery: 'export-selection', ids: ['group-1'], format: 'png', scale: 2, background: null, padding: 0 });
+
+    expect(result).toMatchObject({ format: 'png', mimeType: 'image/png', encoding: 'base64', elementIds: ['rect-inside', 'label-1'], bounds: { x: -1, y: -1, w: 122, h: 82 }, width: 244, height: 164 });
+    const bytes = Buffer.from(result.content, 'base64');
+    expect([...bytes.subarray(0, 8)]).toEqual(PNG_SIGNATURE);
+    expect(bytes.readUInt32BE(16)).toBe(244);
+    expect(bytes.readUInt32BE(20)).toBe(164);
+  });
+
+  test('exports a frame with its adopted elements clipped to the frame body', async () => {
+    const frame = createRectElement({ id: 'frame-1', x: 0, y: 0, zIndex: 'z00000000', style: { backgroundColor: '#ffffff' }, data: { type: 'frame', w: 200, h: 100, title: 'Hero', clipChildren: true } });
+    const child = createRectElement({ id: 'rect-child', x: 150, y: 20, frameId: 'frame-1' });
+    const outside = createRectElement({ id: 'rect-outside', x: 1000, y: 1000 });
+    const row = await seedCanvas('export-frame-canvas', { [frame.id]: frame, [child.id]: child, [outside.id]: outside });
+
+    const result = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, ids: ['frame-1'], padding: 0 });
+
+    expect(result).toMatchObject({ elementIds: ['frame-1', 'rect-child'], bounds: { x: -1, y: -24, w: 201, h: 125 } });
+    expect(result.content).toContain('<clipPath id="vc-frame-clip-frame-1"><rect transform="translate(0 0)" width="200" height="100"/></clipPath>');
+    expect(result.content).toContain('<g clip-path="url(#vc-frame-clip-frame-1)">');
+    expect(result.content).toContain('>Hero</text>');
+    expect(result.content).not.toContain('rect-outside');
+  });
+
+  test('exports a sticky note with its palette color, wrapped text, and author footer', async () => {
+    const sticky = createRectElement({ id: 'sticky-1', x: 0, y: 0, createdAt: Date.UTC(2026, 9, 18, 12), data: { type: 'sticky', w: 200, h: 200, text: 'ship the sticky notes & more', color: 'blue', fontSize: 20, autoSize: 'fit', author: 'agent-7' } });
+    const row = await seedCanvas('export-sticky-canvas', { [sticky.id]: sticky });
+
+    const result = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, padding: 0 });
+
+    expect(result).toMatchObject({ elementIds: ['sticky-1'], bounds: { x: 0, y: 0, w: 200, h: 200 } });
+    expect(result.content).toContain('fill="#bfdbfe"');
+    expect(result.content).toContain('>ship the sticky</tspan>');
+    expect(result.content).toContain('>notes &amp; more</tspan>');
+    expect(result.content).toContain('>agent-7 · 2026-10-18</text>');
+  });
+
+  test('exports rich text with bold, links, and list markers', async () => {
+    const text = createRectElement({ id: 'text-1', x: 0, y: 0, data: { type: 'text', w: 200, h: 40, text: 'Plan\n• see docs', originalText: 'Plan\n• see docs', markdown: '**Plan**\n- see [docs](https://example.com)', fontSize: 16, fontFamily: 'Inter', textAlign: 'left', verticalAlign: 'top', lineHeight: 1.2, link: null, containerId: null, autoResize: true } });
+    const row = await seedCanvas('export-rich-text-canvas', { [text.id]: text });
+
+    const result = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, padding: 0 });
+
+    expect(result.content).toContain('font-weight="bold">Plan</tspan>');
+    expect(result.content).toContain('>•</tspan>');
+    expect(result.content).toContain('<a href="https://example.com">');
+    expect(result.content).toContain('text-decoration="underline" fill="#2563eb">docs</tspan></a>');
+  });
+
+  test('exports a note widget as a card titled by its first heading', async () => {
+    const note = createRectElement({ id: 'note-1', x: 0, y: 0, data: { type: 'note', w: 300, h: 200, isCollapsed: false, markdown: '# Release *notes*\n- [x] ship' } });
+    const row = await seedCanvas('export-note-canvas', { [note.id]: note });
+
+    const result = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, padding: 0 });
+
+    expect(result).toMatchObject({ elementIds: ['note-1'], bounds: { x: 0, y: 0, w: 300, h: 200 } });
+    expect(result.content).toContain('>Note · Release notes</text>');
+  });
+
+  test('fails clearly on invalid options, unknown ids, and empty canvases', async () => {
+    const rect = createRectElement();
+    const row = await seedCanvas('export-errors-canvas', { [rect.id]: rect });
+    const emptyRow = await seedCanvas('export-empty-canvas', {});
+
+    await expect(fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, format: 'jpg' as never })).rejects.toMatchObject({ ok: false, command: 'canvas.export', code: 'CANVAS_EXPORT_FORMAT_INVALID' });
+    await expect(fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, scale: 0 })).rejects.toMatchObject({ code: 'CANVAS_EXPORT_SCALE_INVALID' });
+    await expect(fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, ids: ['missing'] })).rejects.toMatchObject({ code: 'CANVAS_EXPORT_TARGET_NOT_FOUND', canvasId: row.id });
+    await expect(fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: emptyRow.id })).rejects.toMatchObject({ code: 'CANVAS_EXPORT_EMPTY', canvasId: emptyRow.id });
+  });
+});
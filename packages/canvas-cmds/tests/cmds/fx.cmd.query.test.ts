@@ -5,6 +5,7 @@ import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { fxExecuteCanvasQuery, type TSceneSelectorEnvelope } from 'packages/canvas-cmds/src/cmds/fx.cmd.query';
+import { txExecuteCanvasDelete } from 'packages/canvas-cmds/src/cmds/tx.cmd.delete';
 
 function createRectElement(overrides?: Partial<TElement>): TElement {
   return {
@@ -222,6 +223,95 @@ describe('query canvas command', () => {
     expect(result.matches[0]?.payload).not.toHaveProperty('style');
   });
 
+  test('filters by frame and rejects unknown frames', async () => {
+    const frame = createRectElement({
+      id: 'frame-1',
+      zIndex: 'a0',
+      data: { type: 'frame', w: 600, h: 400, title: 'Hero', clipChildren: false },
+    });
+    const inside = createRectElement({ id: 'rect-inside', frameId: frame.id });
+    const grouped = createRectElement({ id: 'rect-grouped', parentGroupId: 'group-root', frameId: frame.id });
+    const outside = createRectElement({ id: 'rect-outside', x: 900 });
+    const handle = automergeService.repo.create<TCanvasDoc>({
+      id: 'canvas-3',
+      name: 'Frame Canvas',
+      elements: { [frame.id]: frame, [inside.id]: inside, [grouped.id]: grouped, [outside.id]: outside },
+      groups: { 'group-root': createGroup() },
+    });
+    await handle.whenReady();
+
+    const row = dbService.canvas.create({
+      id: 'canvas-3',
+      automerge_url: handle.url,
+      name: 'Frame Canvas',
+    });
+
+    const createSelector = (frameId: string): TSceneSelectorEnvelope => ({
+      source: 'flags',
+      canvasId: row.id,
+      canvasNameQuery: null,
+      filters: {
+        ids: [],
+        kinds: [],
+        types: [],
+        style: {},
+        group: null,
+        subtree: null,
+        frame: frameId,
+        bounds: null,
+        boundsMode: 'intersects',
+      },
+    });
+
+    const result = await fxExecuteCanvasQuery({ dbService, automergeService }, { selector: createSelector(frame.id) });
+    expect(result.matches.map((match) => match.metadata.id).sort()).toEqual(['group-root', 'rect-grouped', 'rect-inside']);
+    expect(result.matches.find((match) => match.metadata.id === 'rect-inside')?.payload).toMatchObject({ frameId: frame.id });
+
+    await expect(
+      fxExecuteCanvasQuery({ dbService, automergeService }, { selector: createSelector(inside.id) }),
+    ).rejects.toMatchObject({
+      ok: false,
+      command: 'canvas.query',
+      code: 'CANVAS_QUERY_FRAME_NOT_FOUND',
+    });
+  });
+
+  test('releases frame members when the frame is deleted', async () => {
+    const frame = createRectElement({
+      id: 'frame-1',
+      zIndex: 'a0',
+      data: { type: 'frame', w: 600, h: 400, title: 'Hero', clipChildren: false },
+    });
+    const inside = createRectElement({ id: 'rect-inside', frameId: frame.id });
+    const handle = automergeService.repo.create<TCanvasDoc>({
+      id: 'canvas-4',
+      name: 'Deleted Frame Canvas',
+      elements: { [frame.id]: frame, [inside.id]: inside },
+      groups: {},
+    });
+    await handle.whenReady();
+
+    const row = dbService.canvas.create({
+      id: 'canvas-4',
+      automerge_url: handle.url,
+      name: 'Deleted Frame Canvas',
+    });
+
+    await txExecuteCanvasDelete({ dbService, automergeService }, { canvasId: row.id, ids: [frame.id] });
+    expect(handle.doc()!.elements[inside.id]?.frameId).toBeNull();
+
+    await expect(
+      fxExecuteCanvasQuery({ dbService, automergeService }, {
+        selector: {
+          source: 'flags',
+          canvasId: row.id,
+          canvasNameQuery: null,
+          filters: { ids: [], kinds: [], types: [], style: {}, group: null, subtree: null, frame: frame.id, bounds: null, boundsMode: 'intersects' },
+        },
+      }),
+    ).rejects.toMatchObject({ code: 'CANVAS_QUERY_FRAME_NOT_FOUND' });
+  });
+
   test('treats blank canvasNameQuery as missing selector', async () => {
     await expect(
       fxExecuteCanvasQuery({ dbService, automergeService }, {
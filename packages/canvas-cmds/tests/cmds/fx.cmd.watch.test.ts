@@ -0,0 +1,88 @@
+import * as Automerge from '@automerge/automerge/slim';
+import type { PeerId } from '@automerge/automerge-repo';
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fxExecuteCanvasWatch } from 'packages/canvas-cmds/src/cmds/fx.cmd.watch';
+import { txExecuteCanvasDelete } from 'packages/canvas-cmds/src/cmds/tx.cmd.delete';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+import { fnBuildCanvasSelectionMessage } from 'packages/canvas-cmds/src/core/fn.selection';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+
+describe('canvas watch command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-watch-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('streams matching changes and broadcast selections until aborted', async () => {
+    const { handle, row } = await createCanvas('watch-live', [createRectElement({ id: 'a', x: 0 }), createRectElement({ id: 'e', data: { type: 'ellipse', rx: 10, ry: 10 } })]);
+    const portal = { dbService, automergeService, crypto };
+    const controller = new AbortController();
+    const events = fxExecuteCanvasWatch(portal, { canvasId: row.id, selector: { types: ['rect'] } }, { signal: controller.signal });
+
+    expect((await events.next()).value).toMatchObject({ event: 'ready', canvas: { id: row.id }, heads: [...Automerge.getHeads(handle.doc()!)].sort() });
+
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['e'], mode: 'relative', x: 5, y: 0, session: 'agent-1' });
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['a'], mode: 'relative', x: 10, y: 0, session: 'agent-1' });
+    expect((await events.next()).value).toMatchObject({
+      event: 'element.changed',
+      id: 'a',
+      kind: 'element',
+      status: 'modified',
+      type: 'rect',
+      fields: [{ path: 'x', before: 0, after: 10 }],
+      record: { id: 'a', x: 10 },
+      heads: [...Automerge.getHeads(handle.doc()!)].sort(),
+      origins: ['cli:agent-1'],
+      labels: ['canvas.move'],
+    });
+
+    handle.emit('ephemeral-message', { handle, senderId: 'browser' as PeerId, message: fnBuildCanvasSelectionMessage('web:client-1', ['e', 'a']) });
+    expect((await events.next()).value).toMatchObject({ event: 'selection', origin: 'web:client-1', ids: ['a'] });
+
+    const pending = events.next();
+    controller.abort();
+    expect(await pending).toEqual({ done: true, value: undefined });
+  });
+
+  test('reports changes made since the given heads and stops at the limit', async () => {
+    const { handle, row } = await createCanvas('watch-since', [createRectElement({ id: 'a' }), createRectElement({ id: 'b' })]);
+    const portal = { dbService, automergeService, crypto };
+    const since = [...Automerge.getHeads(handle.doc()!)];
+    await txExecuteCanvasDelete(portal, { canvasId: row.id, ids: ['b'] });
+
+    const events = [];
+    for await (const event of fxExecuteCanvasWatch(portal, { canvasId: row.id, since, limit: 1 })) events.push(event);
+    expect(events.map((event) => event.event)).toEqual(['ready', 'element.removed']);
+    expect(events[1]).toMatchObject({ id: 'b', status: 'removed', type: 'rect' });
+    expect(events[1]).not.toHaveProperty('record');
+
+    await expect(fxExecuteCanvasWatch(portal, { canvasId: row.id, since: ['abc'] }).next()).rejects.toMatchObject({ ok: false, command: 'canvas.watch', code: 'CANVAS_WATCH_SINCE_INVALID' });
+    await expect(fxExecuteCanvasWatch(portal, { canvasId: row.id, since: ['0'.repeat(64)] }).next()).rejects.toMatchObject({ code: 'CANVAS_WATCH_SINCE_NOT_FOUND' });
+    await expect(fxExecuteCanvasWatch(portal, { canvasId: row.id, limit: 0 }).next()).rejects.toMatchObject({ code: 'CANVAS_WATCH_LIMIT_INVALID' });
+  });
+});
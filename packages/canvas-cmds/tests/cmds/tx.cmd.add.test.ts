@@ -98,6 +98,67 @@ describe('add canvas command', () => {
     expect(text.data.autoResize).toBe(false);
   });
 
+  test('adds sticky notes that grow to fit their text and rejects unknown colors', async () => {
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-4', name: 'add-sticky-canvas', elements: {}, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-4', automerge_url: handle.url, name: 'add-sticky-canvas' });
+
+    const result = await txExecuteCanvasAdd({ dbService, automergeService, crypto }, {
+      canvasId: row.id,
+      canvasNameQuery: null,
+      elements: [
+        { id: 'sticky-short', type: 'sticky', data: { text: 'idea' } },
+        { id: 'sticky-long', type: 'sticky', data: { text: 'a much longer thought '.repeat(12), color: 'pink', author: 'agent-7' } },
+      ],
+    });
+
+    expect(result).toMatchObject({ ok: true, addedCount: 2 });
+    const doc = handle.doc()!;
+    expect(doc.elements['sticky-short']?.data).toEqual({ type: 'sticky', w: 200, h: 200, text: 'idea', color: 'yellow', fontSize: 20, autoSize: 'grow', author: null });
+    expect(doc.elements['sticky-long']?.data).toMatchObject({ color: 'pink', author: 'agent-7', w: 200 });
+    if (doc.elements['sticky-long']?.data.type !== 'sticky') throw new Error('expected sticky');
+    expect(doc.elements['sticky-long'].data.h).toBeGreaterThan(200);
+
+    await expect(txExecuteCanvasAdd({ dbService, automergeService, crypto }, { canvasId: row.id, canvasNameQuery: null, elements: [{ type: 'sticky', data: { color: 'teal' } }] })).rejects.toMatchObject({ ok: false, command: 'canvas.add', code: 'CANVAS_ADD_STICKY_COLOR_INVALID' });
+  });
+
+  test('adds markdown text with a plain-text fallback and a measured size', async () => {
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-5', name: 'add-markdown-canvas', elements: {}, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-5', automerge_url: handle.url, name: 'add-markdown-canvas' });
+
+    await txExecuteCanvasAdd({ dbService, automergeService, crypto }, {
+      canvasId: row.id,
+      canvasNameQuery: null,
+      elements: [{ id: 'text-md', type: 'text', data: { markdown: '# Plan\n1. **ship** it' } }],
+    });
+
+    const data = handle.doc()!.elements['text-md']?.data;
+    if (data?.type !== 'text') throw new Error('expected text');
+    expect(data).toMatchObject({ text: 'Plan\n1. ship it', originalText: 'Plan\n1. ship it', markdown: '# Plan\n1. **ship** it' });
+    expect(data.h).toBeGreaterThan(data.fontSize * data.lineHeight * 2);
+
+    await expect(txExecuteCanvasAdd({ dbService, automergeService, crypto }, { canvasId: row.id, canvasNameQuery: null, elements: [{ type: 'text', data: { markdown: 42 } as any }] })).rejects.toMatchObject({ ok: false, command: 'canvas.add', code: 'CANVAS_ADD_PAYLOAD_INVALID' });
+  });
+
+  test('adds markdown notes with widget chrome and rejects non-string markdown', async () => {
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-6', name: 'add-note-canvas', elements: {}, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-6', automerge_url: handle.url, name: 'add-note-canvas' });
+
+    await txExecuteCanvasAdd({ dbService, automergeService, crypto }, {
+      canvasId: row.id,
+      canvasNameQuery: null,
+      elements: [{ id: 'note-1', type: 'note', x: 10, y: 20, data: { markdown: '# Summary\n- [x] tests' } }],
+    });
+
+    const element = handle.doc()!.elements['note-1'];
+    expect(element?.data).toEqual({ type: 'note', w: 420, h: 320, isCollapsed: false, markdown: '# Summary\n- [x] tests' });
+    expect(element?.style).toEqual({ backgroundColor: '#ffffff', borderColor: '#d6d3d1', headerColor: '#f5f5f4', opacity: 1 });
+
+    await expect(txExecuteCanvasAdd({ dbService, automergeService, crypto }, { canvasId: row.id, canvasNameQuery: null, elements: [{ type: 'note', data: { markdown: null } }] })).rejects.toMatchObject({ ok: false, command: 'canvas.add', code: 'CANVAS_ADD_PAYLOAD_INVALID' });
+  });
+
   test('fails on parent group not found and id conflict', async () => {
     const existing = createGroup({ id: 'group-existing' });
     const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-2', name: 'add-errors-canvas', elements: { 'rect-1': { id: 'rect-1', x: 0, y: 0, rotation: 0, zIndex: 'z00000000', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 } } }, groups: { [existing.id]: existing } });
@@ -0,0 +1,80 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasAlign } from 'packages/canvas-cmds/src/cmds/tx.cmd.align';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 100, h: 60 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+function createArrowElement(from: string, to: string, overrides?: Partial<TElement>): TElement {
+  return { id: `${from}->${to}`, x: 0, y: 0, rotation: 0, zIndex: 'a9', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'arrow', lineType: 'straight', points: [[0, 0], [10, 0]], startBinding: { targetId: from, anchor: { x: 0.5, y: 1 } }, endBinding: { targetId: to, anchor: { x: 0.5, y: 0 } }, startCap: 'none', endCap: 'arrow' }, style: { strokeColor: '#111111', strokeWidth: 2, opacity: 1 }, ...overrides };
+}
+function createLabelElement(containerId: string, overrides?: Partial<TElement>): TElement {
+  return { id: `${containerId}-label`, x: 0, y: 0, rotation: 0, zIndex: 'a5', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'text', w: 100, h: 60, text: containerId, originalText: containerId, fontSize: 16, fontFamily: 'Arial', textAlign: 'center', verticalAlign: 'middle', lineHeight: 1.25, link: null, containerId, autoResize: false }, style: { strokeColor: '#111111', opacity: 1 }, ...overrides } as TElement;
+}
+function createGroup(overrides?: Partial<TGroup>): TGroup {
+  return { id: 'group-1', parentGroupId: null, zIndex: 'a0', locked: false, createdAt: 1, ...overrides };
+}
+
+describe('align canvas command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-align-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[], groups: TGroup[] = []) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: Object.fromEntries(groups.map((group) => [group.id, group])) });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('aligns edges and centers to the selection bounds and moves groups and labels as one unit', async () => {
+    const group = createGroup({ id: 'group-1' });
+    const { handle, row } = await createCanvas('align', [
+      createRectElement({ id: 'a', x: 0, y: 0 }),
+      createRectElement({ id: 'b', x: 200, y: 50, data: { type: 'rect', w: 50, h: 40 } }),
+      createLabelElement('a', { x: 0, y: 0 }),
+      createRectElement({ id: 'g1', x: 400, y: 0, parentGroupId: group.id }),
+      createRectElement({ id: 'g2', x: 450, y: 100, parentGroupId: group.id }),
+      createArrowElement('a', 'b'),
+    ], [group]);
+
+    const right = await txExecuteCanvasAlign({ dbService, automergeService }, { canvasId: row.id, selector: { ids: ['a', 'b'] }, mode: 'right' });
+    expect(right).toMatchObject({ ok: true, command: 'canvas.align', mode: 'right', matchedCount: 2, nodeCount: 2, changedIds: ['a', 'a-label'], bounds: { x: 150, y: 0, w: 100, h: 90 } });
+    expect([handle.doc()!.elements.a!.x, handle.doc()!.elements['a-label']!.x, handle.doc()!.elements.b!.x]).toEqual([150, 150, 200]);
+
+    const middle = await txExecuteCanvasAlign({ dbService, automergeService }, { canvasId: row.id, selector: { ids: ['a', 'b'] }, mode: 'middle', dryRun: true });
+    expect(Object.fromEntries(middle.moves.map((move) => [move.id, move.to]))).toEqual({ a: { x: 150, y: 15 }, b: { x: 200, y: 25 } });
+    expect(handle.doc()!.elements.a!.y).toBe(0);
+
+    const changesBefore = handle.history()!.length;
+    await txExecuteCanvasAlign({ dbService, automergeService }, { canvasId: row.id, selector: { ids: ['a', 'group-1'] }, mode: 'bottom' });
+    const doc = handle.doc()!;
+    expect([doc.elements.a!.y, doc.elements['a-label']!.y, doc.elements.g1!.y, doc.elements.g2!.y]).toEqual([100, 100, 0, 100]);
+    expect(handle.history()!.length).toBe(changesBefore + 1);
+  });
+
+  test('fails clearly on missing modes, missing selectors, and single targets', async () => {
+    const { row } = await createCanvas('align-errors', [createRectElement({ id: 'a' }), createRectElement({ id: 'b' }), createArrowElement('a', 'b')]);
+    const portal = { dbService, automergeService };
+
+    await expect(txExecuteCanvasAlign(portal, { canvasId: row.id, selector: { ids: ['a', 'b'] } })).rejects.toMatchObject({ ok: false, command: 'canvas.align', code: 'CANVAS_ALIGN_MODE_INVALID' });
+    await expect(txExecuteCanvasAlign(portal, { canvasId: row.id, selector: { ids: ['a', 'b'] }, mode: 'diagonal' as never })).rejects.toMatchObject({ code: 'CANVAS_ALIGN_MODE_INVALID' });
+    await expect(txExecuteCanvasAlign(portal, { canvasId: row.id, mode: 'left' })).rejects.toMatchObject({ code: 'CANVAS_ALIGN_SELECTOR_REQUIRED' });
+    await expect(txExecuteCanvasAlign(portal, { canvasId: row.id, selector: { ids: ['a', 'a->b'] }, mode: 'left' })).rejects.toMatchObject({ code: 'CANVAS_ALIGN_TOO_FEW' });
+  });
+});
@@ -0,0 +1,75 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasConnect } from 'packages/canvas-cmds/src/cmds/tx.cmd.connect';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'z00000001', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+function createGroup(overrides?: Partial<TGroup>): TGroup {
+  return { id: 'group-1', parentGroupId: null, zIndex: 'z00000000', locked: false, createdAt: 1, ...overrides };
+}
+
+describe('connect canvas command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-connect-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  test('creates a bound arrow between facing edges', async () => {
+    const left = createRectElement({ id: 'rect-left', x: 0, y: 0 });
+    const right = createRectElement({ id: 'rect-right', x: 400, y: 40, zIndex: 'z00000002' });
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-1', name: 'connect-canvas', elements: { [left.id]: left, [right.id]: right }, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-1', automerge_url: handle.url, name: 'connect-canvas' });
+
+    const result = await txExecuteCanvasConnect({ dbService, automergeService, crypto }, { canvasId: row.id, sourceId: left.id, targetId: right.id, id: 'arrow-1', endCap: 'dot' });
+    expect(result).toMatchObject({ ok: true, command: 'canvas.connect', dryRun: false, sourceId: 'rect-left', targetId: 'rect-right', element: { id: 'arrow-1', type: 'arrow', zIndex: 'z00000003', x: 120, y: 40, points: [[0, 0], [280, 40]] } });
+
+    const doc = handle.doc()!;
+    expect(doc.elements['arrow-1']?.data).toMatchObject({ type: 'arrow', lineType: 'straight', startCap: 'none', endCap: 'dot', startBinding: { targetId: 'rect-left', anchor: { x: 1, y: 0.5 } }, endBinding: { targetId: 'rect-right', anchor: { x: 0, y: 0.5 } } });
+    expect(doc.elements[left.id]?.bindings).toEqual([{ targetId: 'arrow-1', anchor: { x: 1, y: 0.5 } }]);
+    expect(doc.elements[right.id]?.bindings).toEqual([{ targetId: 'arrow-1', anchor: { x: 0, y: 0.5 } }]);
+  });
+
+  test('uses top/bottom anchors for stacked elements and leaves the doc untouched on dry-run', async () => {
+    const top = createRectElement({ id: 'rect-top', x: 0, y: 0 });
+    const bottom = createRectElement({ id: 'rect-bottom', x: 20, y: 300 });
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-2', name: 'connect-dry-run-canvas', elements: { [top.id]: top, [bottom.id]: bottom }, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-2', automerge_url: handle.url, name: 'connect-dry-run-canvas' });
+
+    const result = await txExecuteCanvasConnect({ dbService, automergeService, crypto }, { canvasId: row.id, sourceId: bottom.id, targetId: top.id, type: 'line', lineType: 'curved', dryRun: true });
+    expect(result).toMatchObject({ ok: true, dryRun: true, element: { id: 'PLACEHOLDER-NO', type: 'line', x: 80, y: 300, points: [[0, 0], [-20, -220]], startBinding: { targetId: 'rect-bottom', anchor: { x: 0.5, y: 0 } }, endBinding: { targetId: 'rect-top', anchor: { x: 0.5, y: 1 } } } });
+    expect(Object.keys(handle.doc()!.elements).sort()).toEqual(['rect-bottom', 'rect-top']);
+  });
+
+  test('fails clearly on missing, grouped, or invalid endpoints', async () => {
+    const rect = createRectElement({ id: 'rect-a' });
+    const group = createGroup({ id: 'group-a' });
+    const pen: TElement = { ...createRectElement({ id: 'pen-a' }), data: { type: 'pen', points: [[0, 0], [10, 10]], pressures: [0.5, 0.5], simulatePressure: true } };
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-3', name: 'connect-errors-canvas', elements: { [rect.id]: rect, [pen.id]: pen }, groups: { [group.id]: group } });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-3', automerge_url: handle.url, name: 'connect-errors-canvas' });
+    const portal = { dbService, automergeService, crypto };
+
+    await expect(txExecuteCanvasConnect(portal, { canvasId: row.id, targetId: rect.id })).rejects.toMatchObject({ ok: false, command: 'canvas.connect', code: 'CANVAS_CONNECT_SOURCE_REQUIRED' });
+    await expect(txExecuteCanvasConnect(portal, { canvasId: row.id, sourceId: rect.id, targetId: rect.id })).rejects.toMatchObject({ code: 'CANVAS_CONNECT_SAME_ELEMENT' });
+    await expect(txExecuteCanvasConnect(portal, { canvasId: row.id, sourceId: rect.id, targetId: 'missing' })).rejects.toMatchObject({ code: 'CANVAS_CONNECT_TARGET_NOT_FOUND' });
+    await expect(txExecuteCanvasConnect(portal, { canvasId: row.id, sourceId: group.id, targetId: rect.id })).rejects.toMatchObject({ code: 'CANVAS_CONNECT_SOURCE_NOT_FOUND' });
+    await expect(txExecuteCanvasConnect(portal, { canvasId: row.id, sourceId: rect.id, targetId: pen.id })).rejects.toMatchObject({ code: 'CANVAS_CONNECT_TARGET_INVALID' });
+    await expect(txExecuteCanvasConnect(portal, { canvasId: row.id, sourceId: rect.id, targetId: pen.id, type: 'line', endCap: 'arrow' })).rejects.toMatchObject({ code: 'CANVAS_CONNECT_PAYLOAD_INVALID' });
+  });
+});
@@ -0,0 +1,55 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasCreate } from 'packages/canvas-cmds/src/cmds/tx.cmd.create';
+import { txExecuteCanvasRemove } from 'packages/canvas-cmds/src/cmds/tx.cmd.remove';
+import { txExecuteCanvasRename } from 'packages/canvas-cmds/src/cmds/tx.cmd.rename';
+
+describe('create, rename, and remove canvas commands', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let portal!: { dbService: DbServiceBunSqlite; automergeService: AutomergeService; crypto: typeof crypto };
+
+  beforeEach(() => {
+    const databasePath = join(tmpdir(), `canvas-cmds-create-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+    portal = { dbService, automergeService, crypto };
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  test('creates an empty canvas and renames it', async () => {
+    const created = await txExecuteCanvasCreate(portal, { name: '  scratch  ' });
+    expect(created).toMatchObject({ ok: true, command: 'canvas.create', canvas: { name: 'scratch' } });
+    const handle = await automergeService.repo.find<TCanvasDoc>(created.canvas.automergeUrl as never);
+    expect(handle.doc()).toMatchObject({ id: created.canvas.id, name: 'scratch', elements: {}, groups: {} });
+
+    await expect(txExecuteCanvasCreate(portal, { name: 'scratch' })).rejects.toMatchObject({ ok: false, command: 'canvas.create', code: 'CANVAS_CREATE_NAME_CONFLICT' });
+    await expect(txExecuteCanvasCreate(portal, { name: ' ' })).rejects.toMatchObject({ code: 'CANVAS_CREATE_NAME_REQUIRED' });
+
+    const renamed = await txExecuteCanvasRename(portal, { canvasNameQuery: 'scr', name: 'release plan' });
+    expect(renamed).toMatchObject({ ok: true, command: 'canvas.rename', previousName: 'scratch', canvas: { id: created.canvas.id, name: 'release plan' } });
+    expect(dbService.canvas.findByName('release plan')?.id).toBe(created.canvas.id);
+    expect((await txExecuteCanvasRename(portal, { canvasId: created.canvas.id, name: 'release plan' })).canvas.name).toBe('release plan');
+
+    await txExecuteCanvasCreate(portal, { name: 'other' });
+    await expect(txExecuteCanvasRename(portal, { canvasId: created.canvas.id, name: 'other' })).rejects.toMatchObject({ code: 'CANVAS_RENAME_NAME_CONFLICT' });
+    await expect(txExecuteCanvasRename(portal, { canvasId: created.canvas.id })).rejects.toMatchObject({ code: 'CANVAS_RENAME_NAME_REQUIRED' });
+  });
+
+  test('removes a canvas and its document', async () => {
+    const created = await txExecuteCanvasCreate(portal, { name: 'scratch' });
+
+    const removed = await txExecuteCanvasRemove(portal, { canvasNameQuery: 'scratch' });
+    expect(removed).toMatchObject({ ok: true, command: 'canvas.remove', canvas: { id: created.canvas.id, name: 'scratch' } });
+    expect(dbService.canvas.listAll()).toEqual([]);
+
+    await expect(txExecuteCanvasRemove(portal, { canvasId: created.canvas.id })).rejects.toMatchObject({ ok: false, command: 'canvas.remove', code: 'CANVAS_SELECTOR_NOT_FOUND' });
+  });
+});
@@ -74,6 +74,24 @@ describe('delete canvas command', () => {
     expect(doc.elements[keep.id]).toBeDefined();
   });
 
+  test('releases arrow bindings that point at deleted elements', async () => {
+    const source = createRectElement({ id: 'rect-source', x: 40, y: 80 });
+    const target = createRectElement({ id: 'rect-target', x: 300, y: 80 });
+    const arrow: TElement = {
+      ...createRectElement({ id: 'arrow-1', x: 160, y: 120 }),
+      data: { type: 'arrow', lineType: 'straight', points: [[0, 0], [140, 0]], startBinding: { targetId: source.id, anchor: { x: 1, y: 0.5 } }, endBinding: { targetId: target.id, anchor: { x: 0, y: 0.5 } }, startCap: 'none', endCap: 'arrow' },
+    };
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-bound', name: 'delete-bound-canvas', elements: { [source.id]: source, [target.id]: target, [arrow.id]: arrow }, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-bound', automerge_url: handle.url, name: 'delete-bound-canvas' });
+
+    await txExecuteCanvasDelete({ dbService, automergeService }, { canvasId: row.id, canvasNameQuery: null, ids: [target.id] });
+
+    const doc = handle.doc()!;
+    expect(doc.elements[arrow.id]?.data).toMatchObject({ points: [[0, 0], [140, 0]], startBinding: { targetId: source.id }, endBinding: null });
+    expect(doc.elements[source.id]?.bindings).toEqual([{ targetId: arrow.id, anchor: { x: 1, y: 0.5 } }]);
+  });
+
   test('deleting a group cascades to every descendant element and nested group', async () => {
     const rootGroup = createGroup({ id: 'group-root', zIndex: 'a0' });
     const childGroup = createGroup({ id: 'group-child', parentGroupId: rootGroup.id, zIndex: 'a1' });
@@ -0,0 +1,113 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasDiagram } from 'packages/canvas-cmds/src/cmds/tx.cmd.diagram';
+import { txExecuteCanvasUndo } from 'packages/canvas-cmds/src/cmds/tx.cmd.undo';
+import { fnParseDiagram } from 'packages/canvas-cmds/src/core/fn.diagram';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'z00000001', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+
+const MERMAID_SOURCE = `flowchart TD
+  start([Start]) --> check{Valid?}
+  check -->|yes| done((Done))
+  check -- no --> start
+`;
+
+describe('diagram canvas command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-diagram-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: Record<string, TElement> = {}) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('parses mermaid flowcharts and graphviz dot into the same graph model', () => {
+    const mermaid = fnParseDiagram(MERMAID_SOURCE);
+    expect(mermaid).toMatchObject({ ok: true, graph: { format: 'mermaid', direction: 'TB' } });
+    if (!mermaid.ok) return;
+    expect(mermaid.graph.nodes).toEqual([
+      { key: 'start', label: 'Start', shape: 'rect' },
+      { key: 'check', label: 'Valid?', shape: 'diamond' },
+      { key: 'done', label: 'Done', shape: 'ellipse' },
+    ]);
+    expect(mermaid.graph.edges.map((edge) => [edge.from, edge.to, edge.label, edge.endCap])).toEqual([['start', 'check', null, 'arrow'], ['check', 'done', 'yes', 'arrow'], ['check', 'start', 'no', 'arrow']]);
+
+    const dot = fnParseDiagram('digraph G { rankdir=LR; node [shape=box]; a [label="A\\nB"]; a -> {b c} [label=go]; c -- d }');
+    expect(dot).toEqual({ ok: false, line: 1, message: "Use '->' for edges in a digraph." });
+
+    const fixed = fnParseDiagram('digraph G { rankdir=LR; node [shape=box]; a [label="A\\nB"]; a -> {b c} [label=go]; b -> d [dir=none]; d [shape=diamond] }');
+    expect(fixed).toMatchObject({ ok: true, graph: { format: 'dot', direction: 'LR' } });
+    if (!fixed.ok) return;
+    expect(fixed.graph.nodes.map((node) => [node.key, node.label, node.shape])).toEqual([['a', 'A\nB', 'rect'], ['b', 'b', 'rect'], ['c', 'c', 'rect'], ['d', 'd', 'diamond']]);
+    expect(fixed.graph.edges.map((edge) => [edge.from, edge.to, edge.label, edge.endCap])).toEqual([['a', 'b', 'go', 'arrow'], ['a', 'c', 'go', 'arrow'], ['b', 'd', null, 'none']]);
+  });
+
+  test('materializes a layered diagram as one group of shapes, bound labels, and bound arrows', async () => {
+    const existing = createRectElement({ id: 'existing', x: 0, y: 40 });
+    const { handle, row } = await createCanvas('diagram-canvas', { [existing.id]: existing });
+
+    const result = await txExecuteCanvasDiagram({ dbService, automergeService, crypto }, { canvasId: row.id, source: MERMAID_SOURCE });
+    expect(result).toMatchObject({ ok: true, command: 'canvas.diagram', dryRun: false, format: 'mermaid', direction: 'TB', nodeCount: 3, edgeCount: 3, addedCount: 11 });
+
+    const doc = structuredClone(handle.doc()!);
+    expect(Object.keys(doc.groups)).toEqual([result.groupId]);
+    expect(result.addedIds.every((id) => doc.elements[id]?.parentGroupId === result.groupId)).toBe(true);
+    expect(doc.elements.existing?.parentGroupId).toBeNull();
+
+    const byKey = (role: string, key: string) => doc.elements[result.elements.find((element) => element.role === role && element.key === key)!.id]!;
+    const start = byKey('node', 'start');
+    const check = byKey('node', 'check');
+    const done = byKey('node', 'done');
+    expect([start.data.type, check.data.type, done.data.type]).toEqual(['rect', 'diamond', 'ellipse']);
+    expect(start.x).toBeGreaterThanOrEqual(existing.x + 120 + 120);
+    expect(start.y).toBe(existing.y);
+    expect(check.y).toBeGreaterThan(start.y);
+    expect(done.y).toBeGreaterThan(check.y);
+
+    expect(byKey('label', 'check').data).toMatchObject({ type: 'text', text: 'Valid?', containerId: check.id, textAlign: 'center', verticalAlign: 'middle' });
+    expect(byKey('edge', 'start->check').data).toMatchObject({ type: 'arrow', endCap: 'arrow', startBinding: { targetId: start.id, anchor: { x: 0.5, y: 1 } }, endBinding: { targetId: check.id, anchor: { x: 0.5, y: 0 } } });
+    expect(byKey('edge-label', 'check->done').data).toMatchObject({ type: 'text', text: 'yes', containerId: null });
+    expect(check.bindings.map((binding) => binding.targetId).sort()).toEqual([byKey('edge', 'check->done').id, byKey('edge', 'check->start').id, byKey('edge', 'start->check').id].sort());
+
+    const undone = await txExecuteCanvasUndo({ dbService, automergeService }, { canvasId: row.id });
+    expect(undone).toMatchObject({ entry: { label: 'canvas.diagram' }, undoCount: 0 });
+    expect(Object.keys(handle.doc()!.elements)).toEqual(['existing']);
+    expect(handle.doc()!.groups).toEqual({});
+  });
+
+  test('previews generated elements on dry-run and fails clearly on bad input', async () => {
+    const { handle, row } = await createCanvas('diagram-dry-run');
+
+    const preview = await txExecuteCanvasDiagram({ dbService, automergeService, crypto }, { canvasNameQuery: 'diagram-dry-run', source: 'graph { a -- b }', x: 10, y: 20, dryRun: true });
+    expect(preview).toMatchObject({ dryRun: true, format: 'dot', groupId: 'PLACEHOLDER-NO', nodeCount: 2, edgeCount: 1, addedCount: 5, bounds: { x: 10, y: 20 } });
+    expect(preview.elements.map((element) => [element.role, element.type, element.key])).toEqual([['node', 'ellipse', 'a'], ['label', 'text', 'a'], ['node', 'ellipse', 'b'], ['label', 'text', 'b'], ['edge', 'line', 'a->b']]);
+    expect(preview.elements.every((element) => element.id === 'PLACEHOLDER-NO')).toBe(true);
+    expect(Object.keys(handle.doc()!.elements)).toHaveLength(0);
+
+    await expect(txExecuteCanvasDiagram({ dbService, automergeService, crypto }, { canvasId: row.id, source: '  ' })).rejects.toMatchObject({ ok: false, command: 'canvas.diagram', code: 'CANVAS_DIAGRAM_SOURCE_REQUIRED' });
+    await expect(txExecuteCanvasDiagram({ dbService, automergeService, crypto }, { canvasId: row.id, source: 'sequenceDiagram\n  a->>b: hi' })).rejects.toMatchObject({ code: 'CANVAS_DIAGRAM_PARSE_FAILED', message: expect.stringContaining('line 1') });
+    await expect(txExecuteCanvasDiagram({ dbService, automergeService, crypto }, { canvasId: row.id, source: 'flowchart LR\n  a --> b', format: 'svg' as never })).rejects.toMatchObject({ code: 'CANVAS_DIAGRAM_FORMAT_INVALID' });
+    await expect(txExecuteCanvasDiagram({ dbService, automergeService, crypto }, { canvasId: row.id, source: 'flowchart LR' })).rejects.toMatchObject({ code: 'CANVAS_DIAGRAM_EMPTY' });
+    await expect(txExecuteCanvasDiagram({ dbService, automergeService, crypto }, { canvasId: 'missing', source: 'flowchart LR\n  a --> b' })).rejects.toMatchObject({ command: 'canvas.diagram', code: 'CANVAS_SELECTOR_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,74 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasDistribute } from 'packages/canvas-cmds/src/cmds/tx.cmd.distribute';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 100, h: 60 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+function createArrowElement(from: string, to: string, overrides?: Partial<TElement>): TElement {
+  return { id: `${from}->${to}`, x: 0, y: 0, rotation: 0, zIndex: 'a9', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'arrow', lineType: 'straight', points: [[0, 0], [10, 0]], startBinding: { targetId: from, anchor: { x: 0.5, y: 1 } }, endBinding: { targetId: to, anchor: { x: 0.5, y: 0 } }, startCap: 'none', endCap: 'arrow' }, style: { strokeColor: '#111111', strokeWidth: 2, opacity: 1 }, ...overrides };
+}
+function createLabelElement(containerId: string, overrides?: Partial<TElement>): TElement {
+  return { id: `${containerId}-label`, x: 0, y: 0, rotation: 0, zIndex: 'a5', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'text', w: 100, h: 60, text: containerId, originalText: containerId, fontSize: 16, fontFamily: 'Arial', textAlign: 'center', verticalAlign: 'middle', lineHeight: 1.25, link: null, containerId, autoResize: false }, style: { strokeColor: '#111111', opacity: 1 }, ...overrides } as TElement;
+}
+function createGroup(overrides?: Partial<TGroup>): TGroup {
+  return { id: 'group-1', parentGroupId: null, zIndex: 'a0', locked: false, createdAt: 1, ...overrides };
+}
+
+describe('distribute canvas command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-distribute-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[], groups: TGroup[] = []) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: Object.fromEntries(groups.map((group) => [group.id, group])) });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('spaces nodes with equal gaps between the outermost ones in a single change', async () => {
+    const { handle, row } = await createCanvas('distribute', [
+      createRectElement({ id: 'c', x: 400, y: 300 }),
+      createRectElement({ id: 'a', x: 0, y: 0 }),
+      createRectElement({ id: 'b', x: 130, y: 80, data: { type: 'rect', w: 50, h: 40 } }),
+      createArrowElement('a', 'b'),
+    ]);
+
+    const preview = await txExecuteCanvasDistribute({ dbService, automergeService }, { canvasId: row.id, selector: { types: ['rect'] }, axis: 'horizontal', dryRun: true });
+    expect(preview).toMatchObject({ ok: true, command: 'canvas.distribute', dryRun: true, axis: 'horizontal', nodeCount: 3, changedIds: ['b'] });
+    expect(preview.moves.find((move) => move.id === 'b')).toEqual({ id: 'b', kind: 'element', from: { x: 130, y: 80 }, to: { x: 225, y: 80 }, dx: 95, dy: 0 });
+    expect(handle.doc()!.elements.b!.x).toBe(130);
+
+    const changesBefore = handle.history()!.length;
+    await txExecuteCanvasDistribute({ dbService, automergeService }, { canvasId: row.id, selector: { types: ['rect'] }, axis: 'vertical' });
+    const doc = handle.doc()!;
+    expect(['a', 'b', 'c'].map((id) => [doc.elements[id]!.x, doc.elements[id]!.y])).toEqual([[0, 0], [130, 160], [400, 300]]);
+    expect(doc.elements['a->b']!.y).toBe(60);
+    expect(handle.history()!.length).toBe(changesBefore + 1);
+  });
+
+  test('fails clearly on missing axes, missing selectors, and fewer than three targets', async () => {
+    const { row } = await createCanvas('distribute-errors', [createRectElement({ id: 'a' }), createRectElement({ id: 'b' })]);
+    const portal = { dbService, automergeService };
+
+    await expect(txExecuteCanvasDistribute(portal, { canvasId: row.id, selector: { ids: ['a', 'b'] } })).rejects.toMatchObject({ ok: false, command: 'canvas.distribute', code: 'CANVAS_DISTRIBUTE_AXIS_INVALID' });
+    await expect(txExecuteCanvasDistribute(portal, { canvasId: row.id, axis: 'vertical' })).rejects.toMatchObject({ code: 'CANVAS_DISTRIBUTE_SELECTOR_REQUIRED' });
+    await expect(txExecuteCanvasDistribute(portal, { canvasId: row.id, selector: { ids: ['a', 'b'] }, axis: 'vertical' })).rejects.toMatchObject({ code: 'CANVAS_DISTRIBUTE_TOO_FEW' });
+  });
+});
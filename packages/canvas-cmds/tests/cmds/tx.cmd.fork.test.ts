@@ -0,0 +1,103 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasDuplicate } from 'packages/canvas-cmds/src/cmds/tx.cmd.duplicate';
+import { txExecuteCanvasFork } from 'packages/canvas-cmds/src/cmds/tx.cmd.fork';
+import { txExecuteCanvasMerge } from 'packages/canvas-cmds/src/cmds/tx.cmd.merge';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+import { txExecuteCanvasUndo } from 'packages/canvas-cmds/src/cmds/tx.cmd.undo';
+import { IMAGE_FILE_ID, createImageElement, createRectElement } from 'packages/canvas-cmds/tests/fixtures';
+
+describe('duplicate, fork, and merge canvas commands', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-fork-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  async function readDoc(automergeUrl: string) {
+    const handle = await automergeService.repo.find<TCanvasDoc>(automergeUrl as never);
+    return handle.doc()!;
+  }
+
+  test('duplicates a canvas with its own copies of image files', async () => {
+    dbService.file.create({ id: IMAGE_FILE_ID, hash: 'hash', format: 'image/png', base64: 'aGVsbG8=' });
+    const { row } = await createCanvas('board', [createRectElement(), createImageElement()]);
+    const portal = { dbService, automergeService, crypto };
+
+    const duplicate = await txExecuteCanvasDuplicate(portal, { canvasId: row.id });
+    expect(duplicate).toMatchObject({ ok: true, command: 'canvas.duplicate', source: { id: row.id }, canvas: { name: 'board copy' }, elementCount: 2, groupCount: 0, fileCount: 1 });
+    expect((await txExecuteCanvasDuplicate(portal, { canvasId: row.id })).canvas.name).toBe('board copy (2)');
+
+    const doc = await readDoc(duplicate.canvas.automergeUrl);
+    expect(doc).toMatchObject({ id: duplicate.canvas.id, name: 'board copy' });
+    const image = doc.elements['image-1']!.data as { url: string };
+    expect(image.url).not.toBe(`/files/${IMAGE_FILE_ID}.png`);
+    expect(dbService.file.listAll()).toHaveLength(3);
+
+    await expect(txExecuteCanvasDuplicate(portal, { canvasId: row.id, name: 'board' })).rejects.toMatchObject({ ok: false, command: 'canvas.duplicate', code: 'CANVAS_DUPLICATE_NAME_CONFLICT' });
+    await expect(txExecuteCanvasMerge(portal, { canvasId: duplicate.canvas.id, intoCanvasId: row.id })).rejects.toMatchObject({ code: 'CANVAS_MERGE_UNRELATED' });
+  });
+
+  test('merges a fork back into its source, keeping edits made on both', async () => {
+    const { handle, row } = await createCanvas('plan', [createRectElement({ id: 'a', x: 0 }), createRectElement({ id: 'b', x: 100 })]);
+    const portal = { dbService, automergeService, crypto };
+
+    const fork = await txExecuteCanvasFork(portal, { canvasId: row.id });
+    expect(fork).toMatchObject({ ok: true, command: 'canvas.fork', canvas: { name: 'plan fork' }, forkedFromId: row.id, elementCount: 2 });
+
+    await txExecuteCanvasMove(portal, { canvasId: fork.canvas.id, session: 'agent-1', ids: ['a'], mode: 'absolute', x: 50, y: 0 });
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['b'], mode: 'absolute', x: 300, y: 0 });
+    const before = handle.heads();
+
+    const preview = await txExecuteCanvasMerge(portal, { canvasId: fork.canvas.id, dryRun: true });
+    expect(preview).toMatchObject({ ok: true, command: 'canvas.merge', dryRun: true, canvas: { id: row.id }, mergedChangeCount: 1, modifiedIds: ['a'] });
+    expect(handle.heads()).toEqual(before);
+
+    const merge = await txExecuteCanvasMerge(portal, { canvasId: fork.canvas.id });
+    expect(merge).toMatchObject({ dryRun: false, modifiedIds: ['a'], before: preview.before, heads: preview.heads });
+    expect([handle.doc()!.elements.a!.x, handle.doc()!.elements.b!.x]).toEqual([50, 300]);
+
+    expect((await txExecuteCanvasMerge(portal, { canvasId: fork.canvas.id })).mergedChangeCount).toBe(0);
+    await expect(txExecuteCanvasMerge(portal, { canvasId: row.id })).rejects.toMatchObject({ code: 'CANVAS_MERGE_TARGET_REQUIRED' });
+  });
+
+  test('keeps the source on its own image files when a fork is merged back', async () => {
+    dbService.file.create({ id: IMAGE_FILE_ID, hash: 'hash', format: 'image/png', base64: 'aGVsbG8=' });
+    const { handle, row } = await createCanvas('gallery', [createImageElement()]);
+    const portal = { dbService, automergeService, crypto };
+    const sourceUrl = `/files/${IMAGE_FILE_ID}.png`;
+
+    const fork = await txExecuteCanvasFork(portal, { canvasId: row.id });
+    const forkUrl = ((await readDoc(fork.canvas.automergeUrl)).elements['image-1']!.data as { url: string }).url;
+    expect(forkUrl).not.toBe(sourceUrl);
+    await expect(txExecuteCanvasUndo(portal, { canvasId: fork.canvas.id })).rejects.toMatchObject({ code: 'CANVAS_UNDO_EMPTY' });
+
+    await txExecuteCanvasMove(portal, { canvasId: fork.canvas.id, ids: ['image-1'], mode: 'absolute', x: 200, y: 80 });
+    const preview = await txExecuteCanvasMerge(portal, { canvasId: fork.canvas.id, dryRun: true });
+    expect(preview.entries).toEqual([expect.objectContaining({ id: 'image-1', fields: [expect.objectContaining({ path: 'x', after: 200 })] })]);
+
+    await txExecuteCanvasMerge(portal, { canvasId: fork.canvas.id });
+    expect(handle.doc()!.elements['image-1']).toMatchObject({ x: 200, data: { url: sourceUrl } });
+    expect(((await readDoc(fork.canvas.automergeUrl)).elements['image-1']!.data as { url: string }).url).toBe(forkUrl);
+  });
+});
@@ -0,0 +1,97 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import * as Automerge from '@automerge/automerge/slim';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fxExecuteCanvasExportDoc } from 'packages/canvas-cmds/src/cmds/fx.cmd.export-doc';
+import { txExecuteCanvasImportDoc } from 'packages/canvas-cmds/src/cmds/tx.cmd.import-doc';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+import { txExecuteCanvasUndo } from 'packages/canvas-cmds/src/cmds/tx.cmd.undo';
+import { IMAGE_FILE_ID, createImageElement, createRectElement } from 'packages/canvas-cmds/tests/fixtures';
+
+describe('canvas export-doc and import-doc', () => {
+  const workspaces: Array<{ dbService: DbServiceBunSqlite; automergeService: AutomergeService }> = [];
+
+  function createWorkspace() {
+    const databasePath = join(tmpdir(), `canvas-cmds-doc-file-${crypto.randomUUID()}.sqlite`);
+    const dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    const automergeService = new AutomergeService(databasePath);
+    const workspace = { dbService, automergeService, crypto };
+    workspaces.push(workspace);
+    return workspace;
+  }
+
+  let source!: ReturnType<typeof createWorkspace>;
+
+  beforeEach(() => {
+    source = createWorkspace();
+  });
+  afterEach(() => {
+    while (workspaces.length > 0) {
+      const workspace = workspaces.pop()!;
+      workspace.automergeService.stop();
+      workspace.dbService.stop();
+    }
+  });
+
+  async function createCanvas(name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = source.automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = source.dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('round-trips a canvas with its history and images into another database', async () => {
+    source.dbService.file.create({ id: IMAGE_FILE_ID, hash: 'hash', format: 'image/png', base64: 'aGVsbG8=' });
+    const { row } = await createCanvas('roadmap', [createRectElement(), createImageElement()]);
+    await txExecuteCanvasMove(source, { canvasId: row.id, ids: ['rect-1'], mode: 'absolute', x: 200, y: 0 });
+
+    const exported = await fxExecuteCanvasExportDoc(source, { canvasId: row.id, appVersion: '1.2.3' });
+    expect(exported).toMatchObject({ ok: true, command: 'canvas.export-doc', fileName: 'roadmap.vibecanvas', version: 1, elementCount: 2, fileCount: 1, missingFileUrls: [] });
+    expect(JSON.parse(exported.content)).toMatchObject({ format: 'vibecanvas-canvas', appVersion: '1.2.3', canvas: { id: row.id, name: 'roadmap' } });
+
+    const target = createWorkspace();
+    const preview = await txExecuteCanvasImportDoc(target, { content: exported.content, dryRun: true });
+    expect(preview).toMatchObject({ ok: true, dryRun: true, canvas: { name: 'roadmap' }, renamed: false, elementCount: 2, fileCount: 1 });
+    expect(target.dbService.canvas.listAll()).toHaveLength(0);
+
+    const imported = await txExecuteCanvasImportDoc(target, { content: exported.content });
+    expect(imported).toMatchObject({ ok: true, command: 'canvas.import-doc', dryRun: false, canvas: { name: 'roadmap' }, source: { id: row.id, name: 'roadmap', appVersion: '1.2.3' }, renamed: false });
+    expect(imported.canvas.id).not.toBe(row.id);
+
+    const handle = await target.automergeService.repo.find<TCanvasDoc>(imported.canvas.automergeUrl as never);
+    const doc = handle.doc()!;
+    expect(doc).toMatchObject({ id: imported.canvas.id, name: 'roadmap' });
+    expect(doc.elements['rect-1']!.x).toBe(200);
+    expect(Automerge.getHistory(doc).length).toBeGreaterThan(2);
+
+    const image = doc.elements['image-1']!.data as { url: string };
+    expect(image.url).not.toBe(`/files/${IMAGE_FILE_ID}.png`);
+    expect(target.dbService.file.listAll()).toEqual([expect.objectContaining({ hash: 'hash', base64: 'aGVsbG8=' })]);
+
+    const undone = await txExecuteCanvasUndo(target, { canvasId: imported.canvas.id });
+    expect(undone.entry.label).toBe('canvas.move');
+    expect(handle.doc()!.elements['rect-1']!.x).toBe(40);
+    expect(handle.doc()!.elements['image-1']!.data).toMatchObject({ url: image.url });
+  });
+
+  test('renames on name collisions and rejects files it cannot read', async () => {
+    const { row } = await createCanvas('notes', [createRectElement()]);
+    const exported = await fxExecuteCanvasExportDoc(source, { canvasId: row.id });
+
+    const again = await txExecuteCanvasImportDoc(source, { content: exported.content });
+    expect(again).toMatchObject({ canvas: { name: 'notes (2)' }, renamed: true });
+    expect(again.canvas.automergeUrl).not.toBe(row.automerge_url);
+    expect((await txExecuteCanvasImportDoc(source, { content: exported.content, name: 'notes copy' })).canvas.name).toBe('notes copy');
+
+    await expect(txExecuteCanvasImportDoc(source, { content: exported.content, name: 'notes' })).rejects.toMatchObject({ ok: false, command: 'canvas.import-doc', code: 'CANVAS_IMPORT_DOC_NAME_CONFLICT' });
+    await expect(txExecuteCanvasImportDoc(source, { content: '{"type":"excalidraw"}' })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_DOC_CONTENT_INVALID' });
+    const newer = { ...JSON.parse(exported.content), version: 99 };
+    await expect(txExecuteCanvasImportDoc(source, { content: JSON.stringify(newer) })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_DOC_VERSION_UNSUPPORTED' });
+    const corrupt = { ...JSON.parse(exported.content), document: 'bm90IGF1dG9tZXJnZQ==' };
+    await expect(txExecuteCanvasImportDoc(source, { content: JSON.stringify(corrupt) })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_DOC_DOCUMENT_INVALID' });
+  });
+});
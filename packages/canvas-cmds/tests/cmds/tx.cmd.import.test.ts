@@ -0,0 +1,211 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fxExecuteCanvasExport } from 'packages/canvas-cmds/src/cmds/fx.cmd.export';
+import { txExecuteCanvasImport } from 'packages/canvas-cmds/src/cmds/tx.cmd.import';
+
+const PNG_1X1 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+function createExcalidrawElement(overrides: Record<string, unknown>) {
+  return { x: 0, y: 0, width: 100, height: 60, angle: 0, strokeColor: '#1e1e1e', backgroundColor: 'transparent', fillStyle: 'solid', strokeWidth: 2, strokeStyle: 'solid', roughness: 1, opacity: 100, groupIds: [], frameId: null, roundness: null, seed: 1, version: 1, versionNonce: 1, isDeleted: false, boundElements: null, updated: 1, link: null, locked: false, ...overrides };
+}
+
+function createScene() {
+  return {
+    type: 'excalidraw',
+    version: 2,
+    source: 'https://excalidraw.com',
+    elements: [
+      createExcalidrawElement({ id: 'box', type: 'rectangle', backgroundColor: '#a5d8ff', groupIds: ['inner', 'outer'], boundElements: [{ id: 'label', type: 'text' }, { id: 'link', type: 'arrow' }] }),
+      createExcalidrawElement({ id: 'label', type: 'text', x: 10, y: 20, width: 80, height: 25, text: 'Box', originalText: 'Box', fontSize: 20, fontFamily: 5, textAlign: 'center', verticalAlign: 'middle', containerId: 'box', lineHeight: 1.25, groupIds: ['inner', 'outer'] }),
+      createExcalidrawElement({ id: 'circle', type: 'ellipse', x: 300, y: 0, width: 80, height: 60, groupIds: ['outer'], boundElements: [{ id: 'link', type: 'arrow' }] }),
+      createExcalidrawElement({ id: 'link', type: 'arrow', x: 100, y: 30, width: 200, height: 0, points: [[0, 0], [200, 0]], startBinding: { elementId: 'box', focus: 0, gap: 0 }, endBinding: { elementId: 'circle', focus: 0, gap: 0 }, startArrowhead: null, endArrowhead: 'triangle' }),
+      createExcalidrawElement({ id: 'photo', type: 'image', x: 0, y: 200, width: 40, height: 40, fileId: 'file-1', status: 'saved', scale: [1, 1], crop: null }),
+      createExcalidrawElement({ id: 'gone', type: 'rectangle', isDeleted: true }),
+      createExcalidrawElement({ id: 'embed', type: 'embeddable', x: 600 }),
+    ],
+    appState: { viewBackgroundColor: '#ffffff' },
+    files: { 'file-1': { id: 'file-1', mimeType: 'image/png', dataURL: `data:image/png;base64,${PNG_1X1}`, created: 1 } },
+  };
+}
+
+function createJsonCanvas() {
+  return {
+    nodes: [
+      { id: 'area', type: 'group', x: -20, y: -40, width: 520, height: 300, label: 'Research', color: '4' },
+      { id: 'note', type: 'text', x: 0, y: 0, width: 200, height: 100, text: '# Idea\nShip it' },
+      { id: 'doc', type: 'file', x: 260, y: 0, width: 200, height: 200, file: 'notes/spec.md', color: '#ff0000' },
+      { id: 'site', type: 'link', x: 700, y: 0, width: 300, height: 200, url: 'https://jsoncanvas.org' },
+      { id: 'odd', type: 'widget', x: 0, y: 600, width: 10, height: 10 },
+    ],
+    edges: [
+      { id: 'e1', fromNode: 'note', fromSide: 'right', toNode: 'doc', toSide: 'left', label: 'details' },
+      { id: 'e2', fromNode: 'doc', toNode: 'site', toEnd: 'none', color: '1' },
+      { id: 'e3', fromNode: 'note', toNode: 'odd' },
+    ],
+  };
+}
+
+describe('import canvas command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-import-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function readDoc(automergeUrl: string): Promise<TCanvasDoc> {
+    const handle = await automergeService.repo.find<TCanvasDoc>(automergeUrl as never);
+    await handle.whenReady();
+    return structuredClone(handle.doc()!);
+  }
+
+  function findByType(doc: TCanvasDoc, type: TElement['data']['type']): TElement {
+    return Object.values(doc.elements).find((element) => element.data.type === type)!;
+  }
+
+  test('creates a new canvas with groups, bound text, arrow bindings, and stored images', async () => {
+    const result = await txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'imported', content: JSON.stringify(createScene()) });
+
+    expect(result).toMatchObject({ ok: true, command: 'canvas.import', dryRun: false, format: 'excalidraw', created: true, importedCount: 5, fileCount: 1 });
+    expect(result.skipped).toEqual([{ id: 'embed', type: 'embeddable', reason: "unsupported element type 'embeddable'" }]);
+    expect(dbService.canvas.listAll().map((row) => row.name)).toEqual(['imported']);
+
+    const doc = await readDoc(result.canvas.automergeUrl);
+    const rect = findByType(doc, 'rect');
+    const text = findByType(doc, 'text');
+    const ellipse = findByType(doc, 'ellipse');
+    const arrow = findByType(doc, 'arrow');
+    const image = findByType(doc, 'image');
+
+    expect(Object.keys(doc.groups)).toHaveLength(2);
+    const innerGroup = doc.groups[rect.parentGroupId!]!;
+    expect(innerGroup.parentGroupId).toBe(ellipse.parentGroupId);
+    expect(doc.groups[ellipse.parentGroupId!]!.parentGroupId).toBeNull();
+    expect(rect.style).toMatchObject({ backgroundColor: '#a5d8ff', strokeColor: '#1e1e1e', strokeWidth: 2, opacity: 1 });
+    expect(text.data).toMatchObject({ text: 'Box', containerId: rect.id, textAlign: 'center', verticalAlign: 'middle', fontFamily: 'Arial, sans-serif' });
+    expect(arrow.data).toMatchObject({ startBinding: { targetId: rect.id, anchor: { x: 1, y: 0.5 } }, endBinding: { targetId: ellipse.id, anchor: { x: 0, y: 0.5 } }, startCap: 'none', endCap: 'arrow' });
+    expect(rect.bindings).toEqual([{ targetId: arrow.id, anchor: { x: 1, y: 0.5 } }]);
+    expect([rect.zIndex, text.zIndex, ellipse.zIndex, arrow.zIndex, image.zIndex]).toEqual(['z00000000', 'z00000001', 'z00000002', 'z00000003', 'z00000004']);
+
+    expect(image.data).toMatchObject({ w: 40, h: 40, base64: null, crop: { x: 0, y: 0, width: 1, height: 1, naturalWidth: 1, naturalHeight: 1 } });
+    const fileId = image.data.type === 'image' ? image.data.url?.match(/^\/files\/(.+)\.png$/)?.[1] : undefined;
+    expect(dbService.file.get({ id: fileId!, format: 'image/png' })?.base64).toBe(PNG_1X1);
+  });
+
+  test('appends into an existing canvas above its content and round-trips through excalidraw export', async () => {
+    const id = crypto.randomUUID();
+    const existing: TElement = { id: 'existing', x: 0, y: 0, rotation: 0, zIndex: 'z00000007', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 10, h: 10 }, style: {} };
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name: 'target', elements: { existing }, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name: 'target' });
+
+    const dryRun = await txExecuteCanvasImport({ dbService, automergeService, crypto }, { canvasNameQuery: 'target', content: JSON.stringify(createScene()), dryRun: true });
+    expect(dryRun).toMatchObject({ dryRun: true, created: false, importedCount: 5, canvas: { id: row.id } });
+    expect(Object.keys((await readDoc(row.automerge_url)).elements)).toEqual(['existing']);
+    expect(dbService.file.listAll()).toHaveLength(0);
+
+    const imported = await txExecuteCanvasImport({ dbService, automergeService, crypto }, { canvasId: row.id, content: JSON.stringify(createScene()) });
+    const doc = await readDoc(row.automerge_url);
+    expect(Object.keys(doc.elements)).toHaveLength(6);
+    expect(imported.importedIds.map((elementId) => doc.elements[elementId]!.zIndex).sort()[0]).toBe('z00000008');
+
+    const exported = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, ids: [findByType(doc, 'ellipse').parentGroupId!], format: 'excalidraw' });
+    expect(exported).toMatchObject({ format: 'excalidraw', mimeType: 'application/vnd.excalidraw+json', encoding: 'utf8', elementCount: 3 });
+
+    const full = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: row.id, format: 'excalidraw' });
+    const scene = JSON.parse(full.content);
+    expect(scene).toMatchObject({ type: 'excalidraw', version: 2, appState: { viewBackgroundColor: '#ffffff' } });
+    expect(scene.elements.map((element: { type: string }) => element.type)).toEqual(['rectangle', 'rectangle', 'text', 'ellipse', 'arrow', 'image']);
+    const arrow = scene.elements.find((element: { type: string }) => element.type === 'arrow');
+    const box = scene.elements.find((element: { id: string }) => element.id === arrow.startBinding.elementId);
+    expect(box.boundElements).toEqual(expect.arrayContaining([{ id: arrow.id, type: 'arrow' }, { id: expect.any(String), type: 'text' }]));
+    expect(box.groupIds).toHaveLength(2);
+    expect(arrow).toMatchObject({ x: 100, y: 30, points: [[0, 0], [200, 0]], endArrowhead: 'arrow', startArrowhead: null });
+    expect(Object.values(scene.files)).toEqual([expect.objectContaining({ mimeType: 'image/png', dataURL: `data:image/png;base64,${PNG_1X1}` })]);
+
+    const reimported = await txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'round-trip', content: full.content });
+    expect(reimported).toMatchObject({ importedCount: 6, fileCount: 1, skipped: [] });
+  });
+
+  test('fails clearly on invalid content, targets, and empty scenes', async () => {
+    const content = JSON.stringify(createScene());
+    await txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'taken', content });
+
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'x', content: '{"type":"other"}' })).rejects.toMatchObject({ ok: false, command: 'canvas.import', code: 'CANVAS_IMPORT_CONTENT_INVALID' });
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { content })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_TARGET_REQUIRED' });
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'x', canvasNameQuery: 'taken', content })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_TARGET_CONFLICT' });
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'taken', content })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_NAME_CONFLICT' });
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'x', format: 'svg' as never, content })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_FORMAT_INVALID' });
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'x', content: '{"type":"excalidraw","elements":[]}' })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_EMPTY' });
+  });
+
+  test('imports a JSON Canvas file as text, widgets, framed groups, and bound arrows', async () => {
+    const result = await txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'vault board', format: 'json-canvas', content: JSON.stringify(createJsonCanvas()), baseDir: '/vault' });
+
+    expect(result).toMatchObject({ ok: true, format: 'json-canvas', created: true, importedCount: 8, groupIds: [expect.any(String)], fileCount: 0 });
+    expect(result.skipped).toEqual([
+      { id: 'odd', type: 'widget', reason: "unsupported node type 'widget'" },
+      { id: 'e3', type: 'edge', reason: "edge endpoint 'odd' was not imported" },
+    ]);
+
+    const doc = await readDoc(result.canvas.automergeUrl);
+    const elements = Object.values(doc.elements);
+    const frame = findByType(doc, 'rect');
+    const file = findByType(doc, 'file');
+    const browser = findByType(doc, 'iframe-browser');
+    const note = elements.find((element) => element.data.type === 'text' && element.data.markdown === '# Idea\nShip it')!;
+    const label = elements.find((element) => element.data.type === 'text' && element.data.containerId === frame.id)!;
+    const arrow = findByType(doc, 'arrow');
+    const line = findByType(doc, 'line');
+
+    expect(frame).toMatchObject({ x: -20, y: -40, data: { w: 520, h: 300 }, style: { strokeColor: '#44cf6e' } });
+    expect(label.data).toMatchObject({ text: 'Research', textAlign: 'left', verticalAlign: 'top' });
+    expect(note.data).toMatchObject({ text: 'Idea\nShip it', originalText: 'Idea\nShip it' });
+    expect([frame, label, note, file].every((element) => element.parentGroupId === frame.parentGroupId)).toBe(true);
+    expect(doc.groups[frame.parentGroupId!]).toMatchObject({ parentGroupId: null, zIndex: frame.zIndex });
+    expect(browser.parentGroupId).toBeNull();
+    expect(note.data).toMatchObject({ w: 200, h: 100, autoResize: false });
+    expect(file.data).toMatchObject({ path: '/vault/notes/spec.md', renderer: 'markdown' });
+    expect(file.style.borderColor).toBe('#ff0000');
+    expect(browser.data).toMatchObject({ tabs: [{ url: 'https://jsoncanvas.org' }] });
+    expect(arrow).toMatchObject({ x: 200, y: 50, data: { startBinding: { targetId: note.id, anchor: { x: 1, y: 0.5 } }, endBinding: { targetId: file.id, anchor: { x: 0, y: 0.5 } }, startCap: 'none', endCap: 'arrow' } });
+    expect(line).toMatchObject({ style: { strokeColor: '#fb464c' }, data: { startBinding: { targetId: file.id, anchor: { x: 1, y: 0.5 } }, endBinding: { targetId: browser.id, anchor: { x: 0, y: 0.5 } } } });
+    expect(elements.some((element) => element.data.type === 'text' && element.data.text === 'details' && element.data.containerId === null)).toBe(true);
+  });
+
+  test('exports a canvas back to JSON Canvas and round-trips it', async () => {
+    const imported = await txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'vault board', format: 'json-canvas', content: JSON.stringify(createJsonCanvas()), baseDir: '/vault' });
+
+    const exported = await fxExecuteCanvasExport({ dbService, automergeService }, { canvasId: imported.canvas.id, format: 'json-canvas', baseDir: '/vault' });
+    expect(exported).toMatchObject({ format: 'json-canvas', mimeType: 'application/json', encoding: 'utf8', elementCount: 8 });
+
+    const canvas = JSON.parse(exported.content);
+    expect(canvas.nodes.map((node: { type: string }) => node.type)).toEqual(['group', 'text', 'file', 'link', 'text']);
+    expect(canvas.nodes[0]).toMatchObject({ type: 'group', x: -20, y: -40, width: 520, height: 300, label: 'Research', color: '4' });
+    expect(canvas.nodes[1]).toMatchObject({ type: 'text', x: 0, y: 0, width: 200, height: 100, text: '# Idea\nShip it' });
+    expect(canvas.nodes[2]).toMatchObject({ type: 'file', file: 'notes/spec.md', color: '#ff0000' });
+    expect(canvas.nodes[3]).toMatchObject({ type: 'link', url: 'https://jsoncanvas.org' });
+    expect(canvas.nodes[3].color).toBeUndefined();
+    expect(canvas.edges).toEqual([
+      { id: expect.any(String), fromNode: canvas.nodes[1].id, fromSide: 'right', fromEnd: 'none', toNode: canvas.nodes[2].id, toSide: 'left', toEnd: 'arrow' },
+      { id: expect.any(String), fromNode: canvas.nodes[2].id, fromSide: 'right', fromEnd: 'none', toNode: canvas.nodes[3].id, toSide: 'left', toEnd: 'none', color: '1' },
+    ]);
+
+    const reimported = await txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'round-trip', format: 'json-canvas', content: exported.content, baseDir: '/vault' });
+    expect(reimported).toMatchObject({ importedCount: 8, skipped: [] });
+
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'x', format: 'json-canvas', content: '{"type":"excalidraw","elements":[]}' })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_CONTENT_INVALID' });
+    await expect(txExecuteCanvasImport({ dbService, automergeService, crypto }, { name: 'x', format: 'json-canvas', content: '{"nodes":[]}' })).rejects.toMatchObject({ code: 'CANVAS_IMPORT_EMPTY' });
+  });
+});
@@ -0,0 +1,103 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement, TGroup } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasLayout } from 'packages/canvas-cmds/src/cmds/tx.cmd.layout';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 100, h: 60 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+function createArrowElement(from: string, to: string, overrides?: Partial<TElement>): TElement {
+  return { id: `${from}->${to}`, x: 0, y: 0, rotation: 0, zIndex: 'a9', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'arrow', lineType: 'straight', points: [[0, 0], [10, 0]], startBinding: { targetId: from, anchor: { x: 0.5, y: 1 } }, endBinding: { targetId: to, anchor: { x: 0.5, y: 0 } }, startCap: 'none', endCap: 'arrow' }, style: { strokeColor: '#111111', strokeWidth: 2, opacity: 1 }, ...overrides };
+}
+function createLabelElement(containerId: string, overrides?: Partial<TElement>): TElement {
+  return { id: `${containerId}-label`, x: 0, y: 0, rotation: 0, zIndex: 'a5', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'text', w: 100, h: 60, text: containerId, originalText: containerId, fontSize: 16, fontFamily: 'Arial', textAlign: 'center', verticalAlign: 'middle', lineHeight: 1.25, link: null, containerId, autoResize: false }, style: { strokeColor: '#111111', opacity: 1 }, ...overrides } as TElement;
+}
+function createGroup(overrides?: Partial<TGroup>): TGroup {
+  return { id: 'group-1', parentGroupId: null, zIndex: 'a0', locked: false, createdAt: 1, ...overrides };
+}
+
+describe('layout canvas command', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-layout-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[], groups: TGroup[] = []) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: Object.fromEntries(groups.map((group) => [group.id, group])) });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('stacks a typed selection in a row and arranges groups as single grid cells', async () => {
+    const group = createGroup({ id: 'group-1' });
+    const { handle, row } = await createCanvas('layout-row', [
+      createRectElement({ id: 'b', x: 300, y: 40 }),
+      createRectElement({ id: 'a', x: 0, y: 0, data: { type: 'rect', w: 100, h: 100 } }),
+      createRectElement({ id: 'c', x: 500, y: 300 }),
+      createRectElement({ id: 'g1', x: 900, y: 0, parentGroupId: group.id }),
+      createRectElement({ id: 'g2', x: 1000, y: 100, parentGroupId: group.id }),
+    ], [group]);
+
+    const rowResult = await txExecuteCanvasLayout({ dbService, automergeService }, { canvasId: row.id, selector: { ids: ['a', 'b', 'c'] }, algorithm: 'row', gap: 20 });
+    expect(rowResult).toMatchObject({ ok: true, command: 'canvas.layout', algorithm: 'row', matchedCount: 3, nodeCount: 3, edgeCount: 0, changedIds: ['b', 'c'] });
+    const doc = handle.doc()!;
+    expect([doc.elements.a!.x, doc.elements.a!.y]).toEqual([0, 0]);
+    expect([doc.elements.b!.x, doc.elements.b!.y]).toEqual([120, 20]);
+    expect([doc.elements.c!.x, doc.elements.c!.y]).toEqual([240, 20]);
+
+    const gridResult = await txExecuteCanvasLayout({ dbService, automergeService }, { canvasId: row.id, selector: { kinds: ['group'] }, algorithm: 'grid', x: 0, y: 200 });
+    expect(gridResult.moves).toEqual([{ id: 'group-1', kind: 'group', from: { x: 900, y: 0 }, to: { x: 0, y: 200 }, dx: -900, dy: 200 }]);
+    expect([handle.doc()!.elements.g1!.x, handle.doc()!.elements.g2!.y]).toEqual([0, 300]);
+  });
+
+  test('lays out arrows between selected nodes as a tree in one change and previews on dry-run', async () => {
+    const { handle, row } = await createCanvas('layout-tree', [
+      createRectElement({ id: 'root', x: 400, y: 400 }),
+      createRectElement({ id: 'left', x: 0, y: 0 }),
+      createRectElement({ id: 'right', x: 900, y: 0 }),
+      createLabelElement('root'),
+      createArrowElement('root', 'left'),
+      createArrowElement('root', 'right'),
+    ]);
+
+    const preview = await txExecuteCanvasLayout({ dbService, automergeService }, { canvasId: row.id, selector: { types: ['rect'] }, algorithm: 'tree', x: 0, y: 0, dryRun: true });
+    expect(preview).toMatchObject({ dryRun: true, direction: 'TB', nodeCount: 3, edgeCount: 2, changedIds: ['left', 'right', 'root', 'root-label'] });
+    expect(Object.fromEntries(preview.moves.map((move) => [move.id, move.to]))).toEqual({ root: { x: 80, y: 0 }, left: { x: 0, y: 150 }, right: { x: 160, y: 150 } });
+    expect(handle.doc()!.elements.root!.x).toBe(400);
+
+    const changesBefore = handle.history()!.length;
+    await txExecuteCanvasLayout({ dbService, automergeService }, { canvasId: row.id, selector: { types: ['rect'] }, algorithm: 'tree', x: 0, y: 0 });
+    const doc = handle.doc()!;
+    expect([doc.elements.root!.x, doc.elements.root!.y, doc.elements['root-label']!.x, doc.elements['root-label']!.y]).toEqual([80, 0, -320, -400]);
+    expect([doc.elements['root->left']!.x, doc.elements['root->left']!.y]).toEqual([130, 60]);
+    expect(handle.history()!.length).toBe(changesBefore + 1);
+
+    const layered = await txExecuteCanvasLayout({ dbService, automergeService }, { canvasId: row.id, selector: { ids: ['root', 'left', 'right'] }, algorithm: 'layered', direction: 'LR' });
+    expect(Object.fromEntries(layered.moves.map((move) => [move.id, move.to]))).toEqual({ root: { x: 0, y: 60 }, left: { x: 190, y: 0 }, right: { x: 190, y: 120 } });
+  });
+
+  test('fails clearly on missing selectors, invalid options, and selections with nothing to move', async () => {
+    const { row } = await createCanvas('layout-errors', [createRectElement({ id: 'a' }), createRectElement({ id: 'b' }), createArrowElement('a', 'b')]);
+    const portal = { dbService, automergeService };
+
+    await expect(txExecuteCanvasLayout(portal, { canvasId: row.id })).rejects.toMatchObject({ ok: false, command: 'canvas.layout', code: 'CANVAS_LAYOUT_SELECTOR_REQUIRED' });
+    await expect(txExecuteCanvasLayout(portal, { canvasId: row.id, selector: { ids: ['a'] }, algorithm: 'spiral' as never })).rejects.toMatchObject({ code: 'CANVAS_LAYOUT_ALGORITHM_INVALID' });
+    await expect(txExecuteCanvasLayout(portal, { canvasId: row.id, selector: { ids: ['a'] }, columns: 0 })).rejects.toMatchObject({ code: 'CANVAS_LAYOUT_OPTION_INVALID' });
+    await expect(txExecuteCanvasLayout(portal, { canvasId: row.id, selector: { types: ['arrow'] } })).rejects.toMatchObject({ code: 'CANVAS_LAYOUT_EMPTY' });
+    await expect(txExecuteCanvasLayout(portal, { canvasId: row.id, selector: { group: 'missing' } })).rejects.toMatchObject({ command: 'canvas.layout', code: 'CANVAS_QUERY_GROUP_NOT_FOUND' });
+  });
+});
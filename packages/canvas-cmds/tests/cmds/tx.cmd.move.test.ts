@@ -9,6 +9,9 @@ import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
 function createRectElement(overrides?: Partial<TElement>): TElement {
   return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
 }
+function createArrowElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'arrow-1', x: 160, y: 120, rotation: 0, zIndex: 'a9', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'arrow', lineType: 'straight', points: [[0, 0], [140, 0]], startBinding: { targetId: 'rect-a', anchor: { x: 1, y: 0.5 } }, endBinding: { targetId: 'rect-b', anchor: { x: 0, y: 0.5 } }, startCap: 'none', endCap: 'arrow' }, style: { strokeColor: '#111111', strokeWidth: 2, opacity: 1 }, ...overrides };
+}
 function createGroup(overrides?: Partial<TGroup>): TGroup {
   return { id: 'group-1', parentGroupId: null, zIndex: 'a0', locked: false, createdAt: 1, ...overrides };
 }
@@ -73,4 +76,21 @@ describe('move canvas command', () => {
     await expect(txExecuteCanvasMove({ dbService, automergeService }, { canvasId: row.id, canvasNameQuery: null, ids: ['missing-id'], mode: 'relative', x: 1, y: 1 })).rejects.toMatchObject({ ok: false, command: 'canvas.move', code: 'CANVAS_MOVE_TARGET_NOT_FOUND' });
     await expect(txExecuteCanvasMove({ dbService, automergeService }, { canvasId: row.id, canvasNameQuery: null, ids: [rectA.id, rectB.id], mode: 'absolute', x: 10, y: 20 })).rejects.toMatchObject({ ok: false, command: 'canvas.move', code: 'CANVAS_MOVE_ABSOLUTE_REQUIRES_SINGLE_TARGET' });
   });
+
+  test('re-routes arrows bound to moved elements', async () => {
+    const rectA = createRectElement({ id: 'rect-a', x: 40, y: 80 });
+    const rectB = createRectElement({ id: 'rect-b', x: 300, y: 80 });
+    const arrow = createArrowElement();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-4', name: 'move-bound-canvas', elements: { [rectA.id]: rectA, [rectB.id]: rectB, [arrow.id]: arrow }, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-4', automerge_url: handle.url, name: 'move-bound-canvas' });
+
+    const result = await txExecuteCanvasMove({ dbService, automergeService }, { canvasId: row.id, canvasNameQuery: null, ids: [rectB.id], mode: 'relative', x: 100, y: 200 });
+    expect(result).toMatchObject({ ok: true, changedIds: ['rect-b'] });
+    const movedArrow = handle.doc()!.elements[arrow.id]!;
+    expect(movedArrow.x).toBe(160);
+    expect(movedArrow.y).toBe(120);
+    expect(movedArrow.data).toMatchObject({ points: [[0, 0], [240, 200]], endBinding: { targetId: 'rect-b', anchor: { x: 0, y: 0.5 } } });
+    expect(handle.doc()!.elements[rectB.id]?.bindings).toEqual([{ targetId: 'arrow-1', anchor: { x: 0, y: 0.5 } }]);
+  });
 });
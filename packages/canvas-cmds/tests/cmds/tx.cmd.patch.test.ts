@@ -188,6 +188,22 @@ describe('patch canvas command', () => {
     expect(doc.elements['rect-1']?.data.type).toBe('rect');
   });
 
+  test('derives text from patched markdown and drops markdown when plain text is patched', async () => {
+    const text = createTextElement({ id: 'text-1' });
+    const handle = automergeService.repo.create<TCanvasDoc>({ id: 'canvas-5', name: 'Patch Markdown Canvas', elements: { [text.id]: text }, groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id: 'canvas-5', automerge_url: handle.url, name: 'Patch Markdown Canvas' });
+    const patch = (data: Record<string, unknown>) => txExecuteCanvasPatch({ dbService, automergeService }, { canvasId: row.id, canvasNameQuery: null, ids: [text.id], patch: { element: { data } } });
+
+    await patch({ markdown: '- *hello* `world`' });
+    expect(handle.doc()!.elements['text-1']?.data).toMatchObject({ text: '• hello world', originalText: '• hello world', markdown: '- *hello* `world`' });
+
+    await patch({ text: 'plain again' });
+    expect(handle.doc()!.elements['text-1']?.data).toMatchObject({ text: 'plain again', markdown: null });
+
+    await expect(patch({ markdown: 7 })).rejects.toMatchObject({ ok: false, command: 'canvas.patch', code: 'CANVAS_PATCH_PAYLOAD_INVALID' });
+  });
+
   test('patches one group', async () => {
     const group = createGroup({ id: 'group-1', locked: false });
     const handle = automergeService.repo.create<TCanvasDoc>({
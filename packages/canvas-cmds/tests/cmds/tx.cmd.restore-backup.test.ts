@@ -0,0 +1,138 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import * as Automerge from '@automerge/automerge/slim';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fxExecuteWorkspaceBackup } from 'packages/canvas-cmds/src/cmds/fx.cmd.backup';
+import { txExecuteCanvasFork } from 'packages/canvas-cmds/src/cmds/tx.cmd.fork';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+import { txExecuteRestoreBackup } from 'packages/canvas-cmds/src/cmds/tx.cmd.restore-backup';
+import { IMAGE_FILE_ID, createImageElement, createRectElement } from 'packages/canvas-cmds/tests/fixtures';
+
+describe('workspace backup and restore', () => {
+  const workspaces: Array<{ dbService: DbServiceBunSqlite; automergeService: AutomergeService }> = [];
+
+  function createWorkspace() {
+    const databasePath = join(tmpdir(), `canvas-cmds-backup-${crypto.randomUUID()}.sqlite`);
+    const dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    const automergeService = new AutomergeService(databasePath);
+    const workspace = { dbService, automergeService, crypto };
+    workspaces.push(workspace);
+    return workspace;
+  }
+
+  let source!: ReturnType<typeof createWorkspace>;
+
+  beforeEach(() => {
+    source = createWorkspace();
+  });
+  afterEach(() => {
+    for (const workspace of workspaces.splice(0)) {
+      workspace.automergeService.stop();
+      workspace.dbService.stop();
+    }
+  });
+
+  async function createCanvas(workspace: ReturnType<typeof createWorkspace>, name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = workspace.automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = workspace.dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  async function readDoc(workspace: ReturnType<typeof createWorkspace>, automergeUrl: string) {
+    const handle = await workspace.automergeService.repo.find<TCanvasDoc>(automergeUrl as never);
+    return handle.doc()!;
+  }
+
+  test('restores canvases with their history, forks, and image files into an empty workspace', async () => {
+    source.dbService.file.create({ id: IMAGE_FILE_ID, hash: 'hash', format: 'image/png', base64: 'aGVsbG8=' });
+    const { row } = await createCanvas(source, 'board', [createRectElement({ id: 'a', x: 0 }), createImageElement()]);
+    await txExecuteCanvasMove(source, { canvasId: row.id, ids: ['a'], mode: 'absolute', x: 50, y: 0 });
+    const fork = await txExecuteCanvasFork(source, { canvasId: row.id });
+
+    const backup = await fxExecuteWorkspaceBackup(source, { appVersion: '1.2.3' });
+    expect(backup).toMatchObject({ ok: true, command: 'backup.create', canvasCount: 2, fileCount: 2, skipped: [] });
+    expect(backup.manifest).toMatchObject({ format: 'vibecanvas-backup', version: 1, appVersion: '1.2.3' });
+    expect(Object.keys(backup.entries).sort()).toEqual(['manifest.json', ...backup.manifest.canvases.map((canvas) => canvas.path), ...backup.manifest.files.map((file) => file.path)].sort());
+
+    const target = createWorkspace();
+    const preview = await txExecuteRestoreBackup(target, { entries: backup.entries, dryRun: true });
+    expect(preview.canvases.map((canvas) => canvas.action)).toEqual(['created', 'created']);
+    expect(target.dbService.canvas.listAll()).toHaveLength(0);
+
+    const restored = await txExecuteRestoreBackup(target, { entries: backup.entries });
+    expect(restored).toMatchObject({ ok: true, command: 'backup.restore', onConflict: 'skip', files: { created: 2, existing: 0 } });
+
+    const rows = target.dbService.canvas.listAll();
+    expect(rows.map((canvas) => [canvas.id, canvas.name, canvas.automerge_url]).sort()).toEqual([[row.id, 'board', row.automerge_url], [fork.canvas.id, 'board fork', fork.canvas.automergeUrl]].sort());
+    expect(rows.find((canvas) => canvas.id === fork.canvas.id)?.forked_from_id).toBe(row.id);
+
+    const doc = await readDoc(target, row.automerge_url);
+    expect(doc.elements.a?.x).toBe(50);
+    expect(Automerge.getHistory(doc as Automerge.Doc<TCanvasDoc>).length).toBeGreaterThan(1);
+    expect(target.dbService.file.get({ id: IMAGE_FILE_ID, format: 'image/png' })?.base64).toBe('aGVsbG8=');
+  });
+
+  test('handles canvases that already exist according to the conflict mode', async () => {
+    source.dbService.file.create({ id: IMAGE_FILE_ID, hash: 'hash', format: 'image/png', base64: 'aGVsbG8=' });
+    const { row } = await createCanvas(source, 'board', [createRectElement({ id: 'a', x: 0 }), createImageElement()]);
+    const backup = await fxExecuteWorkspaceBackup(source, {});
+
+    await txExecuteCanvasMove(source, { canvasId: row.id, ids: ['a'], mode: 'absolute', x: 75, y: 0 });
+
+    const skipped = await txExecuteRestoreBackup(source, { entries: backup.entries });
+    expect(skipped).toMatchObject({ files: { created: 0, existing: 1 }, canvases: [{ action: 'skipped', id: row.id, conflicts: [{ id: row.id, name: 'board' }] }] });
+
+    const merged = await txExecuteRestoreBackup(source, { entries: backup.entries, onConflict: 'merge' });
+    expect(merged.canvases).toMatchObject([{ action: 'merged', id: row.id }]);
+    expect((await readDoc(source, row.automerge_url)).elements.a?.x).toBe(75);
+
+    const renamed = await txExecuteRestoreBackup(source, { entries: backup.entries, onConflict: 'rename' });
+    expect(renamed.canvases).toMatchObject([{ action: 'renamed', name: 'board (2)' }]);
+    const renamedRow = source.dbService.canvas.listAll().find((canvas) => canvas.name === 'board (2)')!;
+    const renamedDoc = await readDoc(source, renamedRow.automerge_url);
+    expect(renamedDoc).toMatchObject({ id: renamedRow.id, name: 'board (2)' });
+    expect(renamedDoc.elements.a?.x).toBe(0);
+    expect((renamedDoc.elements['image-1']!.data as { url: string }).url).not.toBe(`/files/${IMAGE_FILE_ID}.png`);
+
+    const replaced = await txExecuteRestoreBackup(source, { entries: backup.entries, onConflict: 'replace' });
+    expect(replaced.canvases).toMatchObject([{ action: 'replaced', id: row.id }]);
+    const replacedRow = source.dbService.canvas.listAll().find((canvas) => canvas.id === row.id)!;
+    expect(replacedRow.name).toBe('board');
+    expect(replacedRow.automerge_url).not.toBe(row.automerge_url);
+    expect((await readDoc(source, replacedRow.automerge_url)).elements.a?.x).toBe(0);
+    expect(source.dbService.canvas.listAll().map((canvas) => canvas.name).sort()).toEqual(['board', 'board (2)']);
+  });
+
+  test('points merged canvases at image files restored under a new id', async () => {
+    source.dbService.file.create({ id: IMAGE_FILE_ID, hash: 'hash', format: 'image/png', base64: 'aGVsbG8=' });
+    const { row } = await createCanvas(source, 'board', [createImageElement()]);
+    const backup = await fxExecuteWorkspaceBackup(source, {});
+
+    const target = createWorkspace();
+    await txExecuteRestoreBackup(target, { entries: backup.entries });
+    target.dbService.file.deleteById({ id: IMAGE_FILE_ID });
+    target.dbService.file.create({ id: IMAGE_FILE_ID, hash: 'other', format: 'image/png', base64: 'b3RoZXI=' });
+
+    const merged = await txExecuteRestoreBackup(target, { entries: backup.entries, onConflict: 'merge' });
+    expect(merged).toMatchObject({ files: { created: 1, existing: 0 }, canvases: [{ action: 'merged', id: row.id }] });
+    const url = ((await readDoc(target, row.automerge_url)).elements['image-1']!.data as { url: string }).url;
+    expect(url).not.toBe(`/files/${IMAGE_FILE_ID}.png`);
+    expect(target.dbService.file.get({ id: url.slice('/files/'.length, -'.png'.length), format: 'image/png' })?.base64).toBe('aGVsbG8=');
+  });
+
+  test('rejects archives that are not vibecanvas backups or come from a newer format', async () => {
+    await expect(txExecuteRestoreBackup(source, { entries: {} })).rejects.toMatchObject({ ok: false, command: 'backup.restore', code: 'BACKUP_MANIFEST_MISSING' });
+    await expect(txExecuteRestoreBackup(source, { entries: { 'manifest.json': new TextEncoder().encode('{"format":"zip"}') } })).rejects.toMatchObject({ code: 'BACKUP_MANIFEST_INVALID' });
+
+    const newer = { format: 'vibecanvas-backup', version: 99, appVersion: '9.0.0', createdAt: new Date().toISOString(), canvases: [], files: [] };
+    await expect(txExecuteRestoreBackup(source, { entries: { 'manifest.json': new TextEncoder().encode(JSON.stringify(newer)) } })).rejects.toMatchObject({ code: 'BACKUP_VERSION_UNSUPPORTED' });
+
+    const backup = await fxExecuteWorkspaceBackup(source, {});
+    await expect(txExecuteRestoreBackup(source, { entries: backup.entries, onConflict: 'overwrite' as never })).rejects.toMatchObject({ code: 'BACKUP_CONFLICT_MODE_INVALID' });
+  });
+});
@@ -0,0 +1,94 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fxExecuteCanvasHistory } from 'packages/canvas-cmds/src/cmds/fx.cmd.history';
+import { txExecuteCanvasDelete } from 'packages/canvas-cmds/src/cmds/tx.cmd.delete';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+import { txExecuteCanvasRestore } from 'packages/canvas-cmds/src/cmds/tx.cmd.restore';
+import { txExecuteCanvasUndo } from 'packages/canvas-cmds/src/cmds/tx.cmd.undo';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+
+describe('canvas history and restore commands', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-restore-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('lists history grouped by origin, newest first', async () => {
+    const { row } = await createCanvas('history-groups', [createRectElement({ id: 'a' }), createRectElement({ id: 'b' })]);
+    const portal = { dbService, automergeService };
+
+    await txExecuteCanvasMove(portal, { canvasId: row.id, session: 'agent-1', ids: ['a'], mode: 'relative', x: 10, y: 0 });
+    await txExecuteCanvasMove(portal, { canvasId: row.id, session: 'agent-1', ids: ['b'], mode: 'relative', x: 10, y: 0 });
+    await txExecuteCanvasDelete(portal, { canvasId: row.id, session: 'agent-2', ids: ['b'] });
+
+    const history = await fxExecuteCanvasHistory(portal, { canvasId: row.id });
+    expect(history).toMatchObject({ ok: true, command: 'canvas.history', changeCount: 4, groupCount: 3 });
+    expect(history.entries.map((entry) => [entry.origin, entry.changeCount, entry.labels])).toEqual([
+      ['cli:agent-2', 1, ['canvas.delete']],
+      ['cli:agent-1', 2, ['canvas.move']],
+      [null, 1, []],
+    ]);
+    expect(history.entries[0]!.heads).toEqual(history.heads);
+
+    expect((await fxExecuteCanvasHistory(portal, { canvasId: row.id, limit: 1 })).entries).toHaveLength(1);
+    await expect(fxExecuteCanvasHistory(portal, { canvasId: row.id, limit: 0 })).rejects.toMatchObject({ ok: false, command: 'canvas.history', code: 'CANVAS_HISTORY_LIMIT_INVALID' });
+  });
+
+  test('restores the whole canvas or selected ids and can be undone', async () => {
+    const { handle, row } = await createCanvas('restore-points', [createRectElement({ id: 'a', x: 0 }), createRectElement({ id: 'b', x: 100 })]);
+    const portal = { dbService, automergeService };
+    const initial = (await fxExecuteCanvasHistory(portal, { canvasId: row.id })).heads;
+
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['a', 'b'], mode: 'relative', x: 5, y: 0 });
+    await txExecuteCanvasDelete(portal, { canvasId: row.id, ids: ['b'] });
+
+    const selected = await txExecuteCanvasRestore(portal, { canvasId: row.id, at: initial, ids: ['a'] });
+    expect(selected).toMatchObject({ ok: true, command: 'canvas.restore', changedIds: ['a'], updatedIds: ['a'], recreatedIds: [] });
+    expect(handle.doc()!.elements.a!.x).toBe(0);
+    expect(handle.doc()!.elements.b).toBeUndefined();
+
+    const preview = await txExecuteCanvasRestore(portal, { canvasId: row.id, at: initial, dryRun: true });
+    expect(preview).toMatchObject({ dryRun: true, changedIds: ['b'], recreatedIds: ['b'] });
+    expect(handle.doc()!.elements.b).toBeUndefined();
+
+    await txExecuteCanvasRestore(portal, { canvasId: row.id, at: initial });
+    expect(handle.doc()!.elements.b).toMatchObject({ x: 100 });
+
+    await txExecuteCanvasUndo(portal, { canvasId: row.id });
+    expect(handle.doc()!.elements.b).toBeUndefined();
+  });
+
+  test('rejects unknown heads and ids', async () => {
+    const { row } = await createCanvas('restore-errors', [createRectElement({ id: 'a' })]);
+    const portal = { dbService, automergeService };
+    const heads = (await fxExecuteCanvasHistory(portal, { canvasId: row.id })).heads;
+
+    await expect(txExecuteCanvasRestore(portal, { canvasId: row.id, at: ['nope'] })).rejects.toMatchObject({ code: 'CANVAS_RESTORE_AT_INVALID' });
+    await expect(txExecuteCanvasRestore(portal, { canvasId: row.id, at: ['0'.repeat(64)] })).rejects.toMatchObject({ code: 'CANVAS_RESTORE_AT_NOT_FOUND' });
+    await expect(txExecuteCanvasRestore(portal, { canvasId: row.id, at: heads, ids: ['ghost'] })).rejects.toMatchObject({ ok: false, command: 'canvas.restore', code: 'CANVAS_RESTORE_TARGET_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,126 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import { FilesystemServiceNode } from '@vibecanvas/service-filesystem/FilesystemServiceNode';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+import { txExecuteCanvasSync } from 'packages/canvas-cmds/src/cmds/tx.cmd.sync';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+
+function createArrowElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'arrow-1', x: 160, y: 120, rotation: 0, zIndex: 'a9', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'arrow', lineType: 'straight', points: [[0, 0], [140, 0]], startBinding: { targetId: 'rect-a', anchor: { x: 1, y: 0.5 } }, endBinding: { targetId: 'rect-b', anchor: { x: 0, y: 0.5 } }, startCap: 'none', endCap: 'arrow' }, style: { strokeColor: '#111111', strokeWidth: 2, opacity: 1 }, ...overrides };
+}
+
+describe('canvas sync', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let portal!: { dbService: DbServiceBunSqlite; automergeService: AutomergeService; filesystemService: FilesystemServiceNode };
+  let dir!: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'canvas-cmds-sync-'));
+    const databasePath = join(dir, 'db.sqlite');
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+    portal = { dbService, automergeService, filesystemService: new FilesystemServiceNode({} as never) };
+    dbService.filesystem.create({ id: 'fs-local', label: 'local', kind: 'local', machine_id: 'machine-1' });
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function createCanvas(name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('writes stable JSON on canvas changes and applies edits made to the file', async () => {
+    const { handle, row } = await createCanvas('architecture', [createRectElement({ id: 'b' }), createRectElement({ id: 'a', createdAt: 5 })]);
+    const path = join(dir, 'architecture.json');
+
+    const bound = await txExecuteCanvasSync(portal, { canvasId: row.id, path });
+    expect(bound).toMatchObject({ ok: true, command: 'canvas.sync', filesystemId: 'fs-local', path, action: 'wrote-file', status: 'synced', changedIds: ['a', 'b'] });
+    const written = readFileSync(path, 'utf8');
+    expect(Object.keys(JSON.parse(written).elements)).toEqual(['a', 'b']);
+    expect(written).not.toContain('createdAt');
+    expect(written).not.toContain('updatedAt');
+
+    expect((await txExecuteCanvasSync(portal, { canvasId: row.id })).action).toBe('unchanged');
+
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['b'], mode: 'absolute', x: 300, y: 0 });
+    expect(await txExecuteCanvasSync(portal, { canvasId: row.id })).toMatchObject({ action: 'wrote-file', changedIds: ['b'] });
+    expect(JSON.parse(readFileSync(path, 'utf8')).elements.b.x).toBe(300);
+
+    const edited = JSON.parse(readFileSync(path, 'utf8'));
+    edited.elements.a.y = 999;
+    delete edited.elements.b;
+    edited.elements.c = { ...edited.elements.a, id: 'c' };
+    writeFileSync(path, JSON.stringify(edited));
+
+    const applied = await txExecuteCanvasSync(portal, { canvasId: row.id });
+    expect(applied).toMatchObject({ action: 'applied-file', status: 'synced', changedIds: ['a', 'b', 'c'], elementCount: 2 });
+    const doc = handle.doc()!;
+    expect(doc.elements.a).toMatchObject({ y: 999, createdAt: 5 });
+    expect(doc.elements.a!.updatedAt).toBeGreaterThan(1);
+    expect(doc.elements.b).toBeUndefined();
+    expect(doc.elements.c).toMatchObject({ id: 'c', y: 999 });
+    expect((await txExecuteCanvasSync(portal, { canvasId: row.id })).action).toBe('unchanged');
+  });
+
+  test('reports conflicts when both sides changed and resolves them by keeping one side', async () => {
+    const { handle, row } = await createCanvas('flows', [createRectElement()]);
+    const path = join(dir, 'flows.json');
+    await txExecuteCanvasSync(portal, { canvasId: row.id, path });
+
+    const edited = JSON.parse(readFileSync(path, 'utf8'));
+    edited.elements['rect-1'].y = 1;
+    writeFileSync(path, JSON.stringify(edited, null, 2));
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['rect-1'], mode: 'absolute', x: 500, y: 500 });
+
+    const conflict = await txExecuteCanvasSync(portal, { canvasId: row.id });
+    expect(conflict).toMatchObject({ action: 'conflict', status: 'conflict', changedIds: ['rect-1'] });
+    expect(dbService.canvasFileSync.findByCanvasId(row.id)).toMatchObject({ status: 'conflict' });
+    expect(JSON.parse(readFileSync(path, 'utf8')).elements['rect-1'].y).toBe(1);
+    expect(handle.doc()!.elements['rect-1']!.y).toBe(500);
+
+    expect(await txExecuteCanvasSync(portal, { canvasId: row.id, keep: 'file' })).toMatchObject({ action: 'applied-file', status: 'synced' });
+    expect(handle.doc()!.elements['rect-1']).toMatchObject({ x: 40, y: 1 });
+
+    writeFileSync(path, '{ "broken"');
+    await expect(txExecuteCanvasSync(portal, { canvasId: row.id })).rejects.toMatchObject({ ok: false, command: 'canvas.sync', code: 'CANVAS_SYNC_FILE_INVALID' });
+    expect((await txExecuteCanvasSync(portal, { canvasId: row.id, keep: 'canvas' })).action).toBe('wrote-file');
+
+    const other = await createCanvas('other', []);
+    await expect(txExecuteCanvasSync(portal, { canvasId: other.row.id, path })).rejects.toMatchObject({ code: 'CANVAS_SYNC_PATH_TAKEN' });
+    await expect(txExecuteCanvasSync(portal, { canvasId: other.row.id })).rejects.toMatchObject({ code: 'CANVAS_SYNC_NOT_BOUND' });
+
+    expect(await txExecuteCanvasSync(portal, { canvasId: row.id, unbind: true })).toMatchObject({ action: 'unbound', path });
+    expect(dbService.canvasFileSync.listAll()).toEqual([]);
+  });
+
+  test('re-routes arrows bound to shapes moved in the file', async () => {
+    const { handle, row } = await createCanvas('bound', [createRectElement({ id: 'rect-a', x: 40, y: 80 }), createRectElement({ id: 'rect-b', x: 300, y: 80 }), createArrowElement()]);
+    const path = join(dir, 'bound.json');
+    await txExecuteCanvasSync(portal, { canvasId: row.id, path });
+
+    const edited = JSON.parse(readFileSync(path, 'utf8'));
+    edited.elements['rect-b'].y = 280;
+    writeFileSync(path, JSON.stringify(edited));
+
+    expect(await txExecuteCanvasSync(portal, { canvasId: row.id })).toMatchObject({ action: 'applied-file', changedIds: ['rect-b'] });
+    expect(handle.doc()!.elements['arrow-1']!.data).toMatchObject({ points: [[0, 0], [140, 200]] });
+    expect(JSON.parse(readFileSync(path, 'utf8')).elements['arrow-1'].data.points).toEqual([[0, 0], [140, 200]]);
+    expect((await txExecuteCanvasSync(portal, { canvasId: row.id })).action).toBe('unchanged');
+  });
+});
@@ -0,0 +1,84 @@
+import { AutomergeService } from '@vibecanvas/service-automerge/AutomergeServer';
+import { DbServiceBunSqlite } from '@vibecanvas/service-db/DbServiceBunSqlite/index';
+import type { TCanvasDoc, TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { txExecuteCanvasAdd } from 'packages/canvas-cmds/src/cmds/tx.cmd.add';
+import { txExecuteCanvasMove } from 'packages/canvas-cmds/src/cmds/tx.cmd.move';
+import { txExecuteCanvasRedo } from 'packages/canvas-cmds/src/cmds/tx.cmd.redo';
+import { txExecuteCanvasUndo } from 'packages/canvas-cmds/src/cmds/tx.cmd.undo';
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+
+describe('undo and redo canvas commands', () => {
+  let dbService!: DbServiceBunSqlite;
+  let automergeService!: AutomergeService;
+  let databasePath!: string;
+
+  beforeEach(() => {
+    databasePath = join(tmpdir(), `canvas-cmds-undo-${crypto.randomUUID()}.sqlite`);
+    dbService = new DbServiceBunSqlite({ cacheDir: tmpdir(), databasePath, dataDir: tmpdir(), silentMigrations: true });
+    automergeService = new AutomergeService(databasePath);
+  });
+  afterEach(() => {
+    automergeService.stop();
+    dbService.stop();
+  });
+
+  async function createCanvas(name: string, elements: TElement[]) {
+    const id = crypto.randomUUID();
+    const handle = automergeService.repo.create<TCanvasDoc>({ id, name, elements: Object.fromEntries(elements.map((element) => [element.id, element])), groups: {} });
+    await handle.whenReady();
+    const row = dbService.canvas.create({ id, automerge_url: handle.url, name });
+    return { handle, row };
+  }
+
+  test('undoes only the session own changes and redoes them', async () => {
+    const { handle, row } = await createCanvas('undo-sessions', [createRectElement({ id: 'a', x: 0, y: 0 }), createRectElement({ id: 'b', x: 100, y: 0 })]);
+    const portal = { dbService, automergeService };
+
+    await txExecuteCanvasMove(portal, { canvasId: row.id, session: 'agent-1', ids: ['a'], mode: 'relative', x: 10, y: 0 });
+    await txExecuteCanvasMove(portal, { canvasId: row.id, session: 'agent-2', ids: ['b'], mode: 'relative', x: 0, y: 20 });
+
+    const dryRun = await txExecuteCanvasUndo(portal, { canvasId: row.id, session: 'agent-1', dryRun: true });
+    expect(dryRun).toMatchObject({ ok: true, command: 'canvas.undo', dryRun: true, origin: 'cli:agent-1', entry: { label: 'canvas.move' }, changedIds: ['a'], undoCount: 0, redoCount: 1 });
+    expect(handle.doc()!.elements.a!.x).toBe(10);
+
+    const undo = await txExecuteCanvasUndo(portal, { canvasId: row.id, session: 'agent-1' });
+    expect(undo).toMatchObject({ changedIds: ['a'], skippedIds: [] });
+    expect([handle.doc()!.elements.a!.x, handle.doc()!.elements.b!.y]).toEqual([0, 20]);
+
+    await expect(txExecuteCanvasUndo(portal, { canvasId: row.id, session: 'agent-1' })).rejects.toMatchObject({ ok: false, command: 'canvas.undo', code: 'CANVAS_UNDO_EMPTY' });
+
+    const redo = await txExecuteCanvasRedo(portal, { canvasId: row.id, session: 'agent-1' });
+    expect(redo).toMatchObject({ ok: true, command: 'canvas.redo', changedIds: ['a'], undoCount: 1, redoCount: 0 });
+    expect([handle.doc()!.elements.a!.x, handle.doc()!.elements.b!.y]).toEqual([10, 20]);
+
+    await txExecuteCanvasUndo(portal, { canvasId: row.id, session: 'agent-1' });
+    expect(handle.doc()!.elements.a!.x).toBe(0);
+  });
+
+  test('keeps values other sessions changed since and clears redo on a new edit', async () => {
+    const { handle, row } = await createCanvas('undo-conflicts', [createRectElement({ id: 'a', x: 0, y: 0 })]);
+    const portal = { dbService, automergeService, crypto };
+
+    const added = await txExecuteCanvasAdd(portal, { canvasId: row.id, elements: [{ id: 'new-rect', type: 'rect', x: 300, y: 0 }] });
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['a'], mode: 'absolute', x: 50, y: 50 });
+    await txExecuteCanvasMove(portal, { canvasId: row.id, session: 'other', ids: ['a'], mode: 'absolute', x: 70, y: 50 });
+
+    const undoMove = await txExecuteCanvasUndo(portal, { canvasId: row.id });
+    // x was moved again by the other session and stays; y is still this session's value and is restored.
+    expect(undoMove).toMatchObject({ origin: 'cli:default', changedIds: ['a'], skippedIds: ['a'] });
+    expect([handle.doc()!.elements.a!.x, handle.doc()!.elements.a!.y]).toEqual([70, 0]);
+
+    const undoAdd = await txExecuteCanvasUndo(portal, { canvasId: row.id });
+    expect(undoAdd).toMatchObject({ entry: { label: 'canvas.add' }, changedIds: added.addedIds });
+    expect(handle.doc()!.elements['new-rect']).toBeUndefined();
+
+    await txExecuteCanvasMove(portal, { canvasId: row.id, ids: ['a'], mode: 'relative', x: 1, y: 0 });
+    await expect(txExecuteCanvasRedo(portal, { canvasId: row.id })).rejects.toMatchObject({ ok: false, command: 'canvas.redo', code: 'CANVAS_REDO_EMPTY' });
+  });
+});
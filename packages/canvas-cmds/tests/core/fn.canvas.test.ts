@@ -4,8 +4,8 @@ import { fnResolveCanvasSelection } from '../../src/core/fn.canvas';
 describe('fnResolveCanvasSelection', () => {
   test('reports every matching row when ambiguous names collide', () => {
     const rows = [
-      { id: 'canvas-a', name: 'Same Name', automerge_url: 'automerge:a', created_at: new Date('2024-01-01T00:00:00.000Z') },
-      { id: 'canvas-b', name: 'Same Name', automerge_url: 'automerge:b', created_at: new Date('2024-01-02T00:00:00.000Z') },
+      { id: 'canvas-a', name: 'Same Name', automerge_url: 'automerge:a', created_at: new Date('2024-01-01T00:00:00.000Z'), forked_from_id: null },
+      { id: 'canvas-b', name: 'Same Name', automerge_url: 'automerge:b', created_at: new Date('2024-01-02T00:00:00.000Z'), forked_from_id: null },
     ];
 
     expect(() => fnResolveCanvasSelection({
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { fnGetNoteTitle, fnParseNoteMarkdown, fnToggleNoteTask } from '../../src/core/fn.note';
+
+const NOTE = [
+  '# Sprint *summary*',
+  'Shipped the importer',
+  'and the exporter.',
+  '',
+  '- [x] tests',
+  '- [ ] docs',
+  '3. three',
+  '',
+  '```ts',
+  'const a = 1;',
+  '```',
+  '| Name | Count |',
+  '|:-----|------:|',
+  '| **a** | 1 |',
+  '> quoted',
+  '---',
+].join('\n');
+
+describe('fnParseNoteMarkdown', () => {
+  test('parses headings, paragraphs, task lists, code, tables, quotes, and rules', () => {
+    const blocks = fnParseNoteMarkdown(NOTE);
+
+    expect(blocks.map((block) => block.kind)).toEqual(['heading', 'paragraph', 'list', 'list', 'code', 'table', 'quote', 'rule']);
+    expect(blocks[0]).toMatchObject({ level: 1, runs: [{ text: 'Sprint ' }, { text: 'summary', italic: true }] });
+    expect(blocks[1]).toMatchObject({ runs: [{ text: 'Shipped the importer and the exporter.' }] });
+    expect(blocks[2]).toMatchObject({ ordered: false, items: [{ checked: true, line: 4, runs: [{ text: 'tests' }] }, { checked: false, line: 5, runs: [{ text: 'docs' }] }] });
+    expect(blocks[3]).toMatchObject({ ordered: true, start: 3, items: [{ checked: null, runs: [{ text: 'three' }] }] });
+    expect(blocks[4]).toEqual({ kind: 'code', lang: 'ts', code: 'const a = 1;' });
+    expect(blocks[5]).toMatchObject({ align: ['left', 'right'], header: [[{ text: 'Name' }], [{ text: 'Count' }]], rows: [[[{ text: 'a', bold: true }], [{ text: '1' }]]] });
+  });
+
+  test('keeps an unclosed fence as code to the end of the note', () => {
+    expect(fnParseNoteMarkdown('```\n# not a heading')).toEqual([{ kind: 'code', lang: '', code: '# not a heading' }]);
+  });
+});
+
+describe('note helpers', () => {
+  test('titles notes by their first heading or paragraph', () => {
+    expect(fnGetNoteTitle({ markdown: NOTE })).toBe('Sprint summary');
+    expect(fnGetNoteTitle({ markdown: '- item\n\nIntro **text**' })).toBe('Intro text');
+    expect(fnGetNoteTitle({ markdown: '```\ncode\n```' })).toBe('');
+  });
+
+  test('toggles task items by source line and leaves other lines alone', () => {
+    const checked = fnToggleNoteTask(NOTE, 5);
+    expect(checked.split('\n')[5]).toBe('- [x] docs');
+    expect(fnToggleNoteTask(checked, 5)).toBe(NOTE);
+    expect(fnToggleNoteTask(NOTE, 0)).toBe(NOTE);
+    expect(fnToggleNoteTask(NOTE, 99)).toBe(NOTE);
+  });
+});
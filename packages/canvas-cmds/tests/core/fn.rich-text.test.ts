@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import { fnBuildRichTextFields, fnEscapeRichText, fnGetTextMarkdown, fnLayoutRichText, fnParseRichText, fnRichTextToPlain } from '../../src/core/fn.rich-text';
+
+describe('fnParseRichText', () => {
+  test('parses headings, lists, and inline marks', () => {
+    const blocks = fnParseRichText('## Plan\n- **ship** *now*\n2. see [docs](https://example.com) and `npm i`\n~~old~~ snake_case 2 * 3');
+
+    expect(blocks.map((block) => block.kind)).toEqual(['heading', 'bullet', 'numbered', 'paragraph']);
+    expect(blocks[0]).toMatchObject({ level: 2, runs: [{ text: 'Plan', bold: false }] });
+    expect(blocks[1]!.runs).toMatchObject([{ text: 'ship', bold: true }, { text: ' ', bold: false }, { text: 'now', italic: true }]);
+    expect(blocks[2]).toMatchObject({ number: 2, runs: [{ text: 'see ' }, { text: 'docs', link: 'https://example.com' }, { text: ' and ' }, { text: 'npm i', code: true }] });
+    expect(blocks[3]!.runs).toMatchObject([{ text: 'old', strike: true }, { text: ' snake_case 2 * 3', italic: false, strike: false }]);
+  });
+
+  test('renders plain text with list markers and escapes it back losslessly', () => {
+    expect(fnRichTextToPlain('# Title\n- one\n3. three\n**bold** and \\*stars\\*')).toBe('Title\n• one\n3. three\nbold and *stars*');
+
+    const plain = '# not a heading\n- not a list\n1. not numbered\na*b*c [x](y) `z` \\ ~~w~~';
+    expect(fnRichTextToPlain(fnEscapeRichText(plain))).toBe(plain);
+  });
+});
+
+describe('rich text fields', () => {
+  test('keeps formatting-free input as plain text and ignores markdown rewritten by older clients', () => {
+    expect(fnBuildRichTextFields('just words')).toEqual({ text: 'just words', originalText: 'just words', markdown: null });
+    expect(fnBuildRichTextFields('**bold**')).toEqual({ text: 'bold', originalText: 'bold', markdown: '**bold**' });
+
+    expect(fnGetTextMarkdown({ text: 'bold', markdown: '**bold**' })).toBe('**bold**');
+    expect(fnGetTextMarkdown({ text: 'edited elsewhere', markdown: '**bold**' })).toBeNull();
+    expect(fnGetTextMarkdown({ text: 'plain' })).toBeNull();
+  });
+
+  test('lays out larger headings, indented list items, and wrapped lines', () => {
+    const measure = (text: string, size: number) => text.length * size * 0.5;
+    const layout = fnLayoutRichText('# Hi\n- one two three', { fontSize: 10, fontFamily: 'Inter', lineHeight: 1, maxWidth: 45 }, measure);
+
+    expect(layout.lines.map((line) => ({ y: line.y, marker: line.marker, indent: line.indent, text: line.segments.map((segment) => segment.text).join('') }))).toEqual([
+      { y: 0, marker: '', indent: 0, text: 'Hi' },
+      { y: 16, marker: '•', indent: 15, text: 'one ' },
+      { y: 26, marker: '', indent: 15, text: 'two ' },
+      { y: 36, marker: '', indent: 15, text: 'three' },
+    ]);
+    expect(layout.lines[0]!.segments[0]).toMatchObject({ bold: true, size: 16, font: 'bold 16px Inter' });
+    expect(layout.height).toBe(46);
+  });
+});
@@ -0,0 +1,12 @@
+import type { TElement } from '@vibecanvas/service-automerge/types/canvas-doc';
+
+export const IMAGE_FILE_ID = '00000000-0000-4000-8000-000000000001';
+
+export function createRectElement(overrides?: Partial<TElement>): TElement {
+  return { id: 'rect-1', x: 40, y: 80, rotation: 0, zIndex: 'a0', parentGroupId: null, bindings: [], locked: false, createdAt: 1, updatedAt: 1, data: { type: 'rect', w: 120, h: 80 }, style: { backgroundColor: '#ffffff', strokeColor: '#111111', strokeWidth: 1, opacity: 1 }, ...overrides };
+}
+
+/** A 10x10 image element backed by the stored file `IMAGE_FILE_ID`. */
+export function createImageElement(overrides?: Partial<TElement>): TElement {
+  return createRectElement({ id: 'image-1', data: { type: 'image', url: `/files/${IMAGE_FILE_ID}.png`, base64: null, w: 10, h: 10, crop: { x: 0, y: 0, width: 10, height: 10, naturalWidth: 10, naturalHeight: 10 } }, ...overrides });
+}
@@ -57,7 +57,7 @@ export function Canvas(props: CanvasPageProps) {
     canvasService = new CanvasService(
       containerRef,
       activeHandle,
-      defaultPlugins({ onToggleSidebar: props.store.onToggleSidebar }),
+      defaultPlugins({ onToggleSidebar: props.store.onToggleSidebar, sidebarVisible: props.store.sidebarVisible }),
       {
         uploadImage: props.image?.uploadImage,
         cloneImage: props.image?.cloneImage,
@@ -0,0 +1,52 @@
+import Frame from "lucide-solid/icons/frame";
+import { For, Show, createSignal } from "solid-js";
+
+export type TCanvasFrameItem = {
+  id: string;
+  title: string;
+};
+
+type ICanvasFramesProps = {
+  frames: () => TCanvasFrameItem[];
+  onJump: (id: string) => void;
+};
+
+export function CanvasFrames(props: ICanvasFramesProps) {
+  const [open, setOpen] = createSignal(false);
+
+  return (
+    <Show when={props.frames().length > 0}>
+      <div class="pointer-events-auto flex flex-col items-start gap-2">
+        <Show when={open()}>
+          <div class="max-h-72 w-56 overflow-y-auto border border-border bg-popover text-popover-foreground shadow-md">
+            <div class="border-b border-border px-3 py-2 text-[11px] uppercase tracking-wide text-muted-foreground">Frames</div>
+            <For each={props.frames()}>
+              {(frame) => (
+                <button
+                  type="button"
+                  class="block w-full truncate border-b border-border px-3 py-2 text-left text-sm text-foreground transition-colors last:border-b-0 hover:bg-stone-200 dark:hover:bg-stone-800"
+                  title={`Jump to ${frame.title || "Untitled frame"}`}
+                  onClick={() => props.onJump(frame.id)}
+                >
+                  {frame.title || "Untitled frame"}
+                </button>
+              )}
+            </For>
+          </div>
+        </Show>
+
+        <button
+          type="button"
+          class="flex h-11 items-center gap-2 border border-border bg-card px-3 text-foreground shadow-md transition-colors hover:bg-stone-200 dark:hover:bg-stone-800"
+          aria-label="Jump to frame"
+          aria-expanded={open()}
+          title="Frames"
+          onClick={() => setOpen(!open())}
+        >
+          <Frame size={14} />
+          <span class="text-xs">{props.frames().length}</span>
+        </button>
+      </div>
+    </Show>
+  );
+}
@@ -17,10 +17,13 @@ const TOOL_LABELS: Record<TTool, string> = {
   rectangle: "Rectangle",
   diamond: "Diamond",
   ellipse: "Ellipse",
+  frame: "Frame",
   arrow: "Arrow",
   line: "Line",
   pen: "Pen",
   text: "Text",
+  sticky: "Sticky note",
+  note: "Markdown note",
   image: "Image",
   filesystem: "Filesystem",
   terminal: "Terminal",
@@ -47,6 +50,8 @@ export const HELP_SECTIONS: THelpSection[] = [
       { label: "Zoom at pointer", keys: ["Ctrl", "Wheel"] },
       { label: "Temporary hand tool", keys: ["Space"] },
       { label: "Toggle grid", keys: ["G"] },
+      { label: "Toggle snapping", keys: ["S"], note: "Snaps to the grid, element edges and centers, and equal spacing" },
+      { label: "Invert snapping while dragging", keys: ["Cmd/Ctrl", "Drag"] },
       { label: "Toggle sidebar", keys: ["Cmd/Ctrl", "B"] },
       { label: "Open help", keys: ["?"] },
     ],
@@ -60,10 +65,47 @@ export const HELP_SECTIONS: THelpSection[] = [
       { label: "Group selection", keys: ["Cmd/Ctrl", "G"] },
       { label: "Ungroup selection", keys: ["Cmd/Ctrl", "Shift", "G"] },
       { label: "Duplicate by drag", keys: ["Alt", "Drag"] },
+      { label: "Edit selected sticky note", keys: ["Enter"], note: "Esc or Cmd/Ctrl + Enter finishes editing" },
+      { label: "Align left / center / right", keys: ["Alt", "A / H / D"], note: "Needs two or more selected items" },
+      { label: "Align top / middle / bottom", keys: ["Alt", "W / V / S"] },
+      { label: "Distribute horizontally / vertically", keys: ["Alt", "Shift", "H / V"], note: "Equal gaps across three or more items" },
+      { label: "Copy selection", keys: ["Cmd/Ctrl", "C"] },
+      { label: "Cut selection", keys: ["Cmd/Ctrl", "X"] },
+      { label: "Paste at pointer", keys: ["Cmd/Ctrl", "V"], note: "Works across canvases and browser tabs" },
       { label: "Undo", keys: ["Cmd/Ctrl", "Z"] },
       { label: "Redo", keys: ["Cmd/Ctrl", "Shift", "Z"] },
     ],
   },
+  {
+    title: "Text Formatting",
+    items: [
+      { label: "Bold / italic / inline code", keys: ["Cmd/Ctrl", "B / I / E"], note: "While editing text; text is stored as markdown" },
+      { label: "Strikethrough", keys: ["Cmd/Ctrl", "Shift", "X"] },
+      { label: "Link", keys: ["Cmd/Ctrl", "K"], note: "Cmd/Ctrl + Click opens a link on the canvas" },
+      { label: "Numbered / bullet list", keys: ["Cmd/Ctrl", "Shift", "7 / 8"], note: "Enter continues the list" },
+      { label: "Heading 1 / 2 / 3", keys: ["Cmd/Ctrl", "Alt", "1 / 2 / 3"] },
+    ],
+  },
+  {
+    title: "Markdown Notes",
+    items: [
+      { label: "Edit a note", note: "Click Edit or double click the rendered note. Empty notes open in the editor." },
+      { label: "Finish editing", keys: ["Esc"], note: "Edits also save a second after you stop typing." },
+      { label: "Check off a task", note: "Click a task checkbox; the markdown updates to - [x]." },
+    ],
+  },
+  {
+    title: "Presentation",
+    items: [
+      { label: "Start presenting", keys: ["Alt", "P"], note: "Steps through the saved slides, or through every frame when there are none" },
+      { label: "Next slide", keys: ["→ / ↓ / Space / PgDn"] },
+      { label: "Previous slide", keys: ["← / ↑ / PgUp"] },
+      { label: "First / last slide", keys: ["Home / End"] },
+      { label: "Toggle laser pointer", keys: ["L"] },
+      { label: "Open speaker notes", keys: ["N"], note: "Opens the notes in a separate window" },
+      { label: "Stop presenting", keys: ["Esc"] },
+    ],
+  },
   {
     title: "Hosted Terminal",
     items: [
@@ -0,0 +1,162 @@
+import HistoryIcon from "lucide-solid/icons/history";
+import { For, Show } from "solid-js";
+
+export type TCanvasHistoryPanelEntry = {
+  key: string;
+  actorLabel: string;
+  isLocal: boolean;
+  timeLabel: string;
+  changeCount: number;
+  labels: string[];
+};
+
+export type TCanvasHistoryDiffSummary = {
+  added: number;
+  modified: number;
+  removed: number;
+};
+
+type ICanvasHistoryProps = {
+  open: () => boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Newest first. */
+  entries: () => TCanvasHistoryPanelEntry[];
+  selectedIndex: () => number | null;
+  onSelect: (index: number | null) => void;
+  /** SVG markup of the selected entry's state, or null when it had no elements. */
+  previewSvg: () => string | null;
+  selectionCount: () => number;
+  onRestore: (scope: "canvas" | "selection") => void;
+  highlightChanges: () => boolean;
+  onHighlightChange: (highlight: boolean) => void;
+  /** What changed between the selected entry and now. */
+  diffSummary: () => TCanvasHistoryDiffSummary | null;
+};
+
+export function CanvasHistory(props: ICanvasHistoryProps) {
+  const hasSelection = () => props.selectedIndex() !== null;
+
+  return (
+    <>
+      <button
+        type="button"
+        class="pointer-events-auto flex h-11 w-11 items-center justify-center border border-border bg-card text-foreground shadow-md transition-colors hover:bg-stone-200 dark:hover:bg-stone-800"
+        classList={{ "bg-stone-200 dark:bg-stone-800": props.open() }}
+        aria-label="Toggle version history"
+        aria-pressed={props.open()}
+        title="Version history"
+        onClick={() => props.onOpenChange(!props.open())}
+      >
+        <HistoryIcon size={16} />
+      </button>
+
+      <Show when={props.open()}>
+        <div class="pointer-events-auto absolute bottom-14 right-0 flex max-h-[calc(100vh-120px)] w-80 flex-col border border-border bg-popover text-popover-foreground shadow-md">
+          <div class="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+            <div class="font-display text-lg text-foreground">History</div>
+            <button
+              type="button"
+              class="flex h-7 w-7 items-center justify-center border border-border bg-card text-muted-foreground transition-colors hover:bg-stone-200 hover:text-foreground dark:hover:bg-stone-800"
+              aria-label="Close version history"
+              onClick={() => props.onOpenChange(false)}
+            >
+              <span class="text-sm leading-none">x</span>
+            </button>
+          </div>
+
+          <Show when={props.entries().length > 1} fallback={<div class="px-3 py-4 text-xs text-muted-foreground">No earlier versions yet.</div>}>
+            <div class="border-b border-border px-3 py-2">
+              <input
+                type="range"
+                class="w-full"
+                min={0}
+                max={props.entries().length - 1}
+                step={1}
+                value={props.entries().length - 1 - (props.selectedIndex() ?? 0)}
+                aria-label="Scrub through versions"
+                onInput={(event) => {
+                  const position = Number(event.currentTarget.value);
+                  const index = props.entries().length - 1 - position;
+                  props.onSelect(index === 0 ? null : index);
+                }}
+              />
+              <div class="mt-1 flex justify-between text-[10px] text-muted-foreground">
+                <span>Oldest</span>
+                <span>Now</span>
+              </div>
+            </div>
+          </Show>
+
+          <Show when={hasSelection()}>
+            <div class="border-b border-border p-3">
+              <div class="mb-2 text-[11px] text-muted-foreground">Preview (read-only)</div>
+              <Show
+                when={props.previewSvg()}
+                fallback={<div class="flex h-40 items-center justify-center bg-card text-xs text-muted-foreground">Empty canvas</div>}
+              >
+                {(svg) => <div class="flex h-40 items-center justify-center overflow-hidden bg-card [&>svg]:max-h-full [&>svg]:max-w-full [&>svg]:h-auto [&>svg]:w-auto" innerHTML={svg()} />}
+              </Show>
+              <Show when={props.diffSummary()}>
+                {(summary) => (
+                  <label class="mt-2 flex cursor-pointer items-center gap-2 text-[11px] text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={props.highlightChanges()}
+                      onChange={(event) => props.onHighlightChange(event.currentTarget.checked)}
+                    />
+                    <span>Highlight changes since</span>
+                    <span class="ml-auto flex gap-2">
+                      <span class="text-green-600" title="Added since">+{summary().added}</span>
+                      <span class="text-amber-600" title="Changed since">~{summary().modified}</span>
+                      <span class="text-red-600" title="Removed since">-{summary().removed}</span>
+                    </span>
+                  </label>
+                )}
+              </Show>
+              <div class="mt-2 flex gap-2">
+                <button
+                  type="button"
+                  class="flex-1 border border-border bg-card px-2 py-1.5 text-xs text-foreground transition-colors hover:bg-stone-200 dark:hover:bg-stone-800"
+                  onClick={() => props.onRestore("canvas")}
+                >
+                  Restore canvas
+                </button>
+                <button
+                  type="button"
+                  class="flex-1 border border-border bg-card px-2 py-1.5 text-xs text-foreground transition-colors hover:bg-stone-200 disabled:cursor-not-allowed disabled:opacity-50 dark:hover:bg-stone-800"
+                  disabled={props.selectionCount() === 0}
+                  title={props.selectionCount() === 0 ? "Select elements on the canvas to restore only them" : undefined}
+                  onClick={() => props.onRestore("selection")}
+                >
+                  Restore selected ({props.selectionCount()})
+                </button>
+              </div>
+            </div>
+          </Show>
+
+          <div class="min-h-0 flex-1 overflow-y-auto">
+            <For each={props.entries()}>
+              {(entry, index) => (
+                <button
+                  type="button"
+                  class="block w-full border-b border-border px-3 py-2 text-left transition-colors last:border-b-0 hover:bg-stone-200 dark:hover:bg-stone-800"
+                  classList={{ "bg-stone-200 dark:bg-stone-800": (props.selectedIndex() ?? 0) === index() }}
+                  onClick={() => props.onSelect(index() === 0 ? null : index())}
+                >
+                  <div class="flex items-center justify-between gap-2">
+                    <span class="truncate text-sm text-foreground" classList={{ "font-medium": entry.isLocal }}>{entry.actorLabel}</span>
+                    <span class="shrink-0 text-[10px] text-muted-foreground">{index() === 0 ? "Current" : entry.timeLabel}</span>
+                  </div>
+                  <div class="mt-0.5 truncate text-[11px] text-muted-foreground">
+                    {entry.changeCount} {entry.changeCount === 1 ? "change" : "changes"}
+                    <Show when={entry.labels.length > 0}> · {entry.labels.join(", ")}</Show>
+                  </div>
+                </button>
+              )}
+            </For>
+          </div>
+        </div>
+      </Show>
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+import ChevronLeft from "lucide-solid/icons/chevron-left";
+import ChevronRight from "lucide-solid/icons/chevron-right";
+import Crosshair from "lucide-solid/icons/crosshair";
+import StickyNote from "lucide-solid/icons/sticky-note";
+import X from "lucide-solid/icons/x";
+import { For, Show, createSignal, onCleanup } from "solid-js";
+
+type ICanvasPresenterProps = {
+  presenting: () => boolean;
+  index: () => number;
+  count: () => number;
+  title: () => string;
+  laser: () => boolean;
+  notesOpen: () => boolean;
+  onKeyDown: (event: KeyboardEvent) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onToggleLaser: () => void;
+  onToggleNotes: () => void;
+  onExit: () => void;
+};
+
+type TLaserPoint = { x: number; y: number; at: number };
+
+const LASER_TRAIL_MS = 250;
+
+/**
+ * Covers the canvas while presenting: it takes the keys, keeps pointer input from editing the
+ * scene, and draws the laser pointer with a short fading trail.
+ */
+export function CanvasPresenter(props: ICanvasPresenterProps) {
+  const [trail, setTrail] = createSignal<TLaserPoint[]>([]);
+  let frame: number | null = null;
+
+  const fadeTrail = () => {
+    const cutoff = performance.now() - LASER_TRAIL_MS;
+    const next = trail().filter((point, index, points) => point.at >= cutoff || index === points.length - 1);
+    setTrail(next);
+    frame = next.length > 1 ? requestAnimationFrame(fadeTrail) : null;
+  };
+
+  const onPointerMove = (event: PointerEvent) => {
+    if (!props.laser()) return;
+    const bounds = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    setTrail([...trail(), { x: event.clientX - bounds.left, y: event.clientY - bounds.top, at: performance.now() }]);
+    if (frame === null) frame = requestAnimationFrame(fadeTrail);
+  };
+
+  onCleanup(() => {
+    if (frame !== null) cancelAnimationFrame(frame);
+  });
+
+  const hudButtonClass = "flex h-8 w-8 items-center justify-center text-foreground transition-colors hover:bg-stone-200 disabled:opacity-40 dark:hover:bg-stone-800";
+
+  return (
+    <Show when={props.presenting()}>
+      <div
+        ref={(element) => queueMicrotask(() => element.focus())}
+        class="pointer-events-auto absolute inset-0 z-[100] outline-none"
+        classList={{ "cursor-none": props.laser() }}
+        tabIndex={0}
+        aria-label="Presentation"
+        onKeyDown={(event) => {
+          event.stopPropagation();
+          // A focused HUD button already handles its own Enter and Space.
+          if (event.target !== event.currentTarget && (event.key === "Enter" || event.key === " ")) return;
+          props.onKeyDown(event);
+        }}
+        onKeyUp={(event) => event.stopPropagation()}
+        onPointerMove={onPointerMove}
+        onPointerLeave={() => setTrail([])}
+        onWheel={(event) => event.preventDefault()}
+        onContextMenu={(event) => {
+          event.preventDefault();
+          event.stopPropagation();
+        }}
+      >
+        <Show when={props.laser()}>
+          <For each={trail()}>
+            {(point, index) => {
+              const weight = () => (index() + 1) / trail().length;
+              return (
+                <div
+                  class="pointer-events-none absolute rounded-full bg-red-500"
+                  style={{
+                    left: `${point.x}px`,
+                    top: `${point.y}px`,
+                    width: `${4 + 10 * weight()}px`,
+                    height: `${4 + 10 * weight()}px`,
+                    opacity: weight(),
+                    transform: "translate(-50%, -50%)",
+                    "box-shadow": index() === trail().length - 1 ? "0 0 12px 4px rgba(239, 68, 68, 0.6)" : undefined,
+                  }}
+                />
+              );
+            }}
+          </For>
+        </Show>
+
+        <div
+          class="absolute bottom-4 left-1/2 flex -translate-x-1/2 items-center gap-1 border border-border bg-card px-1 py-1 opacity-40 shadow-md transition-opacity hover:opacity-100"
+          onPointerMove={(event) => event.stopPropagation()}
+        >
+          <button type="button" class={hudButtonClass} aria-label="Previous slide" disabled={props.index() === 0} onClick={() => props.onPrevious()}>
+            <ChevronLeft size={16} />
+          </button>
+          <div class="max-w-64 truncate px-2 text-xs text-foreground">
+            {props.index() + 1} / {props.count()}
+            <Show when={props.title()}>
+              <span class="text-muted-foreground"> · {props.title()}</span>
+            </Show>
+          </div>
+          <button type="button" class={hudButtonClass} aria-label="Next slide" disabled={props.index() >= props.count() - 1} onClick={() => props.onNext()}>
+            <ChevronRight size={16} />
+          </button>
+          <button
+            type="button"
+            class={hudButtonClass}
+            classList={{ "bg-stone-200 dark:bg-stone-800": props.laser() }}
+            aria-label="Toggle laser pointer"
+            aria-pressed={props.laser()}
+            title="Laser pointer (L)"
+            onClick={() => props.onToggleLaser()}
+          >
+            <Crosshair size={15} />
+          </button>
+          <button
+            type="button"
+            class={hudButtonClass}
+            classList={{ "bg-stone-200 dark:bg-stone-800": props.notesOpen() }}
+            aria-label="Toggle speaker notes"
+            aria-pressed={props.notesOpen()}
+            title="Speaker notes (N)"
+            onClick={() => props.onToggleNotes()}
+          >
+            <StickyNote size={15} />
+          </button>
+          <button type="button" class={hudButtonClass} aria-label="Exit presentation" title="Exit (Esc)" onClick={() => props.onExit()}>
+            <X size={15} />
+          </button>
+        </div>
+      </div>
+    </Show>
+  );
+}
@@ -0,0 +1,168 @@
+import ChevronDown from "lucide-solid/icons/chevron-down";
+import ChevronUp from "lucide-solid/icons/chevron-up";
+import Play from "lucide-solid/icons/play";
+import Presentation from "lucide-solid/icons/presentation";
+import Trash2 from "lucide-solid/icons/trash-2";
+import { For, Show, createSignal } from "solid-js";
+
+export type TCanvasSlideItem = {
+  id: string;
+  /** What the list shows: the slide's title, else its frame's title, else its number. */
+  label: string;
+  title: string;
+  notes: string;
+  kind: "frame" | "viewport";
+};
+
+type ICanvasSlidesProps = {
+  slides: () => TCanvasSlideItem[];
+  /** Presenting without saved slides steps through the frames. */
+  frameCount: () => number;
+  canAddFrame: () => boolean;
+  onPresent: (index: number) => void;
+  onAddView: () => void;
+  onAddFrame: () => void;
+  onJump: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onRemove: (id: string) => void;
+  onEdit: (id: string, patch: { title?: string; notes?: string }) => void;
+};
+
+/** Keeps typing in the slide fields away from the canvas shortcuts. */
+function stopKeyPropagation(event: KeyboardEvent) {
+  event.stopPropagation();
+}
+
+export function CanvasSlides(props: ICanvasSlidesProps) {
+  const [open, setOpen] = createSignal(false);
+  const [editingId, setEditingId] = createSignal<string | null>(null);
+  const editing = () => props.slides().find((slide) => slide.id === editingId()) ?? null;
+  const canPresent = () => props.slides().length > 0 || props.frameCount() > 0;
+  const iconButtonClass = "flex h-7 w-7 shrink-0 items-center justify-center text-muted-foreground transition-colors hover:bg-stone-200 hover:text-foreground disabled:opacity-40 dark:hover:bg-stone-800";
+
+  return (
+    <>
+      <button
+        type="button"
+        class="pointer-events-auto flex h-11 w-11 items-center justify-center border border-border bg-card text-foreground shadow-md transition-colors hover:bg-stone-200 dark:hover:bg-stone-800"
+        classList={{ "bg-stone-200 dark:bg-stone-800": open() }}
+        aria-label="Toggle slides"
+        aria-pressed={open()}
+        title="Slides"
+        onClick={() => setOpen(!open())}
+      >
+        <Presentation size={16} />
+      </button>
+
+      <Show when={open()}>
+        <div class="pointer-events-auto absolute bottom-14 right-0 flex max-h-[calc(100vh-120px)] w-80 flex-col border border-border bg-popover text-popover-foreground shadow-md">
+          <div class="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+            <div class="font-display text-lg text-foreground">Slides</div>
+            <button
+              type="button"
+              class="flex h-7 items-center gap-1.5 border border-border bg-card px-2 text-xs text-foreground transition-colors hover:bg-stone-200 disabled:opacity-40 dark:hover:bg-stone-800"
+              disabled={!canPresent()}
+              title="Present (Alt+P)"
+              onClick={() => props.onPresent(0)}
+            >
+              <Play size={12} />
+              Present
+            </button>
+          </div>
+
+          <div class="min-h-0 flex-1 overflow-y-auto">
+            <Show
+              when={props.slides().length > 0}
+              fallback={(
+                <div class="px-3 py-4 text-xs text-muted-foreground">
+                  {props.frameCount() > 0
+                    ? "No slides yet. Presenting steps through the frames from top to bottom."
+                    : "No slides yet. Add the current view or a frame to start a deck."}
+                </div>
+              )}
+            >
+              <For each={props.slides()}>
+                {(slide, index) => (
+                  <div
+                    class="flex items-center gap-1 border-b border-border px-2 py-1 last:border-b-0"
+                    classList={{ "bg-stone-100 dark:bg-stone-900": editingId() === slide.id }}
+                  >
+                    <span class="w-5 shrink-0 text-right text-[11px] text-muted-foreground">{index() + 1}</span>
+                    <button
+                      type="button"
+                      class="min-w-0 flex-1 truncate px-1 py-1 text-left text-sm text-foreground"
+                      title={slide.kind === "frame" ? "Frame slide" : "Saved view"}
+                      onClick={() => {
+                        setEditingId(editingId() === slide.id ? null : slide.id);
+                        props.onJump(slide.id);
+                      }}
+                    >
+                      {slide.label}
+                    </button>
+                    <button type="button" class={iconButtonClass} aria-label="Move slide up" disabled={index() === 0} onClick={() => props.onMove(slide.id, -1)}>
+                      <ChevronUp size={14} />
+                    </button>
+                    <button type="button" class={iconButtonClass} aria-label="Move slide down" disabled={index() === props.slides().length - 1} onClick={() => props.onMove(slide.id, 1)}>
+                      <ChevronDown size={14} />
+                    </button>
+                    <button type="button" class={iconButtonClass} aria-label="Present from this slide" onClick={() => props.onPresent(index())}>
+                      <Play size={12} />
+                    </button>
+                    <button type="button" class={iconButtonClass} aria-label="Remove slide" onClick={() => props.onRemove(slide.id)}>
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                )}
+              </For>
+            </Show>
+          </div>
+
+          <Show when={editing()}>
+            {(slide) => (
+              <div class="flex flex-col gap-2 border-t border-border px-3 py-2">
+                <input
+                  type="text"
+                  class="w-full border border-border bg-card px-2 py-1 text-sm text-foreground"
+                  aria-label="Slide title"
+                  placeholder={slide().label}
+                  value={slide().title}
+                  onKeyDown={stopKeyPropagation}
+                  onKeyUp={stopKeyPropagation}
+                  onChange={(event) => props.onEdit(slide().id, { title: event.currentTarget.value.trim() })}
+                />
+                <textarea
+                  class="h-24 w-full resize-none border border-border bg-card px-2 py-1 text-sm text-foreground"
+                  aria-label="Speaker notes"
+                  placeholder="Speaker notes"
+                  value={slide().notes}
+                  onKeyDown={stopKeyPropagation}
+                  onKeyUp={stopKeyPropagation}
+                  onChange={(event) => props.onEdit(slide().id, { notes: event.currentTarget.value })}
+                />
+              </div>
+            )}
+          </Show>
+
+          <div class="flex gap-2 border-t border-border px-3 py-2">
+            <button
+              type="button"
+              class="flex-1 border border-border bg-card px-2 py-1 text-xs text-foreground transition-colors hover:bg-stone-200 dark:hover:bg-stone-800"
+              onClick={() => props.onAddView()}
+            >
+              Add current view
+            </button>
+            <button
+              type="button"
+              class="flex-1 border border-border bg-card px-2 py-1 text-xs text-foreground transition-colors hover:bg-stone-200 disabled:opacity-40 dark:hover:bg-stone-800"
+              disabled={!props.canAddFrame()}
+              title="Select a frame to add it"
+              onClick={() => props.onAddFrame()}
+            >
+              Add selected frame
+            </button>
+          </div>
+        </div>
+      </Show>
+    </>
+  );
+}
@@ -9,15 +9,19 @@ import MousePointer2 from "lucide-solid/icons/mouse-pointer-2";
 import Square from "lucide-solid/icons/square";
 import Diamond from "lucide-solid/icons/diamond";
 import Circle from "lucide-solid/icons/circle";
+import Frame from "lucide-solid/icons/frame";
 import ArrowRight from "lucide-solid/icons/arrow-right";
 import Minus from "lucide-solid/icons/minus";
 import Pencil from "lucide-solid/icons/pencil";
 import Type from "lucide-solid/icons/type";
+import StickyNote from "lucide-solid/icons/sticky-note";
+import NotebookText from "lucide-solid/icons/notebook-text";
 import Image from "lucide-solid/icons/image";
 import FolderTree from "lucide-solid/icons/folder-tree";
 import SquareTerminal from "lucide-solid/icons/square-terminal";
 import Globe from "lucide-solid/icons/globe";
 import Grid2x2 from "lucide-solid/icons/grid-2x2";
+import Magnet from "lucide-solid/icons/magnet";
 import PanelLeft from "lucide-solid/icons/panel-left";
 import { Tooltip } from "@kobalte/core/tooltip";
 import { For, Show, createMemo, createSignal } from "solid-js";
@@ -28,9 +32,11 @@ import { TOOLS, type TTool } from "./toolbar.types";
 interface IFloatingCanvasToolbarProps {
   activeTool: () => TTool;
   gridVisible: () => boolean;
+  snapEnabled: () => boolean;
   sidebarVisible: () => boolean;
   onToolSelect: (tool: TTool) => void;
   onToggleGrid: () => void;
+  onToggleSnap: () => void;
   onToggleSidebar: () => void;
 }
 
@@ -40,10 +46,13 @@ const TOOL_ICONS: Record<TTool, () => JSX.Element> = {
   rectangle: () => <Square size={14} />,
   diamond: () => <Diamond size={14} />,
   ellipse: () => <Circle size={14} />,
+  frame: () => <Frame size={14} />,
   arrow: () => <ArrowRight size={14} />,
   line: () => <Minus size={14} />,
   pen: () => <Pencil size={14} />,
   text: () => <Type size={14} />,
+  sticky: () => <StickyNote size={14} />,
+  note: () => <NotebookText size={14} />,
   image: () => <Image size={14} />,
   filesystem: () => <FolderTree size={14} />,
   terminal: () => <SquareTerminal size={14} />,
@@ -56,6 +65,7 @@ const isMac = typeof navigator !== "undefined" && /Mac|iPod|iPhone|iPad/.test(na
 export function FloatingCanvasToolbar(props: IFloatingCanvasToolbarProps) {
   const activeTool = createMemo(() => props.activeTool());
   const isGridVisible = createMemo(() => props.gridVisible());
+  const isSnapEnabled = createMemo(() => props.snapEnabled());
   const isSidebarVisible = createMemo(() => props.sidebarVisible());
   const [isCollapsed, setIsCollapsed] = createSignal(false);
 
@@ -104,6 +114,12 @@ export function FloatingCanvasToolbar(props: IFloatingCanvasToolbarProps) {
               isActive={isGridVisible()}
               onClick={props.onToggleGrid}
             />
+            <ToolButton
+              icon={<Magnet size={14} />}
+              letterShortcut="s"
+              isActive={isSnapEnabled()}
+              onClick={props.onToggleSnap}
+            />
           </div>
         </Show>
 
@@ -9,10 +9,13 @@ export type TTool =
   | "rectangle"
   | "diamond"
   | "ellipse"
+  | "frame"
   | "arrow"
   | "line"
   | "pen"
   | "text"
+  | "sticky"
+  | "note"
   | "image"
   | "filesystem"
   | "terminal"
@@ -41,10 +44,13 @@ export const TOOL_SHORTCUTS: Record<string, TTool> = {
   "r": "rectangle",
   "d": "diamond",
   "o": "ellipse",
+  "m": "frame",
   "a": "arrow",
   "l": "line",
   "p": "pen",
   "t": "text",
+  "n": "sticky",
+  "k": "note",
   "f": "filesystem",
   "j": "terminal",
   "w": "browser",
@@ -58,10 +64,13 @@ export const TOOLS: IToolDefinition[] = [
   { tool: "rectangle", shortcut: "2", letterShortcut: "r" },
   { tool: "diamond", shortcut: "3", letterShortcut: "d" },
   { tool: "ellipse", shortcut: "4", letterShortcut: "o" },
+  { tool: "frame", letterShortcut: "m" },
   { tool: "arrow", shortcut: "5", letterShortcut: "a" },
   { tool: "line", shortcut: "6", letterShortcut: "l" },
   { tool: "pen", shortcut: "7", letterShortcut: "p" },
   { tool: "text", shortcut: "8", letterShortcut: "t" },
+  { tool: "sticky", letterShortcut: "n" },
+  { tool: "note", letterShortcut: "k" },
   { tool: "image", shortcut: "9" },
   { tool: "filesystem", letterShortcut: "f" },
   { tool: "terminal", letterShortcut: "j" },
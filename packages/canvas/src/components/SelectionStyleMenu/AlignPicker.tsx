@@ -0,0 +1,54 @@
+import type { TAlignMode, TDistributeAxis } from "@vibecanvas/canvas-cmds/core/fn.align";
+import AlignCenterHorizontal from "lucide-solid/icons/align-center-horizontal";
+import AlignCenterVertical from "lucide-solid/icons/align-center-vertical";
+import AlignEndHorizontal from "lucide-solid/icons/align-end-horizontal";
+import AlignEndVertical from "lucide-solid/icons/align-end-vertical";
+import AlignHorizontalSpaceBetween from "lucide-solid/icons/align-horizontal-space-between";
+import AlignStartHorizontal from "lucide-solid/icons/align-start-horizontal";
+import AlignStartVertical from "lucide-solid/icons/align-start-vertical";
+import AlignVerticalSpaceBetween from "lucide-solid/icons/align-vertical-space-between";
+import { For, Show } from "solid-js";
+import type { JSX } from "solid-js";
+
+const BUTTON_CLASS = "w-6 h-6 flex items-center justify-center border border-border hover:bg-stone-200 dark:hover:bg-stone-800 transition-colors";
+
+const ALIGN_OPTIONS: Array<{ mode: TAlignMode; name: string; icon: (props: { size: number }) => JSX.Element }> = [
+  { mode: "left", name: "Align left (Alt+A)", icon: AlignStartVertical },
+  { mode: "center", name: "Align center (Alt+H)", icon: AlignCenterVertical },
+  { mode: "right", name: "Align right (Alt+D)", icon: AlignEndVertical },
+  { mode: "top", name: "Align top (Alt+W)", icon: AlignStartHorizontal },
+  { mode: "middle", name: "Align middle (Alt+V)", icon: AlignCenterHorizontal },
+  { mode: "bottom", name: "Align bottom (Alt+S)", icon: AlignEndHorizontal },
+];
+
+const DISTRIBUTE_OPTIONS: Array<{ axis: TDistributeAxis; name: string; icon: (props: { size: number }) => JSX.Element }> = [
+  { axis: "horizontal", name: "Distribute horizontally (Alt+Shift+H)", icon: AlignHorizontalSpaceBetween },
+  { axis: "vertical", name: "Distribute vertically (Alt+Shift+V)", icon: AlignVerticalSpaceBetween },
+];
+
+export function AlignPicker(props: {
+  showDistribute: boolean;
+  onAlign: (mode: TAlignMode) => void;
+  onDistribute: (axis: TDistributeAxis) => void;
+}) {
+  return (
+    <div class="flex gap-0.5">
+      <For each={ALIGN_OPTIONS}>
+        {(option) => (
+          <button type="button" class={BUTTON_CLASS} title={option.name} onClick={() => props.onAlign(option.mode)}>
+            <option.icon size={14} />
+          </button>
+        )}
+      </For>
+      <Show when={props.showDistribute}>
+        <For each={DISTRIBUTE_OPTIONS}>
+          {(option) => (
+            <button type="button" class={BUTTON_CLASS} title={option.name} onClick={() => props.onDistribute(option.axis)}>
+              <option.icon size={14} />
+            </button>
+          )}
+        </For>
+      </Show>
+    </div>
+  );
+}
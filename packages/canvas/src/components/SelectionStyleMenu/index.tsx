@@ -1,4 +1,6 @@
+import type { TAlignMode, TDistributeAxis } from "@vibecanvas/canvas-cmds/core/fn.align";
 import { Show, createMemo } from "solid-js";
+import { AlignPicker } from "./AlignPicker";
 import { CapPicker } from "./CapPicker";
 import { ColorPicker } from "./ColorPicker";
 import { FontFamilyPicker } from "./FontFamilyPicker";
@@ -16,6 +18,8 @@ export type TSelectionStyleMenuSections = {
   showLineTypePicker: boolean;
   showStartCapPicker: boolean;
   showEndCapPicker: boolean;
+  showAlignPicker: boolean;
+  showDistributePicker: boolean;
 };
 
 export type TSelectionStyleMenuValues = {
@@ -42,6 +46,8 @@ export function SelectionStyleMenu(props: {
   onLineTypeChange: (lineType: TLineType) => void;
   onStartCapChange: (capStyle: TCapStyle) => void;
   onEndCapChange: (capStyle: TCapStyle) => void;
+  onAlign: (mode: TAlignMode) => void;
+  onDistribute: (axis: TDistributeAxis) => void;
 }) {
   const shouldShow = createMemo(() => props.visible());
 
@@ -135,6 +141,17 @@ export function SelectionStyleMenu(props: {
               />
             </div>
           </Show>
+
+          <Show when={props.sections().showAlignPicker}>
+            <div class="flex flex-col gap-1">
+              <span class="text-[10px] text-muted-foreground font-mono">ALIGN</span>
+              <AlignPicker
+                showDistribute={props.sections().showDistributePicker}
+                onAlign={props.onAlign}
+                onDistribute={props.onDistribute}
+              />
+            </div>
+          </Show>
         </div>
       </div>
     </Show>
@@ -60,6 +60,8 @@ type TCodeEditorProps = {
   truncated: boolean;
   onSave: (nextContent: string) => void;
   onDirty: (nextDirty: boolean) => void;
+  /** Every local edit, before the debounced save. */
+  onChange?: (nextContent: string) => void;
 };
 
 export function CodeEditor(props: TCodeEditorProps) {
@@ -104,6 +106,7 @@ export function CodeEditor(props: TCodeEditorProps) {
         EditorView.updateListener.of((update) => {
           if (!update.docChanged || isApplyingExternalUpdate) return;
           props.onDirty(true);
+          props.onChange?.(update.state.doc.toString());
 
           if (saveTimeout) clearTimeout(saveTimeout);
           saveTimeout = setTimeout(() => {
@@ -0,0 +1,68 @@
+import { defaultHighlightStyle, syntaxHighlighting } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { onCleanup, onMount } from "solid-js";
+import { getLanguageExtension } from "../file/getLanguageExtension";
+
+const FENCE_LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: "js",
+  typescript: "ts",
+  python: "py",
+  rust: "rs",
+  markdown: "md",
+};
+
+const noteCodeTheme = EditorView.theme({
+  "&": {
+    backgroundColor: "var(--color-muted)",
+    color: "var(--color-foreground)",
+    fontFamily: "'JetBrains Mono Variable', monospace",
+    fontSize: "12px",
+  },
+  "&.cm-focused": {
+    outline: "none",
+  },
+  ".cm-content": {
+    padding: "8px 0",
+  },
+  ".cm-line": {
+    padding: "0 10px",
+  },
+});
+
+/** Fence info strings name languages; the editor resolves highlighting by file extension. */
+export function getNoteCodePath(lang: string) {
+  return `snippet.${FENCE_LANGUAGE_EXTENSIONS[lang] ?? lang}`;
+}
+
+export function NoteCodeBlock(props: { code: string; lang: string }) {
+  let containerRef!: HTMLDivElement;
+  let editorView: EditorView | undefined;
+  let disposed = false;
+
+  onMount(async () => {
+    const languageExtension = props.lang ? await getLanguageExtension(getNoteCodePath(props.lang)) : null;
+    if (disposed) return;
+
+    editorView = new EditorView({
+      parent: containerRef,
+      state: EditorState.create({
+        doc: props.code,
+        extensions: [
+          EditorState.readOnly.of(true),
+          EditorView.editable.of(false),
+          syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+          languageExtension ? [languageExtension] : [],
+          noteCodeTheme,
+        ],
+      }),
+    });
+  });
+
+  onCleanup(() => {
+    disposed = true;
+    editorView?.destroy();
+  });
+
+  return <div ref={containerRef} data-note-code-block={props.lang || "text"} class="overflow-x-auto rounded-sm border border-border" />;
+}
@@ -0,0 +1,83 @@
+import { fnToggleNoteTask } from "@vibecanvas/canvas-cmds/core/fn.note";
+import { createEffect, createSignal, onCleanup, Show, type Accessor } from "solid-js";
+import type { THostedWidgetChrome, THostedWidgetElementMap } from "../../services/canvas/interface";
+import { CodeEditor } from "../file/viewers/CodeEditor";
+import { NoteMarkdown } from "./NoteMarkdown";
+
+type TNoteHostedWidgetProps = {
+  element: Accessor<THostedWidgetElementMap["note"]>;
+  setWindowChrome?: (chrome: THostedWidgetChrome | null) => void;
+  onMarkdownChange: (markdown: string) => void;
+};
+
+export function NoteHostedWidget(props: TNoteHostedWidgetProps) {
+  const markdown = () => props.element().data.markdown;
+  const [isEditing, setIsEditing] = createSignal(markdown().trim() === "");
+  let draft: string | null = null;
+
+  // The editor saves on a debounce, so pending keystrokes are flushed when editing ends.
+  const flushDraft = () => {
+    if (draft !== null && draft !== markdown()) props.onMarkdownChange(draft);
+    draft = null;
+  };
+
+  const finishEditing = () => {
+    flushDraft();
+    setIsEditing(false);
+  };
+
+  createEffect(() => {
+    props.setWindowChrome?.({ subtitle: isEditing() ? "editing" : null });
+  });
+
+  onCleanup(() => {
+    flushDraft();
+    props.setWindowChrome?.(null);
+  });
+
+  return (
+    <div
+      data-note-widget-root="true"
+      data-hosted-widget-focus-root="true"
+      tabIndex={-1}
+      class="relative flex h-full min-h-0 flex-1 flex-col bg-card text-card-foreground"
+      onKeyDown={(event) => {
+        if (!isEditing() || event.key !== "Escape") return;
+        event.stopPropagation();
+        finishEditing();
+      }}
+    >
+      <button
+        type="button"
+        class="absolute top-2 right-2 z-10 rounded-sm border border-border bg-background px-2 py-0.5 font-mono text-[11px] text-muted-foreground hover:text-foreground"
+        onClick={() => isEditing() ? finishEditing() : setIsEditing(true)}
+      >
+        {isEditing() ? "Done" : "Edit"}
+      </button>
+      <Show
+        when={isEditing()}
+        fallback={
+          <div class="min-h-0 flex-1 overflow-auto px-4 py-3 font-sans" onDblClick={() => setIsEditing(true)}>
+            <Show when={markdown().trim() !== ""} fallback={<span class="text-xs text-muted-foreground">Empty note. Double click to write markdown.</span>}>
+              <NoteMarkdown markdown={markdown()} onToggleTask={(line) => props.onMarkdownChange(fnToggleNoteTask(markdown(), line))} />
+            </Show>
+          </div>
+        }
+      >
+        <CodeEditor
+          content={markdown()}
+          path="note.md"
+          truncated={false}
+          onSave={(nextMarkdown) => {
+            draft = null;
+            if (nextMarkdown !== markdown()) props.onMarkdownChange(nextMarkdown);
+          }}
+          onDirty={() => {}}
+          onChange={(nextMarkdown) => {
+            draft = nextMarkdown;
+          }}
+        />
+      </Show>
+    </div>
+  );
+}
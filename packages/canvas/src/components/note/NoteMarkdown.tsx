@@ -0,0 +1,130 @@
+import { fnParseNoteMarkdown, type TNoteBlock, type TNoteTableAlign } from "@vibecanvas/canvas-cmds/core/fn.note";
+import { fnIsSafeRichTextLink, type TRichTextRun } from "@vibecanvas/canvas-cmds/core/fn.rich-text";
+import { createMemo, For, Match, Show, Switch } from "solid-js";
+import { Dynamic } from "solid-js/web";
+import { NoteCodeBlock } from "./NoteCodeBlock";
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: "text-xl font-bold",
+  2: "text-lg font-bold",
+  3: "text-base font-semibold",
+  4: "text-sm font-semibold",
+  5: "text-sm font-semibold",
+  6: "text-xs font-semibold uppercase tracking-wide text-muted-foreground",
+};
+
+function NoteRuns(props: { runs: TRichTextRun[] }) {
+  return (
+    <For each={props.runs}>
+      {(run) => {
+        const classList = {
+          "font-bold": run.bold,
+          italic: run.italic,
+          "line-through": run.strike,
+          "rounded-sm bg-muted px-1 font-mono text-[0.9em]": run.code,
+        };
+        return (
+          <Show when={run.link && fnIsSafeRichTextLink(run.link)} fallback={<span classList={{ ...classList, "text-blue-600": run.link !== null }}>{run.text}</span>}>
+            <a href={run.link!} target="_blank" rel="noopener noreferrer" class="text-blue-600 underline" classList={classList}>{run.text}</a>
+          </Show>
+        );
+      }}
+    </For>
+  );
+}
+
+function getCellAlign(align: TNoteTableAlign) {
+  return align ?? "left";
+}
+
+function NoteBlock(props: { block: TNoteBlock; onToggleTask: (line: number) => void }) {
+  const block = props.block;
+  return (
+    <Switch>
+      <Match when={block.kind === "heading" && block}>
+        {(heading) => (
+          <Dynamic component={`h${heading().level}`} class={HEADING_CLASSES[heading().level]}>
+            <NoteRuns runs={heading().runs} />
+          </Dynamic>
+        )}
+      </Match>
+      <Match when={block.kind === "paragraph" && block}>
+        {(paragraph) => <p><NoteRuns runs={paragraph().runs} /></p>}
+      </Match>
+      <Match when={block.kind === "quote" && block}>
+        {(quote) => <blockquote class="border-l-2 border-border pl-3 text-muted-foreground"><NoteRuns runs={quote().runs} /></blockquote>}
+      </Match>
+      <Match when={block.kind === "list" && block}>
+        {(list) => (
+          <Dynamic component={list().ordered ? "ol" : "ul"} start={list().ordered ? list().start : undefined} class={list().ordered ? "list-decimal pl-5" : "list-disc pl-5"}>
+            <For each={list().items}>
+              {(item) => (
+                <li classList={{ "list-none -ml-5": item.checked !== null }}>
+                  <Show when={item.checked !== null} fallback={<NoteRuns runs={item.runs} />}>
+                    <label class="inline-flex items-start gap-2">
+                      <input
+                        type="checkbox"
+                        class="mt-1"
+                        checked={item.checked === true}
+                        onChange={(event) => {
+                          event.preventDefault();
+                          props.onToggleTask(item.line);
+                        }}
+                      />
+                      <span classList={{ "text-muted-foreground line-through": item.checked === true }}><NoteRuns runs={item.runs} /></span>
+                    </label>
+                  </Show>
+                </li>
+              )}
+            </For>
+          </Dynamic>
+        )}
+      </Match>
+      <Match when={block.kind === "code" && block}>
+        {(code) => <NoteCodeBlock code={code().code} lang={code().lang} />}
+      </Match>
+      <Match when={block.kind === "table" && block}>
+        {(table) => (
+          <div class="overflow-x-auto">
+            <table class="border-collapse text-xs">
+              <thead>
+                <tr>
+                  <For each={table().header}>
+                    {(cell, column) => <th class="border border-border bg-muted px-2 py-1 font-semibold" style={{ "text-align": getCellAlign(table().align[column()] ?? null) }}><NoteRuns runs={cell} /></th>}
+                  </For>
+                </tr>
+              </thead>
+              <tbody>
+                <For each={table().rows}>
+                  {(row) => (
+                    <tr>
+                      <For each={row}>
+                        {(cell, column) => <td class="border border-border px-2 py-1" style={{ "text-align": getCellAlign(table().align[column()] ?? null) }}><NoteRuns runs={cell} /></td>}
+                      </For>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Match>
+      <Match when={block.kind === "rule"}>
+        <hr class="border-border" />
+      </Match>
+    </Switch>
+  );
+}
+
+/** Read-only rendering of a note. Task checkboxes stay clickable and report their source line. */
+export function NoteMarkdown(props: { markdown: string; onToggleTask: (line: number) => void }) {
+  const blocks = createMemo(() => fnParseNoteMarkdown(props.markdown));
+
+  return (
+    <div data-note-markdown="true" class="flex flex-col gap-3 text-sm leading-relaxed">
+      <For each={blocks()}>
+        {(block) => <NoteBlock block={block} onToggleTask={props.onToggleTask} />}
+      </For>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export * from "./NoteCodeBlock";
+export * from "./NoteHostedWidget";
+export * from "./NoteMarkdown";
@@ -5,18 +5,23 @@ import type { Group } from "konva/lib/Group";
 
 export enum CustomEvents {
   GRID_VISIBLE = 'grid-visible',
+  SNAP_ENABLED = 'snap-enabled',
   TOOL_SELECT = 'tool-select',
   ELEMENT_POINTERCLICK = 'element-pointerclick',
   ELEMENT_POINTERDOWN = 'element-pointerdown',
   ELEMENT_POINTERDBLCLICK = 'element-pointerdblclick',
+  PRESENTATION = 'presentation',
 }
 
 export type CustomEventMap = {
   [CustomEvents.GRID_VISIBLE]: boolean
+  [CustomEvents.SNAP_ENABLED]: boolean
   [CustomEvents.TOOL_SELECT]: TTool
   [CustomEvents.ELEMENT_POINTERCLICK]: KonvaEventObject<PointerEvent, Shape<ShapeConfig> | Group>
   [CustomEvents.ELEMENT_POINTERDOWN]: KonvaEventObject<PointerEvent, Shape<ShapeConfig> | Group>
   [CustomEvents.ELEMENT_POINTERDBLCLICK]: KonvaEventObject<PointerEvent, Shape<ShapeConfig> | Group>
+  /** Whether a presentation is running; canvas chrome hides while it does. */
+  [CustomEvents.PRESENTATION]: boolean
 }
 
 export type TCustomEventName = keyof CustomEventMap & string;
@@ -0,0 +1,90 @@
+import { fnPlanCanvasAlign, fnPlanCanvasDistribute, type TAlignMode, type TArrangePlan, type TDistributeAxis } from "@vibecanvas/canvas-cmds/core/fn.align";
+import type { TCanvasDoc } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type Konva from "konva";
+import { CanvasMode } from "../../services/canvas/enum";
+import { commitArrangePlan } from "../shared/arrange.shared";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+
+type TSelectionNode = Konva.Group | Konva.Shape;
+
+const ALIGN_SHORTCUTS: Record<string, TAlignMode> = {
+  KeyA: "left",
+  KeyH: "center",
+  KeyD: "right",
+  KeyW: "top",
+  KeyV: "middle",
+  KeyS: "bottom",
+};
+
+const DISTRIBUTE_SHORTCUTS: Record<string, TDistributeAxis> = {
+  KeyH: "horizontal",
+  KeyV: "vertical",
+};
+
+function isEditableTarget(target: EventTarget | null) {
+  if (target instanceof HTMLInputElement) return true;
+  if (target instanceof HTMLTextAreaElement) return true;
+  if (target instanceof HTMLElement && target.isContentEditable) return true;
+
+  return false;
+}
+
+function getSelectionIds(nodes: TSelectionNode[]) {
+  return TransformPlugin.filterSelection(nodes).map((node) => node.id());
+}
+
+/**
+ * Aligns and distributes the current selection with the same planners as `canvas align` and
+ * `canvas distribute`, so groups, attached text and hosted widgets move as single units.
+ */
+export class AlignPlugin implements IPlugin {
+  apply(context: IPluginContext): void {
+    context.capabilities.align = {
+      canAlign: (nodes) => this.countNodes(context, nodes) > 1,
+      canDistribute: (nodes) => this.countNodes(context, nodes) > 2,
+      alignSelection: (nodes, mode) => {
+        return this.commit(context, `align-${mode}`, (doc) => fnPlanCanvasAlign(doc, getSelectionIds(nodes), mode));
+      },
+      distributeSelection: (nodes, axis) => {
+        return this.commit(context, `distribute-${axis}`, (doc) => fnPlanCanvasDistribute(doc, getSelectionIds(nodes), axis));
+      },
+    };
+
+    context.hooks.keydown.tap((event) => {
+      if (context.state.mode !== CanvasMode.SELECT) return;
+      if (context.state.editingTextId !== null) return;
+      if (!event.altKey || event.metaKey || event.ctrlKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const selection = context.state.selection;
+      if (event.shiftKey) {
+        const axis = DISTRIBUTE_SHORTCUTS[event.code];
+        if (!axis) return;
+        event.preventDefault();
+        context.capabilities.align?.distributeSelection(selection, axis);
+        return;
+      }
+
+      const mode = ALIGN_SHORTCUTS[event.code];
+      if (!mode) return;
+      event.preventDefault();
+      context.capabilities.align?.alignSelection(selection, mode);
+    });
+  }
+
+  private countNodes(context: IPluginContext, nodes: TSelectionNode[]) {
+    const doc = context.crdt.docHandle.doc();
+    const ids = getSelectionIds(nodes);
+    if (!doc || ids.length < 2) return 0;
+    return fnPlanCanvasAlign(doc, ids, "left").nodes.length;
+  }
+
+  private commit(context: IPluginContext, label: string, plan: (doc: TCanvasDoc) => TArrangePlan) {
+    const current = context.crdt.docHandle.doc();
+    if (!current) return false;
+
+    const doc = structuredClone(current) as TCanvasDoc;
+    return commitArrangePlan(context, doc, plan(doc), label);
+  }
+}
@@ -0,0 +1,129 @@
+import type { TElement, TGroup } from "@vibecanvas/service-automerge/types/canvas-doc";
+
+export const CLIPBOARD_MIME_TYPE = "application/x-vibecanvas+json";
+export const CLIPBOARD_PAYLOAD_KIND = "vibecanvas/clipboard";
+export const CLIPBOARD_PAYLOAD_VERSION = 1;
+
+export type TClipboardBounds = { x: number; y: number; width: number; height: number };
+
+export type TClipboardPayload = {
+  kind: typeof CLIPBOARD_PAYLOAD_KIND;
+  version: typeof CLIPBOARD_PAYLOAD_VERSION;
+  sourceCanvasId: string | null;
+  bounds: TClipboardBounds;
+  rootIds: string[];
+  groups: TGroup[];
+  elements: TElement[];
+};
+
+export type TClipboardPasteSnapshot = {
+  rootIds: string[];
+  groups: TGroup[];
+  elements: TElement[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function createClipboardPayload(payload: Omit<TClipboardPayload, "kind" | "version">): TClipboardPayload {
+  return {
+    kind: CLIPBOARD_PAYLOAD_KIND,
+    version: CLIPBOARD_PAYLOAD_VERSION,
+    sourceCanvasId: payload.sourceCanvasId,
+    bounds: { ...payload.bounds },
+    rootIds: [...payload.rootIds],
+    groups: structuredClone(payload.groups),
+    elements: structuredClone(payload.elements),
+  };
+}
+
+export function serializeClipboardPayload(payload: TClipboardPayload) {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Returns null for foreign clipboard text and for payloads written by a newer, unknown version.
+ */
+export function parseClipboardPayload(text: string | null | undefined): TClipboardPayload | null {
+  if (!text) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(value)) return null;
+  if (value.kind !== CLIPBOARD_PAYLOAD_KIND || value.version !== CLIPBOARD_PAYLOAD_VERSION) return null;
+  if (!Array.isArray(value.rootIds) || !Array.isArray(value.groups) || !Array.isArray(value.elements)) return null;
+  if (!isRecord(value.bounds)) return null;
+
+  const { x, y, width, height } = value.bounds;
+  if (![x, y, width, height].every((entry) => typeof entry === "number" && Number.isFinite(entry))) return null;
+
+  return value as TClipboardPayload;
+}
+
+/**
+ * Gives every pasted element and group a fresh id and offsets it so the copied
+ * bounds are centered on `center`. Links that point outside the payload are dropped:
+ * parents become the layer, attached text becomes free text, and connector endpoints unbind.
+ */
+export function createPasteSnapshot(
+  payload: TClipboardPayload,
+  args: { center: { x: number; y: number }; createId: () => string; now: number },
+): TClipboardPasteSnapshot {
+  const idMap = new Map<string, string>();
+  payload.groups.forEach((group) => idMap.set(group.id, args.createId()));
+  payload.elements.forEach((element) => idMap.set(element.id, args.createId()));
+
+  const dx = args.center.x - (payload.bounds.x + payload.bounds.width / 2);
+  const dy = args.center.y - (payload.bounds.y + payload.bounds.height / 2);
+  const remapId = (id: string | null | undefined) => (id ? idMap.get(id) ?? null : null);
+
+  const groups = payload.groups.map((group): TGroup => ({
+    ...structuredClone(group),
+    id: idMap.get(group.id)!,
+    parentGroupId: remapId(group.parentGroupId),
+    createdAt: args.now,
+  }));
+
+  const elements = payload.elements.map((element): TElement => {
+    const data = structuredClone(element.data);
+
+    if (data.type === "text") {
+      data.containerId = remapId(data.containerId);
+    }
+
+    if (data.type === "arrow" || data.type === "line") {
+      data.startBinding = data.startBinding && idMap.has(data.startBinding.targetId)
+        ? { ...data.startBinding, targetId: idMap.get(data.startBinding.targetId)! }
+        : null;
+      data.endBinding = data.endBinding && idMap.has(data.endBinding.targetId)
+        ? { ...data.endBinding, targetId: idMap.get(data.endBinding.targetId)! }
+        : null;
+    }
+
+    return {
+      ...structuredClone(element),
+      id: idMap.get(element.id)!,
+      x: element.x + dx,
+      y: element.y + dy,
+      parentGroupId: remapId(element.parentGroupId),
+      bindings: element.bindings
+        .filter((binding) => idMap.has(binding.targetId))
+        .map((binding) => ({ ...binding, targetId: idMap.get(binding.targetId)! })),
+      createdAt: args.now,
+      updatedAt: args.now,
+      data,
+    };
+  });
+
+  return {
+    rootIds: payload.rootIds.map((id) => idMap.get(id)).filter((id): id is string => Boolean(id)),
+    groups,
+    elements,
+  };
+}
@@ -0,0 +1,256 @@
+import type { TElement, TGroup } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import { GroupPlugin } from "../Group/Group.plugin";
+import { expandSelectionsWithAttachedText } from "../Group/Group.helpers";
+import { ImagePlugin } from "../Image/Image.plugin";
+import { getViewportCenter, shouldIgnoreClipboardEvent } from "../Image/Image.helpers";
+import { SelectPlugin } from "../Select/Select.plugin";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+import {
+  CLIPBOARD_MIME_TYPE,
+  createClipboardPayload,
+  createPasteSnapshot,
+  parseClipboardPayload,
+  serializeClipboardPayload,
+  type TClipboardBounds,
+  type TClipboardPasteSnapshot,
+  type TClipboardPayload,
+} from "./Clipboard.payload";
+
+type TClipboardNode = Konva.Group | Konva.Shape;
+
+function isClipboardNode(node: Konva.Node): node is TClipboardNode {
+  return node instanceof Konva.Group || node instanceof Konva.Shape;
+}
+
+function isDescendantOf(node: Konva.Node, ancestor: Konva.Node) {
+  let parent = node.getParent();
+  while (parent) {
+    if (parent === ancestor) return true;
+    parent = parent.getParent();
+  }
+
+  return false;
+}
+
+function collapseCopyRoots(nodes: TClipboardNode[]) {
+  return nodes.filter((node, index) => {
+    return !nodes.some((candidate, candidateIndex) => {
+      if (candidateIndex === index) return false;
+      return isDescendantOf(node, candidate);
+    });
+  });
+}
+
+function findSceneNodeById(context: IPluginContext, id: string) {
+  const node = context.staticForegroundLayer.findOne((candidate: Konva.Node) => {
+    return isClipboardNode(candidate) && candidate.id() === id;
+  });
+
+  return node && isClipboardNode(node) ? node : null;
+}
+
+function getUnionBounds(context: IPluginContext, nodes: TClipboardNode[]): TClipboardBounds {
+  const rects = nodes.map((node) => node.getClientRect({ relativeTo: context.staticForegroundLayer }));
+  const minX = Math.min(...rects.map((rect) => rect.x));
+  const minY = Math.min(...rects.map((rect) => rect.y));
+  const maxX = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const maxY = Math.max(...rects.map((rect) => rect.y + rect.height));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Walks the copied roots top-down so groups always precede their children,
+ * matching the order the scene hydrator mounts them in.
+ */
+function collectClipboardPayload(context: IPluginContext): TClipboardPayload | null {
+  const selection = TransformPlugin.filterSelection(context.state.selection);
+  const roots = collapseCopyRoots(expandSelectionsWithAttachedText(context, selection));
+  if (roots.length === 0) return null;
+
+  const groups: TGroup[] = [];
+  const elements: TElement[] = [];
+  const visitedIds = new Set<string>();
+
+  const visitNode = (node: TClipboardNode) => {
+    if (visitedIds.has(node.id())) return;
+    visitedIds.add(node.id());
+
+    if (node instanceof Konva.Group) {
+      groups.push(context.capabilities.toGroup?.(node) ?? GroupPlugin.toTGroup(node));
+      node.getChildren().forEach((child) => {
+        if (isClipboardNode(child)) visitNode(child);
+      });
+      return;
+    }
+
+    const element = context.capabilities.toElement?.(node);
+    if (element) elements.push(structuredClone(element));
+  };
+
+  roots.forEach((root) => visitNode(root));
+  if (groups.length === 0 && elements.length === 0) return null;
+
+  return createClipboardPayload({
+    sourceCanvasId: context.crdt.docHandle.doc()?.id ?? null,
+    bounds: getUnionBounds(context, roots),
+    rootIds: roots.map((root) => root.id()),
+    groups,
+    elements,
+  });
+}
+
+function readClipboardPayload(event: ClipboardEvent) {
+  const data = event.clipboardData;
+  if (!data) return null;
+
+  return parseClipboardPayload(data.getData(CLIPBOARD_MIME_TYPE)) ?? parseClipboardPayload(data.getData("text/plain"));
+}
+
+function getPasteCenter(context: IPluginContext) {
+  return context.staticForegroundLayer.getRelativePointerPosition() ?? getViewportCenter({ context });
+}
+
+/**
+ * Mounts a paste snapshot, puts its roots in front of the existing layer content
+ * and persists everything. Returns the mounted root nodes.
+ */
+function mountPasteSnapshot(context: IPluginContext, snapshot: TClipboardPasteSnapshot) {
+  const mountedGroups = new Map<string, Konva.Group>();
+
+  snapshot.groups.forEach((group) => {
+    const parent = group.parentGroupId ? mountedGroups.get(group.parentGroupId) : context.staticForegroundLayer;
+    if (!parent) return;
+
+    const node = context.capabilities.createGroupFromTGroup?.(group);
+    if (!node) return;
+
+    parent.add(node);
+    mountedGroups.set(group.id, node);
+  });
+
+  snapshot.elements.forEach((element) => {
+    const parent = element.parentGroupId ? mountedGroups.get(element.parentGroupId) : context.staticForegroundLayer;
+    if (!parent) return;
+
+    const node = context.capabilities.createShapeFromTElement?.(element);
+    if (!node) return;
+
+    parent.add(node);
+  });
+
+  mountedGroups.forEach((group) => context.capabilities.renderOrder?.sortChildren(group));
+
+  const rootNodes = snapshot.rootIds
+    .map((id) => findSceneNodeById(context, id))
+    .filter((node): node is TClipboardNode => node !== null && node.getParent() === context.staticForegroundLayer);
+
+  const orderPatches = context.capabilities.renderOrder?.assignOrderOnInsert({
+    parent: context.staticForegroundLayer,
+    nodes: rootNodes,
+    position: "front",
+  }) ?? [];
+  const zIndexById = new Map(orderPatches.map((patch) => [patch.id, patch.zIndex]));
+
+  snapshot.groups.forEach((group) => {
+    group.zIndex = zIndexById.get(group.id) ?? group.zIndex;
+  });
+  snapshot.elements.forEach((element) => {
+    element.zIndex = zIndexById.get(element.id) ?? element.zIndex;
+  });
+
+  context.crdt.patch({ elements: snapshot.elements, groups: snapshot.groups });
+  context.setState("selection", rootNodes);
+  context.setState("focusedId", rootNodes[rootNodes.length - 1]?.id() ?? null);
+  context.staticForegroundLayer.batchDraw();
+
+  return rootNodes;
+}
+
+/**
+ * cmd/ctrl + c copies the selection as a versioned vibecanvas clipboard payload
+ * cmd/ctrl + x copies and deletes the selection
+ * cmd/ctrl + v pastes a payload at the pointer with fresh ids, also across canvases and tabs
+ */
+export class ClipboardPlugin implements IPlugin {
+  apply(context: IPluginContext): void {
+    const container = context.stage.container();
+
+    const onCopy = (event: ClipboardEvent) => {
+      if (shouldIgnoreClipboardEvent({ context }, event)) return;
+      ClipboardPlugin.writeSelection(context, event);
+    };
+
+    const onCut = (event: ClipboardEvent) => {
+      if (shouldIgnoreClipboardEvent({ context }, event)) return;
+      if (!ClipboardPlugin.writeSelection(context, event)) return;
+      SelectPlugin.deleteSelection(context, context.state.selection);
+    };
+
+    const onPaste = (event: ClipboardEvent) => {
+      if (shouldIgnoreClipboardEvent({ context }, event)) return;
+
+      const payload = readClipboardPayload(event);
+      if (!payload) return;
+
+      event.preventDefault();
+      ClipboardPlugin.paste(context, payload);
+    };
+
+    container.addEventListener("copy", onCopy);
+    container.addEventListener("cut", onCut);
+    container.addEventListener("paste", onPaste);
+    context.hooks.destroy.tap(() => {
+      container.removeEventListener("copy", onCopy);
+      container.removeEventListener("cut", onCut);
+      container.removeEventListener("paste", onPaste);
+    });
+  }
+
+  static collectPayload(context: IPluginContext) {
+    return collectClipboardPayload(context);
+  }
+
+  static writeSelection(context: IPluginContext, event: ClipboardEvent) {
+    if (!event.clipboardData) return false;
+
+    const payload = collectClipboardPayload(context);
+    if (!payload) return false;
+
+    const serialized = serializeClipboardPayload(payload);
+    event.clipboardData.setData(CLIPBOARD_MIME_TYPE, serialized);
+    event.clipboardData.setData("text/plain", serialized);
+    event.preventDefault();
+    return true;
+  }
+
+  static paste(context: IPluginContext, payload: TClipboardPayload, center = getPasteCenter(context)) {
+    const snapshot = createPasteSnapshot(payload, {
+      center,
+      createId: () => crypto.randomUUID(),
+      now: Date.now(),
+    });
+    if (snapshot.rootIds.length === 0) return [];
+
+    const rootNodes = mountPasteSnapshot(context, snapshot);
+    ImagePlugin.retainFilesForElements(context, snapshot.elements);
+
+    context.history.record({
+      label: "paste",
+      undo: () => {
+        const roots = snapshot.rootIds
+          .map((id) => findSceneNodeById(context, id))
+          .filter((node): node is TClipboardNode => node !== null);
+        SelectPlugin.deleteSelection(context, roots, { recordHistory: false });
+      },
+      redo: () => {
+        mountPasteSnapshot(context, structuredClone(snapshot));
+        ImagePlugin.retainFilesForElements(context, snapshot.elements);
+      },
+    });
+
+    return rootNodes;
+  }
+}
@@ -0,0 +1,101 @@
+import { fnRenderCanvasSvg } from "@vibecanvas/canvas-cmds/core/fn.svg-export";
+import type { TCanvasDoc } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type { IPluginContext } from "../shared/interface";
+
+export type TCanvasExportRequest = {
+  ids: string[] | null;
+  format: "svg" | "png";
+  scale: number;
+  background: string | null;
+};
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read image blob"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Inlines uploaded images so the exported SVG stands alone and the PNG canvas is not tainted.
+ */
+async function resolveImageHrefs(doc: TCanvasDoc): Promise<Record<string, string>> {
+  const entries = await Promise.all(Object.values(doc.elements).map(async (element) => {
+    if (element.data.type !== "image" || element.data.base64 || !element.data.url) return null;
+
+    try {
+      const response = await fetch(element.data.url);
+      if (!response.ok) return null;
+      return [element.id, await blobToDataUrl(await response.blob())] as const;
+    } catch {
+      return null;
+    }
+  }));
+
+  return Object.fromEntries(entries.filter((entry) => entry !== null));
+}
+
+function rasterizeSvg(svg: string, size: { width: number; height: number }): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new window.Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = size.width;
+      canvas.height = size.height;
+      const context2d = canvas.getContext("2d");
+      if (!context2d) {
+        reject(new Error("Canvas 2D context is unavailable"));
+        return;
+      }
+
+      context2d.drawImage(image, 0, 0, size.width, size.height);
+      canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error("Failed to encode PNG")), "image/png");
+    };
+    image.onerror = () => reject(new Error("Failed to load exported SVG"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const href = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = href;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(href);
+}
+
+function getExportFileName(doc: TCanvasDoc, request: TCanvasExportRequest) {
+  const baseName = (doc.name ?? "").trim().replace(/[\\/:*?"<>|]+/g, "-") || "canvas";
+  const suffix = request.ids ? "-selection" : "";
+  return `${baseName}${suffix}.${request.format}`;
+}
+
+export function hasExportableElements(context: IPluginContext) {
+  const doc = context.crdt.docHandle.doc();
+  return Boolean(doc && Object.keys(doc.elements).length > 0);
+}
+
+export async function exportCanvasImage(context: IPluginContext, request: TCanvasExportRequest) {
+  const current = context.crdt.docHandle.doc();
+  if (!current) return;
+
+  const doc = structuredClone(current) as TCanvasDoc;
+  const rendered = fnRenderCanvasSvg(doc, {
+    ids: request.ids,
+    scale: request.scale,
+    background: request.background,
+    imageHrefs: await resolveImageHrefs(doc),
+  });
+  if (!rendered) return;
+
+  const blob = request.format === "svg"
+    ? new Blob([rendered.svg], { type: "image/svg+xml" })
+    : await rasterizeSvg(rendered.svg, rendered);
+
+  downloadBlob(blob, getExportFileName(doc, request));
+}
@@ -0,0 +1,48 @@
+import type { TAlignMode, TDistributeAxis } from "@vibecanvas/canvas-cmds/core/fn.align";
+import { fnPlanCanvasLayout, type TLayoutOptions } from "@vibecanvas/canvas-cmds/core/fn.layout";
+import type { TCanvasDoc } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { commitArrangePlan } from "../shared/arrange.shared";
+import type { IPluginContext } from "../shared/interface";
+
+export type TCanvasLayoutRequest = Pick<TLayoutOptions, "algorithm" | "direction">;
+
+export const CANVAS_LAYOUT_MENU_ITEMS: Array<{ label: string; request: TCanvasLayoutRequest }> = [
+  { label: "Arrange in grid", request: { algorithm: "grid" } },
+  { label: "Arrange in row", request: { algorithm: "row" } },
+  { label: "Arrange in column", request: { algorithm: "column" } },
+  { label: "Arrange as tree", request: { algorithm: "tree", direction: "TB" } },
+  { label: "Arrange as layered graph", request: { algorithm: "layered", direction: "LR" } },
+];
+
+export const CANVAS_ALIGN_MENU_ITEMS: Array<{ label: string; mode: TAlignMode }> = [
+  { label: "Align left", mode: "left" },
+  { label: "Align center", mode: "center" },
+  { label: "Align right", mode: "right" },
+  { label: "Align top", mode: "top" },
+  { label: "Align middle", mode: "middle" },
+  { label: "Align bottom", mode: "bottom" },
+];
+
+export const CANVAS_DISTRIBUTE_MENU_ITEMS: Array<{ label: string; axis: TDistributeAxis }> = [
+  { label: "Distribute horizontally", axis: "horizontal" },
+  { label: "Distribute vertically", axis: "vertical" },
+];
+
+/**
+ * Arranges the selected ids with the same planner as `canvas layout`. The move is one CRDT change
+ * and one history entry; bound connectors follow through connector routing.
+ */
+export function arrangeCanvasSelection(context: IPluginContext, ids: string[], request: TCanvasLayoutRequest) {
+  const current = context.crdt.docHandle.doc();
+  if (!current) return false;
+
+  const doc = structuredClone(current) as TCanvasDoc;
+  return commitArrangePlan(context, doc, fnPlanCanvasLayout(doc, ids, request), "layout");
+}
+
+/** Layout needs two or more nodes once attached text and bound connectors are folded into their targets. */
+export function canArrangeSelection(context: IPluginContext, ids: string[]) {
+  const doc = context.crdt.docHandle.doc();
+  if (!doc || ids.length < 2) return false;
+  return fnPlanCanvasLayout(doc, ids, { algorithm: "grid" }).nodes.length > 1;
+}
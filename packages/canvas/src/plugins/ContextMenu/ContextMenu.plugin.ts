@@ -1,3 +1,4 @@
+import { STICKY_COLOR_NAMES } from "@vibecanvas/canvas-cmds/core/fn.sticky";
 import Konva from "konva";
 import { createComponent, createSignal, type Accessor, type Setter } from "solid-js";
 import { render } from "solid-js/web";
@@ -5,6 +6,8 @@ import { CanvasContextMenu, type TCanvasContextMenuItem } from "../../components
 import type { IPlugin, IPluginContext } from "../shared/interface";
 import { GroupPlugin } from "../Group/Group.plugin";
 import { TransformPlugin } from "../Transform/Transform.plugin";
+import { exportCanvasImage, hasExportableElements, type TCanvasExportRequest } from "./ContextMenu.export";
+import { arrangeCanvasSelection, canArrangeSelection, CANVAS_ALIGN_MENU_ITEMS, CANVAS_DISTRIBUTE_MENU_ITEMS, CANVAS_LAYOUT_MENU_ITEMS } from "./ContextMenu.layout";
 
 type TMenuKind = "canvas" | "item" | "selection";
 
@@ -189,8 +192,26 @@ export class ContextMenuPlugin implements IPlugin {
       });
     };
 
+    const addExportItems = (target: string, ids: string[] | null, disabled: boolean) => {
+      const runExport = (request: Omit<TCanvasExportRequest, "ids">) => {
+        void exportCanvasImage(context, { ...request, ids }).catch((error) => {
+          console.warn("[ContextMenuPlugin] Failed to export", error);
+        });
+      };
+
+      addItem(`Export ${target} as SVG`, () => runExport({ format: "svg", scale: 1, background: "#ffffff" }), disabled);
+      addItem(`Export ${target} as PNG`, () => runExport({ format: "png", scale: 1, background: "#ffffff" }), disabled);
+      addItem(`Export ${target} as PNG (2x)`, () => runExport({ format: "png", scale: 2, background: "#ffffff" }), disabled);
+      addItem(`Export ${target} as PNG (transparent)`, () => runExport({ format: "png", scale: 2, background: null }), disabled);
+    };
+
     if (args.kind === "canvas") {
-      addItem("No actions available", () => {}, true);
+      const presentation = context.capabilities.presentation;
+      if (presentation) {
+        addItem("Present", () => presentation.start());
+        addItem("Add view as slide", () => presentation.addViewSlide());
+      }
+      addExportItems("canvas", null, !hasExportableElements(context));
     } else {
       addItem("Bring to front", () => context.capabilities.renderOrder?.bringSelectionToFront(activeSelection), !sameParent || activeSelection.length === 0);
       addItem("Move forward", () => context.capabilities.renderOrder?.moveSelectionUp(activeSelection), !sameParent || activeSelection.length === 0);
@@ -212,6 +233,54 @@ export class ContextMenuPlugin implements IPlugin {
           context.setState("selection", children);
         });
       }
+
+      const frames = context.capabilities.frames;
+      const frame = activeSelection.length === 1 ? activeSelection[0] : null;
+      if (frames && frame instanceof Konva.Shape && frames.isFrameNode(frame)) {
+        const isClipping = frames.isClippingChildren(frame);
+        addItem("Rename frame", () => frames.editTitle(frame));
+        addItem(isClipping ? "Stop clipping contents" : "Clip contents", () => frames.setClipChildren(frame, !isClipping));
+        const presentation = context.capabilities.presentation;
+        if (presentation) addItem("Add frame as slide", () => presentation.addFrameSlide(frame.id()));
+      }
+
+      const stickies = context.capabilities.stickies;
+      const stickyNodes = stickies
+        ? activeSelection.filter((node): node is Konva.Shape => node instanceof Konva.Shape && stickies.isStickyNode(node))
+        : [];
+      if (stickies && stickyNodes.length > 0 && stickyNodes.length === activeSelection.length) {
+        if (stickyNodes.length === 1) addItem("Edit note", () => stickies.edit(stickyNodes[0]));
+        STICKY_COLOR_NAMES.forEach((color) => {
+          const label = `Color: ${color[0].toUpperCase()}${color.slice(1)}`;
+          addItem(label, () => stickies.setColor(stickyNodes, color), stickyNodes.every((node) => stickies.getColor(node) === color));
+        });
+        const isGrowing = stickyNodes.every((node) => stickies.getAutoSize(node) === "grow");
+        addItem(isGrowing ? "Shrink text to fit" : "Grow to fit text", () => stickies.setAutoSize(stickyNodes, isGrowing ? "fit" : "grow"));
+      }
+
+      const selectionIds = activeSelection.map((node) => node.id());
+      if (activeSelection.length > 1) {
+        const arrangeDisabled = !canArrangeSelection(context, selectionIds);
+        CANVAS_LAYOUT_MENU_ITEMS.forEach(({ label, request }) => {
+          addItem(label, () => arrangeCanvasSelection(context, selectionIds, request), arrangeDisabled);
+        });
+
+        const align = context.capabilities.align;
+        if (align) {
+          const alignDisabled = !align.canAlign(activeSelection);
+          CANVAS_ALIGN_MENU_ITEMS.forEach(({ label, mode }) => {
+            addItem(label, () => align.alignSelection(activeSelection, mode), alignDisabled);
+          });
+        }
+        if (align && activeSelection.length > 2) {
+          const distributeDisabled = !align.canDistribute(activeSelection);
+          CANVAS_DISTRIBUTE_MENU_ITEMS.forEach(({ label, axis }) => {
+            addItem(label, () => align.distributeSelection(activeSelection, axis), distributeDisabled);
+          });
+        }
+      }
+
+      addExportItems("selection", selectionIds, activeSelection.length === 0);
     }
 
     this.#setItems(items);
@@ -0,0 +1,150 @@
+import { throttle } from "@solid-primitives/scheduled";
+import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import { CustomEvents } from "../../custom-events";
+import { CanvasMode } from "../../services/canvas/enum";
+import type { IPluginContext } from "../shared/interface";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+import { getFrameMemberNodes, refreshFrameClipping } from "./Frame.members";
+import { FRAME_TITLE_HEIGHT, toTElement } from "./Frame.shared";
+
+function getNodeElements(context: IPluginContext, node: Konva.Group | Konva.Shape): TElement[] {
+  const shapes = node instanceof Konva.Group
+    ? node.find((child: Konva.Node) => child instanceof Konva.Shape) as Konva.Shape[]
+    : context.capabilities.getReorderBundle?.(node).filter((candidate) => candidate instanceof Konva.Shape) as Konva.Shape[] ?? [node];
+  return structuredClone(shapes
+    .map((shape) => context.capabilities.toElement?.(shape))
+    .filter(Boolean) as TElement[]);
+}
+
+function applyElements(context: IPluginContext, elements: TElement[]) {
+  const refreshedGroups = new Set<string>();
+  elements.forEach((element) => {
+    const node = context.capabilities.updateShapeFromTElement?.(element);
+    let parent = node?.getParent();
+    while (parent instanceof Konva.Group) {
+      if (!refreshedGroups.has(parent.id())) {
+        parent.fire("transform");
+        refreshedGroups.add(parent.id());
+      }
+      parent = parent.getParent();
+    }
+  });
+  if (elements.length > 0) context.crdt.patch({ elements, groups: [] });
+}
+
+/**
+ * Frame drags carry the elements the frame adopted along with the rest of the selection, and
+ * record them all as one history step.
+ */
+export function setupFrameListeners(
+  runtime: { context: IPluginContext; editTitle: (node: Konva.Shape) => void },
+  payload: { node: Konva.Shape },
+) {
+  const { context } = runtime;
+  const { node } = payload;
+  const startPositions = new Map<Konva.Group | Konva.Shape, { x: number; y: number }>();
+  const originalElements = new Map<Konva.Group | Konva.Shape, TElement[]>();
+
+  const throttledPatch = throttle((element: TElement) => {
+    context.crdt.patch({ elements: [element], groups: [] });
+  }, 100);
+
+  node.on("pointerclick", (event) => {
+    if (context.state.mode !== CanvasMode.SELECT) return;
+    context.hooks.customEvent.call(CustomEvents.ELEMENT_POINTERCLICK, event);
+  });
+
+  node.on("pointerdown dragstart", (event) => {
+    if (context.state.mode !== CanvasMode.SELECT) {
+      node.stopDrag();
+      return;
+    }
+
+    if (event.type === "pointerdown") {
+      const earlyExit = context.hooks.customEvent.call(CustomEvents.ELEMENT_POINTERDOWN, event);
+      if (earlyExit) event.cancelBubble = true;
+    }
+  });
+
+  node.on("pointerdblclick", (event) => {
+    if (context.state.mode !== CanvasMode.SELECT) return;
+    const earlyExit = context.hooks.customEvent.call(CustomEvents.ELEMENT_POINTERDBLCLICK, event);
+    if (earlyExit) {
+      event.cancelBubble = true;
+      return;
+    }
+
+    const pointer = node.getRelativePointerPosition();
+    if (pointer && pointer.y < 0 && pointer.y >= -FRAME_TITLE_HEIGHT) {
+      event.cancelBubble = true;
+      runtime.editTitle(node);
+    }
+  });
+
+  node.on("dragstart", () => {
+    startPositions.clear();
+    originalElements.clear();
+
+    const selected = TransformPlugin.filterSelection(context.state.selection);
+    const movedNodes = new Set<Konva.Group | Konva.Shape>([node, ...selected]);
+    getFrameMemberNodes(context, node.id()).forEach((member) => movedNodes.add(member));
+    // A node inside another moved group already travels with that group.
+    [...movedNodes].forEach((moved) => {
+      if ([...movedNodes].some((other) => other !== moved && other instanceof Konva.Group && other.isAncestorOf(moved))) {
+        movedNodes.delete(moved);
+      }
+    });
+
+    movedNodes.forEach((moved) => {
+      startPositions.set(moved, { ...moved.absolutePosition() });
+      originalElements.set(moved, moved === node ? [toTElement(node)] : getNodeElements(context, moved));
+    });
+  });
+
+  node.on("dragmove", () => {
+    throttledPatch(toTElement(node));
+
+    const start = startPositions.get(node);
+    if (!start) return;
+
+    const current = node.absolutePosition();
+    const dx = current.x - start.x;
+    const dy = current.y - start.y;
+    startPositions.forEach((otherStart, other) => {
+      if (other === node || other.isDragging()) return;
+      other.absolutePosition({ x: otherStart.x + dx, y: otherStart.y + dy });
+      if (other instanceof Konva.Shape && context.capabilities.hostedWidgets?.isHostedNode(other)) {
+        context.capabilities.hostedWidgets.syncNode(other);
+      }
+    });
+  });
+
+  node.on("dragend", () => {
+    const beforeElements = [...originalElements.values()].flat();
+    const afterElements = [...originalElements.keys()]
+      .flatMap((moved) => moved === node ? [structuredClone(toTElement(node))] : getNodeElements(context, moved));
+    startPositions.clear();
+    originalElements.clear();
+
+    if (afterElements.length > 0) context.crdt.patch({ elements: afterElements, groups: [] });
+    refreshFrameClipping(context);
+
+    const frameBefore = beforeElements.find((element) => element.id === node.id());
+    const frameAfter = afterElements.find((element) => element.id === node.id());
+    if (!frameBefore || !frameAfter) return;
+    if (frameBefore.x === frameAfter.x && frameBefore.y === frameAfter.y) return;
+
+    context.history.record({
+      label: "drag-frame",
+      undo() {
+        applyElements(context, beforeElements);
+        refreshFrameClipping(context);
+      },
+      redo() {
+        applyElements(context, afterElements);
+        refreshFrameClipping(context);
+      },
+    });
+  });
+}
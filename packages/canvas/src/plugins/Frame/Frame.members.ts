@@ -0,0 +1,200 @@
+import type { TCanvasDoc } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import type { IPluginContext } from "../shared/interface";
+import { FRAME_CLIP_CHILDREN_ATTR, containsPoint, getWorldRect, isFrameNode } from "./Frame.shared";
+
+export type TFrameMembershipChange = {
+  elementId: string;
+  before: string | null;
+  after: string | null;
+};
+
+type TClippedShape = {
+  frame: Konva.Shape;
+  originalSceneFunc: unknown;
+};
+
+const clippedShapes = new WeakMap<Konva.Shape, TClippedShape>();
+
+export function getFrameNodes(context: IPluginContext): Konva.Shape[] {
+  return context.staticForegroundLayer.find((node: Konva.Node) => isFrameNode(node)) as Konva.Shape[];
+}
+
+function getTopLevelNode(context: IPluginContext, node: Konva.Node): Konva.Group | Konva.Shape | null {
+  let current: Konva.Node | null = node;
+  while (current && current.getParent() !== context.staticForegroundLayer) {
+    current = current.getParent();
+  }
+  return current instanceof Konva.Group || current instanceof Konva.Shape ? current : null;
+}
+
+function getMembershipShapes(context: IPluginContext, node: Konva.Group | Konva.Shape): Konva.Shape[] {
+  if (node instanceof Konva.Group) {
+    return node.find((child: Konva.Node) => child instanceof Konva.Shape) as Konva.Shape[];
+  }
+
+  return (context.capabilities.getReorderBundle?.(node) ?? [node])
+    .filter((candidate): candidate is Konva.Shape => candidate instanceof Konva.Shape);
+}
+
+/**
+ * The frame a top-level node belongs to: the smallest frame whose bounds hold the node's center.
+ * Frames never belong to other frames.
+ */
+function findOwningFrame(context: IPluginContext, node: Konva.Group | Konva.Shape, frames: Konva.Shape[]) {
+  if (isFrameNode(node)) return null;
+
+  const rect = getWorldRect(context, node);
+  const center = { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+  let owner: Konva.Shape | null = null;
+  let ownerArea = Infinity;
+
+  frames.forEach((frame) => {
+    const frameRect = getWorldRect(context, frame);
+    if (!containsPoint(frameRect, center)) return;
+
+    const area = frameRect.width * frameRect.height;
+    if (area >= ownerArea) return;
+    owner = frame;
+    ownerArea = area;
+  });
+
+  return owner as Konva.Shape | null;
+}
+
+/**
+ * Works out which frame each of `nodes` sits in now and returns the element frame ids that differ
+ * from the doc. Grouped nodes are judged by their top-level group, so a group is adopted as a whole.
+ */
+export function collectFrameMembershipChanges(context: IPluginContext, nodes: Konva.Node[]): TFrameMembershipChange[] {
+  const doc = context.crdt.docHandle.doc();
+  const frames = getFrameNodes(context);
+  const topLevelNodes = new Set<Konva.Group | Konva.Shape>();
+  nodes.forEach((node) => {
+    const topLevelNode = getTopLevelNode(context, node);
+    if (topLevelNode) topLevelNodes.add(topLevelNode);
+  });
+
+  const changes = new Map<string, TFrameMembershipChange>();
+  topLevelNodes.forEach((node) => {
+    if (isFrameNode(node)) return;
+
+    const after = findOwningFrame(context, node, frames)?.id() ?? null;
+    getMembershipShapes(context, node).forEach((shape) => {
+      const element = doc.elements[shape.id()];
+      if (!element) return;
+
+      const before = element.frameId ?? null;
+      if (before === after) return;
+      changes.set(element.id, { elementId: element.id, before, after });
+    });
+  });
+
+  return [...changes.values()];
+}
+
+export function applyFrameMembershipChanges(
+  context: IPluginContext,
+  payload: { changes: TFrameMembershipChange[]; side: "before" | "after" },
+) {
+  const doc = context.crdt.docHandle.doc();
+  const elements = payload.changes
+    .filter((change) => doc.elements[change.elementId])
+    .map((change) => ({ id: change.elementId, frameId: change[payload.side] }));
+  if (elements.length === 0) return;
+
+  context.crdt.patch({ elements, groups: [] });
+}
+
+/** Ids of the elements adopted by `frameId`. */
+export function getFrameMemberIds(doc: TCanvasDoc, frameId: string): string[] {
+  return Object.values(doc.elements)
+    .filter((element) => element.frameId === frameId)
+    .map((element) => element.id);
+}
+
+/**
+ * Nodes to move along with a frame: each adopted element's shape, or its outermost group when the
+ * whole group is adopted by the frame.
+ */
+export function getFrameMemberNodes(context: IPluginContext, frameId: string): Array<Konva.Group | Konva.Shape> {
+  const doc = context.crdt.docHandle.doc();
+  const memberIds = new Set(getFrameMemberIds(doc, frameId));
+  if (memberIds.size === 0) return [];
+
+  const nodes = new Set<Konva.Group | Konva.Shape>();
+  const shapes = context.staticForegroundLayer.find((node: Konva.Node) => node instanceof Konva.Shape && memberIds.has(node.id())) as Konva.Shape[];
+  shapes.forEach((shape) => {
+    const topLevelNode = getTopLevelNode(context, shape);
+    const isWholeGroupAdopted = topLevelNode instanceof Konva.Group
+      && (topLevelNode.find((child: Konva.Node) => child instanceof Konva.Shape) as Konva.Shape[]).every((child) => memberIds.has(child.id()));
+    nodes.add(isWholeGroupAdopted ? topLevelNode : shape);
+  });
+
+  return [...nodes];
+}
+
+function clipToFrame(context: Konva.Context, shape: Konva.Shape, frame: Konva.Shape) {
+  const toShape = shape.getAbsoluteTransform().copy().invert();
+  const fromFrame = frame.getAbsoluteTransform();
+  const corners = [
+    { x: 0, y: 0 },
+    { x: frame.width(), y: 0 },
+    { x: frame.width(), y: frame.height() },
+    { x: 0, y: frame.height() },
+  ].map((corner) => toShape.point(fromFrame.point(corner)));
+
+  context.beginPath();
+  context.moveTo(corners[0].x, corners[0].y);
+  corners.slice(1).forEach((corner) => context.lineTo(corner.x, corner.y));
+  context.closePath();
+  context.clip();
+}
+
+function setShapeClip(shape: Konva.Shape, frame: Konva.Shape | null) {
+  const current = clippedShapes.get(shape);
+  if ((current?.frame ?? null) === frame) return;
+
+  const originalSceneFunc = current ? current.originalSceneFunc : shape.getAttr("sceneFunc");
+  if (!frame) {
+    shape.setAttr("sceneFunc", originalSceneFunc);
+    clippedShapes.delete(shape);
+    return;
+  }
+
+  const draw = (originalSceneFunc ?? shape.getSceneFunc()) as (context: Konva.Context, shape: Konva.Shape) => void;
+  shape.sceneFunc((context, drawnShape) => {
+    // Clones copy attrs, sceneFunc included; only the adopted shape itself is clipped.
+    if (drawnShape !== shape || !frame.getLayer()) {
+      draw.call(drawnShape, context, drawnShape);
+      return;
+    }
+
+    context.save();
+    clipToFrame(context, drawnShape, frame);
+    draw.call(drawnShape, context, drawnShape);
+    context.restore();
+  });
+  clippedShapes.set(shape, { frame, originalSceneFunc });
+}
+
+/**
+ * Clips the shapes adopted by frames with `clipChildren` on to their frame, and releases the rest.
+ * DOM-hosted widgets draw outside the canvas and are not clipped.
+ */
+export function refreshFrameClipping(context: IPluginContext) {
+  const doc = context.crdt.docHandle.doc();
+  const clippingFrames = new Map(getFrameNodes(context)
+    .filter((frame) => frame.getAttr(FRAME_CLIP_CHILDREN_ATTR) === true)
+    .map((frame) => [frame.id(), frame]));
+
+  const shapes = context.staticForegroundLayer.find((node: Konva.Node) => node instanceof Konva.Shape) as Konva.Shape[];
+  shapes.forEach((shape) => {
+    if (context.capabilities.hostedWidgets?.isHostedNode(shape)) return;
+
+    const frameId = doc.elements[shape.id()]?.frameId ?? null;
+    setShapeClip(shape, frameId ? clippingFrames.get(frameId) ?? null : null);
+  });
+
+  context.staticForegroundLayer.batchDraw();
+}
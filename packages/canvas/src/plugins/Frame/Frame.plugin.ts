@@ -0,0 +1,377 @@
+import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import { createComponent, createSignal, type Accessor, type Setter } from "solid-js";
+import { render } from "solid-js/web";
+import { CanvasFrames, type TCanvasFrameItem } from "../../components/CanvasFrames";
+import type { TTool } from "../../components/FloatingCanvasToolbar/toolbar.types";
+import { CustomEvents } from "../../custom-events";
+import { CanvasMode } from "../../services/canvas/enum";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { setNodeZIndex } from "../shared/render-order.shared";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+import { setupFrameListeners } from "./Frame.listeners";
+import {
+  applyFrameMembershipChanges,
+  collectFrameMembershipChanges,
+  getFrameNodes,
+  refreshFrameClipping,
+  type TFrameMembershipChange,
+} from "./Frame.members";
+import {
+  FRAME_CLIP_CHILDREN_ATTR,
+  FRAME_TITLE_HEIGHT,
+  containsPoint,
+  createFrameElement,
+  createFrameNode,
+  getWorldRect,
+  isFrameNode,
+  toTElement,
+  updateFrameNodeFromElement,
+} from "./Frame.shared";
+import { editFrameTitle } from "./Frame.title";
+
+const MIN_FRAME_SIZE = 8;
+
+/**
+ * Frames are titled containers. Elements dropped inside one are adopted by it (their `frameId`),
+ * move with it, and can be clipped to its bounds. A list in the bottom-left corner jumps the camera
+ * to any frame.
+ */
+export class FramePlugin implements IPlugin {
+  #activeTool: TTool = "select";
+  #previewFrame: Konva.Shape | null = null;
+  #previewOrigin: { x: number; y: number } | null = null;
+  #frames: Accessor<TCanvasFrameItem[]>;
+  #setFrames: Setter<TCanvasFrameItem[]>;
+  #refreshQueued = false;
+  #mountElement: HTMLDivElement | null = null;
+  #disposeRender: (() => void) | null = null;
+
+  constructor() {
+    const [frames, setFrames] = createSignal<TCanvasFrameItem[]>([]);
+    this.#frames = frames;
+    this.#setFrames = setFrames;
+  }
+
+  apply(context: IPluginContext): void {
+    this.setupToolState(context);
+    this.setupPreview(context);
+    this.setupAdoption(context);
+    this.setupNavigator(context);
+    FramePlugin.setupCapabilities(context);
+  }
+
+  private setupToolState(context: IPluginContext) {
+    context.hooks.customEvent.tap((event, payload) => {
+      if (event !== CustomEvents.TOOL_SELECT) return false;
+      if (payload !== this.#activeTool && this.#previewFrame) {
+        this.cancelPreview(context);
+      }
+      this.#activeTool = payload as TTool;
+      return false;
+    });
+  }
+
+  private setupPreview(context: IPluginContext) {
+    context.hooks.keydown.tap((event) => {
+      if (event.key !== "Escape") return;
+      if (context.state.mode !== CanvasMode.DRAW_CREATE) return;
+      if (!this.#previewFrame) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      this.cancelPreview(context);
+    });
+
+    context.hooks.pointerDown.tap(() => {
+      if (context.state.mode !== CanvasMode.DRAW_CREATE) return;
+      if (this.#activeTool !== "frame") return;
+      const pointer = context.dynamicLayer.getRelativePointerPosition();
+      if (!pointer) return;
+
+      this.#previewOrigin = { x: pointer.x, y: pointer.y };
+      this.#previewFrame = createFrameNode(createFrameElement({ id: crypto.randomUUID(), x: pointer.x, y: pointer.y, w: 0, h: 0 }));
+      context.dynamicLayer.add(this.#previewFrame);
+    });
+
+    context.hooks.pointerMove.tap((event) => {
+      if (context.state.mode !== CanvasMode.DRAW_CREATE) return;
+      if (!this.#previewFrame || !this.#previewOrigin) return;
+      const pointer = context.dynamicLayer.getRelativePointerPosition();
+      if (!pointer) return;
+
+      const deltaX = pointer.x - this.#previewOrigin.x;
+      const deltaY = pointer.y - this.#previewOrigin.y;
+      const preserveRatio = event.evt.shiftKey;
+      const size = Math.max(Math.abs(deltaX), Math.abs(deltaY));
+      const width = preserveRatio ? size : Math.abs(deltaX);
+      const height = preserveRatio ? size : Math.abs(deltaY);
+      this.#previewFrame.setAttrs({
+        x: deltaX < 0 ? this.#previewOrigin.x - width : this.#previewOrigin.x,
+        y: deltaY < 0 ? this.#previewOrigin.y - height : this.#previewOrigin.y,
+        width,
+        height,
+      });
+    });
+
+    context.hooks.pointerUp.tap(() => {
+      if (context.state.mode !== CanvasMode.DRAW_CREATE) return;
+      if (!this.#previewFrame) return;
+      const preview = this.#previewFrame;
+      const bounds = { x: preview.x(), y: preview.y(), w: preview.width(), h: preview.height() };
+      this.cancelPreview(context);
+      if (bounds.w < MIN_FRAME_SIZE || bounds.h < MIN_FRAME_SIZE) return;
+
+      this.insertFrame(context, createFrameElement({ id: crypto.randomUUID(), ...bounds }));
+    });
+
+    context.hooks.pointerCancel.tap(() => {
+      if (context.state.mode !== CanvasMode.DRAW_CREATE) return;
+      if (!this.#previewFrame) return;
+      this.cancelPreview(context);
+    });
+
+    context.hooks.destroy.tap(() => {
+      this.#previewFrame?.destroy();
+      this.#previewFrame = null;
+      this.#previewOrigin = null;
+    });
+  }
+
+  private cancelPreview(context: IPluginContext) {
+    this.#previewFrame?.destroy();
+    this.#previewFrame = null;
+    this.#previewOrigin = null;
+    context.setState("mode", CanvasMode.SELECT);
+    context.hooks.customEvent.call(CustomEvents.TOOL_SELECT, "select");
+  }
+
+  private insertFrame(context: IPluginContext, element: TElement) {
+    const mount = () => {
+      const node = FramePlugin.createFrameNode(context, element);
+      context.staticForegroundLayer.add(node);
+      return node;
+    };
+
+    const node = mount();
+    context.capabilities.renderOrder?.assignOrderOnInsert({
+      parent: context.staticForegroundLayer,
+      nodes: [node],
+      position: "back",
+    });
+    const insertedElement = toTElement(node);
+    context.crdt.patch({ elements: [insertedElement], groups: [] });
+
+    // A new frame adopts whatever already sits inside it.
+    const frameRect = getWorldRect(context, node);
+    const covered = context.staticForegroundLayer.getChildren((child) => {
+      if (child === node || isFrameNode(child)) return false;
+      const rect = getWorldRect(context, child);
+      return containsPoint(frameRect, { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+    });
+    const changes = collectFrameMembershipChanges(context, covered);
+    applyFrameMembershipChanges(context, { changes, side: "after" });
+    refreshFrameClipping(context);
+    context.setState("selection", [node]);
+
+    let currentNode = node;
+    context.history.record({
+      label: "insert-frame",
+      undo() {
+        context.setState("selection", []);
+        applyFrameMembershipChanges(context, { changes, side: "before" });
+        currentNode.destroy();
+        context.crdt.deleteById({ elementIds: [insertedElement.id] });
+        refreshFrameClipping(context);
+      },
+      redo() {
+        currentNode = mount();
+        setNodeZIndex(currentNode, insertedElement.zIndex);
+        context.capabilities.renderOrder?.sortChildren(context.staticForegroundLayer);
+        context.crdt.patch({ elements: [insertedElement], groups: [] });
+        applyFrameMembershipChanges(context, { changes, side: "after" });
+        refreshFrameClipping(context);
+        context.setState("selection", [currentNode]);
+      },
+    });
+  }
+
+  /**
+   * Re-homes dropped nodes: after any drag in the scene, each moved top-level node belongs to the
+   * smallest frame holding its center, or to none.
+   */
+  private setupAdoption(context: IPluginContext) {
+    context.hooks.init.tap(() => {
+      context.staticForegroundLayer.on("dragend.vcFrame", (event) => {
+        if (context.state.mode !== CanvasMode.SELECT) return;
+        if (!(event.target instanceof Konva.Group || event.target instanceof Konva.Shape)) return;
+
+        const moved = [event.target, ...TransformPlugin.filterSelection(context.state.selection)];
+        const changes = collectFrameMembershipChanges(context, moved);
+        if (changes.length === 0) return;
+
+        FramePlugin.recordMembershipChanges(context, changes);
+      });
+    });
+
+    context.hooks.destroy.tap(() => {
+      context.staticForegroundLayer.off("dragend.vcFrame");
+    });
+  }
+
+  private setupNavigator(context: IPluginContext) {
+    const onDocChange = () => this.queueRefresh(context);
+
+    context.hooks.init.tap(() => {
+      const mountElement = document.createElement("div");
+      mountElement.className = "absolute bottom-3 left-3 pointer-events-none z-50";
+      context.stage.container().appendChild(mountElement);
+      this.#disposeRender = render(
+        () => createComponent(CanvasFrames, {
+          frames: this.#frames,
+          onJump: (id) => FramePlugin.jumpToFrame(context, id),
+        }),
+        mountElement,
+      );
+      this.#mountElement = mountElement;
+    });
+
+    context.hooks.initAsync.tapPromise(async () => {
+      context.crdt.docHandle.on("change", onDocChange);
+      this.queueRefresh(context);
+    });
+
+    context.hooks.customEvent.tap((event, payload) => {
+      if (event !== CustomEvents.PRESENTATION) return false;
+      if (this.#mountElement) this.#mountElement.hidden = payload;
+      return false;
+    });
+
+    context.hooks.destroy.tap(() => {
+      context.crdt.docHandle.off("change", onDocChange);
+      this.#disposeRender?.();
+      this.#mountElement?.remove();
+      this.#disposeRender = null;
+      this.#mountElement = null;
+    });
+  }
+
+  /** Runs after the scene hydrator had its turn with the same doc change. */
+  private queueRefresh(context: IPluginContext) {
+    if (this.#refreshQueued) return;
+    this.#refreshQueued = true;
+    queueMicrotask(() => {
+      this.#refreshQueued = false;
+      refreshFrameClipping(context);
+      this.#setFrames(FramePlugin.listFrames(context));
+    });
+  }
+
+  /** Frames in reading order: top to bottom, then left to right. */
+  static listFrames(context: IPluginContext): TCanvasFrameItem[] {
+    return Object.values(context.crdt.docHandle.doc().elements)
+      .filter((element) => element.data.type === "frame")
+      .sort((a, b) => a.y - b.y || a.x - b.x)
+      .map((element) => ({ id: element.id, title: element.data.type === "frame" ? element.data.title : "" }));
+  }
+
+  /** World bounds of a frame including its title bar, or null when the frame is not on the canvas. */
+  static getFrameBounds(context: IPluginContext, id: string) {
+    const node = getFrameNodes(context).find((candidate) => candidate.id() === id);
+    if (!node) return null;
+
+    const rect = getWorldRect(context, node);
+    return { x: rect.x, y: rect.y - FRAME_TITLE_HEIGHT, width: rect.width, height: rect.height + FRAME_TITLE_HEIGHT };
+  }
+
+  static jumpToFrame(context: IPluginContext, id: string) {
+    const node = getFrameNodes(context).find((candidate) => candidate.id() === id);
+    const bounds = FramePlugin.getFrameBounds(context, id);
+    if (!node || !bounds) return;
+
+    context.camera.fitBounds(bounds, { width: context.stage.width(), height: context.stage.height() });
+    context.hooks.cameraChange.call();
+    context.setState("selection", [node]);
+  }
+
+  static setClipChildren(context: IPluginContext, node: Konva.Shape, clipChildren: boolean) {
+    const beforeElement = toTElement(node);
+    node.setAttr(FRAME_CLIP_CHILDREN_ATTR, clipChildren);
+    const afterElement = toTElement(node);
+    context.crdt.patch({ elements: [afterElement], groups: [] });
+    refreshFrameClipping(context);
+
+    context.history.record({
+      label: clipChildren ? "clip-frame" : "unclip-frame",
+      undo() {
+        updateFrameNodeFromElement(node, beforeElement);
+        context.crdt.patch({ elements: [beforeElement], groups: [] });
+        refreshFrameClipping(context);
+      },
+      redo() {
+        updateFrameNodeFromElement(node, afterElement);
+        context.crdt.patch({ elements: [afterElement], groups: [] });
+        refreshFrameClipping(context);
+      },
+    });
+  }
+
+  private static recordMembershipChanges(context: IPluginContext, changes: TFrameMembershipChange[]) {
+    applyFrameMembershipChanges(context, { changes, side: "after" });
+    refreshFrameClipping(context);
+    context.history.record({
+      label: "adopt-frame",
+      undo() {
+        applyFrameMembershipChanges(context, { changes, side: "before" });
+        refreshFrameClipping(context);
+      },
+      redo() {
+        applyFrameMembershipChanges(context, { changes, side: "after" });
+        refreshFrameClipping(context);
+      },
+    });
+  }
+
+  static createFrameNode(context: IPluginContext, element: TElement) {
+    const node = createFrameNode(element);
+    setupFrameListeners({ context, editTitle: (frame) => editFrameTitle(context, frame) }, { node });
+    node.setDraggable(true);
+    return node;
+  }
+
+  private static setupCapabilities(context: IPluginContext) {
+    const previousCreate = context.capabilities.createShapeFromTElement;
+    context.capabilities.createShapeFromTElement = (element) => {
+      if (element.data.type !== "frame") return previousCreate?.(element) ?? null;
+      return FramePlugin.createFrameNode(context, element);
+    };
+
+    const previousToElement = context.capabilities.toElement;
+    context.capabilities.toElement = (node) => {
+      if (isFrameNode(node)) return toTElement(node);
+      return previousToElement?.(node) ?? null;
+    };
+
+    const previousUpdate = context.capabilities.updateShapeFromTElement;
+    context.capabilities.updateShapeFromTElement = (element) => {
+      if (element.data.type !== "frame") return previousUpdate?.(element) ?? null;
+
+      const node = context.staticForegroundLayer.findOne((candidate: Konva.Node) => {
+        return isFrameNode(candidate) && candidate.id() === element.id;
+      });
+      if (!isFrameNode(node)) return null;
+
+      updateFrameNodeFromElement(node, element);
+      return node;
+    };
+
+    context.capabilities.frames = {
+      isFrameNode,
+      isClippingChildren: (node) => node.getAttr(FRAME_CLIP_CHILDREN_ATTR) === true,
+      editTitle: (node) => editFrameTitle(context, node),
+      setClipChildren: (node, clipChildren) => FramePlugin.setClipChildren(context, node, clipChildren),
+      list: () => FramePlugin.listFrames(context),
+      getBounds: (id) => FramePlugin.getFrameBounds(context, id),
+    };
+  }
+}
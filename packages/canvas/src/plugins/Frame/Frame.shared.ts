@@ -0,0 +1,176 @@
+import type { TElement, TElementStyle, TFrameData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import { getWorldPosition, setWorldPosition } from "../shared/node-space";
+import { getNodeZIndex, setNodeZIndex } from "../shared/render-order.shared";
+
+export const FRAME_NODE_ATTR = "vcFrame";
+export const FRAME_TITLE_ATTR = "vcFrameTitle";
+export const FRAME_CLIP_CHILDREN_ATTR = "vcFrameClipChildren";
+export const FRAME_CREATED_AT_ATTR = "vcElementCreatedAt";
+
+export const FRAME_TITLE_HEIGHT = 24;
+export const FRAME_TITLE_FONT_SIZE = 12;
+export const FRAME_TITLE_COLOR = "#71717a";
+export const FRAME_DEFAULT_TITLE = "Frame";
+export const FRAME_DEFAULT_STYLE = {
+  backgroundColor: "#ffffff",
+  strokeColor: "#d4d4d8",
+  strokeWidth: 1,
+} satisfies TElementStyle;
+
+export function isFrameNode(node: Konva.Node | null | undefined): node is Konva.Shape {
+  return node instanceof Konva.Shape && node.getAttr(FRAME_NODE_ATTR) === true;
+}
+
+export function getFrameTitle(node: Konva.Shape): string {
+  return (node.getAttr(FRAME_TITLE_ATTR) as string | undefined) ?? "";
+}
+
+/**
+ * Draws the body like a rect and the title just above its top-left corner. Only the title bar and
+ * the border are hit targets, so pointer gestures inside the body reach the stage (marquee) or the
+ * elements on top of it instead of grabbing the frame.
+ */
+function drawFrame(context: Konva.Context, shape: Konva.Shape) {
+  context.beginPath();
+  context.rect(0, 0, shape.width(), shape.height());
+  context.closePath();
+  context.fillStrokeShape(shape);
+
+  const title = getFrameTitle(shape);
+  if (!title) return;
+  context.setAttr("font", `${FRAME_TITLE_FONT_SIZE}px sans-serif`);
+  context.setAttr("fillStyle", FRAME_TITLE_COLOR);
+  context.setAttr("textBaseline", "middle");
+  context.fillText(title, 0, -FRAME_TITLE_HEIGHT / 2);
+}
+
+function hitFrame(context: Konva.Context, shape: Konva.Shape) {
+  context.beginPath();
+  context.rect(0, -FRAME_TITLE_HEIGHT, shape.width(), FRAME_TITLE_HEIGHT);
+  context.closePath();
+  context.fillShape(shape);
+
+  context.beginPath();
+  context.rect(0, 0, shape.width(), shape.height());
+  context.closePath();
+  context.strokeShape(shape);
+}
+
+function syncNodeMetadata(node: Konva.Shape, element: TElement) {
+  const data = element.data as TFrameData;
+  node.setAttr(FRAME_NODE_ATTR, true);
+  node.setAttr(FRAME_TITLE_ATTR, data.title);
+  node.setAttr(FRAME_CLIP_CHILDREN_ATTR, data.clipChildren);
+  node.setAttr(FRAME_CREATED_AT_ATTR, element.createdAt);
+}
+
+export function createFrameNode(element: TElement): Konva.Shape {
+  const data = element.data as TFrameData;
+  const node = new Konva.Shape({
+    id: element.id,
+    x: element.x,
+    y: element.y,
+    rotation: element.rotation,
+    width: data.w,
+    height: data.h,
+    fill: element.style.backgroundColor ?? FRAME_DEFAULT_STYLE.backgroundColor,
+    stroke: element.style.strokeColor ?? FRAME_DEFAULT_STYLE.strokeColor,
+    strokeWidth: element.style.strokeWidth ?? FRAME_DEFAULT_STYLE.strokeWidth,
+    strokeScaleEnabled: false,
+    hitStrokeWidth: 12,
+    opacity: element.style.opacity ?? 1,
+    draggable: false,
+    sceneFunc: drawFrame,
+    hitFunc: hitFrame,
+  });
+
+  syncNodeMetadata(node, element);
+  setNodeZIndex(node, element.zIndex);
+  return node;
+}
+
+export function updateFrameNodeFromElement(node: Konva.Shape, element: TElement) {
+  const data = element.data as TFrameData;
+  setWorldPosition(node, { x: element.x, y: element.y });
+  if (node.getAbsoluteRotation() !== element.rotation) node.rotation(element.rotation);
+  if (node.width() !== data.w) node.width(data.w);
+  if (node.height() !== data.h) node.height(data.h);
+  if (node.scaleX() !== 1) node.scaleX(1);
+  if (node.scaleY() !== 1) node.scaleY(1);
+  node.fill(element.style.backgroundColor ?? FRAME_DEFAULT_STYLE.backgroundColor);
+  node.stroke(element.style.strokeColor ?? FRAME_DEFAULT_STYLE.strokeColor);
+  node.strokeWidth(element.style.strokeWidth ?? FRAME_DEFAULT_STYLE.strokeWidth);
+  if (node.opacity() !== (element.style.opacity ?? 1)) node.opacity(element.style.opacity ?? 1);
+  setNodeZIndex(node, element.zIndex);
+  syncNodeMetadata(node, element);
+}
+
+export function toTElement(node: Konva.Shape): TElement {
+  const worldPosition = getWorldPosition(node);
+  const absoluteScale = node.getAbsoluteScale();
+  const layer = node.getLayer();
+  const layerScaleX = layer?.scaleX() ?? 1;
+  const layerScaleY = layer?.scaleY() ?? 1;
+  const parent = node.getParent();
+
+  const style: TElementStyle = {
+    opacity: node.opacity(),
+    strokeWidth: node.strokeWidth(),
+  };
+  if (typeof node.fill() === "string") style.backgroundColor = node.fill() as string;
+  if (typeof node.stroke() === "string") style.strokeColor = node.stroke() as string;
+
+  return {
+    id: node.id(),
+    x: worldPosition.x,
+    y: worldPosition.y,
+    rotation: node.getAbsoluteRotation(),
+    bindings: [],
+    createdAt: Number(node.getAttr(FRAME_CREATED_AT_ATTR) ?? Date.now()),
+    updatedAt: Date.now(),
+    locked: false,
+    parentGroupId: parent instanceof Konva.Group ? parent.id() : null,
+    zIndex: getNodeZIndex(node),
+    style,
+    data: {
+      type: "frame",
+      w: node.width() * (absoluteScale.x / layerScaleX),
+      h: node.height() * (absoluteScale.y / layerScaleY),
+      title: getFrameTitle(node),
+      clipChildren: node.getAttr(FRAME_CLIP_CHILDREN_ATTR) === true,
+    },
+  };
+}
+
+export function createFrameElement(args: { id: string; x: number; y: number; w: number; h: number }): TElement {
+  return {
+    id: args.id,
+    x: args.x,
+    y: args.y,
+    rotation: 0,
+    bindings: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    locked: false,
+    parentGroupId: null,
+    zIndex: "",
+    style: { ...FRAME_DEFAULT_STYLE },
+    data: {
+      type: "frame",
+      w: args.w,
+      h: args.h,
+      title: FRAME_DEFAULT_TITLE,
+      clipChildren: false,
+    },
+  };
+}
+
+/** World-space bounds of a node, ignoring the camera. */
+export function getWorldRect(context: { staticForegroundLayer: Konva.Layer }, node: Konva.Node) {
+  return node.getClientRect({ relativeTo: context.staticForegroundLayer, skipShadow: true });
+}
+
+export function containsPoint(rect: { x: number; y: number; width: number; height: number }, point: { x: number; y: number }) {
+  return point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+}
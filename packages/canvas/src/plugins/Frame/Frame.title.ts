@@ -0,0 +1,90 @@
+import type Konva from "konva";
+import type { IPluginContext } from "../shared/interface";
+import { FRAME_TITLE_ATTR, FRAME_TITLE_FONT_SIZE, FRAME_TITLE_HEIGHT, getFrameTitle, toTElement, updateFrameNodeFromElement } from "./Frame.shared";
+
+export function editFrameTitle(context: IPluginContext, node: Konva.Shape) {
+  const originalElement = toTElement(node);
+  const originalTitle = getFrameTitle(node);
+  node.setAttr(FRAME_TITLE_ATTR, "");
+  node.getLayer()?.batchDraw();
+
+  const input = document.createElement("input");
+  const absPos = node.getAbsolutePosition();
+  const absScale = node.getAbsoluteScale();
+  input.type = "text";
+  input.value = originalTitle;
+  input.setAttribute("aria-label", "Frame title");
+  Object.assign(input.style, {
+    position: "absolute",
+    top: absPos.y - FRAME_TITLE_HEIGHT * absScale.y + "px",
+    left: absPos.x + "px",
+    width: Math.max(node.width() * absScale.x, 120) + "px",
+    height: FRAME_TITLE_HEIGHT * absScale.y + "px",
+    fontSize: FRAME_TITLE_FONT_SIZE * absScale.y + "px",
+    fontFamily: "sans-serif",
+    transform: `rotate(${node.getAbsoluteRotation()}deg)`,
+    transformOrigin: `0 ${FRAME_TITLE_HEIGHT * absScale.y}px`,
+    outline: "2px solid #3b82f6",
+    background: "transparent",
+    border: "none",
+    padding: "0",
+    boxSizing: "border-box",
+    zIndex: "9999",
+    color: "#71717a",
+  });
+
+  let closed = false;
+  const close = (nextTitle: string) => {
+    if (closed) return;
+    closed = true;
+    input.removeEventListener("keydown", onKeydown);
+    input.removeEventListener("keyup", stopKeyPropagation);
+    input.removeEventListener("blur", onBlur);
+    input.remove();
+
+    node.setAttr(FRAME_TITLE_ATTR, nextTitle);
+    node.getLayer()?.batchDraw();
+    if (nextTitle === originalTitle) return;
+
+    const afterElement = toTElement(node);
+    context.crdt.patch({ elements: [afterElement], groups: [] });
+    context.history.record({
+      label: "rename-frame",
+      undo() {
+        updateFrameNodeFromElement(node, originalElement);
+        context.crdt.patch({ elements: [originalElement], groups: [] });
+      },
+      redo() {
+        updateFrameNodeFromElement(node, afterElement);
+        context.crdt.patch({ elements: [afterElement], groups: [] });
+      },
+    });
+  };
+
+  const stopKeyPropagation = (event: KeyboardEvent) => {
+    event.stopPropagation();
+  };
+
+  const onKeydown = (event: KeyboardEvent) => {
+    event.stopPropagation();
+    if (event.key === "Enter") {
+      event.preventDefault();
+      close(input.value.trim());
+      return;
+    }
+
+    if (event.key === "Escape") {
+      event.preventDefault();
+      close(originalTitle);
+    }
+  };
+
+  const onBlur = () => close(input.value.trim());
+
+  input.addEventListener("keydown", onKeydown);
+  input.addEventListener("keyup", stopKeyPropagation);
+  input.addEventListener("blur", onBlur);
+  context.stage.container().appendChild(input);
+  input.focus();
+  input.select();
+}
@@ -10,7 +10,7 @@ function normalizeOffset(value: number, spacing: number) {
   return ((value % spacing) + spacing) % spacing;
 }
 
-function getGridWorldSize(scale: number) {
+export function getGridWorldSize(scale: number) {
   let worldSize = BASE_GRID_SIZE;
   let screenSpacing = worldSize * scale;
 
@@ -2,6 +2,7 @@ import type { Accessor, Setter } from "solid-js";
 import { createComponent, createSignal } from "solid-js";
 import { render } from "solid-js/web";
 import { CanvasHelp } from "../../components/CanvasHelp";
+import { CustomEvents } from "../../custom-events";
 import type { IPlugin, IPluginContext } from "../shared/interface";
 
 function mountSolidComponent(context: IPluginContext, open: Accessor<boolean>, setOpen: Setter<boolean>) {
@@ -46,6 +47,13 @@ export class HelpPlugin implements IPlugin {
       this.#mountElement = null;
     });
 
+    context.hooks.customEvent.tap((event, payload) => {
+      if (event !== CustomEvents.PRESENTATION) return false;
+      if (this.#mountElement) this.#mountElement.hidden = payload;
+      if (payload) this.#setOpen(false);
+      return false;
+    });
+
     context.hooks.keydown.tap((event) => {
       if (HelpPlugin.isQuestionMarkShortcut(event)) {
         event.preventDefault();
@@ -1,10 +1,11 @@
 import type { THostedWidgetTool, THostedWidgetType } from "./HostedSolidWidget.types";
 
-export const HOSTED_TYPES = new Set<THostedWidgetType>(["filetree", "terminal", "file"]);
+export const HOSTED_TYPES = new Set<THostedWidgetType>(["filetree", "terminal", "file", "note"]);
 
 export const TOOL_TO_WIDGET_TYPE: Partial<Record<THostedWidgetTool, THostedWidgetType>> = {
   filesystem: "filetree",
   terminal: "terminal",
+  note: "note",
 };
 
 export const HOSTED_TYPE_ATTR = "vcHostedWidgetType";
@@ -45,8 +45,13 @@ export function beginHostedDomDrag(
     context.crdt.patch({ elements, groups: [] });
   }, 100);
 
+  const snapMove = context.capabilities.snap?.createMoveSnapper(activeSelection);
+
   const onPointerMove = (moveEvent: PointerEvent | MouseEvent) => {
-    const pointerWorld = getHostedWidgetPointerWorldPoint(context, { x: moveEvent.clientX, y: moveEvent.clientY });
+    const rawPointerWorld = getHostedWidgetPointerWorldPoint(context, { x: moveEvent.clientX, y: moveEvent.clientY });
+    const rawDelta = { x: rawPointerWorld.x - startPointerWorld.x, y: rawPointerWorld.y - startPointerWorld.y };
+    const delta = snapMove?.(rawDelta, moveEvent) ?? rawDelta;
+    const pointerWorld = { x: startPointerWorld.x + delta.x, y: startPointerWorld.y + delta.y };
 
     activeSelection.forEach((candidate) => {
       const offset = pointerOffsets.get(candidate.id());
@@ -72,6 +77,7 @@ export function beginHostedDomDrag(
     window.removeEventListener("pointermove", onPointerMove as EventListener);
     window.removeEventListener("pointerup", onPointerUp);
     runtime.setCleanupDrag(null);
+    context.capabilities.snap?.clearGuides();
 
     const afterElements = collectHostedWidgetSelectionShapes(activeSelection)
       .map((shape) => context.capabilities.toElement?.(shape))
@@ -1,4 +1,5 @@
-import type { TFileData, TFiletreeData, TTerminalData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { NOTE_DEFAULT_HEIGHT, NOTE_DEFAULT_WIDTH, NOTE_WIDGET_STYLE, fnGetNoteTitle } from "@vibecanvas/canvas-cmds/core/fn.note";
+import type { TFileData, TFiletreeData, TNoteData, TTerminalData } from "@vibecanvas/service-automerge/types/canvas-doc";
 import { getFileName, getFileRenderer } from "../../components/file/utils";
 import type { IPluginContext } from "../shared/interface";
 import { FILETREE_CHAT_DND_MIME, HOSTED_TYPES, TOOL_TO_WIDGET_TYPE } from "./HostedSolidWidget.constants";
@@ -155,6 +156,7 @@ export function getWidgetHeaderLabel(element: THostedWidgetElement) {
   if (element.data.type === "terminal") return "untitled";
   if (element.data.type === "filetree") return "files";
   if (element.data.type === "file") return getFileName(element.data.path);
+  if (element.data.type === "note") return fnGetNoteTitle(element.data) || "note";
   return "widget";
 }
 
@@ -200,6 +202,29 @@ export function getDefaultWidgetElement(
     };
   }
 
+  if (payload.type === "note") {
+    return {
+      id,
+      x: payload.x,
+      y: payload.y,
+      rotation: 0,
+      zIndex: "",
+      parentGroupId: null,
+      bindings: [],
+      locked: false,
+      createdAt: now,
+      updatedAt: now,
+      style: { ...NOTE_WIDGET_STYLE },
+      data: {
+        type: "note",
+        w: NOTE_DEFAULT_WIDTH,
+        h: NOTE_DEFAULT_HEIGHT,
+        isCollapsed: false,
+        markdown: "",
+      } satisfies TNoteData,
+    };
+  }
+
   if (payload.type === "file") {
     return createFileElementFromDrop(runtime, { id, x: payload.x, y: payload.y, path: "untitled.txt" });
   }
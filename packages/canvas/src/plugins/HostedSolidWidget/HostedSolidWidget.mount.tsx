@@ -3,6 +3,7 @@ import { render } from "solid-js/web";
 import type Konva from "konva";
 import { FileHostedWidget } from "../../components/file";
 import { FiletreeHostedWidget } from "../../components/filetree";
+import { NoteHostedWidget } from "../../components/note";
 import { TerminalHostedWidget } from "../../components/terminal";
 import { CanvasMode } from "../../services/canvas/enum";
 import type { IPluginContext } from "../shared/interface";
@@ -116,6 +117,30 @@ export function createHostedWidgetMount(
             requestInitialSize={(size) => autoSize()?.(size)}
           />
         </Show>
+        <Show when={currentElement().data.type === "note"}>
+          <NoteHostedWidget
+            element={currentElement as () => THostedWidgetElementMap["note"]}
+            setWindowChrome={(chrome) => setWindowChrome(() => chrome)}
+            onMarkdownChange={(markdown) => {
+              const snapshot = structuredClone(node.getAttr(HOSTED_ELEMENT_ATTR) as THostedWidgetElement | undefined);
+              if (!snapshot || snapshot.data.type !== "note") return;
+              if (snapshot.data.markdown === markdown) return;
+
+              const nextElement: THostedWidgetElementMap["note"] = {
+                ...snapshot,
+                updatedAt: Date.now(),
+                data: {
+                  ...snapshot.data,
+                  markdown,
+                },
+              };
+
+              node.setAttr(HOSTED_ELEMENT_ATTR, structuredClone(nextElement));
+              runtime.mountWidgetFromUpdate(node, nextElement);
+              context.crdt.patch({ elements: [nextElement], groups: [] });
+            }}
+          />
+        </Show>
         <Show when={currentElement().data.type === "terminal"}>
           <TerminalHostedWidget
             element={currentElement as () => THostedWidgetElementMap["terminal"]}
@@ -49,8 +49,13 @@ export function beginDomDrag(runtime: {
     context.crdt.patch({ elements, groups: [] });
   }, 100);
 
+  const snapMove = context.capabilities.snap?.createMoveSnapper(activeSelection);
+
   const onPointerMove = (moveEvent: PointerEvent | MouseEvent) => {
-    const pointerWorld = getHostedWidgetPointerWorldPoint(context, { x: moveEvent.clientX, y: moveEvent.clientY });
+    const rawPointerWorld = getHostedWidgetPointerWorldPoint(context, { x: moveEvent.clientX, y: moveEvent.clientY });
+    const rawDelta = { x: rawPointerWorld.x - startPointerWorld.x, y: rawPointerWorld.y - startPointerWorld.y };
+    const delta = snapMove?.(rawDelta, moveEvent) ?? rawDelta;
+    const pointerWorld = { x: startPointerWorld.x + delta.x, y: startPointerWorld.y + delta.y };
 
     activeSelection.forEach((candidate) => {
       const offset = pointerOffsets.get(candidate.id());
@@ -75,6 +80,7 @@ export function beginDomDrag(runtime: {
     window.removeEventListener("pointercancel", finalizeDrag);
     window.removeEventListener("blur", finalizeDrag);
     runtime.setCleanupDrag(null);
+    context.capabilities.snap?.clearGuides();
 
     const afterElements = cloneElements(
       collectHostedWidgetSelectionShapes(activeSelection).map((shape) => context.capabilities.toElement?.(shape)),
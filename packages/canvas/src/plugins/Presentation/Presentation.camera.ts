@@ -0,0 +1,62 @@
+import type { IPluginContext } from "../shared/interface";
+
+export type TCameraView = { x: number; y: number; zoom: number };
+
+function easeInOutCubic(t: number) {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function prefersReducedMotion() {
+  return typeof matchMedia === "function" && matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
+/**
+ * Glides the camera to `to`. Zoom is interpolated on a log scale around the moving viewport center,
+ * so zooming out and back in between far-apart slides keeps a steady pace.
+ * Returns a function that stops the animation where it is.
+ */
+export function animateCamera(context: IPluginContext, to: TCameraView, duration: number): () => void {
+  const viewport = { width: context.stage.width(), height: context.stage.height() };
+  const from: TCameraView = { x: context.camera.x, y: context.camera.y, zoom: context.camera.zoom };
+  const centerOf = (view: TCameraView) => ({
+    x: (viewport.width / 2 - view.x) / view.zoom,
+    y: (viewport.height / 2 - view.y) / view.zoom,
+  });
+
+  if (duration <= 0 || prefersReducedMotion() || typeof requestAnimationFrame !== "function") {
+    context.camera.setView(to);
+    context.hooks.cameraChange.call();
+    return () => {};
+  }
+
+  const fromCenter = centerOf(from);
+  const toCenter = centerOf(to);
+  const fromLogZoom = Math.log(from.zoom);
+  const toLogZoom = Math.log(to.zoom);
+  const startedAt = performance.now();
+  let frame: number | null = null;
+
+  const step = (now: number) => {
+    const progress = Math.min(1, (now - startedAt) / duration);
+    const eased = easeInOutCubic(progress);
+    const zoom = Math.exp(fromLogZoom + (toLogZoom - fromLogZoom) * eased);
+    const center = {
+      x: fromCenter.x + (toCenter.x - fromCenter.x) * eased,
+      y: fromCenter.y + (toCenter.y - fromCenter.y) * eased,
+    };
+
+    context.camera.setView(progress === 1 ? to : {
+      x: viewport.width / 2 - center.x * zoom,
+      y: viewport.height / 2 - center.y * zoom,
+      zoom,
+    });
+    context.hooks.cameraChange.call();
+    frame = progress === 1 ? null : requestAnimationFrame(step);
+  };
+
+  frame = requestAnimationFrame(step);
+  return () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+  };
+}
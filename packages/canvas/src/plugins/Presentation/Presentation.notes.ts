@@ -0,0 +1,97 @@
+export type TSpeakerNotesState = {
+  index: number;
+  count: number;
+  title: string;
+  notes: string;
+  nextTitle: string | null;
+};
+
+export type TSpeakerNotesWindow = {
+  update: (state: TSpeakerNotesState) => void;
+  isOpen: () => boolean;
+  close: () => void;
+};
+
+const SPEAKER_NOTES_WINDOW_NAME = "vibecanvas-speaker-notes";
+
+function formatElapsed(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`;
+}
+
+/**
+ * Opens the speaker notes in a separate window, so they can sit on the presenter's own screen.
+ * The window is plain DOM: the app's stylesheets are not loaded there. Keys pressed in it drive the
+ * presentation like keys pressed over the canvas.
+ * Returns null when the browser blocked the popup.
+ */
+export function openSpeakerNotesWindow(payload: {
+  onKeyDown: (event: KeyboardEvent) => void;
+  onClose: () => void;
+}): TSpeakerNotesWindow | null {
+  const popup = window.open("", SPEAKER_NOTES_WINDOW_NAME, "popup,width=520,height=640");
+  if (!popup) return null;
+
+  const doc = popup.document;
+  doc.title = "Speaker notes";
+  doc.body.replaceChildren();
+  Object.assign(doc.body.style, {
+    margin: "0",
+    padding: "24px",
+    fontFamily: "sans-serif",
+    background: "#18181b",
+    color: "#fafafa",
+  });
+
+  const header = doc.createElement("div");
+  Object.assign(header.style, { display: "flex", justifyContent: "space-between", fontSize: "13px", color: "#a1a1aa" });
+  const position = doc.createElement("span");
+  const elapsed = doc.createElement("span");
+  header.append(position, elapsed);
+
+  const title = doc.createElement("h1");
+  Object.assign(title.style, { fontSize: "24px", margin: "16px 0" });
+
+  const notes = doc.createElement("div");
+  Object.assign(notes.style, { fontSize: "18px", lineHeight: "1.5", whiteSpace: "pre-wrap" });
+
+  const next = doc.createElement("div");
+  Object.assign(next.style, { marginTop: "32px", fontSize: "13px", color: "#a1a1aa" });
+
+  doc.body.append(header, title, notes, next);
+
+  const startedAt = Date.now();
+  const tick = () => {
+    elapsed.textContent = formatElapsed(Date.now() - startedAt);
+  };
+  tick();
+  const timer = popup.setInterval(tick, 1000);
+
+  let closedByUs = false;
+  const onUnload = () => {
+    popup.clearInterval(timer);
+    if (!closedByUs) payload.onClose();
+  };
+  doc.addEventListener("keydown", payload.onKeyDown);
+  popup.addEventListener("pagehide", onUnload);
+
+  return {
+    update(state) {
+      position.textContent = `Slide ${state.index + 1} of ${state.count}`;
+      title.textContent = state.title;
+      notes.textContent = state.notes || "No notes for this slide.";
+      notes.style.color = state.notes ? "#fafafa" : "#71717a";
+      next.textContent = state.nextTitle ? `Next: ${state.nextTitle}` : "Last slide";
+    },
+    isOpen: () => !popup.closed,
+    close() {
+      closedByUs = true;
+      popup.clearInterval(timer);
+      doc.removeEventListener("keydown", payload.onKeyDown);
+      popup.removeEventListener("pagehide", onUnload);
+      popup.close();
+    },
+  };
+}
@@ -0,0 +1,385 @@
+import type { TPresentationSlide } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import { createComponent, createSignal, type Accessor, type Setter } from "solid-js";
+import { render } from "solid-js/web";
+import { CanvasPresenter } from "../../components/CanvasPresenter";
+import { CanvasSlides, type TCanvasSlideItem } from "../../components/CanvasSlides";
+import { CustomEvents } from "../../custom-events";
+import { Camera } from "../../services/canvas/Camera";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { animateCamera, type TCameraView } from "./Presentation.camera";
+import { openSpeakerNotesWindow, type TSpeakerNotesWindow } from "./Presentation.notes";
+import {
+  createFrameSlide,
+  createViewportSlide,
+  getSavedSlides,
+  getSlideBounds,
+  getSlideTitle,
+  getVisibleWorldRect,
+  resolveDeck,
+} from "./Presentation.slides";
+
+const SLIDE_TRANSITION_MS = 450;
+const FRAME_SLIDE_PADDING = 48;
+
+const NEXT_KEYS = new Set(["ArrowRight", "ArrowDown", "PageDown", " ", "Enter"]);
+const PREVIOUS_KEYS = new Set(["ArrowLeft", "ArrowUp", "PageUp", "Backspace"]);
+
+type TPresentationPluginArgs = {
+  sidebarVisible?: () => boolean;
+  onToggleSidebar?: () => void;
+};
+
+type TRunningPresentation = {
+  deck: TPresentationSlide[];
+  cameraBefore: TCameraView;
+  hidSidebar: boolean;
+  viewport: { width: number; height: number };
+};
+
+/**
+ * Presents the canvas as a deck: the saved slides in the doc (frames or saved views), or every frame
+ * when none were saved. The camera glides between slides while the canvas chrome and sidebar hide,
+ * with a laser pointer and an optional speaker notes window.
+ */
+export class PresentationPlugin implements IPlugin {
+  #slides: Accessor<TCanvasSlideItem[]>;
+  #setSlides: Setter<TCanvasSlideItem[]>;
+  #frameCount: Accessor<number>;
+  #setFrameCount: Setter<number>;
+  #presenting: Accessor<boolean>;
+  #setPresenting: Setter<boolean>;
+  #index: Accessor<number>;
+  #setIndex: Setter<number>;
+  #count: Accessor<number>;
+  #setCount: Setter<number>;
+  #slideTitle: Accessor<string>;
+  #setSlideTitle: Setter<string>;
+  #laser: Accessor<boolean>;
+  #setLaser: Setter<boolean>;
+  #notesOpen: Accessor<boolean>;
+  #setNotesOpen: Setter<boolean>;
+  #running: TRunningPresentation | null = null;
+  #notesWindow: TSpeakerNotesWindow | null = null;
+  #cancelAnimation: (() => void) | null = null;
+  #refreshQueued = false;
+  #mountElements: HTMLDivElement[] = [];
+  #disposeRenders: Array<() => void> = [];
+
+  constructor(private args: TPresentationPluginArgs = {}) {
+    [this.#slides, this.#setSlides] = createSignal<TCanvasSlideItem[]>([]);
+    [this.#frameCount, this.#setFrameCount] = createSignal(0);
+    [this.#presenting, this.#setPresenting] = createSignal(false);
+    [this.#index, this.#setIndex] = createSignal(0);
+    [this.#count, this.#setCount] = createSignal(0);
+    [this.#slideTitle, this.#setSlideTitle] = createSignal("");
+    [this.#laser, this.#setLaser] = createSignal(false);
+    [this.#notesOpen, this.#setNotesOpen] = createSignal(false);
+  }
+
+  apply(context: IPluginContext): void {
+    this.setupPanels(context);
+    this.setupShortcut(context);
+    this.setupViewportTracking(context);
+
+    context.capabilities.presentation = {
+      start: (startIndex) => this.start(context, startIndex),
+      addViewSlide: () => this.addViewSlide(context),
+      addFrameSlide: (frameId) => this.addFrameSlide(context, frameId),
+    };
+  }
+
+  private setupPanels(context: IPluginContext) {
+    const onDocChange = () => this.queueRefresh(context);
+
+    context.hooks.init.tap(() => {
+      const slidesMount = document.createElement("div");
+      slidesMount.className = "absolute bottom-3 right-29 pointer-events-none z-50";
+      const presenterMount = document.createElement("div");
+      presenterMount.className = "absolute inset-0 pointer-events-none";
+      context.stage.container().append(slidesMount, presenterMount);
+
+      this.#disposeRenders = [
+        render(() => createComponent(CanvasSlides, {
+          slides: this.#slides,
+          frameCount: this.#frameCount,
+          canAddFrame: () => PresentationPlugin.getSelectedFrameId(context) !== null,
+          onPresent: (index) => this.start(context, index),
+          onAddView: () => this.addViewSlide(context),
+          onAddFrame: () => {
+            const frameId = PresentationPlugin.getSelectedFrameId(context);
+            if (frameId) this.addFrameSlide(context, frameId);
+          },
+          onJump: (id) => this.jumpToSlide(context, id),
+          onMove: (id, offset) => this.moveSlide(context, id, offset),
+          onRemove: (id) => this.updateSlides(context, "remove-slide", (slides) => slides.filter((slide) => slide.id !== id)),
+          onEdit: (id, patch) => this.updateSlides(context, "edit-slide", (slides) => slides.map((slide) => slide.id === id ? { ...slide, ...patch } : slide)),
+        }), slidesMount),
+        render(() => createComponent(CanvasPresenter, {
+          presenting: this.#presenting,
+          index: this.#index,
+          count: this.#count,
+          title: this.#slideTitle,
+          laser: this.#laser,
+          notesOpen: this.#notesOpen,
+          onKeyDown: (event) => this.handlePresentingKey(context, event),
+          onPrevious: () => this.goTo(context, this.#index() - 1),
+          onNext: () => this.goTo(context, this.#index() + 1),
+          onToggleLaser: () => this.#setLaser((value) => !value),
+          onToggleNotes: () => this.toggleNotes(context),
+          onExit: () => this.stop(context),
+        }), presenterMount),
+      ];
+      this.#mountElements = [slidesMount, presenterMount];
+    });
+
+    context.hooks.initAsync.tapPromise(async () => {
+      context.crdt.docHandle.on("change", onDocChange);
+      this.queueRefresh(context);
+    });
+
+    context.hooks.customEvent.tap((event, payload) => {
+      if (event === CustomEvents.PRESENTATION && this.#mountElements[0]) {
+        this.#mountElements[0].hidden = payload;
+      }
+      return false;
+    });
+
+    context.hooks.destroy.tap(() => {
+      context.crdt.docHandle.off("change", onDocChange);
+      if (this.#running) this.stop(context);
+      this.#disposeRenders.forEach((dispose) => dispose());
+      this.#mountElements.forEach((element) => element.remove());
+      this.#disposeRenders = [];
+      this.#mountElements = [];
+    });
+  }
+
+  private setupShortcut(context: IPluginContext) {
+    context.hooks.keydown.tap((event) => {
+      if (!event.altKey || event.metaKey || event.ctrlKey || event.code !== "KeyP") return false;
+      event.preventDefault();
+      this.start(context);
+      return true;
+    });
+  }
+
+  /**
+   * Hiding the sidebar resizes the canvas after the first slide was fitted, so the current slide is
+   * fitted again whenever the canvas size changes mid-presentation.
+   */
+  private setupViewportTracking(context: IPluginContext) {
+    context.hooks.cameraChange.tap(() => {
+      const running = this.#running;
+      if (!running) return;
+
+      const viewport = { width: context.stage.width(), height: context.stage.height() };
+      if (viewport.width === running.viewport.width && viewport.height === running.viewport.height) return;
+      running.viewport = viewport;
+      this.showSlide(context, this.#index(), false);
+    });
+  }
+
+  private static getSelectedFrameId(context: IPluginContext) {
+    const selection = context.state.selection;
+    const frame = selection.length === 1 ? selection[0] : null;
+    return frame instanceof Konva.Shape && context.capabilities.frames?.isFrameNode(frame) ? frame.id() : null;
+  }
+
+  /** Runs after the scene hydrator had its turn with the same doc change. */
+  private queueRefresh(context: IPluginContext) {
+    if (this.#refreshQueued) return;
+    this.#refreshQueued = true;
+    queueMicrotask(() => {
+      this.#refreshQueued = false;
+      const slides = getSavedSlides(context.crdt.docHandle.doc());
+      this.#setSlides(slides.map((slide, index) => ({
+        id: slide.id,
+        label: getSlideTitle(context, slide, index),
+        title: slide.title,
+        notes: slide.notes,
+        kind: slide.target.type,
+      })));
+      this.#setFrameCount(context.capabilities.frames?.list().length ?? 0);
+    });
+  }
+
+  start(context: IPluginContext, startIndex = 0) {
+    if (this.#running) return;
+
+    const deck = resolveDeck(context);
+    if (deck.length === 0) {
+      context.capabilities.notification?.showInfo("Nothing to present", "Add frames or save views as slides first.");
+      return;
+    }
+
+    const hidSidebar = this.args.sidebarVisible?.() === true;
+    if (hidSidebar) this.args.onToggleSidebar?.();
+
+    this.#running = {
+      deck,
+      cameraBefore: { x: context.camera.x, y: context.camera.y, zoom: context.camera.zoom },
+      hidSidebar,
+      viewport: { width: context.stage.width(), height: context.stage.height() },
+    };
+    context.setState("selection", []);
+    context.setState("focusedId", null);
+    context.hooks.customEvent.call(CustomEvents.PRESENTATION, true);
+    this.#setCount(deck.length);
+    this.#setPresenting(true);
+    this.showSlide(context, Math.min(Math.max(startIndex, 0), deck.length - 1), true);
+  }
+
+  stop(context: IPluginContext) {
+    const running = this.#running;
+    if (!running) return;
+
+    this.#cancelAnimation?.();
+    this.#cancelAnimation = null;
+    this.#notesWindow?.close();
+    this.#notesWindow = null;
+    this.#running = null;
+    this.#setNotesOpen(false);
+    this.#setLaser(false);
+    this.#setPresenting(false);
+
+    if (running.hidSidebar) this.args.onToggleSidebar?.();
+    context.hooks.customEvent.call(CustomEvents.PRESENTATION, false);
+    context.camera.setView(running.cameraBefore);
+    context.hooks.cameraChange.call();
+    context.stage.container().focus();
+  }
+
+  private goTo(context: IPluginContext, index: number) {
+    const running = this.#running;
+    if (!running) return;
+    if (index < 0 || index >= running.deck.length || index === this.#index()) return;
+
+    this.showSlide(context, index, true);
+  }
+
+  private showSlide(context: IPluginContext, index: number, animate: boolean) {
+    const running = this.#running;
+    const slide = running?.deck[index];
+    if (!running || !slide) return;
+
+    this.#setIndex(index);
+    this.#setSlideTitle(getSlideTitle(context, slide, index));
+    this.syncNotesWindow(context);
+
+    const bounds = getSlideBounds(context, slide);
+    if (!bounds) return;
+
+    const padding = slide.target.type === "frame" ? FRAME_SLIDE_PADDING : 0;
+    const view = Camera.viewForBounds(bounds, running.viewport, padding);
+    this.#cancelAnimation?.();
+    this.#cancelAnimation = animateCamera(context, view, animate ? SLIDE_TRANSITION_MS : 0);
+  }
+
+  private handlePresentingKey(context: IPluginContext, event: KeyboardEvent) {
+    const running = this.#running;
+    if (!running || event.metaKey || event.ctrlKey || event.altKey) return;
+
+    const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+    if (NEXT_KEYS.has(key)) this.goTo(context, this.#index() + 1);
+    else if (PREVIOUS_KEYS.has(key)) this.goTo(context, this.#index() - 1);
+    else if (key === "Home") this.goTo(context, 0);
+    else if (key === "End") this.goTo(context, running.deck.length - 1);
+    else if (key === "Escape") this.stop(context);
+    else if (key === "l") this.#setLaser((value) => !value);
+    else if (key === "n") this.toggleNotes(context);
+    else return;
+
+    event.preventDefault();
+  }
+
+  private toggleNotes(context: IPluginContext) {
+    if (this.#notesWindow?.isOpen()) {
+      this.#notesWindow.close();
+      this.#notesWindow = null;
+      this.#setNotesOpen(false);
+      return;
+    }
+
+    this.#notesWindow = openSpeakerNotesWindow({
+      onKeyDown: (event) => this.handlePresentingKey(context, event),
+      onClose: () => {
+        this.#notesWindow = null;
+        this.#setNotesOpen(false);
+      },
+    });
+    if (!this.#notesWindow) {
+      context.capabilities.notification?.showError("Could not open speaker notes", "Allow popups for this site and try again.");
+      return;
+    }
+
+    this.#setNotesOpen(true);
+    this.syncNotesWindow(context);
+  }
+
+  private syncNotesWindow(context: IPluginContext) {
+    const running = this.#running;
+    const index = this.#index();
+    const slide = running?.deck[index];
+    if (!running || !slide || !this.#notesWindow) return;
+
+    const next = running.deck[index + 1];
+    this.#notesWindow.update({
+      index,
+      count: running.deck.length,
+      title: getSlideTitle(context, slide, index),
+      notes: slide.notes,
+      nextTitle: next ? getSlideTitle(context, next, index + 1) : null,
+    });
+  }
+
+  private jumpToSlide(context: IPluginContext, id: string) {
+    const slide = getSavedSlides(context.crdt.docHandle.doc()).find((candidate) => candidate.id === id);
+    const bounds = slide ? getSlideBounds(context, slide) : null;
+    if (!slide || !bounds) return;
+
+    const padding = slide.target.type === "frame" ? FRAME_SLIDE_PADDING : 0;
+    context.camera.fitBounds(bounds, { width: context.stage.width(), height: context.stage.height() }, padding);
+    context.hooks.cameraChange.call();
+  }
+
+  addViewSlide(context: IPluginContext) {
+    const count = getSavedSlides(context.crdt.docHandle.doc()).length;
+    const slide = createViewportSlide(getVisibleWorldRect(context), `View ${count + 1}`);
+    this.updateSlides(context, "add-slide", (slides) => [...slides, slide]);
+  }
+
+  addFrameSlide(context: IPluginContext, frameId: string) {
+    this.updateSlides(context, "add-slide", (slides) => [...slides, createFrameSlide(frameId)]);
+  }
+
+  private moveSlide(context: IPluginContext, id: string, offset: -1 | 1) {
+    this.updateSlides(context, "move-slide", (slides) => {
+      const index = slides.findIndex((slide) => slide.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= slides.length) return slides;
+
+      const next = [...slides];
+      [next[index], next[target]] = [next[target]!, next[index]!];
+      return next;
+    });
+  }
+
+  private updateSlides(context: IPluginContext, label: string, update: (slides: TPresentationSlide[]) => TPresentationSlide[]) {
+    const before = getSavedSlides(context.crdt.docHandle.doc());
+    const after = update(structuredClone(before));
+    if (JSON.stringify(after) === JSON.stringify(before)) return;
+
+    const apply = (slides: TPresentationSlide[]) => {
+      context.crdt.setSlides(slides);
+      this.queueRefresh(context);
+    };
+
+    apply(after);
+    context.history.record({
+      label,
+      undo: () => apply(before),
+      redo: () => apply(after),
+    });
+  }
+}
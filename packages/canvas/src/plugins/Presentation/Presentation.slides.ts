@@ -0,0 +1,75 @@
+import type { TCanvasDoc, TPresentationSlide } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type { IPluginContext } from "../shared/interface";
+
+export type TSlideBounds = { x: number; y: number; width: number; height: number };
+
+export function getSavedSlides(doc: TCanvasDoc): TPresentationSlide[] {
+  return structuredClone(doc.presentation?.slides ?? []);
+}
+
+/** The title shown for a slide: its own, its frame's, or a numbered fallback. */
+export function getSlideTitle(context: IPluginContext, slide: TPresentationSlide, index: number) {
+  if (slide.title) return slide.title;
+  if (slide.target.type === "frame") {
+    const frameId = slide.target.frameId;
+    const frame = context.capabilities.frames?.list().find((candidate) => candidate.id === frameId);
+    if (frame?.title) return frame.title;
+  }
+
+  return `Slide ${index + 1}`;
+}
+
+export function getSlideBounds(context: IPluginContext, slide: TPresentationSlide): TSlideBounds | null {
+  if (slide.target.type === "frame") {
+    return context.capabilities.frames?.getBounds(slide.target.frameId) ?? null;
+  }
+
+  return { x: slide.target.x, y: slide.target.y, width: slide.target.w, height: slide.target.h };
+}
+
+/**
+ * The slides a presentation steps through: the saved slides whose target still exists, or every
+ * frame in reading order when none were saved.
+ */
+export function resolveDeck(context: IPluginContext): TPresentationSlide[] {
+  const saved = getSavedSlides(context.crdt.docHandle.doc());
+  if (saved.length > 0) {
+    return saved.filter((slide) => getSlideBounds(context, slide) !== null);
+  }
+
+  return (context.capabilities.frames?.list() ?? []).map((frame) => ({
+    id: frame.id,
+    title: "",
+    notes: "",
+    target: { type: "frame", frameId: frame.id },
+  }));
+}
+
+/** The world rect the camera currently shows. */
+export function getVisibleWorldRect(context: IPluginContext): TSlideBounds {
+  const { x, y, zoom } = context.camera;
+  return {
+    x: -x / zoom,
+    y: -y / zoom,
+    width: context.stage.width() / zoom,
+    height: context.stage.height() / zoom,
+  };
+}
+
+export function createViewportSlide(bounds: TSlideBounds, title: string): TPresentationSlide {
+  return {
+    id: crypto.randomUUID(),
+    title,
+    notes: "",
+    target: { type: "viewport", x: bounds.x, y: bounds.y, w: bounds.width, h: bounds.height },
+  };
+}
+
+export function createFrameSlide(frameId: string): TPresentationSlide {
+  return {
+    id: crypto.randomUUID(),
+    title: "",
+    notes: "",
+    target: { type: "frame", frameId },
+  };
+}
@@ -26,6 +26,13 @@ function hasSameSelectionOrder(
   return currentSelection.every((node, index) => node.id() === nextSelection[index]?.id());
 }
 
+function containsRect(outer: { x: number; y: number; width: number; height: number }, inner: { x: number; y: number; width: number; height: number }) {
+  return inner.x >= outer.x
+    && inner.y >= outer.y
+    && inner.x + inner.width <= outer.x + outer.width
+    && inner.y + inner.height <= outer.y + outer.height;
+}
+
 /**
  * Walks konva node tree to get path traced from the node to the static foreground layer
  * 
@@ -145,6 +152,9 @@ function collectDeleteSnapshot(
 
     if (!elementIds.has(node.id())) {
       const element = context.capabilities.toElement?.(node) ?? Shape2dPlugin.toTElement(node);
+      // Scene nodes do not carry frame membership; keep it so undo restores the element into its frame.
+      const frameId = context.crdt.docHandle.doc().elements[node.id()]?.frameId;
+      if (frameId) element.frameId = frameId;
       elementIds.add(node.id());
       elements.push(element);
     }
@@ -358,6 +368,14 @@ export class SelectPlugin implements IPlugin {
 
   }
 
+  static deleteSelection(
+    context: IPluginContext,
+    selection: Array<Konva.Group | Konva.Shape>,
+    args?: { recordHistory?: boolean },
+  ) {
+    return executeDeleteSelection(context, selection, args);
+  }
+
   private static handleElementPointerDown(context: IPluginContext, payload: KonvaEventObject<PointerEvent, Shape<ShapeConfig> | Group>) {
     const path = getSelectionPath(context, payload.currentTarget);
     const nextDepth = Math.min(Math.max(context.state.selection.length, 1), path.length);
@@ -443,9 +461,12 @@ export class SelectPlugin implements IPlugin {
     });
 
     const topNodes = context.staticForegroundLayer.getChildren(item => item.parent?.id === context.staticForegroundLayer.id)
+    const selectionRect = this.#selectionRectangle.getClientRect();
     const inSelection = topNodes.filter(node => {
       if (!node.isListening()) return false;
-      return Konva.Util.haveIntersection(node.getClientRect(), this.#selectionRectangle.getClientRect());
+      // Marquees usually start inside a frame, so frames only join once fully enclosed.
+      if (context.capabilities.frames?.isFrameNode(node)) return containsRect(selectionRect, node.getClientRect());
+      return Konva.Util.haveIntersection(node.getClientRect(), selectionRect);
     }).sort((a, b) => a.id().localeCompare(b.id()))
 
     if (!hasSameSelectionOrder(context.state.selection, inSelection)) {
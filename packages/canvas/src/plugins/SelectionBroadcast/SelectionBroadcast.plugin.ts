@@ -0,0 +1,32 @@
+import { fnBuildCanvasSelectionMessage } from "@vibecanvas/canvas-cmds/core/fn.selection";
+import { createEffect } from "solid-js";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+
+/**
+ * Shares this browser's selection with the other peers of the canvas doc, such as `canvas watch`.
+ * Selections go out as ephemeral messages and are never written to the document.
+ */
+export class SelectionBroadcastPlugin implements IPlugin {
+  #lastKey = "";
+
+  apply(context: IPluginContext): void {
+    const { hooks, crdt } = context;
+
+    const broadcast = (ids: string[]) => {
+      const message = fnBuildCanvasSelectionMessage(crdt.origin, ids);
+      const key = message.ids.join(",");
+      if (key === this.#lastKey) return;
+      this.#lastKey = key;
+      crdt.docHandle.broadcast(message);
+    };
+
+    hooks.init.tap(() => {
+      createEffect(() => {
+        broadcast(TransformPlugin.filterSelection(context.state.selection).map((node) => node.id()));
+      });
+    });
+
+    hooks.destroy.tap(() => broadcast([]));
+  }
+}
@@ -13,11 +13,12 @@ const SHAPE_TYPES = new Set(["rect", "ellipse", "diamond"]);
 const PEN_TYPES = new Set(["pen"]);
 const TEXT_TYPES = new Set(["text"]);
 const LINE_TYPES = new Set(["line", "arrow"]);
-const UNSUPPORTED_TYPES = new Set(["filetree", "terminal", "file", "image"]);
+const UNSUPPORTED_TYPES = new Set(["filetree", "terminal", "file", "note", "image"]);
 
 type TStylableProperty = "fill" | "stroke" | "strokeWidth" | "opacity" | "fontFamily" | "lineType" | "startCap" | "endCap";
 
 type TResolvedSelection = {
+  rootNodes: Array<Konva.Group | Konva.Shape>;
   elements: TElement[];
 };
 
@@ -72,11 +73,11 @@ export class SelectionStyleMenuPlugin implements IPlugin {
           this.#version[0]();
           return this.getResolvedSelection(context);
         });
-        const sections = createMemo(() => this.getVisibleSections(resolved().elements));
+        const sections = createMemo(() => this.getVisibleSections(context, resolved()));
         const visible = createMemo(() => {
           if (context.state.editingTextId !== null) return false;
           const next = sections();
-          return next.showFillPicker || next.showStrokeColorPicker || next.showStrokeWidthPicker || next.showTextPickers || next.showOpacityPicker || next.showLineTypePicker || next.showStartCapPicker || next.showEndCapPicker;
+          return next.showAlignPicker || next.showFillPicker || next.showStrokeColorPicker || next.showStrokeWidthPicker || next.showTextPickers || next.showOpacityPicker || next.showLineTypePicker || next.showStartCapPicker || next.showEndCapPicker;
         });
         const values = createMemo(() => this.getCurrentValues(resolved().elements));
 
@@ -93,6 +94,8 @@ export class SelectionStyleMenuPlugin implements IPlugin {
           onLineTypeChange: (lineType) => this.applyStyleChange(context, "lineType", lineType),
           onStartCapChange: (capStyle) => this.applyStyleChange(context, "startCap", capStyle),
           onEndCapChange: (capStyle) => this.applyStyleChange(context, "endCap", capStyle),
+          onAlign: (mode) => context.capabilities.align?.alignSelection(this.getResolvedSelection(context).rootNodes, mode),
+          onDistribute: (axis) => context.capabilities.align?.distributeSelection(this.getResolvedSelection(context).rootNodes, axis),
         });
       }, mountElement);
     });
@@ -145,10 +148,15 @@ export class SelectionStyleMenuPlugin implements IPlugin {
         return true;
       });
 
-    return { elements };
+    return { rootNodes, elements };
   }
 
-  private getVisibleSections(elements: TElement[]): TSelectionStyleMenuSections {
+  private getVisibleSections(context: IPluginContext, resolved: TResolvedSelection): TSelectionStyleMenuSections {
+    const { elements, rootNodes } = resolved;
+    // Hosted widgets have no style pickers, but they can still be aligned alongside other nodes.
+    const showAlignPicker = rootNodes.length > 1 && (context.capabilities.align?.canAlign(rootNodes) ?? false);
+    const showDistributePicker = showAlignPicker && rootNodes.length > 2 && (context.capabilities.align?.canDistribute(rootNodes) ?? false);
+
     if (elements.length === 0) {
       return {
         showFillPicker: false,
@@ -159,6 +167,8 @@ export class SelectionStyleMenuPlugin implements IPlugin {
         showLineTypePicker: false,
         showStartCapPicker: false,
         showEndCapPicker: false,
+        showAlignPicker,
+        showDistributePicker,
       };
     }
 
@@ -171,6 +181,8 @@ export class SelectionStyleMenuPlugin implements IPlugin {
       showLineTypePicker: elements.some((element) => hasPropertySupport(element, "lineType")),
       showStartCapPicker: elements.some((element) => hasPropertySupport(element, "startCap")),
       showEndCapPicker: elements.some((element) => hasPropertySupport(element, "endCap")),
+      showAlignPicker,
+      showDistributePicker,
     };
   }
 
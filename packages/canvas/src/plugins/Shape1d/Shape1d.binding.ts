@@ -0,0 +1,87 @@
+import * as Automerge from "@automerge/automerge/slim";
+import type { DocHandleChangePayload } from "@automerge/automerge-repo";
+import { CONNECTOR_BINDING_PADDING, fnFindBindingTarget, fnResolveBindingPoint, fnRouteBoundConnectors } from "@vibecanvas/canvas-cmds/core/fn.connector";
+import type { TBinding, TCanvasDoc } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import type { IPluginContext } from "../shared/interface";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+import { type TShape1dNode, findShape1dNodeById, getElementData, isSupportedElementType } from "./Shape1d.shared";
+
+export type TBindingSnap = { binding: TBinding; point: { x: number; y: number } };
+
+export function findBindingSnap(context: IPluginContext, point: { x: number; y: number }, excludeIds: string[] = []): TBindingSnap | null {
+  const doc = context.crdt.docHandle.doc();
+  if (!doc) return null;
+  const binding = fnFindBindingTarget({ elements: Object.values(doc.elements), point, excludeIds, padding: CONNECTOR_BINDING_PADDING / context.camera.zoom });
+  const target = binding ? doc.elements[binding.targetId] : null;
+  const snappedPoint = binding && target ? fnResolveBindingPoint(target, binding.anchor) : null;
+  return binding && snappedPoint ? { binding, point: snappedPoint } : null;
+}
+
+export function setEndpointBinding(node: TShape1dNode, pointIndex: number, binding: TBinding | null) {
+  const data = getElementData(node);
+  if (!data || data.points.length < 2) return;
+  if (pointIndex === 0) data.startBinding = binding;
+  else if (pointIndex === data.points.length - 1) data.endBinding = binding;
+  else return;
+  node.setAttr("vcElementData", data);
+}
+
+function collectSelectedIds(context: IPluginContext) {
+  const ids = new Set<string>();
+  for (const node of TransformPlugin.filterSelection(context.state.selection)) {
+    ids.add(node.id());
+    if (node instanceof Konva.Group) node.find((child: Konva.Node) => child instanceof Konva.Shape).forEach((child) => ids.add(child.id()));
+  }
+  return ids;
+}
+
+/**
+ * Dragging a connector away from its targets detaches it. Bindings survive when the target moved along with it.
+ */
+export function releaseDetachedBindings(context: IPluginContext, node: TShape1dNode) {
+  const data = getElementData(node);
+  if (!data || (!data.startBinding && !data.endBinding)) return;
+  const movedIds = collectSelectedIds(context);
+  if (data.startBinding && !movedIds.has(data.startBinding.targetId)) data.startBinding = null;
+  if (data.endBinding && !movedIds.has(data.endBinding.targetId)) data.endBinding = null;
+  node.setAttr("vcElementData", data);
+}
+
+/**
+ * Keeps bound connectors attached after this client's doc changes: drags, transforms and history
+ * replay. Remote browsers and the CLI route their own edits in the same change, so their changes are
+ * left alone instead of every open tab writing the same routes again.
+ */
+export function setupConnectorRouting(context: IPluginContext) {
+  let isScheduled = false;
+
+  const route = () => {
+    isScheduled = false;
+    const doc = context.crdt.docHandle.doc();
+    if (!doc) return;
+    const patches = fnRouteBoundConnectors(doc, Date.now()).filter((patch) => !findShape1dNodeById(context, patch.id)?.isDragging());
+    if (patches.length === 0) return;
+    context.crdt.patchDerived({ elements: patches, groups: [] });
+    const nextDoc = context.crdt.docHandle.doc();
+    for (const patch of patches) {
+      const element = nextDoc.elements[patch.id];
+      if (element && isSupportedElementType(element.data.type)) context.capabilities.updateShapeFromTElement?.(element);
+    }
+    context.staticForegroundLayer.batchDraw();
+  };
+
+  const onDocChange = (payload: DocHandleChangePayload<TCanvasDoc>) => {
+    if (isScheduled || !context.crdt.hasOwnChangesSince(Automerge.getHeads(payload.patchInfo.before), payload.doc)) return;
+    isScheduled = true;
+    queueMicrotask(route);
+  };
+
+  context.hooks.initAsync.tapPromise(async () => {
+    context.crdt.docHandle.on("change", onDocChange);
+  });
+
+  context.hooks.destroy.tap(() => {
+    context.crdt.docHandle.off("change", onDocChange);
+  });
+}
@@ -1,4 +1,4 @@
-import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type { TBinding, TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
 import { DEFAULT_OPACITY, DEFAULT_STROKE, DEFAULT_STROKE_WIDTH, type TPoint, type TShape1dData } from "./Shape1d.shared";
 
 export function createFallbackPreviewElement(payload: { activeTool: "line" | "arrow"; draftElementId: string | null }) {
@@ -18,7 +18,7 @@ export function createFallbackPreviewElement(payload: { activeTool: "line" | "ar
   } satisfies TElement;
 }
 
-export function createDraftElement(payload: { activeTool: "line" | "arrow"; draftElementId: string | null; draftStartPoint: TPoint | null; draftCurrentPoint: TPoint | null }) {
+export function createDraftElement(payload: { activeTool: "line" | "arrow"; draftElementId: string | null; draftStartPoint: TPoint | null; draftCurrentPoint: TPoint | null; startBinding?: TBinding | null; endBinding?: TBinding | null }) {
   if (!payload.draftStartPoint || !payload.draftCurrentPoint) return null;
   const [startX, startY] = payload.draftStartPoint;
   const [endX, endY] = payload.draftCurrentPoint;
@@ -26,6 +26,8 @@ export function createDraftElement(payload: { activeTool: "line" | "arrow"; draf
   const dy = endY - startY;
   if (Math.abs(dx) < 0.5 && Math.abs(dy) < 0.5) return null;
   const now = Date.now();
+  const startBinding = payload.startBinding ?? null;
+  const endBinding = payload.endBinding ?? null;
   return {
     id: payload.draftElementId ?? crypto.randomUUID(),
     x: startX,
@@ -37,7 +39,7 @@ export function createDraftElement(payload: { activeTool: "line" | "arrow"; draf
     parentGroupId: null,
     updatedAt: now,
     zIndex: "",
-    data: payload.activeTool === "arrow" ? { type: "arrow", lineType: "straight", points: [[0, 0], [dx, dy]], startBinding: null, endBinding: null, startCap: "none", endCap: "arrow" } : { type: "line", lineType: "straight", points: [[0, 0], [dx, dy]], startBinding: null, endBinding: null },
+    data: payload.activeTool === "arrow" ? { type: "arrow", lineType: "straight", points: [[0, 0], [dx, dy]], startBinding, endBinding, startCap: "none", endCap: "arrow" } : { type: "line", lineType: "straight", points: [[0, 0], [dx, dy]], startBinding, endBinding },
     style: { strokeColor: DEFAULT_STROKE, opacity: DEFAULT_OPACITY, strokeWidth: DEFAULT_STROKE_WIDTH },
   } satisfies TElement;
 }
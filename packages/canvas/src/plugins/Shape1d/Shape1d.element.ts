@@ -47,7 +47,7 @@ export function toTElement(node: TShape1dNode): TElement {
 
 export function createPreviewClone(node: TShape1dNode) {
   const element = toTElement(node);
-  const clone = createShapeFromElement({ ...element, id: crypto.randomUUID(), parentGroupId: null, data: structuredClone(element.data), style: structuredClone(element.style) });
+  const clone = createShapeFromElement({ ...element, id: crypto.randomUUID(), parentGroupId: null, data: { ...structuredClone(element.data as TShape1dData), startBinding: null, endBinding: null }, style: structuredClone(element.style) });
   clone.setDraggable(true);
   return clone;
 }
@@ -1,11 +1,12 @@
 import { createEffect } from "solid-js";
-import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type { TBinding, TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
 import Konva from "konva";
 import type { TTool } from "../../components/FloatingCanvasToolbar/toolbar.types";
 import { CustomEvents } from "../../custom-events";
 import { CanvasMode } from "../../services/canvas/enum";
 import type { IPlugin, IPluginContext } from "../shared/interface";
 import { TransformPlugin } from "../Transform/Transform.plugin";
+import { findBindingSnap, setEndpointBinding, setupConnectorRouting } from "./Shape1d.binding";
 import { createDraftElement, createFallbackPreviewElement } from "./Shape1d.draft";
 import { createPreviewClone, safeStopDrag, toTElement, updateShapeFromElement } from "./Shape1d.element";
 import { applyAnchorDrag, getInsertionPoint, localPointToWorld, worldPointToLocal } from "./Shape1d.geometry";
@@ -20,6 +21,8 @@ export class Shape1dPlugin implements IPlugin {
   #draftElementId: string | null = null;
   #draftStartPoint: TPoint | null = null;
   #draftCurrentPoint: TPoint | null = null;
+  #draftStartBinding: TBinding | null = null;
+  #draftEndBinding: TBinding | null = null;
   #anchorHandles: Konva.Circle[] = [];
   #insertHandles: Konva.Circle[] = [];
   #activeHandleDrag: THandleDragSnapshot | null = null;
@@ -29,6 +32,7 @@ export class Shape1dPlugin implements IPlugin {
     this.setupDrawFlow(context);
     this.setupEditMode(context);
     setupCapabilities(context);
+    setupConnectorRouting(context);
     context.hooks.destroy.tap(() => {
       this.resetDraft();
       this.resetPreview();
@@ -66,16 +70,23 @@ export class Shape1dPlugin implements IPlugin {
       if (context.state.mode !== CanvasMode.DRAW_CREATE || !isSupportedTool(this.#activeTool)) return;
       const pointer = context.dynamicLayer.getRelativePointerPosition();
       if (!pointer) return;
+      const snap = findBindingSnap(context, pointer);
+      const startPoint = snap?.point ?? pointer;
       this.#draftElementId = crypto.randomUUID();
-      this.#draftStartPoint = [pointer.x, pointer.y];
-      this.#draftCurrentPoint = [pointer.x, pointer.y];
+      this.#draftStartBinding = snap?.binding ?? null;
+      this.#draftEndBinding = null;
+      this.#draftStartPoint = [startPoint.x, startPoint.y];
+      this.#draftCurrentPoint = [startPoint.x, startPoint.y];
       this.syncPreview(context);
     });
     context.hooks.pointerMove.tap(() => {
       if (context.state.mode !== CanvasMode.DRAW_CREATE || !isSupportedTool(this.#activeTool) || !this.#draftStartPoint) return;
       const pointer = context.dynamicLayer.getRelativePointerPosition();
       if (!pointer) return;
-      this.#draftCurrentPoint = [pointer.x, pointer.y];
+      const snap = findBindingSnap(context, pointer, this.#draftStartBinding ? [this.#draftStartBinding.targetId] : []);
+      const currentPoint = snap?.point ?? pointer;
+      this.#draftEndBinding = snap?.binding ?? null;
+      this.#draftCurrentPoint = [currentPoint.x, currentPoint.y];
       this.syncPreview(context);
     });
     const finalizeDraft = () => {
@@ -195,7 +206,10 @@ export class Shape1dPlugin implements IPlugin {
         const editableNode = findShape1dNodeById(context, drag.nodeId);
         const pointer = context.dynamicLayer.getRelativePointerPosition();
         if (!editableNode || !pointer) return;
-        applyAnchorDrag(editableNode, drag, { x: pointer.x, y: pointer.y });
+        const isEndpoint = drag.pointIndex === 0 || drag.pointIndex === drag.beforePoints.length - 1;
+        const snap = isEndpoint ? findBindingSnap(context, pointer, [editableNode.id()]) : null;
+        applyAnchorDrag(editableNode, drag, snap?.point ?? { x: pointer.x, y: pointer.y });
+        if (isEndpoint) setEndpointBinding(editableNode, drag.pointIndex, snap?.binding ?? null);
         this.refreshEditHandlePositions(context, editableNode);
       });
       handle.on("dragend", () => {
@@ -316,13 +330,15 @@ export class Shape1dPlugin implements IPlugin {
   }
 
   private createDraftElement(): TElement | null {
-    return isSupportedTool(this.#activeTool) ? createDraftElement({ activeTool: this.#activeTool, draftElementId: this.#draftElementId, draftStartPoint: this.#draftStartPoint, draftCurrentPoint: this.#draftCurrentPoint }) : null;
+    return isSupportedTool(this.#activeTool) ? createDraftElement({ activeTool: this.#activeTool, draftElementId: this.#draftElementId, draftStartPoint: this.#draftStartPoint, draftCurrentPoint: this.#draftCurrentPoint, startBinding: this.#draftStartBinding, endBinding: this.#draftEndBinding }) : null;
   }
 
   private resetDraft() {
     this.#draftElementId = null;
     this.#draftStartPoint = null;
     this.#draftCurrentPoint = null;
+    this.#draftStartBinding = null;
+    this.#draftEndBinding = null;
   }
 
   private resetPreview() {
@@ -6,6 +6,7 @@ import { CanvasMode } from "../../services/canvas/enum";
 import { startSelectionCloneDrag } from "../shared/clone-drag";
 import type { IPluginContext } from "../shared/interface";
 import { TransformPlugin } from "../Transform/Transform.plugin";
+import { releaseDetachedBindings } from "./Shape1d.binding";
 import { createPreviewClone, safeStopDrag, toTElement, updateShapeFromElement } from "./Shape1d.element";
 import { recordCreateHistory } from "./Shape1d.history";
 import { createShapeFromElement } from "./Shape1d.render";
@@ -136,6 +137,7 @@ export function setupShapeListeners(context: IPluginContext, node: TShape1dNode)
       passengerOriginalElements.clear();
       return;
     }
+    releaseDetachedBindings(context, node);
     const nextElement = toTElement(node);
     const beforeElement = originalElement ? structuredClone(originalElement) : null;
     const afterElement = structuredClone(nextElement);
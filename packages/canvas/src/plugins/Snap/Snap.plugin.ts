@@ -0,0 +1,235 @@
+import Konva from "konva";
+import { CustomEvents } from "../../custom-events";
+import { getGridWorldSize } from "../Grid/Grid.plugin";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { getSnappedMove, getSnappedPoint, type TSnapBox, type TSnapGuide } from "../shared/snap.math";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+
+/** Snap distance in screen pixels; converted to world units with the current zoom. */
+const SNAP_THRESHOLD = 6;
+const GUIDE_COLOR = "#e11d48";
+const SPACING_TICK = 4;
+
+type TSnapNode = Konva.Group | Konva.Shape;
+type TPoint = { x: number; y: number };
+type TSnapEvent = MouseEvent | PointerEvent | undefined;
+
+const ANCHOR_AXES: Record<string, { x: boolean; y: boolean }> = {
+  "top-left": { x: true, y: true },
+  "top-center": { x: false, y: true },
+  "top-right": { x: true, y: true },
+  "middle-left": { x: true, y: false },
+  "middle-right": { x: true, y: false },
+  "bottom-left": { x: true, y: true },
+  "bottom-center": { x: false, y: true },
+  "bottom-right": { x: true, y: true },
+};
+
+function isSnapNode(node: Konva.Node): node is TSnapNode {
+  return node instanceof Konva.Group || node instanceof Konva.Shape;
+}
+
+function getBoundTargetIds(node: Konva.Node) {
+  const data = node.getAttr("vcElementData") as { startBinding?: { targetId: string } | null; endBinding?: { targetId: string } | null } | undefined;
+  return [data?.startBinding?.targetId, data?.endBinding?.targetId].filter((id): id is string => typeof id === "string");
+}
+
+function unionBoxes(boxes: TSnapBox[]): TSnapBox | null {
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map((box) => box.x));
+  const minY = Math.min(...boxes.map((box) => box.y));
+  const maxX = Math.max(...boxes.map((box) => box.x + box.w));
+  const maxY = Math.max(...boxes.map((box) => box.y + box.h));
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+function intersects(left: TSnapBox, right: TSnapBox) {
+  return left.x <= right.x + right.w && right.x <= left.x + left.w && left.y <= right.y + right.h && right.y <= left.y + left.h;
+}
+
+/**
+ * Snaps drags and transformer resizes to the grid, to other elements' edges and centers, and to
+ * equal spacing between neighbours. Guides are drawn on the dynamic layer while snapping.
+ * Holding Cmd/Ctrl inverts the snapping preference for the current drag.
+ */
+export class SnapPlugin implements IPlugin {
+  #enabled = true;
+  #gridVisible = true;
+  #guides = new Konva.Group({ listening: false, name: "snap-guides" });
+  #anchorCandidates: TSnapBox[] | null = null;
+
+  apply(context: IPluginContext): void {
+    context.hooks.init.tap(() => {
+      context.dynamicLayer.add(this.#guides);
+    });
+
+    context.hooks.customEvent.tap((event, value) => {
+      if (event === CustomEvents.SNAP_ENABLED) this.#enabled = value;
+      if (event === CustomEvents.GRID_VISIBLE) this.#gridVisible = value;
+      return false;
+    });
+
+    context.capabilities.snap = {
+      createMoveSnapper: (nodes) => this.createMoveSnapper(context, nodes),
+      snapAnchor: (args) => this.snapAnchor(context, args),
+      clearGuides: () => {
+        this.#anchorCandidates = null;
+        this.drawGuides(context, []);
+      },
+    };
+
+    context.staticForegroundLayer.on("dragstart.snap", (event) => {
+      const target = event.target;
+      if (!isSnapNode(target) || !target.isDragging()) return;
+      this.bindDragSnapping(context, target);
+    });
+
+    context.staticForegroundLayer.on("dragend.snap", (event) => {
+      const target = event.target;
+      if (!isSnapNode(target) || !target.getAttr("vcSnapDragBound")) return;
+      target.setAttr("vcSnapDragBound", false);
+      target.setAttr("dragBoundFunc", undefined);
+      context.capabilities.snap?.clearGuides();
+    });
+
+    context.hooks.destroy.tap(() => {
+      context.staticForegroundLayer.off("dragstart.snap dragend.snap");
+      this.#guides.destroy();
+    });
+  }
+
+  private isActive(event: TSnapEvent) {
+    const inverted = event?.ctrlKey === true || event?.metaKey === true;
+    return this.#enabled !== inverted;
+  }
+
+  private getThreshold(context: IPluginContext) {
+    return SNAP_THRESHOLD / context.camera.zoom;
+  }
+
+  private getGridSize(context: IPluginContext) {
+    return this.#gridVisible ? getGridWorldSize(context.camera.zoom) : null;
+  }
+
+  private getWorldBox(context: IPluginContext, node: Konva.Node): TSnapBox {
+    const rect = node.getClientRect({ relativeTo: context.staticForegroundLayer, skipShadow: true });
+    return { x: rect.x, y: rect.y, w: rect.width, h: rect.height };
+  }
+
+  private getViewportBox(context: IPluginContext): TSnapBox {
+    const { x, y, zoom } = context.camera;
+    return { x: -x / zoom, y: -y / zoom, w: context.stage.width() / zoom, h: context.stage.height() / zoom };
+  }
+
+  /**
+   * Other visible nodes next to the moving ones: top-level nodes plus siblings inside the same group.
+   * Attached text and connectors bound to a moving node are skipped because they move with it.
+   */
+  private getCandidateBoxes(context: IPluginContext, moving: Konva.Node[]) {
+    const movingIds = new Set(moving.map((node) => node.id()));
+    const parents = new Set<Konva.Container>([context.staticForegroundLayer]);
+    moving.forEach((node) => {
+      const parent = node.getParent();
+      if (parent) parents.add(parent);
+    });
+    const viewport = this.getViewportBox(context);
+
+    return [...parents]
+      .flatMap((parent) => parent.getChildren())
+      .filter(isSnapNode)
+      .filter((node) => node.isVisible() && !movingIds.has(node.id()))
+      .filter((node) => !moving.some((candidate) => candidate.getAncestors().includes(node) || node.getAncestors().includes(candidate)))
+      .filter((node) => !movingIds.has(node.getAttr("vcContainerId")))
+      .filter((node) => !getBoundTargetIds(node).some((id) => movingIds.has(id)))
+      .map((node) => this.getWorldBox(context, node))
+      .filter((box) => intersects(box, viewport));
+  }
+
+  private createMoveSnapper(context: IPluginContext, nodes: TSnapNode[]) {
+    const startBox = unionBoxes(nodes.map((node) => this.getWorldBox(context, node)));
+    const candidates = this.getCandidateBoxes(context, nodes);
+
+    return (delta: TPoint, event?: TSnapEvent) => {
+      if (!startBox || !this.isActive(event)) {
+        this.drawGuides(context, []);
+        return delta;
+      }
+
+      const result = getSnappedMove({
+        box: { ...startBox, x: startBox.x + delta.x, y: startBox.y + delta.y },
+        candidates,
+        threshold: this.getThreshold(context),
+        gridSize: this.getGridSize(context),
+      });
+      this.drawGuides(context, result.guides);
+      return { x: delta.x + result.dx, y: delta.y + result.dy };
+    };
+  }
+
+  /** Konva drags go through `dragBoundFunc`, so snapping happens before any dragmove listener runs. */
+  private bindDragSnapping(context: IPluginContext, target: TSnapNode) {
+    const selection = TransformPlugin.filterSelection(context.state.selection);
+    const nodes = selection.includes(target) ? selection : [target];
+    const snapMove = this.createMoveSnapper(context, nodes);
+    const toWorld = (position: TPoint) => context.staticForegroundLayer.getAbsoluteTransform().copy().invert().point(position);
+    const startWorld = toWorld(target.absolutePosition());
+
+    target.setAttr("vcSnapDragBound", true);
+    target.dragBoundFunc((position, event) => {
+      const world = toWorld(position);
+      const delta = snapMove({ x: world.x - startWorld.x, y: world.y - startWorld.y }, event as TSnapEvent);
+      return context.staticForegroundLayer.getAbsoluteTransform().point({ x: startWorld.x + delta.x, y: startWorld.y + delta.y });
+    });
+  }
+
+  private snapAnchor(context: IPluginContext, args: { nodes: Konva.Node[]; anchor: string | null; position: TPoint; event?: TSnapEvent }) {
+    const axes = args.anchor ? ANCHOR_AXES[args.anchor] : undefined;
+    const rotated = args.nodes.some((node) => node.getAbsoluteRotation() % 360 !== 0);
+    if (!axes || rotated || !this.isActive(args.event)) {
+      this.drawGuides(context, []);
+      return args.position;
+    }
+
+    this.#anchorCandidates ??= this.getCandidateBoxes(context, args.nodes);
+    const transform = context.staticForegroundLayer.getAbsoluteTransform().copy();
+    const result = getSnappedPoint({
+      point: transform.copy().invert().point(args.position),
+      axes,
+      candidates: this.#anchorCandidates,
+      threshold: this.getThreshold(context),
+      gridSize: this.getGridSize(context),
+    });
+    this.drawGuides(context, result.guides);
+    return transform.point({ x: result.x, y: result.y });
+  }
+
+  private drawGuides(context: IPluginContext, guides: TSnapGuide[]) {
+    this.#guides.destroyChildren();
+    const strokeWidth = 1 / context.camera.zoom;
+    const tick = SPACING_TICK / context.camera.zoom;
+    const line = (points: number[]) => new Konva.Line({ points, stroke: GUIDE_COLOR, strokeWidth, listening: false });
+
+    guides.forEach((guide) => {
+      if (guide.kind === "align") {
+        this.#guides.add(guide.axis === "x"
+          ? line([guide.position, guide.start, guide.position, guide.end])
+          : line([guide.start, guide.position, guide.end, guide.position]));
+        return;
+      }
+
+      guide.gaps.forEach((gap) => {
+        if (guide.axis === "x") {
+          this.#guides.add(line([gap.start, guide.cross, gap.end, guide.cross]));
+          this.#guides.add(line([gap.start, guide.cross - tick, gap.start, guide.cross + tick]));
+          this.#guides.add(line([gap.end, guide.cross - tick, gap.end, guide.cross + tick]));
+          return;
+        }
+        this.#guides.add(line([guide.cross, gap.start, guide.cross, gap.end]));
+        this.#guides.add(line([guide.cross - tick, gap.start, guide.cross + tick, gap.start]));
+        this.#guides.add(line([guide.cross - tick, gap.end, guide.cross + tick, gap.end]));
+      });
+    });
+
+    context.dynamicLayer.batchDraw();
+  }
+}
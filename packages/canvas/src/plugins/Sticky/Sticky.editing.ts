@@ -0,0 +1,130 @@
+import { STICKY_FONT_FAMILY, STICKY_LINE_HEIGHT, STICKY_PADDING, STICKY_TEXT_COLOR } from "@vibecanvas/canvas-cmds/core/fn.sticky";
+import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type Konva from "konva";
+import type { IPluginContext } from "../shared/interface";
+import {
+  STICKY_EDITING_ATTR,
+  STICKY_TEXT_ATTR,
+  layoutStickyNode,
+  toTElement,
+  updateStickyNodeFromElement,
+} from "./Sticky.shared";
+
+/**
+ * Edits a note's text in place. The note relayouts while typing, so a growing note grows and a
+ * fitting note shrinks its font under the cursor. New notes are inserted on commit, even when left
+ * empty, so placing and writing a note is one history step.
+ */
+export function editStickyText(
+  context: IPluginContext,
+  node: Konva.Shape,
+  args: { isNew: boolean; onInsert?: (element: TElement) => void },
+) {
+  const originalElement = toTElement(node);
+  context.setState("editingTextId", node.id());
+  node.setAttr(STICKY_EDITING_ATTR, true);
+  node.getLayer()?.batchDraw();
+
+  const textarea = document.createElement("textarea");
+  const absPos = node.getAbsolutePosition();
+  const absScale = node.getAbsoluteScale();
+  textarea.value = originalElement.data.type === "sticky" ? originalElement.data.text : "";
+  textarea.setAttribute("aria-label", "Sticky note text");
+
+  const syncTextarea = () => {
+    const layout = layoutStickyNode(node);
+    Object.assign(textarea.style, {
+      width: (node.width() - STICKY_PADDING * 2) * absScale.x + "px",
+      height: (node.height() - STICKY_PADDING * 2) * absScale.y + "px",
+      fontSize: layout.fontSize * absScale.y + "px",
+    });
+    node.getLayer()?.batchDraw();
+  };
+
+  Object.assign(textarea.style, {
+    position: "absolute",
+    top: absPos.y + "px",
+    left: absPos.x + "px",
+    padding: "0",
+    margin: STICKY_PADDING * absScale.y + "px 0 0 " + STICKY_PADDING * absScale.x + "px",
+    fontFamily: STICKY_FONT_FAMILY,
+    lineHeight: String(STICKY_LINE_HEIGHT),
+    transform: `rotate(${node.getAbsoluteRotation()}deg)`,
+    transformOrigin: `${-STICKY_PADDING * absScale.x}px ${-STICKY_PADDING * absScale.y}px`,
+    whiteSpace: "pre-wrap",
+    wordBreak: "break-word",
+    outline: "none",
+    background: "transparent",
+    border: "none",
+    resize: "none",
+    overflow: "hidden",
+    boxSizing: "border-box",
+    zIndex: "9999",
+    color: STICKY_TEXT_COLOR,
+  });
+
+  const onInput = () => {
+    node.setAttr(STICKY_TEXT_ATTR, textarea.value);
+    syncTextarea();
+  };
+
+  let closed = false;
+  const commit = () => {
+    if (closed) return;
+    closed = true;
+    textarea.removeEventListener("input", onInput);
+    textarea.removeEventListener("keydown", onKeydown);
+    textarea.removeEventListener("keyup", stopKeyPropagation);
+    textarea.removeEventListener("blur", commit);
+    textarea.remove();
+    context.setState("editingTextId", null);
+
+    node.setAttr(STICKY_EDITING_ATTR, false);
+    node.setAttr(STICKY_TEXT_ATTR, textarea.value);
+    layoutStickyNode(node);
+    node.getLayer()?.batchDraw();
+
+    const afterElement = toTElement(node);
+    if (args.isNew) {
+      args.onInsert?.(afterElement);
+      return;
+    }
+
+    if (afterElement.data.type === "sticky" && originalElement.data.type === "sticky" && afterElement.data.text === originalElement.data.text) return;
+    context.crdt.patch({ elements: [afterElement], groups: [] });
+    context.history.record({
+      label: "edit-sticky",
+      undo() {
+        updateStickyNodeFromElement(node, originalElement);
+        context.crdt.patch({ elements: [originalElement], groups: [] });
+      },
+      redo() {
+        updateStickyNodeFromElement(node, afterElement);
+        context.crdt.patch({ elements: [afterElement], groups: [] });
+      },
+    });
+  };
+
+  const stopKeyPropagation = (event: KeyboardEvent) => {
+    event.stopPropagation();
+  };
+
+  const onKeydown = (event: KeyboardEvent) => {
+    event.stopPropagation();
+    if (event.key === "Escape" || (event.key === "Enter" && (event.metaKey || event.ctrlKey))) {
+      event.preventDefault();
+      commit();
+    }
+  };
+
+  textarea.addEventListener("input", onInput);
+  textarea.addEventListener("keydown", onKeydown);
+  textarea.addEventListener("keyup", stopKeyPropagation);
+  textarea.addEventListener("blur", commit);
+  context.stage.container().appendChild(textarea);
+  syncTextarea();
+  textarea.focus();
+  textarea.select();
+
+  return { commit, textarea };
+}
@@ -0,0 +1,127 @@
+import { throttle } from "@solid-primitives/scheduled";
+import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import { CustomEvents } from "../../custom-events";
+import { CanvasMode } from "../../services/canvas/enum";
+import type { IPluginContext } from "../shared/interface";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+import { toTElement } from "./Sticky.shared";
+
+function getNodeElements(context: IPluginContext, node: Konva.Group | Konva.Shape): TElement[] {
+  const shapes = node instanceof Konva.Group
+    ? node.find((child: Konva.Node) => child instanceof Konva.Shape) as Konva.Shape[]
+    : [node];
+  return structuredClone(shapes
+    .map((shape) => context.capabilities.toElement?.(shape))
+    .filter(Boolean) as TElement[]);
+}
+
+function applyElements(context: IPluginContext, elements: TElement[]) {
+  elements.forEach((element) => {
+    const node = context.capabilities.updateShapeFromTElement?.(element);
+    let parent = node?.getParent();
+    while (parent instanceof Konva.Group) {
+      parent.fire("transform");
+      parent = parent.getParent();
+    }
+  });
+  if (elements.length > 0) context.crdt.patch({ elements, groups: [] });
+}
+
+/**
+ * Notes drag with the rest of the selection as one history step. Double-click opens the text
+ * editor.
+ */
+export function setupStickyListeners(
+  runtime: { context: IPluginContext; edit: (node: Konva.Shape) => void },
+  payload: { node: Konva.Shape },
+) {
+  const { context } = runtime;
+  const { node } = payload;
+  const startPositions = new Map<Konva.Group | Konva.Shape, { x: number; y: number }>();
+  const originalElements = new Map<Konva.Group | Konva.Shape, TElement[]>();
+
+  const throttledPatch = throttle((element: TElement) => {
+    context.crdt.patch({ elements: [element], groups: [] });
+  }, 100);
+
+  node.on("pointerclick", (event) => {
+    if (context.state.mode !== CanvasMode.SELECT) return;
+    context.hooks.customEvent.call(CustomEvents.ELEMENT_POINTERCLICK, event);
+  });
+
+  node.on("pointerdown dragstart", (event) => {
+    if (context.state.mode !== CanvasMode.SELECT) {
+      node.stopDrag();
+      return;
+    }
+
+    if (event.type === "pointerdown") {
+      const earlyExit = context.hooks.customEvent.call(CustomEvents.ELEMENT_POINTERDOWN, event);
+      if (earlyExit) event.cancelBubble = true;
+    }
+  });
+
+  node.on("pointerdblclick", (event) => {
+    if (context.state.mode !== CanvasMode.SELECT) return;
+    const earlyExit = context.hooks.customEvent.call(CustomEvents.ELEMENT_POINTERDBLCLICK, event);
+    if (earlyExit) {
+      event.cancelBubble = true;
+      return;
+    }
+
+    event.cancelBubble = true;
+    runtime.edit(node);
+  });
+
+  node.on("dragstart", () => {
+    startPositions.clear();
+    originalElements.clear();
+
+    const selected = TransformPlugin.filterSelection(context.state.selection);
+    new Set<Konva.Group | Konva.Shape>([node, ...selected]).forEach((moved) => {
+      startPositions.set(moved, { ...moved.absolutePosition() });
+      originalElements.set(moved, moved === node ? [toTElement(node)] : getNodeElements(context, moved));
+    });
+  });
+
+  node.on("dragmove", () => {
+    throttledPatch(toTElement(node));
+
+    const start = startPositions.get(node);
+    if (!start) return;
+
+    const current = node.absolutePosition();
+    const dx = current.x - start.x;
+    const dy = current.y - start.y;
+    startPositions.forEach((otherStart, other) => {
+      if (other === node || other.isDragging()) return;
+      other.absolutePosition({ x: otherStart.x + dx, y: otherStart.y + dy });
+    });
+  });
+
+  node.on("dragend", () => {
+    const beforeElements = [...originalElements.values()].flat();
+    const afterElements = [...originalElements.keys()]
+      .flatMap((moved) => moved === node ? [structuredClone(toTElement(node))] : getNodeElements(context, moved));
+    startPositions.clear();
+    originalElements.clear();
+
+    if (afterElements.length > 0) context.crdt.patch({ elements: afterElements, groups: [] });
+
+    const stickyBefore = beforeElements.find((element) => element.id === node.id());
+    const stickyAfter = afterElements.find((element) => element.id === node.id());
+    if (!stickyBefore || !stickyAfter) return;
+    if (stickyBefore.x === stickyAfter.x && stickyBefore.y === stickyAfter.y) return;
+
+    context.history.record({
+      label: "drag-sticky",
+      undo() {
+        applyElements(context, beforeElements);
+      },
+      redo() {
+        applyElements(context, afterElements);
+      },
+    });
+  });
+}
@@ -0,0 +1,198 @@
+import { STICKY_DEFAULT_COLOR, STICKY_DEFAULT_SIZE } from "@vibecanvas/canvas-cmds/core/fn.sticky";
+import type { TElement, TStickyColor, TStickyData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import type { TTool } from "../../components/FloatingCanvasToolbar/toolbar.types";
+import { CustomEvents } from "../../custom-events";
+import { CanvasMode } from "../../services/canvas/enum";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { setNodeZIndex } from "../shared/render-order.shared";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+import { editStickyText } from "./Sticky.editing";
+import { setupStickyListeners } from "./Sticky.listeners";
+import {
+  STICKY_AUTO_SIZE_ATTR,
+  STICKY_COLOR_ATTR,
+  createStickyElement,
+  createStickyNode,
+  getStickyData,
+  isStickyNode,
+  toTElement,
+  updateStickyNodeFromElement,
+} from "./Sticky.shared";
+
+/**
+ * Sticky notes are colored squares of text. A growing note keeps its font and gets taller as the
+ * text does; a fitting note keeps its size and shrinks the font. The footer signs the note with
+ * its author and creation day.
+ */
+export class StickyPlugin implements IPlugin {
+  #activeTool: TTool = "select";
+  /** New notes take the color last picked for a note. */
+  #lastColor: TStickyColor = STICKY_DEFAULT_COLOR;
+
+  apply(context: IPluginContext): void {
+    this.setupClickCreate(context);
+    this.setupEditShortcut(context);
+    this.setupCapabilities(context);
+  }
+
+  private setupClickCreate(context: IPluginContext) {
+    context.hooks.customEvent.tap((event, payload) => {
+      if (event === CustomEvents.TOOL_SELECT) {
+        this.#activeTool = payload as TTool;
+      }
+      return false;
+    });
+
+    context.hooks.pointerUp.tap(() => {
+      if (context.state.mode !== CanvasMode.CLICK_CREATE) return;
+      if (this.#activeTool !== "sticky") return;
+
+      const pointer = context.staticForegroundLayer.getRelativePointerPosition();
+      if (!pointer) return;
+
+      const element = createStickyElement({
+        id: crypto.randomUUID(),
+        x: pointer.x - STICKY_DEFAULT_SIZE / 2,
+        y: pointer.y - STICKY_DEFAULT_SIZE / 2,
+        color: this.#lastColor,
+      });
+      const node = StickyPlugin.createStickyNode(context, element);
+      context.staticForegroundLayer.add(node);
+      context.capabilities.renderOrder?.assignOrderOnInsert({
+        parent: context.staticForegroundLayer,
+        nodes: [node],
+        position: "front",
+      });
+
+      context.setState("mode", CanvasMode.SELECT);
+      context.hooks.customEvent.call(CustomEvents.TOOL_SELECT, "select");
+      context.setState("selection", [node]);
+
+      editStickyText(context, node, {
+        isNew: true,
+        onInsert: (insertedElement) => StickyPlugin.recordInsert(context, node, insertedElement),
+      });
+    });
+  }
+
+  private setupEditShortcut(context: IPluginContext) {
+    context.hooks.keydown.tap((event) => {
+      if (event.key !== "Enter") return;
+      if (context.state.mode !== CanvasMode.SELECT) return;
+      if (context.state.editingTextId !== null) return;
+
+      const selection = TransformPlugin.filterSelection(context.state.selection);
+      if (selection.length !== 1 || !isStickyNode(selection[0])) return;
+
+      const target = event.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return;
+      if (target instanceof HTMLElement && target.isContentEditable) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      StickyPlugin.edit(context, selection[0]);
+    });
+  }
+
+  private static recordInsert(context: IPluginContext, node: Konva.Shape, element: TElement) {
+    context.crdt.patch({ elements: [element], groups: [] });
+
+    let currentNode = node;
+    context.history.record({
+      label: "insert-sticky",
+      undo() {
+        context.setState("selection", []);
+        currentNode.destroy();
+        context.crdt.deleteById({ elementIds: [element.id] });
+      },
+      redo() {
+        currentNode = StickyPlugin.createStickyNode(context, element);
+        context.staticForegroundLayer.add(currentNode);
+        setNodeZIndex(currentNode, element.zIndex);
+        context.capabilities.renderOrder?.sortChildren(context.staticForegroundLayer);
+        context.crdt.patch({ elements: [element], groups: [] });
+        context.setState("selection", [currentNode]);
+      },
+    });
+  }
+
+  static edit(context: IPluginContext, node: Konva.Shape) {
+    if (context.state.editingTextId !== null) return;
+    editStickyText(context, node, { isNew: false });
+  }
+
+  /** Applies one note attribute to several notes as a single history step. */
+  private static setAttribute(
+    context: IPluginContext,
+    nodes: Konva.Shape[],
+    args: { attr: string; value: unknown; label: string },
+  ) {
+    const stickies = nodes.filter(isStickyNode);
+    if (stickies.length === 0) return;
+
+    const beforeElements = stickies.map((node) => toTElement(node));
+    stickies.forEach((node) => node.setAttr(args.attr, args.value));
+    const afterElements = stickies.map((node) => toTElement(node));
+    stickies.forEach((node, index) => updateStickyNodeFromElement(node, afterElements[index]));
+    context.crdt.patch({ elements: afterElements, groups: [] });
+
+    const apply = (elements: TElement[]) => {
+      elements.forEach((element, index) => updateStickyNodeFromElement(stickies[index], element));
+      context.crdt.patch({ elements, groups: [] });
+    };
+    context.history.record({
+      label: args.label,
+      undo: () => apply(beforeElements),
+      redo: () => apply(afterElements),
+    });
+  }
+
+  static createStickyNode(context: IPluginContext, element: TElement) {
+    const node = createStickyNode(element);
+    setupStickyListeners({ context, edit: (sticky) => StickyPlugin.edit(context, sticky) }, { node });
+    node.setDraggable(true);
+    return node;
+  }
+
+  private setupCapabilities(context: IPluginContext) {
+    const previousCreate = context.capabilities.createShapeFromTElement;
+    context.capabilities.createShapeFromTElement = (element) => {
+      if (element.data.type !== "sticky") return previousCreate?.(element) ?? null;
+      return StickyPlugin.createStickyNode(context, element);
+    };
+
+    const previousToElement = context.capabilities.toElement;
+    context.capabilities.toElement = (node) => {
+      if (isStickyNode(node)) return toTElement(node);
+      return previousToElement?.(node) ?? null;
+    };
+
+    const previousUpdate = context.capabilities.updateShapeFromTElement;
+    context.capabilities.updateShapeFromTElement = (element) => {
+      if (element.data.type !== "sticky") return previousUpdate?.(element) ?? null;
+
+      const node = context.staticForegroundLayer.findOne((candidate: Konva.Node) => {
+        return isStickyNode(candidate) && candidate.id() === element.id;
+      });
+      if (!isStickyNode(node)) return null;
+
+      updateStickyNodeFromElement(node, element);
+      return node;
+    };
+
+    context.capabilities.stickies = {
+      isStickyNode,
+      edit: (node) => StickyPlugin.edit(context, node),
+      getColor: (node) => getStickyData(node).color,
+      setColor: (nodes, color) => {
+        this.#lastColor = color;
+        StickyPlugin.setAttribute(context, nodes, { attr: STICKY_COLOR_ATTR, value: color, label: "recolor-sticky" });
+      },
+      getAutoSize: (node) => getStickyData(node).autoSize,
+      setAutoSize: (nodes, autoSize: TStickyData["autoSize"]) => {
+        StickyPlugin.setAttribute(context, nodes, { attr: STICKY_AUTO_SIZE_ATTR, value: autoSize, label: "resize-sticky" });
+      },
+    };
+  }
+}
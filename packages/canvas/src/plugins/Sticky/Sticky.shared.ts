@@ -0,0 +1,215 @@
+import {
+  STICKY_COLORS,
+  STICKY_DEFAULT_COLOR,
+  STICKY_DEFAULT_FONT_SIZE,
+  STICKY_DEFAULT_SIZE,
+  STICKY_FONT_FAMILY,
+  STICKY_FOOTER_COLOR,
+  STICKY_FOOTER_FONT_SIZE,
+  STICKY_LINE_HEIGHT,
+  STICKY_PADDING,
+  STICKY_TEXT_COLOR,
+  fnEstimateStickyTextWidth,
+  fnFormatStickyFooter,
+  fnGetStickyFooterY,
+  fnLayoutSticky,
+  fnTruncateStickyLine,
+  type TStickyLayout,
+  type TStickyMeasure,
+} from "@vibecanvas/canvas-cmds/core/fn.sticky";
+import type { TElement, TStickyColor, TStickyData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import { getWorldPosition, setWorldPosition } from "../shared/node-space";
+import { getNodeZIndex, setNodeZIndex } from "../shared/render-order.shared";
+
+export const STICKY_NODE_ATTR = "vcSticky";
+export const STICKY_TEXT_ATTR = "vcStickyText";
+export const STICKY_COLOR_ATTR = "vcStickyColor";
+export const STICKY_FONT_SIZE_ATTR = "vcStickyFontSize";
+export const STICKY_AUTO_SIZE_ATTR = "vcStickyAutoSize";
+export const STICKY_AUTHOR_ATTR = "vcStickyAuthor";
+export const STICKY_EDITING_ATTR = "vcStickyEditing";
+export const STICKY_CREATED_AT_ATTR = "vcElementCreatedAt";
+const STICKY_LAYOUT_ATTR = "vcStickyLayout";
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+/** Measures with the browser's font metrics, falling back to the headless estimate. */
+export const measureStickyText: TStickyMeasure = (text, fontSize) => {
+  if (measureContext === undefined) measureContext = document.createElement("canvas").getContext("2d");
+  if (!measureContext) return fnEstimateStickyTextWidth(text, fontSize);
+  measureContext.font = `${fontSize}px ${STICKY_FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+};
+
+export function isStickyNode(node: Konva.Node | null | undefined): node is Konva.Shape {
+  return node instanceof Konva.Shape && node.getAttr(STICKY_NODE_ATTR) === true;
+}
+
+export function getStickyData(node: Konva.Shape): Omit<TStickyData, "type" | "w" | "h"> {
+  return {
+    text: (node.getAttr(STICKY_TEXT_ATTR) as string | undefined) ?? "",
+    color: (node.getAttr(STICKY_COLOR_ATTR) as TStickyColor | undefined) ?? STICKY_DEFAULT_COLOR,
+    fontSize: (node.getAttr(STICKY_FONT_SIZE_ATTR) as number | undefined) ?? STICKY_DEFAULT_FONT_SIZE,
+    autoSize: (node.getAttr(STICKY_AUTO_SIZE_ATTR) as TStickyData["autoSize"] | undefined) ?? "grow",
+    author: (node.getAttr(STICKY_AUTHOR_ATTR) as string | null | undefined) ?? null,
+  };
+}
+
+export function getStickyLayout(node: Konva.Shape): TStickyLayout {
+  return (node.getAttr(STICKY_LAYOUT_ATTR) as TStickyLayout | undefined) ?? { fontSize: STICKY_DEFAULT_FONT_SIZE, lines: [], h: node.height() };
+}
+
+/**
+ * Re-wraps the text for the node's current size. Growing notes take the height the text needs.
+ */
+export function layoutStickyNode(node: Konva.Shape) {
+  const layout = fnLayoutSticky({ ...getStickyData(node), w: node.width(), h: node.height() }, measureStickyText);
+  node.setAttr(STICKY_LAYOUT_ATTR, layout);
+  if (node.height() !== layout.h) node.height(layout.h);
+  return layout;
+}
+
+function drawSticky(context: Konva.Context, shape: Konva.Shape) {
+  const width = shape.width();
+  const height = shape.height();
+  context.beginPath();
+  context.rect(0, 0, width, height);
+  context.closePath();
+  context.fillStrokeShape(shape);
+
+  const layout = getStickyLayout(shape);
+  const lineHeight = layout.fontSize * STICKY_LINE_HEIGHT;
+  context.setAttr("textBaseline", "middle");
+  if (shape.getAttr(STICKY_EDITING_ATTR) !== true) {
+    context.setAttr("font", `${layout.fontSize}px ${STICKY_FONT_FAMILY}`);
+    context.setAttr("fillStyle", STICKY_TEXT_COLOR);
+    layout.lines.forEach((line, index) => {
+      context.fillText(line, STICKY_PADDING, STICKY_PADDING + index * lineHeight + lineHeight / 2);
+    });
+  }
+
+  const { author } = getStickyData(shape);
+  const createdAt = Number(shape.getAttr(STICKY_CREATED_AT_ATTR) ?? Date.now());
+  const footer = fnTruncateStickyLine(fnFormatStickyFooter(author, createdAt), width - STICKY_PADDING * 2, STICKY_FOOTER_FONT_SIZE, measureStickyText);
+  context.setAttr("font", `${STICKY_FOOTER_FONT_SIZE}px ${STICKY_FONT_FAMILY}`);
+  context.setAttr("fillStyle", STICKY_FOOTER_COLOR);
+  context.fillText(footer, STICKY_PADDING, fnGetStickyFooterY(height));
+}
+
+function hitSticky(context: Konva.Context, shape: Konva.Shape) {
+  context.beginPath();
+  context.rect(0, 0, shape.width(), shape.height());
+  context.closePath();
+  context.fillStrokeShape(shape);
+}
+
+function syncNodeMetadata(node: Konva.Shape, element: TElement) {
+  const data = element.data as TStickyData;
+  node.setAttr(STICKY_NODE_ATTR, true);
+  node.setAttr(STICKY_TEXT_ATTR, data.text);
+  node.setAttr(STICKY_COLOR_ATTR, data.color);
+  node.setAttr(STICKY_FONT_SIZE_ATTR, data.fontSize);
+  node.setAttr(STICKY_AUTO_SIZE_ATTR, data.autoSize);
+  node.setAttr(STICKY_AUTHOR_ATTR, data.author);
+  node.setAttr(STICKY_CREATED_AT_ATTR, element.createdAt);
+  node.fill(STICKY_COLORS[data.color] ?? STICKY_COLORS[STICKY_DEFAULT_COLOR]);
+}
+
+export function createStickyNode(element: TElement): Konva.Shape {
+  const data = element.data as TStickyData;
+  const node = new Konva.Shape({
+    id: element.id,
+    x: element.x,
+    y: element.y,
+    rotation: element.rotation,
+    width: data.w,
+    height: data.h,
+    opacity: element.style.opacity ?? 1,
+    shadowColor: "#000000",
+    shadowOpacity: 0.12,
+    shadowBlur: 8,
+    shadowOffsetY: 2,
+    draggable: false,
+    sceneFunc: drawSticky,
+    hitFunc: hitSticky,
+  });
+
+  syncNodeMetadata(node, element);
+  layoutStickyNode(node);
+  setNodeZIndex(node, element.zIndex);
+  return node;
+}
+
+export function updateStickyNodeFromElement(node: Konva.Shape, element: TElement) {
+  const data = element.data as TStickyData;
+  setWorldPosition(node, { x: element.x, y: element.y });
+  if (node.getAbsoluteRotation() !== element.rotation) node.rotation(element.rotation);
+  if (node.width() !== data.w) node.width(data.w);
+  if (node.height() !== data.h) node.height(data.h);
+  if (node.scaleX() !== 1) node.scaleX(1);
+  if (node.scaleY() !== 1) node.scaleY(1);
+  if (node.opacity() !== (element.style.opacity ?? 1)) node.opacity(element.style.opacity ?? 1);
+  setNodeZIndex(node, element.zIndex);
+  syncNodeMetadata(node, element);
+  layoutStickyNode(node);
+}
+
+export function toTElement(node: Konva.Shape): TElement {
+  const worldPosition = getWorldPosition(node);
+  const absoluteScale = node.getAbsoluteScale();
+  const layer = node.getLayer();
+  const layerScaleX = layer?.scaleX() ?? 1;
+  const layerScaleY = layer?.scaleY() ?? 1;
+  const parent = node.getParent();
+  const stickyData = getStickyData(node);
+  const w = node.width() * (absoluteScale.x / layerScaleX);
+  const h = node.height() * (absoluteScale.y / layerScaleY);
+
+  return {
+    id: node.id(),
+    x: worldPosition.x,
+    y: worldPosition.y,
+    rotation: node.getAbsoluteRotation(),
+    bindings: [],
+    createdAt: Number(node.getAttr(STICKY_CREATED_AT_ATTR) ?? Date.now()),
+    updatedAt: Date.now(),
+    locked: false,
+    parentGroupId: parent instanceof Konva.Group ? parent.id() : null,
+    zIndex: getNodeZIndex(node),
+    style: { opacity: node.opacity() },
+    data: {
+      type: "sticky",
+      w,
+      // A resized growing note settles at the height its text needs at the new width.
+      h: stickyData.autoSize === "grow" ? fnLayoutSticky({ ...stickyData, w, h }, measureStickyText).h : h,
+      ...stickyData,
+    },
+  };
+}
+
+export function createStickyElement(args: { id: string; x: number; y: number; color: TStickyColor }): TElement {
+  return {
+    id: args.id,
+    x: args.x,
+    y: args.y,
+    rotation: 0,
+    bindings: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    locked: false,
+    parentGroupId: null,
+    zIndex: "",
+    style: {},
+    data: {
+      type: "sticky",
+      w: STICKY_DEFAULT_SIZE,
+      h: STICKY_DEFAULT_SIZE,
+      text: "",
+      color: args.color,
+      fontSize: STICKY_DEFAULT_FONT_SIZE,
+      autoSize: "grow",
+      author: null,
+    },
+  };
+}
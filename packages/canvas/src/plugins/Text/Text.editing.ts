@@ -1,6 +1,9 @@
-import { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { fnBuildRichTextFields, fnGetTextSource } from "@vibecanvas/canvas-cmds/core/fn.rich-text";
+import { TElement, TTextData } from "@vibecanvas/service-automerge/types/canvas-doc";
 import Konva from "konva";
 import type { IPluginContext } from "../shared/interface";
+import { applyTextFormatCommand, continueTextList, getTextFormatCommand, type TTextEditState } from "./Text.formatting";
+import { setTextMarkdown } from "./Text.rich";
 import {
   computeTextHeight,
   computeTextWidth,
@@ -23,7 +26,6 @@ export function enterEditMode(
     toTElement: typeof toTElementType;
   },
 ) {
-  const originalText = node.text();
   const containerId = deps.getContainerId(node);
   const isAttached = containerId !== null;
   const attachedRect = isAttached && containerId ? deps.findAttachedContainerRect(context, containerId) : null;
@@ -31,6 +33,8 @@ export function enterEditMode(
   const originalRectWidth = attachedRect?.width() ?? null;
   const originalRectHeight = attachedRect?.height() ?? null;
   const originalTextElement = deps.toTElement(node);
+  // The textarea edits the markdown source; plain text is escaped so it reads back unchanged.
+  const originalSource = fnGetTextSource(originalTextElement.data as TTextData);
   context.setState('editingTextId', node.id());
   node.visible(false);
   context.stage.batchDraw();
@@ -50,7 +54,7 @@ export function enterEditMode(
     return Math.max(deps.computeTextWidth(node, text) * absScale.x, 4);
   };
 
-  textarea.value = node.text();
+  textarea.value = originalSource;
   textarea.rows = 1;
   Object.assign(textarea.style, {
     position: 'absolute',
@@ -120,8 +124,10 @@ export function enterEditMode(
       return;
     }
 
-    const textToSet = (!isNew && newText === '') ? originalText : newText;
-    node.text(textToSet);
+    const textToSet = (!isNew && newText === '') ? originalSource : newText;
+    const fields = fnBuildRichTextFields(textToSet);
+    setTextMarkdown(node, fields.markdown);
+    node.text(fields.text);
     if (isAttached && attachedRect && originalRectWidth !== null && originalRectHeight !== null) {
       attachedRect.width(originalRectWidth);
       attachedRect.height(Math.max(originalRectHeight, worldHeightFromTextarea));
@@ -137,7 +143,7 @@ export function enterEditMode(
     const rectElement = attachedRect ? context.capabilities.toElement?.(attachedRect) : null;
     context.crdt.patch({ elements: [rectElement, textElement].filter(Boolean) as TElement[], groups: [] });
 
-    if (textToSet !== originalText) {
+    if (textToSet !== originalSource) {
       const afterRectElement = attachedRect ? context.capabilities.toElement?.(attachedRect) : null;
       const afterTextElement = deps.toTElement(node);
       context.history.record({
@@ -190,15 +196,35 @@ export function enterEditMode(
       return;
     }
 
+    const selectionStart = textarea.selectionStart ?? textarea.value.length;
+    const selectionEnd = textarea.selectionEnd ?? selectionStart;
+    const state: TTextEditState = { value: textarea.value, selectionStart, selectionEnd };
+
+    const command = getTextFormatCommand(e);
+    if (command) {
+      e.preventDefault();
+      applyEditState(applyTextFormatCommand(state, command));
+      return;
+    }
+
     if (e.key === 'Enter') {
       e.preventDefault();
-      const selectionStart = textarea.selectionStart ?? textarea.value.length;
-      const selectionEnd = textarea.selectionEnd ?? selectionStart;
+      const continued = e.shiftKey ? null : continueTextList(state);
+      if (continued) {
+        applyEditState(continued);
+        return;
+      }
       textarea.setRangeText('\n', selectionStart, selectionEnd, 'end');
       autoGrow();
     }
   };
 
+  const applyEditState = (state: TTextEditState) => {
+    textarea.value = state.value;
+    textarea.setSelectionRange(state.selectionStart, state.selectionEnd);
+    autoGrow();
+  };
+
   textarea.addEventListener('blur', commit, { once: true });
   textarea.addEventListener('keydown', onTextareaKeydown);
   textarea.addEventListener('keyup', stopTextareaKeyPropagation);
@@ -0,0 +1,148 @@
+/** Textarea contents and selection, as edited by the markdown formatting shortcuts. */
+export type TTextEditState = {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+};
+
+export type TTextFormatCommand =
+  | { kind: 'inline'; marker: '**' | '*' | '`' | '~~' }
+  | { kind: 'link' }
+  | { kind: 'list'; list: 'bullet' | 'numbered' }
+  | { kind: 'heading'; level: 1 | 2 | 3 };
+
+const LIST_PREFIX = /^([-*+] |\d{1,9}[.)] )/;
+const HEADING_PREFIX = /^#{1,3} /;
+
+/**
+ * Maps editor shortcuts to formatting: Mod+B/I/E/K for bold, italic, code and link, Mod+Shift+X for
+ * strikethrough, Mod+Shift+7/8 for numbered and bullet lists, Mod+Alt+1–3 for headings.
+ */
+export function getTextFormatCommand(event: Pick<KeyboardEvent, 'key' | 'code' | 'metaKey' | 'ctrlKey' | 'shiftKey' | 'altKey'>): TTextFormatCommand | null {
+  if (!event.metaKey && !event.ctrlKey) return null;
+
+  if (event.altKey) {
+    const level = { Digit1: 1, Digit2: 2, Digit3: 3 }[event.code] as 1 | 2 | 3 | undefined;
+    return level ? { kind: 'heading', level } : null;
+  }
+  if (event.shiftKey) {
+    if (event.code === 'KeyX') return { kind: 'inline', marker: '~~' };
+    if (event.code === 'Digit7') return { kind: 'list', list: 'numbered' };
+    if (event.code === 'Digit8') return { kind: 'list', list: 'bullet' };
+    return null;
+  }
+
+  switch (event.key.toLowerCase()) {
+    case 'b': return { kind: 'inline', marker: '**' };
+    case 'i': return { kind: 'inline', marker: '*' };
+    case 'e': return { kind: 'inline', marker: '`' };
+    case 'k': return { kind: 'link' };
+    default: return null;
+  }
+}
+
+export function applyTextFormatCommand(state: TTextEditState, command: TTextFormatCommand): TTextEditState {
+  if (command.kind === 'inline') return toggleInlineMarker(state, command.marker);
+  if (command.kind === 'link') return insertLink(state);
+  if (command.kind === 'list') {
+    return updateSelectedLines(state, (lines) => {
+      const prefixes = lines.map((_, index) => command.list === 'bullet' ? '- ' : `${index + 1}. `);
+      const isApplied = lines.every((line) => command.list === 'bullet' ? /^[-*+] /.test(line) : /^\d{1,9}[.)] /.test(line));
+      return lines.map((line, index) => {
+        const content = line.replace(LIST_PREFIX, '');
+        return isApplied ? content : prefixes[index] + content;
+      });
+    });
+  }
+
+  const prefix = `${'#'.repeat(command.level)} `;
+  return updateSelectedLines(state, (lines) => {
+    const isApplied = lines.every((line) => line.startsWith(prefix));
+    return lines.map((line) => {
+      const content = line.replace(HEADING_PREFIX, '');
+      return isApplied ? content : prefix + content;
+    });
+  });
+}
+
+/** Wraps the selection in `marker`, or unwraps it when the marker already surrounds it. */
+function toggleInlineMarker(state: TTextEditState, marker: string): TTextEditState {
+  const { value, selectionStart, selectionEnd } = state;
+  const before = value.slice(0, selectionStart);
+  const after = value.slice(selectionEnd);
+  // Bold and italic share `*`, so `**word**` is bold only and `***word***` is both.
+  const asterisks = marker.startsWith('*') ? /\**$/.exec(before)![0].length : marker.length;
+  const isWrapped = marker === '*' ? asterisks % 2 === 1 : asterisks >= marker.length;
+  if (isWrapped && before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      value: before.slice(0, -marker.length) + value.slice(selectionStart, selectionEnd) + after.slice(marker.length),
+      selectionStart: selectionStart - marker.length,
+      selectionEnd: selectionEnd - marker.length,
+    };
+  }
+
+  return {
+    value: before + marker + value.slice(selectionStart, selectionEnd) + marker + after,
+    selectionStart: selectionStart + marker.length,
+    selectionEnd: selectionEnd + marker.length,
+  };
+}
+
+/** Turns the selection into a link label and selects the URL placeholder. */
+function insertLink(state: TTextEditState): TTextEditState {
+  const label = state.value.slice(state.selectionStart, state.selectionEnd) || 'link';
+  const url = 'https://';
+  const inserted = `[${label}](${url})`;
+  const urlStart = state.selectionStart + label.length + 3;
+  return {
+    value: state.value.slice(0, state.selectionStart) + inserted + state.value.slice(state.selectionEnd),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length,
+  };
+}
+
+function updateSelectedLines(state: TTextEditState, update: (lines: string[]) => string[]): TTextEditState {
+  const { value } = state;
+  const start = value.lastIndexOf('\n', state.selectionStart - 1) + 1;
+  const endBreak = value.indexOf('\n', state.selectionEnd);
+  const end = endBreak === -1 ? value.length : endBreak;
+  const lines = update(value.slice(start, end).split('\n'));
+  const replacement = lines.join('\n');
+  return {
+    value: value.slice(0, start) + replacement + value.slice(end),
+    selectionStart: start,
+    selectionEnd: start + replacement.length,
+  };
+}
+
+/**
+ * Enter inside a list item starts the next item. Enter on an empty item ends the list instead.
+ * Returns null outside lists so the caller inserts a plain newline.
+ */
+export function continueTextList(state: TTextEditState): TTextEditState | null {
+  if (state.selectionStart !== state.selectionEnd) return null;
+
+  const { value, selectionStart } = state;
+  const lineStart = value.lastIndexOf('\n', selectionStart - 1) + 1;
+  const lineBreak = value.indexOf('\n', selectionStart);
+  const lineEnd = lineBreak === -1 ? value.length : lineBreak;
+  const line = value.slice(lineStart, lineEnd);
+  const match = /^(?:([-*+])|(\d{1,9})([.)])) /.exec(line);
+  if (!match || selectionStart - lineStart < match[0].length) return null;
+
+  if (line.slice(match[0].length).trim() === '') {
+    return {
+      value: value.slice(0, lineStart) + value.slice(lineEnd),
+      selectionStart: lineStart,
+      selectionEnd: lineStart,
+    };
+  }
+
+  const prefix = match[1] ? `${match[1]} ` : `${Number(match[2]) + 1}${match[3]} `;
+  const inserted = `\n${prefix}`;
+  return {
+    value: value.slice(0, selectionStart) + inserted + value.slice(selectionStart),
+    selectionStart: selectionStart + inserted.length,
+    selectionEnd: selectionStart + inserted.length,
+  };
+}
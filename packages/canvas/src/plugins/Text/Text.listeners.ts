@@ -1,3 +1,4 @@
+import { fnIsSafeRichTextLink } from "@vibecanvas/canvas-cmds/core/fn.rich-text";
 import { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
 import Konva from "konva";
 import { throttle } from "@solid-primitives/scheduled";
@@ -6,6 +7,7 @@ import { CanvasMode } from "../../services/canvas/enum";
 import { startSelectionCloneDrag } from "../shared/clone-drag";
 import type { IPluginContext } from "../shared/interface";
 import { TransformPlugin } from "../Transform/Transform.plugin";
+import { findTextLinkAt } from "./Text.rich";
 import type { toTElement as toTElementType } from "./Text.serialization";
 
 type SetupShapeListenersDeps = {
@@ -27,6 +29,15 @@ export function setupShapeListeners(
 
   node.on('pointerclick', (e) => {
     if (context.state.mode !== CanvasMode.SELECT) return;
+    if (e.evt.metaKey || e.evt.ctrlKey) {
+      const pointer = node.getRelativePointerPosition();
+      const link = pointer ? findTextLinkAt(node, pointer) : null;
+      if (link && fnIsSafeRichTextLink(link)) {
+        window.open(link, '_blank', 'noopener,noreferrer');
+        e.cancelBubble = true;
+        return;
+      }
+    }
     context.hooks.customEvent.call(CustomEvents.ELEMENT_POINTERCLICK, e);
   });
 
@@ -0,0 +1,139 @@
+import {
+  RICH_TEXT_CODE_BACKGROUND,
+  RICH_TEXT_LINK_COLOR,
+  fnEstimateRichTextWidth,
+  fnGetRichTextLineOffset,
+  fnLayoutRichText,
+  type TRichTextLayout,
+  type TRichTextMeasure,
+} from "@vibecanvas/canvas-cmds/core/fn.rich-text";
+import type { TTextData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+
+export const TEXT_MARKDOWN_ATTR = 'vcMarkdown';
+
+export function getTextMarkdown(node: Konva.Text): string | null {
+  const markdown = node.getAttr(TEXT_MARKDOWN_ATTR);
+  return typeof markdown === 'string' ? markdown : null;
+}
+
+/**
+ * Rich text keeps `node.text()` as the plain rendering and swaps in a scene function that draws the
+ * markdown. Konva's own `_hitFunc` still covers the box, so hit testing is unchanged.
+ */
+export function setTextMarkdown(node: Konva.Text, markdown: string | null) {
+  node.setAttr(TEXT_MARKDOWN_ATTR, markdown);
+  if (markdown === null) {
+    node.setAttr('sceneFunc', undefined);
+  } else {
+    node.sceneFunc(drawRichText);
+  }
+}
+
+function createCanvasMeasure(): TRichTextMeasure {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return fnEstimateRichTextWidth;
+  return (text, _size, font) => {
+    context.font = font;
+    return context.measureText(text).width;
+  };
+}
+
+export function layoutTextMarkdown(node: Konva.Text, markdown: string, measure: TRichTextMeasure = createCanvasMeasure()): TRichTextLayout {
+  return fnLayoutRichText(
+    markdown,
+    {
+      fontSize: node.fontSize(),
+      fontFamily: node.fontFamily(),
+      lineHeight: node.lineHeight(),
+      maxWidth: node.wrap() === 'none' ? null : Math.max(1, node.width() - node.padding() * 2),
+    },
+    measure,
+  );
+}
+
+/** Left edge of a laid-out line and the top of the first line, inside the node's padding. */
+function getRichTextOrigin(node: Konva.Text, layout: TRichTextLayout) {
+  const padding = node.padding();
+  const boxWidth = node.width() - padding * 2;
+  const boxHeight = node.height() - padding * 2;
+  const top = node.verticalAlign() === 'middle'
+    ? (boxHeight - layout.height) / 2
+    : node.verticalAlign() === 'bottom' ? boxHeight - layout.height : 0;
+
+  return {
+    top: padding + top,
+    getLineLeft: (lineWidth: number) => padding + fnGetRichTextLineOffset(lineWidth, node.align() as TTextData['textAlign'], boxWidth),
+  };
+}
+
+function drawRichText(context: Konva.Context, shape: Konva.Shape) {
+  const node = shape as Konva.Text;
+  const markdown = getTextMarkdown(node);
+  if (!markdown) return;
+
+  const measure: TRichTextMeasure = (text, _size, font) => {
+    context.setAttr('font', font);
+    return context.measureText(text).width;
+  };
+  const layout = layoutTextMarkdown(node, markdown, measure);
+  const origin = getRichTextOrigin(node, layout);
+  const fill = typeof node.fill() === 'string' ? node.fill() as string : '#000000';
+
+  context.setAttr('textBaseline', 'middle');
+  context.setAttr('textAlign', 'left');
+  for (const line of layout.lines) {
+    const left = origin.getLineLeft(line.width);
+    const y = origin.top + line.y + line.height / 2;
+
+    if (line.marker) {
+      context.setAttr('font', line.markerFont);
+      context.setAttr('fillStyle', fill);
+      context.fillText(line.marker, left, y);
+    }
+
+    for (const segment of line.segments) {
+      const x = left + line.indent + segment.x;
+      if (segment.code) {
+        context.setAttr('fillStyle', RICH_TEXT_CODE_BACKGROUND);
+        context.fillRect(x, y - segment.size * 0.65, segment.width, segment.size * 1.3);
+      }
+
+      const color = segment.link ? RICH_TEXT_LINK_COLOR : fill;
+      context.setAttr('font', segment.font);
+      context.setAttr('fillStyle', color);
+      context.fillText(segment.text, x, y);
+
+      const decorations = [
+        segment.link ? y + segment.size * 0.55 : null,
+        segment.strike ? y : null,
+      ].filter((value): value is number => value !== null);
+      decorations.forEach((lineY) => {
+        context.beginPath();
+        context.moveTo(x, lineY);
+        context.lineTo(x + segment.width, lineY);
+        context.setAttr('strokeStyle', color);
+        context.setAttr('lineWidth', Math.max(1, segment.size / 15));
+        context.stroke();
+      });
+    }
+  }
+}
+
+/** The link under a point in the node's local coordinates, if any. */
+export function findTextLinkAt(node: Konva.Text, point: { x: number; y: number }): string | null {
+  const markdown = getTextMarkdown(node);
+  if (!markdown) return null;
+
+  const layout = layoutTextMarkdown(node, markdown);
+  const origin = getRichTextOrigin(node, layout);
+
+  for (const line of layout.lines) {
+    const lineTop = origin.top + line.y;
+    if (point.y < lineTop || point.y > lineTop + line.height) continue;
+    const left = origin.getLineLeft(line.width) + line.indent;
+    const segment = line.segments.find((candidate) => point.x >= left + candidate.x && point.x <= left + candidate.x + candidate.width);
+    return segment?.link ?? null;
+  }
+  return null;
+}
@@ -1,9 +1,11 @@
+import { fnGetTextMarkdown } from "@vibecanvas/canvas-cmds/core/fn.rich-text";
 import { TElement, TElementStyle, TTextData } from "@vibecanvas/service-automerge/types/canvas-doc";
 import Konva from "konva";
 import { getWorldPosition, setWorldPosition } from "../shared/node-space";
 import { getNodeZIndex, setNodeZIndex } from "../shared/render-order.shared";
 import type { IPluginContext } from "../shared/interface";
 import { ATTACHED_TEXT_NAME, FREE_TEXT_NAME } from "./Text.constants";
+import { getTextMarkdown, setTextMarkdown } from "./Text.rich";
 import { getContainerId } from "./Text.shared";
 
 export function createTextNode(element: TElement): Konva.Text {
@@ -31,6 +33,7 @@ export function createTextNode(element: TElement): Konva.Text {
 
   node.name(isAttached ? ATTACHED_TEXT_NAME : FREE_TEXT_NAME);
   node.setAttr('vcContainerId', data.containerId);
+  setTextMarkdown(node, fnGetTextMarkdown(data));
   setNodeZIndex(node, element.zIndex);
   return node;
 }
@@ -63,6 +66,7 @@ export function toTElement(node: Konva.Text): TElement {
     link: null,
     containerId: getContainerId(node),
     autoResize: false,
+    markdown: getTextMarkdown(node),
   };
 
   return {
@@ -103,6 +107,7 @@ export function updateTextFromElement(node: Konva.Text, element: TElement) {
   node.draggable(data.containerId === null);
   node.name(data.containerId !== null ? ATTACHED_TEXT_NAME : FREE_TEXT_NAME);
   node.setAttr('vcContainerId', data.containerId);
+  setTextMarkdown(node, fnGetTextMarkdown(data));
 }
 
 export function setupTextCapabilities(
@@ -1,5 +1,7 @@
+import { fnBuildRichTextFields } from "@vibecanvas/canvas-cmds/core/fn.rich-text";
 import Konva from "konva";
 import type { IPluginContext } from "../shared/interface";
+import { layoutTextMarkdown } from "./Text.rich";
 
 export function getContainerId(node: Konva.Node): string | null {
   const containerId = node.getAttr('vcContainerId');
@@ -48,7 +50,13 @@ export function syncAttachedTextToRect(rect: Konva.Rect, node: Konva.Text) {
   });
 }
 
+/** `text` is the markdown source being edited; formatted text is measured with its rich layout. */
 export function computeTextWidth(node: Konva.Text, text: string): number {
+  const { markdown } = fnBuildRichTextFields(text);
+  if (markdown !== null) {
+    return Math.ceil(layoutTextMarkdown(node, markdown).width) + node.padding() * 2;
+  }
+
   const canvas = document.createElement('canvas');
   const context = canvas.getContext('2d');
   if (!context) return Math.max(node.width(), 4);
@@ -67,6 +75,11 @@ export function computeTextWidth(node: Konva.Text, text: string): number {
  * cannot shrink the result below the number of actual lines.
  */
 export function computeTextHeight(node: Konva.Text, text: string): number {
+  const { markdown } = fnBuildRichTextFields(text);
+  if (markdown !== null) {
+    return Math.ceil(layoutTextMarkdown(node, markdown).height) + node.padding() * 2;
+  }
+
   const lineCount = (text.match(/\n/g)?.length ?? 0) + 1;
   return Math.ceil(lineCount * node.fontSize() * node.lineHeight()) + node.padding() * 2;
 }
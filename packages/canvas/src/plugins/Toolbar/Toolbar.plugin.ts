@@ -6,8 +6,14 @@ import { TOOL_SHORTCUTS, TTool } from "../../components/FloatingCanvasToolbar/to
 import { CustomEvents } from "../../custom-events";
 import { CanvasMode } from "../../services/canvas/enum";
 
-const DRAW_CREATE_TOOLS: TTool[] = ["rectangle", "diamond", "ellipse", "line", "arrow", "pen"];
-const CLICK_CREATE_TOOLS: TTool[] = ["text", "image", "filesystem", "terminal", "browser"];
+const DRAW_CREATE_TOOLS: TTool[] = ["rectangle", "diamond", "ellipse", "frame", "line", "arrow", "pen"];
+const CLICK_CREATE_TOOLS: TTool[] = ["text", "sticky", "note", "image", "filesystem", "terminal", "browser"];
+const SNAP_ENABLED_STORAGE_KEY = "vibecanvas-canvas-snap-enabled";
+
+function readSnapEnabled() {
+  if (typeof localStorage === "undefined") return true;
+  return localStorage.getItem(SNAP_ENABLED_STORAGE_KEY) !== "0";
+}
 
 function getShortcutTool(event: KeyboardEvent): TTool | null {
   if (event.metaKey || event.ctrlKey || event.altKey) return null;
@@ -20,7 +26,7 @@ function getShortcutTool(event: KeyboardEvent): TTool | null {
   return TOOL_SHORTCUTS[normalizedKey] ?? null;
 }
 
-function mountSolidComponent(context: IPluginContext, activeTool: Accessor<TTool>, setActiveTool: Setter<TTool>, gridVisible: Accessor<boolean>, setGridVisible: Setter<boolean>, onToggleSidebar: () => void) {
+function mountSolidComponent(context: IPluginContext, activeTool: Accessor<TTool>, setActiveTool: Setter<TTool>, gridVisible: Accessor<boolean>, setGridVisible: Setter<boolean>, snapEnabled: Accessor<boolean>, setSnapEnabled: Setter<boolean>, onToggleSidebar: () => void) {
   const mountElement = document.createElement("div");
   mountElement.className = "absolute inset-0 pointer-events-none";
   context.stage.container().appendChild(mountElement);
@@ -30,9 +36,11 @@ function mountSolidComponent(context: IPluginContext, activeTool: Accessor<TTool
         createComponent(FloatingCanvasToolbar, {
           activeTool,
           gridVisible,
+          snapEnabled,
           sidebarVisible: () => true,
           onToolSelect: setActiveTool,
           onToggleGrid: () => setGridVisible((value) => !value),
+          onToggleSnap: () => setSnapEnabled((value) => !value),
           onToggleSidebar,
         }),
     mountElement,
@@ -46,6 +54,8 @@ export class ToolbarPlugin implements IPlugin {
   #setActiveTool: Setter<TTool>
   #gridVisible: Accessor<boolean>
   #setGridVisible: Setter<boolean>
+  #snapEnabled: Accessor<boolean>
+  #setSnapEnabled: Setter<boolean>
   #toolBeforeSpaceHold: TTool | null = null;
   #mountElement: HTMLDivElement | null = null;
   #disposeRender: (() => void) | null = null;
@@ -57,11 +67,14 @@ export class ToolbarPlugin implements IPlugin {
     const [gridVisible, setGridVisible] = createSignal(true);
     this.#gridVisible = gridVisible;
     this.#setGridVisible = setGridVisible;
+    const [snapEnabled, setSnapEnabled] = createSignal(readSnapEnabled());
+    this.#snapEnabled = snapEnabled;
+    this.#setSnapEnabled = setSnapEnabled;
   }
 
   apply(context: IPluginContext): void {
     context.hooks.init.tap(() => {
-      const { mountElement, disposeRender } = mountSolidComponent(context, this.#activeTool, this.#setActiveTool, this.#gridVisible, this.#setGridVisible, this.onToggleSidebar)
+      const { mountElement, disposeRender } = mountSolidComponent(context, this.#activeTool, this.#setActiveTool, this.#gridVisible, this.#setGridVisible, this.#snapEnabled, this.#setSnapEnabled, this.onToggleSidebar)
       this.#mountElement = mountElement;
       this.#disposeRender = disposeRender;
     })
@@ -77,6 +90,9 @@ export class ToolbarPlugin implements IPlugin {
       if (event === CustomEvents.TOOL_SELECT) {
         this.#setActiveTool(payload)
       }
+      if (event === CustomEvents.PRESENTATION && this.#mountElement) {
+        this.#mountElement.hidden = payload;
+      }
       return false;
     })
 
@@ -110,6 +126,12 @@ export class ToolbarPlugin implements IPlugin {
       context.hooks.customEvent.call(CustomEvents.GRID_VISIBLE, value);
     });
 
+    createEffect(() => {
+      const value = this.#snapEnabled();
+      if (typeof localStorage !== "undefined") localStorage.setItem(SNAP_ENABLED_STORAGE_KEY, value ? "1" : "0");
+      context.hooks.customEvent.call(CustomEvents.SNAP_ENABLED, value);
+    });
+
     createEffect(() => {
       const value = context.state.mode
       switch (value) {
@@ -179,6 +201,11 @@ export class ToolbarPlugin implements IPlugin {
         return true;
       }
 
+      if (event.key.toLowerCase() === "s" && !event.metaKey && !event.ctrlKey && !event.altKey) {
+        this.#setSnapEnabled((value) => !value);
+        return true;
+      }
+
       return false;
     })
 
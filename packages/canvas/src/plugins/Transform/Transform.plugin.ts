@@ -39,6 +39,21 @@ export class TransformPlugin implements IPlugin {
       context.dynamicLayer.add(this.#transformer);
       this.createReaction(context)
       this.setupHistory(context)
+      this.setupSnapping(context)
+    })
+  }
+
+  private setupSnapping(context: IPluginContext) {
+    this.#transformer.anchorDragBoundFunc((_oldPosition, nextPosition, event) => {
+      return context.capabilities.snap?.snapAnchor({
+        nodes: this.#transformer.getNodes(),
+        anchor: this.#transformer.getActiveAnchor(),
+        position: nextPosition,
+        event,
+      }) ?? nextPosition
+    })
+    this.#transformer.on('transformend', () => {
+      context.capabilities.snap?.clearGuides()
     })
   }
 
@@ -0,0 +1,226 @@
+import * as Automerge from "@automerge/automerge/slim";
+import type { DocHandleChangePayload } from "@automerge/automerge-repo";
+import { fnDiffCanvasDocs, type TCanvasDiff, type TCanvasDiffStatus } from "@vibecanvas/canvas-cmds/core/fn.diff";
+import { fnGroupCanvasHistory, fnReadCanvasHistory, type TCanvasHistoryGroup } from "@vibecanvas/canvas-cmds/core/fn.history";
+import { fnGetExportElementBounds, fnRenderCanvasSvg } from "@vibecanvas/canvas-cmds/core/fn.svg-export";
+import type { TCanvasDoc } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import type { Accessor, Setter } from "solid-js";
+import { createComponent, createSignal } from "solid-js";
+import { render } from "solid-js/web";
+import { CanvasHistory, type TCanvasHistoryDiffSummary, type TCanvasHistoryPanelEntry } from "../../components/CanvasHistory";
+import { CustomEvents } from "../../custom-events";
+import type { IPlugin, IPluginContext } from "../shared/interface";
+import { TransformPlugin } from "../Transform/Transform.plugin";
+
+const HIGHLIGHT_COLORS: Record<TCanvasDiffStatus, string> = {
+  added: "#16a34a",
+  modified: "#d97706",
+  removed: "#dc2626",
+};
+/** Outline padding around highlighted elements, in screen pixels. */
+const HIGHLIGHT_PADDING = 4;
+
+function getActorLabel(context: IPluginContext, group: TCanvasHistoryGroup) {
+  if (group.origin === context.crdt.origin) return "You";
+  if (group.origin?.startsWith("cli:")) return `CLI · ${group.origin.slice(4)}`;
+  if (group.origin?.startsWith("web:")) return "Another browser";
+  return `Peer ${group.actor.slice(0, 8)}`;
+}
+
+function getSelectionIds(context: IPluginContext) {
+  return TransformPlugin.filterSelection(context.state.selection).map((node) => node.id());
+}
+
+/**
+ * Version history panel: lists the doc's change history grouped by time and actor, previews any
+ * past state as a read-only SVG, and restores the whole canvas or the selection from that point as
+ * one undoable change. With highlighting on, elements added, changed, or removed since the selected
+ * version are outlined on the canvas; removed ones at the place they had back then.
+ */
+export class VersionHistoryPlugin implements IPlugin {
+  #open: Accessor<boolean>;
+  #setOpen: Setter<boolean>;
+  #entries: Accessor<TCanvasHistoryPanelEntry[]>;
+  #setEntries: Setter<TCanvasHistoryPanelEntry[]>;
+  #selectedIndex: Accessor<number | null>;
+  #setSelectedIndex: Setter<number | null>;
+  #previewSvg: Accessor<string | null>;
+  #setPreviewSvg: Setter<string | null>;
+  #highlightChanges: Accessor<boolean>;
+  #setHighlightChanges: Setter<boolean>;
+  #diffSummary: Accessor<TCanvasHistoryDiffSummary | null>;
+  #setDiffSummary: Setter<TCanvasHistoryDiffSummary | null>;
+  /** The selected version and its diff against the current doc, kept to redraw highlights on zoom. */
+  #comparison: { past: TCanvasDoc; current: TCanvasDoc; diff: TCanvasDiff } | null = null;
+  #highlights = new Konva.Group({ listening: false, name: "version-history-highlights" });
+  /** Newest first, aligned with the panel entries. */
+  #groups: TCanvasHistoryGroup[] = [];
+  #mountElement: HTMLDivElement | null = null;
+  #disposeRender: (() => void) | null = null;
+
+  constructor() {
+    [this.#open, this.#setOpen] = createSignal(false);
+    [this.#entries, this.#setEntries] = createSignal<TCanvasHistoryPanelEntry[]>([]);
+    [this.#selectedIndex, this.#setSelectedIndex] = createSignal<number | null>(null);
+    [this.#previewSvg, this.#setPreviewSvg] = createSignal<string | null>(null);
+    [this.#highlightChanges, this.#setHighlightChanges] = createSignal(false);
+    [this.#diffSummary, this.#setDiffSummary] = createSignal<TCanvasHistoryDiffSummary | null>(null);
+  }
+
+  apply(context: IPluginContext): void {
+    const onDocChange = (_payload: DocHandleChangePayload<TCanvasDoc>) => {
+      if (this.#open()) this.refresh(context);
+    };
+
+    context.hooks.init.tap(() => {
+      context.dynamicLayer.add(this.#highlights);
+      const mountElement = document.createElement("div");
+      mountElement.className = "absolute bottom-3 right-16 pointer-events-none z-50";
+      context.stage.container().appendChild(mountElement);
+
+      this.#disposeRender = render(
+        () => createComponent(CanvasHistory, {
+          open: this.#open,
+          onOpenChange: (open) => this.setOpen(context, open),
+          entries: this.#entries,
+          selectedIndex: this.#selectedIndex,
+          onSelect: (index) => this.select(context, index),
+          previewSvg: this.#previewSvg,
+          selectionCount: () => getSelectionIds(context).length,
+          onRestore: (scope) => this.restore(context, scope),
+          highlightChanges: this.#highlightChanges,
+          onHighlightChange: (highlight) => {
+            this.#setHighlightChanges(highlight);
+            this.drawHighlights(context);
+          },
+          diffSummary: this.#diffSummary,
+        }),
+        mountElement,
+      );
+      this.#mountElement = mountElement;
+      context.crdt.docHandle.on("change", onDocChange);
+    });
+
+    context.hooks.cameraChange.tap(() => {
+      if (this.#highlights.hasChildren()) this.drawHighlights(context);
+    });
+
+    context.hooks.customEvent.tap((event, payload) => {
+      if (event !== CustomEvents.PRESENTATION) return false;
+      if (this.#mountElement) this.#mountElement.hidden = payload;
+      if (payload && this.#open()) this.setOpen(context, false);
+      return false;
+    });
+
+    context.hooks.destroy.tap(() => {
+      context.crdt.docHandle.off("change", onDocChange);
+      this.#disposeRender?.();
+      this.#mountElement?.remove();
+      this.#highlights.destroy();
+      this.#disposeRender = null;
+      this.#mountElement = null;
+    });
+  }
+
+  private setOpen(context: IPluginContext, open: boolean) {
+    this.#setOpen(open);
+    if (open) {
+      this.refresh(context);
+      return;
+    }
+
+    this.select(context, null);
+  }
+
+  /** Rebuilds the entries and keeps the previewed entry selected when it is still listed. */
+  private refresh(context: IPluginContext) {
+    const selected = this.#selectedIndex();
+    const selectedKey = selected === null ? null : this.#groups[selected]?.heads.join(",") ?? null;
+
+    this.#groups = fnGroupCanvasHistory(fnReadCanvasHistory(context.crdt.docHandle.doc())).reverse();
+    this.#setEntries(this.#groups.map((group) => ({
+      key: group.heads.join(","),
+      actorLabel: getActorLabel(context, group),
+      isLocal: group.origin === context.crdt.origin,
+      timeLabel: new Date(group.endTime * 1000).toLocaleString(),
+      changeCount: group.changeCount,
+      labels: group.labels,
+    })));
+
+    const nextIndex = selectedKey === null ? -1 : this.#groups.findIndex((group) => group.heads.join(",") === selectedKey);
+    this.select(context, nextIndex > 0 ? nextIndex : null);
+  }
+
+  private select(context: IPluginContext, index: number | null) {
+    const group = index === null ? null : this.#groups[index];
+    this.#setSelectedIndex(group ? index : null);
+    if (!group) {
+      this.#setPreviewSvg(null);
+      this.#comparison = null;
+      this.#setDiffSummary(null);
+      this.drawHighlights(context);
+      return;
+    }
+
+    const doc = context.crdt.docHandle.doc();
+    const past = JSON.parse(JSON.stringify(Automerge.view(doc, group.heads))) as TCanvasDoc;
+    const current = JSON.parse(JSON.stringify(doc)) as TCanvasDoc;
+    const diff = fnDiffCanvasDocs(past, current, { ignoreFields: ["updatedAt"] });
+    this.#comparison = { past, current, diff };
+    this.#setPreviewSvg(fnRenderCanvasSvg(past)?.svg ?? null);
+    this.#setDiffSummary({ added: diff.addedIds.length, modified: diff.modifiedIds.length, removed: diff.removedIds.length });
+    this.drawHighlights(context);
+  }
+
+  /** Outlines the elements that differ between the selected version and now; groups are not outlined. */
+  private drawHighlights(context: IPluginContext) {
+    this.#highlights.destroyChildren();
+    const comparison = this.#comparison;
+    if (comparison && this.#highlightChanges()) {
+      const strokeWidth = 2 / context.camera.zoom;
+      const padding = HIGHLIGHT_PADDING / context.camera.zoom;
+
+      comparison.diff.entries.forEach((entry) => {
+        const element = entry.kind === "element"
+          ? (entry.status === "removed" ? comparison.past : comparison.current).elements[entry.id]
+          : undefined;
+        if (!element) return;
+
+        const bounds = fnGetExportElementBounds(element);
+        this.#highlights.add(new Konva.Rect({
+          x: bounds.x - padding,
+          y: bounds.y - padding,
+          width: bounds.w + padding * 2,
+          height: bounds.h + padding * 2,
+          stroke: HIGHLIGHT_COLORS[entry.status],
+          strokeWidth,
+          dash: entry.status === "removed" ? [6 / context.camera.zoom, 4 / context.camera.zoom] : undefined,
+          fill: entry.status === "removed" ? `${HIGHLIGHT_COLORS.removed}14` : undefined,
+          listening: false,
+        }));
+      });
+    }
+
+    context.dynamicLayer.batchDraw();
+  }
+
+  private restore(context: IPluginContext, scope: "canvas" | "selection") {
+    const index = this.#selectedIndex();
+    const group = index === null ? null : this.#groups[index];
+    if (!group) return;
+
+    const ids = scope === "selection" ? getSelectionIds(context) : null;
+    if (ids && ids.length === 0) return;
+
+    const plan = context.crdt.restore(group.heads, ids);
+    if (plan.changedIds.length === 0) {
+      context.capabilities.notification?.showInfo("Nothing to restore", "The canvas already matches this version.");
+      return;
+    }
+
+    context.history.recordLocalChanges(scope === "selection" ? "restore-selection" : "restore-canvas");
+    context.capabilities.notification?.showSuccess("Version restored", `${plan.changedIds.length} ${plan.changedIds.length === 1 ? "item" : "items"} changed. Undo to go back.`);
+    this.refresh(context);
+  }
+}
@@ -1,6 +1,9 @@
+export * from './Align/Align.plugin'
 export * from './CameraControl/CameraControl.plugin'
+export * from './Clipboard/Clipboard.plugin'
 export * from './ContextMenu/ContextMenu.plugin'
 export * from './EventListener/EventListener.plugin'
+export * from './Frame/Frame.plugin'
 export * from './ExampleScene/ExampleScene.plugin'
 export * from './Grid/Grid.plugin'
 export * from './Group/Group.plugin'
@@ -15,15 +18,21 @@ export * from './shared/hosted-widget-focus.shared'
 export * from './shared/node-space'
 export * from './shared/pen.math'
 export * from './shared/render-order.shared'
+export * from './shared/snap.math'
 export * from './Pen/Pen.plugin'
+export * from './Presentation/Presentation.plugin'
 export * from './Recorder/Recorder.plugin'
 export * from './RenderOrder/RenderOrder.plugin'
 export * from './SceneHydrator/SceneHydrator.plugin'
 export * from './Select/Select.plugin'
+export * from './SelectionBroadcast/SelectionBroadcast.plugin'
 export * from './SelectionStyleMenu/SelectionStyleMenu.plugin'
 export * from './Shape1d/Shape1d.plugin'
 export * from './Shape2d/Shape2d.plugin'
+export * from './Snap/Snap.plugin'
+export * from './Sticky/Sticky.plugin'
 export * from './Text/Text.plugin'
 export * from './Toolbar/Toolbar.plugin'
 export * from './Transform/Transform.plugin'
+export * from './VersionHistory/VersionHistory.plugin'
 export * from './VisualDebug/VisualDebug.plugin'
@@ -0,0 +1,57 @@
+import { fnApplyCanvasLayout, type TLayoutPlan } from "@vibecanvas/canvas-cmds/core/fn.layout";
+import type { TCanvasDoc, TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import Konva from "konva";
+import type { IPluginContext } from "./interface";
+
+function refreshParentGroups(context: IPluginContext, elements: TElement[]) {
+  const refreshedGroups = new Set<string>();
+
+  elements.forEach((element) => {
+    const shape = context.staticForegroundLayer.findOne((node: Konva.Node) => node.id() === element.id);
+    let parent = shape?.getParent();
+
+    while (parent instanceof Konva.Group) {
+      if (!refreshedGroups.has(parent.id())) {
+        parent.fire("transform");
+        refreshedGroups.add(parent.id());
+      }
+      parent = parent.getParent();
+    }
+  });
+}
+
+function applyArrangedElements(context: IPluginContext, elements: TElement[]) {
+  elements.forEach((element) => context.capabilities.updateShapeFromTElement?.(element));
+  refreshParentGroups(context, elements);
+  context.crdt.patch({
+    elements: elements.map((element) => ({ id: element.id, x: element.x, y: element.y, updatedAt: element.updatedAt })),
+    groups: [],
+  });
+}
+
+/**
+ * Applies a layout, align or distribute plan computed against `doc` (a clone of the live doc).
+ * Every moved element is written in one CRDT patch and recorded as one history entry.
+ */
+function commitArrangePlan(context: IPluginContext, doc: TCanvasDoc, plan: Pick<TLayoutPlan, "elementDeltas">, label: string) {
+  if (plan.elementDeltas.length === 0) return false;
+
+  const beforeElements = plan.elementDeltas.map((delta) => structuredClone(doc.elements[delta.id]!));
+  const changedIds = fnApplyCanvasLayout(doc, plan, Date.now());
+  const afterElements = changedIds.map((id) => structuredClone(doc.elements[id]!));
+
+  applyArrangedElements(context, afterElements);
+  context.history.record({
+    label,
+    undo() {
+      applyArrangedElements(context, structuredClone(beforeElements));
+    },
+    redo() {
+      applyArrangedElements(context, structuredClone(afterElements));
+    },
+  });
+
+  return true;
+}
+
+export { applyArrangedElements, commitArrangePlan };
@@ -6,7 +6,8 @@ import type { History } from "../../services/canvas/History";
 import type { IState, TCloneImage, TDeleteImage, TFileCapability, TFiletreeCapability, TTerminalCapability, TUploadImage } from '../../services/canvas/interface';
 import type { AsyncParallelHook, SyncExitHook, SyncHook } from '../../tapable';
 import type { Crdt } from "../../services/canvas/crdt";
-import type { TElement, TGroup } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type { TElement, TGroup, TStickyColor, TStickyData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type { TAlignMode, TDistributeAxis } from "@vibecanvas/canvas-cmds/core/fn.align";
 
 export type TRenderOrderSnapshot = {
   parentId: string;
@@ -105,6 +106,47 @@ export interface IPluginContext {
       snapshotParentOrder: (parent: Konva.Layer | Konva.Group) => TRenderOrderSnapshot;
       restoreParentOrder: (snapshot: TRenderOrderSnapshot) => void;
     };
+    align?: {
+      canAlign: (nodes: Array<Konva.Group | Konva.Shape>) => boolean;
+      canDistribute: (nodes: Array<Konva.Group | Konva.Shape>) => boolean;
+      alignSelection: (nodes: Array<Konva.Group | Konva.Shape>, mode: TAlignMode) => boolean;
+      distributeSelection: (nodes: Array<Konva.Group | Konva.Shape>, axis: TDistributeAxis) => boolean;
+    };
+    snap?: {
+      /**
+       * Captures the drag-start bounds and snap targets for `nodes` and returns a function that
+       * turns a raw world-space drag delta into a snapped one, drawing guides as it goes.
+       */
+      createMoveSnapper: (nodes: Array<Konva.Group | Konva.Shape>) => (delta: { x: number; y: number }, event?: MouseEvent | PointerEvent) => { x: number; y: number };
+      /** Snaps a transformer anchor given in absolute (stage) coordinates. */
+      snapAnchor: (args: { nodes: Konva.Node[]; anchor: string | null; position: { x: number; y: number }; event?: MouseEvent | PointerEvent }) => { x: number; y: number };
+      clearGuides: () => void;
+    };
+    frames?: {
+      isFrameNode: (node: Konva.Node | null | undefined) => boolean;
+      isClippingChildren: (node: Konva.Shape) => boolean;
+      /** Opens an inline editor over the frame's title. */
+      editTitle: (node: Konva.Shape) => void;
+      setClipChildren: (node: Konva.Shape, clipChildren: boolean) => void;
+      /** Frame ids and titles in reading order. */
+      list: () => Array<{ id: string; title: string }>;
+      getBounds: (id: string) => { x: number; y: number; width: number; height: number } | null;
+    };
+    stickies?: {
+      isStickyNode: (node: Konva.Node | null | undefined) => boolean;
+      /** Opens the inline text editor over the note. */
+      edit: (node: Konva.Shape) => void;
+      getColor: (node: Konva.Shape) => TStickyColor;
+      setColor: (nodes: Konva.Shape[], color: TStickyColor) => void;
+      getAutoSize: (node: Konva.Shape) => TStickyData["autoSize"];
+      setAutoSize: (nodes: Konva.Shape[], autoSize: TStickyData["autoSize"]) => void;
+    };
+    presentation?: {
+      start: (startIndex?: number) => void;
+      /** Saves the current camera view as the last slide. */
+      addViewSlide: () => void;
+      addFrameSlide: (frameId: string) => void;
+    };
   }
 
 }
@@ -0,0 +1,192 @@
+type TSnapBox = { x: number; y: number; w: number; h: number };
+type TSnapAxis = "x" | "y";
+type TSnapPoint = { x: number; y: number };
+
+type TSnapGuide =
+  | { kind: "align"; axis: TSnapAxis; position: number; start: number; end: number }
+  | { kind: "spacing"; axis: TSnapAxis; cross: number; gaps: Array<{ start: number; end: number }> };
+
+type TSnapMoveResult = { dx: number; dy: number; guides: TSnapGuide[] };
+type TSnapPointResult = TSnapPoint & { guides: TSnapGuide[] };
+
+type TAxisCandidate = { offset: number; kind: "align" | "spacing" | "grid"; gaps?: Array<{ start: number; end: number }> };
+
+const EPSILON = 0.01;
+
+function getStart(box: TSnapBox, axis: TSnapAxis) {
+  return axis === "x" ? box.x : box.y;
+}
+
+function getSize(box: TSnapBox, axis: TSnapAxis) {
+  return axis === "x" ? box.w : box.h;
+}
+
+function getCrossAxis(axis: TSnapAxis): TSnapAxis {
+  return axis === "x" ? "y" : "x";
+}
+
+/** Left/top edge, center, and right/bottom edge of a box along one axis. */
+function getAxisLines(box: TSnapBox, axis: TSnapAxis) {
+  const start = getStart(box, axis);
+  const size = getSize(box, axis);
+  return [start, start + size / 2, start + size];
+}
+
+function shiftBox(box: TSnapBox, dx: number, dy: number): TSnapBox {
+  return { ...box, x: box.x + dx, y: box.y + dy };
+}
+
+function overlapsOnAxis(left: TSnapBox, right: TSnapBox, axis: TSnapAxis) {
+  const leftStart = getStart(left, axis);
+  const rightStart = getStart(right, axis);
+  return leftStart < rightStart + getSize(right, axis) && rightStart < leftStart + getSize(left, axis);
+}
+
+function pickNearest(candidates: TAxisCandidate[], threshold: number): TAxisCandidate | null {
+  let best: TAxisCandidate | null = null;
+  for (const candidate of candidates) {
+    if (Math.abs(candidate.offset) > threshold) continue;
+    // Element guides win ties over the grid so aligned edges stay visible.
+    if (best && Math.abs(candidate.offset) >= Math.abs(best.offset)) continue;
+    best = candidate;
+  }
+  return best;
+}
+
+function getAlignCandidates(lines: number[], candidates: TSnapBox[], axis: TSnapAxis): TAxisCandidate[] {
+  return candidates.flatMap((candidate) => {
+    return getAxisLines(candidate, axis).flatMap((target) => lines.map((line) => ({ offset: target - line, kind: "align" as const })));
+  });
+}
+
+/**
+ * Positions where the moving box would repeat the gap between two neighbours on the same row
+ * (or column): after the pair, before it, or centered between them.
+ */
+function getSpacingCandidates(box: TSnapBox, candidates: TSnapBox[], axis: TSnapAxis): TAxisCandidate[] {
+  const cross = getCrossAxis(axis);
+  const start = getStart(box, axis);
+  const size = getSize(box, axis);
+  const row = candidates
+    .filter((candidate) => overlapsOnAxis(candidate, box, cross))
+    .sort((left, right) => getStart(left, axis) - getStart(right, axis));
+  const results: TAxisCandidate[] = [];
+
+  for (let index = 0; index < row.length - 1; index += 1) {
+    const first = row[index]!;
+    const second = row[index + 1]!;
+    const firstEnd = getStart(first, axis) + getSize(first, axis);
+    const secondStart = getStart(second, axis);
+    const gap = secondStart - firstEnd;
+    if (gap <= 0) continue;
+
+    const after = getStart(second, axis) + getSize(second, axis) + gap;
+    results.push({
+      offset: after - start,
+      kind: "spacing",
+      gaps: [{ start: firstEnd, end: secondStart }, { start: after - gap, end: after }],
+    });
+
+    const before = getStart(first, axis) - gap - size;
+    results.push({
+      offset: before - start,
+      kind: "spacing",
+      gaps: [{ start: before + size, end: before + size + gap }, { start: firstEnd, end: secondStart }],
+    });
+
+    if (size < gap) {
+      const between = firstEnd + (gap - size) / 2;
+      results.push({
+        offset: between - start,
+        kind: "spacing",
+        gaps: [{ start: firstEnd, end: between }, { start: between + size, end: secondStart }],
+      });
+    }
+  }
+
+  return results;
+}
+
+function getGridCandidate(value: number, gridSize: number | null): TAxisCandidate[] {
+  if (!gridSize) return [];
+  return [{ offset: Math.round(value / gridSize) * gridSize - value, kind: "grid" }];
+}
+
+/** Builds one guide per aligned line, spanning the moving box and every box sharing that line. */
+function getAlignGuides(box: TSnapBox, candidates: TSnapBox[], axis: TSnapAxis): TSnapGuide[] {
+  const cross = getCrossAxis(axis);
+  const guides = new Map<number, { start: number; end: number }>();
+
+  getAxisLines(box, axis).forEach((line) => {
+    candidates.forEach((candidate) => {
+      if (!getAxisLines(candidate, axis).some((target) => Math.abs(target - line) < EPSILON)) return;
+      const start = Math.min(getStart(box, cross), getStart(candidate, cross));
+      const end = Math.max(getStart(box, cross) + getSize(box, cross), getStart(candidate, cross) + getSize(candidate, cross));
+      const current = guides.get(line);
+      guides.set(line, current ? { start: Math.min(current.start, start), end: Math.max(current.end, end) } : { start, end });
+    });
+  });
+
+  return [...guides.entries()].map(([position, span]) => ({ kind: "align", axis, position, ...span }));
+}
+
+/**
+ * Snaps a moving box to other boxes' edges and centers, to equal spacing between neighbours,
+ * and to the grid. Each axis snaps independently to the nearest target within `threshold`.
+ */
+function getSnappedMove(args: { box: TSnapBox; candidates: TSnapBox[]; threshold: number; gridSize: number | null }): TSnapMoveResult {
+  const { box, candidates, threshold, gridSize } = args;
+  const pick = (axis: TSnapAxis) => pickNearest([
+    ...getAlignCandidates(getAxisLines(box, axis), candidates, axis),
+    ...getSpacingCandidates(box, candidates, axis),
+    ...getGridCandidate(getStart(box, axis), gridSize),
+  ], threshold);
+
+  const snapX = pick("x");
+  const snapY = pick("y");
+  const dx = snapX?.offset ?? 0;
+  const dy = snapY?.offset ?? 0;
+  const snappedBox = shiftBox(box, dx, dy);
+
+  const guides: TSnapGuide[] = [];
+  ([["x", snapX], ["y", snapY]] as const).forEach(([axis, snap]) => {
+    if (snap?.kind === "align") guides.push(...getAlignGuides(snappedBox, candidates, axis));
+    if (snap?.kind === "spacing" && snap.gaps) {
+      const cross = getCrossAxis(axis);
+      guides.push({ kind: "spacing", axis, cross: getStart(snappedBox, cross) + getSize(snappedBox, cross) / 2, gaps: snap.gaps });
+    }
+  });
+
+  return { dx, dy, guides };
+}
+
+/** Snaps a single point, such as a resize anchor, to other boxes' edges and centers and to the grid. */
+function getSnappedPoint(args: {
+  point: TSnapPoint;
+  axes: { x: boolean; y: boolean };
+  candidates: TSnapBox[];
+  threshold: number;
+  gridSize: number | null;
+}): TSnapPointResult {
+  const { point, axes, candidates, threshold, gridSize } = args;
+  const next = { ...point };
+  const alignedAxes: TSnapAxis[] = [];
+
+  (["x", "y"] as const).forEach((axis) => {
+    if (!axes[axis]) return;
+    const snap = pickNearest([
+      ...getAlignCandidates([point[axis]], candidates, axis),
+      ...getGridCandidate(point[axis], gridSize),
+    ], threshold);
+    if (!snap) return;
+
+    next[axis] = point[axis] + snap.offset;
+    if (snap.kind === "align") alignedAxes.push(axis);
+  });
+
+  const guides = alignedAxes.flatMap((axis) => getAlignGuides({ x: next.x, y: next.y, w: 0, h: 0 }, candidates, axis));
+  return { ...next, guides };
+}
+
+export type { TSnapBox, TSnapGuide, TSnapMoveResult, TSnapPointResult };
+export { getSnappedMove, getSnappedPoint };
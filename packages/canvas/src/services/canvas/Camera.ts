@@ -68,6 +68,30 @@ export class Camera {
     this.apply({ pos: { x: nextX, y: nextY }, zoom: nextZoom });
   }
 
+  /** Centers the world-space `bounds` in a viewport of `viewport` size, zoomed to fit with `padding` screen pixels around. */
+  fitBounds(bounds: { x: number; y: number; width: number; height: number }, viewport: { width: number; height: number }, padding = 48) {
+    this.setView(Camera.viewForBounds(bounds, viewport, padding));
+  }
+
+  /** The camera position and zoom `fitBounds` would move to. */
+  static viewForBounds(bounds: { x: number; y: number; width: number; height: number }, viewport: { width: number; height: number }, padding = 48) {
+    const availableWidth = Math.max(1, viewport.width - padding * 2);
+    const availableHeight = Math.max(1, viewport.height - padding * 2);
+    const zoom = clampZoom(Math.min(availableWidth / Math.max(1, bounds.width), availableHeight / Math.max(1, bounds.height)));
+    return {
+      x: viewport.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+      y: viewport.height / 2 - (bounds.y + bounds.height / 2) * zoom,
+      zoom,
+    };
+  }
+
+  setView(view: { x: number; y: number; zoom: number }) {
+    this.#zoom = clampZoom(view.zoom);
+    this.#x = view.x;
+    this.#y = view.y;
+    this.apply({ pos: { x: view.x, y: view.y }, zoom: this.#zoom });
+  }
+
   private apply(args: { pos?: { x: number, y: number }, zoom?: number }) {
     if (args.pos) {
       this.#dynamicLayer.position(args.pos);
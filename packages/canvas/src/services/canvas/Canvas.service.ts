@@ -7,9 +7,9 @@ import { createRoot } from "solid-js";
 import { createStore, SetStoreFunction } from 'solid-js/store';
 import type { TCustomEvent } from "../../custom-events";
 import {
-  CameraControlPlugin, ContextMenuPlugin, EventListenerPlugin, ExampleScenePlugin,
-  GridPlugin, GroupPlugin, HelpPlugin, HistoryControlPlugin, HostedSolidWidgetPlugin, IframeBrowserWidgetPlugin, ImagePlugin, PenPlugin, RecorderPlugin, RenderOrderPlugin, SceneHydratorPlugin,
-  SelectPlugin, SelectionStyleMenuPlugin, Shape1dPlugin, Shape2dPlugin, TextPlugin, ToolbarPlugin, TransformPlugin, VisualDebugPlugin
+  AlignPlugin, CameraControlPlugin, ClipboardPlugin, ContextMenuPlugin, EventListenerPlugin, ExampleScenePlugin, FramePlugin,
+  GridPlugin, GroupPlugin, HelpPlugin, HistoryControlPlugin, HostedSolidWidgetPlugin, IframeBrowserWidgetPlugin, ImagePlugin, PenPlugin, PresentationPlugin, RecorderPlugin, RenderOrderPlugin, SceneHydratorPlugin,
+  SelectPlugin, SelectionBroadcastPlugin, SelectionStyleMenuPlugin, Shape1dPlugin, Shape2dPlugin, SnapPlugin, StickyPlugin, TextPlugin, ToolbarPlugin, TransformPlugin, VersionHistoryPlugin, VisualDebugPlugin
 } from "../../plugins";
 import type { IPlugin, IPluginContext, TMouseEvent, TPointerEvent, TWheelEvent } from "../../plugins/shared/interface";
 import { AsyncParallelHook, SyncExitHook, SyncHook } from "../../tapable";
@@ -19,8 +19,29 @@ import { CanvasMode, Theme } from "./enum";
 import type { IState } from "./interface";
 import { History } from "./History";
 
+// SessionStorage key for the tab's history origin; localStorage prefix for its per-canvas undo stacks
+const HISTORY_CLIENT_STORAGE_KEY = "vibecanvas-history-client";
+const HISTORY_STORAGE_KEY_PREFIX = "vibecanvas-history:";
+
+/**
+ * Stable id for this tab, so undo after a reload still finds the changes it made while other tabs
+ * on the same canvas keep their own stacks. Falls back to a per-page id when sessionStorage is unavailable.
+ */
+function getHistoryClientId(): string {
+  try {
+    const stored = sessionStorage.getItem(HISTORY_CLIENT_STORAGE_KEY);
+    if (stored) return stored;
+
+    const clientId = crypto.randomUUID();
+    sessionStorage.setItem(HISTORY_CLIENT_STORAGE_KEY, clientId);
+    return clientId;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
 export function defaultPlugins(
-  args: { onToggleSidebar: () => void },
+  args: { onToggleSidebar: () => void; sidebarVisible?: () => boolean },
   env: Pick<ImportMetaEnv, "DEV"> = import.meta.env,
 ): IPlugin[] {
   const groupPlugin = new GroupPlugin();
@@ -33,24 +54,32 @@ export function defaultPlugins(
     new ToolbarPlugin(args.onToggleSidebar),
     new SelectionStyleMenuPlugin(),
     new HelpPlugin(),
+    new VersionHistoryPlugin(),
     new RenderOrderPlugin(),
+    new AlignPlugin(),
+    new SnapPlugin(),
     new SelectPlugin(),
     new TransformPlugin(),
     new Shape1dPlugin(),
     new Shape2dPlugin(),
     new PenPlugin(),
     new TextPlugin(),
+    new StickyPlugin(),
     new ImagePlugin(),
     new HostedSolidWidgetPlugin(),
     new IframeBrowserWidgetPlugin(),
+    new FramePlugin(),
+    new PresentationPlugin({ sidebarVisible: args.sidebarVisible, onToggleSidebar: args.onToggleSidebar }),
     groupPlugin,
     new ContextMenuPlugin(),
+    new ClipboardPlugin(),
+    new SelectionBroadcastPlugin(),
     // new ExampleScenePlugin(groupPlugin)
     new SceneHydratorPlugin()
   ];
 
   if (env.DEV) {
-    plugins.splice(8, 0, new RecorderPlugin());
+    plugins.splice(9, 0, new RecorderPlugin());
   }
 
   return plugins
@@ -78,8 +107,12 @@ export class CanvasService {
     plugins: IPlugin[],
     appCapabilities: Pick<IPluginContext["capabilities"], "uploadImage" | "cloneImage" | "deleteImage" | "notification" | "terminal" | "filetree" | "file"> = {},
   ) {
-    this.#history = new History();
-    this.#crdt = new Crdt(docHandle);
+    this.#crdt = new Crdt(docHandle, { origin: `web:${getHistoryClientId()}` });
+    this.#history = new History({
+      crdt: this.#crdt,
+      storage: typeof localStorage === "undefined" ? undefined : localStorage,
+      storageKey: `${HISTORY_STORAGE_KEY_PREFIX}${this.#crdt.origin}:${docHandle.url}`,
+    });
     this.#stage = new Konva.Stage({
       container,
       width: container.clientWidth,
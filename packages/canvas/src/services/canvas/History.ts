@@ -1,24 +1,60 @@
+import type { Crdt } from "./crdt"
 
 export type THistoryEntry = {
   undo: () => void
   redo: () => void
   label?: string
 }
+
+type TStackEntry = Partial<THistoryEntry> & {
+  /** Hashes of the local CRDT changes this entry owns, oldest first. */
+  changes: string[]
+  /** Doc heads right after the entry was made; closures are only safe while nobody else changed the doc since. */
+  heads: string[] | null
+}
+
+type TStoredStacks = {
+  /** CRDT origin that made the changes; stacks are only restored by the same origin. */
+  origin: string | null
+  undo: Array<Pick<TStackEntry, "label" | "changes">>
+  redo: Array<Pick<TStackEntry, "label" | "changes">>
+}
+
+export type THistoryOptions = {
+  /** When set, entries own the local changes made before they were recorded and can revert them from the doc history. */
+  crdt?: Crdt
+  /** Where the stacks are persisted, e.g. `localStorage`; entries without CRDT changes are not persisted. */
+  storage?: Pick<Storage, "getItem" | "setItem">
+  storageKey?: string
+}
+
 export class History {
-  #undoStack: THistoryEntry[] = [];
-  #redoStack: THistoryEntry[] = [];
+  #undoStack: TStackEntry[] = [];
+  #redoStack: TStackEntry[] = [];
   #maxStackSize = 100
+  #crdt: Crdt | null
+  #storage: THistoryOptions["storage"] | null
+  #storageKey: string | null
+
+  constructor(options: THistoryOptions = {}) {
+    this.#crdt = options.crdt ?? null
+    this.#storage = options.storage ?? null
+    this.#storageKey = options.storageKey ?? null
+    this.load()
+  }
 
   /**
    * Records an undoable action.
    *
-   * The redo stack is cleared when a new action is recorded.
+   * The redo stack is cleared when a new action is recorded. With a CRDT, the local changes made
+   * since the previous entry belong to this one, so undo can revert exactly those changes even after
+   * a reload, and without touching what other users or the CLI changed in between.
    *
    * @param entry - The undo/redo closures and optional label
    *
    */
   record(entry: THistoryEntry): void {
-    this.#undoStack.push(entry)
+    this.#undoStack.push({ ...entry, changes: this.#crdt?.takeLocalChanges() ?? [], heads: this.#crdt?.heads() ?? null })
     // Clear redo stack on new action
     this.#redoStack = []
 
@@ -26,14 +62,32 @@ export class History {
     if (this.#undoStack.length > this.#maxStackSize) {
       this.#undoStack.shift()
     }
+    this.persist()
+  }
+
+  /**
+   * Records the local changes made since the previous entry as one step without closures, for
+   * actions that rebuild the scene from the doc anyway; undo and redo revert them from the doc history.
+   */
+  recordLocalChanges(label: string): boolean {
+    const changes = this.#crdt?.takeLocalChanges() ?? []
+    if (changes.length === 0) return false
+
+    this.#undoStack.push({ label, changes, heads: null })
+    this.#redoStack = []
+    if (this.#undoStack.length > this.#maxStackSize) {
+      this.#undoStack.shift()
+    }
+    this.persist()
+    return true
   }
 
   undo(): boolean {
     const entry = this.#undoStack.pop()
     if (!entry) return false
 
-    entry.undo()
-    this.#redoStack.push(entry)
+    this.#redoStack.push(this.replay(entry, "undo"))
+    this.persist()
     return true
   }
 
@@ -41,8 +95,8 @@ export class History {
     const entry = this.#redoStack.pop()
     if (!entry) return false
 
-    entry.redo()
-    this.#undoStack.push(entry)
+    this.#undoStack.push(this.replay(entry, "redo"))
+    this.persist()
     return true
   }
 
@@ -57,6 +111,58 @@ export class History {
   clear(): void {
     this.#undoStack = []
     this.#redoStack = []
+    this.persist()
+  }
+
+  /**
+   * Runs one step and returns the entry for the opposite stack. The recorded closures run while
+   * this client is the only one that changed the doc since the entry; after a reload, or once
+   * someone else edited the canvas, the entry's changes are reverted from the doc history instead
+   * and the revert change is what the opposite step reverts back.
+   */
+  private replay(entry: TStackEntry, action: "undo" | "redo"): TStackEntry {
+    const crdt = this.#crdt
+    const closure = entry[action]
+    const canRunClosure = closure && !(crdt && entry.heads && crdt.hasForeignChangesSince(entry.heads))
+
+    if (crdt && !canRunClosure && entry.changes.length > 0) {
+      const hash = crdt.revert(entry.changes, { action, label: entry.label ?? null, target: entry.changes.at(-1) ?? null })
+      return { label: entry.label, changes: hash ? [hash] : [], heads: null }
+    }
+
+    // Local changes nobody recorded do not belong to the opposite entry.
+    crdt?.takeLocalChanges()
+    closure?.()
+    return { ...entry, changes: crdt?.takeLocalChanges() ?? [], heads: crdt?.heads() ?? null }
+  }
+
+  private load(): void {
+    if (!this.#storage || !this.#storageKey) return
+
+    try {
+      const stored = JSON.parse(this.#storage.getItem(this.#storageKey) ?? "null") as TStoredStacks | null
+      if (!stored || stored.origin !== (this.#crdt?.origin ?? null)) return
+      const toEntries = (entries: TStoredStacks["undo"] | undefined) => (entries ?? [])
+        .filter((entry) => Array.isArray(entry.changes) && entry.changes.length > 0)
+        .map((entry) => ({ label: entry.label, changes: entry.changes, heads: null }))
+      this.#undoStack = toEntries(stored.undo).slice(-this.#maxStackSize)
+      this.#redoStack = toEntries(stored.redo)
+    } catch {
+      // Unreadable history starts empty.
+    }
+  }
+
+  private persist(): void {
+    if (!this.#storage || !this.#storageKey) return
+
+    const toStored = (entries: TStackEntry[]) => entries
+      .filter((entry) => entry.changes.length > 0)
+      .map((entry) => ({ label: entry.label, changes: entry.changes }))
+    try {
+      this.#storage.setItem(this.#storageKey, JSON.stringify({ origin: this.#crdt?.origin ?? null, undo: toStored(this.#undoStack), redo: toStored(this.#redoStack) } satisfies TStoredStacks))
+    } catch {
+      // Storage full or unavailable; history still works for this session.
+    }
   }
 
 }
@@ -1,5 +1,8 @@
+import * as Automerge from "@automerge/automerge/slim";
 import type { DocHandle } from "@automerge/automerge-repo";
-import type { TCanvasDoc, TElement, TGroup } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { fnApplyCanvasRevert, fnBuildCanvasChangeOptions, fnParseCanvasChangeMessage, fnPlanCanvasRestore, fnPlanCanvasRevert, type TCanvasChangeMessage, type TCanvasRestorePlan } from "@vibecanvas/canvas-cmds/core/fn.history";
+import { fxCommitCanvasRevert } from "@vibecanvas/canvas-cmds/core/fx.canvas";
+import type { TCanvasDoc, TElement, TGroup, TPresentationSlide } from "@vibecanvas/service-automerge/types/canvas-doc";
 import Konva from "konva";
 import diff from "microdiff";
 import { GroupPlugin, IPluginContext, Shape2dPlugin } from "../../plugins";
@@ -14,10 +17,19 @@ type TEntityPatch<T extends { id: string }> = Pick<T, "id"> & TDeepPartial<Omit<
 type TElementPatch = TEntityPatch<TElement>;
 type TGroupPatch = TEntityPatch<TGroup>;
 
+export type TCrdtOptions = {
+  /** Origin written into every local change message, e.g. `web:<client-id>`. */
+  origin?: string;
+};
+
 export class Crdt {
   #pendingLocalChangeEvents = 0;
+  #localChanges: string[] = [];
+  readonly origin: string;
 
-  constructor(public readonly docHandle: DocHandle<TCanvasDoc>) { }
+  constructor(public readonly docHandle: DocHandle<TCanvasDoc>, options: TCrdtOptions = {}) {
+    this.origin = options.origin ?? `web:${crypto.randomUUID()}`;
+  }
 
   patch(data: { elements: TElementPatch[]; groups: TGroupPatch[] }): void {
     this.runLocalChange((doc) => {
@@ -26,6 +38,17 @@ export class Crdt {
     });
   }
 
+  /**
+   * Patches values derived from other changes, like connector routes. The change carries this
+   * client's origin, but no history entry owns it: undoing the edit it followed derives them again.
+   */
+  patchDerived(data: { elements: TElementPatch[]; groups: TGroupPatch[] }): void {
+    this.runLocalChange((doc) => {
+      this.patchCollection(doc.elements, data.elements);
+      this.patchCollection(doc.groups, data.groups);
+    }, { owned: false });
+  }
+
   deleteById(args: { elementIds?: string[]; groupIds?: string[] }): void {
     this.runLocalChange((doc) => {
       for (const id of args.elementIds ?? []) {
@@ -38,6 +61,13 @@ export class Crdt {
     });
   }
 
+  /** Replaces the presentation's slide list; slides live outside `elements` and `groups`. */
+  setSlides(slides: TPresentationSlide[]): void {
+    this.runLocalChange((doc) => {
+      doc.presentation = { slides: cloneValue(slides) };
+    });
+  }
+
   consumePendingLocalChangeEvent(): boolean {
     if (this.#pendingLocalChangeEvents <= 0) {
       return false;
@@ -47,16 +77,80 @@ export class Crdt {
     return true;
   }
 
-  private runLocalChange(callback: (doc: TCanvasDoc) => void): void {
+  /**
+   * Hashes of the local changes made since the last call, oldest first.
+   * History takes them when an action is recorded, so each entry knows which changes it owns.
+   */
+  takeLocalChanges(): string[] {
+    const hashes = this.#localChanges;
+    this.#localChanges = [];
+    return hashes;
+  }
+
+  heads(): string[] {
+    return Automerge.getHeads(this.docHandle.doc());
+  }
+
+  /** Whether another browser, peer or the CLI changed the doc after `heads`. */
+  hasForeignChangesSince(heads: string[]): boolean {
+    return Automerge.getChangesMetaSince(this.docHandle.doc(), heads)
+      .some((change) => fnParseCanvasChangeMessage(change.message)?.origin !== this.origin);
+  }
+
+  /** Whether this client made any of the changes in `doc` after `heads`. */
+  hasOwnChangesSince(heads: string[], doc: TCanvasDoc = this.docHandle.doc()): boolean {
+    return Automerge.getChangesMetaSince(doc, heads)
+      .some((change) => fnParseCanvasChangeMessage(change.message)?.origin === this.origin);
+  }
+
+  /**
+   * Reverts changes by hash, keeping any value another user or the CLI changed since.
+   * The revert is not a pending local change, so the scene reloads from the doc afterwards.
+   * Returns the hash of the revert change.
+   */
+  revert(hashes: string[], message: Omit<TCanvasChangeMessage, "origin">): string | null {
+    const before = this.heads();
+    const plan = fnPlanCanvasRevert(this.docHandle.doc(), hashes);
+    fxCommitCanvasRevert(this.docHandle, plan, fnBuildCanvasChangeOptions({ ...message, origin: this.origin }));
+    return this.readNewLocalHash(before);
+  }
+
+  /**
+   * Brings the doc (or `ids` and their group descendants) back to its state at `heads` in one change.
+   * Like a revert it reloads the scene, and the change is taken by the next recorded history entry.
+   */
+  restore(heads: string[], ids?: string[] | null): TCanvasRestorePlan {
+    const plan = fnPlanCanvasRestore(this.docHandle.doc(), heads, ids);
+    if (plan.ops.length === 0) return plan;
+
+    const before = this.heads();
+    this.docHandle.change((doc) => fnApplyCanvasRevert(doc, plan), fnBuildCanvasChangeOptions({ origin: this.origin, action: "edit", label: "restore" }));
+    const hash = this.readNewLocalHash(before);
+    if (hash) this.#localChanges.push(hash);
+    return plan;
+  }
+
+  private runLocalChange(callback: (doc: TCanvasDoc) => void, options: { owned: boolean } = { owned: true }): void {
     this.#pendingLocalChangeEvents += 1;
+    const before = this.heads();
 
     try {
       this.docHandle.change((doc) => {
         callback(doc);
-      });
+      }, fnBuildCanvasChangeOptions({ origin: this.origin, action: "edit" }));
     } finally {
       this.#pendingLocalChangeEvents = Math.max(0, this.#pendingLocalChangeEvents - 1);
     }
+
+    const hash = options.owned ? this.readNewLocalHash(before) : null;
+    if (hash) this.#localChanges.push(hash);
+  }
+
+  /** A local change becomes the doc's only head; no new head means the callback changed nothing. */
+  private readNewLocalHash(before: string[]): string | null {
+    const after = this.heads();
+    if (after.length !== 1 || before.includes(after[0]!)) return null;
+    return after[0]!;
   }
 
   private patchCollection<TItem extends { id: string }>(
@@ -1,5 +1,5 @@
 import type { TOrpcSafeClient } from "@vibecanvas/orpc-client";
-import type { TElement, TFileData, TFiletreeData, TTerminalData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import type { TElement, TFileData, TFiletreeData, TNoteData, TTerminalData } from "@vibecanvas/service-automerge/types/canvas-doc";
 import { Group } from "konva/lib/Group";
 import { Shape, ShapeConfig } from "konva/lib/Shape";
 import { CanvasMode, Theme } from "./enum";
@@ -19,12 +19,13 @@ export type TDeleteImage = (args: {
   url: string;
 }) => Promise<{ ok: true }>;
 
-export type THostedWidgetType = "filetree" | "terminal" | "file";
+export type THostedWidgetType = "filetree" | "terminal" | "file" | "note";
 
 export type THostedWidgetElementMap = {
   filetree: TElement & { data: TFiletreeData };
   terminal: TElement & { data: TTerminalData };
   file: TElement & { data: TFileData };
+  note: TElement & { data: TNoteData };
 };
 
 export type THostedWidgetChrome = {
@@ -0,0 +1,85 @@
+import Konva from "konva";
+import { describe, expect, test } from "vitest";
+import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { AlignPlugin, SceneHydratorPlugin, Shape2dPlugin, type IPluginContext } from "../../../src/plugins";
+import { createCanvasTestHarness, createMockDocHandle, flushCanvasEffects } from "../../test-setup";
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return {
+    id: "element-1",
+    x: 10,
+    y: 20,
+    rotation: 0,
+    zIndex: "z00000000",
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: 1,
+    updatedAt: 2,
+    data: {
+      type: "rect",
+      w: 100,
+      h: 80,
+    },
+    style: {
+      backgroundColor: "#f00",
+    },
+    ...overrides,
+  };
+}
+
+async function createAlignHarness(elements: TElement[]) {
+  let pluginContext!: IPluginContext;
+  const docHandle = createMockDocHandle({
+    elements: Object.fromEntries(elements.map((element) => [element.id, element])),
+  });
+  const harness = await createCanvasTestHarness({
+    docHandle,
+    plugins: [new AlignPlugin(), new Shape2dPlugin(), new SceneHydratorPlugin()],
+    initializeScene(context) {
+      pluginContext = context;
+    },
+  });
+  const nodes = elements.map((element) => harness.staticForegroundLayer.findOne<Konva.Rect>(`#${element.id}`)!);
+
+  return { harness, docHandle, nodes, context: () => pluginContext };
+}
+
+describe("AlignPlugin", () => {
+  test("aligns the selection as one undoable history entry", async () => {
+    const { harness, docHandle, nodes, context } = await createAlignHarness([
+      createRectElement({ id: "rect-a", x: 40, y: 0 }),
+      createRectElement({ id: "rect-b", x: 200, y: 120 }),
+    ]);
+
+    expect(context().capabilities.align?.canAlign(nodes)).toBe(true);
+    expect(context().capabilities.align?.alignSelection(nodes, "left")).toBe(true);
+    await flushCanvasEffects();
+
+    expect(docHandle.doc().elements["rect-b"]).toMatchObject({ x: 40, y: 120 });
+    expect(nodes[1]!.x()).toBe(40);
+
+    context().history.undo();
+    await flushCanvasEffects();
+    expect(docHandle.doc().elements["rect-b"]).toMatchObject({ x: 200, y: 120 });
+    expect(context().history.canUndo()).toBe(false);
+    harness.destroy();
+  });
+
+  test("distributes three shapes with equal gaps and keeps the outer shapes in place", async () => {
+    const { harness, docHandle, nodes, context } = await createAlignHarness([
+      createRectElement({ id: "rect-a", x: 0, y: 0 }),
+      createRectElement({ id: "rect-b", x: 120, y: 50 }),
+      createRectElement({ id: "rect-c", x: 400, y: 0 }),
+    ]);
+
+    expect(context().capabilities.align?.canDistribute(nodes.slice(0, 2))).toBe(false);
+    expect(context().capabilities.align?.distributeSelection(nodes, "horizontal")).toBe(true);
+    await flushCanvasEffects();
+
+    const doc = docHandle.doc();
+    expect([doc.elements["rect-a"]!.x, doc.elements["rect-b"]!.x, doc.elements["rect-c"]!.x]).toEqual([0, 200, 400]);
+    expect(doc.elements["rect-b"]!.y).toBe(50);
+    harness.destroy();
+  });
+});
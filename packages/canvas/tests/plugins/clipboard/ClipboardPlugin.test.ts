@@ -0,0 +1,177 @@
+import Konva from "konva";
+import type { TElement, TGroup } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { describe, expect, test } from "vitest";
+import { ClipboardPlugin, GroupPlugin, RenderOrderPlugin, SceneHydratorPlugin, SelectPlugin, Shape2dPlugin, type IPluginContext } from "../../../src/plugins";
+import { CLIPBOARD_MIME_TYPE, createPasteSnapshot, parseClipboardPayload } from "../../../src/plugins/Clipboard/Clipboard.payload";
+import { createCanvasTestHarness, createMockDocHandle, flushCanvasEffects } from "../../test-setup";
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return {
+    id: "rect-1",
+    x: 100,
+    y: 100,
+    rotation: 0,
+    bindings: [],
+    createdAt: 1,
+    updatedAt: 1,
+    locked: false,
+    parentGroupId: null,
+    zIndex: "z00000000",
+    style: { backgroundColor: "#ffffff", strokeColor: "#111111", strokeWidth: 1, opacity: 1 },
+    data: { type: "rect", w: 80, h: 40 },
+    ...overrides,
+  };
+}
+
+function createGroup(overrides?: Partial<TGroup>): TGroup {
+  return { id: "group-1", parentGroupId: null, zIndex: "z00000001", locked: false, createdAt: 1, ...overrides };
+}
+
+function createClipboardEvent(type: "copy" | "cut" | "paste", store: Map<string, string>) {
+  const event = new Event(type, { bubbles: true, cancelable: true }) as ClipboardEvent;
+  Object.defineProperty(event, "clipboardData", {
+    configurable: true,
+    value: {
+      files: [],
+      getData: (format: string) => store.get(format) ?? "",
+      setData: (format: string, value: string) => store.set(format, value),
+    },
+  });
+  return event;
+}
+
+function createPlugins() {
+  return [new RenderOrderPlugin(), new SelectPlugin(), new Shape2dPlugin(), new GroupPlugin(), new ClipboardPlugin(), new SceneHydratorPlugin()];
+}
+
+describe("ClipboardPlugin", () => {
+  test("copy writes a versioned payload with the selected group subtree", async () => {
+    let context!: IPluginContext;
+    const docHandle = createMockDocHandle({
+      groups: { "group-1": createGroup() },
+      elements: {
+        "rect-a": createRectElement({ id: "rect-a", parentGroupId: "group-1", zIndex: "z00000000" }),
+        "rect-b": createRectElement({ id: "rect-b", x: 220, parentGroupId: "group-1", zIndex: "z00000001" }),
+        "rect-c": createRectElement({ id: "rect-c", x: 400 }),
+      },
+    });
+    const harness = await createCanvasTestHarness({ docHandle, plugins: createPlugins(), initializeScene: (ctx) => { context = ctx; } });
+    await flushCanvasEffects();
+
+    const group = harness.staticForegroundLayer.findOne<Konva.Group>("#group-1")!;
+    context.setState("selection", [group]);
+
+    const store = new Map<string, string>();
+    const event = createClipboardEvent("copy", store);
+    harness.stage.container().dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    const payload = parseClipboardPayload(store.get(CLIPBOARD_MIME_TYPE));
+    expect(payload).toMatchObject({ kind: "vibecanvas/clipboard", version: 1, sourceCanvasId: "test-doc", rootIds: ["group-1"] });
+    expect(payload?.groups.map((entry) => entry.id)).toEqual(["group-1"]);
+    expect(payload?.elements.map((entry) => entry.id).sort()).toEqual(["rect-a", "rect-b"]);
+    expect(store.get("text/plain")).toBe(store.get(CLIPBOARD_MIME_TYPE));
+
+    harness.destroy();
+  });
+
+  test("paste recreates the subtree on another canvas with fresh ids in front of existing content", async () => {
+    let sourceContext!: IPluginContext;
+    const sourceDoc = createMockDocHandle({
+      groups: { "group-1": createGroup() },
+      elements: {
+        "rect-a": createRectElement({ id: "rect-a", parentGroupId: "group-1" }),
+        "rect-b": createRectElement({ id: "rect-b", x: 220, parentGroupId: "group-1", zIndex: "z00000001" }),
+      },
+    });
+    const source = await createCanvasTestHarness({ docHandle: sourceDoc, plugins: createPlugins(), initializeScene: (ctx) => { sourceContext = ctx; } });
+    await flushCanvasEffects();
+    sourceContext.setState("selection", [source.staticForegroundLayer.findOne<Konva.Group>("#group-1")!]);
+
+    const store = new Map<string, string>();
+    source.stage.container().dispatchEvent(createClipboardEvent("copy", store));
+    source.destroy();
+
+    const targetDoc = createMockDocHandle({ id: "target-doc", elements: { "existing": createRectElement({ id: "existing", zIndex: "z00000005" }) } });
+    let targetContext!: IPluginContext;
+    const target = await createCanvasTestHarness({ docHandle: targetDoc, plugins: createPlugins(), initializeScene: (ctx) => { targetContext = ctx; } });
+    await flushCanvasEffects();
+
+    const pasteEvent = createClipboardEvent("paste", store);
+    target.stage.container().dispatchEvent(pasteEvent);
+    await flushCanvasEffects();
+
+    expect(pasteEvent.defaultPrevented).toBe(true);
+    const doc = targetDoc.doc();
+    const pastedGroups = Object.values(doc.groups);
+    const pastedElements = Object.values(doc.elements).filter((element) => element.id !== "existing");
+    expect(pastedGroups).toHaveLength(1);
+    expect(pastedGroups[0]!.id).not.toBe("group-1");
+    expect(pastedElements).toHaveLength(2);
+    expect(pastedElements.every((element) => element.parentGroupId === pastedGroups[0]!.id)).toBe(true);
+    expect(pastedElements.map((element) => element.id)).not.toContain("rect-a");
+    expect(pastedGroups[0]!.zIndex > doc.elements.existing!.zIndex).toBe(true);
+    expect(targetContext.state.selection.map((node) => node.id())).toEqual([pastedGroups[0]!.id]);
+
+    targetContext.history.undo();
+    expect(Object.keys(targetDoc.doc().elements)).toEqual(["existing"]);
+    expect(Object.keys(targetDoc.doc().groups)).toEqual([]);
+
+    target.destroy();
+  });
+
+  test("cut copies the selection and deletes it", async () => {
+    let context!: IPluginContext;
+    const docHandle = createMockDocHandle({ elements: { "rect-1": createRectElement() } });
+    const harness = await createCanvasTestHarness({ docHandle, plugins: createPlugins(), initializeScene: (ctx) => { context = ctx; } });
+    await flushCanvasEffects();
+    context.setState("selection", [harness.staticForegroundLayer.findOne<Konva.Rect>("#rect-1")!]);
+
+    const store = new Map<string, string>();
+    harness.stage.container().dispatchEvent(createClipboardEvent("cut", store));
+
+    expect(parseClipboardPayload(store.get(CLIPBOARD_MIME_TYPE))?.elements.map((element) => element.id)).toEqual(["rect-1"]);
+    expect(docHandle.doc().elements["rect-1"]).toBeUndefined();
+    expect(harness.staticForegroundLayer.findOne("#rect-1")).toBeUndefined();
+
+    harness.destroy();
+  });
+
+  test("paste snapshot remaps links inside the payload and drops links that leave it", () => {
+    const payload = parseClipboardPayload(JSON.stringify({
+      kind: "vibecanvas/clipboard",
+      version: 1,
+      sourceCanvasId: "canvas-a",
+      bounds: { x: 0, y: 0, width: 100, height: 100 },
+      rootIds: ["rect-1", "arrow-1"],
+      groups: [],
+      elements: [
+        createRectElement({ id: "rect-1", x: 0, y: 0 }),
+        createRectElement({
+          id: "arrow-1",
+          x: 10,
+          y: 10,
+          data: {
+            type: "arrow",
+            lineType: "straight",
+            points: [[0, 0], [50, 0]],
+            startCap: "none",
+            endCap: "arrow",
+            startBinding: { targetId: "rect-1", anchor: { x: 1, y: 0.5 } },
+            endBinding: { targetId: "not-copied", anchor: { x: 0, y: 0.5 } },
+          },
+        }),
+      ],
+    }))!;
+
+    let nextId = 0;
+    const snapshot = createPasteSnapshot(payload, { center: { x: 500, y: 500 }, createId: () => `new-${nextId++}`, now: 42 });
+    const [rect, arrow] = snapshot.elements;
+
+    expect(snapshot.rootIds).toEqual(["new-0", "new-1"]);
+    expect(rect).toMatchObject({ id: "new-0", x: 450, y: 450, createdAt: 42 });
+    expect(arrow?.data).toMatchObject({ startBinding: { targetId: "new-0" }, endBinding: null });
+    expect(parseClipboardPayload(JSON.stringify({ ...payload, version: 2 }))).toBeNull();
+    expect(parseClipboardPayload("plain text")).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import Konva from "konva";
+import { describe, expect, test } from "vitest";
+import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { FramePlugin, SceneHydratorPlugin, Shape2dPlugin, type IPluginContext } from "../../../src/plugins";
+import { createCanvasTestHarness, createMockDocHandle, flushCanvasEffects } from "../../test-setup";
+
+function createElement(overrides: Partial<TElement> & Pick<TElement, "id" | "data">): TElement {
+  return {
+    x: 0,
+    y: 0,
+    rotation: 0,
+    zIndex: "z00000001",
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: 1,
+    updatedAt: 2,
+    style: {},
+    ...overrides,
+  };
+}
+
+function createFrameElement(overrides?: Partial<TElement>): TElement {
+  return createElement({
+    id: "frame-1",
+    zIndex: "z00000000",
+    data: { type: "frame", w: 400, h: 300, title: "Hero", clipChildren: false },
+    style: { backgroundColor: "#ffffff", strokeColor: "#d4d4d8", strokeWidth: 1 },
+    ...overrides,
+  });
+}
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return createElement({
+    id: "rect-1",
+    x: 40,
+    y: 40,
+    data: { type: "rect", w: 60, h: 40 },
+    style: { backgroundColor: "#f00" },
+    ...overrides,
+  });
+}
+
+async function createFrameHarness(elements: TElement[]) {
+  let pluginContext!: IPluginContext;
+  const docHandle = createMockDocHandle({
+    elements: Object.fromEntries(elements.map((element) => [element.id, element])),
+  });
+  const harness = await createCanvasTestHarness({
+    docHandle,
+    plugins: [new Shape2dPlugin(), new FramePlugin(), new SceneHydratorPlugin()],
+    initializeScene(context) {
+      pluginContext = context;
+    },
+  });
+  await flushCanvasEffects();
+
+  return { harness, docHandle, context: () => pluginContext };
+}
+
+function drag(node: Konva.Node, delta: { x: number; y: number }) {
+  const start = { ...node.absolutePosition() };
+  node.fire("dragstart", { target: node, currentTarget: node, evt: new MouseEvent("dragstart", { bubbles: true }) }, true);
+  node.setAbsolutePosition({ x: start.x + delta.x, y: start.y + delta.y });
+  node.fire("dragmove", { target: node, currentTarget: node, evt: new MouseEvent("dragmove", { bubbles: true }) }, true);
+  node.fire("dragend", { target: node, currentTarget: node, evt: new MouseEvent("dragend", { bubbles: true }) }, true);
+}
+
+describe("FramePlugin", () => {
+  test("hydrates frames and serializes title and clipping back", async () => {
+    const { harness, context } = await createFrameHarness([createFrameElement({ x: 10, y: 20 })]);
+    const frame = harness.staticForegroundLayer.findOne<Konva.Shape>("#frame-1")!;
+
+    expect(context().capabilities.frames?.isFrameNode(frame)).toBe(true);
+    expect(context().capabilities.toElement?.(frame)).toMatchObject({
+      x: 10,
+      y: 20,
+      data: { type: "frame", w: 400, h: 300, title: "Hero", clipChildren: false },
+    });
+    harness.destroy();
+  });
+
+  test("dragging a frame carries its adopted elements as one history entry", async () => {
+    const { harness, docHandle, context } = await createFrameHarness([
+      createFrameElement(),
+      createRectElement({ frameId: "frame-1" }),
+      createRectElement({ id: "rect-2", x: 600, y: 40 }),
+    ]);
+    const frame = harness.staticForegroundLayer.findOne<Konva.Shape>("#frame-1")!;
+    context().setState("selection", [frame]);
+    await flushCanvasEffects();
+
+    drag(frame, { x: 100, y: 50 });
+    await flushCanvasEffects();
+
+    expect(docHandle.doc().elements["frame-1"]).toMatchObject({ x: 100, y: 50 });
+    expect(docHandle.doc().elements["rect-1"]).toMatchObject({ x: 140, y: 90, frameId: "frame-1" });
+    expect(docHandle.doc().elements["rect-2"]).toMatchObject({ x: 600, y: 40 });
+
+    context().history.undo();
+    await flushCanvasEffects();
+    expect(docHandle.doc().elements["frame-1"]).toMatchObject({ x: 0, y: 0 });
+    expect(docHandle.doc().elements["rect-1"]).toMatchObject({ x: 40, y: 40 });
+    expect(context().history.canUndo()).toBe(false);
+    harness.destroy();
+  });
+
+  test("dropping an element into a frame adopts it and dragging it out releases it", async () => {
+    const { harness, docHandle, context } = await createFrameHarness([
+      createFrameElement(),
+      createRectElement({ x: 600, y: 40 }),
+    ]);
+    const rect = harness.staticForegroundLayer.findOne<Konva.Rect>("#rect-1")!;
+    context().setState("selection", [rect]);
+    await flushCanvasEffects();
+
+    drag(rect, { x: -500, y: 0 });
+    await flushCanvasEffects();
+    expect(docHandle.doc().elements["rect-1"]?.frameId).toBe("frame-1");
+
+    context().history.undo();
+    await flushCanvasEffects();
+    expect(docHandle.doc().elements["rect-1"]?.frameId).toBeNull();
+
+    context().history.redo();
+    drag(rect, { x: 500, y: 0 });
+    await flushCanvasEffects();
+    expect(docHandle.doc().elements["rect-1"]?.frameId).toBeNull();
+    harness.destroy();
+  });
+
+  test("toggles clipping as an undoable change", async () => {
+    const { harness, docHandle, context } = await createFrameHarness([createFrameElement()]);
+    const frame = harness.staticForegroundLayer.findOne<Konva.Shape>("#frame-1")!;
+
+    context().capabilities.frames?.setClipChildren(frame, true);
+    expect(docHandle.doc().elements["frame-1"]?.data).toMatchObject({ clipChildren: true });
+
+    context().history.undo();
+    expect(docHandle.doc().elements["frame-1"]?.data).toMatchObject({ clipChildren: false });
+    harness.destroy();
+  });
+});
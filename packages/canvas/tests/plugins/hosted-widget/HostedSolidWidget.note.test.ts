@@ -0,0 +1,88 @@
+import type { TElement } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { describe, expect, test } from "vitest";
+import { HostedSolidWidgetPlugin, RenderOrderPlugin, SceneHydratorPlugin } from "../../../src/plugins";
+import { getDefaultWidgetElement } from "../../../src/plugins/HostedSolidWidget/HostedSolidWidget.helpers";
+import { createCanvasTestHarness, createMockDocHandle, flushCanvasEffects } from "../../test-setup";
+
+const NOTE_MARKDOWN = [
+  "# Sprint summary",
+  "- [ ] write docs",
+  "- [x] ship **importer**",
+  "",
+  "| Area | Status |",
+  "|------|:------:|",
+  "| cli | done |",
+  "",
+  "```ts",
+  "const done = true;",
+  "```",
+].join("\n");
+
+function createNoteElement(markdown: string): TElement {
+  return {
+    id: "note1",
+    x: 40,
+    y: 50,
+    rotation: 0,
+    zIndex: "z00000001",
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: 1,
+    updatedAt: 1,
+    style: {},
+    data: { type: "note", w: 420, h: 320, isCollapsed: false, markdown },
+  };
+}
+
+async function createNoteHarness(markdown: string) {
+  const docHandle = createMockDocHandle({ elements: { note1: createNoteElement(markdown) } });
+  const harness = await createCanvasTestHarness({
+    docHandle,
+    plugins: [new RenderOrderPlugin(), new HostedSolidWidgetPlugin(), new SceneHydratorPlugin()],
+  });
+  await flushCanvasEffects();
+
+  return { harness, docHandle, root: () => harness.stage.container() };
+}
+
+describe("HostedSolidWidgetPlugin – notes", () => {
+  test("renders headings, task lists, tables, and code blocks and titles the window", async () => {
+    const { harness, root } = await createNoteHarness(NOTE_MARKDOWN);
+
+    expect(root().querySelector("[data-hosted-widget-title='true']")?.textContent).toBe("Sprint summary");
+    expect(root().querySelector("[data-note-markdown] h1")?.textContent).toBe("Sprint summary");
+    expect(root().querySelectorAll("[data-note-markdown] input[type='checkbox']")).toHaveLength(2);
+    expect(root().querySelector("[data-note-markdown] li .font-bold")?.textContent).toBe("importer");
+    expect([...root().querySelectorAll("[data-note-markdown] th")].map((cell) => cell.textContent)).toEqual(["Area", "Status"]);
+    expect(root().querySelector("[data-note-code-block='ts']")).not.toBeNull();
+    harness.destroy();
+  });
+
+  test("toggles a task in the canvas doc when its checkbox is clicked", async () => {
+    const { harness, docHandle, root } = await createNoteHarness(NOTE_MARKDOWN);
+
+    const checkbox = root().querySelector("[data-note-markdown] input[type='checkbox']") as HTMLInputElement;
+    checkbox.click();
+    await flushCanvasEffects();
+
+    const data = docHandle.doc().elements.note1?.data;
+    expect(data?.type === "note" && data.markdown.split("\n")[1]).toBe("- [x] write docs");
+    harness.destroy();
+  });
+
+  test("opens empty notes in the markdown editor", async () => {
+    const { harness, root } = await createNoteHarness("");
+
+    expect(root().querySelector("[data-note-widget-root] .cm-editor")).not.toBeNull();
+    expect(root().querySelector("[data-hosted-widget-subtitle='true']")?.textContent).toBe("editing");
+    harness.destroy();
+  });
+
+  test("creates notes from the toolbar tool with widget chrome colors", () => {
+    const element = getDefaultWidgetElement(undefined, { type: "note", x: 10, y: 20, id: "note-new" });
+
+    expect(element.data).toEqual({ type: "note", w: 420, h: 320, isCollapsed: false, markdown: "" });
+    expect(element.style).toMatchObject({ borderColor: "#d6d3d1", headerColor: "#f5f5f4" });
+  });
+});
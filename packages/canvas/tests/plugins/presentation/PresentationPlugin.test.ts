@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import type { TElement, TPresentationSlide } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { FramePlugin, PresentationPlugin, SceneHydratorPlugin, Shape2dPlugin, type IPluginContext } from "../../../src/plugins";
+import { createCanvasTestHarness, createMockDocHandle, flushCanvasEffects } from "../../test-setup";
+
+function createFrameElement(overrides: Partial<TElement> & Pick<TElement, "id">): TElement {
+  return {
+    x: 0,
+    y: 0,
+    rotation: 0,
+    zIndex: "z00000000",
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: 1,
+    updatedAt: 2,
+    data: { type: "frame", w: 400, h: 300, title: "Frame", clipChildren: false },
+    style: { backgroundColor: "#ffffff", strokeColor: "#d4d4d8", strokeWidth: 1 },
+    ...overrides,
+  };
+}
+
+async function createPresentationHarness(args: { elements?: TElement[]; slides?: TPresentationSlide[]; sidebarVisible?: boolean } = {}) {
+  let pluginContext!: IPluginContext;
+  let sidebarVisible = args.sidebarVisible ?? false;
+  const onToggleSidebar = vi.fn(() => {
+    sidebarVisible = !sidebarVisible;
+  });
+  const docHandle = createMockDocHandle({
+    elements: Object.fromEntries((args.elements ?? []).map((element) => [element.id, element])),
+    ...(args.slides ? { presentation: { slides: args.slides } } : {}),
+  });
+  const harness = await createCanvasTestHarness({
+    docHandle,
+    plugins: [
+      new Shape2dPlugin(),
+      new FramePlugin(),
+      new PresentationPlugin({ sidebarVisible: () => sidebarVisible, onToggleSidebar }),
+      new SceneHydratorPlugin(),
+    ],
+    initializeScene(context) {
+      pluginContext = context;
+    },
+  });
+  await flushCanvasEffects();
+
+  return { harness, docHandle, onToggleSidebar, context: () => pluginContext };
+}
+
+function pressKey(container: HTMLElement, key: string) {
+  const overlay = container.querySelector<HTMLElement>('[aria-label="Presentation"]')!;
+  overlay.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true }));
+}
+
+describe("PresentationPlugin", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("saves the current view as an undoable slide", async () => {
+    const { harness, docHandle, context } = await createPresentationHarness();
+
+    context().capabilities.presentation?.addViewSlide();
+    expect(docHandle.doc().presentation?.slides).toMatchObject([
+      { title: "View 1", notes: "", target: { type: "viewport", x: 0, y: 0 } },
+    ]);
+
+    context().history.undo();
+    expect(docHandle.doc().presentation?.slides).toEqual([]);
+    harness.destroy();
+  });
+
+  test("steps through frames in reading order and restores the camera and sidebar on exit", async () => {
+    vi.stubGlobal("matchMedia", () => ({ matches: true }));
+    const { harness, onToggleSidebar, context } = await createPresentationHarness({
+      sidebarVisible: true,
+      elements: [
+        createFrameElement({ id: "frame-bottom", y: 1000 }),
+        createFrameElement({ id: "frame-top", x: 2000 }),
+      ],
+    });
+    const container = context().stage.container();
+    const cameraBefore = { x: context().camera.x, y: context().camera.y, zoom: context().camera.zoom };
+
+    context().capabilities.presentation?.start();
+    await flushCanvasEffects();
+    expect(onToggleSidebar).toHaveBeenCalledTimes(1);
+    const firstX = context().camera.x;
+
+    pressKey(container, "ArrowRight");
+    expect(context().camera.x).toBeGreaterThan(firstX);
+    expect(context().camera.y).toBeLessThan(cameraBefore.y);
+
+    pressKey(container, "Escape");
+    await flushCanvasEffects();
+    expect(onToggleSidebar).toHaveBeenCalledTimes(2);
+    expect({ x: context().camera.x, y: context().camera.y, zoom: context().camera.zoom }).toEqual(cameraBefore);
+    expect(container.querySelector('[aria-label="Presentation"]')).toBeNull();
+    harness.destroy();
+  });
+
+  test("presents the saved slides and skips those whose frame is gone", async () => {
+    vi.stubGlobal("matchMedia", () => ({ matches: true }));
+    const { harness, context } = await createPresentationHarness({
+      elements: [createFrameElement({ id: "frame-1" })],
+      slides: [
+        { id: "slide-gone", title: "", notes: "", target: { type: "frame", frameId: "missing" } },
+        { id: "slide-view", title: "Overview", notes: "Say hello", target: { type: "viewport", x: 0, y: 0, w: 800, h: 600 } },
+      ],
+    });
+
+    context().capabilities.presentation?.start();
+    await flushCanvasEffects();
+    expect(context().stage.container().textContent).toContain("1 / 1");
+    expect(context().stage.container().textContent).toContain("Overview");
+    harness.destroy();
+  });
+});
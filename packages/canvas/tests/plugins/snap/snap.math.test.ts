@@ -0,0 +1,53 @@
+import { describe, expect, test } from "vitest";
+import { getSnappedMove, getSnappedPoint } from "../../../src/plugins/shared/snap.math";
+
+describe("snap math", () => {
+  test("snaps a moving box to the nearest edge or center and reports the guide", () => {
+    const result = getSnappedMove({
+      box: { x: 103, y: 300, w: 50, h: 50 },
+      candidates: [{ x: 0, y: 0, w: 100, h: 100 }],
+      threshold: 6,
+      gridSize: null,
+    });
+
+    expect(result).toMatchObject({ dx: -3, dy: 0 });
+    expect(result.guides).toEqual([{ kind: "align", axis: "x", position: 100, start: 0, end: 350 }]);
+  });
+
+  test("prefers equal spacing next to neighbours on the same row", () => {
+    const result = getSnappedMove({
+      box: { x: 262, y: 12, w: 100, h: 20 },
+      candidates: [
+        { x: 0, y: 0, w: 100, h: 80 },
+        { x: 130, y: 0, w: 100, h: 80 },
+      ],
+      threshold: 6,
+      gridSize: null,
+    });
+
+    expect(result).toMatchObject({ dx: -2, dy: 0 });
+    expect(result.guides).toEqual([{
+      kind: "spacing",
+      axis: "x",
+      cross: 22,
+      gaps: [{ start: 100, end: 130 }, { start: 230, end: 260 }],
+    }]);
+  });
+
+  test("falls back to the grid and leaves far targets alone", () => {
+    expect(getSnappedMove({
+      box: { x: 35, y: 61, w: 10, h: 10 },
+      candidates: [{ x: 500, y: 500, w: 10, h: 10 }],
+      threshold: 6,
+      gridSize: 32,
+    })).toEqual({ dx: -3, dy: 3, guides: [] });
+
+    expect(getSnappedPoint({
+      point: { x: 98, y: 45 },
+      axes: { x: true, y: false },
+      candidates: [{ x: 0, y: 0, w: 100, h: 100 }],
+      threshold: 6,
+      gridSize: null,
+    })).toMatchObject({ x: 100, y: 45 });
+  });
+});
@@ -0,0 +1,106 @@
+import Konva from "konva";
+import { describe, expect, test } from "vitest";
+import type { TElement, TStickyData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { SceneHydratorPlugin, StickyPlugin, type IPluginContext } from "../../../src/plugins";
+import { createCanvasTestHarness, createMockDocHandle, flushCanvasEffects } from "../../test-setup";
+
+function createStickyElement(overrides?: Partial<Omit<TElement, "data">> & { data?: Partial<TStickyData> }): TElement {
+  const { data, ...rest } = overrides ?? {};
+  return {
+    id: "sticky-1",
+    x: 10,
+    y: 20,
+    rotation: 0,
+    zIndex: "z00000001",
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: Date.UTC(2026, 0, 2),
+    updatedAt: 2,
+    style: {},
+    ...rest,
+    data: { type: "sticky", w: 200, h: 200, text: "Ship it", color: "yellow", fontSize: 20, autoSize: "grow", author: "ada", ...data },
+  };
+}
+
+async function createStickyHarness(elements: TElement[]) {
+  let pluginContext!: IPluginContext;
+  const docHandle = createMockDocHandle({
+    elements: Object.fromEntries(elements.map((element) => [element.id, element])),
+  });
+  const harness = await createCanvasTestHarness({
+    docHandle,
+    plugins: [new StickyPlugin(), new SceneHydratorPlugin()],
+    initializeScene(context) {
+      pluginContext = context;
+    },
+  });
+  await flushCanvasEffects();
+
+  return { harness, docHandle, context: () => pluginContext };
+}
+
+describe("StickyPlugin", () => {
+  test("hydrates notes and serializes them back", async () => {
+    const { harness, context } = await createStickyHarness([createStickyElement()]);
+    const sticky = harness.staticForegroundLayer.findOne<Konva.Shape>("#sticky-1")!;
+
+    expect(context().capabilities.stickies?.isStickyNode(sticky)).toBe(true);
+    expect(context().capabilities.toElement?.(sticky)).toMatchObject({
+      x: 10,
+      y: 20,
+      data: { type: "sticky", w: 200, h: 200, text: "Ship it", color: "yellow", author: "ada" },
+    });
+    harness.destroy();
+  });
+
+  test("growing notes get taller for long text and fitting notes keep their size", async () => {
+    const text = Array.from({ length: 40 }, (_, index) => `word${index}`).join(" ");
+    const { harness } = await createStickyHarness([
+      createStickyElement({ id: "sticky-grow", data: { text } }),
+      createStickyElement({ id: "sticky-fit", data: { text, autoSize: "fit" } }),
+    ]);
+
+    expect(harness.staticForegroundLayer.findOne<Konva.Shape>("#sticky-grow")!.height()).toBeGreaterThan(200);
+    expect(harness.staticForegroundLayer.findOne<Konva.Shape>("#sticky-fit")!.height()).toBe(200);
+    harness.destroy();
+  });
+
+  test("recolors and switches sizing as undoable changes", async () => {
+    const { harness, docHandle, context } = await createStickyHarness([createStickyElement()]);
+    const sticky = harness.staticForegroundLayer.findOne<Konva.Shape>("#sticky-1")!;
+    const stickies = context().capabilities.stickies!;
+
+    stickies.setColor([sticky], "blue");
+    expect(stickies.getColor(sticky)).toBe("blue");
+    expect(docHandle.doc().elements["sticky-1"]?.data).toMatchObject({ color: "blue" });
+
+    stickies.setAutoSize([sticky], "fit");
+    expect(docHandle.doc().elements["sticky-1"]?.data).toMatchObject({ autoSize: "fit" });
+
+    context().history.undo();
+    context().history.undo();
+    expect(stickies.getColor(sticky)).toBe("yellow");
+    expect(docHandle.doc().elements["sticky-1"]?.data).toMatchObject({ color: "yellow", autoSize: "grow" });
+    harness.destroy();
+  });
+
+  test("editing the text records one history entry", async () => {
+    const { harness, docHandle, context } = await createStickyHarness([createStickyElement()]);
+    const sticky = harness.staticForegroundLayer.findOne<Konva.Shape>("#sticky-1")!;
+
+    context().capabilities.stickies?.edit(sticky);
+    const textarea = context().stage.container().querySelector<HTMLTextAreaElement>('textarea[aria-label="Sticky note text"]')!;
+    expect(context().state.editingTextId).toBe("sticky-1");
+
+    textarea.value = "Ship it today";
+    textarea.dispatchEvent(new Event("input"));
+    textarea.dispatchEvent(new KeyboardEvent("keydown", { key: "Escape" }));
+    expect(context().state.editingTextId).toBeNull();
+    expect(docHandle.doc().elements["sticky-1"]?.data).toMatchObject({ text: "Ship it today" });
+
+    context().history.undo();
+    expect(docHandle.doc().elements["sticky-1"]?.data).toMatchObject({ text: "Ship it" });
+    harness.destroy();
+  });
+});
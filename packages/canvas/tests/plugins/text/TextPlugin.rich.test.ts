@@ -0,0 +1,104 @@
+import Konva from "konva";
+import type { TElement, TTextData } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { describe, expect, test } from "vitest";
+import { SceneHydratorPlugin, TextPlugin, type IPluginContext } from "../../../src/plugins";
+import { applyTextFormatCommand, continueTextList, getTextFormatCommand } from "../../../src/plugins/Text/Text.formatting";
+import { createCanvasTestHarness, createMockDocHandle, flushCanvasEffects } from "../../test-setup";
+
+function createTextElement(data: Partial<TTextData>): TElement {
+  return {
+    id: "rich-text-1",
+    x: 40,
+    y: 60,
+    rotation: 0,
+    zIndex: "z00000001",
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: 1,
+    updatedAt: 1,
+    style: {},
+    data: { type: "text", w: 200, h: 60, text: "", originalText: "", fontSize: 16, fontFamily: "Arial", textAlign: "left", verticalAlign: "top", lineHeight: 1.2, link: null, containerId: null, autoResize: true, ...data },
+  };
+}
+
+async function createRichTextHarness(element: TElement) {
+  let pluginContext!: IPluginContext;
+  const docHandle = createMockDocHandle({ elements: { [element.id]: element } });
+  const harness = await createCanvasTestHarness({
+    docHandle,
+    plugins: [new TextPlugin(), new SceneHydratorPlugin()],
+    initializeScene(context) {
+      pluginContext = context;
+    },
+  });
+  await flushCanvasEffects();
+
+  return { harness, docHandle, context: () => pluginContext };
+}
+
+describe("TextPlugin – rich text", () => {
+  test("hydrates markdown as formatted text and keeps the plain fallback", async () => {
+    const { harness, context } = await createRichTextHarness(createTextElement({ text: "Plan\n• ship", originalText: "Plan\n• ship", markdown: "# Plan\n- **ship**" }));
+    const node = harness.staticForegroundLayer.findOne<Konva.Text>("#rich-text-1")!;
+
+    expect(node.text()).toBe("Plan\n• ship");
+    expect(node.getAttr("sceneFunc")).toBeTypeOf("function");
+    expect(context().capabilities.toElement?.(node)?.data).toMatchObject({ text: "Plan\n• ship", markdown: "# Plan\n- **ship**" });
+    harness.destroy();
+  });
+
+  test("falls back to plain text when an older client rewrote the text", async () => {
+    const { harness, context } = await createRichTextHarness(createTextElement({ text: "edited elsewhere", originalText: "edited elsewhere", markdown: "**bold**" }));
+    const node = harness.staticForegroundLayer.findOne<Konva.Text>("#rich-text-1")!;
+
+    expect(node.getAttr("sceneFunc")).toBeUndefined();
+    expect(context().capabilities.toElement?.(node)?.data).toMatchObject({ text: "edited elsewhere", markdown: null });
+    harness.destroy();
+  });
+
+  test("edits the markdown source with shortcuts and undoes as one step", async () => {
+    const { harness, docHandle, context } = await createRichTextHarness(createTextElement({ text: "ship it", originalText: "ship it" }));
+    const node = harness.staticForegroundLayer.findOne<Konva.Text>("#rich-text-1")!;
+
+    TextPlugin.enterEditMode(context(), node, false);
+    const textarea = context().stage.container().querySelector("textarea") as HTMLTextAreaElement;
+    expect(textarea.value).toBe("ship it");
+    textarea.setSelectionRange(0, 4);
+    textarea.dispatchEvent(new KeyboardEvent("keydown", { key: "b", code: "KeyB", metaKey: true }));
+    expect(textarea.value).toBe("**ship** it");
+
+    textarea.dispatchEvent(new Event("blur"));
+    await flushCanvasEffects();
+    expect(node.text()).toBe("ship it");
+    expect(docHandle.doc().elements["rich-text-1"]?.data).toMatchObject({ text: "ship it", markdown: "**ship** it" });
+
+    context().history.undo();
+    await flushCanvasEffects();
+    expect(node.getAttr("sceneFunc")).toBeUndefined();
+    expect(docHandle.doc().elements["rich-text-1"]?.data).toMatchObject({ text: "ship it", markdown: null });
+    harness.destroy();
+  });
+});
+
+describe("Text formatting commands", () => {
+  test("maps shortcuts and toggles inline markers", () => {
+    const bold = getTextFormatCommand({ key: "b", code: "KeyB", metaKey: false, ctrlKey: true, shiftKey: false, altKey: false })!;
+    const wrapped = applyTextFormatCommand({ value: "a word", selectionStart: 2, selectionEnd: 6 }, bold);
+    expect(wrapped).toEqual({ value: "a **word**", selectionStart: 4, selectionEnd: 8 });
+    expect(applyTextFormatCommand(wrapped, bold)).toEqual({ value: "a word", selectionStart: 2, selectionEnd: 6 });
+
+    expect(applyTextFormatCommand({ value: "docs", selectionStart: 0, selectionEnd: 4 }, { kind: "link" })).toEqual({ value: "[docs](https://)", selectionStart: 7, selectionEnd: 15 });
+  });
+
+  test("toggles lists and headings on the selected lines and continues lists on Enter", () => {
+    const numbered = applyTextFormatCommand({ value: "one\ntwo", selectionStart: 0, selectionEnd: 7 }, { kind: "list", list: "numbered" });
+    expect(numbered.value).toBe("1. one\n2. two");
+    expect(applyTextFormatCommand(numbered, { kind: "list", list: "numbered" }).value).toBe("one\ntwo");
+    expect(applyTextFormatCommand({ value: "## Title", selectionStart: 3, selectionEnd: 3 }, { kind: "heading", level: 1 }).value).toBe("# Title");
+
+    expect(continueTextList({ value: "2. two", selectionStart: 6, selectionEnd: 6 })).toEqual({ value: "2. two\n3. ", selectionStart: 10, selectionEnd: 10 });
+    expect(continueTextList({ value: "- a\n- ", selectionStart: 6, selectionEnd: 6 })).toEqual({ value: "- a\n", selectionStart: 4, selectionEnd: 4 });
+    expect(continueTextList({ value: "plain", selectionStart: 5, selectionEnd: 5 })).toBeNull();
+  });
+});
@@ -250,4 +250,20 @@ describe("Crdt", () => {
     expect(consumedStates).toEqual([true]);
     expect(crdt.consumePendingLocalChangeEvent()).toBe(false);
   });
+
+  test("derived patches are own changes that no history entry takes", async () => {
+    const element = createImageElement();
+    const handle = await createLocalHandle({ elements: { [element.id]: element } });
+    const crdt = new Crdt(handle);
+    const other = new Crdt(handle);
+    const before = crdt.heads();
+
+    crdt.patchDerived({ elements: [{ id: element.id, x: 40 }], groups: [] });
+
+    expect(handle.doc()!.elements[element.id]!.x).toBe(40);
+    expect(crdt.takeLocalChanges()).toEqual([]);
+    expect(crdt.hasOwnChangesSince(before)).toBe(true);
+    expect(crdt.hasForeignChangesSince(before)).toBe(false);
+    expect(other.hasOwnChangesSince(before)).toBe(false);
+  });
 });
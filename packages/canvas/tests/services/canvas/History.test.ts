@@ -0,0 +1,142 @@
+import { Repo, type DocHandle, type PeerId } from "@automerge/automerge-repo";
+import { fnBuildCanvasEditChangeOptions } from "@vibecanvas/canvas-cmds/core/fn.history";
+import type { TCanvasDoc, TElement, TPresentationSlide } from "@vibecanvas/service-automerge/types/canvas-doc";
+import { describe, expect, test } from "vitest";
+import { Crdt } from "../../../src/services/canvas/crdt";
+import { History } from "../../../src/services/canvas/History";
+
+async function createLocalHandle(elements: TElement[]): Promise<DocHandle<TCanvasDoc>> {
+  const repo = new Repo({
+    peerId: `test-${crypto.randomUUID()}` as PeerId,
+  });
+
+  const handle = repo.create<TCanvasDoc>({
+    id: "canvas-1",
+    name: "Canvas 1",
+    elements: Object.fromEntries(elements.map((element) => [element.id, element])),
+    groups: {},
+  });
+
+  await handle.whenReady();
+
+  return handle;
+}
+
+function createRectElement(overrides?: Partial<TElement>): TElement {
+  return {
+    id: "rect-1",
+    x: 0,
+    y: 0,
+    rotation: 0,
+    zIndex: "a0",
+    parentGroupId: null,
+    bindings: [],
+    locked: false,
+    createdAt: 1,
+    updatedAt: 1,
+    data: { type: "rect", w: 100, h: 80 },
+    style: { backgroundColor: "#fff", strokeColor: "#111", strokeWidth: 1, opacity: 1 },
+    ...overrides,
+  };
+}
+
+function createMemoryStorage() {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+  };
+}
+
+function moveWithHistory(crdt: Crdt, history: History, from: { x: number; y: number }, to: { x: number; y: number }) {
+  crdt.patch({ elements: [{ id: "rect-1", ...to }], groups: [] });
+  history.record({
+    label: "drag-shape",
+    undo: () => crdt.patch({ elements: [{ id: "rect-1", ...from }], groups: [] }),
+    redo: () => crdt.patch({ elements: [{ id: "rect-1", ...to }], groups: [] }),
+  });
+}
+
+describe("History", () => {
+  test("undoes and redoes changes recorded before a reload", async () => {
+    const handle = await createLocalHandle([createRectElement()]);
+    const storage = createMemoryStorage();
+    const crdt = new Crdt(handle, { origin: "web:client-1" });
+    moveWithHistory(crdt, new History({ crdt, storage, storageKey: "history" }), { x: 0, y: 0 }, { x: 40, y: 10 });
+
+    const reloadedCrdt = new Crdt(handle, { origin: "web:client-1" });
+    const reloaded = new History({ crdt: reloadedCrdt, storage, storageKey: "history" });
+    expect(reloaded.canUndo()).toBe(true);
+
+    expect(reloaded.undo()).toBe(true);
+    expect(handle.doc()!.elements["rect-1"]).toMatchObject({ x: 0, y: 0 });
+
+    expect(reloaded.redo()).toBe(true);
+    expect(handle.doc()!.elements["rect-1"]).toMatchObject({ x: 40, y: 10 });
+  });
+
+  test("does not restore stacks another tab persisted under the same key", async () => {
+    const handle = await createLocalHandle([createRectElement()]);
+    const storage = createMemoryStorage();
+    const crdt = new Crdt(handle, { origin: "web:tab-1" });
+    moveWithHistory(crdt, new History({ crdt, storage, storageKey: "history" }), { x: 0, y: 0 }, { x: 40, y: 10 });
+
+    const otherTab = new History({ crdt: new Crdt(handle, { origin: "web:tab-2" }), storage, storageKey: "history" });
+    expect(otherTab.canUndo()).toBe(false);
+    expect(new History({ crdt: new Crdt(handle, { origin: "web:tab-1" }), storage, storageKey: "history" }).canUndo()).toBe(true);
+  });
+
+  test("keeps values other origins changed after the recorded action", async () => {
+    const handle = await createLocalHandle([createRectElement()]);
+    const crdt = new Crdt(handle, { origin: "web:client-1" });
+    const history = new History({ crdt });
+    moveWithHistory(crdt, history, { x: 0, y: 0 }, { x: 40, y: 10 });
+
+    handle.change((doc) => {
+      doc.elements["rect-1"]!.x = 90;
+    }, fnBuildCanvasEditChangeOptions("agent-1", "canvas.move"));
+
+    history.undo();
+    expect(handle.doc()!.elements["rect-1"]).toMatchObject({ x: 90, y: 0 });
+  });
+
+  test("records a restore as one step that undo reverts", async () => {
+    const handle = await createLocalHandle([createRectElement()]);
+    const crdt = new Crdt(handle, { origin: "web:client-1" });
+    const history = new History({ crdt });
+    const initialHeads = crdt.heads();
+    moveWithHistory(crdt, history, { x: 0, y: 0 }, { x: 40, y: 10 });
+
+    expect(crdt.restore(initialHeads).updatedIds).toEqual(["rect-1"]);
+    expect(history.recordLocalChanges("restore-canvas")).toBe(true);
+    expect(handle.doc()!.elements["rect-1"]).toMatchObject({ x: 0, y: 0 });
+
+    history.undo();
+    expect(handle.doc()!.elements["rect-1"]).toMatchObject({ x: 40, y: 10 });
+  });
+
+  test("undoes slide changes recorded before a reload", async () => {
+    const handle = await createLocalHandle([createRectElement()]);
+    const storage = createMemoryStorage();
+    const crdt = new Crdt(handle, { origin: "web:client-1" });
+    const history = new History({ crdt, storage, storageKey: "history" });
+    const first: TPresentationSlide = { id: "slide-1", title: "Intro", notes: "", target: { type: "viewport", x: 0, y: 0, w: 100, h: 80 } };
+    const second: TPresentationSlide = { id: "slide-2", title: "Details", notes: "", target: { type: "frame", frameId: "frame-1" } };
+    const setSlidesWithHistory = (before: TPresentationSlide[], after: TPresentationSlide[]) => {
+      crdt.setSlides(after);
+      history.record({ label: "add-slide", undo: () => crdt.setSlides(before), redo: () => crdt.setSlides(after) });
+    };
+    setSlidesWithHistory([], [first]);
+    setSlidesWithHistory([first], [first, second]);
+
+    const reloaded = new History({ crdt: new Crdt(handle, { origin: "web:client-1" }), storage, storageKey: "history" });
+    expect(reloaded.undo()).toBe(true);
+    expect(handle.doc()!.presentation?.slides.map((slide) => slide.id)).toEqual(["slide-1"]);
+
+    expect(reloaded.undo()).toBe(true);
+    expect(handle.doc()!.presentation).toBeUndefined();
+
+    expect(reloaded.redo()).toBe(true);
+    expect(handle.doc()!.presentation?.slides.map((slide) => slide.id)).toEqual(["slide-1"]);
+  });
+});
@@ -12,14 +12,21 @@ import type {
   zEllipseData,
   zFileData,
   zFiletreeData,
+  zFrameData,
   zGroup,
   zIframeBrowserData,
   zIframeBrowserTab,
   zImageData,
   zLineData,
+  zNoteData,
   zPenData,
   zPoint2D,
+  zPresentation,
+  zPresentationSlide,
+  zPresentationSlideTarget,
   zRectData,
+  zStickyColor,
+  zStickyData,
   zTerminalData,
   zTextData,
 } from './canvas-doc.zod';
@@ -39,14 +46,21 @@ export type TImageData = z.infer<typeof zImageData>;
 export type TFiletreeData = z.infer<typeof zFiletreeData>;
 export type TTerminalData = z.infer<typeof zTerminalData>;
 export type TFileData = z.infer<typeof zFileData>;
+export type TNoteData = z.infer<typeof zNoteData>;
+export type TFrameData = z.infer<typeof zFrameData>;
+export type TStickyColor = z.infer<typeof zStickyColor>;
+export type TStickyData = z.infer<typeof zStickyData>;
 export type TIframeBrowserTab = z.infer<typeof zIframeBrowserTab>;
 export type TIframeBrowserData = z.infer<typeof zIframeBrowserData>;
 export type TElementData = z.infer<typeof zElementData>;
 export type TElementStyle = z.infer<typeof zElementStyle>;
 export type TElement = z.infer<typeof zElement>;
 export type TGroup = z.infer<typeof zGroup>;
+export type TPresentationSlideTarget = z.infer<typeof zPresentationSlideTarget>;
+export type TPresentationSlide = z.infer<typeof zPresentationSlide>;
+export type TPresentation = z.infer<typeof zPresentation>;
 export type TCanvasDoc = z.infer<typeof zCanvasDoc>;
 
 export type TElementType = TElementData['type'];
-export type TDrawingType = 'rect' | 'ellipse' | 'diamond' | 'arrow' | 'line' | 'pen' | 'text' | 'image';
-export type TWidgetType = 'filetree' | 'terminal' | 'file' | 'iframe-browser';
+export type TDrawingType = 'rect' | 'ellipse' | 'diamond' | 'arrow' | 'line' | 'pen' | 'text' | 'image' | 'frame' | 'sticky';
+export type TWidgetType = 'filetree' | 'terminal' | 'file' | 'note' | 'iframe-browser';
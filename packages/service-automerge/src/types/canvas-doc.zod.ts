@@ -17,6 +17,7 @@ export const zBaseElement = z.object({
   rotation: z.number(),
   zIndex: z.string(),
   parentGroupId: z.string().nullable(),
+  frameId: z.string().nullable().optional(),
   bindings: z.array(zBinding),
   locked: z.boolean(),
   createdAt: z.number(),
@@ -90,6 +91,7 @@ export const zTextData = z.object({
   link: z.string().nullable(),
   containerId: z.string().nullable(),
   autoResize: z.boolean(),
+  markdown: z.string().nullable().optional(),
 });
 
 export const zImageData = z.object({
@@ -143,6 +145,14 @@ export const zFileData = z.object({
   ]),
 });
 
+export const zNoteData = z.object({
+  type: z.literal('note'),
+  w: z.number(),
+  h: z.number(),
+  isCollapsed: z.boolean(),
+  markdown: z.string(),
+});
+
 export const zIframeBrowserTab = z.object({
   id: z.string(),
   url: z.string(),
@@ -158,6 +168,34 @@ export const zIframeBrowserData = z.object({
   activeTabId: z.string(),
 });
 
+export const zFrameData = z.object({
+  type: z.literal('frame'),
+  w: z.number(),
+  h: z.number(),
+  title: z.string(),
+  clipChildren: z.boolean(),
+});
+
+export const zStickyColor = z.union([
+  z.literal('yellow'),
+  z.literal('orange'),
+  z.literal('pink'),
+  z.literal('purple'),
+  z.literal('blue'),
+  z.literal('green'),
+]);
+
+export const zStickyData = z.object({
+  type: z.literal('sticky'),
+  w: z.number(),
+  h: z.number(),
+  text: z.string(),
+  color: zStickyColor,
+  fontSize: z.number(),
+  autoSize: z.union([z.literal('fit'), z.literal('grow')]),
+  author: z.string().nullable(),
+});
+
 export const zElementData = z.union([
   zRectData,
   zEllipseData,
@@ -170,7 +208,10 @@ export const zElementData = z.union([
   zFiletreeData,
   zTerminalData,
   zFileData,
+  zNoteData,
   zIframeBrowserData,
+  zFrameData,
+  zStickyData,
 ]);
 
 export const zElementStyle = z.object({
@@ -196,9 +237,35 @@ export const zGroup = z.object({
   createdAt: z.number(),
 });
 
+export const zPresentationSlideTarget = z.union([
+  z.object({
+    type: z.literal('frame'),
+    frameId: z.string(),
+  }),
+  z.object({
+    type: z.literal('viewport'),
+    x: z.number(),
+    y: z.number(),
+    w: z.number(),
+    h: z.number(),
+  }),
+]);
+
+export const zPresentationSlide = z.object({
+  id: z.string(),
+  title: z.string(),
+  notes: z.string(),
+  target: zPresentationSlideTarget,
+});
+
+export const zPresentation = z.object({
+  slides: z.array(zPresentationSlide),
+});
+
 export const zCanvasDoc = z.object({
   id: z.string(),
   name: z.string(),
   elements: z.record(z.string(), zElement),
   groups: z.record(z.string(), zGroup),
+  presentation: zPresentation.optional(),
 });
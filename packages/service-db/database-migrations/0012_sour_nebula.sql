@@ -0,0 +1 @@
+ALTER TABLE `canvas` ADD `forked_from_id` text;
\ No newline at end of file
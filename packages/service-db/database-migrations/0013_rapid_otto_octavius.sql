@@ -0,0 +1,12 @@
+CREATE TABLE `canvas_file_syncs` (
+	`canvas_id` text PRIMARY KEY NOT NULL,
+	`filesystem_id` text NOT NULL,
+	`path` text NOT NULL,
+	`synced_hash` text,
+	`status` text DEFAULT 'synced' NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`canvas_id`) REFERENCES `canvas`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `canvas_file_syncs_filesystem_path_idx` ON `canvas_file_syncs` (`filesystem_id`,`path`);
\ No newline at end of file
@@ -1,11 +1,13 @@
 import { Database } from 'bun:sqlite';
 import { drizzle } from 'drizzle-orm/bun-sqlite';
 import type { BunSQLiteDatabase } from 'drizzle-orm/bun-sqlite';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { fxRunDatabaseMigrations } from '../core/fx.migrations';
 import type { IDbConfig } from '../interface';
 import type {
   IDbService,
+  TCanvasFileSyncInsertArgs,
+  TCanvasFileSyncRecord,
   TCanvasInsertArgs,
   TCanvasRecord,
   TCreateFileArgs,
@@ -85,6 +87,40 @@ export class DbServiceBunSqlite implements IDbService {
       .all()[0]!,
   };
 
+  canvasFileSync = {
+    listAll: () => this.drizzle.query.canvas_file_syncs.findMany().sync() as TCanvasFileSyncRecord[],
+    findByCanvasId: (canvasId: string) => this.drizzle.query.canvas_file_syncs.findFirst({ where: eq(schema.canvas_file_syncs.canvas_id, canvasId) }).sync() as TCanvasFileSyncRecord | null,
+    findByPath: (args: { filesystem_id: string; path: string }) => this.drizzle.query.canvas_file_syncs.findFirst({
+      where: and(eq(schema.canvas_file_syncs.filesystem_id, args.filesystem_id), eq(schema.canvas_file_syncs.path, args.path)),
+    }).sync() as TCanvasFileSyncRecord | null,
+    upsert: (args: TCanvasFileSyncInsertArgs) => this.drizzle
+      .insert(schema.canvas_file_syncs)
+      .values(args)
+      .onConflictDoUpdate({
+        target: schema.canvas_file_syncs.canvas_id,
+        set: {
+          filesystem_id: args.filesystem_id,
+          path: args.path,
+          synced_hash: args.synced_hash ?? null,
+          status: args.status ?? 'synced',
+          updated_at: new Date(),
+        },
+      })
+      .returning()
+      .all()[0]!,
+    updateByCanvasId: (args: { canvas_id: string; synced_hash?: string | null; status?: TCanvasFileSyncRecord['status'] }) => this.drizzle
+      .update(schema.canvas_file_syncs)
+      .set({
+        ...(args.synced_hash !== undefined ? { synced_hash: args.synced_hash } : {}),
+        ...(args.status !== undefined ? { status: args.status } : {}),
+        updated_at: new Date(),
+      })
+      .where(eq(schema.canvas_file_syncs.canvas_id, args.canvas_id))
+      .returning()
+      .all()[0]!,
+    deleteByCanvasId: (args: { canvas_id: string }) => this.drizzle.delete(schema.canvas_file_syncs).where(eq(schema.canvas_file_syncs.canvas_id, args.canvas_id)).run(),
+  };
+
   stop() {
     this.sqlite.close();
   }
@@ -7,6 +7,8 @@ type TFileRecord = typeof schema.files.$inferSelect;
 type TFileFormat = typeof schema.files.$inferSelect['format'];
 type TFilesystemRecord = typeof schema.filesystems.$inferSelect;
 type TFilesystemInsertArgs = typeof schema.filesystems.$inferInsert;
+type TCanvasFileSyncRecord = typeof schema.canvas_file_syncs.$inferSelect;
+type TCanvasFileSyncInsertArgs = typeof schema.canvas_file_syncs.$inferInsert;
 
 type TGetFullCanvasResult = {
   canvas: TCanvasRecord;
@@ -57,10 +59,21 @@ export interface IDbService extends IService, IStoppableService {
     create(args: TFilesystemInsertArgs): TFilesystemRecord;
     updateById(args: { id: string; label?: string; kind?: 'local' | 'remote'; home_path?: string | null }): TFilesystemRecord;
   };
+  canvasFileSync: {
+    listAll(): TCanvasFileSyncRecord[];
+    findByCanvasId(canvasId: string): TCanvasFileSyncRecord | null;
+    findByPath(args: { filesystem_id: string; path: string }): TCanvasFileSyncRecord | null;
+    /** Binds the canvas to the file, replacing any earlier binding of that canvas. */
+    upsert(args: TCanvasFileSyncInsertArgs): TCanvasFileSyncRecord;
+    updateByCanvasId(args: { canvas_id: string; synced_hash?: string | null; status?: TCanvasFileSyncRecord['status'] }): TCanvasFileSyncRecord;
+    deleteByCanvasId(args: { canvas_id: string }): void;
+  };
   getFullCanvas(id: string): TGetFullCanvasResult | null;
 }
 
 export type {
+  TCanvasFileSyncInsertArgs,
+  TCanvasFileSyncRecord,
   TCanvasRecord,
   TCreateFileArgs,
   TFileFormat,
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, blob, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, blob, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { createSelectSchema } from 'drizzle-zod';
 import { sql } from 'drizzle-orm';
 
@@ -34,11 +34,27 @@ export const canvas = sqliteTable('canvas', {
   id: text('id').primaryKey(),
   name: text('name').notNull().unique(),
   automerge_url: text('automerge_url').notNull(),
+  /** Canvas this one was forked from; forks share its Automerge history and can be merged back. */
+  forked_from_id: text('forked_from_id'),
   created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
 });
 
 export const ZCanvasSelect = createSelectSchema(canvas);
 
+/** Canvas kept in two-way sync with a JSON file on a registered filesystem. */
+export const canvas_file_syncs = sqliteTable('canvas_file_syncs', {
+  canvas_id: text('canvas_id').primaryKey().references(() => canvas.id, { onDelete: 'cascade' }),
+  filesystem_id: text('filesystem_id').notNull(),
+  path: text('path').notNull(),
+  /** Hash of the serialization both sides last agreed on; null until the first successful sync. */
+  synced_hash: text('synced_hash'),
+  status: text('status', { enum: ['synced', 'conflict'] }).notNull().default('synced'),
+  created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updated_at: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+}, (table) => [
+  uniqueIndex('canvas_file_syncs_filesystem_path_idx').on(table.filesystem_id, table.path),
+]);
+
 export const files = sqliteTable('files', {
   id: text('id').primaryKey(),
   hash: text('hash').notNull(),
@@ -5,6 +5,7 @@ export class EventPublisherService implements IEventPublisherService {
   readonly name = 'eventPublisher';
 
   #db = new EventPublisher<Record<string, TDbEvent>>();
+  #canvas = new EventPublisher<Record<string, TDbEvent>>();
   #filesystem = new EventPublisher<Record<string, TFilesystemEvent>>();
   #notification = new EventPublisher<Record<string, TNotificationEvent>>();
   #latestNotification: TNotificationEvent | null = null;
@@ -17,6 +18,14 @@ export class EventPublisherService implements IEventPublisherService {
     return this.#db.subscribe(canvasId);
   }
 
+  publishCanvasEvent(event: TDbEvent): void {
+    this.#canvas.publish('global', event);
+  }
+
+  subscribeCanvasEvents(): AsyncIterable<TDbEvent> {
+    return this.#canvas.subscribe('global');
+  }
+
   publishFilesystemEvent(path: string, event: TFilesystemEvent): void {
     this.#filesystem.publish(path, event);
   }
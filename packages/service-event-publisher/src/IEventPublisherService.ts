@@ -14,6 +14,10 @@ export interface IEventPublisherService extends IService {
   publishDbEvent(canvasId: string, event: TDbEvent): void;
   subscribeDbEvents(canvasId: string): AsyncIterable<TDbEvent>;
 
+  /** Rows of the canvas table being created, renamed, or removed, e.g. for the sidebar list. */
+  publishCanvasEvent(event: TDbEvent): void;
+  subscribeCanvasEvents(): AsyncIterable<TDbEvent>;
+
   publishFilesystemEvent(path: string, event: TFilesystemEvent): void;
   subscribeFilesystemEvents(path: string): AsyncIterable<TFilesystemEvent>;
 